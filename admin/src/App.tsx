@@ -7,8 +7,12 @@ import AdsPage from "./pages/products/AdsPage";
 import AdminProfilePage from "./pages/profile/AdminProfilePage";
 import MerchantsPage from "./pages/merchants/MerchantsPage";
 import MerchantDetailPage from "./pages/merchants/MerchantDetailPage";
+import VerificationQueuePage from "./pages/merchants/VerificationQueuePage";
 import AnalyticsPage from "./pages/analytics/AnalyticsPage";
 import AnnouncementsPage from "./pages/announcements/AnnouncementsPage";
+import AnnouncementCampaignsPage from "./pages/announcements/AnnouncementCampaignsPage";
+import ReportsPage from "./pages/reports/ReportsPage";
+import StaffPage from "./pages/staff/StaffPage";
 import RequireAdmin from "./components/RequireAdmin";
 
 function App() {
@@ -21,17 +25,84 @@ function App() {
         <Route
           path="/"
           element={
-            <RequireAdmin allowedRoles={["admin"]}>
+            <RequireAdmin>
               <DashboardLayout />
             </RequireAdmin>
           }
         >
           <Route index element={<DashboardHome />} />
-          <Route path="ads" element={<AdsPage />} />
-          <Route path="announcements" element={<AnnouncementsPage />} />
-          <Route path="analytics" element={<AnalyticsPage />} />
-          <Route path="merchants" element={<MerchantsPage />} />
-          <Route path="merchants/:merchantId" element={<MerchantDetailPage />} />
+          <Route
+            path="ads"
+            element={
+              <RequireAdmin permission="ads.moderate">
+                <AdsPage />
+              </RequireAdmin>
+            }
+          />
+          <Route
+            path="reports"
+            element={
+              <RequireAdmin permission="reports.manage">
+                <ReportsPage />
+              </RequireAdmin>
+            }
+          />
+          <Route
+            path="announcements"
+            element={
+              <RequireAdmin permission="announcements.manage">
+                <AnnouncementsPage />
+              </RequireAdmin>
+            }
+          />
+          <Route
+            path="announcements/campaigns"
+            element={
+              <RequireAdmin permission="announcements.manage">
+                <AnnouncementCampaignsPage />
+              </RequireAdmin>
+            }
+          />
+          <Route
+            path="analytics"
+            element={
+              <RequireAdmin permission="analytics.view">
+                <AnalyticsPage />
+              </RequireAdmin>
+            }
+          />
+          <Route
+            path="merchants"
+            element={
+              <RequireAdmin permission="merchants.manage">
+                <MerchantsPage />
+              </RequireAdmin>
+            }
+          />
+          <Route
+            path="merchants/:merchantId"
+            element={
+              <RequireAdmin permission="merchants.manage">
+                <MerchantDetailPage />
+              </RequireAdmin>
+            }
+          />
+          <Route
+            path="verifications"
+            element={
+              <RequireAdmin permission="merchants.manage">
+                <VerificationQueuePage />
+              </RequireAdmin>
+            }
+          />
+          <Route
+            path="staff"
+            element={
+              <RequireAdmin permission="staff.manage">
+                <StaffPage />
+              </RequireAdmin>
+            }
+          />
           <Route path="profile" element={<AdminProfilePage />} />
         </Route>
       </Routes>
@@ -1,50 +1,30 @@
 import type { ReactNode } from "react";
 import { Navigate, useLocation } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
-import { api } from "../lib/api";
 import DashboardShellSkeleton from "../layouts/DashboardShellSkeleton";
-
-type MeResponse = {
-  userId?: number;
-  role?: "admin" | "merchant" | "customer";
-  firstName?: string;
-  username?: string;
-  avatarUrl?: string;
-};
-
-type Role = NonNullable<MeResponse["role"]>;
+import { hasPermission, isStaffRole, useMe, type Permission } from "../lib/permissions";
 
 export default function RequireAdmin({
   children,
-  allowedRoles = ["admin"],
+  permission,
 }: {
   children: ReactNode;
-  allowedRoles?: Role[];
+  permission?: Permission;
 }) {
   const location = useLocation();
 
-  const { data, isLoading } = useQuery({
-    queryKey: ["me"],
-    queryFn: async () => {
-      const res = await api.get<MeResponse>("/auth/me");
-      return res.data;
-    },
-    retry: false,
-    staleTime: 60_000,
-  });
+  const { data, isLoading } = useMe();
 
   if (isLoading && !data) {
     return <DashboardShellSkeleton />;
   }
 
-  if (!data?.role) {
+  if (!isStaffRole(data?.role)) {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
-  if (!allowedRoles.includes(data.role)) {
+  if (permission && !hasPermission(data, permission)) {
     return <Navigate to="/" replace />;
   }
 
   return <>{children}</>;
 }
-
@@ -110,7 +110,16 @@ export default function AdModal({
     formData.append("description", description);
     formData.append("address", address);
     formData.append("phoneNumber", phoneNumber);
-    formData.append("itemDetails", JSON.stringify(itemDetails));
+    // Only send keys of the selected category; the API rejects unknown ones.
+    const categoryKeys = new Set(dynamicFields.map((field) => field.key));
+    formData.append(
+      "itemDetails",
+      JSON.stringify(
+        Object.fromEntries(
+          Object.entries(itemDetails).filter(([key]) => categoryKeys.has(key)),
+        ),
+      ),
+    );
     if (categoryId) {
       formData.append("categoryId", categoryId);
     }
@@ -189,7 +198,8 @@ export default function AdModal({
     );
   }, [isOpen, ad]);
 
-  const dynamicFields = activeCategory?.dynamicFields ?? [];
+  const dynamicFields =
+    activeCategory?.effectiveDynamicFields ?? activeCategory?.dynamicFields ?? [];
 
   useEffect(() => {
     if (!dynamicFields.length) return;
@@ -274,7 +284,7 @@ export default function AdModal({
                   >
                     {categories.map((cat) => (
                       <SelectItem key={String(cat.id)} textValue={cat.name}>
-                        {cat.name}
+                        {`${"— ".repeat(cat.depth ?? 0)}${cat.name}`}
                       </SelectItem>
                     ))}
                   </Select>
@@ -0,0 +1,259 @@
+import { useMemo, useState } from "react";
+import { Button, Card, CardBody, Chip, addToast } from "@heroui/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { DotsSixVertical } from "@phosphor-icons/react";
+import { api } from "../../lib/api";
+import type { CategoryTreeNode } from "../../types";
+
+type CategoryPosition = { parentId: number | null; sortOrder: number };
+type DropPlacement = "before" | "inside" | "after";
+type TreeRow = { category: CategoryTreeNode; depth: number };
+
+function flattenTree(nodes: CategoryTreeNode[]): CategoryTreeNode[] {
+  return nodes.flatMap((node) => [node, ...flattenTree(node.children)]);
+}
+
+function sortedChildIds(
+  positions: Record<number, CategoryPosition>,
+  parentId: number | null,
+  excludeId?: number,
+) {
+  return Object.entries(positions)
+    .filter(([id, position]) => position.parentId === parentId && Number(id) !== excludeId)
+    .sort(([, a], [, b]) => a.sortOrder - b.sortOrder)
+    .map(([id]) => Number(id));
+}
+
+function isInsideSubtree(
+  positions: Record<number, CategoryPosition>,
+  rootId: number,
+  categoryId: number,
+) {
+  let current: number | null = categoryId;
+  while (current !== null) {
+    if (current === rootId) return true;
+    current = positions[current]?.parentId ?? null;
+  }
+  return false;
+}
+
+function moveCategory(
+  positions: Record<number, CategoryPosition>,
+  draggedId: number,
+  targetId: number,
+  placement: DropPlacement,
+): Record<number, CategoryPosition> | null {
+  if (isInsideSubtree(positions, draggedId, targetId)) return null;
+
+  const next = { ...positions };
+  const previousParentId = positions[draggedId]?.parentId ?? null;
+  const parentId = placement === "inside" ? targetId : (positions[targetId]?.parentId ?? null);
+  const siblings = sortedChildIds(positions, parentId, draggedId);
+  const targetIndex = siblings.indexOf(targetId);
+  const insertAt =
+    placement === "inside"
+      ? siblings.length
+      : targetIndex + (placement === "after" ? 1 : 0);
+  siblings.splice(insertAt, 0, draggedId);
+  siblings.forEach((id, index) => {
+    next[id] = { parentId, sortOrder: index };
+  });
+
+  if (previousParentId !== parentId) {
+    sortedChildIds(positions, previousParentId, draggedId).forEach((id, index) => {
+      next[id] = { parentId: previousParentId, sortOrder: index };
+    });
+  }
+  return next;
+}
+
+export default function CategoryTreeEditor() {
+  const queryClient = useQueryClient();
+  const [draftPositions, setDraftPositions] = useState<Record<
+    number,
+    CategoryPosition
+  > | null>(null);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<{
+    id: number;
+    placement: DropPlacement;
+  } | null>(null);
+
+  const treeQuery = useQuery<CategoryTreeNode[]>({
+    queryKey: ["categories", "tree"],
+    queryFn: async () => (await api.get("/categories/tree")).data,
+  });
+
+  const categories = useMemo(() => flattenTree(treeQuery.data ?? []), [treeQuery.data]);
+  const savedPositions = useMemo(
+    () =>
+      Object.fromEntries(
+        categories.map((category) => [
+          category.id,
+          { parentId: category.parentId ?? null, sortOrder: category.sortOrder ?? 0 },
+        ]),
+      ) as Record<number, CategoryPosition>,
+    [categories],
+  );
+  const positions = draftPositions ?? savedPositions;
+
+  const rows = useMemo(() => {
+    const byId = new Map(categories.map((category) => [category.id, category]));
+    const result: TreeRow[] = [];
+    const walk = (parentId: number | null, depth: number) => {
+      for (const id of sortedChildIds(positions, parentId)) {
+        const category = byId.get(id);
+        if (!category) continue;
+        result.push({ category, depth });
+        walk(id, depth + 1);
+      }
+    };
+    walk(null, 0);
+    return result;
+  }, [categories, positions]);
+
+  const reorderMutation = useMutation({
+    mutationFn: async (items: Array<{ id: number } & CategoryPosition>) =>
+      api.patch("/categories/reorder", { items }),
+    onSuccess: () => {
+      setDraftPositions(null);
+      queryClient.invalidateQueries({ queryKey: ["categories"] });
+      addToast({
+        title: "Category order saved",
+        description: "The catalog now uses the new category tree.",
+        color: "success",
+      });
+    },
+    onError: (error: unknown) => {
+      const message =
+        (error as { response?: { data?: { message?: string } } })?.response?.data?.message ||
+        "Failed to save category order";
+      addToast({ title: "Error", description: message, color: "danger" });
+    },
+  });
+
+  const clearDrag = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (targetId: number, placement: DropPlacement) => {
+    if (draggedId === null || draggedId === targetId) {
+      clearDrag();
+      return;
+    }
+    const next = moveCategory(positions, draggedId, targetId, placement);
+    if (next) {
+      setDraftPositions(next);
+    } else {
+      addToast({
+        title: "Move not allowed",
+        description: "A category cannot be moved inside its own subcategory.",
+        color: "warning",
+      });
+    }
+    clearDrag();
+  };
+
+  return (
+    <Card className="mb-4">
+      <CardBody className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <p className="text-sm font-semibold">Category tree</p>
+            <p className="text-xs text-default-500">
+              Drag a category onto another to nest it, or above/below to reorder. Subcategories
+              inherit dynamic fields from their parents.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="flat"
+              isDisabled={!draftPositions || reorderMutation.isPending}
+              onPress={() => setDraftPositions(null)}
+            >
+              Reset
+            </Button>
+            <Button
+              size="sm"
+              color="primary"
+              isDisabled={!draftPositions}
+              isLoading={reorderMutation.isPending}
+              onPress={() =>
+                reorderMutation.mutate(
+                  Object.entries(positions).map(([id, position]) => ({
+                    id: Number(id),
+                    ...position,
+                  })),
+                )
+              }
+            >
+              Save order
+            </Button>
+          </div>
+        </div>
+
+        {treeQuery.isLoading ? (
+          <p className="text-sm text-default-500">Loading categories...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-default-500">No categories yet.</p>
+        ) : (
+          <div className="space-y-1">
+            {rows.map(({ category, depth }) => {
+              const placement = dropTarget?.id === category.id ? dropTarget.placement : null;
+              return (
+                <div
+                  key={category.id}
+                  draggable
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = "move";
+                    event.dataTransfer.setData("text/plain", String(category.id));
+                    setDraggedId(category.id);
+                  }}
+                  onDragOver={(event) => {
+                    if (draggedId === null || draggedId === category.id) return;
+                    event.preventDefault();
+                    const rect = event.currentTarget.getBoundingClientRect();
+                    const offset = (event.clientY - rect.top) / rect.height;
+                    const nextPlacement: DropPlacement =
+                      offset < 0.25 ? "before" : offset > 0.75 ? "after" : "inside";
+                    if (dropTarget?.id !== category.id || dropTarget.placement !== nextPlacement) {
+                      setDropTarget({ id: category.id, placement: nextPlacement });
+                    }
+                  }}
+                  onDrop={(event) => {
+                    event.preventDefault();
+                    handleDrop(category.id, placement ?? "inside");
+                  }}
+                  onDragEnd={clearDrag}
+                  style={{ marginLeft: depth * 24 }}
+                  className={[
+                    "flex cursor-grab items-center gap-2 rounded-lg border px-3 py-2 text-sm transition",
+                    draggedId === category.id ? "opacity-50" : "",
+                    placement === "inside"
+                      ? "border-primary bg-primary-50"
+                      : "border-default-200",
+                    placement === "before" ? "border-t-2 border-t-primary" : "",
+                    placement === "after" ? "border-b-2 border-b-primary" : "",
+                  ].join(" ")}
+                >
+                  <DotsSixVertical className="h-4 w-4 shrink-0 text-default-400" />
+                  <span className="min-w-0 flex-1 truncate font-medium">{category.name}</span>
+                  {category.effectiveDynamicFields?.length ? (
+                    <Chip size="sm" variant="flat">
+                      {category.effectiveDynamicFields.length} fields
+                    </Chip>
+                  ) : null}
+                  <Chip size="sm" variant="flat" color="primary">
+                    {category.productCount ?? 0} ads
+                  </Chip>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -1,11 +1,23 @@
 import { api } from '../../lib/api';
 import type {
+  BroadcastCampaign,
+  BroadcastCampaignPayload,
+  BroadcastCampaignSchedulePreview,
+  BroadcastCampaignsResponse,
   BroadcastDeliveriesResponse,
   BroadcastDeliveryFilter,
+  BroadcastMessagePreview,
+  BroadcastParseMode,
   BroadcastQueueResponse,
   BroadcastRunDetail,
+  BroadcastRun,
   BroadcastRunsResponse,
+  BroadcastScheduleSettings,
+  BroadcastSegment,
+  BroadcastSegmentPreview,
+  BroadcastSegmentRules,
   BroadcastUsersResponse,
+  BroadcastVariantReport,
   CreateBroadcastPayload,
 } from './types';
 
@@ -17,11 +29,33 @@ export async function createBroadcast(payload: CreateBroadcastPayload) {
   if (images.length > 0) {
     const formData = new FormData();
     formData.append('message', payload.message);
+    if (payload.variants && payload.variants.length > 0) {
+      formData.append('variants', JSON.stringify(payload.variants));
+    }
+    if (payload.trackLinks) {
+      formData.append('trackLinks', 'true');
+    }
+    if (payload.buttons && payload.buttons.length > 0) {
+      formData.append('buttons', JSON.stringify(payload.buttons));
+    }
+    formData.append('parseMode', payload.parseMode);
     formData.append('kind', payload.kind);
     formData.append('target', payload.target);
     if (payload.userIds && payload.userIds.length > 0) {
       formData.append('userIds', JSON.stringify(payload.userIds));
     }
+    if (payload.segmentId) {
+      formData.append('segmentId', String(payload.segmentId));
+    }
+    if (payload.segmentRules) {
+      formData.append('segmentRules', JSON.stringify(payload.segmentRules));
+    }
+    if (payload.scheduledAt) {
+      formData.append('scheduledAt', payload.scheduledAt);
+    }
+    if (payload.respectQuietHours !== undefined) {
+      formData.append('respectQuietHours', String(payload.respectQuietHours));
+    }
     for (const image of images) {
       formData.append('images', image);
     }
@@ -38,9 +72,30 @@ export async function createBroadcast(payload: CreateBroadcastPayload) {
 
   const response = await api.post<BroadcastQueueResponse>('/announcements', {
     message: payload.message,
+    variants: payload.variants,
+    trackLinks: payload.trackLinks,
+    buttons: payload.buttons,
+    parseMode: payload.parseMode,
     kind: payload.kind,
     target: payload.target,
     userIds: payload.userIds,
+    segmentId: payload.segmentId,
+    segmentRules: payload.segmentRules,
+    scheduledAt: payload.scheduledAt,
+    respectQuietHours: payload.respectQuietHours,
+  });
+  return response.data;
+}
+
+export async function previewBroadcastMessage(
+  message: string,
+  userId: number,
+  parseMode: BroadcastParseMode,
+) {
+  const response = await api.post<BroadcastMessagePreview>('/announcements/preview', {
+    message,
+    userId,
+    parseMode,
   });
   return response.data;
 }
@@ -57,6 +112,13 @@ export async function getBroadcastRun(runId: number) {
   return response.data;
 }
 
+export async function getBroadcastVariantReport(runId: number) {
+  const response = await api.get<BroadcastVariantReport>(
+    `/announcements/runs/${runId}/variants`,
+  );
+  return response.data;
+}
+
 export async function listBroadcastDeliveries(
   runId: number,
   page: number,
@@ -106,9 +168,151 @@ export async function deleteBroadcastRun(runId: number) {
   return response.data;
 }
 
+export async function listBroadcastCalendar(from: Date, to: Date) {
+  const response = await api.get<BroadcastRun[]>('/announcements/runs/calendar', {
+    params: { from: from.toISOString(), to: to.toISOString() },
+  });
+  return response.data;
+}
+
+export async function rescheduleBroadcast(runId: number, scheduledAt: string | null) {
+  const response = await api.patch<BroadcastRun>(
+    `/announcements/runs/${runId}/schedule`,
+    { scheduledAt },
+  );
+  return response.data;
+}
+
+export async function getBroadcastScheduleSettings() {
+  const response = await api.get<BroadcastScheduleSettings>(
+    '/announcements/schedule-settings',
+  );
+  return response.data;
+}
+
 export async function requeueUnknownDeliveries(runId: number) {
   const response = await api.post<{ runId: number; requeued: number }>(
     `/announcements/runs/${runId}/requeue-unknown`,
   );
   return response.data;
 }
+
+export async function listBroadcastCampaigns(page: number, limit: number) {
+  const response = await api.get<BroadcastCampaignsResponse>('/announcements/campaigns', {
+    params: { page, limit },
+  });
+  return response.data;
+}
+
+export async function createBroadcastCampaign(payload: BroadcastCampaignPayload) {
+  const formData = new FormData();
+  formData.append('name', payload.name);
+  formData.append('scheduleRule', payload.scheduleRule);
+  if (payload.timeZone) {
+    formData.append('timeZone', payload.timeZone);
+  }
+  formData.append('message', payload.message);
+  formData.append('kind', payload.kind);
+  formData.append('target', payload.target);
+  formData.append('respectQuietHours', String(payload.respectQuietHours));
+  if (payload.userIds && payload.userIds.length > 0) {
+    formData.append('userIds', JSON.stringify(payload.userIds));
+  }
+  if (payload.segmentId) {
+    formData.append('segmentId', String(payload.segmentId));
+  }
+  for (const image of payload.images ?? []) {
+    formData.append('images', image);
+  }
+
+  const response = await api.post<BroadcastCampaign>('/announcements/campaigns', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+  });
+  return response.data;
+}
+
+export async function updateBroadcastCampaign(
+  campaignId: number,
+  payload: Partial<Omit<BroadcastCampaignPayload, 'images'>>,
+) {
+  const response = await api.patch<BroadcastCampaign>(
+    `/announcements/campaigns/${campaignId}`,
+    payload,
+  );
+  return response.data;
+}
+
+export async function pauseBroadcastCampaign(campaignId: number) {
+  const response = await api.post<BroadcastCampaign>(
+    `/announcements/campaigns/${campaignId}/pause`,
+  );
+  return response.data;
+}
+
+export async function resumeBroadcastCampaign(campaignId: number) {
+  const response = await api.post<BroadcastCampaign>(
+    `/announcements/campaigns/${campaignId}/resume`,
+  );
+  return response.data;
+}
+
+export async function deleteBroadcastCampaign(campaignId: number) {
+  const response = await api.delete<{ id: number; deleted: boolean }>(
+    `/announcements/campaigns/${campaignId}`,
+  );
+  return response.data;
+}
+
+export async function listBroadcastCampaignRuns(
+  campaignId: number,
+  page: number,
+  limit: number,
+) {
+  const response = await api.get<BroadcastRunsResponse>(
+    `/announcements/campaigns/${campaignId}/runs`,
+    { params: { page, limit } },
+  );
+  return response.data;
+}
+
+export async function previewBroadcastCampaignSchedule(
+  scheduleRule: string,
+  timeZone?: string,
+) {
+  const response = await api.get<BroadcastCampaignSchedulePreview>(
+    '/announcements/campaigns/schedule-preview',
+    { params: { scheduleRule, timeZone: timeZone || undefined } },
+  );
+  return response.data;
+}
+
+export async function listBroadcastSegments() {
+  const response = await api.get<BroadcastSegment[]>('/announcements/segments');
+  return response.data;
+}
+
+export async function createBroadcastSegment(name: string, rules: BroadcastSegmentRules) {
+  const response = await api.post<BroadcastSegment>('/announcements/segments', { name, rules });
+  return response.data;
+}
+
+export async function deleteBroadcastSegment(segmentId: number) {
+  const response = await api.delete<{ id: number; deleted: boolean }>(
+    `/announcements/segments/${segmentId}`,
+  );
+  return response.data;
+}
+
+export async function previewBroadcastSegmentRules(rules: BroadcastSegmentRules) {
+  const response = await api.post<BroadcastSegmentPreview>('/announcements/segments/preview', {
+    rules,
+  });
+  return response.data;
+}
+
+export async function previewBroadcastSegment(segmentId: number) {
+  const response = await api.get<BroadcastSegmentPreview>(
+    `/announcements/segments/${segmentId}/preview`,
+  );
+  return response.data;
+}
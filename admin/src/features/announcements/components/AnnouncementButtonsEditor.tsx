@@ -0,0 +1,244 @@
+import { useMemo } from 'react';
+import { Button, Checkbox, Chip, Input, Select, SelectItem } from '@heroui/react';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowSquareOut, CursorClick, Plus, Trash } from '@phosphor-icons/react';
+import { api } from '../../../lib/api';
+import type { Category, PaginatedResponse } from '../../../types';
+import type {
+  BroadcastButton,
+  BroadcastButtonType,
+  BroadcastKind,
+  BroadcastParseMode,
+} from '../types';
+import {
+  MAX_BROADCAST_BUTTONS,
+  buttonTypeOptions,
+  canUnsubscribeFromKind,
+  getButtonsError,
+  groupButtonRows,
+  toPreviewText,
+} from '../utils';
+
+type AnnouncementButtonsEditorProps = {
+  kind: BroadcastKind;
+  message: string;
+  parseMode: BroadcastParseMode;
+  buttons: BroadcastButton[];
+  onButtonsChange: (buttons: BroadcastButton[]) => void;
+};
+
+const defaultButtonText: Record<BroadcastButtonType, string> = {
+  url: 'Learn more',
+  ad: 'View ad',
+  category: 'Browse category',
+  unsubscribe: 'Unsubscribe from promotions',
+};
+
+function toPositiveId(value: string) {
+  const parsed = Number.parseInt(value.trim(), 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+export function AnnouncementButtonsEditor({
+  kind,
+  message,
+  parseMode,
+  buttons,
+  onButtonsChange,
+}: AnnouncementButtonsEditorProps) {
+  const categoriesQuery = useQuery<PaginatedResponse<Category>>({
+    queryKey: ['categories', 'select-options'],
+    queryFn: async () =>
+      (
+        await api.get('/categories', {
+          params: { page: 1, limit: 100 },
+        })
+      ).data,
+    enabled: buttons.some((button) => button.type === 'category'),
+  });
+  const categories = useMemo(() => categoriesQuery.data?.data ?? [], [categoriesQuery.data]);
+
+  const availableTypes = buttonTypeOptions.filter(
+    (option) => option.key !== 'unsubscribe' || canUnsubscribeFromKind(kind),
+  );
+  const buttonsError = getButtonsError(buttons, kind);
+  const previewText = toPreviewText(message, parseMode).trim();
+
+  const updateButton = (index: number, patch: Partial<BroadcastButton>) => {
+    onButtonsChange(
+      buttons.map((button, currentIndex) =>
+        currentIndex === index ? { ...button, ...patch } : button,
+      ),
+    );
+  };
+
+  const changeType = (index: number, type: BroadcastButtonType) => {
+    const current = buttons[index];
+    const keepsText =
+      current.text.trim() !== '' && current.text !== defaultButtonText[current.type];
+    updateButton(index, {
+      type,
+      text: keepsText ? current.text : defaultButtonText[type],
+      url: undefined,
+      adId: undefined,
+      categoryId: undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-default-200 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <CursorClick className="h-4 w-4 text-default-500" />
+          <p className="text-sm font-medium">Buttons</p>
+        </div>
+        <Button
+          size="sm"
+          variant="flat"
+          isDisabled={buttons.length >= MAX_BROADCAST_BUTTONS}
+          startContent={<Plus className="h-3.5 w-3.5" />}
+          onPress={() =>
+            onButtonsChange([...buttons, { type: 'url', text: defaultButtonText.url, url: '' }])
+          }
+        >
+          Add button
+        </Button>
+      </div>
+
+      {buttons.length === 0 ? (
+        <p className="text-xs text-default-500">
+          Add links to an ad, a category or any page. News and promotions can also offer an
+          unsubscribe button.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {buttons.map((button, index) => (
+            <div key={index} className="space-y-2 rounded-lg bg-default-50 p-3">
+              <div className="grid grid-cols-1 gap-2 md:grid-cols-3">
+                <Select
+                  size="sm"
+                  label="Action"
+                  selectedKeys={new Set([button.type])}
+                  onSelectionChange={(keys) => {
+                    const key = Array.from(keys)[0];
+                    if (!key) return;
+                    changeType(index, String(key) as BroadcastButtonType);
+                  }}
+                >
+                  {availableTypes.map((option) => (
+                    <SelectItem key={option.key}>{option.label}</SelectItem>
+                  ))}
+                </Select>
+                <Input
+                  size="sm"
+                  label="Label"
+                  value={button.text}
+                  maxLength={64}
+                  onValueChange={(value) => updateButton(index, { text: value })}
+                />
+                {button.type === 'url' ? (
+                  <Input
+                    size="sm"
+                    type="url"
+                    label="Link"
+                    placeholder="https://"
+                    value={button.url ?? ''}
+                    onValueChange={(value) => updateButton(index, { url: value })}
+                  />
+                ) : null}
+                {button.type === 'ad' ? (
+                  <Input
+                    size="sm"
+                    type="number"
+                    min={1}
+                    label="Ad ID"
+                    description="Must be an approved ad."
+                    value={button.adId ? String(button.adId) : ''}
+                    onValueChange={(value) => updateButton(index, { adId: toPositiveId(value) })}
+                  />
+                ) : null}
+                {button.type === 'category' ? (
+                  <Select
+                    size="sm"
+                    label="Category"
+                    selectedKeys={
+                      button.categoryId ? new Set([String(button.categoryId)]) : new Set<string>()
+                    }
+                    onSelectionChange={(keys) => {
+                      const key = Array.from(keys)[0];
+                      updateButton(index, {
+                        categoryId: key ? Number(key) : undefined,
+                      });
+                    }}
+                    isLoading={categoriesQuery.isLoading}
+                  >
+                    {categories.map((category) => (
+                      <SelectItem key={String(category.id)} textValue={category.name}>
+                        {`${'— '.repeat(category.depth ?? 0)}${category.name}`}
+                      </SelectItem>
+                    ))}
+                  </Select>
+                ) : null}
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <Checkbox
+                  size="sm"
+                  isDisabled={index === 0}
+                  isSelected={index > 0 && button.sameRow === true}
+                  onValueChange={(value) => updateButton(index, { sameRow: value })}
+                >
+                  Same row as previous button
+                </Checkbox>
+                <Button
+                  size="sm"
+                  variant="light"
+                  color="danger"
+                  startContent={<Trash className="h-3.5 w-3.5" />}
+                  onPress={() =>
+                    onButtonsChange(buttons.filter((_, currentIndex) => currentIndex !== index))
+                  }
+                >
+                  Remove
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {buttonsError && buttons.length > 0 ? (
+        <Chip variant="flat" color="danger">
+          {buttonsError}
+        </Chip>
+      ) : null}
+
+      {previewText || buttons.length > 0 ? (
+        <div className="rounded-lg bg-[#e6ebee] p-3 dark:bg-default-100">
+          <p className="mb-2 text-xs text-default-500">Telegram preview</p>
+          <div className="max-w-sm space-y-1">
+            <div className="rounded-2xl rounded-bl-sm bg-white px-3 py-2 shadow-sm dark:bg-default-50">
+              <p className="whitespace-pre-wrap break-words text-sm">
+                {previewText || 'Your message'}
+              </p>
+            </div>
+            {groupButtonRows(buttons).map((row, rowIndex) => (
+              <div key={rowIndex} className="flex gap-1">
+                {row.map((button, buttonIndex) => (
+                  <div
+                    key={buttonIndex}
+                    className="relative flex min-w-0 flex-1 items-center justify-center rounded-lg bg-black/25 px-2 py-1.5 text-xs font-medium text-white"
+                  >
+                    <span className="truncate">{button.text || 'Button'}</span>
+                    {button.type !== 'unsubscribe' ? (
+                      <ArrowSquareOut className="absolute right-1 top-1 h-2.5 w-2.5" />
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useMemo, useState } from 'react';
+import { Button, Card, CardBody, Chip } from '@heroui/react';
+import {
+  CalendarBlank,
+  CaretLeft,
+  CaretRight,
+  Eye,
+  MoonStars,
+  XCircle,
+} from '@phosphor-icons/react';
+import type { BroadcastRun, BroadcastScheduleSettings } from '../types';
+import {
+  canRescheduleRun,
+  formatRunDateTime,
+  formatRunStatus,
+  getCalendarGridDays,
+  runStatusColor,
+  toDayKey,
+} from '../utils';
+
+type AnnouncementCalendarProps = {
+  month: Date;
+  runs: BroadcastRun[];
+  isLoading: boolean;
+  scheduleSettings?: BroadcastScheduleSettings;
+  isCancelling: boolean;
+  onMonthChange: (month: Date) => void;
+  onViewReport: (run: BroadcastRun) => void;
+  onReschedule: (run: BroadcastRun) => void;
+  onCancel: (run: BroadcastRun) => void;
+};
+
+const weekdayLabels = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+function runCalendarDate(run: BroadcastRun) {
+  return run.scheduledAt ?? run.createdAt;
+}
+
+export function AnnouncementCalendar({
+  month,
+  runs,
+  isLoading,
+  scheduleSettings,
+  isCancelling,
+  onMonthChange,
+  onViewReport,
+  onReschedule,
+  onCancel,
+}: AnnouncementCalendarProps) {
+  const [selectedDay, setSelectedDay] = useState(() => toDayKey(new Date()));
+  const days = useMemo(() => getCalendarGridDays(month), [month]);
+  const todayKey = toDayKey(new Date());
+
+  const runsByDay = useMemo(() => {
+    const grouped = new Map<string, BroadcastRun[]>();
+    for (const run of runs) {
+      const key = toDayKey(runCalendarDate(run));
+      grouped.set(key, [...(grouped.get(key) ?? []), run]);
+    }
+    return grouped;
+  }, [runs]);
+
+  const selectedRuns = runsByDay.get(selectedDay) ?? [];
+  const quietHours = scheduleSettings?.quietHours;
+
+  const shiftMonth = (delta: number) =>
+    onMonthChange(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+
+  return (
+    <Card>
+      <CardBody className="space-y-4 p-5">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="flex items-center gap-2">
+              <CalendarBlank className="h-5 w-5 text-primary" />
+              <h2 className="text-lg font-semibold">Schedule</h2>
+            </div>
+            <p className="text-sm text-default-500">
+              Scheduled runs appear on their send date; other runs on the day they were queued.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button isIconOnly size="sm" variant="light" onPress={() => shiftMonth(-1)}>
+              <CaretLeft className="h-4 w-4" />
+            </Button>
+            <p className="min-w-32 text-center text-sm font-medium">
+              {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+            </p>
+            <Button isIconOnly size="sm" variant="light" onPress={() => shiftMonth(1)}>
+              <CaretRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {quietHours ? (
+          <Chip
+            variant="flat"
+            color={scheduleSettings?.quietHoursActive ? 'warning' : 'default'}
+            startContent={<MoonStars className="h-4 w-4" />}
+          >
+            Quiet hours {quietHours.start}–{quietHours.end} ({scheduleSettings?.timeZone})
+            {scheduleSettings?.quietHoursActive && scheduleSettings.quietHoursEndsAt
+              ? ` · paused until ${formatRunDateTime(scheduleSettings.quietHoursEndsAt)}`
+              : ''}
+          </Chip>
+        ) : null}
+
+        <div className="grid grid-cols-7 gap-1 text-xs">
+          {weekdayLabels.map((label) => (
+            <p key={label} className="px-2 text-center font-medium text-default-500">
+              {label}
+            </p>
+          ))}
+          {days.map((day) => {
+            const key = toDayKey(day);
+            const dayRuns = runsByDay.get(key) ?? [];
+            const isOtherMonth = day.getMonth() !== month.getMonth();
+            return (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setSelectedDay(key)}
+                className={[
+                  'flex min-h-16 flex-col gap-1 rounded-lg border p-1.5 text-left transition',
+                  key === selectedDay ? 'border-primary bg-primary-50' : 'border-default-200',
+                  isOtherMonth ? 'opacity-50' : '',
+                ].join(' ')}
+              >
+                <span
+                  className={key === todayKey ? 'font-semibold text-primary' : 'text-default-600'}
+                >
+                  {day.getDate()}
+                </span>
+                {dayRuns.slice(0, 2).map((run) => (
+                  <span
+                    key={run.id}
+                    className="truncate rounded bg-default-100 px-1 text-[11px] capitalize"
+                  >
+                    {new Date(runCalendarDate(run)).toLocaleTimeString(undefined, {
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}{' '}
+                    {run.kind}
+                  </span>
+                ))}
+                {dayRuns.length > 2 ? (
+                  <span className="text-[11px] text-default-500">+{dayRuns.length - 2} more</span>
+                ) : null}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            {new Date(`${selectedDay}T00:00`).toLocaleDateString(undefined, {
+              weekday: 'long',
+              month: 'short',
+              day: 'numeric',
+            })}
+          </p>
+          {isLoading ? (
+            <p className="text-sm text-default-500">Loading schedule...</p>
+          ) : selectedRuns.length === 0 ? (
+            <p className="text-sm text-default-500">No announcements on this day.</p>
+          ) : (
+            selectedRuns.map((run) => (
+              <div
+                key={run.id}
+                className="flex flex-col gap-2 rounded-lg border border-default-200 p-3 md:flex-row md:items-center md:justify-between"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Chip size="sm" variant="flat" color={runStatusColor(run.status)}>
+                      {formatRunStatus(run.status)}
+                    </Chip>
+                    <p className="text-sm font-semibold capitalize">{run.kind}</p>
+                    <p className="text-xs text-default-500">
+                      {formatRunDateTime(runCalendarDate(run))}
+                    </p>
+                  </div>
+                  <p className="max-w-xl truncate text-xs text-default-500">{run.message}</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    startContent={<Eye className="h-3.5 w-3.5" />}
+                    onPress={() => onViewReport(run)}
+                  >
+                    Report
+                  </Button>
+                  {canRescheduleRun(run) ? (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="light"
+                        startContent={<CalendarBlank className="h-3.5 w-3.5" />}
+                        onPress={() => onReschedule(run)}
+                      >
+                        Reschedule
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="light"
+                        color="danger"
+                        isLoading={isCancelling}
+                        startContent={<XCircle className="h-3.5 w-3.5" />}
+                        onPress={() => onCancel(run)}
+                      >
+                        Cancel
+                      </Button>
+                    </>
+                  ) : null}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
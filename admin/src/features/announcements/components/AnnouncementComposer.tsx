@@ -2,6 +2,7 @@ import {
   Button,
   Card,
   CardBody,
+  Checkbox,
   Chip,
   Input,
   Select,
@@ -9,32 +10,70 @@ import {
   Textarea,
 } from '@heroui/react';
 import {
+  CalendarBlank,
   ImageSquare,
   Megaphone,
   PaperPlaneTilt,
   Trash,
 } from '@phosphor-icons/react';
 import type {
+  BroadcastButton,
   BroadcastKind,
+  BroadcastParseMode,
+  BroadcastPlaceholder,
+  BroadcastScheduleSettings,
+  BroadcastSegmentRules,
   BroadcastTarget,
   BroadcastUser,
+  BroadcastVariantInput,
 } from '../types';
-import { kindOptions, targetOptions } from '../utils';
+import {
+  findUnknownPlaceholders,
+  getButtonsError,
+  hasSegmentRules,
+  kindOptions,
+  parseModeOptions,
+  targetOptions,
+} from '../utils';
+import { AnnouncementButtonsEditor } from './AnnouncementButtonsEditor';
 import { AudienceUserPicker } from './AudienceUserPicker';
+import { MessagePersonalizationPanel } from './MessagePersonalizationPanel';
+import { SegmentBuilder } from './SegmentBuilder';
+import { VariantTestPanel } from './VariantTestPanel';
 
 type AnnouncementComposerProps = {
   kind: BroadcastKind;
   target: BroadcastTarget;
   message: string;
+  parseMode: BroadcastParseMode;
+  primaryWeight: number;
+  variants: BroadcastVariantInput[];
+  trackLinks: boolean;
+  buttons: BroadcastButton[];
   images: File[];
   selectedUsers: BroadcastUser[];
+  segmentId: number | null;
+  segmentRules: BroadcastSegmentRules;
+  scheduledAt: string;
+  respectQuietHours: boolean;
+  scheduleSettings?: BroadcastScheduleSettings;
   isSubmitting: boolean;
   onKindChange: (value: BroadcastKind) => void;
   onTargetChange: (value: BroadcastTarget) => void;
   onMessageChange: (value: string) => void;
+  onParseModeChange: (value: BroadcastParseMode) => void;
+  onInsertPlaceholder: (placeholder: BroadcastPlaceholder) => void;
+  onPrimaryWeightChange: (weight: number) => void;
+  onVariantsChange: (variants: BroadcastVariantInput[]) => void;
+  onTrackLinksChange: (value: boolean) => void;
+  onButtonsChange: (buttons: BroadcastButton[]) => void;
   onImagesChange: (files: File[]) => void;
+  onScheduledAtChange: (value: string) => void;
+  onRespectQuietHoursChange: (value: boolean) => void;
   onAddUser: (user: BroadcastUser) => void;
   onRemoveUser: (userId: number) => void;
+  onSegmentIdChange: (segmentId: number | null) => void;
+  onSegmentRulesChange: (rules: BroadcastSegmentRules) => void;
   onSubmit: () => void;
 };
 
@@ -42,23 +81,53 @@ export function AnnouncementComposer({
   kind,
   target,
   message,
+  parseMode,
+  primaryWeight,
+  variants,
+  trackLinks,
+  buttons,
   images,
   selectedUsers,
+  segmentId,
+  segmentRules,
+  scheduledAt,
+  respectQuietHours,
+  scheduleSettings,
   isSubmitting,
   onKindChange,
   onTargetChange,
   onMessageChange,
+  onParseModeChange,
+  onInsertPlaceholder,
+  onPrimaryWeightChange,
+  onVariantsChange,
+  onTrackLinksChange,
+  onButtonsChange,
   onImagesChange,
+  onScheduledAtChange,
+  onRespectQuietHoursChange,
   onAddUser,
   onRemoveUser,
+  onSegmentIdChange,
+  onSegmentRulesChange,
   onSubmit,
 }: AnnouncementComposerProps) {
   const isUsersTarget = target === 'users';
   const isBotSubscribersTarget = target === 'bot_subscribers';
   const isActiveBotSubscribersTarget = target === 'active_bot_subscribers';
+  const isSegmentTarget = target === 'segment';
   const isSubmitDisabled =
-    !message.trim() || (isUsersTarget && selectedUsers.length === 0);
+    !message.trim() ||
+    findUnknownPlaceholders(message).length > 0 ||
+    variants.some(
+      (variant) =>
+        !variant.message.trim() || findUnknownPlaceholders(variant.message).length > 0,
+    ) ||
+    getButtonsError(buttons, kind) !== null ||
+    (isUsersTarget && selectedUsers.length === 0) ||
+    (isSegmentTarget && segmentId === null && !hasSegmentRules(segmentRules));
   const remainingSlots = Math.max(0, 3 - images.length);
+  const quietHours = scheduleSettings?.quietHours;
 
   return (
     <Card>
@@ -68,7 +137,7 @@ export function AnnouncementComposer({
           <h2 className="text-lg font-semibold">Create Announcement</h2>
         </div>
 
-        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
           <Select
             label="Content Type"
             selectedKeys={new Set([kind])}
@@ -99,18 +168,55 @@ export function AnnouncementComposer({
             ))}
           </Select>
 
+          <Select
+            label="Formatting"
+            selectedKeys={new Set([parseMode])}
+            onSelectionChange={(keys) => {
+              const key = Array.from(keys)[0];
+              if (!key) return;
+              onParseModeChange(String(key) as BroadcastParseMode);
+            }}
+          >
+            {parseModeOptions.map((option) => (
+              <SelectItem key={option.key}>{option.label}</SelectItem>
+            ))}
+          </Select>
         </div>
 
         <Textarea
           label="Message"
           value={message}
           onValueChange={onMessageChange}
-          placeholder="Write your announcement/news/promotion message (HTML tags supported by Telegram)."
+          placeholder={`Write your announcement/news/promotion message (${parseMode} formatting supported by Telegram).`}
           minRows={6}
           maxRows={10}
           description="Telegram message max: 4000 characters. This will be used as caption."
         />
 
+        <MessagePersonalizationPanel
+          message={message}
+          parseMode={parseMode}
+          onInsertPlaceholder={onInsertPlaceholder}
+        />
+
+        <VariantTestPanel
+          parseMode={parseMode}
+          primaryWeight={primaryWeight}
+          variants={variants}
+          trackLinks={trackLinks}
+          onPrimaryWeightChange={onPrimaryWeightChange}
+          onVariantsChange={onVariantsChange}
+          onTrackLinksChange={onTrackLinksChange}
+        />
+
+        <AnnouncementButtonsEditor
+          kind={kind}
+          message={message}
+          parseMode={parseMode}
+          buttons={buttons}
+          onButtonsChange={onButtonsChange}
+        />
+
         <div className="space-y-2 rounded-xl border border-default-200 p-3">
           <div className="flex items-center gap-2">
             <ImageSquare className="h-4 w-4 text-default-500" />
@@ -160,6 +266,38 @@ export function AnnouncementComposer({
           ) : null}
         </div>
 
+        <div className="space-y-2 rounded-xl border border-default-200 p-3">
+          <div className="flex items-center gap-2">
+            <CalendarBlank className="h-4 w-4 text-default-500" />
+            <p className="text-sm font-medium">Delivery time</p>
+          </div>
+          <div className="flex flex-col gap-2 md:flex-row md:items-start">
+            <Input
+              type="datetime-local"
+              label="Schedule for"
+              value={scheduledAt}
+              onValueChange={onScheduledAtChange}
+              description="Your local time. Leave empty to send right away."
+              className="md:max-w-xs"
+            />
+            {scheduledAt ? (
+              <Button size="sm" variant="light" onPress={() => onScheduledAtChange('')}>
+                Clear
+              </Button>
+            ) : null}
+          </div>
+          {quietHours ? (
+            <Checkbox
+              size="sm"
+              isSelected={respectQuietHours}
+              onValueChange={onRespectQuietHoursChange}
+            >
+              Pause during quiet hours ({quietHours.start}–{quietHours.end},{' '}
+              {scheduleSettings?.timeZone})
+            </Checkbox>
+          ) : null}
+        </div>
+
         {isUsersTarget ? (
           <AudienceUserPicker
             selectedUsers={selectedUsers}
@@ -168,6 +306,15 @@ export function AnnouncementComposer({
           />
         ) : null}
 
+        {isSegmentTarget ? (
+          <SegmentBuilder
+            segmentId={segmentId}
+            rules={segmentRules}
+            onSegmentIdChange={onSegmentIdChange}
+            onRulesChange={onSegmentRulesChange}
+          />
+        ) : null}
+
         {isBotSubscribersTarget ? (
           <Chip variant="flat" color="warning">
             Sends to bot subscribers, including users who are not registered on the platform.
@@ -185,9 +332,15 @@ export function AnnouncementComposer({
             isLoading={isSubmitting}
             isDisabled={isSubmitDisabled}
             onPress={onSubmit}
-            startContent={<PaperPlaneTilt className="h-4 w-4" />}
+            startContent={
+              scheduledAt ? (
+                <CalendarBlank className="h-4 w-4" />
+              ) : (
+                <PaperPlaneTilt className="h-4 w-4" />
+              )
+            }
           >
-            Send Now
+            {scheduledAt ? 'Schedule' : 'Send Now'}
           </Button>
         </div>
       </CardBody>
@@ -29,6 +29,7 @@ import type {
   BroadcastDelivery,
   BroadcastDeliveryFilter,
 } from '../types';
+import { VariantComparisonPanel } from './VariantComparisonPanel';
 import {
   deliveryStatusColor,
   formatDeliveryStatus,
@@ -292,7 +293,9 @@ export function AnnouncementReportModal({
             <Card>
               <CardBody className="space-y-3 p-3">
                 <div>
-                  <p className="text-xs text-default-500">Caption</p>
+                  <p className="text-xs text-default-500">
+                    {run.variants ? 'Caption (variant A)' : 'Caption'}
+                  </p>
                   <p className="whitespace-pre-wrap text-sm text-default-700">{run.message}</p>
                 </div>
                 {run.imagePaths && run.imagePaths.length > 0 ? (
@@ -314,6 +317,10 @@ export function AnnouncementReportModal({
             </Card>
           ) : null}
 
+          {run && (run.variants || run.trackLinks) ? (
+            <VariantComparisonPanel runId={run.id} isRunActive={isRunActive} />
+          ) : null}
+
           <Tabs
             aria-label="Delivery filter"
             selectedKey={filter}
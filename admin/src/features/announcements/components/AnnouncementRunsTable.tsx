@@ -5,8 +5,10 @@ import { ArrowClockwise, Eye, Trash, XCircle } from '@phosphor-icons/react';
 import { DataTable } from '../../../components/table/DataTable';
 import type { BroadcastRun } from '../types';
 import {
+  formatRunDateTime,
   formatRunStatus,
   formatTargetLabel,
+  isScheduledRun,
   runStatusColor,
 } from '../utils';
 
@@ -49,6 +51,11 @@ export function AnnouncementRunsTable({
             <p className="max-w-72 truncate text-xs text-default-500">
               {row.original.message}
             </p>
+            {row.original.campaign ? (
+              <Chip size="sm" variant="flat" color="secondary">
+                Campaign: {row.original.campaign.name}
+              </Chip>
+            ) : null}
             {row.original.imagePaths && row.original.imagePaths.length > 0 ? (
               <Chip size="sm" variant="flat" color="primary">
                 {row.original.imagePaths.length} image
@@ -68,7 +75,11 @@ export function AnnouncementRunsTable({
                 row.original.targetUserIds?.length ?? 0,
               )}
             </p>
-            <p className="text-xs text-default-500">Total: {row.original.totalRecipients}</p>
+            <p className="text-xs text-default-500">
+              {row.original.awaitingRecipients
+                ? 'Recipients picked at send time'
+                : `Total: ${row.original.totalRecipients}`}
+            </p>
           </div>
         ),
       },
@@ -79,6 +90,11 @@ export function AnnouncementRunsTable({
             <Chip size="sm" variant="flat" color={runStatusColor(row.original.status)}>
               {formatRunStatus(row.original.status)}
             </Chip>
+            {isScheduledRun(row.original) && row.original.scheduledAt ? (
+              <Chip size="sm" variant="flat" color="secondary">
+                Scheduled · {formatRunDateTime(row.original.scheduledAt)}
+              </Chip>
+            ) : null}
             <p className="text-xs text-default-500">
               Sent {row.original.sentCount} · Failed {row.original.failedCount} · Unknown{' '}
               {row.original.unknownCount}
@@ -90,13 +106,7 @@ export function AnnouncementRunsTable({
         header: 'CREATED',
         cell: ({ row }) => (
           <span className="text-xs text-default-500">
-            {new Date(row.original.createdAt).toLocaleString(undefined, {
-              year: 'numeric',
-              month: 'short',
-              day: '2-digit',
-              hour: '2-digit',
-              minute: '2-digit',
-            })}
+            {formatRunDateTime(row.original.createdAt)}
           </span>
         ),
       },
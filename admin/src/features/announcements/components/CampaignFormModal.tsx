@@ -0,0 +1,295 @@
+import { useDeferredValue, useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Select,
+  SelectItem,
+  Textarea,
+} from '@heroui/react';
+import { useQuery } from '@tanstack/react-query';
+import { FloppyDisk, X } from '@phosphor-icons/react';
+import { listBroadcastSegments, previewBroadcastCampaignSchedule } from '../api';
+import type {
+  BroadcastCampaign,
+  BroadcastCampaignPayload,
+  BroadcastKind,
+  BroadcastTarget,
+  BroadcastUser,
+} from '../types';
+import {
+  campaignRulePresets,
+  formatRunDateTime,
+  kindOptions,
+  targetOptions,
+} from '../utils';
+import { AudienceUserPicker } from './AudienceUserPicker';
+
+type CampaignFormModalProps = {
+  isOpen: boolean;
+  campaign: BroadcastCampaign | null;
+  defaultTimeZone?: string;
+  isSubmitting: boolean;
+  onClose: () => void;
+  onSubmit: (payload: BroadcastCampaignPayload) => void;
+};
+
+function CampaignForm({
+  campaign,
+  defaultTimeZone,
+  isSubmitting,
+  onClose,
+  onSubmit,
+}: Omit<CampaignFormModalProps, 'isOpen'>) {
+  const [name, setName] = useState(campaign?.name ?? '');
+  const [scheduleRule, setScheduleRule] = useState(
+    campaign?.scheduleRule ?? campaignRulePresets[0].key,
+  );
+  const [timeZone, setTimeZone] = useState(campaign?.timeZone ?? defaultTimeZone ?? '');
+  const [kind, setKind] = useState<BroadcastKind>(campaign?.kind ?? 'announcement');
+  const [target, setTarget] = useState<BroadcastTarget>(campaign?.target ?? 'all');
+  const [message, setMessage] = useState(campaign?.message ?? '');
+  const [respectQuietHours, setRespectQuietHours] = useState(
+    campaign?.respectQuietHours ?? true,
+  );
+  const [selectedUsers, setSelectedUsers] = useState<BroadcastUser[]>([]);
+  const [segmentId, setSegmentId] = useState<number | null>(campaign?.segmentId ?? null);
+  const [images, setImages] = useState<File[]>([]);
+
+  const deferredRule = useDeferredValue(scheduleRule.trim());
+  const deferredTimeZone = useDeferredValue(timeZone.trim());
+  const previewQuery = useQuery({
+    queryKey: ['announcements', 'campaign-preview', deferredRule, deferredTimeZone],
+    queryFn: async () => previewBroadcastCampaignSchedule(deferredRule, deferredTimeZone),
+    enabled: deferredRule.length > 0,
+    retry: false,
+    staleTime: 60_000,
+  });
+  const segmentsQuery = useQuery({
+    queryKey: ['announcements', 'segments'],
+    queryFn: listBroadcastSegments,
+    enabled: target === 'segment',
+  });
+  const previewError = (
+    previewQuery.error as { response?: { data?: { message?: string } } } | null
+  )?.response?.data?.message;
+
+  const existingUserCount = campaign?.target === 'users' ? campaign.targetUserIds?.length ?? 0 : 0;
+  const needsUsers =
+    target === 'users' && selectedUsers.length === 0 && existingUserCount === 0;
+  const needsSegment = target === 'segment' && segmentId === null;
+  const isSubmitDisabled =
+    !name.trim() ||
+    !scheduleRule.trim() ||
+    !message.trim() ||
+    needsUsers ||
+    needsSegment ||
+    Boolean(previewError);
+  const presetKey = campaignRulePresets.some((preset) => preset.key === scheduleRule)
+    ? scheduleRule
+    : null;
+
+  return (
+    <>
+      <ModalHeader>{campaign ? 'Edit Campaign' : 'New Recurring Campaign'}</ModalHeader>
+      <ModalBody className="space-y-3">
+        <Input label="Name" value={name} onValueChange={setName} maxLength={120} />
+
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+          <Select
+            label="Common schedules"
+            selectedKeys={presetKey ? new Set([presetKey]) : new Set<string>()}
+            onSelectionChange={(keys) => {
+              const key = Array.from(keys)[0];
+              if (key) setScheduleRule(String(key));
+            }}
+          >
+            {campaignRulePresets.map((preset) => (
+              <SelectItem key={preset.key}>{preset.label}</SelectItem>
+            ))}
+          </Select>
+          <Input
+            label="Schedule rule"
+            value={scheduleRule}
+            onValueChange={setScheduleRule}
+            description="Cron format: minute hour day-of-month month day-of-week"
+            className="font-mono"
+          />
+          <Input
+            label="Time zone"
+            value={timeZone}
+            onValueChange={setTimeZone}
+            placeholder="Africa/Addis_Ababa"
+          />
+          <div className="rounded-lg border border-default-200 p-3 text-xs">
+            {previewError ? (
+              <p className="text-danger">{previewError}</p>
+            ) : previewQuery.data ? (
+              <div className="space-y-1">
+                <p className="font-medium text-default-600">Next sends</p>
+                {previewQuery.data.occurrences.slice(0, 3).map((occurrence) => (
+                  <p key={occurrence} className="text-default-500">
+                    {formatRunDateTime(occurrence)}
+                  </p>
+                ))}
+              </div>
+            ) : (
+              <p className="text-default-500">Enter a rule to preview upcoming sends.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+          <Select
+            label="Content Type"
+            selectedKeys={new Set([kind])}
+            onSelectionChange={(keys) => {
+              const key = Array.from(keys)[0];
+              if (key) setKind(String(key) as BroadcastKind);
+            }}
+          >
+            {kindOptions.map((option) => (
+              <SelectItem key={option.key}>{option.label}</SelectItem>
+            ))}
+          </Select>
+          <Select
+            label="Target Mode"
+            selectedKeys={new Set([target])}
+            onSelectionChange={(keys) => {
+              const key = Array.from(keys)[0];
+              if (!key) return;
+              setTarget(String(key) as BroadcastTarget);
+              setSelectedUsers([]);
+            }}
+          >
+            {targetOptions.map((option) => (
+              <SelectItem key={option.key} description={option.description}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </Select>
+        </div>
+
+        {target === 'users' ? (
+          <div className="space-y-1">
+            {existingUserCount > 0 ? (
+              <p className="text-xs text-default-500">
+                Currently sends to {existingUserCount} users. Pick users below to replace
+                that list.
+              </p>
+            ) : null}
+            <AudienceUserPicker
+              selectedUsers={selectedUsers}
+              onAddUser={(user) =>
+                setSelectedUsers((prev) =>
+                  prev.some((entry) => entry.id === user.id) ? prev : [...prev, user],
+                )
+              }
+              onRemoveUser={(userId) =>
+                setSelectedUsers((prev) => prev.filter((user) => user.id !== userId))
+              }
+            />
+          </div>
+        ) : null}
+
+        {target === 'segment' ? (
+          <Select
+            label="Saved segment"
+            selectedKeys={segmentId !== null ? new Set([String(segmentId)]) : new Set<string>()}
+            onSelectionChange={(keys) => {
+              const key = Array.from(keys)[0];
+              setSegmentId(key ? Number(key) : null);
+            }}
+            isLoading={segmentsQuery.isLoading}
+            description="Rules are evaluated again on every run. Build segments in the announcement composer."
+          >
+            {(segmentsQuery.data ?? []).map((segment) => (
+              <SelectItem key={String(segment.id)}>{segment.name}</SelectItem>
+            ))}
+          </Select>
+        ) : null}
+
+        <Textarea
+          label="Message"
+          value={message}
+          onValueChange={setMessage}
+          minRows={5}
+          maxRows={10}
+          maxLength={4000}
+          description="HTML tags supported by Telegram. Placeholders such as {{firstName}} are filled in per recipient."
+        />
+
+        {campaign ? (
+          campaign.imagePaths?.length ? (
+            <p className="text-xs text-default-500">
+              {campaign.imagePaths.length} image
+              {campaign.imagePaths.length === 1 ? '' : 's'} attached.
+            </p>
+          ) : null
+        ) : (
+          <Input
+            type="file"
+            accept="image/*"
+            multiple
+            label="Images (optional, up to 3)"
+            onChange={(event) => {
+              const selected = Array.from(event.target.files ?? []).filter((file) =>
+                file.type.startsWith('image/'),
+              );
+              setImages(selected.slice(0, 3));
+            }}
+          />
+        )}
+
+        <Checkbox size="sm" isSelected={respectQuietHours} onValueChange={setRespectQuietHours}>
+          Pause deliveries during quiet hours
+        </Checkbox>
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="light" onPress={onClose} startContent={<X className="h-4 w-4" />}>
+          Cancel
+        </Button>
+        <Button
+          color="primary"
+          isLoading={isSubmitting}
+          isDisabled={isSubmitDisabled}
+          startContent={<FloppyDisk className="h-4 w-4" />}
+          onPress={() =>
+            onSubmit({
+              name: name.trim(),
+              scheduleRule: scheduleRule.trim(),
+              timeZone: timeZone.trim() || undefined,
+              message: message.trim(),
+              kind,
+              target,
+              userIds:
+                target === 'users' && selectedUsers.length > 0
+                  ? selectedUsers.map((user) => user.id)
+                  : undefined,
+              segmentId: target === 'segment' && segmentId !== null ? segmentId : undefined,
+              respectQuietHours,
+              images,
+            })
+          }
+        >
+          {campaign ? 'Save' : 'Create Campaign'}
+        </Button>
+      </ModalFooter>
+    </>
+  );
+}
+
+export function CampaignFormModal({ isOpen, ...props }: CampaignFormModalProps) {
+  return (
+    <Modal isOpen={isOpen} onClose={props.onClose} size="2xl" scrollBehavior="inside">
+      <ModalContent>
+        {isOpen ? <CampaignForm key={props.campaign?.id ?? 'new'} {...props} /> : null}
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,115 @@
+import { useMemo, useState } from 'react';
+import { Button, Card, CardBody, Chip } from '@heroui/react';
+import { useQuery } from '@tanstack/react-query';
+import type { ColumnDef } from '@tanstack/react-table';
+import { Eye, X } from '@phosphor-icons/react';
+import { DataTable } from '../../../components/table/DataTable';
+import { DataTablePagination } from '../../../components/table/DataTablePagination';
+import { listBroadcastCampaignRuns } from '../api';
+import type { BroadcastCampaign, BroadcastRun } from '../types';
+import { formatRunDateTime, formatRunStatus, runStatusColor } from '../utils';
+
+type CampaignRunsHistoryProps = {
+  campaign: BroadcastCampaign;
+  onViewReport: (run: BroadcastRun) => void;
+  onClose: () => void;
+};
+
+export function CampaignRunsHistory({
+  campaign,
+  onViewReport,
+  onClose,
+}: CampaignRunsHistoryProps) {
+  const [page, setPage] = useState(1);
+  const [limit, setLimit] = useState(10);
+
+  const runsQuery = useQuery({
+    queryKey: ['announcements', 'runs', 'campaign', campaign.id, page, limit],
+    queryFn: async () => listBroadcastCampaignRuns(campaign.id, page, limit),
+  });
+
+  const runs = runsQuery.data?.data ?? [];
+  const meta = runsQuery.data?.meta;
+  const totalPages = Math.max(1, meta?.totalPages ?? 1);
+
+  const columns = useMemo<ColumnDef<BroadcastRun>[]>(
+    () => [
+      {
+        header: 'RUN',
+        cell: ({ row }) => (
+          <div className="space-y-1">
+            <p className="text-sm font-semibold">#{row.original.id}</p>
+            <p className="text-xs text-default-500">
+              {formatRunDateTime(row.original.createdAt)}
+            </p>
+          </div>
+        ),
+      },
+      {
+        header: 'STATUS',
+        cell: ({ row }) => (
+          <Chip size="sm" variant="flat" color={runStatusColor(row.original.status)}>
+            {formatRunStatus(row.original.status)}
+          </Chip>
+        ),
+      },
+      {
+        header: 'DELIVERY',
+        cell: ({ row }) => (
+          <p className="text-xs text-default-500">
+            {row.original.totalRecipients} recipients · Sent {row.original.sentCount} · Failed{' '}
+            {row.original.failedCount} · Unknown {row.original.unknownCount}
+          </p>
+        ),
+      },
+      {
+        header: 'ACTIONS',
+        cell: ({ row }) => (
+          <Button
+            size="sm"
+            variant="flat"
+            startContent={<Eye className="h-3.5 w-3.5" />}
+            onPress={() => onViewReport(row.original)}
+          >
+            Report
+          </Button>
+        ),
+      },
+    ],
+    [onViewReport],
+  );
+
+  return (
+    <Card>
+      <CardBody className="space-y-3 p-5">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold">History · {campaign.name}</h2>
+            <p className="text-sm text-default-500">
+              Every run this campaign has spawned, newest first.
+            </p>
+          </div>
+          <Button isIconOnly size="sm" variant="light" onPress={onClose} aria-label="Close history">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <DataTable columns={columns} data={runs} isLoading={runsQuery.isLoading} />
+
+        <DataTablePagination
+          pagination={{
+            count: meta?.total ?? 0,
+            page: meta?.page ?? page,
+            pageSize: meta?.limit ?? limit,
+            totalPages,
+          }}
+          onPageChange={(nextPage) => setPage(Math.min(Math.max(1, nextPage), totalPages))}
+          onPageSizeChange={(size) => {
+            setLimit(size);
+            setPage(1);
+          }}
+        />
+      </CardBody>
+    </Card>
+  );
+}
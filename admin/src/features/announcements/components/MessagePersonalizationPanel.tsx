@@ -0,0 +1,106 @@
+import { useDeferredValue, useState } from 'react';
+import { Button, Chip, Spinner } from '@heroui/react';
+import { useQuery } from '@tanstack/react-query';
+import { BracketsCurly, Eye } from '@phosphor-icons/react';
+import { previewBroadcastMessage } from '../api';
+import type { BroadcastParseMode, BroadcastPlaceholder, BroadcastUser } from '../types';
+import { findUnknownPlaceholders, hasPlaceholders, placeholderOptions } from '../utils';
+import { AudienceUserPicker } from './AudienceUserPicker';
+
+type MessagePersonalizationPanelProps = {
+  message: string;
+  parseMode: BroadcastParseMode;
+  onInsertPlaceholder: (placeholder: BroadcastPlaceholder) => void;
+};
+
+export function MessagePersonalizationPanel({
+  message,
+  parseMode,
+  onInsertPlaceholder,
+}: MessagePersonalizationPanelProps) {
+  const [previewUser, setPreviewUser] = useState<BroadcastUser | null>(null);
+  const deferredMessage = useDeferredValue(message.trim());
+  const unknownPlaceholders = findUnknownPlaceholders(message);
+  const isPersonalized = hasPlaceholders(message);
+
+  const previewQuery = useQuery({
+    queryKey: ['announcements', 'message-preview', previewUser?.id, parseMode, deferredMessage],
+    queryFn: async () =>
+      previewBroadcastMessage(deferredMessage, previewUser?.id ?? 0, parseMode),
+    enabled:
+      Boolean(previewUser) &&
+      deferredMessage.length > 0 &&
+      findUnknownPlaceholders(deferredMessage).length === 0,
+    retry: false,
+    staleTime: 30_000,
+  });
+  const previewError = (
+    previewQuery.error as { response?: { data?: { message?: string } } } | null
+  )?.response?.data?.message;
+
+  return (
+    <div className="space-y-3 rounded-xl border border-default-200 p-3">
+      <div className="flex items-center gap-2">
+        <BracketsCurly className="h-4 w-4 text-default-500" />
+        <p className="text-sm font-medium">Personalization</p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {placeholderOptions.map((option) => (
+          <Button
+            key={option.key}
+            size="sm"
+            variant="flat"
+            className="font-mono"
+            title={option.description}
+            onPress={() => onInsertPlaceholder(option.key)}
+          >
+            {`{{${option.key}}}`}
+          </Button>
+        ))}
+      </div>
+      <p className="text-xs text-default-500">
+        Placeholders are filled in per recipient. Add a fallback for empty values with{' '}
+        <span className="font-mono">{'{{firstName|there}}'}</span>.
+      </p>
+
+      {unknownPlaceholders.length > 0 ? (
+        <Chip variant="flat" color="danger">
+          Unknown placeholder{unknownPlaceholders.length === 1 ? '' : 's'}:{' '}
+          {unknownPlaceholders.map((name) => `{{${name}}}`).join(', ')}
+        </Chip>
+      ) : null}
+
+      {isPersonalized ? (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-default-600">Preview for a recipient</p>
+          <AudienceUserPicker
+            selectedUsers={previewUser ? [previewUser] : []}
+            onAddUser={setPreviewUser}
+            onRemoveUser={() => setPreviewUser(null)}
+          />
+          {previewUser ? (
+            <div className="rounded-lg bg-default-50 p-3">
+              <div className="mb-2 flex items-center gap-2 text-xs text-default-500">
+                <Eye className="h-3.5 w-3.5" />
+                {parseMode} source as sent to {previewUser.firstName || `user #${previewUser.id}`}
+              </div>
+              {previewQuery.isFetching ? (
+                <div className="flex items-center gap-2 text-xs text-default-500">
+                  <Spinner size="sm" />
+                  Rendering...
+                </div>
+              ) : previewError ? (
+                <p className="text-xs text-danger">{previewError}</p>
+              ) : previewQuery.data ? (
+                <pre className="whitespace-pre-wrap break-words font-sans text-sm">
+                  {previewQuery.data.rendered}
+                </pre>
+              ) : null}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import {
+  Button,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+} from '@heroui/react';
+import { CalendarBlank, PaperPlaneTilt, X } from '@phosphor-icons/react';
+import type { BroadcastRun } from '../types';
+import { toDateTimeLocalValue } from '../utils';
+
+type RescheduleRunModalProps = {
+  run: BroadcastRun | null;
+  isSubmitting: boolean;
+  onClose: () => void;
+  onConfirm: (scheduledAt: string | null) => void;
+};
+
+function RescheduleRunForm({
+  run,
+  isSubmitting,
+  onClose,
+  onConfirm,
+}: RescheduleRunModalProps & { run: BroadcastRun }) {
+  const [value, setValue] = useState(() =>
+    run.scheduledAt ? toDateTimeLocalValue(run.scheduledAt) : '',
+  );
+
+  return (
+    <>
+      <ModalHeader>Reschedule Announcement</ModalHeader>
+      <ModalBody className="space-y-3">
+        <p className="max-h-24 overflow-auto whitespace-pre-wrap rounded-lg border border-default-200 bg-content2 p-3 text-sm">
+          {run.message}
+        </p>
+        <Input
+          type="datetime-local"
+          label="Send at"
+          value={value}
+          onValueChange={setValue}
+          description="Your local time. Recipients were resolved when the run was queued."
+        />
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="light" onPress={onClose} startContent={<X className="h-4 w-4" />}>
+          Close
+        </Button>
+        <Button
+          variant="flat"
+          isDisabled={isSubmitting}
+          onPress={() => onConfirm(null)}
+          startContent={<PaperPlaneTilt className="h-4 w-4" />}
+        >
+          Send Now
+        </Button>
+        <Button
+          color="primary"
+          isLoading={isSubmitting}
+          isDisabled={!value}
+          onPress={() => onConfirm(new Date(value).toISOString())}
+          startContent={<CalendarBlank className="h-4 w-4" />}
+        >
+          Save
+        </Button>
+      </ModalFooter>
+    </>
+  );
+}
+
+export function RescheduleRunModal(props: RescheduleRunModalProps) {
+  const { run, onClose } = props;
+  return (
+    <Modal isOpen={Boolean(run)} onClose={onClose} size="md">
+      <ModalContent>
+        {run ? <RescheduleRunForm key={run.id} {...props} run={run} /> : null}
+      </ModalContent>
+    </Modal>
+  );
+}
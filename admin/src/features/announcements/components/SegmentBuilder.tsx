@@ -0,0 +1,290 @@
+import { useDeferredValue, useMemo, useState } from 'react';
+import { Button, Checkbox, Input, Select, SelectItem, Spinner, addToast } from '@heroui/react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { FloppyDisk, Trash, UsersThree } from '@phosphor-icons/react';
+import { api } from '../../../lib/api';
+import type { Category, PaginatedResponse } from '../../../types';
+import {
+  createBroadcastSegment,
+  deleteBroadcastSegment,
+  listBroadcastSegments,
+  previewBroadcastSegment,
+  previewBroadcastSegmentRules,
+} from '../api';
+import type { BroadcastSegmentRules } from '../types';
+import { describeSegmentRules, hasSegmentRules } from '../utils';
+
+const CUSTOM_SEGMENT_KEY = 'custom';
+
+type SegmentBuilderProps = {
+  segmentId: number | null;
+  rules: BroadcastSegmentRules;
+  onSegmentIdChange: (segmentId: number | null) => void;
+  onRulesChange: (rules: BroadcastSegmentRules) => void;
+};
+
+function getErrorMessage(error: unknown) {
+  return (
+    (error as { response?: { data?: { message?: string } } })?.response?.data?.message ||
+    'Try again.'
+  );
+}
+
+function toRuleNumber(value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const parsed = Number.parseInt(trimmed, 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function SegmentBuilder({
+  segmentId,
+  rules,
+  onSegmentIdChange,
+  onRulesChange,
+}: SegmentBuilderProps) {
+  const queryClient = useQueryClient();
+  const [segmentName, setSegmentName] = useState('');
+
+  const segmentsQuery = useQuery({
+    queryKey: ['announcements', 'segments'],
+    queryFn: listBroadcastSegments,
+  });
+
+  const categoriesQuery = useQuery<PaginatedResponse<Category>>({
+    queryKey: ['categories', 'select-options'],
+    queryFn: async () =>
+      (
+        await api.get('/categories', {
+          params: { page: 1, limit: 100 },
+        })
+      ).data,
+  });
+  const categories = useMemo(() => categoriesQuery.data?.data ?? [], [categoriesQuery.data]);
+  const categoryNames = useMemo(
+    () => Object.fromEntries(categories.map((category) => [category.id, category.name])),
+    [categories],
+  );
+
+  const savedSegment = segmentsQuery.data?.find((segment) => segment.id === segmentId) ?? null;
+  const deferredRules = useDeferredValue(rules);
+  const canPreviewRules = segmentId === null && hasSegmentRules(deferredRules);
+  const previewQuery = useQuery({
+    queryKey: ['announcements', 'segment-preview', segmentId, deferredRules],
+    queryFn: async () =>
+      segmentId !== null
+        ? previewBroadcastSegment(segmentId)
+        : previewBroadcastSegmentRules(deferredRules),
+    enabled: segmentId !== null || canPreviewRules,
+    retry: false,
+    staleTime: 30_000,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => createBroadcastSegment(segmentName.trim(), rules),
+    onSuccess: async (segment) => {
+      await queryClient.invalidateQueries({ queryKey: ['announcements', 'segments'] });
+      setSegmentName('');
+      onSegmentIdChange(segment.id);
+      addToast({
+        title: 'Segment saved',
+        description: `"${segment.name}" can now be reused in announcements and campaigns.`,
+        color: 'success',
+      });
+    },
+    onError: (error: unknown) => {
+      addToast({
+        title: 'Unable to save segment',
+        description: getErrorMessage(error),
+        color: 'danger',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => deleteBroadcastSegment(id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['announcements', 'segments'] });
+      onSegmentIdChange(null);
+      addToast({ title: 'Segment deleted', color: 'success' });
+    },
+    onError: (error: unknown) => {
+      addToast({
+        title: 'Unable to delete segment',
+        description: getErrorMessage(error),
+        color: 'danger',
+      });
+    },
+  });
+
+  const updateRule = <K extends keyof BroadcastSegmentRules>(
+    key: K,
+    value: BroadcastSegmentRules[K],
+  ) => {
+    const next = { ...rules, [key]: value };
+    if (value === undefined || value === false || (Array.isArray(value) && value.length === 0)) {
+      delete next[key];
+    }
+    onRulesChange(next);
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-default-200 p-3">
+      <div className="flex items-center gap-2">
+        <UsersThree className="h-4 w-4 text-default-500" />
+        <p className="text-sm font-medium">Audience segment</p>
+      </div>
+
+      <div className="flex flex-col gap-2 md:flex-row md:items-start">
+        <Select
+          label="Saved segment"
+          selectedKeys={new Set([segmentId !== null ? String(segmentId) : CUSTOM_SEGMENT_KEY])}
+          onSelectionChange={(keys) => {
+            const key = Array.from(keys)[0];
+            if (!key) return;
+            onSegmentIdChange(key === CUSTOM_SEGMENT_KEY ? null : Number(key));
+          }}
+          isLoading={segmentsQuery.isLoading}
+        >
+          {[
+            <SelectItem key={CUSTOM_SEGMENT_KEY}>Custom rules</SelectItem>,
+            ...(segmentsQuery.data ?? []).map((segment) => (
+              <SelectItem
+                key={String(segment.id)}
+                description={describeSegmentRules(segment.rules, categoryNames)}
+              >
+                {segment.name}
+              </SelectItem>
+            )),
+          ]}
+        </Select>
+        {savedSegment ? (
+          <Button
+            size="sm"
+            variant="light"
+            color="danger"
+            className="md:mt-3"
+            isLoading={deleteMutation.isPending}
+            startContent={<Trash className="h-3.5 w-3.5" />}
+            onPress={() => deleteMutation.mutate(savedSegment.id)}
+          >
+            Delete segment
+          </Button>
+        ) : null}
+      </div>
+
+      {savedSegment ? (
+        <p className="text-xs text-default-500">
+          {describeSegmentRules(savedSegment.rules, categoryNames)}
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            <Input
+              type="number"
+              min={1}
+              label="Min. approved ads"
+              value={rules.minApprovedAds !== undefined ? String(rules.minApprovedAds) : ''}
+              onValueChange={(value) => updateRule('minApprovedAds', toRuleNumber(value))}
+            />
+            <Input
+              type="number"
+              min={0}
+              label="Loyalty points above"
+              value={
+                rules.loyaltyPointsAbove !== undefined ? String(rules.loyaltyPointsAbove) : ''
+              }
+              onValueChange={(value) => updateRule('loyaltyPointsAbove', toRuleNumber(value))}
+            />
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              label="Active in last (days)"
+              value={rules.activeWithinDays !== undefined ? String(rules.activeWithinDays) : ''}
+              onValueChange={(value) => updateRule('activeWithinDays', toRuleNumber(value))}
+            />
+          </div>
+          <Select
+            label="Has approved ads in categories"
+            selectionMode="multiple"
+            selectedKeys={new Set((rules.categoryIds ?? []).map(String))}
+            onSelectionChange={(keys) =>
+              updateRule(
+                'categoryIds',
+                Array.from(keys).map((key) => Number(key)),
+              )
+            }
+            description="Subcategories are included automatically."
+            isLoading={categoriesQuery.isLoading}
+          >
+            {categories.map((category) => (
+              <SelectItem key={String(category.id)} textValue={category.name}>
+                {`${'— '.repeat(category.depth ?? 0)}${category.name}`}
+              </SelectItem>
+            ))}
+          </Select>
+          <Checkbox
+            size="sm"
+            isSelected={rules.hasPendingAds === true}
+            onValueChange={(value) => updateRule('hasPendingAds', value)}
+          >
+            Only merchants with ads waiting for approval
+          </Checkbox>
+        </>
+      )}
+
+      <div className="flex flex-col gap-2 rounded-lg bg-default-50 p-3 text-xs md:flex-row md:items-center md:justify-between">
+        {previewQuery.isFetching ? (
+          <div className="flex items-center gap-2 text-default-500">
+            <Spinner size="sm" />
+            Counting recipients...
+          </div>
+        ) : previewQuery.error ? (
+          <p className="text-danger">{getErrorMessage(previewQuery.error)}</p>
+        ) : previewQuery.data ? (
+          <div className="space-y-1">
+            <p className="font-medium text-default-700">
+              {previewQuery.data.count} linked user{previewQuery.data.count === 1 ? '' : 's'}{' '}
+              match this segment
+            </p>
+            {previewQuery.data.sample.length > 0 ? (
+              <p className="text-default-500">
+                e.g.{' '}
+                {previewQuery.data.sample
+                  .map((user) => user.firstName || user.username || `#${user.id}`)
+                  .join(', ')}
+              </p>
+            ) : null}
+          </div>
+        ) : (
+          <p className="text-default-500">Add at least one rule to preview the audience.</p>
+        )}
+
+        {segmentId === null && hasSegmentRules(rules) ? (
+          <div className="flex items-center gap-2">
+            <Input
+              size="sm"
+              aria-label="Segment name"
+              placeholder="Segment name"
+              value={segmentName}
+              onValueChange={setSegmentName}
+              maxLength={120}
+              className="md:w-48"
+            />
+            <Button
+              size="sm"
+              variant="flat"
+              isDisabled={!segmentName.trim()}
+              isLoading={saveMutation.isPending}
+              startContent={<FloppyDisk className="h-3.5 w-3.5" />}
+              onPress={() => saveMutation.mutate()}
+            >
+              Save
+            </Button>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { Card, CardBody, Chip, Progress, Spinner } from '@heroui/react';
+import { useQuery } from '@tanstack/react-query';
+import { ChartBar, Trophy } from '@phosphor-icons/react';
+import { getBroadcastVariantReport } from '../api';
+
+type VariantComparisonPanelProps = {
+  runId: number;
+  isRunActive: boolean;
+};
+
+export function VariantComparisonPanel({ runId, isRunActive }: VariantComparisonPanelProps) {
+  const reportQuery = useQuery({
+    queryKey: ['announcements', 'run', runId, 'variants'],
+    queryFn: async () => getBroadcastVariantReport(runId),
+    refetchInterval: isRunActive ? 4000 : 30_000,
+  });
+
+  const report = reportQuery.data;
+  const variants = report?.variants ?? [];
+  const isTest = variants.length > 1;
+  // Only call a leader once every variant has reached someone.
+  const leader =
+    isTest && report?.trackLinks && variants.every((variant) => variant.sent > 0)
+      ? variants.reduce((best, variant) =>
+          variant.clickThroughRate > best.clickThroughRate ? variant : best,
+        )
+      : null;
+
+  return (
+    <Card>
+      <CardBody className="space-y-3 p-3">
+        <div className="flex items-center gap-2">
+          <ChartBar className="h-4 w-4 text-default-500" />
+          <p className="text-sm font-medium">{isTest ? 'Variant comparison' : 'Link clicks'}</p>
+          {reportQuery.isFetching ? <Spinner size="sm" /> : null}
+        </div>
+
+        {reportQuery.isError ? (
+          <p className="text-xs text-danger">Unable to load the variant report.</p>
+        ) : null}
+
+        <div className={`grid grid-cols-1 gap-3 ${isTest ? 'md:grid-cols-2' : ''}`}>
+          {variants.map((variant) => (
+            <div
+              key={variant.variantId ?? 'single'}
+              className="space-y-2 rounded-lg border border-default-200 p-3"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                {variant.variantId ? (
+                  <Chip size="sm" variant="flat" color="secondary">
+                    Variant {variant.variantId} · {variant.sharePercent}%
+                  </Chip>
+                ) : null}
+                {leader && leader.variantId === variant.variantId ? (
+                  <Chip
+                    size="sm"
+                    variant="flat"
+                    color="success"
+                    startContent={<Trophy className="h-3.5 w-3.5" />}
+                  >
+                    Leading
+                  </Chip>
+                ) : null}
+              </div>
+              {isTest ? (
+                <p className="line-clamp-3 whitespace-pre-wrap text-xs text-default-600">
+                  {variant.message}
+                </p>
+              ) : null}
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div>
+                  <p className="text-xs text-default-500">Received</p>
+                  <p className="font-semibold text-success-600">
+                    {variant.sent}/{variant.recipients}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-default-500">Failed</p>
+                  <p className="font-semibold text-danger-600">{variant.failed}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-default-500">Clicks</p>
+                  <p className="font-semibold">
+                    {report?.trackLinks ? `${variant.clickedRecipients} (${variant.clicks})` : '—'}
+                  </p>
+                </div>
+              </div>
+              {report?.trackLinks ? (
+                <Progress
+                  size="sm"
+                  aria-label={`Click-through rate ${variant.variantId ?? ''}`}
+                  label="Click-through rate"
+                  value={variant.clickThroughRate}
+                  valueLabel={`${variant.clickThroughRate}%`}
+                  showValueLabel
+                  color={leader && leader.variantId === variant.variantId ? 'success' : 'primary'}
+                />
+              ) : null}
+            </div>
+          ))}
+        </div>
+        {report?.trackLinks ? (
+          <p className="text-xs text-default-500">
+            Click-through counts recipients who opened a tracked link at least once; total clicks
+            are in brackets. Telegram link previews are not counted.
+          </p>
+        ) : null}
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+import { Button, Checkbox, Chip, Input, Textarea } from '@heroui/react';
+import { Flask, Plus, Trash } from '@phosphor-icons/react';
+import type { BroadcastParseMode, BroadcastVariantInput } from '../types';
+import { findUnknownPlaceholders, formatVariantSplit, variantLabels } from '../utils';
+
+const MAX_EXTRA_VARIANTS = variantLabels.length - 1;
+
+type VariantTestPanelProps = {
+  parseMode: BroadcastParseMode;
+  primaryWeight: number;
+  variants: BroadcastVariantInput[];
+  trackLinks: boolean;
+  onPrimaryWeightChange: (weight: number) => void;
+  onVariantsChange: (variants: BroadcastVariantInput[]) => void;
+  onTrackLinksChange: (value: boolean) => void;
+};
+
+function toWeight(value: string) {
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed)) return 1;
+  return Math.min(100, Math.max(1, parsed));
+}
+
+export function VariantTestPanel({
+  parseMode,
+  primaryWeight,
+  variants,
+  trackLinks,
+  onPrimaryWeightChange,
+  onVariantsChange,
+  onTrackLinksChange,
+}: VariantTestPanelProps) {
+  const isTesting = variants.length > 0;
+
+  const updateVariant = (index: number, patch: Partial<BroadcastVariantInput>) => {
+    onVariantsChange(
+      variants.map((variant, currentIndex) =>
+        currentIndex === index ? { ...variant, ...patch } : variant,
+      ),
+    );
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-default-200 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Flask className="h-4 w-4 text-default-500" />
+          <p className="text-sm font-medium">A/B test</p>
+        </div>
+        {isTesting ? (
+          <Chip size="sm" variant="flat" color="secondary">
+            {formatVariantSplit([primaryWeight, ...variants.map((variant) => variant.weight)])}
+          </Chip>
+        ) : null}
+      </div>
+
+      {isTesting ? (
+        <div className="space-y-3">
+          <div className="flex flex-col gap-2 md:flex-row md:items-center">
+            <p className="flex-1 text-xs text-default-500">
+              Variant A uses the message above. Each recipient always gets the same variant.
+            </p>
+            <Input
+              size="sm"
+              type="number"
+              min={1}
+              max={100}
+              label="Weight A"
+              value={String(primaryWeight)}
+              onValueChange={(value) => onPrimaryWeightChange(toWeight(value))}
+              className="md:w-28"
+            />
+          </div>
+
+          {variants.map((variant, index) => {
+            const label = variantLabels[index + 1];
+            const unknownPlaceholders = findUnknownPlaceholders(variant.message);
+            return (
+              <div key={label} className="space-y-2 rounded-lg bg-default-50 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium">Variant {label}</p>
+                  <Button
+                    size="sm"
+                    variant="light"
+                    color="danger"
+                    startContent={<Trash className="h-3.5 w-3.5" />}
+                    onPress={() =>
+                      onVariantsChange(
+                        variants.filter((_, currentIndex) => currentIndex !== index),
+                      )
+                    }
+                  >
+                    Remove
+                  </Button>
+                </div>
+                <div className="flex flex-col gap-2 md:flex-row md:items-start">
+                  <Textarea
+                    aria-label={`Variant ${label} message`}
+                    placeholder={`Alternative message (${parseMode} formatting).`}
+                    value={variant.message}
+                    onValueChange={(value) => updateVariant(index, { message: value })}
+                    minRows={3}
+                    maxRows={8}
+                    isInvalid={unknownPlaceholders.length > 0}
+                    errorMessage={
+                      unknownPlaceholders.length > 0
+                        ? `Unknown: ${unknownPlaceholders.map((name) => `{{${name}}}`).join(', ')}`
+                        : undefined
+                    }
+                    className="flex-1"
+                  />
+                  <Input
+                    size="sm"
+                    type="number"
+                    min={1}
+                    max={100}
+                    label={`Weight ${label}`}
+                    value={String(variant.weight)}
+                    onValueChange={(value) => updateVariant(index, { weight: toWeight(value) })}
+                    className="md:w-28"
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-xs text-default-500">
+          Send alternative messages to parts of the audience and compare their click-through.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Checkbox size="sm" isSelected={trackLinks} onValueChange={onTrackLinksChange}>
+          Track link clicks
+        </Checkbox>
+        {variants.length < MAX_EXTRA_VARIANTS ? (
+          <Button
+            size="sm"
+            variant="flat"
+            startContent={<Plus className="h-3.5 w-3.5" />}
+            onPress={() => onVariantsChange([...variants, { message: '', weight: primaryWeight }])}
+          >
+            Add variant {variantLabels[variants.length + 1]}
+          </Button>
+        ) : null}
+      </div>
+      {trackLinks ? (
+        <p className="text-xs text-default-500">
+          Links in every variant are replaced with short tracked links when sent.
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -2,11 +2,20 @@ import type { PaginatedResponse } from "../../types";
 
 export type BroadcastKind = "announcement" | "news" | "promotion";
 
+export type BroadcastParseMode = "HTML" | "MarkdownV2";
+
+export type BroadcastPlaceholder =
+  | "firstName"
+  | "loyaltyPoints"
+  | "pendingAdsCount"
+  | "dashboardUrl";
+
 export type BroadcastTarget =
   | "all"
   | "users"
   | "bot_subscribers"
-  | "active_bot_subscribers";
+  | "active_bot_subscribers"
+  | "segment";
 
 export type BroadcastRunStatus =
   | "QUEUED"
@@ -38,6 +47,10 @@ export interface BroadcastRun {
   target: BroadcastTarget;
   targetUserIds: number[] | null;
   message: string;
+  parseMode: BroadcastParseMode;
+  variants: BroadcastVariant[] | null;
+  trackLinks: boolean;
+  buttons: BroadcastButton[] | null;
   imagePaths?: string[] | null;
   requestedByUserId: number | null;
   totalRecipients: number;
@@ -45,6 +58,13 @@ export interface BroadcastRun {
   sentCount: number;
   failedCount: number;
   unknownCount: number;
+  campaignId: number | null;
+  campaign?: { id: number; name: string } | null;
+  segmentId: number | null;
+  segmentRules: BroadcastSegmentRules | null;
+  scheduledAt: string | null;
+  awaitingRecipients: boolean;
+  respectQuietHours: boolean;
   startedAt: string | null;
   finishedAt: string | null;
   lastHeartbeatAt: string | null;
@@ -52,6 +72,49 @@ export interface BroadcastRun {
   updatedAt: string;
 }
 
+export type BroadcastButtonType = "url" | "ad" | "category" | "unsubscribe";
+
+export interface BroadcastButton {
+  type: BroadcastButtonType;
+  text: string;
+  url?: string;
+  adId?: number;
+  categoryId?: number;
+  sameRow?: boolean;
+}
+
+export type BroadcastVariantId = "A" | "B" | "C" | "D";
+
+export interface BroadcastVariant {
+  id: BroadcastVariantId;
+  message: string;
+  weight: number;
+}
+
+export interface BroadcastVariantInput {
+  message: string;
+  weight: number;
+}
+
+export interface BroadcastVariantStats {
+  variantId: BroadcastVariantId | null;
+  message: string;
+  weight: number;
+  sharePercent: number;
+  recipients: number;
+  sent: number;
+  failed: number;
+  clicks: number;
+  clickedRecipients: number;
+  clickThroughRate: number;
+}
+
+export interface BroadcastVariantReport {
+  runId: number;
+  trackLinks: boolean;
+  variants: BroadcastVariantStats[];
+}
+
 export interface BroadcastRunDetail extends BroadcastRun {
   deliverySummary: Record<BroadcastDeliveryStatus, number>;
 }
@@ -86,10 +149,18 @@ export interface BroadcastUser {
 
 export interface CreateBroadcastPayload {
   message: string;
+  variants?: BroadcastVariantInput[];
+  trackLinks?: boolean;
+  buttons?: BroadcastButton[];
+  parseMode: BroadcastParseMode;
   kind: BroadcastKind;
   target: BroadcastTarget;
   userIds?: number[];
+  segmentId?: number;
+  segmentRules?: BroadcastSegmentRules;
   images?: File[];
+  scheduledAt?: string;
+  respectQuietHours?: boolean;
 }
 
 export interface BroadcastQueueResponse {
@@ -99,8 +170,87 @@ export interface BroadcastQueueResponse {
   target: BroadcastTarget;
   totalRecipients: number;
   pendingCount: number;
+  scheduledAt: string | null;
+}
+
+export interface BroadcastMessagePreview {
+  userId: number;
+  parseMode: BroadcastParseMode;
+  values: Partial<Record<BroadcastPlaceholder, string | number | null>>;
+  rendered: string;
+}
+
+export interface BroadcastScheduleSettings {
+  timeZone: string;
+  quietHours: { start: string; end: string } | null;
+  quietHoursActive: boolean;
+  quietHoursEndsAt: string | null;
+}
+
+export type BroadcastCampaignStatus = "ACTIVE" | "PAUSED";
+
+export interface BroadcastCampaign {
+  id: number;
+  name: string;
+  status: BroadcastCampaignStatus;
+  scheduleRule: string;
+  timeZone: string;
+  kind: BroadcastKind;
+  target: BroadcastTarget;
+  targetUserIds: number[] | null;
+  segmentId: number | null;
+  message: string;
+  imagePaths: string[] | null;
+  respectQuietHours: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  runCount: number;
+  createdByUserId: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BroadcastCampaignPayload {
+  name: string;
+  scheduleRule: string;
+  timeZone?: string;
+  message: string;
+  kind: BroadcastKind;
+  target: BroadcastTarget;
+  userIds?: number[];
+  segmentId?: number;
+  respectQuietHours: boolean;
+  images?: File[];
+}
+
+export interface BroadcastCampaignSchedulePreview {
+  timeZone: string;
+  occurrences: string[];
+}
+
+export interface BroadcastSegmentRules {
+  minApprovedAds?: number;
+  loyaltyPointsAbove?: number;
+  hasPendingAds?: boolean;
+  activeWithinDays?: number;
+  categoryIds?: number[];
+}
+
+export interface BroadcastSegment {
+  id: number;
+  name: string;
+  rules: BroadcastSegmentRules;
+  createdByUserId: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BroadcastSegmentPreview {
+  count: number;
+  sample: Array<{ id: number; firstName?: string | null; username?: string | null }>;
 }
 
 export type BroadcastRunsResponse = PaginatedResponse<BroadcastRun>;
 export type BroadcastUsersResponse = PaginatedResponse<BroadcastUser>;
 export type BroadcastDeliveriesResponse = PaginatedResponse<BroadcastDelivery>;
+export type BroadcastCampaignsResponse = PaginatedResponse<BroadcastCampaign>;
@@ -1,8 +1,15 @@
 import type {
+  BroadcastButton,
+  BroadcastButtonType,
   BroadcastDeliveryStatus,
   BroadcastKind,
+  BroadcastParseMode,
+  BroadcastPlaceholder,
+  BroadcastRun,
   BroadcastRunStatus,
+  BroadcastSegmentRules,
   BroadcastTarget,
+  BroadcastVariantId,
 } from './types';
 
 type ChipColor = 'default' | 'primary' | 'success' | 'warning' | 'danger';
@@ -13,6 +20,119 @@ export const kindOptions: { key: BroadcastKind; label: string }[] = [
   { key: 'promotion', label: 'Promotion' },
 ];
 
+export const parseModeOptions: { key: BroadcastParseMode; label: string }[] = [
+  { key: 'HTML', label: 'HTML' },
+  { key: 'MarkdownV2', label: 'MarkdownV2' },
+];
+
+export const placeholderOptions: { key: BroadcastPlaceholder; description: string }[] = [
+  { key: 'firstName', description: 'Recipient first name' },
+  { key: 'loyaltyPoints', description: 'Current loyalty points' },
+  { key: 'pendingAdsCount', description: 'Ads waiting for approval' },
+  { key: 'dashboardUrl', description: 'Merchant dashboard link' },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*(?:\|[^{}]*)?\}\}/g;
+
+/** Placeholder names in a message that the server would reject. */
+export function findUnknownPlaceholders(message: string) {
+  const known = new Set<string>(placeholderOptions.map((option) => option.key));
+  const unknown = new Set<string>();
+  for (const match of message.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!known.has(match[1])) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
+
+export function hasPlaceholders(message: string) {
+  return new RegExp(PLACEHOLDER_PATTERN.source).test(message);
+}
+
+export const variantLabels: BroadcastVariantId[] = ['A', 'B', 'C', 'D'];
+
+/** Rounded share of recipients per variant, e.g. "A 70% · B 30%". */
+export function formatVariantSplit(weights: number[]) {
+  const total = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (total <= 0) return '';
+  return weights
+    .map(
+      (weight, index) =>
+        `${variantLabels[index]} ${Math.round((Math.max(0, weight) / total) * 100)}%`,
+    )
+    .join(' · ');
+}
+
+export const MAX_BROADCAST_BUTTONS = 6;
+const MAX_BUTTONS_PER_ROW = 3;
+
+export const buttonTypeOptions: { key: BroadcastButtonType; label: string }[] = [
+  { key: 'url', label: 'Link' },
+  { key: 'ad', label: 'Open ad' },
+  { key: 'category', label: 'Open category' },
+  { key: 'unsubscribe', label: 'Unsubscribe' },
+];
+
+/** Only news and promotions can be muted from the bot. */
+export function canUnsubscribeFromKind(kind: BroadcastKind) {
+  return kind === 'news' || kind === 'promotion';
+}
+
+/** Groups buttons into keyboard rows the way the bot will send them. */
+export function groupButtonRows(buttons: BroadcastButton[]) {
+  const rows: BroadcastButton[][] = [];
+  for (const button of buttons) {
+    const lastRow = rows[rows.length - 1];
+    if (button.sameRow && lastRow) {
+      lastRow.push(button);
+    } else {
+      rows.push([button]);
+    }
+  }
+  return rows;
+}
+
+/** Mirrors the server-side checks so the composer can block bad payloads. */
+export function getButtonsError(buttons: BroadcastButton[], kind: BroadcastKind) {
+  if (buttons.length > MAX_BROADCAST_BUTTONS) {
+    return `At most ${MAX_BROADCAST_BUTTONS} buttons are allowed.`;
+  }
+  if (groupButtonRows(buttons).some((row) => row.length > MAX_BUTTONS_PER_ROW)) {
+    return `A row can hold at most ${MAX_BUTTONS_PER_ROW} buttons.`;
+  }
+  for (const [index, button] of buttons.entries()) {
+    const position = index + 1;
+    if (!button.text.trim()) return `Button ${position} needs a label.`;
+    if (button.type === 'url' && !/^https?:\/\/\S+$/i.test(button.url?.trim() ?? '')) {
+      return `Button ${position} needs an http(s) link.`;
+    }
+    if (button.type === 'ad' && !button.adId) return `Button ${position} needs an ad ID.`;
+    if (button.type === 'category' && !button.categoryId) {
+      return `Button ${position} needs a category.`;
+    }
+    if (button.type === 'unsubscribe' && !canUnsubscribeFromKind(kind)) {
+      return 'Unsubscribe buttons are only available for news and promotions.';
+    }
+  }
+  return null;
+}
+
+/** Rough plain-text rendering of a Telegram message for previews. */
+export function toPreviewText(message: string, parseMode: BroadcastParseMode) {
+  if (parseMode === 'MarkdownV2') {
+    return message
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/(^|[^\\])[*_~`|]+/g, '$1')
+      .replace(/\\(.)/g, '$1');
+  }
+  return message
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
 export const targetOptions: { key: BroadcastTarget; label: string; description: string }[] = [
   {
     key: 'all',
@@ -34,6 +154,11 @@ export const targetOptions: { key: BroadcastTarget; label: string; description:
     label: 'Active Bot Subscribers',
     description: 'Send to active bot subscribers seen recently.',
   },
+  {
+    key: 'segment',
+    label: 'Segment',
+    description: 'Send to linked users matching audience rules.',
+  },
 ];
 
 export function formatRunStatus(status: BroadcastRunStatus) {
@@ -87,11 +212,107 @@ export function formatTargetLabel(
   if (target === 'active_bot_subscribers') {
     return 'Active bot subscribers';
   }
+  if (target === 'segment') {
+    return 'Segment';
+  }
   return 'All linked users';
 }
 
+export function hasSegmentRules(rules: BroadcastSegmentRules) {
+  return (
+    rules.minApprovedAds !== undefined ||
+    rules.loyaltyPointsAbove !== undefined ||
+    rules.hasPendingAds === true ||
+    rules.activeWithinDays !== undefined ||
+    (rules.categoryIds?.length ?? 0) > 0
+  );
+}
+
+export function describeSegmentRules(
+  rules: BroadcastSegmentRules,
+  categoryNames: Record<number, string> = {},
+) {
+  const parts: string[] = [];
+  if (rules.minApprovedAds !== undefined) {
+    parts.push(`${rules.minApprovedAds}+ approved ads`);
+  }
+  if (rules.loyaltyPointsAbove !== undefined) {
+    parts.push(`loyalty points above ${rules.loyaltyPointsAbove}`);
+  }
+  if (rules.hasPendingAds) {
+    parts.push('has pending ads');
+  }
+  if (rules.activeWithinDays !== undefined) {
+    parts.push(`active in last ${rules.activeWithinDays} days`);
+  }
+  if (rules.categoryIds?.length) {
+    const names = rules.categoryIds.map((id) => categoryNames[id] ?? `#${id}`);
+    parts.push(`ads in ${names.join(', ')}`);
+  }
+  return parts.join(' · ');
+}
+
 export function formatDeliveryStatus(status: BroadcastDeliveryStatus) {
   if (status === 'FAILED_PERMANENT') return 'FAILED';
   if (status === 'FAILED_RETRYABLE') return 'RETRYING';
   return status;
 }
+
+export function isScheduledRun(run: BroadcastRun) {
+  return run.status === 'QUEUED' && !run.startedAt && Boolean(run.scheduledAt);
+}
+
+export function canRescheduleRun(run: BroadcastRun) {
+  return run.status === 'QUEUED' && !run.startedAt;
+}
+
+export function formatRunDateTime(value: string | Date) {
+  return new Date(value).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+// Formats a date for <input type="datetime-local">, which expects local time.
+export function toDateTimeLocalValue(value: string | Date) {
+  const date = new Date(value);
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours(),
+  )}:${pad(date.getMinutes())}`;
+}
+
+export function toDayKey(value: string | Date) {
+  const date = new Date(value);
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Month grids start on Monday and always cover six full weeks.
+export function getCalendarGridDays(month: Date) {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const start = new Date(first);
+  start.setDate(first.getDate() - ((first.getDay() + 6) % 7));
+  return Array.from({ length: 42 }, (_, index) => {
+    const day = new Date(start);
+    day.setDate(start.getDate() + index);
+    return day;
+  });
+}
+
+export function getCalendarRange(month: Date) {
+  const days = getCalendarGridDays(month);
+  const to = new Date(days[days.length - 1]);
+  to.setDate(to.getDate() + 1);
+  return { from: days[0], to };
+}
+
+export const campaignRulePresets: { key: string; label: string }[] = [
+  { key: '0 9 * * 1', label: 'Every Monday at 09:00' },
+  { key: '0 18 * * 5', label: 'Every Friday at 18:00' },
+  { key: '0 9 * * *', label: 'Every day at 09:00' },
+  { key: '0 10 1 * *', label: 'First day of each month at 10:00' },
+];
@@ -1,7 +1,7 @@
 import { useEffect, useState, type ReactNode } from "react";
 import { Outlet, Link, useLocation, useNavigate } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
-import { api, clearAuthToken } from "../lib/api";
+import { api, logout } from "../lib/api";
 import { getImageUrl } from "../types";
 import appLogo from "../assets/logo.png";
 import {
@@ -17,28 +17,31 @@ import {
   Chip,
 } from "@heroui/react";
 import { Drawer, DrawerBody, DrawerContent, DrawerHeader } from "@heroui/drawer";
-import { CaretDown, ChartBar, House, Megaphone, Package, SignOut, UserCircle, List, SidebarSimple, Storefront } from "@phosphor-icons/react";
+import { CaretDown, ChartBar, Flag, House, Megaphone, Package, SignOut, UserCircle, List, SealCheck, SidebarSimple, Storefront, UsersThree } from "@phosphor-icons/react";
 import { cn } from "../lib/utils";
+import { hasPermission, roleLabels, useMe, type Permission } from "../lib/permissions";
 import DashboardShellSkeleton from "./DashboardShellSkeleton";
 
 export default function DashboardLayout() {
   const location = useLocation();
   const navigate = useNavigate();
 
-  const { data: user, isLoading } = useQuery({
-    queryKey: ['me'],
-    queryFn: async () => {
-      const res = await api.get('/auth/me');
-      return res.data as {
-        role?: "admin";
-        firstName?: string;
-        username?: string;
-        loginUsername?: string;
-        avatarUrl?: string;
-      };
-    },
-    retry: false,
-    staleTime: 60_000,
+  const { data: user, isLoading } = useMe();
+  const canManageReports = hasPermission(user, "reports.manage");
+
+  const { data: openReports } = useQuery({
+    queryKey: ['ad-reports', 'open-count'],
+    queryFn: async () => (await api.get('/ad-reports/open-count')).data as { total: number },
+    enabled: canManageReports,
+    refetchInterval: 60_000,
+  });
+
+  const { data: pendingVerifications } = useQuery({
+    queryKey: ['merchant-verifications', 'pending-count'],
+    queryFn: async () =>
+      (await api.get('/merchants/verifications/pending-count')).data as { count: number },
+    enabled: hasPermission(user, "merchants.manage"),
+    refetchInterval: 60_000,
   });
 
   if (isLoading && !user) {
@@ -50,20 +53,65 @@ export default function DashboardLayout() {
   }
 
   const role = user?.role ?? "admin";
+  const roleLabel = roleLabels[role];
 
-  const menuItems: Array<{
+  const allMenuItems: Array<{
     name: string;
     path: string;
     icon: ReactNode;
     badge?: string;
+    permission?: Permission;
   }> = [
     { name: "Dashboard", path: "/", icon: <House className="h-5 w-5" /> },
-    { name: "Ads", path: "/ads", icon: <Package className="h-5 w-5" /> },
-    { name: "Announcements", path: "/announcements", icon: <Megaphone className="h-5 w-5" /> },
-    { name: "Analytics", path: "/analytics", icon: <ChartBar className="h-5 w-5" /> },
-    { name: "Merchants", path: "/merchants", icon: <Storefront className="h-5 w-5" /> },
+    {
+      name: "Ads",
+      path: "/ads",
+      icon: <Package className="h-5 w-5" />,
+      permission: "ads.moderate",
+    },
+    {
+      name: "Reports",
+      path: "/reports",
+      icon: <Flag className="h-5 w-5" />,
+      badge: openReports?.total ? String(openReports.total) : undefined,
+      permission: "reports.manage",
+    },
+    {
+      name: "Announcements",
+      path: "/announcements",
+      icon: <Megaphone className="h-5 w-5" />,
+      permission: "announcements.manage",
+    },
+    {
+      name: "Analytics",
+      path: "/analytics",
+      icon: <ChartBar className="h-5 w-5" />,
+      permission: "analytics.view",
+    },
+    {
+      name: "Merchants",
+      path: "/merchants",
+      icon: <Storefront className="h-5 w-5" />,
+      permission: "merchants.manage",
+    },
+    {
+      name: "Verifications",
+      path: "/verifications",
+      icon: <SealCheck className="h-5 w-5" />,
+      badge: pendingVerifications?.count ? String(pendingVerifications.count) : undefined,
+      permission: "merchants.manage",
+    },
+    {
+      name: "Staff",
+      path: "/staff",
+      icon: <UsersThree className="h-5 w-5" />,
+      permission: "staff.manage",
+    },
     { name: "Profile", path: "/profile", icon: <UserCircle className="h-5 w-5" /> },
   ];
+  const menuItems = allMenuItems.filter(
+    (item) => !item.permission || hasPermission(user, item.permission),
+  );
 
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
@@ -80,8 +128,7 @@ export default function DashboardLayout() {
   }, [isCollapsed]);
 
   const handleLogout = async () => {
-    await api.post('/auth/logout');
-    clearAuthToken();
+    await logout();
     navigate('/login', { replace: true });
   };
 
@@ -238,7 +285,7 @@ export default function DashboardLayout() {
                 >
                   <div className="flex flex-col">
                     <span className="text-sm font-medium">{displayName}</span>
-                    <span className="text-xs text-default-500">Admin profile</span>
+                    <span className="text-xs text-default-500">{roleLabel} profile</span>
                   </div>
                 </DropdownItem>
                 <DropdownItem
@@ -1,10 +1,22 @@
-import axios from 'axios';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
 
 const envApiUrl = (import.meta.env.VITE_API_URL as string | undefined)?.trim();
 // Prefer same-origin API path in dev/tunnel mode; override with VITE_API_URL when needed.
 export const API_URL = envApiUrl && envApiUrl.length > 0 ? envApiUrl : '/v1';
 
 const AUTH_TOKEN_STORAGE_KEY = 'adminAuthToken';
+const REFRESH_TOKEN_STORAGE_KEY = 'adminRefreshToken';
+// Auth endpoints whose 401 means bad credentials, not an expired access token.
+const NO_REFRESH_PATHS = [
+  '/auth/refresh',
+  '/auth/logout',
+  '/auth/password',
+  '/auth/telegram',
+  '/auth/2fa/verify',
+  '/auth/2fa/telegram',
+];
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
 
 function getAdminLoginPath(): string {
   const pathname = window.location.pathname;
@@ -26,9 +38,20 @@ export function getAuthToken(): string | null {
   }
 }
 
-export function setAuthToken(token: string) {
+export function getRefreshToken(): string | null {
+  try {
+    return window.sessionStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setAuthToken(token: string, refreshToken?: string) {
   try {
     window.sessionStorage.setItem(AUTH_TOKEN_STORAGE_KEY, token);
+    if (refreshToken) {
+      window.sessionStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, refreshToken);
+    }
   } catch {
     // Ignore storage errors (e.g. blocked storage in private mode)
   }
@@ -38,6 +61,7 @@ export function setAuthToken(token: string) {
 export function clearAuthToken() {
   try {
     window.sessionStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+    window.sessionStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
   } catch {
     // Ignore
   }
@@ -54,10 +78,54 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
-// Response Interceptor: Handle 401 (Unauthorized)
+export async function logout() {
+  try {
+    await api.post('/auth/logout', { refreshToken: getRefreshToken() ?? undefined });
+  } finally {
+    clearAuthToken();
+  }
+}
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Shared by concurrent 401s so the refresh token is only rotated once.
+function refreshSession(): Promise<boolean> {
+  refreshInFlight ??= axios
+    .post(
+      `${API_URL}/auth/refresh`,
+      { refreshToken: getRefreshToken() ?? undefined },
+      { withCredentials: true },
+    )
+    .then((response) => {
+      const token = response.data?.token as string | undefined;
+      if (!token) return false;
+      setAuthToken(token, response.data?.refreshToken as string | undefined);
+      return true;
+    })
+    .catch(() => false)
+    .finally(() => {
+      refreshInFlight = null;
+    });
+  return refreshInFlight;
+}
+
+// Response Interceptor: refresh an expired access token once, then handle 401 (Unauthorized)
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error) => {
+    const config = error.config as RetriableRequestConfig | undefined;
+    const canRefresh =
+      error.response?.status === 401 &&
+      config &&
+      !config._retried &&
+      !NO_REFRESH_PATHS.some((path) => config.url?.startsWith(path));
+    if (canRefresh) {
+      config._retried = true;
+      if (await refreshSession()) {
+        return api(config);
+      }
+    }
+
     if (error.response?.status === 401) {
       clearAuthToken();
       // Redirect to login if session expires
@@ -0,0 +1,60 @@
+import { useQuery } from "@tanstack/react-query";
+import { api } from "./api";
+
+export type StaffRole = "admin" | "moderator" | "marketer";
+export type UserRole = StaffRole | "merchant";
+
+export type Permission =
+  | "ads.write"
+  | "ads.moderate"
+  | "ads.feature"
+  | "reviews.moderate"
+  | "reports.manage"
+  | "categories.manage"
+  | "merchants.manage"
+  | "announcements.manage"
+  | "analytics.view"
+  | "staff.manage";
+
+export type MeResponse = {
+  userId?: number;
+  role?: UserRole;
+  permissions?: Permission[];
+  firstName?: string;
+  username?: string;
+  loginUsername?: string;
+  avatarUrl?: string;
+  hasTelegram?: boolean;
+};
+
+export const STAFF_ROLES: StaffRole[] = ["admin", "moderator", "marketer"];
+
+export const roleLabels: Record<UserRole, string> = {
+  admin: "Admin",
+  moderator: "Moderator",
+  marketer: "Marketer",
+  merchant: "Merchant",
+};
+
+export const roleDescriptions: Record<StaffRole, string> = {
+  admin: "Full access, including staff management.",
+  moderator: "Reviews ads, reviews and reports.",
+  marketer: "Sends announcements and reads analytics.",
+};
+
+export function isStaffRole(role: string | null | undefined): role is StaffRole {
+  return STAFF_ROLES.includes(role as StaffRole);
+}
+
+export function hasPermission(me: MeResponse | null | undefined, permission: Permission) {
+  return Boolean(me?.permissions?.includes(permission));
+}
+
+export function useMe() {
+  return useQuery({
+    queryKey: ["me"],
+    queryFn: async () => (await api.get<MeResponse>("/auth/me")).data,
+    retry: false,
+    staleTime: 60_000,
+  });
+}
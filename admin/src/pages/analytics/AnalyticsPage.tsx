@@ -68,7 +68,7 @@ import type {
   VisitorEventsResponse,
 } from "../../types";
 
-type EventTypeFilter = "ALL" | "page_view" | "ad_preview" | "ad_click";
+type EventTypeFilter = "ALL" | "page_view" | "ad_preview" | "ad_click" | "announcement_click";
 
 type AnalyticsFilters = {
   from: string;
@@ -686,6 +686,7 @@ export default function AnalyticsPage() {
               <SelectItem key="page_view">Page views</SelectItem>
               <SelectItem key="ad_preview">Ad previews</SelectItem>
               <SelectItem key="ad_click">Ad clicks</SelectItem>
+              <SelectItem key="announcement_click">Announcement link clicks</SelectItem>
             </Select>
             <Input
               label="Search Log"
@@ -0,0 +1,395 @@
+import { useMemo, useState } from 'react';
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  addToast,
+} from '@heroui/react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { ColumnDef } from '@tanstack/react-table';
+import {
+  ArrowLeft,
+  ClockCounterClockwise,
+  Pause,
+  PencilSimple,
+  Play,
+  Plus,
+  Trash,
+} from '@phosphor-icons/react';
+import { useNavigate } from 'react-router-dom';
+import { DataTable } from '../../components/table/DataTable';
+import { DataTablePagination } from '../../components/table/DataTablePagination';
+import {
+  createBroadcastCampaign,
+  deleteBroadcastCampaign,
+  getBroadcastScheduleSettings,
+  listBroadcastCampaigns,
+  pauseBroadcastCampaign,
+  resumeBroadcastCampaign,
+  updateBroadcastCampaign,
+} from '../../features/announcements/api';
+import { AnnouncementReportModal } from '../../features/announcements/components/AnnouncementReportModal';
+import { CampaignFormModal } from '../../features/announcements/components/CampaignFormModal';
+import { CampaignRunsHistory } from '../../features/announcements/components/CampaignRunsHistory';
+import type {
+  BroadcastCampaign,
+  BroadcastCampaignPayload,
+} from '../../features/announcements/types';
+import { formatRunDateTime, formatTargetLabel } from '../../features/announcements/utils';
+
+type CampaignAction = 'pause' | 'resume';
+
+function getErrorMessage(error: unknown) {
+  return (
+    (error as { response?: { data?: { message?: string } } })?.response?.data?.message ||
+    'Try again.'
+  );
+}
+
+export default function AnnouncementCampaignsPage() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+  const [limit, setLimit] = useState(10);
+  const [formState, setFormState] = useState<{ campaign: BroadcastCampaign | null } | null>(
+    null,
+  );
+  const [historyCampaign, setHistoryCampaign] = useState<BroadcastCampaign | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<BroadcastCampaign | null>(null);
+  const [reportRunId, setReportRunId] = useState<number | null>(null);
+
+  const campaignsQuery = useQuery({
+    queryKey: ['announcements', 'campaigns', page, limit],
+    queryFn: async () => listBroadcastCampaigns(page, limit),
+  });
+
+  const scheduleSettingsQuery = useQuery({
+    queryKey: ['announcements', 'schedule-settings'],
+    queryFn: getBroadcastScheduleSettings,
+  });
+
+  const invalidateCampaigns = () =>
+    queryClient.invalidateQueries({ queryKey: ['announcements', 'campaigns'] });
+
+  const saveMutation = useMutation({
+    mutationFn: async (input: {
+      campaign: BroadcastCampaign | null;
+      payload: BroadcastCampaignPayload;
+    }) => {
+      if (!input.campaign) {
+        return createBroadcastCampaign(input.payload);
+      }
+      const {
+        name,
+        scheduleRule,
+        timeZone,
+        message,
+        kind,
+        target,
+        userIds,
+        segmentId,
+        respectQuietHours,
+      } = input.payload;
+      return updateBroadcastCampaign(input.campaign.id, {
+        name,
+        scheduleRule,
+        timeZone,
+        message,
+        kind,
+        target,
+        userIds,
+        segmentId,
+        respectQuietHours,
+      });
+    },
+    onSuccess: async (campaign, variables) => {
+      await invalidateCampaigns();
+      setFormState(null);
+      addToast({
+        title: variables.campaign ? 'Campaign updated' : 'Campaign created',
+        description: campaign.nextRunAt
+          ? `Next send: ${formatRunDateTime(campaign.nextRunAt)}.`
+          : 'The campaign has no upcoming send.',
+        color: 'success',
+      });
+    },
+    onError: (error: unknown) => {
+      addToast({
+        title: 'Unable to save campaign',
+        description: getErrorMessage(error),
+        color: 'danger',
+      });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (input: { campaignId: number; action: CampaignAction }) =>
+      input.action === 'pause'
+        ? pauseBroadcastCampaign(input.campaignId)
+        : resumeBroadcastCampaign(input.campaignId),
+    onSuccess: async (campaign) => {
+      await invalidateCampaigns();
+      addToast({
+        title: campaign.status === 'ACTIVE' ? 'Campaign resumed' : 'Campaign paused',
+        description:
+          campaign.status === 'ACTIVE' && campaign.nextRunAt
+            ? `Next send: ${formatRunDateTime(campaign.nextRunAt)}.`
+            : 'No new runs will be spawned until it is resumed.',
+        color: campaign.status === 'ACTIVE' ? 'success' : 'warning',
+      });
+    },
+    onError: (error: unknown) => {
+      addToast({
+        title: 'Unable to update campaign',
+        description: getErrorMessage(error),
+        color: 'danger',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (campaignId: number) => deleteBroadcastCampaign(campaignId),
+    onSuccess: async (_result, campaignId) => {
+      await invalidateCampaigns();
+      setDeleteTarget(null);
+      if (historyCampaign?.id === campaignId) {
+        setHistoryCampaign(null);
+      }
+      addToast({
+        title: 'Campaign deleted',
+        description: 'Runs it already spawned stay in the announcement history.',
+        color: 'success',
+      });
+    },
+    onError: (error: unknown) => {
+      addToast({
+        title: 'Delete failed',
+        description: getErrorMessage(error),
+        color: 'danger',
+      });
+    },
+  });
+
+  const campaigns = campaignsQuery.data?.data ?? [];
+  const meta = campaignsQuery.data?.meta;
+  const totalPages = Math.max(1, meta?.totalPages ?? 1);
+
+  const columns = useMemo<ColumnDef<BroadcastCampaign>[]>(
+    () => [
+      {
+        header: 'CAMPAIGN',
+        cell: ({ row }) => (
+          <div className="space-y-1">
+            <p className="text-sm font-semibold">{row.original.name}</p>
+            <p className="max-w-72 truncate text-xs text-default-500">{row.original.message}</p>
+            <p className="text-xs capitalize text-default-400">{row.original.kind}</p>
+          </div>
+        ),
+      },
+      {
+        header: 'SCHEDULE',
+        cell: ({ row }) => (
+          <div className="space-y-1">
+            <p className="font-mono text-xs">{row.original.scheduleRule}</p>
+            <p className="text-xs text-default-500">{row.original.timeZone}</p>
+            <p className="text-xs text-default-500">
+              Next:{' '}
+              {row.original.nextRunAt ? formatRunDateTime(row.original.nextRunAt) : '—'}
+            </p>
+          </div>
+        ),
+      },
+      {
+        header: 'AUDIENCE',
+        cell: ({ row }) => (
+          <p className="text-sm text-default-700">
+            {formatTargetLabel(row.original.target, row.original.targetUserIds?.length ?? 0)}
+          </p>
+        ),
+      },
+      {
+        header: 'STATUS',
+        cell: ({ row }) => (
+          <div className="space-y-1">
+            <Chip
+              size="sm"
+              variant="flat"
+              color={row.original.status === 'ACTIVE' ? 'success' : 'default'}
+            >
+              {row.original.status}
+            </Chip>
+            <p className="text-xs text-default-500">
+              {row.original.runCount} run{row.original.runCount === 1 ? '' : 's'}
+              {row.original.lastRunAt
+                ? ` · last ${formatRunDateTime(row.original.lastRunAt)}`
+                : ''}
+            </p>
+          </div>
+        ),
+      },
+      {
+        header: 'ACTIONS',
+        cell: ({ row }) => {
+          const isActive = row.original.status === 'ACTIVE';
+          return (
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                size="sm"
+                variant="flat"
+                startContent={<ClockCounterClockwise className="h-3.5 w-3.5" />}
+                onPress={() => setHistoryCampaign(row.original)}
+              >
+                History
+              </Button>
+              <Button
+                size="sm"
+                variant="light"
+                startContent={<PencilSimple className="h-3.5 w-3.5" />}
+                onPress={() => setFormState({ campaign: row.original })}
+              >
+                Edit
+              </Button>
+              <Button
+                size="sm"
+                variant="light"
+                color={isActive ? 'warning' : 'success'}
+                isLoading={
+                  statusMutation.isPending &&
+                  statusMutation.variables?.campaignId === row.original.id
+                }
+                startContent={
+                  isActive ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />
+                }
+                onPress={() =>
+                  statusMutation.mutate({
+                    campaignId: row.original.id,
+                    action: isActive ? 'pause' : 'resume',
+                  })
+                }
+              >
+                {isActive ? 'Pause' : 'Resume'}
+              </Button>
+              <Button
+                size="sm"
+                variant="light"
+                color="danger"
+                startContent={<Trash className="h-3.5 w-3.5" />}
+                onPress={() => setDeleteTarget(row.original)}
+              >
+                Delete
+              </Button>
+            </div>
+          );
+        },
+      },
+    ],
+    [statusMutation],
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <Button
+            size="sm"
+            variant="light"
+            className="mb-1 px-0"
+            startContent={<ArrowLeft className="h-4 w-4" />}
+            onPress={() => navigate('/announcements')}
+          >
+            Announcements
+          </Button>
+          <h1 className="text-2xl font-bold">Recurring Campaigns</h1>
+          <p className="text-sm text-default-500">
+            Campaigns spawn a new announcement run on every occurrence of their schedule.
+          </p>
+        </div>
+        <Button
+          color="primary"
+          startContent={<Plus className="h-4 w-4" />}
+          onPress={() => setFormState({ campaign: null })}
+        >
+          New Campaign
+        </Button>
+      </div>
+
+      <Card>
+        <CardBody className="space-y-3 p-5">
+          <DataTable columns={columns} data={campaigns} isLoading={campaignsQuery.isLoading} />
+          <DataTablePagination
+            pagination={{
+              count: meta?.total ?? 0,
+              page: meta?.page ?? page,
+              pageSize: meta?.limit ?? limit,
+              totalPages,
+            }}
+            onPageChange={(nextPage) => setPage(Math.min(Math.max(1, nextPage), totalPages))}
+            onPageSizeChange={(size) => {
+              setLimit(size);
+              setPage(1);
+            }}
+          />
+        </CardBody>
+      </Card>
+
+      {historyCampaign ? (
+        <CampaignRunsHistory
+          key={historyCampaign.id}
+          campaign={historyCampaign}
+          onViewReport={(run) => setReportRunId(run.id)}
+          onClose={() => setHistoryCampaign(null)}
+        />
+      ) : null}
+
+      <CampaignFormModal
+        isOpen={Boolean(formState)}
+        campaign={formState?.campaign ?? null}
+        defaultTimeZone={scheduleSettingsQuery.data?.timeZone}
+        isSubmitting={saveMutation.isPending}
+        onClose={() => setFormState(null)}
+        onSubmit={(payload) =>
+          saveMutation.mutate({ campaign: formState?.campaign ?? null, payload })
+        }
+      />
+
+      <AnnouncementReportModal
+        runId={reportRunId}
+        isOpen={Boolean(reportRunId)}
+        onClose={() => setReportRunId(null)}
+      />
+
+      <Modal isOpen={Boolean(deleteTarget)} onClose={() => setDeleteTarget(null)} size="md">
+        <ModalContent>
+          <ModalHeader>Delete Campaign</ModalHeader>
+          <ModalBody>
+            <p className="text-sm text-default-600">
+              Delete <span className="font-semibold">{deleteTarget?.name}</span>? It will stop
+              spawning runs. Runs it already created stay in the announcement history.
+            </p>
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="light" onPress={() => setDeleteTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              color="danger"
+              isLoading={deleteMutation.isPending}
+              onPress={() => {
+                if (!deleteTarget) return;
+                deleteMutation.mutate(deleteTarget.id);
+              }}
+            >
+              Delete
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+}
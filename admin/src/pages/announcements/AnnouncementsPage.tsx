@@ -1,39 +1,72 @@
 import { useMemo, useState } from 'react';
-import { Card, CardBody, addToast } from '@heroui/react';
+import { Button, Card, CardBody, addToast } from '@heroui/react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Repeat } from '@phosphor-icons/react';
+import { useNavigate } from 'react-router-dom';
 import { DataTablePagination } from '../../components/table/DataTablePagination';
 import {
   cancelBroadcast,
   createBroadcast,
   deleteBroadcastRun,
+  getBroadcastScheduleSettings,
+  listBroadcastCalendar,
   listBroadcastRuns,
   repostBroadcast,
+  rescheduleBroadcast,
 } from '../../features/announcements/api';
+import { AnnouncementCalendar } from '../../features/announcements/components/AnnouncementCalendar';
 import { AnnouncementComposer } from '../../features/announcements/components/AnnouncementComposer';
 import { DeleteRunConfirmModal } from '../../features/announcements/components/DeleteRunConfirmModal';
 import { AnnouncementReportModal } from '../../features/announcements/components/AnnouncementReportModal';
 import { AnnouncementRunsTable } from '../../features/announcements/components/AnnouncementRunsTable';
 import { RepostConfirmModal } from '../../features/announcements/components/RepostConfirmModal';
+import { RescheduleRunModal } from '../../features/announcements/components/RescheduleRunModal';
 import type {
+  BroadcastButton,
   BroadcastKind,
+  BroadcastParseMode,
+  BroadcastPlaceholder,
   BroadcastRun,
+  BroadcastSegmentRules,
   BroadcastTarget,
   BroadcastUser,
+  BroadcastVariantInput,
   CreateBroadcastPayload,
 } from '../../features/announcements/types';
+import {
+  findUnknownPlaceholders,
+  getButtonsError,
+  getCalendarRange,
+  hasSegmentRules,
+} from '../../features/announcements/utils';
 
 export default function AnnouncementsPage() {
+  const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [kind, setKind] = useState<BroadcastKind>('announcement');
   const [target, setTarget] = useState<BroadcastTarget>('all');
   const [message, setMessage] = useState('');
+  const [parseMode, setParseMode] = useState<BroadcastParseMode>('HTML');
+  const [primaryWeight, setPrimaryWeight] = useState(50);
+  const [variants, setVariants] = useState<BroadcastVariantInput[]>([]);
+  const [trackLinks, setTrackLinks] = useState(false);
+  const [buttons, setButtons] = useState<BroadcastButton[]>([]);
   const [images, setImages] = useState<File[]>([]);
   const [selectedUsers, setSelectedUsers] = useState<BroadcastUser[]>([]);
+  const [segmentId, setSegmentId] = useState<number | null>(null);
+  const [segmentRules, setSegmentRules] = useState<BroadcastSegmentRules>({});
+  const [scheduledAt, setScheduledAt] = useState('');
+  const [respectQuietHours, setRespectQuietHours] = useState(true);
+  const [calendarMonth, setCalendarMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
   const [runsPage, setRunsPage] = useState(1);
   const [runsLimit, setRunsLimit] = useState(10);
   const [reportRunId, setReportRunId] = useState<number | null>(null);
   const [repostTarget, setRepostTarget] = useState<BroadcastRun | null>(null);
   const [deleteTarget, setDeleteTarget] = useState<BroadcastRun | null>(null);
+  const [rescheduleTarget, setRescheduleTarget] = useState<BroadcastRun | null>(null);
 
   const runsQuery = useQuery({
     queryKey: ['announcements', 'runs', runsPage, runsLimit],
@@ -46,16 +79,41 @@ export default function AnnouncementsPage() {
     },
   });
 
+  const calendarRange = useMemo(() => getCalendarRange(calendarMonth), [calendarMonth]);
+  const calendarQuery = useQuery({
+    queryKey: ['announcements', 'calendar', calendarRange.from.toISOString()],
+    queryFn: async () => listBroadcastCalendar(calendarRange.from, calendarRange.to),
+  });
+
+  const scheduleSettingsQuery = useQuery({
+    queryKey: ['announcements', 'schedule-settings'],
+    queryFn: getBroadcastScheduleSettings,
+    refetchInterval: 60_000,
+  });
+
+  const invalidateRuns = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ['announcements', 'runs'] }),
+      queryClient.invalidateQueries({ queryKey: ['announcements', 'calendar'] }),
+    ]);
+
   const createMutation = useMutation({
     mutationFn: async (payload: CreateBroadcastPayload) => createBroadcast(payload),
     onSuccess: async (result) => {
-      await queryClient.invalidateQueries({ queryKey: ['announcements', 'runs'] });
+      await invalidateRuns();
       setMessage('');
+      setVariants([]);
+      setButtons([]);
       setImages([]);
       setSelectedUsers([]);
+      setScheduledAt('');
       addToast({
-        title: 'Announcement queued',
-        description: `Run #${result.runId} queued for ${result.totalRecipients} recipients.`,
+        title: result.scheduledAt ? 'Announcement scheduled' : 'Announcement queued',
+        description: result.scheduledAt
+          ? `Run #${result.runId} will send on ${new Date(
+              result.scheduledAt,
+            ).toLocaleString()}. Recipients are picked when it starts.`
+          : `Run #${result.runId} queued for ${result.totalRecipients} recipients.`,
         color: 'success',
       });
     },
@@ -71,7 +129,7 @@ export default function AnnouncementsPage() {
   const cancelMutation = useMutation({
     mutationFn: async (runId: number) => cancelBroadcast(runId),
     onSuccess: async () => {
-      await queryClient.invalidateQueries({ queryKey: ['announcements', 'runs'] });
+      await invalidateRuns();
       addToast({
         title: 'Run cancelled',
         description: 'The active run was stopped.',
@@ -87,10 +145,32 @@ export default function AnnouncementsPage() {
     },
   });
 
+  const rescheduleMutation = useMutation({
+    mutationFn: async (input: { runId: number; scheduledAt: string | null }) =>
+      rescheduleBroadcast(input.runId, input.scheduledAt),
+    onSuccess: async (run) => {
+      await invalidateRuns();
+      setRescheduleTarget(null);
+      addToast({
+        title: run.scheduledAt ? 'Announcement rescheduled' : 'Announcement released',
+        description: run.scheduledAt
+          ? `Run #${run.id} will send on ${new Date(run.scheduledAt).toLocaleString()}.`
+          : `Run #${run.id} will start sending shortly.`,
+        color: 'success',
+      });
+    },
+    onError: (error: unknown) => {
+      const message =
+        (error as { response?: { data?: { message?: string } } })?.response?.data?.message ||
+        'Try again.';
+      addToast({ title: 'Reschedule failed', description: message, color: 'danger' });
+    },
+  });
+
   const repostMutation = useMutation({
     mutationFn: async (runId: number) => repostBroadcast(runId),
     onSuccess: async (result) => {
-      await queryClient.invalidateQueries({ queryKey: ['announcements', 'runs'] });
+      await invalidateRuns();
       setRepostTarget(null);
       addToast({
         title: 'Announcement reposted',
@@ -110,7 +190,7 @@ export default function AnnouncementsPage() {
   const deleteMutation = useMutation({
     mutationFn: async (runId: number) => deleteBroadcastRun(runId),
     onSuccess: async () => {
-      await queryClient.invalidateQueries({ queryKey: ['announcements', 'runs'] });
+      await invalidateRuns();
       setDeleteTarget(null);
       addToast({
         title: 'History deleted',
@@ -155,6 +235,10 @@ export default function AnnouncementsPage() {
     }
   };
 
+  const handleInsertPlaceholder = (placeholder: BroadcastPlaceholder) => {
+    setMessage((prev) => `${prev}${prev && !/\s$/.test(prev) ? ' ' : ''}{{${placeholder}}}`);
+  };
+
   const handleQueueBroadcast = () => {
     const trimmedMessage = message.trim();
     if (!trimmedMessage) {
@@ -166,6 +250,43 @@ export default function AnnouncementsPage() {
       return;
     }
 
+    const unknownPlaceholders = [trimmedMessage, ...variants.map((variant) => variant.message)]
+      .flatMap(findUnknownPlaceholders)
+      .filter((name, index, names) => names.indexOf(name) === index);
+    if (unknownPlaceholders.length > 0) {
+      addToast({
+        title: 'Unknown placeholders',
+        description: `Remove or fix ${unknownPlaceholders
+          .map((name) => `{{${name}}}`)
+          .join(', ')} before sending.`,
+        color: 'warning',
+      });
+      return;
+    }
+
+    const trimmedVariants = variants.map((variant) => ({
+      message: variant.message.trim(),
+      weight: variant.weight,
+    }));
+    if (trimmedVariants.some((variant) => !variant.message)) {
+      addToast({
+        title: 'Variant message required',
+        description: 'Write a message for every A/B variant or remove the empty ones.',
+        color: 'warning',
+      });
+      return;
+    }
+
+    const buttonsError = getButtonsError(buttons, kind);
+    if (buttonsError) {
+      addToast({
+        title: 'Check the buttons',
+        description: buttonsError,
+        color: 'warning',
+      });
+      return;
+    }
+
     if (target === 'users' && selectedUsers.length === 0) {
       addToast({
         title: 'Select recipients',
@@ -175,12 +296,42 @@ export default function AnnouncementsPage() {
       return;
     }
 
+    if (target === 'segment' && segmentId === null && !hasSegmentRules(segmentRules)) {
+      addToast({
+        title: 'Define the segment',
+        description: 'Pick a saved segment or add at least one audience rule.',
+        color: 'warning',
+      });
+      return;
+    }
+
+    const scheduledDate = scheduledAt ? new Date(scheduledAt) : null;
+    if (scheduledDate && scheduledDate.getTime() <= Date.now()) {
+      addToast({
+        title: 'Pick a future time',
+        description: 'Scheduled announcements must be set in the future.',
+        color: 'warning',
+      });
+      return;
+    }
+
     const payload: CreateBroadcastPayload = {
       message: trimmedMessage,
+      variants:
+        trimmedVariants.length > 0
+          ? [{ message: trimmedMessage, weight: primaryWeight }, ...trimmedVariants]
+          : undefined,
+      trackLinks,
+      buttons: buttons.length > 0 ? buttons : undefined,
+      parseMode,
       kind,
       target,
       userIds: target === 'users' ? selectedUsers.map((user) => user.id) : undefined,
+      segmentId: target === 'segment' && segmentId !== null ? segmentId : undefined,
+      segmentRules: target === 'segment' && segmentId === null ? segmentRules : undefined,
       images,
+      scheduledAt: scheduledDate?.toISOString(),
+      respectQuietHours,
     };
 
     createMutation.mutate(payload);
@@ -188,29 +339,70 @@ export default function AnnouncementsPage() {
 
   return (
     <div className="space-y-4">
-      <div>
-        <h1 className="text-2xl font-bold">Announcements</h1>
-        <p className="text-sm text-default-500">
-          Broadcast announcements, news, or promotions to linked users or Telegram subscribers.
-        </p>
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Announcements</h1>
+          <p className="text-sm text-default-500">
+            Broadcast announcements, news, or promotions to linked users or Telegram subscribers.
+          </p>
+        </div>
+        <Button
+          variant="flat"
+          startContent={<Repeat className="h-4 w-4" />}
+          onPress={() => navigate('/announcements/campaigns')}
+        >
+          Recurring Campaigns
+        </Button>
       </div>
 
       <AnnouncementComposer
         kind={kind}
         target={target}
         message={message}
+        parseMode={parseMode}
+        primaryWeight={primaryWeight}
+        variants={variants}
+        trackLinks={trackLinks}
+        buttons={buttons}
         images={images}
         selectedUsers={selectedUsers}
+        segmentId={segmentId}
+        segmentRules={segmentRules}
+        scheduledAt={scheduledAt}
+        respectQuietHours={respectQuietHours}
+        scheduleSettings={scheduleSettingsQuery.data}
         isSubmitting={createMutation.isPending}
         onKindChange={setKind}
         onTargetChange={handleTargetChange}
         onMessageChange={setMessage}
+        onParseModeChange={setParseMode}
+        onInsertPlaceholder={handleInsertPlaceholder}
+        onPrimaryWeightChange={setPrimaryWeight}
+        onVariantsChange={setVariants}
+        onTrackLinksChange={setTrackLinks}
+        onButtonsChange={setButtons}
         onImagesChange={setImages}
+        onScheduledAtChange={setScheduledAt}
+        onRespectQuietHoursChange={setRespectQuietHours}
         onAddUser={handleAddSelectedUser}
         onRemoveUser={handleRemoveSelectedUser}
+        onSegmentIdChange={setSegmentId}
+        onSegmentRulesChange={setSegmentRules}
         onSubmit={handleQueueBroadcast}
       />
 
+      <AnnouncementCalendar
+        month={calendarMonth}
+        runs={calendarQuery.data ?? []}
+        isLoading={calendarQuery.isLoading}
+        scheduleSettings={scheduleSettingsQuery.data}
+        isCancelling={cancelMutation.isPending}
+        onMonthChange={setCalendarMonth}
+        onViewReport={(run) => setReportRunId(run.id)}
+        onReschedule={(run) => setRescheduleTarget(run)}
+        onCancel={(run) => cancelMutation.mutate(run.id)}
+      />
+
       <Card>
         <CardBody className="space-y-3 p-5">
           <div>
@@ -267,6 +459,19 @@ export default function AnnouncementsPage() {
         }}
       />
 
+      <RescheduleRunModal
+        run={rescheduleTarget}
+        isSubmitting={rescheduleMutation.isPending}
+        onClose={() => setRescheduleTarget(null)}
+        onConfirm={(nextScheduledAt) => {
+          if (!rescheduleTarget) return;
+          rescheduleMutation.mutate({
+            runId: rescheduleTarget.id,
+            scheduledAt: nextScheduledAt,
+          });
+        }}
+      />
+
       <DeleteRunConfirmModal
         run={deleteTarget}
         isSubmitting={deleteMutation.isPending}
@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import {
   Button,
   Card,
@@ -11,7 +11,13 @@ import {
 import { useNavigate } from "react-router-dom";
 import { SignIn } from "@phosphor-icons/react";
 import { api, clearAuthToken, setAuthToken } from "../../lib/api";
+import { isStaffRole } from "../../lib/permissions";
 import appLogo from "../../assets/logo.png";
+import {
+  TwoFactorLoginStep,
+  type TwoFactorChallenge,
+  type TwoFactorLoginResult,
+} from "./TwoFactorLoginStep";
 
 interface TelegramUser {
   id: number;
@@ -28,14 +34,41 @@ declare global {
   }
 }
 
-const isStaffRole = (role: string | undefined) => role === "admin";
-
 export default function LoginPage() {
   const telegramWrapperRef = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [isPasswordLoading, setIsPasswordLoading] = useState(false);
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+
+  const completeTwoFactorLogin = useCallback(
+    (result: TwoFactorLoginResult) => {
+      if (!result.token || !isStaffRole(result.user?.role)) {
+        addToast({
+          title: "Access denied",
+          description: "Only staff accounts can access this dashboard.",
+          color: "danger",
+        });
+        setChallenge(null);
+        return;
+      }
+
+      setAuthToken(result.token, result.refreshToken);
+      addToast({
+        title: "Success",
+        description: "Logged in successfully",
+        color: "success",
+      });
+      navigate("/");
+    },
+    [navigate],
+  );
+
+  const cancelTwoFactorLogin = useCallback(() => {
+    setChallenge(null);
+    setPassword("");
+  }, []);
 
   useEffect(() => {
     const botName = import.meta.env.VITE_TELEGRAM_BOT_NAME as string | undefined;
@@ -50,13 +83,14 @@ export default function LoginPage() {
         const response = await api.post("/auth/telegram", user);
         const role = response?.data?.user?.role as string | undefined;
         const token = response?.data?.token as string | undefined;
+        const refreshToken = response?.data?.refreshToken as string | undefined;
 
         if (!isStaffRole(role)) {
           clearAuthToken();
-          await api.post("/auth/logout");
+          await api.post("/auth/logout", { refreshToken });
           addToast({
             title: "Access denied",
-            description: "Only admins can access this dashboard.",
+            description: "Only staff accounts can access this dashboard.",
             color: "danger",
           });
           return;
@@ -66,7 +100,7 @@ export default function LoginPage() {
           throw new Error("Missing auth token in /auth/telegram response");
         }
 
-        setAuthToken(token);
+        setAuthToken(token, refreshToken);
         addToast({
           title: "Success",
           description: "Logged in successfully",
@@ -118,15 +152,21 @@ export default function LoginPage() {
         username: username.trim(),
         password,
       });
+      if (response?.data?.twoFactorRequired) {
+        setChallenge(response.data as TwoFactorChallenge);
+        return;
+      }
+
       const role = response?.data?.user?.role as string | undefined;
       const token = response?.data?.token as string | undefined;
+      const refreshToken = response?.data?.refreshToken as string | undefined;
 
       if (!isStaffRole(role)) {
         clearAuthToken();
-        await api.post("/auth/logout");
+        await api.post("/auth/logout", { refreshToken });
           addToast({
             title: "Access denied",
-            description: "Only admins can access this dashboard.",
+            description: "Only staff accounts can access this dashboard.",
             color: "danger",
           });
         return;
@@ -136,7 +176,7 @@ export default function LoginPage() {
         throw new Error("Missing auth token in /auth/password response");
       }
 
-      setAuthToken(token);
+      setAuthToken(token, refreshToken);
       addToast({
         title: "Success",
         description: "Logged in successfully",
@@ -169,41 +209,54 @@ export default function LoginPage() {
         </CardHeader>
 
         <CardBody className="flex flex-col gap-4 py-2">
-          <div ref={telegramWrapperRef} className="flex w-full justify-center px-3 py-2" />
-
-          <div className="px-2">
-            <Divider />
-          </div>
-
-          <form className="space-y-3 px-2" onSubmit={loginWithPassword}>
-            <Input
-              type="text"
-              label="Username"
-              placeholder="admin_username"
-              value={username}
-              onValueChange={setUsername}
-              autoComplete="username"
-              isRequired
-            />
-            <Input
-              type="password"
-              label="Password"
-              placeholder="••••••••"
-              value={password}
-              onValueChange={setPassword}
-              autoComplete="current-password"
-              isRequired
+          <div
+            ref={telegramWrapperRef}
+            className={`${challenge ? "hidden" : "flex"} w-full justify-center px-3 py-2`}
+          />
+
+          {challenge ? null : (
+            <div className="px-2">
+              <Divider />
+            </div>
+          )}
+
+          {challenge ? (
+            <TwoFactorLoginStep
+              challenge={challenge}
+              onAuthenticated={completeTwoFactorLogin}
+              onCancel={cancelTwoFactorLogin}
             />
-            <Button
-              type="submit"
-              color="primary"
-              className="w-full"
-              isLoading={isPasswordLoading}
-              startContent={<SignIn className="h-4 w-4" />}
-            >
-              Login with password
-            </Button>
-          </form>
+          ) : (
+            <form className="space-y-3 px-2" onSubmit={loginWithPassword}>
+              <Input
+                type="text"
+                label="Username"
+                placeholder="admin_username"
+                value={username}
+                onValueChange={setUsername}
+                autoComplete="username"
+                isRequired
+              />
+              <Input
+                type="password"
+                label="Password"
+                placeholder="••••••••"
+                value={password}
+                onValueChange={setPassword}
+                autoComplete="current-password"
+                isRequired
+              />
+              <Button
+                type="submit"
+                color="primary"
+                className="w-full"
+                isLoading={isPasswordLoading}
+                startContent={<SignIn className="h-4 w-4" />}
+              >
+                Login with password
+              </Button>
+            </form>
+          )}
         </CardBody>
       </Card>
     </div>
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import axios from "axios";
+import { Button, Divider, Input, addToast } from "@heroui/react";
+import { ShieldCheck, TelegramLogo } from "@phosphor-icons/react";
+import { api } from "../../lib/api";
+
+const TELEGRAM_POLL_INTERVAL_MS = 2000;
+
+export type TwoFactorMethod = "totp" | "recovery_code" | "telegram";
+
+export type TwoFactorChallenge = {
+  challengeToken: string;
+  methods: TwoFactorMethod[];
+  expiresAt: string;
+};
+
+export type TwoFactorLoginResult = {
+  user?: { role?: string };
+  token?: string;
+  refreshToken?: string;
+};
+
+type TwoFactorLoginStepProps = {
+  challenge: TwoFactorChallenge;
+  onAuthenticated: (result: TwoFactorLoginResult) => void;
+  onCancel: () => void;
+};
+
+function getErrorMessage(error: unknown, fallback: string) {
+  const raw = axios.isAxiosError(error)
+    ? (error.response?.data as { message?: unknown } | undefined)?.message
+    : undefined;
+  if (typeof raw === "string" && raw.trim()) return raw;
+  return fallback;
+}
+
+export function TwoFactorLoginStep({
+  challenge,
+  onAuthenticated,
+  onCancel,
+}: TwoFactorLoginStepProps) {
+  const [code, setCode] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isRequestingTelegram, setIsRequestingTelegram] = useState(false);
+  const [isWaitingForTelegram, setIsWaitingForTelegram] = useState(false);
+
+  const canUseCode = challenge.methods.includes("totp");
+  const canUseTelegram = challenge.methods.includes("telegram");
+
+  useEffect(() => {
+    if (!isWaitingForTelegram) return;
+
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const response = await api.post("/auth/2fa/telegram/confirm", {
+          challengeToken: challenge.challengeToken,
+        });
+        if (cancelled) return;
+        if (response.data?.token) {
+          setIsWaitingForTelegram(false);
+          onAuthenticated(response.data as TwoFactorLoginResult);
+        }
+      } catch (error) {
+        if (cancelled) return;
+        setIsWaitingForTelegram(false);
+        addToast({
+          title: "Login not confirmed",
+          description: getErrorMessage(error, "The Telegram confirmation failed."),
+          color: "danger",
+        });
+        onCancel();
+      }
+    };
+
+    const interval = window.setInterval(() => {
+      void poll();
+    }, TELEGRAM_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [challenge.challengeToken, isWaitingForTelegram, onAuthenticated, onCancel]);
+
+  const verifyCode = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!code.trim()) return;
+
+    setIsVerifying(true);
+    try {
+      const response = await api.post("/auth/2fa/verify", {
+        challengeToken: challenge.challengeToken,
+        code: code.trim(),
+      });
+      onAuthenticated(response.data as TwoFactorLoginResult);
+    } catch (error) {
+      setCode("");
+      addToast({
+        title: "Verification failed",
+        description: getErrorMessage(error, "Invalid verification code."),
+        color: "danger",
+      });
+      if (getErrorMessage(error, "").includes("expired")) {
+        onCancel();
+      }
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const requestTelegramConfirmation = async () => {
+    setIsRequestingTelegram(true);
+    try {
+      await api.post("/auth/2fa/telegram", {
+        challengeToken: challenge.challengeToken,
+      });
+      setIsWaitingForTelegram(true);
+    } catch (error) {
+      addToast({
+        title: "Telegram confirmation failed",
+        description: getErrorMessage(error, "Could not send the Telegram prompt."),
+        color: "danger",
+      });
+    } finally {
+      setIsRequestingTelegram(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 px-2">
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="h-5 w-5 text-primary" />
+        <p className="text-sm font-medium">Two-factor authentication</p>
+      </div>
+
+      {canUseCode ? (
+        <form className="space-y-3" onSubmit={verifyCode}>
+          <Input
+            label="Authentication code"
+            placeholder="123456"
+            description="Enter the 6-digit code from your authenticator app, or one of your recovery codes."
+            value={code}
+            onValueChange={setCode}
+            autoComplete="one-time-code"
+            autoFocus
+            isDisabled={isWaitingForTelegram}
+          />
+          <Button
+            type="submit"
+            color="primary"
+            className="w-full"
+            isLoading={isVerifying}
+            isDisabled={!code.trim() || isWaitingForTelegram}
+          >
+            Verify
+          </Button>
+        </form>
+      ) : null}
+
+      {canUseCode && canUseTelegram ? <Divider /> : null}
+
+      {canUseTelegram ? (
+        isWaitingForTelegram ? (
+          <p className="text-center text-sm text-default-500">
+            We sent a prompt to your Telegram. Tap Approve there to finish signing in.
+          </p>
+        ) : (
+          <Button
+            variant="flat"
+            className="w-full"
+            isLoading={isRequestingTelegram}
+            startContent={<TelegramLogo className="h-4 w-4" />}
+            onPress={requestTelegramConfirmation}
+          >
+            Confirm with Telegram{canUseCode ? " instead" : ""}
+          </Button>
+        )
+      ) : null}
+
+      <Button variant="light" className="w-full" onPress={onCancel}>
+        Back to login
+      </Button>
+    </div>
+  );
+}
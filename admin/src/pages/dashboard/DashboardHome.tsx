@@ -15,6 +15,7 @@ import {
 import { ClockCountdown, CheckCircle, XCircle, MegaphoneSimple } from "@phosphor-icons/react";
 import { api } from "../../lib/api";
 import type { PaginatedResponse, Ad } from "../../types";
+import { hasPermission, useMe } from "../../lib/permissions";
 
 type AdsStats = {
   totalAds: number;
@@ -24,6 +25,9 @@ type AdsStats = {
 };
 
 export default function DashboardHome() {
+  const { data: me } = useMe();
+  const canModerateAds = hasPermission(me, "ads.moderate");
+
   const statsQuery = useQuery({
     queryKey: ["ads", "stats"],
     queryFn: async () => (await api.get("/ads/dashboard-stats")).data as AdsStats,
@@ -38,11 +42,12 @@ export default function DashboardHome() {
           params: { status: "PENDING", page: 1, limit: 8 },
         })
       ).data as PaginatedResponse<Ad>,
+    enabled: canModerateAds,
     refetchInterval: 10_000,
   });
 
   const stats = statsQuery.data;
-  const isLoading = statsQuery.isLoading || pendingAdsQuery.isLoading;
+  const isLoading = statsQuery.isLoading || (canModerateAds && pendingAdsQuery.isLoading);
 
   return (
     <div className="space-y-6">
@@ -77,48 +82,50 @@ export default function DashboardHome() {
         />
       </div>
 
-      <Card>
-        <CardBody className="space-y-4 p-5">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm text-default-500">Pending Ads</p>
-              <h3 className="text-lg font-semibold">Latest submissions</h3>
+      {canModerateAds ? (
+        <Card>
+          <CardBody className="space-y-4 p-5">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-default-500">Pending Ads</p>
+                <h3 className="text-lg font-semibold">Latest submissions</h3>
+              </div>
+              <Chip variant="flat" color="warning" size="sm">
+                {stats?.pendingAds ?? 0} pending
+              </Chip>
             </div>
-            <Chip variant="flat" color="warning" size="sm">
-              {stats?.pendingAds ?? 0} pending
-            </Chip>
-          </div>
 
-          <Table aria-label="Pending ads" removeWrapper>
-            <TableHeader>
-              <TableColumn>TITLE</TableColumn>
-              <TableColumn>CATEGORY</TableColumn>
-              <TableColumn>PRICE</TableColumn>
-              <TableColumn>CONTACT</TableColumn>
-            </TableHeader>
-            <TableBody
-              items={pendingAdsQuery.data?.data ?? []}
-              emptyContent={isLoading ? "Loading..." : "No pending ads"}
-            >
-              {(item: Ad) => (
-                <TableRow key={item.id}>
-                  <TableCell>
-                    <div className="flex flex-col">
-                      <span className="text-sm font-semibold">{item.name}</span>
-                      <span className="text-xs text-default-500">
-                        #{item.id}
-                      </span>
-                    </div>
-                  </TableCell>
-                  <TableCell>{item.category?.name ?? "-"}</TableCell>
-                  <TableCell>{item.price} Birr</TableCell>
-                  <TableCell>{item.phoneNumber ?? "-"}</TableCell>
-                </TableRow>
-              )}
-            </TableBody>
-          </Table>
-        </CardBody>
-      </Card>
+            <Table aria-label="Pending ads" removeWrapper>
+              <TableHeader>
+                <TableColumn>TITLE</TableColumn>
+                <TableColumn>CATEGORY</TableColumn>
+                <TableColumn>PRICE</TableColumn>
+                <TableColumn>CONTACT</TableColumn>
+              </TableHeader>
+              <TableBody
+                items={pendingAdsQuery.data?.data ?? []}
+                emptyContent={isLoading ? "Loading..." : "No pending ads"}
+              >
+                {(item: Ad) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span className="text-sm font-semibold">{item.name}</span>
+                        <span className="text-xs text-default-500">
+                          #{item.id}
+                        </span>
+                      </div>
+                    </TableCell>
+                    <TableCell>{item.category?.name ?? "-"}</TableCell>
+                    <TableCell>{item.price} Birr</TableCell>
+                    <TableCell>{item.phoneNumber ?? "-"}</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardBody>
+        </Card>
+      ) : null}
     </div>
   );
 }
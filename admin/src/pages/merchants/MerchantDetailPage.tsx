@@ -15,7 +15,7 @@ import {
   ModalHeader,
   Textarea,
 } from '@heroui/react';
-import { ArrowLeft, Shield, ShieldCheck } from '@phosphor-icons/react';
+import { ArrowLeft, SealCheck, Shield, ShieldCheck } from '@phosphor-icons/react';
 import { Link, useNavigate, useParams } from 'react-router-dom';
 import { api } from '../../lib/api';
 import { DataTable } from '../../components/table/DataTable';
@@ -127,6 +127,24 @@ export default function MerchantDetailPage() {
     },
   });
 
+  const revokeVerificationMutation = useMutation({
+    mutationFn: async () => api.post(`/merchants/${merchantId}/verification/revoke`, {}),
+    onSuccess: async () => {
+      await refreshMerchant();
+      addToast({
+        title: 'Merchant updated',
+        description: 'Verified badge has been removed.',
+        color: 'success',
+      });
+    },
+    onError: (error: unknown) => {
+      const message =
+        (error as { response?: { data?: { message?: string } } })?.response?.data?.message ||
+        'Failed to revoke verification';
+      addToast({ title: 'Error', description: message, color: 'danger' });
+    },
+  });
+
   const adjustPointsMutation = useMutation({
     mutationFn: async ({ delta, reason }: { delta: number; reason?: string }) =>
       api.post(`/merchants/${merchantId}/points/adjust`, {
@@ -218,6 +236,7 @@ export default function MerchantDetailPage() {
   const merchant = detailQuery.data?.merchant;
   const recentAds = detailQuery.data?.recentAds ?? [];
   const loyaltyConfig = detailQuery.data?.loyaltyConfig;
+  const latestVerification = detailQuery.data?.latestVerification;
 
   return (
     <div className="space-y-5">
@@ -231,8 +250,18 @@ export default function MerchantDetailPage() {
           >
             Back to merchants
           </Button>
-          <h1 className="text-xl font-semibold">
+          <h1 className="flex items-center gap-2 text-xl font-semibold">
             {merchant?.firstName?.trim() || 'Merchant'}
+            {merchant?.verifiedAt ? (
+              <Chip
+                size="sm"
+                variant="flat"
+                color="primary"
+                startContent={<SealCheck weight="fill" className="h-4 w-4" />}
+              >
+                Verified
+              </Chip>
+            ) : null}
           </h1>
           <p className="text-sm text-default-500">
             @{merchant?.loginUsername || merchant?.username || 'no-username'}
@@ -265,6 +294,17 @@ export default function MerchantDetailPage() {
             {merchant?.isReviewBlocked ? 'Unblock reviews' : 'Block reviews'}
           </Button>
 
+          {merchant?.verifiedAt ? (
+            <Button
+              color="default"
+              variant="flat"
+              isLoading={revokeVerificationMutation.isPending}
+              onPress={() => revokeVerificationMutation.mutate()}
+            >
+              Revoke verification
+            </Button>
+          ) : null}
+
           <Button
             color="secondary"
             variant="flat"
@@ -302,10 +342,29 @@ export default function MerchantDetailPage() {
             >
               {merchant?.isReviewBlocked ? 'Review access blocked' : 'Review access active'}
             </Chip>
+            <Chip color={merchant?.verifiedAt ? 'primary' : 'default'} variant="flat" size="sm">
+              {merchant?.verifiedAt
+                ? `Verified since ${formatDateTime(merchant.verifiedAt)}`
+                : latestVerification?.status === 'PENDING'
+                  ? 'Verification pending review'
+                  : latestVerification?.status === 'REJECTED'
+                    ? 'Verification rejected'
+                    : 'Not verified'}
+            </Chip>
             <Chip variant="flat" size="sm">
               Last activity: {formatDateTime(merchant?.lastActivityAt)}
             </Chip>
           </div>
+          {!merchant?.verifiedAt && latestVerification?.status === 'REJECTED' && latestVerification.reviewNote ? (
+            <p className="text-xs text-default-500">
+              Last rejection note: {latestVerification.reviewNote}
+            </p>
+          ) : null}
+          {latestVerification?.status === 'PENDING' ? (
+            <Button as={Link} to="/verifications" size="sm" variant="flat" color="primary" className="w-fit">
+              Open verification queue
+            </Button>
+          ) : null}
         </CardBody>
       </Card>
 
@@ -2,7 +2,7 @@ import { useEffect, useMemo, useState } from 'react';
 import { type ColumnDef } from '@tanstack/react-table';
 import { useQuery } from '@tanstack/react-query';
 import { Avatar, Button, Chip, Input } from '@heroui/react';
-import { MagnifyingGlass } from '@phosphor-icons/react';
+import { MagnifyingGlass, SealCheck } from '@phosphor-icons/react';
 import { useNavigate } from 'react-router-dom';
 import { api } from '../../lib/api';
 import { DataTable } from '../../components/table/DataTable';
@@ -61,7 +61,16 @@ export default function MerchantsPage() {
                 className="h-9 w-9"
               />
               <div className="min-w-0">
-                <p className="truncate text-sm font-semibold">{displayName}</p>
+                <p className="flex items-center gap-1 truncate text-sm font-semibold">
+                  {displayName}
+                  {merchant.verifiedAt ? (
+                    <SealCheck
+                      weight="fill"
+                      className="h-4 w-4 shrink-0 text-primary"
+                      aria-label="Verified merchant"
+                    />
+                  ) : null}
+                </p>
                 <p className="truncate text-xs text-default-500">@{username}</p>
               </div>
             </div>
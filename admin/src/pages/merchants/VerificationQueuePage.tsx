@@ -0,0 +1,360 @@
+import { useEffect, useMemo, useState } from "react";
+import { type ColumnDef } from "@tanstack/react-table";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Avatar,
+  Button,
+  Chip,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Spinner,
+  Tab,
+  Tabs,
+  Textarea,
+  addToast,
+} from "@heroui/react";
+import { Link } from "react-router-dom";
+import { api } from "../../lib/api";
+import { DataTable } from "../../components/table/DataTable";
+import { DataTablePagination } from "../../components/table/DataTablePagination";
+import {
+  getImageUrl,
+  type MerchantVerificationRequest,
+  type MerchantVerificationStatus,
+  type PaginatedResponse,
+  type VerificationDocumentKind,
+} from "../../types";
+
+type StatusFilter = MerchantVerificationStatus | "ALL";
+
+const statusItems: Array<{ key: StatusFilter; label: string }> = [
+  { key: "PENDING", label: "Pending" },
+  { key: "APPROVED", label: "Approved" },
+  { key: "REJECTED", label: "Rejected" },
+  { key: "ALL", label: "All" },
+];
+
+const statusColors: Record<MerchantVerificationStatus, "warning" | "success" | "danger"> = {
+  PENDING: "warning",
+  APPROVED: "success",
+  REJECTED: "danger",
+};
+
+const documentLabels: Record<VerificationDocumentKind, string> = {
+  businessLicense: "Business license",
+  idDocument: "ID document",
+};
+
+function formatDateTime(value: string | null | undefined): string {
+  if (!value) return "-";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString();
+}
+
+function VerificationDocument({
+  requestId,
+  kind,
+}: {
+  requestId: number;
+  kind: VerificationDocumentKind;
+}) {
+  // Documents are not public files, so they are fetched with the admin session.
+  const documentQuery = useQuery({
+    queryKey: ["merchant-verifications", requestId, "documents", kind],
+    queryFn: async () => {
+      const response = await api.get<Blob>(
+        `/merchants/verifications/${requestId}/documents/${kind}`,
+        { responseType: "blob" },
+      );
+      return URL.createObjectURL(response.data);
+    },
+    staleTime: Infinity,
+    gcTime: 0,
+  });
+
+  useEffect(() => {
+    const url = documentQuery.data;
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [documentQuery.data]);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-semibold uppercase tracking-wide text-default-500">
+        {documentLabels[kind]}
+      </p>
+      <div className="flex min-h-48 items-center justify-center overflow-hidden rounded-lg border border-default-200 bg-default-50">
+        {documentQuery.isLoading ? (
+          <Spinner size="sm" />
+        ) : documentQuery.data ? (
+          <a href={documentQuery.data} target="_blank" rel="noreferrer">
+            <img
+              src={documentQuery.data}
+              alt={documentLabels[kind]}
+              className="max-h-96 w-full object-contain"
+            />
+          </a>
+        ) : (
+          <p className="text-xs text-default-500">Document unavailable.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function VerificationQueuePage() {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<StatusFilter>("PENDING");
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+  const [selected, setSelected] = useState<MerchantVerificationRequest | null>(null);
+  const [note, setNote] = useState("");
+
+  const requestsQuery = useQuery<PaginatedResponse<MerchantVerificationRequest>>({
+    queryKey: ["merchant-verifications", status, page, pageSize],
+    queryFn: async () =>
+      (
+        await api.get("/merchants/verifications", {
+          params: { status, page, limit: pageSize },
+        })
+      ).data,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (input: { id: number; approved: boolean; note: string }) =>
+      api.post(
+        `/merchants/verifications/${input.id}/${input.approved ? "approve" : "reject"}`,
+        { note: input.note.trim() || undefined },
+      ),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["merchant-verifications"] });
+      queryClient.invalidateQueries({ queryKey: ["merchants"] });
+      queryClient.invalidateQueries({ queryKey: ["merchant"] });
+      setSelected(null);
+      addToast({
+        title: variables.approved ? "Merchant verified" : "Verification rejected",
+        description: variables.approved
+          ? "The verified badge is now shown on their ads."
+          : "The merchant was notified and can submit again.",
+        color: "success",
+      });
+    },
+    onError: (error: unknown) => {
+      const message =
+        (error as { response?: { data?: { message?: string } } })?.response?.data?.message ||
+        "Failed to review verification";
+      addToast({ title: "Error", description: message, color: "danger" });
+    },
+  });
+
+  const items = requestsQuery.data?.data ?? [];
+  const meta = requestsQuery.data?.meta;
+  const totalPages = Math.max(1, meta?.totalPages ?? 1);
+
+  const columns = useMemo<ColumnDef<MerchantVerificationRequest>[]>(
+    () => [
+      {
+        header: "MERCHANT",
+        cell: ({ row }) => {
+          const merchant = row.original.merchant;
+          if (!merchant) {
+            return <span className="text-xs text-default-500">Deleted account</span>;
+          }
+          const displayName = merchant.firstName?.trim() || "Unnamed merchant";
+          return (
+            <Link to={`/merchants/${merchant.id}`} className="flex items-center gap-3">
+              <Avatar
+                src={getImageUrl(merchant.avatarUrl ?? null)}
+                name={displayName}
+                className="h-9 w-9"
+              />
+              <div className="min-w-0">
+                <p className="truncate text-sm font-semibold">{displayName}</p>
+                <p className="truncate text-xs text-default-500">
+                  @{merchant.loginUsername || merchant.username || "-"} · joined{" "}
+                  {new Date(merchant.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+            </Link>
+          );
+        },
+      },
+      {
+        header: "SUBMITTED",
+        cell: ({ row }) => (
+          <span className="text-xs text-default-600">{formatDateTime(row.original.createdAt)}</span>
+        ),
+      },
+      {
+        header: "STATUS",
+        cell: ({ row }) => (
+          <div className="flex flex-wrap gap-1">
+            <Chip size="sm" variant="flat" color={statusColors[row.original.status]}>
+              {row.original.status.charAt(0) + row.original.status.slice(1).toLowerCase()}
+            </Chip>
+            {row.original.merchant?.isBanned ? (
+              <Chip size="sm" variant="flat" color="danger">
+                Banned
+              </Chip>
+            ) : null}
+          </div>
+        ),
+      },
+      {
+        header: "REVIEW",
+        cell: ({ row }) =>
+          row.original.reviewedAt ? (
+            <div className="max-w-xs space-y-1 text-xs text-default-600">
+              <p>
+                {row.original.reviewedBy?.firstName?.trim() || "Staff"} ·{" "}
+                {formatDateTime(row.original.reviewedAt)}
+              </p>
+              {row.original.reviewNote ? (
+                <p className="text-default-500">{row.original.reviewNote}</p>
+              ) : null}
+            </div>
+          ) : (
+            <span className="text-xs text-default-500">-</span>
+          ),
+      },
+      {
+        header: "ACTIONS",
+        cell: ({ row }) => {
+          const openReview = () => {
+            setNote("");
+            setSelected(row.original);
+          };
+          return row.original.status === "PENDING" ? (
+            <Button size="sm" color="primary" variant="flat" onPress={openReview}>
+              Review
+            </Button>
+          ) : row.original.documents.length > 0 ? (
+            <Button size="sm" variant="light" onPress={openReview}>
+              View documents
+            </Button>
+          ) : null;
+        },
+      },
+    ],
+    [],
+  );
+
+  const isPending = selected?.status === "PENDING";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold">Verifications</h1>
+          <p className="text-sm text-default-500">
+            Merchants asking for the verified badge. Check the documents match the account before
+            approving.
+          </p>
+        </div>
+        <Tabs
+          selectedKey={status}
+          onSelectionChange={(key) => {
+            setStatus(String(key) as StatusFilter);
+            setPage(1);
+          }}
+          size="sm"
+        >
+          {statusItems.map((item) => (
+            <Tab key={item.key} title={item.label} />
+          ))}
+        </Tabs>
+      </div>
+
+      <DataTable columns={columns} data={items} isLoading={requestsQuery.isLoading} />
+
+      <DataTablePagination
+        pagination={{
+          count: meta?.total ?? 0,
+          page: meta?.page ?? page,
+          pageSize: meta?.limit ?? pageSize,
+          totalPages,
+        }}
+        onPageChange={(nextPage) => setPage(Math.max(1, nextPage))}
+        onPageSizeChange={(nextSize) => {
+          setPageSize(nextSize);
+          setPage(1);
+        }}
+      />
+
+      <Modal
+        isOpen={Boolean(selected)}
+        onClose={() => setSelected(null)}
+        size="3xl"
+        scrollBehavior="inside"
+      >
+        <ModalContent>
+          <ModalHeader className="flex flex-col gap-1">
+            {isPending ? "Review verification" : "Verification documents"}
+            <span className="text-sm font-normal text-default-500">
+              {selected?.merchant?.firstName?.trim() || "Merchant"} · submitted{" "}
+              {formatDateTime(selected?.createdAt)}
+            </span>
+          </ModalHeader>
+          <ModalBody className="space-y-4">
+            {selected ? (
+              <div className="grid gap-4 md:grid-cols-2">
+                {selected.documents.map((kind) => (
+                  <VerificationDocument key={kind} requestId={selected.id} kind={kind} />
+                ))}
+              </div>
+            ) : null}
+            {isPending ? (
+              <Textarea
+                label="Note to merchant"
+                description="Required when rejecting. Sent to the merchant on Telegram."
+                value={note}
+                onValueChange={setNote}
+                maxLength={500}
+                minRows={3}
+              />
+            ) : null}
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="light" onPress={() => setSelected(null)}>
+              {isPending ? "Cancel" : "Close"}
+            </Button>
+            {isPending && selected ? (
+              <>
+                <Button
+                  color="danger"
+                  variant="flat"
+                  isDisabled={reviewMutation.isPending}
+                  onPress={() => {
+                    if (!note.trim()) {
+                      addToast({
+                        title: "Note required",
+                        description: "Tell the merchant what to fix before rejecting.",
+                        color: "warning",
+                      });
+                      return;
+                    }
+                    reviewMutation.mutate({ id: selected.id, approved: false, note });
+                  }}
+                >
+                  Reject
+                </Button>
+                <Button
+                  color="primary"
+                  isLoading={reviewMutation.isPending}
+                  onPress={() => reviewMutation.mutate({ id: selected.id, approved: true, note })}
+                >
+                  Approve
+                </Button>
+              </>
+            ) : null}
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+}
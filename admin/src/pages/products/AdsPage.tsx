@@ -24,6 +24,7 @@ import { type ColumnDef } from "@tanstack/react-table";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { PencilSimple, Plus, Trash, X } from "@phosphor-icons/react";
 import { api } from "../../lib/api";
+import { hasPermission, useMe } from "../../lib/permissions";
 import { getImageUrl } from "../../types";
 import type {
   AdStatus,
@@ -35,6 +36,7 @@ import type {
   AdReviewMeta,
 } from "../../types";
 import AdModal from "../../components/products/AdModal";
+import CategoryTreeEditor from "../../components/products/CategoryTreeEditor";
 import { DataTable } from "../../components/table/DataTable";
 import { DataTablePagination } from "../../components/table/DataTablePagination";
 
@@ -305,6 +307,8 @@ export default function AdsPage() {
   const [categoriesPage, setCategoriesPage] = useState(1);
   const [categoriesLimit, setCategoriesLimit] = useState(10);
   const [categoryName, setCategoryName] = useState("");
+  const [categoryLifetimeDays, setCategoryLifetimeDays] = useState("");
+  const [categoryParentId, setCategoryParentId] = useState<string | null>(null);
   const [categoryDynamicFields, setCategoryDynamicFields] = useState("");
   const [categoryDynamicFieldsMode, setCategoryDynamicFieldsMode] = useState<
     "builder" | "json"
@@ -323,15 +327,18 @@ export default function AdsPage() {
     name: string;
   } | null>(null);
   const [detailsTarget, setDetailsTarget] = useState<Ad | null>(null);
+  const [featureTarget, setFeatureTarget] = useState<Ad | null>(null);
+  const [featureDays, setFeatureDays] = useState("7");
   const [reviewModerationTarget, setReviewModerationTarget] =
     useState<ReviewModerationTarget | null>(null);
 
-  const { data: me } = useQuery<{ role?: string }>({
-    queryKey: ["me"],
-    queryFn: async () => (await api.get("/auth/me")).data,
-    staleTime: 30_000,
-  });
+  const { data: me } = useMe();
   const isAdmin = me?.role === "admin";
+  const canWriteAds = hasPermission(me, "ads.write");
+  const canModerateAds = hasPermission(me, "ads.moderate");
+  const canFeatureAds = hasPermission(me, "ads.feature");
+  const canModerateReviews = hasPermission(me, "reviews.moderate");
+  const canManageCategories = hasPermission(me, "categories.manage");
 
   const { data: adsResponse, isLoading } = useQuery<PaginatedResponse<Ad>>({
     queryKey: ["ads", search, statusFilter, adsPage, adsLimit],
@@ -372,7 +379,7 @@ export default function AdsPage() {
       }
       return (await api.get(`/ads/${detailsTarget.id}/comments/manage`)).data;
     },
-    enabled: isAdmin && Boolean(detailsTarget?.id),
+    enabled: canModerateReviews && Boolean(detailsTarget?.id),
   });
 
   useEffect(() => {
@@ -394,6 +401,17 @@ export default function AdsPage() {
 
   const ads = adsResponse?.data ?? [];
   const adsMeta = adsResponse?.meta;
+  const { data: parentOptionsResponse } = useQuery<PaginatedResponse<Category>>({
+    queryKey: ["categories", "select-options"],
+    queryFn: async () =>
+      (
+        await api.get("/categories", {
+          params: { page: 1, limit: 100 },
+        })
+      ).data,
+    enabled: canManageCategories,
+  });
+
   const categories = categoriesResponse?.data ?? [];
   const categoriesMeta = categoriesResponse?.meta;
   const adsTotalPages = Math.max(1, adsMeta?.totalPages ?? 1);
@@ -438,15 +456,21 @@ export default function AdsPage() {
       id,
       name,
       dynamicFieldsRaw,
+      defaultAdLifetimeDays,
+      parentId,
       thumbnail,
     }: {
       id?: number;
       name: string;
       dynamicFieldsRaw: string;
+      defaultAdLifetimeDays: string;
+      parentId: string | null;
       thumbnail?: File | null;
     }) => {
       const formData = new FormData();
       formData.append("name", name.trim());
+      formData.append("defaultAdLifetimeDays", defaultAdLifetimeDays.trim());
+      formData.append("parentId", parentId ?? "");
       if (dynamicFieldsRaw.trim()) {
         formData.append("dynamicFields", dynamicFieldsRaw.trim());
       }
@@ -470,6 +494,8 @@ export default function AdsPage() {
         color: "success",
       });
       setCategoryName("");
+      setCategoryLifetimeDays("");
+      setCategoryParentId(null);
       setCategoryDynamicFields("");
       setCategoryDynamicFieldsMode("builder");
       setCategoryDynamicFieldDrafts([]);
@@ -600,6 +626,31 @@ export default function AdsPage() {
       });
     },
   });
+  const approveReviewMutation = useMutation({
+    mutationFn: async ({
+      adId,
+      commentId,
+    }: {
+      adId: number;
+      commentId: number;
+    }) => api.post(`/ads/${adId}/comments/${commentId}/approve`),
+    onSuccess: async (_, variables) => {
+      await queryClient.invalidateQueries({
+        queryKey: ["ad-reviews", variables.adId],
+      });
+      addToast({
+        title: "Review approved",
+        description: "The review is now visible on the ad.",
+        color: "success",
+      });
+    },
+    onError: (error: unknown) => {
+      const message =
+        (error as { response?: { data?: { message?: string } } })?.response?.data?.message ||
+        "Failed to approve review";
+      addToast({ title: "Error", description: message, color: "danger" });
+    },
+  });
   const isReviewModerationPending =
     deleteReviewMutation.isPending ||
     blockReviewerMutation.isPending ||
@@ -631,6 +682,35 @@ export default function AdsPage() {
     },
   });
 
+  const featureMutation = useMutation({
+    mutationFn: async ({
+      id,
+      isFeatured,
+      days,
+    }: {
+      id: number;
+      isFeatured: boolean;
+      days?: number;
+    }) => api.patch(`/ads/${id}/featured`, { isFeatured, days }),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["ads"] });
+      setFeatureTarget(null);
+      addToast({
+        title: variables.isFeatured ? "Ad featured" : "Ad unfeatured",
+        description: variables.isFeatured
+          ? "The ad is pinned to the top of the catalog."
+          : "The ad is no longer pinned.",
+        color: "success",
+      });
+    },
+    onError: (error: unknown) => {
+      const message =
+        (error as { response?: { data?: { message?: string } } })?.response?.data?.message ||
+        "Failed to update featured status";
+      addToast({ title: "Error", description: message, color: "danger" });
+    },
+  });
+
   const adColumns = useMemo<ColumnDef<Ad>[]>(
     () => [
       {
@@ -685,9 +765,22 @@ export default function AdsPage() {
         cell: ({ row }) => {
           const status = (row.original.status ?? "PENDING") as AdStatus;
           return (
-            <Chip size="sm" variant="flat" color={statusColorMap[status]}>
-              {status}
-            </Chip>
+            <div className="flex flex-col items-start gap-1">
+              <Chip size="sm" variant="flat" color={statusColorMap[status]}>
+                {status}
+              </Chip>
+              {/* Pending ads only carry a note when the auto-screen flagged them. */}
+              {status === "PENDING" && row.original.moderationNote ? (
+                <Chip size="sm" variant="flat" color="danger">
+                  Auto-flagged
+                </Chip>
+              ) : null}
+              {row.original.isFeatured && row.original.featuredUntil ? (
+                <Chip size="sm" variant="flat" color="secondary">
+                  Featured until {new Date(row.original.featuredUntil).toLocaleDateString()}
+                </Chip>
+              ) : null}
+            </div>
           );
         },
       },
@@ -702,7 +795,7 @@ export default function AdsPage() {
             >
               Details
             </Button>
-            {isAdmin ? (
+            {canModerateAds ? (
               <>
                 {row.original.status !== "APPROVED" ? (
                   <Button
@@ -730,26 +823,63 @@ export default function AdsPage() {
                 ) : null}
               </>
             ) : null}
-            <Button
-              size="sm"
-              color="danger"
-              variant="light"
-              onPress={() =>
-                setDeleteTarget({
-                  type: "ad",
-                  id: row.original.id,
-                  name: row.original.name,
-                })
-              }
-              startContent={<Trash className="h-4 w-4" />}
-            >
-              Delete
-            </Button>
+            {canFeatureAds ? (
+              <>
+                {row.original.isFeatured ? (
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    isDisabled={featureMutation.isPending}
+                    onPress={() =>
+                      featureMutation.mutate({ id: row.original.id, isFeatured: false })
+                    }
+                  >
+                    Unfeature
+                  </Button>
+                ) : row.original.status === "APPROVED" ? (
+                  <Button
+                    size="sm"
+                    color="secondary"
+                    variant="flat"
+                    onPress={() => {
+                      setFeatureDays("7");
+                      setFeatureTarget(row.original);
+                    }}
+                  >
+                    Feature
+                  </Button>
+                ) : null}
+              </>
+            ) : null}
+            {canWriteAds ? (
+              <Button
+                size="sm"
+                color="danger"
+                variant="light"
+                onPress={() =>
+                  setDeleteTarget({
+                    type: "ad",
+                    id: row.original.id,
+                    name: row.original.name,
+                  })
+                }
+                startContent={<Trash className="h-4 w-4" />}
+              >
+                Delete
+              </Button>
+            ) : null}
           </div>
         ),
       },
     ],
-    [adsOffset, isAdmin, moderateMutation],
+    [
+      adsOffset,
+      canModerateAds,
+      canFeatureAds,
+      canWriteAds,
+      moderateMutation,
+      featureMutation,
+    ],
   );
 
   const categoryColumns = useMemo<ColumnDef<Category>[]>(
@@ -769,7 +899,7 @@ export default function AdsPage() {
               radius="sm"
               className="h-8 w-8"
             />
-            <div>
+            <div style={{ paddingLeft: (row.original.depth ?? 0) * 16 }}>
               <p className="text-sm font-semibold">{row.original.name}</p>
               <p className="text-xs text-default-500">{row.original.slug}</p>
             </div>
@@ -777,13 +907,33 @@ export default function AdsPage() {
         ),
       },
       {
-        header: "DYNAMIC FIELDS",
+        header: "AD LIFETIME",
         cell: ({ row }) => (
-          <Chip size="sm" variant="flat" color="primary">
-            {row.original.dynamicFields?.length ?? 0}
-          </Chip>
+          <p className="text-sm text-default-500">
+            {row.original.defaultAdLifetimeDays
+              ? `${row.original.defaultAdLifetimeDays} days`
+              : "Default"}
+          </p>
         ),
       },
+      {
+        header: "DYNAMIC FIELDS",
+        cell: ({ row }) => {
+          const ownCount = row.original.dynamicFields?.length ?? 0;
+          const inheritedCount =
+            (row.original.effectiveDynamicFields?.length ?? ownCount) - ownCount;
+          return (
+            <div className="flex items-center gap-2">
+              <Chip size="sm" variant="flat" color="primary">
+                {ownCount}
+              </Chip>
+              {inheritedCount > 0 ? (
+                <span className="text-xs text-default-500">+{inheritedCount} inherited</span>
+              ) : null}
+            </div>
+          );
+        },
+      },
       {
         header: "ACTIONS",
         cell: ({ row }) => (
@@ -795,6 +945,14 @@ export default function AdsPage() {
                 const nextFields = row.original.dynamicFields ?? null;
                 setEditingCategory(row.original);
                 setCategoryName(row.original.name);
+                setCategoryLifetimeDays(
+                  row.original.defaultAdLifetimeDays
+                    ? String(row.original.defaultAdLifetimeDays)
+                    : "",
+                );
+                setCategoryParentId(
+                  row.original.parentId ? String(row.original.parentId) : null,
+                );
                 setCategoryDynamicFields(stringifyDynamicFields(nextFields));
                 setCategoryDynamicFieldDrafts(dynamicFieldsToDrafts(nextFields));
                 setCategoryDynamicFieldsMode("builder");
@@ -835,9 +993,27 @@ export default function AdsPage() {
     }
   }, [categoryDynamicFieldDrafts]);
 
+  const parentCategoryOptions = useMemo(() => {
+    const options = parentOptionsResponse?.data ?? [];
+    if (!editingCategory) return options;
+    // A category cannot be nested inside itself or one of its subcategories.
+    const parentById = new Map(options.map((entry) => [entry.id, entry.parentId ?? null]));
+    const isInsideEditedCategory = (id: number) => {
+      let current: number | null = id;
+      while (current !== null) {
+        if (current === editingCategory.id) return true;
+        current = parentById.get(current) ?? null;
+      }
+      return false;
+    };
+    return options.filter((entry) => !isInsideEditedCategory(entry.id));
+  }, [editingCategory, parentOptionsResponse]);
+
   const resetCategoryForm = () => {
     setEditingCategory(null);
     setCategoryName("");
+    setCategoryLifetimeDays("");
+    setCategoryParentId(null);
     setCategoryDynamicFields("");
     setCategoryDynamicFieldsMode("builder");
     setCategoryDynamicFieldDrafts([]);
@@ -963,6 +1139,8 @@ export default function AdsPage() {
         id: editingCategory?.id,
         name: categoryName,
         dynamicFieldsRaw,
+        defaultAdLifetimeDays: categoryLifetimeDays,
+        parentId: categoryParentId,
         thumbnail: categoryThumbnail,
       });
     } catch (error: any) {
@@ -1022,16 +1200,18 @@ export default function AdsPage() {
                       <SelectItem key={entry.key}>{entry.label}</SelectItem>
                     ))}
                   </Select>
-                  <Button
-                    color="primary"
-                    onPress={handleOpenCreate}
-                    className="shrink-0 px-4 sm:px-5"
-                  >
-                    <span className="inline-flex items-center gap-2">
-                      <Plus className="h-4 w-4" aria-hidden="true" />
-                      <span>Post Ad</span>
-                    </span>
-                  </Button>
+                  {canWriteAds ? (
+                    <Button
+                      color="primary"
+                      onPress={handleOpenCreate}
+                      className="shrink-0 px-4 sm:px-5"
+                    >
+                      <span className="inline-flex items-center gap-2">
+                        <Plus className="h-4 w-4" aria-hidden="true" />
+                        <span>Post Ad</span>
+                      </span>
+                    </Button>
+                  ) : null}
                 </div>
               </div>
             </div>
@@ -1056,7 +1236,7 @@ export default function AdsPage() {
           </div>
         </Tab>
 
-        {isAdmin ? (
+        {canManageCategories ? (
           <Tab key="categories" title="Categories">
             <Card className="mb-4">
               <CardBody>
@@ -1068,6 +1248,32 @@ export default function AdsPage() {
                     onValueChange={setCategoryName}
                     isRequired
                   />
+                  <Select
+                    label="Parent category"
+                    placeholder="None (top level)"
+                    description="Subcategories inherit the parent's dynamic fields."
+                    selectedKeys={categoryParentId ? new Set([categoryParentId]) : new Set([])}
+                    onSelectionChange={(keys) => {
+                      const selected = keys === "all" ? undefined : Array.from(keys)[0];
+                      setCategoryParentId(selected ? String(selected) : null);
+                    }}
+                  >
+                    {parentCategoryOptions.map((entry) => (
+                      <SelectItem key={String(entry.id)} textValue={entry.name}>
+                        {`${"— ".repeat(entry.depth ?? 0)}${entry.name}`}
+                      </SelectItem>
+                    ))}
+                  </Select>
+                  <Input
+                    type="number"
+                    label="Ad lifetime (days)"
+                    placeholder="Uses the global default when empty"
+                    description="Approved ads in this category expire after this many days unless renewed."
+                    min={1}
+                    max={365}
+                    value={categoryLifetimeDays}
+                    onValueChange={setCategoryLifetimeDays}
+                  />
                   <Input
                     type="file"
                     label="Thumbnail image"
@@ -1308,6 +1514,8 @@ export default function AdsPage() {
               </CardBody>
             </Card>
 
+            <CategoryTreeEditor />
+
             <DataTable
               columns={categoryColumns}
               data={categories}
@@ -1621,10 +1829,35 @@ export default function AdsPage() {
                                             Reply
                                           </Chip>
                                         ) : null}
+                                        {review.isHeld ? (
+                                          <Chip size="sm" variant="flat" color="danger">
+                                            Held for approval
+                                          </Chip>
+                                        ) : null}
                                       </div>
                                     </div>
                                   </div>
                                   <div className="flex items-center gap-2">
+                                    {review.isHeld ? (
+                                      <Button
+                                        size="sm"
+                                        color="success"
+                                        variant="flat"
+                                        isLoading={
+                                          approveReviewMutation.isPending &&
+                                          approveReviewMutation.variables?.commentId ===
+                                            review.id
+                                        }
+                                        onPress={() =>
+                                          approveReviewMutation.mutate({
+                                            adId: review.adId,
+                                            commentId: review.id,
+                                          })
+                                        }
+                                      >
+                                        Approve
+                                      </Button>
+                                    ) : null}
                                     <Button
                                       size="sm"
                                       color="danger"
@@ -1665,6 +1898,27 @@ export default function AdsPage() {
                                 <p className="text-sm text-default-700">
                                   {commentText || (stars ? "Rating only" : "No text provided")}
                                 </p>
+                                {review.isHeld && review.moderationNote ? (
+                                  <p className="text-xs text-danger">{review.moderationNote}</p>
+                                ) : null}
+                                {review.imageUrls && review.imageUrls.length > 0 ? (
+                                  <div className="flex flex-wrap gap-2 pt-1">
+                                    {review.imageUrls.map((imageUrl) => (
+                                      <a
+                                        key={imageUrl}
+                                        href={getImageUrl(imageUrl)}
+                                        target="_blank"
+                                        rel="noreferrer"
+                                      >
+                                        <img
+                                          src={getImageUrl(imageUrl)}
+                                          alt="Review photo"
+                                          className="h-20 w-20 rounded-lg border border-default-200 object-cover"
+                                        />
+                                      </a>
+                                    ))}
+                                  </div>
+                                ) : null}
                               </CardBody>
                             </Card>
                           );
@@ -1759,6 +2013,54 @@ export default function AdsPage() {
         </ModalContent>
       </Modal>
 
+      <Modal isOpen={Boolean(featureTarget)} onClose={() => setFeatureTarget(null)} size="md">
+        <ModalContent>
+          <ModalHeader className="flex flex-col gap-1">Feature Ad</ModalHeader>
+          <ModalBody className="space-y-3">
+            <p className="text-sm text-default-600">
+              Pin <strong>{featureTarget?.name}</strong> to the top of the catalog. Admin
+              overrides skip the category slot limit and cost no loyalty points.
+            </p>
+            <Input
+              type="number"
+              label="Days"
+              min={1}
+              max={365}
+              value={featureDays}
+              onValueChange={setFeatureDays}
+            />
+          </ModalBody>
+          <ModalFooter>
+            <Button
+              variant="light"
+              onPress={() => setFeatureTarget(null)}
+              isDisabled={featureMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              color="secondary"
+              isLoading={featureMutation.isPending}
+              onPress={() => {
+                if (!featureTarget) return;
+                const days = Number.parseInt(featureDays, 10);
+                if (!Number.isInteger(days) || days < 1 || days > 365) {
+                  addToast({
+                    title: "Invalid duration",
+                    description: "Enter between 1 and 365 days.",
+                    color: "warning",
+                  });
+                  return;
+                }
+                featureMutation.mutate({ id: featureTarget.id, isFeatured: true, days });
+              }}
+            >
+              Feature
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
       <Modal isOpen={!!deleteTarget} onClose={() => setDeleteTarget(null)} size="md">
         <ModalContent>
           <ModalHeader className="flex flex-col gap-1">Confirm Delete</ModalHeader>
@@ -11,13 +11,18 @@ import {
   addToast,
 } from "@heroui/react";
 import {
+  DeviceMobile,
+  Desktop,
   Lock,
   Password,
+  SignOut,
   TelegramLogo,
   UploadSimple,
   UserCircle,
 } from "@phosphor-icons/react";
-import { api } from "../../lib/api";
+import { useNavigate } from "react-router-dom";
+import { api, logout } from "../../lib/api";
+import { TwoFactorSettingsCard } from "./TwoFactorSettingsCard";
 import { getImageUrl } from "../../types";
 
 type StaffProfile = {
@@ -30,6 +35,17 @@ type StaffProfile = {
   hasTelegram?: boolean;
 };
 
+type AuthSession = {
+  id: number;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+};
+
 type TelegramUser = {
   id: number;
   first_name: string;
@@ -46,6 +62,7 @@ declare global {
 }
 
 const LOGIN_USERNAME_RE = /^@?[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+const MOBILE_DEVICE_RE = /iphone|ipad|android|mobile/i;
 
 function getErrorMessage(error: any, fallback: string) {
   const raw = error?.response?.data?.message;
@@ -60,6 +77,7 @@ function getErrorMessage(error: any, fallback: string) {
 
 export default function AdminProfilePage() {
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const telegramWidgetRef = useRef<HTMLDivElement | null>(null);
 
@@ -94,6 +112,60 @@ export default function AdminProfilePage() {
     }
   }, [profileQuery.data]);
 
+  const sessionsQuery = useQuery<AuthSession[]>({
+    queryKey: ["admin", "sessions"],
+    queryFn: async () => (await api.get("/auth/sessions")).data,
+  });
+  const sessions = sessionsQuery.data ?? [];
+  const otherSessionCount = sessions.filter((session) => !session.current).length;
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (session: AuthSession) => {
+      await api.delete(`/auth/sessions/${session.id}`);
+      return session;
+    },
+    onSuccess: async (session) => {
+      if (session.current) {
+        await logout().catch(() => undefined);
+        navigate("/login", { replace: true });
+        return;
+      }
+      addToast({
+        title: "Session signed out",
+        description: `${session.device} no longer has access.`,
+        color: "success",
+      });
+      queryClient.invalidateQueries({ queryKey: ["admin", "sessions"] });
+    },
+    onError: (error) => {
+      addToast({
+        title: "Sign out failed",
+        description: getErrorMessage(error, "Failed to sign out the session."),
+        color: "danger",
+      });
+    },
+  });
+
+  const revokeOtherSessionsMutation = useMutation({
+    mutationFn: async () =>
+      (await api.delete("/auth/sessions")).data as { revoked: number },
+    onSuccess: (data) => {
+      addToast({
+        title: "Other sessions signed out",
+        description: `${data.revoked} session${data.revoked === 1 ? "" : "s"} signed out.`,
+        color: "success",
+      });
+      queryClient.invalidateQueries({ queryKey: ["admin", "sessions"] });
+    },
+    onError: (error) => {
+      addToast({
+        title: "Sign out failed",
+        description: getErrorMessage(error, "Failed to sign out other sessions."),
+        color: "danger",
+      });
+    },
+  });
+
   const avatarSrc = useMemo(
     () => (avatarUrl ? getImageUrl(avatarUrl) : undefined),
     [avatarUrl],
@@ -552,6 +624,89 @@ export default function AdminProfilePage() {
           )}
         </CardBody>
       </Card>
+
+      <TwoFactorSettingsCard />
+
+      <Card>
+        <CardBody className="space-y-4 p-6">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-semibold">Active Sessions</h2>
+              <p className="text-sm text-default-500">
+                Devices signed in to your account. Sign out any you don't recognize.
+              </p>
+            </div>
+            <Button
+              variant="flat"
+              color="danger"
+              startContent={<SignOut className="h-4 w-4" />}
+              onPress={() => revokeOtherSessionsMutation.mutate()}
+              isLoading={revokeOtherSessionsMutation.isPending}
+              isDisabled={otherSessionCount === 0}
+            >
+              Sign out other sessions
+            </Button>
+          </div>
+
+          {sessionsQuery.isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-14 rounded-xl" />
+              <Skeleton className="h-14 rounded-xl" />
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-default-500">No active sessions.</p>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map((session) => {
+                const DeviceIcon = MOBILE_DEVICE_RE.test(session.userAgent ?? "")
+                  ? DeviceMobile
+                  : Desktop;
+                return (
+                  <div
+                    key={session.id}
+                    className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-default-200 p-3"
+                  >
+                    <div className="flex min-w-0 items-center gap-3">
+                      <DeviceIcon className="h-5 w-5 shrink-0 text-default-500" />
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">{session.device}</span>
+                          {session.current ? (
+                            <Chip size="sm" color="success" variant="flat">
+                              This device
+                            </Chip>
+                          ) : null}
+                        </div>
+                        <p className="truncate text-xs text-default-500">
+                          {[
+                            session.ipAddress,
+                            `Last active ${new Date(session.lastSeenAt).toLocaleString()}`,
+                            `Signed in ${new Date(session.createdAt).toLocaleDateString()}`,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </p>
+                      </div>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="light"
+                      color="danger"
+                      onPress={() => revokeSessionMutation.mutate(session)}
+                      isLoading={
+                        revokeSessionMutation.isPending &&
+                        revokeSessionMutation.variables?.id === session.id
+                      }
+                    >
+                      {session.current ? "Sign out" : "Revoke"}
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardBody>
+      </Card>
     </div>
   );
 }
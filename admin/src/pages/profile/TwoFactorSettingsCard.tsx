@@ -0,0 +1,287 @@
+import { useState } from "react";
+import axios from "axios";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button, Card, CardBody, Chip, Input, Skeleton, addToast } from "@heroui/react";
+import { Copy, Key, ShieldCheck } from "@phosphor-icons/react";
+import { api } from "../../lib/api";
+
+type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+  hasTelegram: boolean;
+};
+
+type TwoFactorSetup = {
+  secret: string;
+  otpauthUrl: string;
+};
+
+const STATUS_QUERY_KEY = ["admin", "two-factor"];
+
+function getErrorMessage(error: unknown, fallback: string) {
+  const raw = axios.isAxiosError(error)
+    ? (error.response?.data as { message?: unknown } | undefined)?.message
+    : undefined;
+  if (Array.isArray(raw)) {
+    const entries = raw.filter((entry) => typeof entry === "string");
+    if (entries.length) return entries.join(", ");
+  }
+  if (typeof raw === "string" && raw.trim()) return raw;
+  return fallback;
+}
+
+function formatSecret(secret: string) {
+  return secret.match(/.{1,4}/g)?.join(" ") ?? secret;
+}
+
+export function TwoFactorSettingsCard() {
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const statusQuery = useQuery<TwoFactorStatus>({
+    queryKey: STATUS_QUERY_KEY,
+    queryFn: async () => (await api.get("/auth/2fa")).data,
+  });
+  const status = statusQuery.data;
+
+  const onError = (title: string, fallback: string) => (error: unknown) => {
+    addToast({ title, description: getErrorMessage(error, fallback), color: "danger" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => (await api.post("/auth/2fa/setup")).data as TwoFactorSetup,
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+      setRecoveryCodes(null);
+    },
+    onError: onError("Setup failed", "Could not start authenticator setup."),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () =>
+      (await api.post("/auth/2fa/enable", { code: code.trim() })).data as {
+        recoveryCodes: string[];
+      },
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      addToast({
+        title: "Two-factor enabled",
+        description: "Save your recovery codes somewhere safe.",
+        color: "success",
+      });
+      queryClient.invalidateQueries({ queryKey: STATUS_QUERY_KEY });
+    },
+    onError: onError("Verification failed", "Invalid verification code."),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () =>
+      (await api.post("/auth/2fa/recovery-codes", { code: code.trim() })).data as {
+        recoveryCodes: string[];
+      },
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      addToast({
+        title: "Recovery codes replaced",
+        description: "Your previous recovery codes no longer work.",
+        color: "success",
+      });
+      queryClient.invalidateQueries({ queryKey: STATUS_QUERY_KEY });
+    },
+    onError: onError("Regeneration failed", "Invalid verification code."),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => api.post("/auth/2fa/disable", { code: code.trim() }),
+    onSuccess: () => {
+      setCode("");
+      setRecoveryCodes(null);
+      addToast({
+        title: "Two-factor disabled",
+        description: "Authenticator codes are no longer required.",
+        color: "warning",
+      });
+      queryClient.invalidateQueries({ queryKey: STATUS_QUERY_KEY });
+    },
+    onError: onError("Disable failed", "Invalid verification code."),
+  });
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      addToast({ title: "Copied", description: "Recovery codes copied.", color: "success" });
+    } catch {
+      addToast({
+        title: "Copy failed",
+        description: "Select the codes and copy them manually.",
+        color: "warning",
+      });
+    }
+  };
+
+  const hasCode = code.trim().length > 0;
+
+  return (
+    <Card>
+      <CardBody className="space-y-4 p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold">Two-Factor Authentication</h2>
+            <p className="text-sm text-default-500">
+              Require a code from an authenticator app after your password.
+            </p>
+          </div>
+          {status?.enabled ? (
+            <Chip color="success" variant="flat">
+              Enabled
+            </Chip>
+          ) : (
+            <Chip color="warning" variant="flat">
+              Not enabled
+            </Chip>
+          )}
+        </div>
+
+        {statusQuery.isLoading ? (
+          <Skeleton className="h-10 rounded-xl" />
+        ) : null}
+
+        {status && !status.enabled && status.required ? (
+          <p className="text-xs text-warning">
+            {status.hasTelegram
+              ? "Admins always need a second factor. Until you enable an authenticator app, password logins must be approved in Telegram."
+              : "Admins always need a second factor. Enable an authenticator app or link Telegram to keep using password login."}
+          </p>
+        ) : null}
+
+        {recoveryCodes ? (
+          <div className="space-y-2 rounded-xl border border-default-200 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">Recovery codes</p>
+              <Button
+                size="sm"
+                variant="flat"
+                startContent={<Copy className="h-3.5 w-3.5" />}
+                onPress={copyRecoveryCodes}
+              >
+                Copy
+              </Button>
+            </div>
+            <p className="text-xs text-default-500">
+              Each code works once if you lose your authenticator. They won't be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-1 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button size="sm" variant="light" onPress={() => setRecoveryCodes(null)}>
+              I saved them
+            </Button>
+          </div>
+        ) : null}
+
+        {status && !status.enabled ? (
+          setup ? (
+            <div className="space-y-3">
+              <p className="text-sm text-default-500">
+                Add this key to Google Authenticator, 1Password or a similar app, then enter
+                the 6-digit code it shows.
+              </p>
+              <div className="flex flex-wrap items-center gap-3 rounded-xl bg-default-100 p-3">
+                <Key className="h-4 w-4 text-default-500" />
+                <code className="break-all text-sm">{formatSecret(setup.secret)}</code>
+                <a
+                  className="text-sm text-primary underline"
+                  href={setup.otpauthUrl}
+                >
+                  Open in authenticator app
+                </a>
+              </div>
+              <div className="flex flex-col gap-3 md:flex-row md:items-end">
+                <Input
+                  label="Verification code"
+                  placeholder="123456"
+                  value={code}
+                  onValueChange={setCode}
+                  autoComplete="one-time-code"
+                  className="md:flex-1"
+                />
+                <Button
+                  color="primary"
+                  onPress={() => enableMutation.mutate()}
+                  isLoading={enableMutation.isPending}
+                  isDisabled={!hasCode}
+                >
+                  Verify and enable
+                </Button>
+                <Button variant="light" onPress={() => setSetup(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button
+              color="primary"
+              variant="flat"
+              startContent={<ShieldCheck className="h-4 w-4" />}
+              onPress={() => setupMutation.mutate()}
+              isLoading={setupMutation.isPending}
+            >
+              Set up authenticator app
+            </Button>
+          )
+        ) : null}
+
+        {status?.enabled ? (
+          <div className="space-y-3">
+            <p className="text-sm text-default-500">
+              {status.enabledAt
+                ? `Enabled on ${new Date(status.enabledAt).toLocaleDateString()}. `
+                : ""}
+              {status.recoveryCodesRemaining} recovery code
+              {status.recoveryCodesRemaining === 1 ? "" : "s"} left.
+            </p>
+            <div className="flex flex-col gap-3 md:flex-row md:items-end">
+              <Input
+                label="Authenticator code"
+                placeholder="123456"
+                description="Needed to change two-factor settings. A recovery code also works for disabling."
+                value={code}
+                onValueChange={setCode}
+                autoComplete="one-time-code"
+                className="md:flex-1"
+              />
+              <Button
+                variant="flat"
+                onPress={() => regenerateMutation.mutate()}
+                isLoading={regenerateMutation.isPending}
+                isDisabled={!hasCode}
+              >
+                New recovery codes
+              </Button>
+              <Button
+                color="danger"
+                variant="flat"
+                onPress={() => disableMutation.mutate()}
+                isLoading={disableMutation.isPending}
+                isDisabled={!hasCode}
+              >
+                Disable
+              </Button>
+            </div>
+          </div>
+        ) : null}
+      </CardBody>
+    </Card>
+  );
+}
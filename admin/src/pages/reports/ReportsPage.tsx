@@ -0,0 +1,349 @@
+import { useMemo, useState } from "react";
+import { type ColumnDef } from "@tanstack/react-table";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Button,
+  Checkbox,
+  Chip,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Tab,
+  Tabs,
+  Textarea,
+  addToast,
+} from "@heroui/react";
+import { useNavigate } from "react-router-dom";
+import { api } from "../../lib/api";
+import { DataTable } from "../../components/table/DataTable";
+import { DataTablePagination } from "../../components/table/DataTablePagination";
+import type {
+  AdReportQueueItem,
+  AdReportReason,
+  AdReportResolutionAction,
+  AdReportStatus,
+  PaginatedResponse,
+} from "../../types";
+
+type ReportDecision = {
+  kind: "resolve" | "dismiss";
+  item: AdReportQueueItem;
+};
+
+const reasonLabels: Record<AdReportReason, string> = {
+  SCAM: "Scam",
+  SPAM: "Spam",
+  OFFENSIVE: "Offensive",
+  PROHIBITED_ITEM: "Prohibited item",
+  MISLEADING: "Misleading",
+  OTHER: "Other",
+};
+
+const actionLabels: Record<AdReportResolutionAction, string> = {
+  REMOVE_COMMENT: "Remove review",
+  REJECT_AD: "Reject ad",
+  BAN_USER: "Ban user",
+};
+
+const statusItems: Array<{ key: AdReportStatus; label: string }> = [
+  { key: "OPEN", label: "Open" },
+  { key: "RESOLVED", label: "Resolved" },
+  { key: "DISMISSED", label: "Dismissed" },
+];
+
+function formatPersonName(
+  person?: { firstName?: string | null; username?: string | null } | null,
+) {
+  if (!person) return "Unknown";
+  return person.firstName?.trim() || (person.username ? `@${person.username}` : "Unknown");
+}
+
+function availableActions(item: AdReportQueueItem): AdReportResolutionAction[] {
+  return item.targetType === "COMMENT"
+    ? ["REMOVE_COMMENT", "BAN_USER"]
+    : ["REJECT_AD", "BAN_USER"];
+}
+
+export default function ReportsPage() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<AdReportStatus>("OPEN");
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+  const [decision, setDecision] = useState<ReportDecision | null>(null);
+  const [selectedActions, setSelectedActions] = useState<AdReportResolutionAction[]>([]);
+  const [note, setNote] = useState("");
+
+  const reportsQuery = useQuery<PaginatedResponse<AdReportQueueItem>>({
+    queryKey: ["ad-reports", status, page, pageSize],
+    queryFn: async () =>
+      (
+        await api.get("/ad-reports", {
+          params: { status, page, limit: pageSize },
+        })
+      ).data,
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async (input: {
+      kind: "resolve" | "dismiss";
+      item: AdReportQueueItem;
+      actions: AdReportResolutionAction[];
+      note: string;
+    }) =>
+      api.post(`/ad-reports/${input.kind}`, {
+        targetType: input.item.targetType,
+        adId: input.item.adId,
+        commentId: input.item.commentId ?? undefined,
+        actions: input.kind === "resolve" ? input.actions : undefined,
+        note: input.note.trim() || undefined,
+      }),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["ad-reports"] });
+      queryClient.invalidateQueries({ queryKey: ["ads"] });
+      setDecision(null);
+      addToast({
+        title: variables.kind === "resolve" ? "Reports resolved" : "Reports dismissed",
+        description: "The item has left the open queue.",
+        color: "success",
+      });
+    },
+    onError: (error: unknown) => {
+      const message =
+        (error as { response?: { data?: { message?: string } } })?.response?.data?.message ||
+        "Failed to update reports";
+      addToast({ title: "Error", description: message, color: "danger" });
+    },
+  });
+
+  const openDecision = (kind: ReportDecision["kind"], item: AdReportQueueItem) => {
+    setSelectedActions(
+      kind === "resolve" && item.targetType === "COMMENT" ? ["REMOVE_COMMENT"] : [],
+    );
+    setNote("");
+    setDecision({ kind, item });
+  };
+
+  const items = reportsQuery.data?.data ?? [];
+  const meta = reportsQuery.data?.meta;
+  const totalPages = Math.max(1, meta?.totalPages ?? 1);
+
+  const columns = useMemo<ColumnDef<AdReportQueueItem>[]>(
+    () => [
+      {
+        header: "ITEM",
+        cell: ({ row }) => {
+          const item = row.original;
+          return (
+            <div className="max-w-sm space-y-1">
+              <div className="flex items-center gap-2">
+                <Chip size="sm" variant="flat" color={item.targetType === "AD" ? "primary" : "secondary"}>
+                  {item.targetType === "AD" ? "Ad" : "Review"}
+                </Chip>
+                <p className="truncate text-sm font-semibold">
+                  {item.ad?.name ?? `Ad #${item.adId}`}
+                </p>
+              </div>
+              {item.targetType === "COMMENT" ? (
+                item.comment ? (
+                  <p className="line-clamp-2 text-xs text-default-600">
+                    “{item.comment.comment?.trim() || "Rating only"}” —{" "}
+                    {formatPersonName(item.comment.user)}
+                  </p>
+                ) : (
+                  <p className="text-xs italic text-default-400">Review removed</p>
+                )
+              ) : (
+                <p className="text-xs text-default-500">
+                  Seller: {formatPersonName(item.ad?.merchant)}
+                  {item.ad?.merchant?.isBanned ? " (banned)" : ""}
+                </p>
+              )}
+            </div>
+          );
+        },
+      },
+      {
+        header: "REPORTS",
+        cell: ({ row }) => (
+          <div className="space-y-1">
+            <Chip size="sm" variant="flat" color={row.original.reportCount > 2 ? "danger" : "warning"}>
+              {row.original.reportCount}
+            </Chip>
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(row.original.reasons).map(([reason, count]) => (
+                <span key={reason} className="text-xs text-default-500">
+                  {reasonLabels[reason as AdReportReason]} ×{count}
+                </span>
+              ))}
+            </div>
+          </div>
+        ),
+      },
+      {
+        header: "LATEST",
+        cell: ({ row }) => {
+          const latest = row.original.reports[0];
+          return (
+            <div className="max-w-xs space-y-1 text-xs text-default-600">
+              <p>{new Date(row.original.lastReportedAt).toLocaleString()}</p>
+              {latest?.details ? <p className="line-clamp-2">{latest.details}</p> : null}
+              {latest?.resolutionActions?.length ? (
+                <p className="text-default-500">
+                  {latest.resolutionActions.map((action) => actionLabels[action]).join(", ")}
+                </p>
+              ) : null}
+              {latest?.resolutionNote ? (
+                <p className="text-default-500">Note: {latest.resolutionNote}</p>
+              ) : null}
+            </div>
+          );
+        },
+      },
+      {
+        header: "ACTIONS",
+        cell: ({ row }) => (
+          <div className="flex items-center gap-2">
+            {row.original.ad?.merchantId ? (
+              <Button
+                size="sm"
+                variant="light"
+                onPress={() => navigate(`/merchants/${row.original.ad?.merchantId}`)}
+              >
+                Seller
+              </Button>
+            ) : null}
+            {status === "OPEN" ? (
+              <>
+                <Button
+                  size="sm"
+                  color="danger"
+                  variant="flat"
+                  onPress={() => openDecision("resolve", row.original)}
+                >
+                  Resolve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="flat"
+                  onPress={() => openDecision("dismiss", row.original)}
+                >
+                  Dismiss
+                </Button>
+              </>
+            ) : null}
+          </div>
+        ),
+      },
+    ],
+    [navigate, status],
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold">Reports</h1>
+          <p className="text-sm text-default-500">
+            Abuse reports from buyers, grouped by reported ad or review.
+          </p>
+        </div>
+        <Tabs
+          selectedKey={status}
+          onSelectionChange={(key) => {
+            setStatus(String(key) as AdReportStatus);
+            setPage(1);
+          }}
+          size="sm"
+        >
+          {statusItems.map((item) => (
+            <Tab key={item.key} title={item.label} />
+          ))}
+        </Tabs>
+      </div>
+
+      <DataTable columns={columns} data={items} isLoading={reportsQuery.isLoading} />
+
+      <DataTablePagination
+        pagination={{
+          count: meta?.total ?? 0,
+          page: meta?.page ?? page,
+          pageSize: meta?.limit ?? pageSize,
+          totalPages,
+        }}
+        onPageChange={(nextPage) => setPage(Math.max(1, nextPage))}
+        onPageSizeChange={(nextSize) => {
+          setPageSize(nextSize);
+          setPage(1);
+        }}
+      />
+
+      <Modal isOpen={Boolean(decision)} onClose={() => setDecision(null)} size="md">
+        <ModalContent>
+          <ModalHeader className="flex flex-col gap-1">
+            {decision?.kind === "resolve" ? "Resolve Reports" : "Dismiss Reports"}
+          </ModalHeader>
+          <ModalBody className="space-y-3">
+            <p className="text-sm text-default-600">
+              {decision?.kind === "resolve"
+                ? "Choose what to do with the reported item. All open reports for it will be closed."
+                : "Close all open reports for this item without taking action?"}
+            </p>
+            {decision?.kind === "resolve" ? (
+              <div className="flex flex-col gap-2">
+                {availableActions(decision.item).map((action) => (
+                  <Checkbox
+                    key={action}
+                    isSelected={selectedActions.includes(action)}
+                    onValueChange={(checked) =>
+                      setSelectedActions((current) =>
+                        checked
+                          ? [...current, action]
+                          : current.filter((entry) => entry !== action),
+                      )
+                    }
+                  >
+                    {actionLabels[action]}
+                  </Checkbox>
+                ))}
+              </div>
+            ) : null}
+            <Textarea
+              label="Note"
+              placeholder="Optional note for the moderation log"
+              value={note}
+              onValueChange={setNote}
+              maxLength={500}
+            />
+          </ModalBody>
+          <ModalFooter>
+            <Button
+              variant="light"
+              onPress={() => setDecision(null)}
+              isDisabled={decisionMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              color={decision?.kind === "resolve" ? "danger" : "default"}
+              isLoading={decisionMutation.isPending}
+              onPress={() => {
+                if (!decision) return;
+                decisionMutation.mutate({
+                  kind: decision.kind,
+                  item: decision.item,
+                  actions: selectedActions,
+                  note,
+                });
+              }}
+            >
+              Confirm
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import { useMemo, useState } from 'react';
+import axios from 'axios';
+import { type ColumnDef } from '@tanstack/react-table';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Avatar,
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Dropdown,
+  DropdownItem,
+  DropdownMenu,
+  DropdownTrigger,
+  Input,
+  Select,
+  SelectItem,
+  addToast,
+} from '@heroui/react';
+import { MagnifyingGlass, UserPlus } from '@phosphor-icons/react';
+import { api } from '../../lib/api';
+import { DataTable } from '../../components/table/DataTable';
+import { DataTablePagination } from '../../components/table/DataTablePagination';
+import { getImageUrl, type PaginatedResponse, type StaffMember } from '../../types';
+import {
+  STAFF_ROLES,
+  roleDescriptions,
+  roleLabels,
+  useMe,
+  type UserRole,
+} from '../../lib/permissions';
+
+const roleColors: Record<UserRole, 'primary' | 'secondary' | 'warning' | 'default'> = {
+  admin: 'primary',
+  moderator: 'warning',
+  marketer: 'secondary',
+  merchant: 'default',
+};
+
+function getErrorMessage(error: unknown, fallback: string) {
+  const raw = axios.isAxiosError(error)
+    ? (error.response?.data as { message?: unknown } | undefined)?.message
+    : undefined;
+  if (typeof raw === 'string' && raw.trim()) return raw;
+  return fallback;
+}
+
+function MemberCell({ member }: { member: StaffMember }) {
+  const displayName = member.firstName?.trim() || 'Unnamed user';
+  const username = member.loginUsername || member.username || '-';
+
+  return (
+    <div className="flex items-center gap-3">
+      <Avatar src={getImageUrl(member.avatarUrl ?? null)} name={displayName} className="h-9 w-9" />
+      <div className="min-w-0">
+        <p className="truncate text-sm font-semibold">{displayName}</p>
+        <p className="truncate text-xs text-default-500">@{username}</p>
+      </div>
+    </div>
+  );
+}
+
+export default function StaffPage() {
+  const queryClient = useQueryClient();
+  const { data: me } = useMe();
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+
+  const staffQuery = useQuery<StaffMember[]>({
+    queryKey: ['staff'],
+    queryFn: async () => (await api.get('/staff')).data,
+  });
+
+  const candidatesQuery = useQuery<PaginatedResponse<StaffMember>>({
+    queryKey: ['staff', 'candidates', page, pageSize, search],
+    queryFn: async () =>
+      (
+        await api.get('/staff/candidates', {
+          params: {
+            page,
+            limit: pageSize,
+            q: search.trim() || undefined,
+          },
+        })
+      ).data,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: UserRole }) =>
+      (await api.patch<StaffMember>(`/staff/${userId}/role`, { role })).data,
+    onSuccess: (member) => {
+      queryClient.invalidateQueries({ queryKey: ['staff'] });
+      addToast({
+        title: 'Role updated',
+        description:
+          member.role === 'merchant'
+            ? 'Dashboard access removed.'
+            : `Now ${roleLabels[member.role].toLowerCase()}.`,
+        color: 'success',
+      });
+    },
+    onError: (error) => {
+      addToast({
+        title: 'Could not update role',
+        description: getErrorMessage(error, 'Please try again.'),
+        color: 'danger',
+      });
+    },
+  });
+
+  const staff = staffQuery.data ?? [];
+  const candidates = candidatesQuery.data?.data ?? [];
+  const meta = candidatesQuery.data?.meta;
+  const totalPages = Math.max(1, meta?.totalPages ?? 1);
+
+  const staffColumns = useMemo<ColumnDef<StaffMember>[]>(
+    () => [
+      {
+        header: 'MEMBER',
+        cell: ({ row }) => <MemberCell member={row.original} />,
+      },
+      {
+        header: 'SECURITY',
+        cell: ({ row }) => (
+          <div className="flex flex-wrap gap-1">
+            <Chip
+              size="sm"
+              variant="flat"
+              color={row.original.twoFactorEnabled ? 'success' : 'warning'}
+            >
+              {row.original.twoFactorEnabled ? 'Authenticator on' : 'No authenticator'}
+            </Chip>
+            {row.original.hasTelegram ? (
+              <Chip size="sm" variant="flat">
+                Telegram linked
+              </Chip>
+            ) : null}
+            {row.original.isBanned ? (
+              <Chip size="sm" variant="flat" color="danger">
+                Banned
+              </Chip>
+            ) : null}
+          </div>
+        ),
+      },
+      {
+        header: 'ROLE',
+        cell: ({ row }) => {
+          const isSelf = row.original.id === me?.userId;
+          return (
+            <div className="flex items-center gap-2">
+              <Select
+                aria-label={`Role for ${row.original.firstName ?? row.original.id}`}
+                size="sm"
+                className="w-40"
+                selectedKeys={new Set([row.original.role])}
+                isDisabled={isSelf || roleMutation.isPending}
+                onSelectionChange={(keys) => {
+                  const role = Array.from(keys)[0] as UserRole | undefined;
+                  if (!role || role === row.original.role) return;
+                  roleMutation.mutate({ userId: row.original.id, role });
+                }}
+              >
+                {STAFF_ROLES.map((role) => (
+                  <SelectItem key={role}>{roleLabels[role]}</SelectItem>
+                ))}
+              </Select>
+              {isSelf ? (
+                <Chip size="sm" variant="flat" color={roleColors[row.original.role]}>
+                  You
+                </Chip>
+              ) : null}
+            </div>
+          );
+        },
+      },
+      {
+        header: 'ACTIONS',
+        cell: ({ row }) =>
+          row.original.id === me?.userId ? null : (
+            <Button
+              size="sm"
+              color="danger"
+              variant="light"
+              isDisabled={roleMutation.isPending}
+              onPress={() => roleMutation.mutate({ userId: row.original.id, role: 'merchant' })}
+            >
+              Remove access
+            </Button>
+          ),
+      },
+    ],
+    [me?.userId, roleMutation],
+  );
+
+  const candidateColumns = useMemo<ColumnDef<StaffMember>[]>(
+    () => [
+      {
+        header: 'USER',
+        cell: ({ row }) => <MemberCell member={row.original} />,
+      },
+      {
+        header: 'STATUS',
+        cell: ({ row }) => (
+          <div className="flex flex-wrap gap-1">
+            <Chip size="sm" variant="flat" color={roleColors[row.original.role]}>
+              {roleLabels[row.original.role]}
+            </Chip>
+            {!row.original.hasTelegram ? (
+              <Chip size="sm" variant="flat" color="warning">
+                No Telegram
+              </Chip>
+            ) : null}
+          </div>
+        ),
+      },
+      {
+        header: 'ACTIONS',
+        cell: ({ row }) => (
+          <Dropdown>
+            <DropdownTrigger>
+              <Button
+                size="sm"
+                variant="flat"
+                color="primary"
+                isDisabled={roleMutation.isPending}
+                startContent={<UserPlus className="h-4 w-4" />}
+              >
+                Grant access
+              </Button>
+            </DropdownTrigger>
+            <DropdownMenu
+              aria-label="Staff role"
+              onAction={(key) =>
+                roleMutation.mutate({ userId: row.original.id, role: String(key) as UserRole })
+              }
+            >
+              {STAFF_ROLES.map((role) => (
+                <DropdownItem key={role} description={roleDescriptions[role]}>
+                  {roleLabels[role]}
+                </DropdownItem>
+              ))}
+            </DropdownMenu>
+          </Dropdown>
+        ),
+      },
+    ],
+    [roleMutation],
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-xl font-semibold">Staff</h1>
+        <p className="text-sm text-default-500">
+          Moderators handle ads, reviews and reports. Marketers run announcements and analytics.
+          Admins can do everything, including managing staff.
+        </p>
+      </div>
+
+      <Card>
+        <CardBody className="space-y-4 p-5">
+          <h3 className="text-lg font-semibold">Team</h3>
+          <DataTable columns={staffColumns} data={staff} isLoading={staffQuery.isLoading} />
+        </CardBody>
+      </Card>
+
+      <Card>
+        <CardBody className="space-y-4 p-5">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <h3 className="text-lg font-semibold">Add staff</h3>
+              <p className="text-sm text-default-500">
+                New staff sign in to this dashboard with their Telegram account.
+              </p>
+            </div>
+            <Input
+              value={search}
+              onValueChange={(value) => {
+                setSearch(value);
+                setPage(1);
+              }}
+              startContent={<MagnifyingGlass className="h-4 w-4 text-default-400" />}
+              placeholder="Search users"
+              className="w-full sm:max-w-sm"
+            />
+          </div>
+
+          <DataTable
+            columns={candidateColumns}
+            data={candidates}
+            isLoading={candidatesQuery.isLoading}
+          />
+
+          <DataTablePagination
+            pagination={{
+              count: meta?.total ?? 0,
+              page: meta?.page ?? page,
+              pageSize: meta?.limit ?? pageSize,
+              totalPages,
+            }}
+            onPageChange={(nextPage) => setPage(Math.max(1, nextPage))}
+            onPageSizeChange={(nextSize) => {
+              setPageSize(nextSize);
+              setPage(1);
+            }}
+          />
+        </CardBody>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { API_URL } from "./lib/api";
+import type { Permission, UserRole } from "./lib/permissions";
 
 export interface CategoryDynamicField {
   key: string;
@@ -14,9 +15,19 @@ export interface Category {
   slug: string;
   thumbnailUrl?: string | null;
   dynamicFields?: CategoryDynamicField[] | null;
+  defaultAdLifetimeDays?: number | null;
+  parentId?: number | null;
+  sortOrder?: number;
+  depth?: number;
+  // Own fields merged with those inherited from parent categories.
+  effectiveDynamicFields?: CategoryDynamicField[];
   productCount?: number;
 }
 
+export interface CategoryTreeNode extends Category {
+  children: CategoryTreeNode[];
+}
+
 export type AdStatus = "PENDING" | "APPROVED" | "REJECTED";
 
 export interface Ad {
@@ -32,6 +43,8 @@ export interface Ad {
   itemDetails?: Record<string, unknown> | null;
   moderationNote?: string | null;
   approvedAt?: string | null;
+  isFeatured?: boolean;
+  featuredUntil?: string | null;
   imageUrl?: string;
   imageUrls?: string[] | null;
   merchantId?: number | null;
@@ -54,8 +67,11 @@ export interface AdReview {
   depth: number;
   rating: number | null;
   comment: string | null;
+  imageUrls?: string[];
   isEdited: boolean;
   editedAt?: string | null;
+  isHeld?: boolean;
+  moderationNote?: string | null;
   createdAt: string;
   updatedAt: string;
   user: {
@@ -72,6 +88,68 @@ export interface AdReviewMeta {
   averageRating: number;
 }
 
+export type AdReportTargetType = "AD" | "COMMENT";
+export type AdReportStatus = "OPEN" | "RESOLVED" | "DISMISSED";
+export type AdReportReason =
+  | "SCAM"
+  | "SPAM"
+  | "OFFENSIVE"
+  | "PROHIBITED_ITEM"
+  | "MISLEADING"
+  | "OTHER";
+export type AdReportResolutionAction = "REMOVE_COMMENT" | "REJECT_AD" | "BAN_USER";
+
+export interface AdReportQueueItem {
+  targetKey: string;
+  targetType: AdReportTargetType;
+  adId: number;
+  commentId: number | null;
+  reportCount: number;
+  firstReportedAt: string;
+  lastReportedAt: string;
+  reasons: Partial<Record<AdReportReason, number>>;
+  ad: {
+    id: number;
+    name: string;
+    status: AdStatus;
+    isActive: boolean;
+    merchantId: number | null;
+    merchant: {
+      id: number;
+      firstName?: string | null;
+      username?: string | null;
+      isBanned: boolean;
+    } | null;
+  } | null;
+  comment: {
+    id: number;
+    comment: string | null;
+    rating: number | null;
+    userId: number;
+    user: {
+      id: number;
+      firstName?: string | null;
+      username?: string | null;
+      isBanned: boolean;
+    } | null;
+  } | null;
+  reports: Array<{
+    id: number;
+    reason: AdReportReason;
+    details: string | null;
+    createdAt: string;
+    resolutionActions: AdReportResolutionAction[] | null;
+    resolutionNote: string | null;
+    resolvedAt: string | null;
+    reporter: {
+      id: number;
+      firstName?: string | null;
+      username?: string | null;
+      loginUsername?: string | null;
+    } | null;
+  }>;
+}
+
 export interface PaginationMeta {
   page: number;
   limit: number;
@@ -103,6 +181,7 @@ export interface MerchantSummary {
   avatarUrl?: string | null;
   isBanned: boolean;
   isReviewBlocked: boolean;
+  verifiedAt?: string | null;
   loyaltyPoints: number;
   createdAt: string;
   updatedAt: string;
@@ -110,6 +189,49 @@ export interface MerchantSummary {
   stats: MerchantStats;
 }
 
+export type MerchantVerificationStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export type VerificationDocumentKind = 'businessLicense' | 'idDocument';
+
+export interface MerchantVerificationRequest {
+  id: number;
+  status: MerchantVerificationStatus;
+  reviewNote?: string | null;
+  reviewedAt?: string | null;
+  createdAt: string;
+  documents: VerificationDocumentKind[];
+  merchant: {
+    id: number;
+    firstName?: string | null;
+    username?: string | null;
+    loginUsername?: string | null;
+    avatarUrl?: string | null;
+    isBanned: boolean;
+    verifiedAt?: string | null;
+    createdAt: string;
+  } | null;
+  reviewedBy?: {
+    id: number;
+    firstName?: string | null;
+    loginUsername?: string | null;
+    username?: string | null;
+  } | null;
+}
+
+export interface StaffMember {
+  id: number;
+  firstName?: string | null;
+  username?: string | null;
+  loginUsername?: string | null;
+  avatarUrl?: string | null;
+  role: UserRole;
+  permissions: Permission[];
+  hasTelegram: boolean;
+  twoFactorEnabled: boolean;
+  isBanned: boolean;
+  createdAt: string;
+}
+
 export interface MerchantActivity {
   id: number;
   activityType: string;
@@ -137,6 +259,13 @@ export interface MerchantDetailResponse {
     createdAt: string;
     updatedAt: string;
   }>;
+  latestVerification: {
+    id: number;
+    status: MerchantVerificationStatus;
+    reviewNote?: string | null;
+    reviewedAt?: string | null;
+    createdAt: string;
+  } | null;
   loyaltyConfig: {
     pointsPerAdPost: number;
     pointsPerAdView: number;
@@ -0,0 +1,11 @@
+/** TELEGRAM_ADMIN_ID may list several bootstrap admins, comma-separated. */
+export function parseAdminTelegramIds(raw: string | null | undefined) {
+  return [
+    ...new Set(
+      String(raw ?? '')
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean),
+    ),
+  ];
+}
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../../modules/users/permissions';
+
+export const PERMISSIONS_KEY = 'permissions';
+/** Grants access when the caller's role holds any of the listed permissions. */
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
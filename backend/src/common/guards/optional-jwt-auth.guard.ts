@@ -0,0 +1,13 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * Resolves `req.user` when a valid session is present but lets anonymous
+ * requests through instead of rejecting them.
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest<TUser>(_error: unknown, user: TUser | false): TUser | null {
+    return user || null;
+  }
+}
@@ -1,7 +1,9 @@
 import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { ROLES_KEY } from '../decorators/roles.decorator';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
 import { UserRole } from '../../modules/users/entities/user.entity';
+import { Permission, hasPermission } from '../../modules/users/permissions';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
@@ -12,15 +14,27 @@ export class RolesGuard implements CanActivate {
       .switchToHttp()
       .getRequest<{ user?: { role?: UserRole } }>();
     const user = req.user;
-    const roles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
-      context.getHandler(),
-      context.getClass(),
-    ]) ?? [UserRole.ADMIN];
+    const targets = [context.getHandler(), context.getClass()];
 
     if (!user?.role) {
       return false;
     }
 
+    const permissions = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      targets,
+    );
+    if (permissions) {
+      return permissions.some((permission) =>
+        hasPermission(user.role, permission),
+      );
+    }
+
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(
+      ROLES_KEY,
+      targets,
+    ) ?? [UserRole.ADMIN];
+
     return roles.includes(user.role);
   }
 }
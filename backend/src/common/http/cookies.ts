@@ -3,6 +3,10 @@ export type CookieSameSite = 'lax' | 'strict' | 'none';
 const AUTH_COOKIE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 const VISITOR_COOKIE_TTL_MS = 365 * 24 * 60 * 60 * 1000;
 
+export const REFRESH_COOKIE_NAME = 'refresh_token';
+// Only the auth routes need the refresh token, so keep it off other requests.
+const REFRESH_COOKIE_PATH = '/v1/auth';
+
 export function resolveCookieSameSite(
   value = process.env.COOKIE_SAMESITE,
 ): CookieSameSite {
@@ -29,13 +33,20 @@ export function resolveCookieSecure(
   return nodeEnv === 'production';
 }
 
-export function getAuthCookieOptions() {
+export function getAuthCookieOptions(maxAge = AUTH_COOKIE_TTL_MS) {
   return {
     httpOnly: true,
     secure: resolveCookieSecure(),
     sameSite: resolveCookieSameSite(),
     path: '/',
-    maxAge: AUTH_COOKIE_TTL_MS,
+    maxAge,
+  } as const;
+}
+
+export function getRefreshCookieOptions(maxAge = AUTH_COOKIE_TTL_MS) {
+  return {
+    ...getAuthCookieOptions(maxAge),
+    path: REFRESH_COOKIE_PATH,
   } as const;
 }
 
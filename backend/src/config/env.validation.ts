@@ -18,6 +18,9 @@ export const envSchema = z.object({
   // Security
   JWT_SECRET: z.string().min(10),
   PASSWORD_PEPPER: z.string().optional(),
+  JWT_ACCESS_TTL_MINUTES: z.coerce.number().int().positive().optional(),
+  REFRESH_TOKEN_TTL_DAYS: z.coerce.number().int().positive().optional(),
+  TOTP_ENCRYPTION_KEY: z.string().min(16).optional(),
 
   // Telegram
   TELEGRAM_BOT_TOKEN: z.string(),
@@ -38,9 +41,23 @@ export const envSchema = z.object({
     .int()
     .positive()
     .optional(),
+  BROADCAST_QUIET_HOURS: z
+    .string()
+    .regex(/^\d{1,2}:\d{2}-\d{1,2}:\d{2}$/)
+    .optional(),
+  BROADCAST_TIME_ZONE: z.string().optional(),
+
+  // Ad lifecycle
+  AD_DEFAULT_LIFETIME_DAYS: z.coerce.number().int().positive().optional(),
+  AD_EXPIRY_REMINDER_DAYS: z.coerce.number().int().positive().optional(),
+  FEATURED_POINTS_PER_DAY: z.coerce.number().int().positive().optional(),
+  FEATURED_SLOTS_PER_CATEGORY: z.coerce.number().int().positive().optional(),
+  AD_REPORT_ALERT_THRESHOLD: z.coerce.number().int().positive().optional(),
 
   // Public links
   DASHBOARD_URL: z.string().url().optional(),
+  STOREFRONT_URL: z.string().url().optional(),
+  API_PUBLIC_URL: z.string().url().optional(),
   VISITOR_IP_SALT: z.string().optional(),
 });
 
@@ -11,8 +11,9 @@ import {
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import { AuthGuard } from '@nestjs/passport';
 import { RolesGuard } from '../../common/guards/roles.guard';
-import { Roles } from '../../common/decorators/roles.decorator';
-import { UserRole } from '../users/entities/user.entity';
+import { OptionalJwtAuthGuard } from '../../common/guards/optional-jwt-auth.guard';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../users/permissions';
 import { AnalyticsService, VISITOR_COOKIE_NAME } from './analytics.service';
 import { TrackVisitDto } from './dto/track-visit.dto';
 import { getVisitorCookieOptions } from '../../common/http/cookies';
@@ -24,13 +25,18 @@ import { MerchantEngagementQueryDto } from './dto/merchant-engagement-query.dto'
 export class AnalyticsController {
   constructor(private readonly analyticsService: AnalyticsService) {}
 
+  @UseGuards(OptionalJwtAuthGuard)
   @Post('visits')
   async trackVisit(
-    @Req() req: FastifyRequest,
+    @Req() req: FastifyRequest & { user?: { userId: number } | null },
     @Res({ passthrough: true }) res: FastifyReply,
     @Body() dto: TrackVisitDto,
   ) {
-    const tracked = await this.analyticsService.trackVisit(req, dto);
+    const tracked = await this.analyticsService.trackVisit(
+      req,
+      dto,
+      req.user?.userId ?? null,
+    );
     if (tracked.shouldSetCookie) {
       res.setCookie(
         VISITOR_COOKIE_NAME,
@@ -42,7 +48,7 @@ export class AnalyticsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.ANALYTICS_VIEW)
   @Get('visitors/summary')
   async visitorSummary(@Query() query: VisitorSummaryQueryDto) {
     return this.analyticsService.getVisitorSummary({
@@ -53,7 +59,7 @@ export class AnalyticsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.ANALYTICS_VIEW)
   @Get('visitors/events')
   async visitorEvents(@Query() query: VisitorEventsQueryDto) {
     return this.analyticsService.getVisitorEvents({
@@ -70,7 +76,7 @@ export class AnalyticsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.ANALYTICS_VIEW)
   @Get('merchants/engagement/overview')
   async merchantEngagementOverview(@Query() query: MerchantEngagementQueryDto) {
     return this.analyticsService.getMerchantEngagementOverview({
@@ -83,7 +89,7 @@ export class AnalyticsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.ANALYTICS_VIEW)
   @Get('merchants/engagement/timeline')
   async merchantEngagementTimeline(@Query() query: MerchantEngagementQueryDto) {
     return this.analyticsService.getMerchantEngagementTimeline({
@@ -96,7 +102,7 @@ export class AnalyticsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.ANALYTICS_VIEW)
   @Get('merchants/engagement/top-products')
   async merchantEngagementTopProducts(@Query() query: MerchantEngagementQueryDto) {
     return this.analyticsService.getMerchantEngagementTopProducts({
@@ -109,7 +115,7 @@ export class AnalyticsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.ANALYTICS_VIEW)
   @Get('merchants/engagement/segments')
   async merchantEngagementSegments(@Query() query: MerchantEngagementQueryDto) {
     return this.analyticsService.getMerchantEngagementSegments({
@@ -122,7 +128,7 @@ export class AnalyticsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.ANALYTICS_VIEW)
   @Get('merchants/engagement/data-quality')
   async merchantEngagementDataQuality(@Query() query: MerchantEngagementQueryDto) {
     return this.analyticsService.getMerchantEngagementDataQuality({
@@ -135,7 +141,7 @@ export class AnalyticsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.ANALYTICS_VIEW)
   @Get('merchants/engagement')
   async merchantEngagement(@Query() query: MerchantEngagementQueryDto) {
     return this.analyticsService.getMerchantEngagementDashboard({
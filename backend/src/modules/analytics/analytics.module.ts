@@ -10,5 +10,6 @@ import { MerchantsModule } from '../merchants/merchants.module';
   imports: [TypeOrmModule.forFeature([VisitorEvent, Ad]), MerchantsModule],
   controllers: [AnalyticsController],
   providers: [AnalyticsService],
+  exports: [AnalyticsService],
 })
 export class AnalyticsModule {}
@@ -25,7 +25,7 @@ type VisitorSummaryOptions = {
 };
 
 type VisitorEventsOptions = VisitorSummaryOptions & {
-  eventType?: 'page_view' | 'ad_preview' | 'ad_click';
+  eventType?: 'page_view' | 'ad_preview' | 'ad_click' | 'announcement_click';
   q?: string;
   page?: string;
   limit?: string;
@@ -46,6 +46,13 @@ type MerchantEngagementScope = {
   adId: number | null;
 };
 
+type ServerEventParams = {
+  eventType: string;
+  path: string;
+  metadata?: Record<string, string | number | boolean | null>;
+  userId?: number | null;
+};
+
 type EventScopeFilters = {
   from?: Date;
   to?: Date;
@@ -66,7 +73,11 @@ export class AnalyticsService {
     private readonly merchantsService: MerchantsService,
   ) {}
 
-  async trackVisit(req: FastifyRequest, dto: TrackVisitDto) {
+  async trackVisit(
+    req: FastifyRequest,
+    dto: TrackVisitDto,
+    userId: number | null = null,
+  ) {
     const qualityFlags = new Set<string>();
     const cookieVisitorId = this.getVisitorIdFromCookie(req);
     const bodyVisitorId = this.normalizeVisitorId(dto.visitorId);
@@ -164,6 +175,7 @@ export class AnalyticsService {
       city,
       adId: adViewTarget?.adId ?? null,
       merchantId: adViewTarget?.merchantId ?? null,
+      userId,
       metadata,
       isBot,
     });
@@ -195,6 +207,53 @@ export class AnalyticsService {
     };
   }
 
+  /**
+   * Records an event the server observes itself, such as a tracked link
+   * redirect, using the same visitor identity and bot detection as trackVisit.
+   */
+  async trackServerEvent(req: FastifyRequest, params: ServerEventParams) {
+    const cookieVisitorId = this.getVisitorIdFromCookie(req);
+    const visitorId = cookieVisitorId ?? randomUUID().replace(/-/g, '');
+    const userAgent = this.normalizeText(this.getUserAgent(req), 512);
+    const referrer = this.normalizeUrl(
+      this.getHeader(req, 'referer') ?? undefined,
+      1024,
+    );
+    const isBot = this.isBotTraffic(userAgent);
+
+    const saved = await this.visitorEventRepo.save(
+      this.visitorEventRepo.create({
+        visitorId,
+        eventType: params.eventType,
+        path: this.normalizePath(params.path),
+        referrer,
+        referrerHost: this.extractHost(referrer),
+        timezone: null,
+        language: null,
+        ipHash: this.hashIp(this.extractClientIp(req)),
+        userAgent,
+        countryCode: this.extractCountryCode(req),
+        region: this.extractRegion(req),
+        city: this.extractCity(req),
+        adId: null,
+        merchantId: null,
+        userId: params.userId ?? null,
+        metadata: this.normalizeMetadata(params.metadata, {
+          allowReservedKeys: false,
+          maxEntries: 18,
+        }),
+        isBot,
+      }),
+    );
+
+    return {
+      visitorId,
+      eventId: saved.id,
+      isBot,
+      shouldSetCookie: cookieVisitorId === null,
+    };
+  }
+
   async getVisitorSummary(options: VisitorSummaryOptions) {
     const { from, to } = this.resolveRange(options.from, options.to);
     const includeBots = options.includeBots ?? false;
@@ -30,8 +30,8 @@ export class VisitorEventsQueryDto {
   includeBots?: boolean;
 
   @IsOptional()
-  @IsIn(['page_view', 'ad_preview', 'ad_click'])
-  eventType?: 'page_view' | 'ad_preview' | 'ad_click';
+  @IsIn(['page_view', 'ad_preview', 'ad_click', 'announcement_click'])
+  eventType?: 'page_view' | 'ad_preview' | 'ad_click' | 'announcement_click';
 
   @IsOptional()
   @IsString()
@@ -2,6 +2,7 @@ import { Column, Entity, Index } from 'typeorm';
 import { AbstractEntity } from '../../../common/entities/abstract.entity';
 
 @Entity('visitor_events')
+@Index('idx_visitor_events_userId_createdAt', ['userId', 'createdAt'])
 export class VisitorEvent extends AbstractEntity {
   @Index('idx_visitor_events_visitorId')
   @Column({ type: 'varchar', length: 128 })
@@ -18,6 +19,10 @@ export class VisitorEvent extends AbstractEntity {
   @Column({ type: 'int', nullable: true })
   merchantId: number | null;
 
+  // Signed-in visitor, when the tracking request carried a session.
+  @Column({ type: 'int', nullable: true })
+  userId: number | null;
+
   @Index('idx_visitor_events_path')
   @Column({ type: 'varchar', length: 512 })
   path: string;
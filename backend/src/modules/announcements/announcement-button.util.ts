@@ -0,0 +1,148 @@
+import { AnnouncementKind } from './announcement.enums';
+
+export enum AnnouncementButtonType {
+  URL = 'url',
+  AD = 'ad',
+  CATEGORY = 'category',
+  UNSUBSCRIBE = 'unsubscribe',
+}
+
+export type AnnouncementButton = {
+  type: AnnouncementButtonType;
+  text: string;
+  url?: string;
+  adId?: number;
+  categoryId?: number;
+  // Places the button next to the previous one instead of on a new row.
+  sameRow?: boolean;
+};
+
+export type AnnouncementButtonInput = Partial<AnnouncementButton>;
+
+export type ButtonsParseResult =
+  | { buttons: AnnouncementButton[] }
+  | { error: string };
+
+export const MAX_ANNOUNCEMENT_BUTTONS = 6;
+const MAX_BUTTONS_PER_ROW = 3;
+const MAX_BUTTON_TEXT_LENGTH = 64;
+const MAX_BUTTON_URL_LENGTH = 2048;
+
+// Only opt-in kinds can be muted; plain announcements are operational.
+const MUTABLE_KINDS: readonly AnnouncementKind[] = [
+  AnnouncementKind.NEWS,
+  AnnouncementKind.PROMOTION,
+];
+
+function isHttpUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function isPositiveInt(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/** Validates button targets for the announcement kind and keeps row limits. */
+export function normalizeButtons(
+  raw: AnnouncementButtonInput[] | null | undefined,
+  kind: AnnouncementKind,
+): ButtonsParseResult {
+  if (raw === null || raw === undefined) return { buttons: [] };
+  if (!Array.isArray(raw)) return { error: 'buttons must be an array' };
+  if (raw.length > MAX_ANNOUNCEMENT_BUTTONS) {
+    return {
+      error: `An announcement can have at most ${MAX_ANNOUNCEMENT_BUTTONS} buttons`,
+    };
+  }
+
+  const buttons: AnnouncementButton[] = [];
+  let rowLength = 0;
+  for (const [index, entry] of raw.entries()) {
+    const position = index + 1;
+    const text = String(entry?.text ?? '').trim();
+    if (!text) return { error: `Button ${position} needs a label` };
+    if (text.length > MAX_BUTTON_TEXT_LENGTH) {
+      return {
+        error: `Button ${position} label exceeds ${MAX_BUTTON_TEXT_LENGTH} characters`,
+      };
+    }
+
+    const sameRow = index > 0 && entry?.sameRow === true;
+    rowLength = sameRow ? rowLength + 1 : 1;
+    if (rowLength > MAX_BUTTONS_PER_ROW) {
+      return {
+        error: `A button row can hold at most ${MAX_BUTTONS_PER_ROW} buttons`,
+      };
+    }
+
+    const base = { text, ...(sameRow ? { sameRow } : {}) };
+    switch (entry?.type) {
+      case AnnouncementButtonType.URL: {
+        const url = String(entry.url ?? '').trim();
+        if (!isHttpUrl(url) || url.length > MAX_BUTTON_URL_LENGTH) {
+          return { error: `Button ${position} needs a valid http(s) URL` };
+        }
+        buttons.push({ type: entry.type, url, ...base });
+        break;
+      }
+      case AnnouncementButtonType.AD:
+        if (!isPositiveInt(entry.adId)) {
+          return { error: `Button ${position} needs an ad` };
+        }
+        buttons.push({ type: entry.type, adId: entry.adId, ...base });
+        break;
+      case AnnouncementButtonType.CATEGORY:
+        if (!isPositiveInt(entry.categoryId)) {
+          return { error: `Button ${position} needs a category` };
+        }
+        buttons.push({
+          type: entry.type,
+          categoryId: entry.categoryId,
+          ...base,
+        });
+        break;
+      case AnnouncementButtonType.UNSUBSCRIBE:
+        if (!MUTABLE_KINDS.includes(kind)) {
+          return {
+            error:
+              'Unsubscribe buttons are only available for news and promotions',
+          };
+        }
+        if (
+          buttons.some((b) => b.type === AnnouncementButtonType.UNSUBSCRIBE)
+        ) {
+          return { error: 'Only one unsubscribe button is allowed' };
+        }
+        buttons.push({ type: entry.type, ...base });
+        break;
+      default:
+        return { error: `Button ${position} has an unknown type` };
+    }
+  }
+  return { buttons };
+}
+
+/** Groups buttons into keyboard rows following their `sameRow` flags. */
+export function groupButtonRows<T>(
+  buttons: AnnouncementButton[],
+  map: (button: AnnouncementButton) => T,
+): T[][] {
+  const rows: T[][] = [];
+  for (const button of buttons) {
+    if (button.sameRow && rows.length > 0) {
+      rows[rows.length - 1].push(map(button));
+    } else {
+      rows.push([map(button)]);
+    }
+  }
+  return rows;
+}
+
+export function getUnsubscribeCallbackData(kind: AnnouncementKind) {
+  return `annmute:${kind}`;
+}
@@ -0,0 +1,407 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import {
+  AnnouncementCampaign,
+  AnnouncementCampaignStatus,
+} from './entities/announcement-campaign.entity';
+import { AnnouncementSegment } from './entities/announcement-segment.entity';
+import { AnnouncementKind, AnnouncementTarget } from './announcement.enums';
+import { AnnouncementsService } from './announcements.service';
+import { AnnouncementImageService } from './announcement-image.service';
+import {
+  CronRule,
+  getNextCronOccurrence,
+  getNextCronOccurrences,
+  parseCronRule,
+} from './announcement-cron.util';
+import { isValidTimeZone } from './announcement-schedule.util';
+import { getPlaceholderError } from './announcement-template.util';
+
+type CampaignInput = {
+  name?: string;
+  scheduleRule?: string;
+  timeZone?: string;
+  message?: string;
+  kind?: AnnouncementKind;
+  target?: AnnouncementTarget;
+  targetUserIds?: number[];
+  segmentId?: number;
+  respectQuietHours?: boolean;
+};
+
+type CreateCampaignParams = CampaignInput & {
+  name: string;
+  scheduleRule: string;
+  message: string;
+  imageBuffers?: Buffer[];
+  createdByUserId?: number;
+};
+
+const MAX_CAMPAIGN_IMAGES = 3;
+const MIN_CAMPAIGN_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_DUE_CAMPAIGNS_PER_TICK = 10;
+
+@Injectable()
+export class AnnouncementCampaignsService {
+  private readonly logger = new Logger(AnnouncementCampaignsService.name);
+  private tickInFlight = false;
+
+  constructor(
+    private readonly announcementsService: AnnouncementsService,
+    private readonly announcementImageService: AnnouncementImageService,
+    @InjectRepository(AnnouncementCampaign)
+    private readonly campaignRepo: Repository<AnnouncementCampaign>,
+    @InjectRepository(AnnouncementSegment)
+    private readonly segmentRepo: Repository<AnnouncementSegment>,
+  ) {}
+
+  async listCampaigns(page: number, limit: number) {
+    const [data, total] = await this.campaignRepo.findAndCount({
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { data, total };
+  }
+
+  async getCampaign(id: number) {
+    const campaign = await this.campaignRepo.findOne({ where: { id } });
+    if (!campaign) {
+      throw new NotFoundException('Announcement campaign not found');
+    }
+    return campaign;
+  }
+
+  async createCampaign(params: CreateCampaignParams) {
+    const imageBuffers = params.imageBuffers ?? [];
+    if (imageBuffers.length > MAX_CAMPAIGN_IMAGES) {
+      throw new BadRequestException(
+        `You can upload at most ${MAX_CAMPAIGN_IMAGES} campaign images`,
+      );
+    }
+
+    const timeZone = this.resolveTimeZone(params.timeZone);
+    const rule = this.resolveScheduleRule(params.scheduleRule, timeZone);
+    const target = params.target ?? AnnouncementTarget.ALL;
+    const targetUserIds = this.resolveTargetUserIds(
+      target,
+      params.targetUserIds,
+    );
+    const segmentId = await this.resolveSegmentId(target, params.segmentId);
+    const imagePaths =
+      imageBuffers.length > 0
+        ? await this.announcementImageService.optimizeAndSaveMany(imageBuffers)
+        : [];
+
+    const campaign = this.campaignRepo.create({
+      name: this.resolveName(params.name),
+      status: AnnouncementCampaignStatus.ACTIVE,
+      scheduleRule: params.scheduleRule.trim(),
+      timeZone,
+      message: this.resolveMessage(params.message),
+      kind: params.kind ?? AnnouncementKind.ANNOUNCEMENT,
+      target,
+      targetUserIds,
+      segmentId,
+      imagePaths: imagePaths.length > 0 ? imagePaths : null,
+      respectQuietHours: params.respectQuietHours ?? true,
+      nextRunAt: getNextCronOccurrence(rule, new Date(), timeZone),
+      lastRunAt: null,
+      runCount: 0,
+      createdByUserId: params.createdByUserId ?? null,
+    });
+    return this.campaignRepo.save(campaign);
+  }
+
+  async updateCampaign(id: number, params: CampaignInput) {
+    const campaign = await this.getCampaign(id);
+
+    if (params.name !== undefined) {
+      campaign.name = this.resolveName(params.name);
+    }
+    if (params.message !== undefined) {
+      campaign.message = this.resolveMessage(params.message);
+    }
+    if (params.kind !== undefined) {
+      campaign.kind = params.kind;
+    }
+    if (params.respectQuietHours !== undefined) {
+      campaign.respectQuietHours = params.respectQuietHours;
+    }
+    if (
+      params.target !== undefined ||
+      params.targetUserIds !== undefined ||
+      params.segmentId !== undefined
+    ) {
+      campaign.target = params.target ?? campaign.target;
+      campaign.targetUserIds = this.resolveTargetUserIds(
+        campaign.target,
+        params.targetUserIds ?? campaign.targetUserIds ?? undefined,
+      );
+      campaign.segmentId = await this.resolveSegmentId(
+        campaign.target,
+        params.segmentId ?? campaign.segmentId ?? undefined,
+      );
+    }
+    if (params.scheduleRule !== undefined || params.timeZone !== undefined) {
+      campaign.timeZone = this.resolveTimeZone(
+        params.timeZone ?? campaign.timeZone,
+      );
+      campaign.scheduleRule = (
+        params.scheduleRule ?? campaign.scheduleRule
+      ).trim();
+      const rule = this.resolveScheduleRule(
+        campaign.scheduleRule,
+        campaign.timeZone,
+      );
+      if (campaign.status === AnnouncementCampaignStatus.ACTIVE) {
+        campaign.nextRunAt = getNextCronOccurrence(
+          rule,
+          new Date(),
+          campaign.timeZone,
+        );
+      }
+    }
+
+    return this.campaignRepo.save(campaign);
+  }
+
+  async pauseCampaign(id: number) {
+    const campaign = await this.getCampaign(id);
+    campaign.status = AnnouncementCampaignStatus.PAUSED;
+    campaign.nextRunAt = null;
+    return this.campaignRepo.save(campaign);
+  }
+
+  async resumeCampaign(id: number) {
+    const campaign = await this.getCampaign(id);
+    const rule = this.resolveScheduleRule(
+      campaign.scheduleRule,
+      campaign.timeZone,
+    );
+    const nextRunAt = getNextCronOccurrence(
+      rule,
+      new Date(),
+      campaign.timeZone,
+    );
+    if (!nextRunAt) {
+      throw new BadRequestException(
+        'Schedule rule has no upcoming occurrence within the next year',
+      );
+    }
+    // Occurrences missed while paused are skipped, not replayed.
+    campaign.status = AnnouncementCampaignStatus.ACTIVE;
+    campaign.nextRunAt = nextRunAt;
+    return this.campaignRepo.save(campaign);
+  }
+
+  async deleteCampaign(id: number) {
+    await this.getCampaign(id);
+    // Spawned runs keep their history; their campaignId is cleared.
+    await this.campaignRepo.delete({ id });
+    return { id, deleted: true };
+  }
+
+  previewScheduleRule(scheduleRule: string, timeZone?: string, count = 5) {
+    const resolvedTimeZone = this.resolveTimeZone(timeZone);
+    const rule = this.resolveScheduleRule(scheduleRule, resolvedTimeZone);
+    return {
+      timeZone: resolvedTimeZone,
+      occurrences: getNextCronOccurrences(
+        rule,
+        new Date(),
+        resolvedTimeZone,
+        Math.min(Math.max(count, 1), 10),
+      ),
+    };
+  }
+
+  @Cron('30 * * * * *')
+  async spawnDueCampaignsCron() {
+    await this.spawnDueCampaigns();
+  }
+
+  async spawnDueCampaigns() {
+    if (this.tickInFlight) return;
+    this.tickInFlight = true;
+    try {
+      const now = new Date();
+      const dueCampaigns = await this.campaignRepo.find({
+        where: {
+          status: AnnouncementCampaignStatus.ACTIVE,
+          nextRunAt: LessThanOrEqual(now),
+        },
+        order: { nextRunAt: 'ASC' },
+        take: MAX_DUE_CAMPAIGNS_PER_TICK,
+      });
+
+      for (const campaign of dueCampaigns) {
+        await this.spawnCampaignRun(campaign, now);
+      }
+    } catch (error) {
+      this.logger.error('Announcement campaign tick failed', error as Error);
+    } finally {
+      this.tickInFlight = false;
+    }
+  }
+
+  private async spawnCampaignRun(campaign: AnnouncementCampaign, now: Date) {
+    const parsed = parseCronRule(campaign.scheduleRule);
+    const nextRunAt =
+      'rule' in parsed
+        ? getNextCronOccurrence(parsed.rule, now, campaign.timeZone)
+        : null;
+
+    // Advance the schedule first so concurrent workers never spawn twice.
+    const claim = await this.campaignRepo
+      .createQueryBuilder()
+      .update(AnnouncementCampaign)
+      .set({
+        nextRunAt,
+        lastRunAt: now,
+        runCount: () => 'runCount + 1',
+        status: nextRunAt
+          ? AnnouncementCampaignStatus.ACTIVE
+          : AnnouncementCampaignStatus.PAUSED,
+      })
+      .where('id = :id', { id: campaign.id })
+      .andWhere('status = :status', {
+        status: AnnouncementCampaignStatus.ACTIVE,
+      })
+      .andWhere('nextRunAt = :nextRunAt', { nextRunAt: campaign.nextRunAt })
+      .execute();
+    if ((claim.affected ?? 0) === 0) return;
+
+    try {
+      await this.announcementsService.queueAnnouncement({
+        message: campaign.message,
+        kind: campaign.kind,
+        target: campaign.target,
+        targetUserIds: campaign.targetUserIds ?? undefined,
+        segmentId: campaign.segmentId,
+        imagePaths: campaign.imagePaths ?? undefined,
+        respectQuietHours: campaign.respectQuietHours,
+        requestedByUserId: campaign.createdByUserId ?? undefined,
+        campaignId: campaign.id,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to spawn run for announcement campaign #${campaign.id}`,
+        error as Error,
+      );
+    }
+  }
+
+  private resolveName(name?: string) {
+    const trimmed = String(name ?? '').trim();
+    if (!trimmed) {
+      throw new BadRequestException('Campaign name is required');
+    }
+    return trimmed;
+  }
+
+  private resolveMessage(message?: string) {
+    const trimmed = String(message ?? '').trim();
+    if (!trimmed) {
+      throw new BadRequestException('Announcement message is required');
+    }
+    if (trimmed.length > 4000) {
+      throw new BadRequestException(
+        'Announcement message exceeds 4000 characters',
+      );
+    }
+    const placeholderError = getPlaceholderError(trimmed);
+    if (placeholderError) {
+      throw new BadRequestException(placeholderError);
+    }
+    return trimmed;
+  }
+
+  private resolveTimeZone(timeZone?: string) {
+    const trimmed = String(timeZone ?? '').trim();
+    if (!trimmed) {
+      return this.announcementsService.getScheduleSettings().timeZone;
+    }
+    if (!isValidTimeZone(trimmed)) {
+      throw new BadRequestException(`Unknown time zone "${trimmed}"`);
+    }
+    return trimmed;
+  }
+
+  private resolveScheduleRule(
+    scheduleRule: string,
+    timeZone: string,
+  ): CronRule {
+    const parsed = parseCronRule(scheduleRule);
+    if ('error' in parsed) {
+      throw new BadRequestException(parsed.error);
+    }
+
+    const occurrences = getNextCronOccurrences(
+      parsed.rule,
+      new Date(),
+      timeZone,
+      6,
+    );
+    if (occurrences.length === 0) {
+      throw new BadRequestException(
+        'Schedule rule has no upcoming occurrence within the next year',
+      );
+    }
+    const tooFrequent = occurrences.some(
+      (occurrence, index) =>
+        index > 0 &&
+        occurrence.getTime() - occurrences[index - 1].getTime() <
+          MIN_CAMPAIGN_INTERVAL_MS,
+    );
+    if (tooFrequent) {
+      throw new BadRequestException('Campaigns can run at most once per hour');
+    }
+    return parsed.rule;
+  }
+
+  private resolveTargetUserIds(
+    target: AnnouncementTarget,
+    userIds?: number[],
+  ): number[] | null {
+    if (target !== AnnouncementTarget.USERS) return null;
+    const unique = [
+      ...new Set(
+        (userIds ?? []).filter(
+          (userId) => Number.isInteger(userId) && userId > 0,
+        ),
+      ),
+    ];
+    if (unique.length === 0) {
+      throw new BadRequestException(
+        'At least one user is required for user-targeted announcements',
+      );
+    }
+    return unique;
+  }
+
+  private async resolveSegmentId(
+    target: AnnouncementTarget,
+    segmentId?: number,
+  ): Promise<number | null> {
+    if (target !== AnnouncementTarget.SEGMENT) return null;
+    // Campaigns only accept saved segments so edits apply to future runs.
+    if (!segmentId) {
+      throw new BadRequestException(
+        'A saved segment is required for segment-targeted campaigns',
+      );
+    }
+    const exists = await this.segmentRepo.exists({ where: { id: segmentId } });
+    if (!exists) {
+      throw new NotFoundException('Announcement segment not found');
+    }
+    return segmentId;
+  }
+}
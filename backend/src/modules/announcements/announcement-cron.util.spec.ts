@@ -0,0 +1,169 @@
+import {
+  CronRule,
+  getNextCronOccurrence,
+  getNextCronOccurrences,
+  parseCronRule,
+} from './announcement-cron.util';
+import { getZonedDateParts } from './announcement-schedule.util';
+
+function parse(expression: string): CronRule {
+  const result = parseCronRule(expression);
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result.rule;
+}
+
+function isoOccurrences(
+  expression: string,
+  after: string,
+  timeZone: string,
+  count: number,
+) {
+  return getNextCronOccurrences(
+    parse(expression),
+    new Date(after),
+    timeZone,
+    count,
+  ).map((date) => date.toISOString());
+}
+
+describe('parseCronRule', () => {
+  it('expands the shortcut aliases', () => {
+    expect(parse('@hourly')).toEqual(parse('0 * * * *'));
+    expect(parse('@daily')).toEqual(parse('0 0 * * *'));
+    expect(parse('@weekly')).toEqual(parse('0 0 * * 0'));
+    expect(parse('  @Monthly ')).toEqual(parse('0 0 1 * *'));
+  });
+
+  it('expands lists, ranges and steps', () => {
+    const rule = parse('*/15 9-17/4 1,15 * *');
+    expect(rule.minutes).toEqual([0, 15, 30, 45]);
+    expect(rule.hours).toEqual([9, 13, 17]);
+    expect([...rule.daysOfMonth]).toEqual([1, 15]);
+    expect(rule.restrictsDayOfMonth).toBe(true);
+    expect(rule.restrictsDayOfWeek).toBe(false);
+  });
+
+  it('runs a step from a single value to the end of the field', () => {
+    expect(parse('5/20 * * * *').minutes).toEqual([5, 25, 45]);
+  });
+
+  it('accepts month and weekday names', () => {
+    const rule = parse('0 8 * jan-mar mon-fri');
+    expect([...rule.months]).toEqual([1, 2, 3]);
+    expect([...rule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect([...parse('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect([...parse('0 0 * * 5-7').daysOfWeek].sort()).toEqual([0, 5, 6]);
+  });
+
+  it('keeps a stepped wildcard as a restriction', () => {
+    expect(parse('0 0 */2 * *').restrictsDayOfMonth).toBe(true);
+  });
+
+  it.each([
+    ['0 * * *'],
+    ['60 * * * *'],
+    ['* 24 * * *'],
+    ['* * 0 * *'],
+    ['*/0 * * * *'],
+    ['5-1 * * * *'],
+    ['* * * foo *'],
+  ])('rejects "%s"', (expression) => {
+    expect(parseCronRule(expression)).toHaveProperty('error');
+  });
+});
+
+describe('getNextCronOccurrence', () => {
+  it('returns the first occurrence strictly after the given time', () => {
+    expect(
+      isoOccurrences('30 9 * * *', '2026-01-05T09:29:00Z', 'UTC', 2),
+    ).toEqual(['2026-01-05T09:30:00.000Z', '2026-01-06T09:30:00.000Z']);
+    expect(
+      isoOccurrences('30 9 * * *', '2026-01-05T09:30:00Z', 'UTC', 1),
+    ).toEqual(['2026-01-06T09:30:00.000Z']);
+  });
+
+  it('resolves wall-clock times in the given time zone', () => {
+    expect(
+      isoOccurrences(
+        '0 9 * * *',
+        '2026-01-05T00:00:00Z',
+        'Africa/Addis_Ababa',
+        1,
+      ),
+    ).toEqual(['2026-01-05T06:00:00.000Z']);
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 1 Feb 2026 is a Sunday: Fridays fall on the 6th and 13th.
+    expect(
+      isoOccurrences('0 12 10 * fri', '2026-02-01T00:00:00Z', 'UTC', 3),
+    ).toEqual([
+      '2026-02-06T12:00:00.000Z',
+      '2026-02-10T12:00:00.000Z',
+      '2026-02-13T12:00:00.000Z',
+    ]);
+  });
+
+  it('matches only the restricted day field when the other is a wildcard', () => {
+    expect(
+      isoOccurrences('0 12 10 * *', '2026-02-01T00:00:00Z', 'UTC', 2),
+    ).toEqual(['2026-02-10T12:00:00.000Z', '2026-03-10T12:00:00.000Z']);
+    expect(
+      isoOccurrences('0 12 * * fri', '2026-02-01T00:00:00Z', 'UTC', 2),
+    ).toEqual(['2026-02-06T12:00:00.000Z', '2026-02-13T12:00:00.000Z']);
+  });
+
+  it('keeps the local time across the spring-forward shift', () => {
+    // New York moves from UTC-5 to UTC-4 on 8 March 2026.
+    expect(
+      isoOccurrences(
+        '0 9 * * *',
+        '2026-03-07T00:00:00Z',
+        'America/New_York',
+        2,
+      ),
+    ).toEqual(['2026-03-07T14:00:00.000Z', '2026-03-08T13:00:00.000Z']);
+  });
+
+  it('still fires once on the day a skipped local time does not exist', () => {
+    const occurrences = getNextCronOccurrences(
+      parse('30 2 * * *'),
+      new Date('2026-03-07T12:00:00Z'),
+      'America/New_York',
+      2,
+    );
+    const firstDay = getZonedDateParts(occurrences[0], 'America/New_York');
+    expect([firstDay.month, firstDay.day]).toEqual([3, 8]);
+    expect(occurrences[1].toISOString()).toBe('2026-03-09T06:30:00.000Z');
+  });
+
+  it('fires a repeated local time only once when clocks fall back', () => {
+    // 01:30 happens twice in New York on 1 November 2026.
+    expect(
+      isoOccurrences(
+        '30 1 * * *',
+        '2026-10-31T12:00:00Z',
+        'America/New_York',
+        2,
+      ),
+    ).toEqual(['2026-11-01T05:30:00.000Z', '2026-11-02T06:30:00.000Z']);
+  });
+
+  it('returns null when nothing matches within a year', () => {
+    expect(
+      getNextCronOccurrence(
+        parse('0 0 30 2 *'),
+        new Date('2026-01-01T00:00:00Z'),
+        'UTC',
+      ),
+    ).toBeNull();
+    expect(
+      isoOccurrences('0 0 31 4 *', '2026-01-01T00:00:00Z', 'UTC', 3),
+    ).toEqual([]);
+  });
+});
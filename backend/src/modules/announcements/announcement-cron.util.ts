@@ -0,0 +1,213 @@
+import {
+  getZonedDateParts,
+  zonedTimeToDate,
+} from './announcement-schedule.util';
+
+export type CronRule = {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+};
+
+export type CronRuleParseResult = { rule: CronRule } | { error: string };
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MAX_LOOKAHEAD_DAYS = 366;
+
+type FieldSpec = {
+  label: string;
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number;
+};
+
+const FIELD_SPECS: FieldSpec[] = [
+  { label: 'minute', min: 0, max: 59 },
+  { label: 'hour', min: 0, max: 23 },
+  { label: 'day of month', min: 1, max: 31 },
+  { label: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 is accepted as an alias for Sunday.
+  { label: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0 },
+];
+
+function parseFieldValue(raw: string, spec: FieldSpec): number | null {
+  const nameIndex = spec.names?.indexOf(raw.toLowerCase()) ?? -1;
+  if (nameIndex >= 0) return nameIndex + (spec.nameOffset ?? 0);
+  if (!/^\d+$/.test(raw)) return null;
+  const value = Number(raw);
+  return value >= spec.min && value <= spec.max ? value : null;
+}
+
+function parseField(
+  raw: string,
+  spec: FieldSpec,
+): { values: Set<number>; wildcard: boolean } | { error: string } {
+  const values = new Set<number>();
+  let wildcard = false;
+
+  for (const segment of raw.split(',')) {
+    const [rangePart, stepPart] = segment.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      return { error: `Invalid ${spec.label} step "${segment}"` };
+    }
+
+    let start: number | null;
+    let end: number | null;
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+      wildcard = wildcard || stepPart === undefined;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseFieldValue(from, spec);
+      end = parseFieldValue(to, spec);
+    } else {
+      start = parseFieldValue(rangePart, spec);
+      end = stepPart === undefined ? start : spec.max;
+    }
+
+    if (start === null || end === null || start > end) {
+      return { error: `Invalid ${spec.label} "${segment}"` };
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard };
+}
+
+/**
+ * Parses a five-field cron rule (`minute hour day-of-month month
+ * day-of-week`) with lists, ranges, steps, month/weekday names and the
+ * `@hourly`, `@daily`, `@weekly` and `@monthly` shortcuts.
+ */
+export function parseCronRule(raw: string): CronRuleParseResult {
+  const normalized = String(raw ?? '')
+    .trim()
+    .replace(/\s+/g, ' ');
+  const expression = CRON_ALIASES[normalized.toLowerCase()] ?? normalized;
+  const fields = expression.split(' ');
+  if (fields.length !== FIELD_SPECS.length) {
+    return {
+      error:
+        'Schedule rule must have five fields: minute hour day-of-month month day-of-week',
+    };
+  }
+
+  const parsed: Array<{ values: Set<number>; wildcard: boolean }> = [];
+  for (const [index, field] of fields.entries()) {
+    const result = parseField(field, FIELD_SPECS[index]);
+    if ('error' in result) return result;
+    parsed.push(result);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed;
+  if (daysOfWeek.values.delete(7)) {
+    daysOfWeek.values.add(0);
+  }
+
+  return {
+    rule: {
+      minutes: [...minutes.values].sort((a, b) => a - b),
+      hours: [...hours.values].sort((a, b) => a - b),
+      daysOfMonth: daysOfMonth.values,
+      months: months.values,
+      daysOfWeek: daysOfWeek.values,
+      restrictsDayOfMonth: !daysOfMonth.wildcard,
+      restrictsDayOfWeek: !daysOfWeek.wildcard,
+    },
+  };
+}
+
+function matchesDay(rule: CronRule, day: number, weekday: number) {
+  const dayOfMonthMatch = rule.daysOfMonth.has(day);
+  const dayOfWeekMatch = rule.daysOfWeek.has(weekday);
+  // Classic cron: when both day fields are restricted, either may match.
+  if (rule.restrictsDayOfMonth && rule.restrictsDayOfWeek) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+  return dayOfMonthMatch && dayOfWeekMatch;
+}
+
+/** Returns the first occurrence strictly after `after`, or null within a year. */
+export function getNextCronOccurrence(
+  rule: CronRule,
+  after: Date,
+  timeZone: string,
+): Date | null {
+  const start = getZonedDateParts(new Date(after.getTime() + 60_000), timeZone);
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset += 1) {
+    const calendarDay = new Date(
+      Date.UTC(start.year, start.month - 1, start.day + offset),
+    );
+    const year = calendarDay.getUTCFullYear();
+    const month = calendarDay.getUTCMonth() + 1;
+    const day = calendarDay.getUTCDate();
+    if (!rule.months.has(month)) continue;
+    if (!matchesDay(rule, day, calendarDay.getUTCDay())) continue;
+
+    for (const hour of rule.hours) {
+      if (offset === 0 && hour < start.hour) continue;
+      for (const minute of rule.minutes) {
+        if (offset === 0 && hour === start.hour && minute < start.minute) {
+          continue;
+        }
+        const occurrence = zonedTimeToDate(
+          { year, month, day, hour, minute },
+          timeZone,
+        );
+        if (occurrence.getTime() > after.getTime()) {
+          return occurrence;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+export function getNextCronOccurrences(
+  rule: CronRule,
+  after: Date,
+  timeZone: string,
+  count: number,
+): Date[] {
+  const occurrences: Date[] = [];
+  let cursor = after;
+  while (occurrences.length < count) {
+    const next = getNextCronOccurrence(rule, cursor, timeZone);
+    if (!next) break;
+    occurrences.push(next);
+    cursor = next;
+  }
+  return occurrences;
+}
@@ -0,0 +1,77 @@
+import { randomBytes } from 'node:crypto';
+import { AnnouncementParseMode } from './announcement.enums';
+import { escapeForParseMode } from './announcement-template.util';
+
+// Stops at whitespace, quotes, brackets and markup so `href="..."` and
+// MarkdownV2 `[text](...)` targets are matched without their delimiters.
+const URL_PATTERN = /https?:\/\/[^\s<>"'()[\]]+/g;
+const TRAILING_PUNCTUATION_PATTERN = /(?:\\?[.,!?;:])+$/;
+const MAX_TRACKED_URL_LENGTH = 2048;
+
+type LinkMatch = {
+  start: number;
+  end: number;
+  url: string;
+  // True for MarkdownV2 link targets, which use a lighter escaping rule.
+  isLinkTarget: boolean;
+};
+
+function decodeUrl(raw: string, parseMode: AnnouncementParseMode) {
+  if (parseMode === AnnouncementParseMode.MARKDOWN_V2) {
+    return raw.replace(/\\(.)/g, '$1');
+  }
+  return raw.replace(/&amp;/g, '&');
+}
+
+function findLinks(message: string, parseMode: AnnouncementParseMode) {
+  const matches: LinkMatch[] = [];
+  for (const match of message.matchAll(URL_PATTERN)) {
+    const raw = match[0].replace(TRAILING_PUNCTUATION_PATTERN, '');
+    const start = match.index ?? 0;
+    const url = decodeUrl(raw, parseMode);
+    if (url.length > MAX_TRACKED_URL_LENGTH) continue;
+    matches.push({
+      start,
+      end: start + raw.length,
+      url,
+      isLinkTarget: message.slice(Math.max(0, start - 2), start) === '](',
+    });
+  }
+  return matches;
+}
+
+/** Returns the distinct URLs in a message as the recipient would open them. */
+export function extractTrackableUrls(
+  message: string,
+  parseMode: AnnouncementParseMode,
+): string[] {
+  return [...new Set(findLinks(message, parseMode).map((link) => link.url))];
+}
+
+/**
+ * Swaps each URL for the address returned by `resolve`, escaped for the
+ * parse mode. URLs without a replacement are left as written.
+ */
+export function replaceTrackableUrls(
+  message: string,
+  parseMode: AnnouncementParseMode,
+  resolve: (url: string) => string | null,
+): string {
+  let result = '';
+  let cursor = 0;
+  for (const link of findLinks(message, parseMode)) {
+    const replacement = resolve(link.url);
+    if (!replacement) continue;
+    const escaped =
+      parseMode === AnnouncementParseMode.MARKDOWN_V2 && link.isLinkTarget
+        ? replacement.replace(/[)\\]/g, '\\$&')
+        : escapeForParseMode(replacement, parseMode);
+    result += message.slice(cursor, link.start) + escaped;
+    cursor = link.end;
+  }
+  return result + message.slice(cursor);
+}
+
+export function generateLinkCode(): string {
+  return randomBytes(6).toString('base64url');
+}
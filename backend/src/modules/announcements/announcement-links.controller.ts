@@ -0,0 +1,33 @@
+import { Controller, Get, Param, Query, Req, Res } from '@nestjs/common';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { VISITOR_COOKIE_NAME } from '../analytics/analytics.service';
+import { getVisitorCookieOptions } from '../../common/http/cookies';
+import { AnnouncementLinksService } from './announcement-links.service';
+
+@Controller('l')
+export class AnnouncementLinksController {
+  constructor(private readonly linksService: AnnouncementLinksService) {}
+
+  @Get(':code')
+  async redirect(
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+    @Param('code') code: string,
+    @Query('r') deliveryRef?: string,
+  ) {
+    const deliveryId = Number.parseInt(deliveryRef ?? '', 10);
+    const click = await this.linksService.recordClick(
+      req,
+      code,
+      Number.isFinite(deliveryId) && deliveryId > 0 ? deliveryId : undefined,
+    );
+    if (click.visitorId && click.shouldSetCookie) {
+      res.setCookie(
+        VISITOR_COOKIE_NAME,
+        click.visitorId,
+        getVisitorCookieOptions(),
+      );
+    }
+    return res.redirect(click.url, 302);
+  }
+}
@@ -0,0 +1,83 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FastifyRequest } from 'fastify';
+import { Repository } from 'typeorm';
+import { AnalyticsService } from '../analytics/analytics.service';
+import { AnnouncementLink } from './entities/announcement-link.entity';
+import { AnnouncementDelivery } from './entities/announcement-delivery.entity';
+
+export const ANNOUNCEMENT_CLICK_EVENT = 'announcement_click';
+
+@Injectable()
+export class AnnouncementLinksService {
+  private readonly logger = new Logger(AnnouncementLinksService.name);
+
+  constructor(
+    private readonly analyticsService: AnalyticsService,
+    @InjectRepository(AnnouncementLink)
+    private readonly linkRepo: Repository<AnnouncementLink>,
+    @InjectRepository(AnnouncementDelivery)
+    private readonly deliveryRepo: Repository<AnnouncementDelivery>,
+  ) {}
+
+  /**
+   * Resolves a short link and records the click. Tracking failures are logged
+   * rather than thrown so the recipient always reaches the target URL.
+   */
+  async recordClick(req: FastifyRequest, code: string, deliveryId?: number) {
+    const link = await this.linkRepo.findOne({ where: { code } });
+    if (!link) {
+      throw new NotFoundException('Link not found');
+    }
+
+    try {
+      const delivery = deliveryId
+        ? await this.deliveryRepo.findOne({
+            where: { id: deliveryId, runId: link.runId },
+            select: { id: true, userId: true, variantId: true },
+          })
+        : null;
+      // Ignore delivery ids that belong to another variant's recipients.
+      const matchedDelivery =
+        delivery && (delivery.variantId ?? null) === link.variantId
+          ? delivery
+          : null;
+
+      const tracked = await this.analyticsService.trackServerEvent(req, {
+        eventType: ANNOUNCEMENT_CLICK_EVENT,
+        path: `/l/${link.code}`,
+        userId: matchedDelivery?.userId ?? null,
+        metadata: {
+          runId: link.runId,
+          variantId: link.variantId,
+          deliveryId: matchedDelivery?.id ?? null,
+        },
+      });
+
+      // Telegram fetches links for previews; those must not count as clicks.
+      if (matchedDelivery && !tracked.isBot) {
+        await this.deliveryRepo
+          .createQueryBuilder()
+          .update(AnnouncementDelivery)
+          .set({
+            clickCount: () => '`clickCount` + 1',
+            firstClickedAt: () =>
+              'COALESCE(`firstClickedAt`, CURRENT_TIMESTAMP)',
+          })
+          .where('id = :id', { id: matchedDelivery.id })
+          .execute();
+      }
+
+      return {
+        url: link.url,
+        visitorId: tracked.visitorId,
+        shouldSetCookie: tracked.shouldSetCookie,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record click for link ${link.code}: ${(error as Error).message}`,
+      );
+      return { url: link.url, visitorId: null, shouldSetCookie: false };
+    }
+  }
+}
@@ -0,0 +1,150 @@
+export const DEFAULT_BROADCAST_TIME_ZONE = 'Africa/Addis_Ababa';
+
+export type QuietHoursWindow = {
+  start: string;
+  end: string;
+  startMinutes: number;
+  endMinutes: number;
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseClockMinutes(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/** Parses a `HH:MM-HH:MM` window; windows may wrap past midnight. */
+export function parseQuietHours(
+  raw: string | null | undefined,
+): QuietHoursWindow | null {
+  const [start, end] = String(raw ?? '')
+    .split('-')
+    .map((part) => part.trim());
+  if (!start || !end) return null;
+
+  const startMinutes = parseClockMinutes(start);
+  const endMinutes = parseClockMinutes(end);
+  if (startMinutes === null || endMinutes === null) return null;
+  if (startMinutes === endMinutes) return null;
+  return { start, end, startMinutes, endMinutes };
+}
+
+export type ZonedDateParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+};
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+/** Wall-clock parts of `date` in `timeZone`; months are 1-based, Sunday is 0. */
+export function getZonedDateParts(
+  date: Date,
+  timeZone: string,
+): ZonedDateParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const read = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? '';
+  return {
+    year: Number(read('year')),
+    month: Number(read('month')),
+    day: Number(read('day')),
+    hour: Number(read('hour')),
+    minute: Number(read('minute')),
+    weekday: WEEKDAY_INDEX[read('weekday')] ?? 0,
+  };
+}
+
+/** Converts a wall-clock time in `timeZone` to the matching instant. */
+export function zonedTimeToDate(
+  parts: Omit<ZonedDateParts, 'weekday'>,
+  timeZone: string,
+): Date {
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+  );
+  let guess = wallClock;
+  // Two passes settle the offset even when the guess lands across a DST shift.
+  for (let pass = 0; pass < 2; pass += 1) {
+    const zoned = getZonedDateParts(new Date(guess), timeZone);
+    const offset =
+      Date.UTC(
+        zoned.year,
+        zoned.month - 1,
+        zoned.day,
+        zoned.hour,
+        zoned.minute,
+      ) - guess;
+    guess = wallClock - offset;
+  }
+  return new Date(guess);
+}
+
+export function getMinutesInTimeZone(date: Date, timeZone: string): number {
+  const { hour, minute } = getZonedDateParts(date, timeZone);
+  return hour * 60 + minute;
+}
+
+export function isWithinQuietHours(
+  date: Date,
+  window: QuietHoursWindow,
+  timeZone: string,
+): boolean {
+  const minutes = getMinutesInTimeZone(date, timeZone);
+  if (window.startMinutes < window.endMinutes) {
+    return minutes >= window.startMinutes && minutes < window.endMinutes;
+  }
+  return minutes >= window.startMinutes || minutes < window.endMinutes;
+}
+
+/** Returns when the quiet window that contains `date` ends. */
+export function getQuietHoursEnd(
+  date: Date,
+  window: QuietHoursWindow,
+  timeZone: string,
+): Date {
+  const minutes = getMinutesInTimeZone(date, timeZone);
+  const remaining =
+    (window.endMinutes - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const end = new Date(date.getTime() + remaining * 60_000);
+  end.setSeconds(0, 0);
+  return end;
+}
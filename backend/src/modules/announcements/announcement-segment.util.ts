@@ -0,0 +1,166 @@
+import { SelectQueryBuilder } from 'typeorm';
+import { Ad, AdStatus } from '../products/entities/ad.entity';
+import { VisitorEvent } from '../analytics/entities/visitor-event.entity';
+import { User } from '../users/entities/user.entity';
+
+/** Every rule is optional; a user must match all rules that are set. */
+export type AnnouncementSegmentRules = {
+  minApprovedAds?: number;
+  loyaltyPointsAbove?: number;
+  hasPendingAds?: boolean;
+  activeWithinDays?: number;
+  categoryIds?: number[];
+};
+
+export type SegmentRulesParseResult =
+  | { rules: AnnouncementSegmentRules }
+  | { error: string };
+
+const MAX_ACTIVE_WITHIN_DAYS = 365;
+const MAX_SEGMENT_CATEGORIES = 50;
+
+function readInteger(value: unknown): number | null {
+  if (typeof value !== 'number' || !Number.isInteger(value)) return null;
+  return value;
+}
+
+/** Drops unset rules and checks bounds; at least one rule is required. */
+export function normalizeSegmentRules(
+  raw: AnnouncementSegmentRules | null | undefined,
+): SegmentRulesParseResult {
+  const rules: AnnouncementSegmentRules = {};
+  if (!raw || typeof raw !== 'object') {
+    return { error: 'Segment rules are required' };
+  }
+
+  if (raw.minApprovedAds !== undefined && raw.minApprovedAds !== null) {
+    const value = readInteger(raw.minApprovedAds);
+    if (value === null || value < 1) {
+      return { error: 'minApprovedAds must be a positive integer' };
+    }
+    rules.minApprovedAds = value;
+  }
+
+  if (raw.loyaltyPointsAbove !== undefined && raw.loyaltyPointsAbove !== null) {
+    const value = readInteger(raw.loyaltyPointsAbove);
+    if (value === null || value < 0) {
+      return { error: 'loyaltyPointsAbove must be zero or a positive integer' };
+    }
+    rules.loyaltyPointsAbove = value;
+  }
+
+  if (raw.hasPendingAds === true) {
+    rules.hasPendingAds = true;
+  }
+
+  if (raw.activeWithinDays !== undefined && raw.activeWithinDays !== null) {
+    const value = readInteger(raw.activeWithinDays);
+    if (value === null || value < 1 || value > MAX_ACTIVE_WITHIN_DAYS) {
+      return {
+        error: `activeWithinDays must be between 1 and ${MAX_ACTIVE_WITHIN_DAYS}`,
+      };
+    }
+    rules.activeWithinDays = value;
+  }
+
+  if (Array.isArray(raw.categoryIds) && raw.categoryIds.length > 0) {
+    const categoryIds = [
+      ...new Set(
+        raw.categoryIds.filter(
+          (categoryId) => Number.isInteger(categoryId) && categoryId > 0,
+        ),
+      ),
+    ];
+    if (categoryIds.length !== raw.categoryIds.length) {
+      return { error: 'categoryIds must be unique positive integers' };
+    }
+    if (categoryIds.length > MAX_SEGMENT_CATEGORIES) {
+      return {
+        error: `A segment can reference at most ${MAX_SEGMENT_CATEGORIES} categories`,
+      };
+    }
+    rules.categoryIds = categoryIds;
+  }
+
+  if (Object.keys(rules).length === 0) {
+    return { error: 'A segment needs at least one rule' };
+  }
+  return { rules };
+}
+
+/**
+ * Narrows a `user` query builder to the segment. `categoryIds` must already
+ * include descendant categories so a parent category matches its subtree.
+ */
+export function applySegmentRules(
+  qb: SelectQueryBuilder<User>,
+  rules: AnnouncementSegmentRules,
+  now = new Date(),
+) {
+  if (rules.loyaltyPointsAbove !== undefined) {
+    qb.andWhere('user.loyaltyPoints > :segmentLoyaltyPoints', {
+      segmentLoyaltyPoints: rules.loyaltyPointsAbove,
+    });
+  }
+
+  if (rules.minApprovedAds !== undefined) {
+    const approvedAds = qb
+      .subQuery()
+      .select('COUNT(*)')
+      .from(Ad, 'segmentApprovedAd')
+      .where('segmentApprovedAd.merchantId = user.id')
+      .andWhere('segmentApprovedAd.status = :segmentApprovedStatus')
+      .andWhere('segmentApprovedAd.archivedAt IS NULL')
+      .getQuery();
+    qb.andWhere(`${approvedAds} >= :segmentMinApprovedAds`, {
+      segmentApprovedStatus: AdStatus.APPROVED,
+      segmentMinApprovedAds: rules.minApprovedAds,
+    });
+  }
+
+  if (rules.hasPendingAds) {
+    const pendingAds = qb
+      .subQuery()
+      .select('1')
+      .from(Ad, 'segmentPendingAd')
+      .where('segmentPendingAd.merchantId = user.id')
+      .andWhere('segmentPendingAd.status = :segmentPendingStatus')
+      .andWhere('segmentPendingAd.archivedAt IS NULL')
+      .getQuery();
+    qb.andWhere(`EXISTS ${pendingAds}`, {
+      segmentPendingStatus: AdStatus.PENDING,
+    });
+  }
+
+  if (rules.activeWithinDays !== undefined) {
+    const recentVisits = qb
+      .subQuery()
+      .select('1')
+      .from(VisitorEvent, 'segmentVisit')
+      .where('segmentVisit.userId = user.id')
+      .andWhere('segmentVisit.createdAt >= :segmentActiveSince')
+      .getQuery();
+    qb.andWhere(`EXISTS ${recentVisits}`, {
+      segmentActiveSince: new Date(
+        now.getTime() - rules.activeWithinDays * 24 * 60 * 60 * 1000,
+      ),
+    });
+  }
+
+  if (rules.categoryIds && rules.categoryIds.length > 0) {
+    const categoryAds = qb
+      .subQuery()
+      .select('1')
+      .from(Ad, 'segmentCategoryAd')
+      .where('segmentCategoryAd.merchantId = user.id')
+      .andWhere('segmentCategoryAd.status = :segmentCategoryStatus')
+      .andWhere('segmentCategoryAd.categoryId IN (:...segmentCategoryIds)')
+      .getQuery();
+    qb.andWhere(`EXISTS ${categoryAds}`, {
+      segmentCategoryStatus: AdStatus.APPROVED,
+      segmentCategoryIds: rules.categoryIds,
+    });
+  }
+
+  return qb;
+}
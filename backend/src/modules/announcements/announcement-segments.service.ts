@@ -0,0 +1,101 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AnnouncementSegment } from './entities/announcement-segment.entity';
+import { AnnouncementCampaign } from './entities/announcement-campaign.entity';
+import { AnnouncementTarget } from './announcement.enums';
+import { AnnouncementsService } from './announcements.service';
+import {
+  AnnouncementSegmentRules,
+  normalizeSegmentRules,
+} from './announcement-segment.util';
+
+type SaveSegmentParams = {
+  name: string;
+  rules: AnnouncementSegmentRules;
+  createdByUserId?: number;
+};
+
+@Injectable()
+export class AnnouncementSegmentsService {
+  constructor(
+    private readonly announcementsService: AnnouncementsService,
+    @InjectRepository(AnnouncementSegment)
+    private readonly segmentRepo: Repository<AnnouncementSegment>,
+    @InjectRepository(AnnouncementCampaign)
+    private readonly campaignRepo: Repository<AnnouncementCampaign>,
+  ) {}
+
+  listSegments() {
+    return this.segmentRepo.find({ order: { name: 'ASC' } });
+  }
+
+  async getSegment(id: number) {
+    const segment = await this.segmentRepo.findOne({ where: { id } });
+    if (!segment) {
+      throw new NotFoundException('Announcement segment not found');
+    }
+    return segment;
+  }
+
+  async createSegment(params: SaveSegmentParams) {
+    const segment = this.segmentRepo.create({
+      name: this.resolveName(params.name),
+      rules: this.resolveRules(params.rules),
+      createdByUserId: params.createdByUserId ?? null,
+    });
+    return this.segmentRepo.save(segment);
+  }
+
+  async updateSegment(id: number, params: SaveSegmentParams) {
+    const segment = await this.getSegment(id);
+    segment.name = this.resolveName(params.name);
+    segment.rules = this.resolveRules(params.rules);
+    return this.segmentRepo.save(segment);
+  }
+
+  async deleteSegment(id: number) {
+    await this.getSegment(id);
+    const campaignCount = await this.campaignRepo.count({
+      where: { segmentId: id, target: AnnouncementTarget.SEGMENT },
+    });
+    if (campaignCount > 0) {
+      throw new ConflictException(
+        `Segment is used by ${campaignCount} recurring campaign${campaignCount === 1 ? '' : 's'}`,
+      );
+    }
+    // Runs keep their own rules snapshot, so past reports are unaffected.
+    await this.segmentRepo.delete({ id });
+    return { id, deleted: true };
+  }
+
+  previewRules(rules: AnnouncementSegmentRules) {
+    return this.announcementsService.previewSegment(this.resolveRules(rules));
+  }
+
+  async previewSegment(id: number) {
+    const segment = await this.getSegment(id);
+    return this.announcementsService.previewSegment(segment.rules);
+  }
+
+  private resolveName(name?: string) {
+    const trimmed = String(name ?? '').trim();
+    if (!trimmed) {
+      throw new BadRequestException('Segment name is required');
+    }
+    return trimmed;
+  }
+
+  private resolveRules(rules: AnnouncementSegmentRules) {
+    const parsed = normalizeSegmentRules(rules);
+    if ('error' in parsed) {
+      throw new BadRequestException(parsed.error);
+    }
+    return parsed.rules;
+  }
+}
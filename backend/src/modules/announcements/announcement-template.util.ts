@@ -0,0 +1,93 @@
+import { AnnouncementParseMode } from './announcement.enums';
+
+export const ANNOUNCEMENT_PLACEHOLDERS = [
+  'firstName',
+  'loyaltyPoints',
+  'pendingAdsCount',
+  'dashboardUrl',
+] as const;
+
+export type AnnouncementPlaceholder =
+  (typeof ANNOUNCEMENT_PLACEHOLDERS)[number];
+
+export type AnnouncementTemplateValues = Partial<
+  Record<AnnouncementPlaceholder, string | number | null>
+>;
+
+// `{{name}}` or `{{name|fallback}}`; the fallback is used for empty values.
+const PLACEHOLDER_PATTERN =
+  /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*(?:\|([^{}]*))?\}\}/g;
+const MARKDOWN_V2_SPECIAL_CHARS = /[_*[\]()~`>#+\-=|{}.!\\]/g;
+
+function isKnownPlaceholder(name: string): name is AnnouncementPlaceholder {
+  return (ANNOUNCEMENT_PLACEHOLDERS as readonly string[]).includes(name);
+}
+
+/** Returns the distinct placeholder names used in a message, in order. */
+export function extractPlaceholders(message: string): string[] {
+  const names = new Set<string>();
+  for (const match of String(message ?? '').matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+export function findUnknownPlaceholders(message: string): string[] {
+  return extractPlaceholders(message).filter(
+    (name) => !isKnownPlaceholder(name),
+  );
+}
+
+/** Returns an error message when the template uses unknown placeholders. */
+export function getPlaceholderError(message: string): string | null {
+  const unknown = findUnknownPlaceholders(message);
+  if (unknown.length === 0) return null;
+  const format = (names: readonly string[]) =>
+    names.map((name) => `{{${name}}}`).join(', ');
+  return `Unknown placeholder${unknown.length === 1 ? '' : 's'} ${format(
+    unknown,
+  )}. Available: ${format(ANNOUNCEMENT_PLACEHOLDERS)}`;
+}
+
+export function hasPlaceholders(message: string): boolean {
+  return extractPlaceholders(message).length > 0;
+}
+
+/** Escapes a substituted value so it renders as plain text in Telegram. */
+export function escapeForParseMode(
+  value: string,
+  parseMode: AnnouncementParseMode,
+): string {
+  if (parseMode === AnnouncementParseMode.MARKDOWN_V2) {
+    return value.replace(MARKDOWN_V2_SPECIAL_CHARS, '\\$&');
+  }
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Substitutes placeholders with escaped recipient values. The surrounding
+ * message is left untouched since admins author it in the chosen parse mode.
+ */
+export function renderAnnouncementTemplate(
+  message: string,
+  values: AnnouncementTemplateValues,
+  parseMode: AnnouncementParseMode,
+): string {
+  return String(message ?? '').replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder: string, name: string, fallback?: string) => {
+      if (!isKnownPlaceholder(name)) return placeholder;
+      const raw = values[name];
+      const value =
+        raw === null || raw === undefined || String(raw).trim() === ''
+          ? (fallback ?? '').trim()
+          : String(raw);
+      return escapeForParseMode(value, parseMode);
+    },
+  );
+}
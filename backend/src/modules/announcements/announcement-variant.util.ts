@@ -0,0 +1,86 @@
+import { createHash } from 'node:crypto';
+
+export const ANNOUNCEMENT_VARIANT_IDS = ['A', 'B', 'C', 'D'] as const;
+
+export type AnnouncementVariantId = (typeof ANNOUNCEMENT_VARIANT_IDS)[number];
+
+export type AnnouncementVariant = {
+  id: AnnouncementVariantId;
+  message: string;
+  // Relative share of recipients; weights 70 and 30 split a run 70/30.
+  weight: number;
+};
+
+export type AnnouncementVariantInput = {
+  message?: string;
+  weight?: number;
+};
+
+export type VariantsParseResult =
+  | { variants: AnnouncementVariant[] }
+  | { error: string };
+
+const MIN_VARIANTS = 2;
+const MAX_VARIANT_WEIGHT = 100;
+const MAX_VARIANT_MESSAGE_LENGTH = 4000;
+
+/** Trims messages, checks weights and labels the variants A, B, C... */
+export function normalizeVariants(
+  raw: AnnouncementVariantInput[] | null | undefined,
+): VariantsParseResult {
+  if (!Array.isArray(raw) || raw.length < MIN_VARIANTS) {
+    return { error: `An A/B test needs at least ${MIN_VARIANTS} variants` };
+  }
+  if (raw.length > ANNOUNCEMENT_VARIANT_IDS.length) {
+    return {
+      error: `An A/B test can have at most ${ANNOUNCEMENT_VARIANT_IDS.length} variants`,
+    };
+  }
+
+  const variants: AnnouncementVariant[] = [];
+  for (const [index, entry] of raw.entries()) {
+    const id = ANNOUNCEMENT_VARIANT_IDS[index];
+    const message = String(entry?.message ?? '').trim();
+    if (!message) {
+      return { error: `Variant ${id} needs a message` };
+    }
+    if (message.length > MAX_VARIANT_MESSAGE_LENGTH) {
+      return {
+        error: `Variant ${id} exceeds ${MAX_VARIANT_MESSAGE_LENGTH} characters`,
+      };
+    }
+    const weight = entry?.weight ?? 1;
+    if (
+      !Number.isInteger(weight) ||
+      weight < 1 ||
+      weight > MAX_VARIANT_WEIGHT
+    ) {
+      return {
+        error: `Variant ${id} weight must be between 1 and ${MAX_VARIANT_WEIGHT}`,
+      };
+    }
+    variants.push({ id, message, weight });
+  }
+  return { variants };
+}
+
+/**
+ * Picks a variant from a stable hash of the seed, so the same recipient in
+ * the same run always lands in the same bucket regardless of send order.
+ */
+export function assignVariant(
+  variants: AnnouncementVariant[],
+  seed: string,
+): AnnouncementVariant {
+  const totalWeight = variants.reduce(
+    (sum, variant) => sum + variant.weight,
+    0,
+  );
+  const hash = createHash('sha256').update(seed).digest();
+  let bucket = hash.readUInt32BE(0) % totalWeight;
+  for (const variant of variants) {
+    if (bucket < variant.weight) return variant;
+    bucket -= variant.weight;
+  }
+  return variants[variants.length - 1];
+}
@@ -0,0 +1,20 @@
+// Kept apart from the entities so the run and campaign entities can share
+// them without importing each other.
+export enum AnnouncementTarget {
+  ALL = 'all',
+  USERS = 'users',
+  BOT_SUBSCRIBERS = 'bot_subscribers',
+  ACTIVE_BOT_SUBSCRIBERS = 'active_bot_subscribers',
+  SEGMENT = 'segment',
+}
+
+export enum AnnouncementKind {
+  ANNOUNCEMENT = 'announcement',
+  NEWS = 'news',
+  PROMOTION = 'promotion',
+}
+
+export enum AnnouncementParseMode {
+  HTML = 'HTML',
+  MARKDOWN_V2 = 'MarkdownV2',
+}
@@ -3,8 +3,10 @@ import {
   Controller,
   Delete,
   Get,
+  Body,
   Param,
   ParseIntPipe,
+  Patch,
   Post,
   Query,
   Req,
@@ -15,8 +17,9 @@ import { FastifyRequest } from 'fastify';
 import { plainToInstance } from 'class-transformer';
 import { validate } from 'class-validator';
 import { RolesGuard } from '../../common/guards/roles.guard';
-import { Roles } from '../../common/decorators/roles.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
 import { UserRole } from '../users/entities/user.entity';
+import { Permission } from '../users/permissions';
 import {
   buildPaginationMeta,
   normalizePagination,
@@ -28,6 +31,16 @@ import {
   ListAnnouncementDeliveriesDto,
 } from './dto/list-announcement-deliveries.dto';
 import { ListAnnouncementUsersDto } from './dto/list-announcement-users.dto';
+import { ListAnnouncementCalendarDto } from './dto/list-announcement-calendar.dto';
+import { RescheduleAnnouncementDto } from './dto/reschedule-announcement.dto';
+import { CreateAnnouncementCampaignDto } from './dto/create-announcement-campaign.dto';
+import { UpdateAnnouncementCampaignDto } from './dto/update-announcement-campaign.dto';
+import { PreviewCampaignScheduleDto } from './dto/preview-campaign-schedule.dto';
+import { PreviewAnnouncementMessageDto } from './dto/preview-announcement-message.dto';
+import { SaveAnnouncementSegmentDto } from './dto/save-announcement-segment.dto';
+import { PreviewAnnouncementSegmentDto } from './dto/preview-announcement-segment.dto';
+import { AnnouncementCampaignsService } from './announcement-campaigns.service';
+import { AnnouncementSegmentsService } from './announcement-segments.service';
 import {
   coerceMultipartFieldValue,
   getMultipartParts,
@@ -44,9 +57,13 @@ type AuthenticatedRequest = FastifyRequest & {
 
 @Controller('announcements')
 @UseGuards(AuthGuard('jwt'), RolesGuard)
-@Roles(UserRole.ADMIN)
+@RequirePermissions(Permission.ANNOUNCEMENTS_MANAGE)
 export class AnnouncementsController {
-  constructor(private readonly announcementsService: AnnouncementsService) {}
+  constructor(
+    private readonly announcementsService: AnnouncementsService,
+    private readonly campaignsService: AnnouncementCampaignsService,
+    private readonly segmentsService: AnnouncementSegmentsService,
+  ) {}
 
   private static readonly MAX_ANNOUNCEMENT_IMAGES = 3;
   private static readonly MAX_ANNOUNCEMENT_IMAGE_BYTES = 10 * 1024 * 1024;
@@ -57,77 +74,44 @@ export class AnnouncementsController {
     @Req() req: AuthenticatedRequest,
     @Query('limit') limit?: string,
   ) {
-    const body: Record<string, unknown> = {};
-    const imageBuffers: Buffer[] = [];
-    const contentType = String(req.headers['content-type'] ?? '');
-
-    if (contentType.includes('multipart/form-data')) {
-      const parts = getMultipartParts(req);
-      if (!parts) {
-        throw new BadRequestException('Invalid multipart request');
-      }
-
-      let fieldCount = 0;
-      for await (const part of parts) {
-        if (part.type === 'file') {
-          if (part.fieldname !== 'images') {
-            throw new BadRequestException(
-              'Announcement files must use the "images" field',
-            );
-          }
-          if (
-            imageBuffers.length >=
-            AnnouncementsController.MAX_ANNOUNCEMENT_IMAGES
-          ) {
-            throw new BadRequestException(
-              `You can upload at most ${AnnouncementsController.MAX_ANNOUNCEMENT_IMAGES} announcement images`,
-            );
-          }
-
-          const buffer = await readMultipartFileToBuffer(part, {
-            maxBytes: AnnouncementsController.MAX_ANNOUNCEMENT_IMAGE_BYTES,
-            allowedMimePrefixes: ['image/'],
-            errorLabel: 'Announcement image',
-          });
-          if (buffer.length > 0) {
-            imageBuffers.push(buffer);
-          }
-          continue;
-        }
-
-        fieldCount += 1;
-        if (fieldCount > AnnouncementsController.MAX_MULTIPART_FIELDS) {
-          throw new BadRequestException('Too many multipart fields');
-        }
-        body[part.fieldname] = coerceMultipartFieldValue(
-          part.value,
-          part.fieldname,
-        );
-      }
-    } else {
-      Object.assign(body, getRequestBodyRecord(req));
-    }
+    const { body, imageBuffers } = await this.readAnnouncementBody(req);
 
     const dto = plainToInstance(CreateAnnouncementDto, {
       ...body,
       userIds: this.parseUserIdsField(body.userIds),
+      segmentRules: this.parseJsonField(body.segmentRules, 'segmentRules'),
+      variants: this.parseJsonField(body.variants, 'variants'),
+      buttons: this.parseJsonField(body.buttons, 'buttons'),
     });
     const errors = await validate(dto);
     if (errors.length > 0) {
       throw new BadRequestException(errors);
     }
+    if (dto.segmentId && dto.segmentRules) {
+      throw new BadRequestException(
+        'Provide either a saved segment or segment rules, not both',
+      );
+    }
 
     const parsedLimit = Number.parseInt(limit ?? '', 10);
     const take =
       Number.isFinite(parsedLimit) && parsedLimit > 0 ? parsedLimit : undefined;
     const run = await this.announcementsService.queueAnnouncement({
       message: dto.message,
+      variants: dto.variants,
+      trackLinks: dto.trackLinks,
+      buttons: dto.buttons,
+      parseMode: dto.parseMode,
       kind: dto.kind,
       target: dto.target,
       targetUserIds: dto.userIds,
+      segmentId: dto.segmentId,
+      segmentRules: dto.segmentRules,
       requestedByUserId: req?.user?.userId,
       limit: take,
       imageBuffers,
+      scheduledAt: dto.scheduledAt ? new Date(dto.scheduledAt) : null,
+      respectQuietHours: dto.respectQuietHours,
     });
 
     return {
@@ -137,9 +121,19 @@ export class AnnouncementsController {
       target: run.target,
       totalRecipients: run.totalRecipients,
       pendingCount: run.pendingCount,
+      scheduledAt: run.scheduledAt,
     };
   }
 
+  @Post('preview')
+  async previewMessage(@Body() dto: PreviewAnnouncementMessageDto) {
+    return this.announcementsService.previewMessage({
+      message: dto.message,
+      userId: dto.userId,
+      parseMode: dto.parseMode,
+    });
+  }
+
   @Get('runs')
   async listRuns(@Query('page') page?: string, @Query('limit') limit?: string) {
     const { page: safePage, limit: safeLimit } = normalizePagination(
@@ -153,11 +147,180 @@ export class AnnouncementsController {
     return { data, meta: buildPaginationMeta(total, safePage, safeLimit) };
   }
 
+  @Get('campaigns')
+  async listCampaigns(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const { page: safePage, limit: safeLimit } = normalizePagination(
+      page,
+      limit,
+    );
+    const { data, total } = await this.campaignsService.listCampaigns(
+      safePage,
+      safeLimit,
+    );
+    return { data, meta: buildPaginationMeta(total, safePage, safeLimit) };
+  }
+
+  @Post('campaigns')
+  async createCampaign(@Req() req: AuthenticatedRequest) {
+    const { body, imageBuffers } = await this.readAnnouncementBody(req);
+    const dto = plainToInstance(CreateAnnouncementCampaignDto, {
+      ...body,
+      userIds: this.parseUserIdsField(body.userIds),
+    });
+    const errors = await validate(dto);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+
+    return this.campaignsService.createCampaign({
+      name: dto.name,
+      scheduleRule: dto.scheduleRule,
+      timeZone: dto.timeZone,
+      message: dto.message,
+      kind: dto.kind,
+      target: dto.target,
+      targetUserIds: dto.userIds,
+      segmentId: dto.segmentId,
+      respectQuietHours: dto.respectQuietHours,
+      imageBuffers,
+      createdByUserId: req?.user?.userId,
+    });
+  }
+
+  @Get('campaigns/schedule-preview')
+  previewCampaignSchedule(@Query() query: PreviewCampaignScheduleDto) {
+    return this.campaignsService.previewScheduleRule(
+      query.scheduleRule,
+      query.timeZone,
+    );
+  }
+
+  @Get('campaigns/:id')
+  async getCampaign(@Param('id', ParseIntPipe) id: number) {
+    return this.campaignsService.getCampaign(id);
+  }
+
+  @Patch('campaigns/:id')
+  async updateCampaign(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateAnnouncementCampaignDto,
+  ) {
+    return this.campaignsService.updateCampaign(id, {
+      name: dto.name,
+      scheduleRule: dto.scheduleRule,
+      timeZone: dto.timeZone,
+      message: dto.message,
+      kind: dto.kind,
+      target: dto.target,
+      targetUserIds: dto.userIds,
+      segmentId: dto.segmentId,
+      respectQuietHours: dto.respectQuietHours,
+    });
+  }
+
+  @Post('campaigns/:id/pause')
+  async pauseCampaign(@Param('id', ParseIntPipe) id: number) {
+    return this.campaignsService.pauseCampaign(id);
+  }
+
+  @Post('campaigns/:id/resume')
+  async resumeCampaign(@Param('id', ParseIntPipe) id: number) {
+    return this.campaignsService.resumeCampaign(id);
+  }
+
+  @Delete('campaigns/:id')
+  async deleteCampaign(@Param('id', ParseIntPipe) id: number) {
+    return this.campaignsService.deleteCampaign(id);
+  }
+
+  @Get('campaigns/:id/runs')
+  async listCampaignRuns(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    await this.campaignsService.getCampaign(id);
+    const { page: safePage, limit: safeLimit } = normalizePagination(
+      page,
+      limit,
+    );
+    const { data, total } = await this.announcementsService.listRuns(
+      safePage,
+      safeLimit,
+      id,
+    );
+    return { data, meta: buildPaginationMeta(total, safePage, safeLimit) };
+  }
+
+  @Get('segments')
+  async listSegments() {
+    return this.segmentsService.listSegments();
+  }
+
+  @Post('segments')
+  async createSegment(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: SaveAnnouncementSegmentDto,
+  ) {
+    return this.segmentsService.createSegment({
+      name: dto.name,
+      rules: dto.rules,
+      createdByUserId: req?.user?.userId,
+    });
+  }
+
+  @Post('segments/preview')
+  async previewSegmentRules(@Body() dto: PreviewAnnouncementSegmentDto) {
+    return this.segmentsService.previewRules(dto.rules);
+  }
+
+  @Get('segments/:id/preview')
+  async previewSegment(@Param('id', ParseIntPipe) id: number) {
+    return this.segmentsService.previewSegment(id);
+  }
+
+  @Patch('segments/:id')
+  async updateSegment(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: SaveAnnouncementSegmentDto,
+  ) {
+    return this.segmentsService.updateSegment(id, {
+      name: dto.name,
+      rules: dto.rules,
+    });
+  }
+
+  @Delete('segments/:id')
+  async deleteSegment(@Param('id', ParseIntPipe) id: number) {
+    return this.segmentsService.deleteSegment(id);
+  }
+
+  @Get('runs/calendar')
+  async listCalendar(@Query() query: ListAnnouncementCalendarDto) {
+    return this.announcementsService.listCalendar(
+      new Date(query.from),
+      new Date(query.to),
+    );
+  }
+
+  @Get('schedule-settings')
+  getScheduleSettings() {
+    return this.announcementsService.getScheduleSettings();
+  }
+
   @Get('runs/:id')
   async getRun(@Param('id', ParseIntPipe) id: number) {
     return this.announcementsService.getRun(id);
   }
 
+  @Get('runs/:id/variants')
+  async getRunVariantReport(@Param('id', ParseIntPipe) id: number) {
+    return this.announcementsService.getRunVariantReport(id);
+  }
+
   @Get('runs/:id/deliveries')
   async listRunDeliveries(
     @Param('id', ParseIntPipe) id: number,
@@ -183,6 +346,17 @@ export class AnnouncementsController {
     return this.announcementsService.cancelRun(id);
   }
 
+  @Patch('runs/:id/schedule')
+  async rescheduleRun(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: RescheduleAnnouncementDto,
+  ) {
+    return this.announcementsService.rescheduleRun(
+      id,
+      dto.scheduledAt ? new Date(dto.scheduledAt) : null,
+    );
+  }
+
   @Post('runs/:id/repost')
   async repostRun(
     @Req() req: AuthenticatedRequest,
@@ -233,6 +407,75 @@ export class AnnouncementsController {
     return { data, meta: buildPaginationMeta(total, safePage, safeLimit) };
   }
 
+  private async readAnnouncementBody(req: AuthenticatedRequest) {
+    const body: Record<string, unknown> = {};
+    const imageBuffers: Buffer[] = [];
+    const contentType = String(req.headers['content-type'] ?? '');
+
+    if (contentType.includes('multipart/form-data')) {
+      const parts = getMultipartParts(req);
+      if (!parts) {
+        throw new BadRequestException('Invalid multipart request');
+      }
+
+      let fieldCount = 0;
+      for await (const part of parts) {
+        if (part.type === 'file') {
+          if (part.fieldname !== 'images') {
+            throw new BadRequestException(
+              'Announcement files must use the "images" field',
+            );
+          }
+          if (
+            imageBuffers.length >=
+            AnnouncementsController.MAX_ANNOUNCEMENT_IMAGES
+          ) {
+            throw new BadRequestException(
+              `You can upload at most ${AnnouncementsController.MAX_ANNOUNCEMENT_IMAGES} announcement images`,
+            );
+          }
+
+          const buffer = await readMultipartFileToBuffer(part, {
+            maxBytes: AnnouncementsController.MAX_ANNOUNCEMENT_IMAGE_BYTES,
+            allowedMimePrefixes: ['image/'],
+            errorLabel: 'Announcement image',
+          });
+          if (buffer.length > 0) {
+            imageBuffers.push(buffer);
+          }
+          continue;
+        }
+
+        fieldCount += 1;
+        if (fieldCount > AnnouncementsController.MAX_MULTIPART_FIELDS) {
+          throw new BadRequestException('Too many multipart fields');
+        }
+        body[part.fieldname] = coerceMultipartFieldValue(
+          part.value,
+          part.fieldname,
+        );
+      }
+    } else {
+      Object.assign(body, getRequestBodyRecord(req));
+    }
+
+    return { body, imageBuffers };
+  }
+
+  private parseJsonField(rawValue: unknown, fieldName: string): unknown {
+    if (typeof rawValue !== 'string') {
+      return rawValue;
+    }
+    const trimmed = rawValue.trim();
+    if (!trimmed) return undefined;
+
+    try {
+      return JSON.parse(trimmed) as unknown;
+    } catch {
+      throw new BadRequestException(`${fieldName} must be valid JSON`);
+    }
+  }
+
   private parseUserIdsField(rawValue: unknown): number[] | undefined {
     if (Array.isArray(rawValue)) {
       return rawValue
@@ -4,20 +4,38 @@ import { AnnouncementsController } from './announcements.controller';
 import { AnnouncementsService } from './announcements.service';
 import { AnnouncementRun } from './entities/announcement-run.entity';
 import { AnnouncementDelivery } from './entities/announcement-delivery.entity';
+import { AnnouncementCampaign } from './entities/announcement-campaign.entity';
+import { AnnouncementSegment } from './entities/announcement-segment.entity';
+import { AnnouncementLink } from './entities/announcement-link.entity';
 import { User } from '../users/entities/user.entity';
 import { BotSubscriber } from '../bot/entities/bot-subscriber.entity';
 import { AnnouncementImageService } from './announcement-image.service';
+import { AnnouncementCampaignsService } from './announcement-campaigns.service';
+import { AnnouncementSegmentsService } from './announcement-segments.service';
+import { AnnouncementLinksService } from './announcement-links.service';
+import { AnnouncementLinksController } from './announcement-links.controller';
+import { AnalyticsModule } from '../analytics/analytics.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([
       AnnouncementRun,
       AnnouncementDelivery,
+      AnnouncementCampaign,
+      AnnouncementSegment,
+      AnnouncementLink,
       User,
       BotSubscriber,
     ]),
+    AnalyticsModule,
+  ],
+  controllers: [AnnouncementsController, AnnouncementLinksController],
+  providers: [
+    AnnouncementsService,
+    AnnouncementImageService,
+    AnnouncementCampaignsService,
+    AnnouncementSegmentsService,
+    AnnouncementLinksService,
   ],
-  controllers: [AnnouncementsController],
-  providers: [AnnouncementsService, AnnouncementImageService],
 })
 export class AnnouncementsModule {}
@@ -10,8 +10,10 @@ import { Cron } from '@nestjs/schedule';
 import { InjectRepository } from '@nestjs/typeorm';
 import {
   DataSource,
+  EntityManager,
   In,
   LessThan,
+  ObjectLiteral,
   QueryRunner,
   Repository,
   SelectQueryBuilder,
@@ -20,21 +22,74 @@ import { randomUUID } from 'node:crypto';
 import { User } from '../users/entities/user.entity';
 import { BotService } from '../bot/bot.service';
 import { BotSubscriber } from '../bot/entities/bot-subscriber.entity';
+import { Category } from '../products/entities/category.entity';
+import { Ad, AdStatus } from '../products/entities/ad.entity';
+import { collectDescendantIds } from '../products/category-tree.util';
 import {
   AnnouncementDelivery,
   AnnouncementDeliveryStatus,
 } from './entities/announcement-delivery.entity';
 import {
-  AnnouncementKind,
   AnnouncementRun,
   AnnouncementRunStatus,
-  AnnouncementTarget,
 } from './entities/announcement-run.entity';
+import {
+  AnnouncementKind,
+  AnnouncementParseMode,
+  AnnouncementTarget,
+} from './announcement.enums';
+import { AnnouncementSegment } from './entities/announcement-segment.entity';
+import { AnnouncementLink } from './entities/announcement-link.entity';
 import { AnnouncementDeliveryFilter } from './dto/list-announcement-deliveries.dto';
 import { AnnouncementImageService } from './announcement-image.service';
+import {
+  DEFAULT_BROADCAST_TIME_ZONE,
+  QuietHoursWindow,
+  getQuietHoursEnd,
+  isValidTimeZone,
+  isWithinQuietHours,
+  parseQuietHours,
+} from './announcement-schedule.util';
+import {
+  AnnouncementSegmentRules,
+  applySegmentRules,
+  normalizeSegmentRules,
+} from './announcement-segment.util';
+import {
+  AnnouncementTemplateValues,
+  getPlaceholderError,
+  hasPlaceholders,
+  renderAnnouncementTemplate,
+} from './announcement-template.util';
+import {
+  AnnouncementVariant,
+  AnnouncementVariantInput,
+  assignVariant,
+  normalizeVariants,
+} from './announcement-variant.util';
+import {
+  extractTrackableUrls,
+  generateLinkCode,
+  replaceTrackableUrls,
+} from './announcement-link.util';
+import {
+  AnnouncementButton,
+  AnnouncementButtonInput,
+  AnnouncementButtonType,
+  getUnsubscribeCallbackData,
+  groupButtonRows,
+  normalizeButtons,
+} from './announcement-button.util';
+import { NotificationOptOut } from '../bot/entities/notification-opt-out.entity';
+import type { InlineButton } from '../bot/bot.service';
 
 type QueueAnnouncementParams = {
-  message: string;
+  // Ignored when `variants` are given; variant A becomes the run message.
+  message?: string;
+  variants?: AnnouncementVariantInput[] | null;
+  trackLinks?: boolean;
+  buttons?: AnnouncementButtonInput[] | null;
+  parseMode?: AnnouncementParseMode;
   kind?: AnnouncementKind;
   target?: AnnouncementTarget;
   targetUserIds?: number[];
@@ -42,6 +97,27 @@ type QueueAnnouncementParams = {
   limit?: number;
   imageBuffers?: Buffer[];
   imagePaths?: string[];
+  scheduledAt?: Date | null;
+  respectQuietHours?: boolean;
+  campaignId?: number | null;
+  // For segment targets: a saved segment, inline rules, or both when
+  // reposting (the rules snapshot wins, the id is kept for reference).
+  segmentId?: number | null;
+  segmentRules?: AnnouncementSegmentRules | null;
+};
+
+type PreviewMessageParams = {
+  message: string;
+  userId: number;
+  parseMode?: AnnouncementParseMode;
+};
+
+// Tracked link codes keyed by `${variantId}|${url}`.
+type RunLinkCodes = Map<string, string>;
+
+type TemplateRecipient = {
+  userId: number | null;
+  telegramId: string;
 };
 
 type RepostRunParams = {
@@ -68,6 +144,10 @@ const TERMINAL_RUN_STATUSES = [
   AnnouncementRunStatus.CANCELLED,
 ] as const;
 const MAX_ANNOUNCEMENT_IMAGES = 3;
+const MAX_SCHEDULE_AHEAD_DAYS = 365;
+const MAX_CALENDAR_RANGE_DAYS = 62;
+const SEGMENT_PREVIEW_SAMPLE_SIZE = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 @Injectable()
 export class AnnouncementsService implements OnModuleInit {
@@ -86,6 +166,10 @@ export class AnnouncementsService implements OnModuleInit {
   private readonly maxAttempts: number;
   private readonly retentionDays: number;
   private readonly activeSubscriberDays: number;
+  private readonly quietHours: QuietHoursWindow | null;
+  private readonly timeZone: string;
+  private readonly apiPublicUrl: string | null;
+  private readonly storefrontUrl: string | null;
 
   constructor(
     private readonly dataSource: DataSource,
@@ -98,6 +182,10 @@ export class AnnouncementsService implements OnModuleInit {
     private readonly deliveryRepo: Repository<AnnouncementDelivery>,
     @InjectRepository(User)
     private readonly userRepo: Repository<User>,
+    @InjectRepository(AnnouncementSegment)
+    private readonly segmentRepo: Repository<AnnouncementSegment>,
+    @InjectRepository(AnnouncementLink)
+    private readonly linkRepo: Repository<AnnouncementLink>,
   ) {
     this.batchSize = this.normalizeNumber(
       this.configService.get<number>('BROADCAST_BATCH_SIZE'),
@@ -129,6 +217,18 @@ export class AnnouncementsService implements OnModuleInit {
       1,
       365,
     );
+    this.quietHours = parseQuietHours(
+      this.configService.get<string>('BROADCAST_QUIET_HOURS'),
+    );
+    this.timeZone = this.normalizeTimeZone(
+      this.configService.get<string>('BROADCAST_TIME_ZONE'),
+    );
+    this.apiPublicUrl =
+      this.configService.get<string>('API_PUBLIC_URL')?.replace(/\/+$/, '') ||
+      null;
+    this.storefrontUrl =
+      this.configService.get<string>('STOREFRONT_URL')?.replace(/\/+$/, '') ||
+      null;
   }
 
   onModuleInit() {
@@ -138,15 +238,34 @@ export class AnnouncementsService implements OnModuleInit {
   }
 
   async queueAnnouncement(params: QueueAnnouncementParams) {
-    const message = String(params.message ?? '').trim();
+    const variants = this.resolveVariants(params.variants);
+    const message = variants
+      ? variants[0].message
+      : String(params.message ?? '').trim();
     if (!message) {
       throw new BadRequestException('Announcement message is required');
     }
     if (message.length > 4000) {
       throw new BadRequestException('Announcement message exceeds 4000 characters');
     }
+    const templates = variants
+      ? variants.map((variant) => ({
+          variantId: variant.id as string | null,
+          message: variant.message,
+        }))
+      : [{ variantId: null, message }];
+    for (const template of templates) {
+      this.assertKnownPlaceholders(template.message);
+    }
 
+    const parseMode = params.parseMode ?? AnnouncementParseMode.HTML;
     const kind = params.kind ?? AnnouncementKind.ANNOUNCEMENT;
+    const buttons = await this.resolveButtons(params.buttons, kind);
+    const trackLinks = params.trackLinks === true;
+    const trackedLinks = trackLinks
+      ? this.resolveTrackedLinks(templates, parseMode, buttons)
+      : [];
+
     const target = params.target ?? AnnouncementTarget.ALL;
     const normalizedTargetUserIds = this.normalizeTargetUserIds(
       params.targetUserIds,
@@ -157,6 +276,10 @@ export class AnnouncementsService implements OnModuleInit {
         'At least one user is required for user-targeted announcements',
       );
     }
+    const segment =
+      target === AnnouncementTarget.SEGMENT
+        ? await this.resolveSegment(params.segmentId, params.segmentRules)
+        : null;
 
     const requestedByUserId = params.requestedByUserId ?? null;
     const normalizedImagePaths = this.normalizeAnnouncementImagePaths(
@@ -186,6 +309,8 @@ export class AnnouncementsService implements OnModuleInit {
     const effectiveImagePaths =
       uploadedImagePaths.length > 0 ? uploadedImagePaths : normalizedImagePaths;
 
+    const scheduledAt = this.normalizeScheduledAt(params.scheduledAt);
+
     const safeLimit =
       typeof params.limit === 'number' && Number.isFinite(params.limit) && params.limit > 0
         ? Math.min(Math.floor(params.limit), 50_000)
@@ -198,6 +323,10 @@ export class AnnouncementsService implements OnModuleInit {
     try {
       const run = queryRunner.manager.create(AnnouncementRun, {
         message,
+        variants,
+        trackLinks,
+        buttons: buttons.length > 0 ? buttons : null,
+        parseMode,
         imagePaths:
           effectiveImagePaths.length > 0 ? effectiveImagePaths : null,
         kind,
@@ -205,6 +334,13 @@ export class AnnouncementsService implements OnModuleInit {
         targetUserIds:
           normalizedTargetUserIds.length > 0 ? normalizedTargetUserIds : null,
         requestedByUserId,
+        campaignId: params.campaignId ?? null,
+        segmentId: segment?.segmentId ?? null,
+        segmentRules: segment?.rules ?? null,
+        scheduledAt,
+        awaitingRecipients: scheduledAt !== null,
+        recipientLimit: safeLimit ?? null,
+        respectQuietHours: params.respectQuietHours ?? true,
         status: AnnouncementRunStatus.QUEUED,
         totalRecipients: 0,
         pendingCount: 0,
@@ -213,55 +349,21 @@ export class AnnouncementsService implements OnModuleInit {
         unknownCount: 0,
       });
       const savedRun = await queryRunner.manager.save(AnnouncementRun, run);
-
-      const recipients = await this.getRecipients({
-        target,
-        targetUserIds: normalizedTargetUserIds,
-        limit: safeLimit,
-        queryRunner,
-      });
-      const uniqueRecipients = new Map<string, { userId: number | null; telegramId: string }>();
-      for (const recipient of recipients) {
-        const telegramId = String(recipient.telegramId ?? '').trim();
-        if (!telegramId) continue;
-        if (!uniqueRecipients.has(telegramId)) {
-          uniqueRecipients.set(telegramId, {
-            userId: recipient.userId,
-            telegramId,
-          });
-        }
+      if (trackedLinks.length > 0) {
+        await queryRunner.manager.insert(
+          AnnouncementLink,
+          trackedLinks.map((link) => ({ ...link, runId: savedRun.id })),
+        );
       }
 
-      const deliveryRows = Array.from(uniqueRecipients.values()).map((recipient) => ({
-        runId: savedRun.id,
-        userId: recipient.userId,
-        telegramId: recipient.telegramId,
-        status: AnnouncementDeliveryStatus.PENDING,
-        attemptCount: 0,
-        nextAttemptAt: null,
-        lastAttemptAt: null,
-        sentAt: null,
-        telegramMessageId: null,
-        lastError: null,
-        lockToken: null,
-        lockExpiresAt: null,
-      }));
-
-      if (deliveryRows.length > 0) {
-        for (let index = 0; index < deliveryRows.length; index += this.chunkInsertSize) {
-          const chunk = deliveryRows.slice(index, index + this.chunkInsertSize);
-          await queryRunner.manager
-            .createQueryBuilder()
-            .insert()
-            .into(AnnouncementDelivery)
-            .values(chunk)
-            .execute();
-        }
-      }
+      // Scheduled runs build their deliveries once they start sending.
+      const recipientCount = scheduledAt
+        ? 0
+        : await this.insertRunDeliveries(savedRun, queryRunner);
 
-      savedRun.totalRecipients = deliveryRows.length;
-      savedRun.pendingCount = deliveryRows.length;
-      if (deliveryRows.length === 0) {
+      savedRun.totalRecipients = recipientCount;
+      savedRun.pendingCount = recipientCount;
+      if (!scheduledAt && recipientCount === 0) {
         savedRun.status = AnnouncementRunStatus.COMPLETED;
         savedRun.startedAt = new Date();
         savedRun.finishedAt = new Date();
@@ -269,7 +371,7 @@ export class AnnouncementsService implements OnModuleInit {
       await queryRunner.manager.save(AnnouncementRun, savedRun);
       await queryRunner.commitTransaction();
 
-      if (deliveryRows.length > 0) {
+      if (recipientCount > 0) {
         void this.processQueueTick();
       }
 
@@ -282,12 +384,18 @@ export class AnnouncementsService implements OnModuleInit {
     }
   }
 
-  async listRuns(page: number, limit: number) {
-    const [data, total] = await this.runRepo.findAndCount({
-      order: { createdAt: 'DESC' },
-      skip: (page - 1) * limit,
-      take: limit,
-    });
+  async listRuns(page: number, limit: number, campaignId?: number) {
+    const qb = this.runRepo
+      .createQueryBuilder('run')
+      .leftJoin('run.campaign', 'campaign')
+      .addSelect(['campaign.id', 'campaign.name'])
+      .orderBy('run.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+    if (campaignId !== undefined) {
+      qb.where('run.campaignId = :campaignId', { campaignId });
+    }
+    const [data, total] = await qb.getManyAndCount();
     return { data, total };
   }
 
@@ -301,6 +409,83 @@ export class AnnouncementsService implements OnModuleInit {
     return { ...run, deliverySummary };
   }
 
+  /** Delivery and click-through numbers per A/B variant, or for the whole run. */
+  async getRunVariantReport(id: number) {
+    const run = await this.runRepo.findOne({ where: { id } });
+    if (!run) {
+      throw new NotFoundException('Announcement run not found');
+    }
+
+    const rows = await this.deliveryRepo
+      .createQueryBuilder('delivery')
+      .select('delivery.variantId', 'variantId')
+      .addSelect('COUNT(delivery.id)', 'recipients')
+      .addSelect(
+        'SUM(CASE WHEN delivery.status = :sentStatus THEN 1 ELSE 0 END)',
+        'sent',
+      )
+      .addSelect(
+        'SUM(CASE WHEN delivery.status IN (:...failedStatuses) THEN 1 ELSE 0 END)',
+        'failed',
+      )
+      .addSelect(
+        'SUM(CASE WHEN delivery.firstClickedAt IS NOT NULL THEN 1 ELSE 0 END)',
+        'clickedRecipients',
+      )
+      .addSelect('COALESCE(SUM(delivery.clickCount), 0)', 'clicks')
+      .where('delivery.runId = :runId', { runId: id })
+      .setParameters({
+        sentStatus: AnnouncementDeliveryStatus.SENT,
+        failedStatuses: [
+          AnnouncementDeliveryStatus.FAILED_PERMANENT,
+          AnnouncementDeliveryStatus.UNKNOWN,
+        ],
+      })
+      .groupBy('delivery.variantId')
+      .getRawMany<{
+        variantId: string | null;
+        recipients: string;
+        sent: string | null;
+        failed: string | null;
+        clickedRecipients: string | null;
+        clicks: string | null;
+      }>();
+    const rowsByVariant = new Map(
+      rows.map((row) => [row.variantId ?? '', row]),
+    );
+    const toCount = (value?: string | null) =>
+      Number.parseInt(value ?? '0', 10) || 0;
+
+    const variants: { id: string | null; message: string; weight: number }[] =
+      run.variants ?? [{ id: null, message: run.message, weight: 1 }];
+    const totalWeight = variants.reduce(
+      (sum, variant) => sum + variant.weight,
+      0,
+    );
+    return {
+      runId: run.id,
+      trackLinks: run.trackLinks,
+      variants: variants.map((variant) => {
+        const row = rowsByVariant.get(variant.id ?? '');
+        const sent = toCount(row?.sent);
+        const clickedRecipients = toCount(row?.clickedRecipients);
+        return {
+          variantId: variant.id,
+          message: variant.message,
+          weight: variant.weight,
+          sharePercent: Math.round((variant.weight / totalWeight) * 100),
+          recipients: toCount(row?.recipients),
+          sent,
+          failed: toCount(row?.failed),
+          clicks: toCount(row?.clicks),
+          clickedRecipients,
+          clickThroughRate:
+            sent > 0 ? Math.round((clickedRecipients / sent) * 1000) / 10 : 0,
+        };
+      }),
+    };
+  }
+
   async listRunDeliveries(params: ListRunDeliveriesParams) {
     const run = await this.runRepo.findOne({ where: { id: params.runId } });
     if (!run) {
@@ -392,6 +577,55 @@ export class AnnouncementsService implements OnModuleInit {
     return { data, total };
   }
 
+  /** Counts reachable users in a segment and returns a few of them. */
+  async previewSegment(rules: AnnouncementSegmentRules) {
+    const qb = this.userRepo
+      .createQueryBuilder('user')
+      .select(['user.id', 'user.firstName', 'user.username'])
+      .where('user.telegramId IS NOT NULL')
+      .andWhere("TRIM(COALESCE(user.telegramId, '')) != ''");
+    await this.applySegment(qb, rules, this.dataSource.manager);
+
+    const [sample, count] = await qb
+      .orderBy('user.id', 'ASC')
+      .take(SEGMENT_PREVIEW_SAMPLE_SIZE)
+      .getManyAndCount();
+    return { count, sample };
+  }
+
+  /** Renders a message the way `sendDelivery` would for one user. */
+  async previewMessage(params: PreviewMessageParams) {
+    const message = String(params.message ?? '').trim();
+    if (!message) {
+      throw new BadRequestException('Announcement message is required');
+    }
+    this.assertKnownPlaceholders(message);
+
+    const user = await this.userRepo.findOne({
+      where: { id: params.userId },
+      select: { id: true, telegramId: true },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const parseMode = params.parseMode ?? AnnouncementParseMode.HTML;
+    const telegramId = String(user.telegramId ?? '');
+    const values = await this.loadTemplateValues([
+      { userId: user.id, telegramId },
+    ]);
+    return {
+      userId: user.id,
+      parseMode,
+      values: values.get(telegramId) ?? {},
+      rendered: renderAnnouncementTemplate(
+        message,
+        values.get(telegramId) ?? {},
+        parseMode,
+      ),
+    };
+  }
+
   async repostRun(params: RepostRunParams) {
     const run = await this.runRepo.findOne({ where: { id: params.runId } });
     if (!run) {
@@ -400,14 +634,93 @@ export class AnnouncementsService implements OnModuleInit {
 
     return this.queueAnnouncement({
       message: run.message,
+      variants: run.variants,
+      trackLinks: run.trackLinks,
+      buttons: run.buttons,
+      parseMode: run.parseMode,
       imagePaths: run.imagePaths ?? undefined,
       kind: run.kind,
       target: run.target,
       targetUserIds: run.targetUserIds ?? undefined,
+      segmentId: run.segmentId,
+      segmentRules: run.segmentRules,
       requestedByUserId: params.requestedByUserId,
+      respectQuietHours: run.respectQuietHours,
     });
   }
 
+  async rescheduleRun(id: number, scheduledAt: Date | null) {
+    const run = await this.runRepo.findOne({ where: { id } });
+    if (!run) {
+      throw new NotFoundException('Announcement run not found');
+    }
+    if (run.status !== AnnouncementRunStatus.QUEUED || run.startedAt) {
+      throw new BadRequestException(
+        'Only announcements that have not started sending can be rescheduled',
+      );
+    }
+
+    const nextScheduledAt = this.normalizeScheduledAt(scheduledAt);
+    const result = await this.runRepo
+      .createQueryBuilder()
+      .update(AnnouncementRun)
+      .set({ scheduledAt: nextScheduledAt })
+      .where('id = :id', { id })
+      .andWhere('status = :status', { status: AnnouncementRunStatus.QUEUED })
+      .andWhere('startedAt IS NULL')
+      .execute();
+    if ((result.affected ?? 0) === 0) {
+      throw new BadRequestException(
+        'Announcement started sending before it could be rescheduled',
+      );
+    }
+
+    if (!nextScheduledAt) {
+      void this.processQueueTick();
+    }
+    return this.runRepo.findOneOrFail({ where: { id } });
+  }
+
+  async listCalendar(from: Date, to: Date) {
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      throw new BadRequestException('Invalid calendar range');
+    }
+    if (to <= from) {
+      throw new BadRequestException(
+        'Calendar range end must be after its start',
+      );
+    }
+    if (to.getTime() - from.getTime() > MAX_CALENDAR_RANGE_DAYS * DAY_MS) {
+      throw new BadRequestException(
+        `Calendar range cannot exceed ${MAX_CALENDAR_RANGE_DAYS} days`,
+      );
+    }
+
+    return this.runRepo
+      .createQueryBuilder('run')
+      .where('COALESCE(run.scheduledAt, run.createdAt) >= :from', { from })
+      .andWhere('COALESCE(run.scheduledAt, run.createdAt) < :to', { to })
+      .orderBy('COALESCE(run.scheduledAt, run.createdAt)', 'ASC')
+      .addOrderBy('run.id', 'ASC')
+      .getMany();
+  }
+
+  getScheduleSettings() {
+    const now = new Date();
+    const quietHoursActive = this.isQuietHoursActive(now);
+    return {
+      timeZone: this.timeZone,
+      quietHours: this.quietHours
+        ? { start: this.quietHours.start, end: this.quietHours.end }
+        : null,
+      quietHoursActive,
+      quietHoursEndsAt:
+        quietHoursActive && this.quietHours
+          ? getQuietHoursEnd(now, this.quietHours, this.timeZone)
+          : null,
+    };
+  }
+
   async deleteRun(id: number) {
     const run = await this.runRepo.findOne({ where: { id } });
     if (!run) {
@@ -586,7 +899,22 @@ export class AnnouncementsService implements OnModuleInit {
   }
 
   private async processClaimedRun(run: AnnouncementRun, lockToken: string) {
+    if (run.awaitingRecipients) {
+      const queued = await this.queueScheduledRunDeliveries(run, lockToken);
+      if (!queued) return;
+    }
+
+    let pausedForQuietHours = false;
+    const usesPlaceholders = this.getRunMessages(run).some(hasPlaceholders);
+    const linkCodes = run.trackLinks
+      ? await this.loadRunLinkCodes(run.id)
+      : null;
     for (let batch = 0; batch < this.maxBatchesPerTick; batch += 1) {
+      if (run.respectQuietHours && this.isQuietHoursActive(new Date())) {
+        pausedForQuietHours = true;
+        break;
+      }
+
       const stillLocked = await this.renewRunLock(run.id, lockToken);
       if (!stillLocked) {
         return;
@@ -597,16 +925,130 @@ export class AnnouncementsService implements OnModuleInit {
         break;
       }
 
+      const templateValues = usesPlaceholders
+        ? await this.loadTemplateValues(claimedDeliveries)
+        : null;
+
       await this.processWithConcurrency(
         claimedDeliveries,
         this.concurrency,
-        async (delivery) => this.sendDelivery(run, delivery, lockToken),
+        async (delivery) =>
+          this.sendDelivery(
+            run,
+            delivery,
+            lockToken,
+            templateValues?.get(delivery.telegramId),
+            linkCodes,
+          ),
       );
     }
 
     await this.markRunStaleProcessingAsUnknown(run.id);
     await this.refreshRunCounters(run.id);
     await this.finalizeRunIfComplete(run.id, lockToken);
+    if (pausedForQuietHours) {
+      // Let the run be picked up again as soon as quiet hours end.
+      await this.releaseRunLock(run.id, lockToken);
+    }
+  }
+
+  /** Snapshots the run's audience into pending deliveries; returns how many. */
+  private async insertRunDeliveries(
+    run: AnnouncementRun,
+    queryRunner: QueryRunner,
+  ) {
+    const recipients = await this.getRecipients({
+      target: run.target,
+      kind: run.kind,
+      targetUserIds: run.targetUserIds ?? [],
+      segmentRules: run.segmentRules,
+      limit: run.recipientLimit ?? undefined,
+      queryRunner,
+    });
+    const uniqueRecipients = new Map<string, { userId: number | null; telegramId: string }>();
+    for (const recipient of recipients) {
+      const telegramId = String(recipient.telegramId ?? '').trim();
+      if (!telegramId) continue;
+      if (!uniqueRecipients.has(telegramId)) {
+        uniqueRecipients.set(telegramId, {
+          userId: recipient.userId,
+          telegramId,
+        });
+      }
+    }
+
+    const deliveryRows = Array.from(uniqueRecipients.values()).map((recipient) => ({
+      runId: run.id,
+      userId: recipient.userId,
+      telegramId: recipient.telegramId,
+      variantId: this.assignVariantId(run.variants, run.id, recipient),
+      status: AnnouncementDeliveryStatus.PENDING,
+      attemptCount: 0,
+      nextAttemptAt: null,
+      lastAttemptAt: null,
+      sentAt: null,
+      telegramMessageId: null,
+      lastError: null,
+      lockToken: null,
+      lockExpiresAt: null,
+    }));
+
+    if (deliveryRows.length > 0) {
+      for (let index = 0; index < deliveryRows.length; index += this.chunkInsertSize) {
+        const chunk = deliveryRows.slice(index, index + this.chunkInsertSize);
+        await queryRunner.manager
+          .createQueryBuilder()
+          .insert()
+          .into(AnnouncementDelivery)
+          .values(chunk)
+          .execute();
+      }
+    }
+
+    return deliveryRows.length;
+  }
+
+  /**
+   * Builds the deliveries of a scheduled run that just started. Returns false
+   * when the run lock was lost before the deliveries could be saved.
+   */
+  private async queueScheduledRunDeliveries(
+    run: AnnouncementRun,
+    lockToken: string,
+  ) {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+    try {
+      const recipientCount = await this.insertRunDeliveries(run, queryRunner);
+      const result = await queryRunner.manager
+        .createQueryBuilder()
+        .update(AnnouncementRun)
+        .set({
+          awaitingRecipients: false,
+          totalRecipients: recipientCount,
+          pendingCount: recipientCount,
+        })
+        .where('id = :id', { id: run.id })
+        .andWhere('lockToken = :lockToken', { lockToken })
+        .andWhere('awaitingRecipients = :awaitingRecipients', {
+          awaitingRecipients: true,
+        })
+        .execute();
+      if ((result.affected ?? 0) === 0) {
+        await queryRunner.rollbackTransaction();
+        return false;
+      }
+
+      await queryRunner.commitTransaction();
+      run.awaitingRecipients = false;
+      return true;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
   }
 
   private async finalizeRunIfComplete(runId: number, lockToken: string) {
@@ -650,17 +1092,26 @@ export class AnnouncementsService implements OnModuleInit {
 
   private async claimNextRun(): Promise<{ run: AnnouncementRun; lockToken: string } | null> {
     const now = new Date();
-    const candidate = await this.runRepo
+    const candidateQuery = this.runRepo
       .createQueryBuilder('run')
       .where('run.status IN (:...statuses)', {
         statuses: [AnnouncementRunStatus.QUEUED, AnnouncementRunStatus.RUNNING],
       })
       .andWhere('(run.lockExpiresAt IS NULL OR run.lockExpiresAt < :now)', { now })
+      .andWhere('(run.scheduledAt IS NULL OR run.scheduledAt <= :now)', {
+        now,
+      });
+    if (this.isQuietHoursActive(now)) {
+      candidateQuery.andWhere('run.respectQuietHours = :respectQuietHours', {
+        respectQuietHours: false,
+      });
+    }
+    const candidate = await candidateQuery
       .orderBy(
         "CASE WHEN run.status = 'QUEUED' THEN 0 ELSE 1 END",
         'ASC',
       )
-      .addOrderBy('run.createdAt', 'ASC')
+      .addOrderBy('COALESCE(run.scheduledAt, run.createdAt)', 'ASC')
       .getOne();
 
     if (!candidate) return null;
@@ -792,12 +1243,22 @@ export class AnnouncementsService implements OnModuleInit {
     run: AnnouncementRun,
     delivery: AnnouncementDelivery,
     lockToken: string,
+    templateValues?: AnnouncementTemplateValues,
+    linkCodes?: RunLinkCodes | null,
   ) {
     try {
+      const message = this.buildDeliveryMessage(
+        run,
+        delivery,
+        templateValues,
+        linkCodes,
+      );
       const response = await this.botService.sendAnnouncementMessage(
         delivery.telegramId,
-        run.message,
+        message,
         run.imagePaths ?? undefined,
+        run.parseMode,
+        this.buildDeliveryButtons(run, delivery, linkCodes),
       );
 
       await this.deliveryRepo
@@ -1055,6 +1516,325 @@ export class AnnouncementsService implements OnModuleInit {
     }
   }
 
+  private assertKnownPlaceholders(message: string) {
+    const placeholderError = getPlaceholderError(message);
+    if (placeholderError) {
+      throw new BadRequestException(placeholderError);
+    }
+  }
+
+  private resolveVariants(
+    variants?: AnnouncementVariantInput[] | null,
+  ): AnnouncementVariant[] | null {
+    if (!variants || variants.length === 0) return null;
+    const parsed = normalizeVariants(variants);
+    if ('error' in parsed) {
+      throw new BadRequestException(parsed.error);
+    }
+    return parsed.variants;
+  }
+
+  /**
+   * Validates button targets and snapshots the storefront URL of ad and
+   * category buttons, so later edits to the ad don't change a queued run.
+   */
+  private async resolveButtons(
+    raw: AnnouncementButtonInput[] | null | undefined,
+    kind: AnnouncementKind,
+  ): Promise<AnnouncementButton[]> {
+    const parsed = normalizeButtons(raw, kind);
+    if ('error' in parsed) {
+      throw new BadRequestException(parsed.error);
+    }
+
+    const storefrontUrl = this.storefrontUrl;
+    const needsStorefront = parsed.buttons.some(
+      (button) =>
+        button.type === AnnouncementButtonType.AD ||
+        button.type === AnnouncementButtonType.CATEGORY,
+    );
+    if (needsStorefront && !storefrontUrl) {
+      throw new BadRequestException(
+        'Ad and category buttons require STOREFRONT_URL to be configured',
+      );
+    }
+
+    const adIds = parsed.buttons.flatMap((button) =>
+      button.adId !== undefined ? [button.adId] : [],
+    );
+    const categoryIds = parsed.buttons.flatMap((button) =>
+      button.categoryId !== undefined ? [button.categoryId] : [],
+    );
+    const [ads, categories] = await Promise.all([
+      adIds.length > 0
+        ? this.dataSource.getRepository(Ad).find({
+            select: { id: true },
+            where: {
+              id: In(adIds),
+              status: AdStatus.APPROVED,
+              isActive: true,
+            },
+          })
+        : ([] as Ad[]),
+      categoryIds.length > 0
+        ? this.dataSource.getRepository(Category).find({
+            select: { id: true },
+            where: { id: In(categoryIds) },
+          })
+        : ([] as Category[]),
+    ]);
+    const liveAdIds = new Set(ads.map((ad) => ad.id));
+    const knownCategoryIds = new Set(categories.map((category) => category.id));
+
+    return parsed.buttons.map((button) => {
+      if (button.adId !== undefined) {
+        if (!liveAdIds.has(button.adId)) {
+          throw new BadRequestException(
+            `Ad #${button.adId} is not approved or no longer exists`,
+          );
+        }
+        return {
+          ...button,
+          url: `${storefrontUrl}/?ad=${button.adId}#collection`,
+        };
+      }
+      if (button.categoryId !== undefined) {
+        if (!knownCategoryIds.has(button.categoryId)) {
+          throw new BadRequestException(
+            `Category #${button.categoryId} not found`,
+          );
+        }
+        return {
+          ...button,
+          url: `${storefrontUrl}/?categoryIds=${button.categoryId}#collection`,
+        };
+      }
+      return button;
+    });
+  }
+
+  /** Builds one short link per distinct URL in each variant and button. */
+  private resolveTrackedLinks(
+    templates: { variantId: string | null; message: string }[],
+    parseMode: AnnouncementParseMode,
+    buttons: AnnouncementButton[],
+  ) {
+    if (!this.apiPublicUrl) {
+      throw new BadRequestException(
+        'Link tracking requires API_PUBLIC_URL to be configured',
+      );
+    }
+    const buttonUrls = buttons.flatMap((button) =>
+      button.url ? [button.url] : [],
+    );
+    const links = templates.flatMap((template) =>
+      [
+        ...new Set([
+          ...extractTrackableUrls(template.message, parseMode),
+          ...buttonUrls,
+        ]),
+      ].map((url) => ({
+        variantId: template.variantId,
+        url,
+        code: generateLinkCode(),
+      })),
+    );
+    if (links.length === 0) {
+      throw new BadRequestException(
+        'Link tracking needs at least one http(s) link in the message',
+      );
+    }
+    return links;
+  }
+
+  private assignVariantId(
+    variants: AnnouncementVariant[] | null,
+    runId: number,
+    recipient: TemplateRecipient,
+  ) {
+    return variants
+      ? assignVariant(variants, `${runId}:${recipient.telegramId}`).id
+      : null;
+  }
+
+  private getRunMessages(run: AnnouncementRun) {
+    return run.variants?.map((variant) => variant.message) ?? [run.message];
+  }
+
+  private async loadRunLinkCodes(runId: number): Promise<RunLinkCodes> {
+    const links = await this.linkRepo.find({ where: { runId } });
+    return new Map(
+      links.map((link) => [`${link.variantId ?? ''}|${link.url}`, link.code]),
+    );
+  }
+
+  /** Picks the delivery's variant, swaps in tracked links, then fills placeholders. */
+  private buildDeliveryMessage(
+    run: AnnouncementRun,
+    delivery: AnnouncementDelivery,
+    templateValues?: AnnouncementTemplateValues,
+    linkCodes?: RunLinkCodes | null,
+  ) {
+    let message =
+      run.variants?.find((variant) => variant.id === delivery.variantId)
+        ?.message ?? run.message;
+
+    const apiPublicUrl = this.apiPublicUrl;
+    if (linkCodes && linkCodes.size > 0 && apiPublicUrl) {
+      message = replaceTrackableUrls(message, run.parseMode, (url) =>
+        this.getTrackedUrl(delivery, url, linkCodes),
+      );
+    }
+
+    return templateValues
+      ? renderAnnouncementTemplate(message, templateValues, run.parseMode)
+      : message;
+  }
+
+  private buildDeliveryButtons(
+    run: AnnouncementRun,
+    delivery: AnnouncementDelivery,
+    linkCodes?: RunLinkCodes | null,
+  ): InlineButton[][] | undefined {
+    if (!run.buttons || run.buttons.length === 0) return undefined;
+    return groupButtonRows<InlineButton>(run.buttons, (button) =>
+      button.type === AnnouncementButtonType.UNSUBSCRIBE
+        ? {
+            text: button.text,
+            callbackData: getUnsubscribeCallbackData(run.kind),
+          }
+        : {
+            text: button.text,
+            url:
+              this.getTrackedUrl(delivery, button.url ?? '', linkCodes) ??
+              button.url ??
+              '',
+          },
+    );
+  }
+
+  private getTrackedUrl(
+    delivery: AnnouncementDelivery,
+    url: string,
+    linkCodes?: RunLinkCodes | null,
+  ) {
+    const code = linkCodes?.get(`${delivery.variantId ?? ''}|${url}`);
+    return code && this.apiPublicUrl
+      ? `${this.apiPublicUrl}/v1/l/${code}?r=${delivery.id}`
+      : null;
+  }
+
+  /** Loads placeholder values for a batch of recipients, keyed by telegramId. */
+  private async loadTemplateValues(recipients: TemplateRecipient[]) {
+    const userIds = [
+      ...new Set(
+        recipients
+          .map((recipient) => recipient.userId)
+          .filter((userId): userId is number => typeof userId === 'number'),
+      ),
+    ];
+    const guestTelegramIds = recipients
+      .filter((recipient) => recipient.userId === null)
+      .map((recipient) => recipient.telegramId);
+
+    const [users, pendingRows, subscribers] = await Promise.all([
+      userIds.length > 0
+        ? this.userRepo.find({
+            where: { id: In(userIds) },
+            select: { id: true, firstName: true, loyaltyPoints: true },
+          })
+        : Promise.resolve([]),
+      userIds.length > 0
+        ? this.dataSource
+            .getRepository(Ad)
+            .createQueryBuilder('ad')
+            .select('ad.merchantId', 'merchantId')
+            .addSelect('COUNT(*)', 'pendingCount')
+            .where('ad.merchantId IN (:...userIds)', { userIds })
+            .andWhere('ad.status = :status', { status: AdStatus.PENDING })
+            .andWhere('ad.archivedAt IS NULL')
+            .groupBy('ad.merchantId')
+            .getRawMany<{ merchantId: number; pendingCount: string }>()
+        : Promise.resolve([]),
+      guestTelegramIds.length > 0
+        ? this.dataSource.getRepository(BotSubscriber).find({
+            where: { telegramId: In(guestTelegramIds) },
+            select: { telegramId: true, firstName: true },
+          })
+        : Promise.resolve([]),
+    ]);
+
+    const usersById = new Map(users.map((user) => [user.id, user]));
+    const pendingByUserId = new Map(
+      pendingRows.map((row) => [
+        Number(row.merchantId),
+        Number(row.pendingCount),
+      ]),
+    );
+    const subscriberNames = new Map(
+      subscribers.map((subscriber) => [
+        subscriber.telegramId,
+        subscriber.firstName,
+      ]),
+    );
+    const dashboardUrl = this.botService.getDashboardUrl();
+
+    const values = new Map<string, AnnouncementTemplateValues>();
+    for (const recipient of recipients) {
+      const user =
+        recipient.userId !== null ? usersById.get(recipient.userId) : undefined;
+      values.set(recipient.telegramId, {
+        firstName:
+          user?.firstName ?? subscriberNames.get(recipient.telegramId) ?? null,
+        loyaltyPoints: user ? user.loyaltyPoints : null,
+        pendingAdsCount: user ? (pendingByUserId.get(user.id) ?? 0) : null,
+        dashboardUrl,
+      });
+    }
+    return values;
+  }
+
+  private async resolveSegment(
+    segmentId?: number | null,
+    segmentRules?: AnnouncementSegmentRules | null,
+  ) {
+    if (segmentRules) {
+      const parsed = normalizeSegmentRules(segmentRules);
+      if ('error' in parsed) {
+        throw new BadRequestException(parsed.error);
+      }
+      return { segmentId: segmentId ?? null, rules: parsed.rules };
+    }
+    if (!segmentId) {
+      throw new BadRequestException(
+        'A saved segment or segment rules are required for segment-targeted announcements',
+      );
+    }
+
+    const segment = await this.segmentRepo.findOne({
+      where: { id: segmentId },
+    });
+    if (!segment) {
+      throw new NotFoundException('Announcement segment not found');
+    }
+    return { segmentId: segment.id, rules: segment.rules };
+  }
+
+  private async applySegment(
+    qb: SelectQueryBuilder<User>,
+    rules: AnnouncementSegmentRules,
+    manager: EntityManager,
+  ) {
+    let categoryIds = rules.categoryIds;
+    if (categoryIds && categoryIds.length > 0) {
+      const categories = await manager.getRepository(Category).find({
+        select: { id: true, parentId: true },
+      });
+      categoryIds = collectDescendantIds(categories, categoryIds);
+    }
+    return applySegmentRules(qb, { ...rules, categoryIds });
+  }
+
   private normalizeTargetUserIds(userIds?: number[]): number[] {
     if (!Array.isArray(userIds)) {
       return [];
@@ -1077,7 +1857,9 @@ export class AnnouncementsService implements OnModuleInit {
 
   private async getRecipients(params: {
     target: AnnouncementTarget;
+    kind: AnnouncementKind;
     targetUserIds: number[];
+    segmentRules: AnnouncementSegmentRules | null;
     limit: number | undefined;
     queryRunner: QueryRunner;
   }) {
@@ -1093,6 +1875,11 @@ export class AnnouncementsService implements OnModuleInit {
         .leftJoin(User, 'user', 'user.telegramId = subscriber.telegramId')
         .where('subscriber.isActive = :isActive', { isActive: true })
         .orderBy('subscriber.id', 'ASC');
+      this.excludeMutedSubscribers(
+        subscriberQb,
+        'subscriber.telegramId',
+        params.kind,
+      );
 
       if (params.target === AnnouncementTarget.ACTIVE_BOT_SUBSCRIBERS) {
         const cutoff = new Date(
@@ -1126,6 +1913,7 @@ export class AnnouncementsService implements OnModuleInit {
       .addSelect('user.telegramId', 'telegramId')
       .where('user.telegramId IS NOT NULL')
       .andWhere("TRIM(COALESCE(user.telegramId, '')) != ''");
+    this.excludeMutedSubscribers(userQb, 'user.telegramId', params.kind);
 
     if (params.target === AnnouncementTarget.USERS) {
       if (params.targetUserIds.length === 0) {
@@ -1135,6 +1923,16 @@ export class AnnouncementsService implements OnModuleInit {
         targetUserIds: params.targetUserIds,
       });
     }
+    if (params.target === AnnouncementTarget.SEGMENT) {
+      if (!params.segmentRules) {
+        return [];
+      }
+      await this.applySegment(
+        userQb,
+        params.segmentRules,
+        params.queryRunner.manager,
+      );
+    }
 
     userQb.orderBy('user.id', 'ASC');
     if (params.limit !== undefined) {
@@ -1155,6 +1953,22 @@ export class AnnouncementsService implements OnModuleInit {
     }));
   }
 
+  /** Skips people who turned this kind off in their notification settings. */
+  private excludeMutedSubscribers<T extends ObjectLiteral>(
+    qb: SelectQueryBuilder<T>,
+    telegramIdColumn: string,
+    kind: AnnouncementKind,
+  ) {
+    const mutedQuery = qb
+      .subQuery()
+      .select('1')
+      .from(NotificationOptOut, 'optOut')
+      .where(`optOut.telegramId = ${telegramIdColumn}`)
+      .andWhere('optOut.type = :mutedKind')
+      .getQuery();
+    qb.andWhere(`NOT EXISTS ${mutedQuery}`, { mutedKind: kind });
+  }
+
   private async processWithConcurrency<T>(
     items: T[],
     concurrency: number,
@@ -1181,6 +1995,39 @@ export class AnnouncementsService implements OnModuleInit {
     return Math.min(Math.max(Math.floor(value as number), min), max);
   }
 
+  private normalizeScheduledAt(value?: Date | null): Date | null {
+    if (!value) return null;
+    if (Number.isNaN(value.getTime())) {
+      throw new BadRequestException('Invalid schedule time');
+    }
+    const now = Date.now();
+    if (value.getTime() <= now) {
+      throw new BadRequestException('Scheduled time must be in the future');
+    }
+    if (value.getTime() > now + MAX_SCHEDULE_AHEAD_DAYS * DAY_MS) {
+      throw new BadRequestException(
+        `Announcements can be scheduled at most ${MAX_SCHEDULE_AHEAD_DAYS} days ahead`,
+      );
+    }
+    return value;
+  }
+
+  private normalizeTimeZone(value?: string): string {
+    const timeZone = String(value ?? '').trim();
+    if (!timeZone) return DEFAULT_BROADCAST_TIME_ZONE;
+    if (isValidTimeZone(timeZone)) return timeZone;
+    this.logger.warn(
+      `Unknown BROADCAST_TIME_ZONE "${timeZone}", using ${DEFAULT_BROADCAST_TIME_ZONE}`,
+    );
+    return DEFAULT_BROADCAST_TIME_ZONE;
+  }
+
+  private isQuietHoursActive(date: Date): boolean {
+    return this.quietHours
+      ? isWithinQuietHours(date, this.quietHours, this.timeZone)
+      : false;
+  }
+
   private normalizeAnnouncementImagePaths(imagePaths?: string[]): string[] {
     if (!Array.isArray(imagePaths)) return [];
     const normalized = imagePaths
@@ -0,0 +1,52 @@
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { AnnouncementButtonType } from '../announcement-button.util';
+
+export class AnnouncementButtonDto {
+  @IsEnum(AnnouncementButtonType)
+  type: AnnouncementButtonType;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  text: string;
+
+  @ValidateIf(
+    (dto: AnnouncementButtonDto) => dto.type === AnnouncementButtonType.URL,
+  )
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  @MaxLength(2048)
+  url?: string;
+
+  @ValidateIf(
+    (dto: AnnouncementButtonDto) => dto.type === AnnouncementButtonType.AD,
+  )
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  adId?: number;
+
+  @ValidateIf(
+    (dto: AnnouncementButtonDto) =>
+      dto.type === AnnouncementButtonType.CATEGORY,
+  )
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  categoryId?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  sameRow?: boolean;
+}
@@ -0,0 +1,22 @@
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class AnnouncementVariantDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4000)
+  message: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  weight: number;
+}
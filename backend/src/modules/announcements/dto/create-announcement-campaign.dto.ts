@@ -0,0 +1,74 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { AnnouncementKind, AnnouncementTarget } from '../announcement.enums';
+
+export class CreateAnnouncementCampaignDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  scheduleRule: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  timeZone?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4000)
+  message: string;
+
+  @IsOptional()
+  @IsEnum(AnnouncementKind)
+  kind?: AnnouncementKind;
+
+  @IsOptional()
+  @IsEnum(AnnouncementTarget)
+  target?: AnnouncementTarget;
+
+  @ValidateIf(
+    (dto: CreateAnnouncementCampaignDto) =>
+      dto.target === AnnouncementTarget.USERS,
+  )
+  @IsArray()
+  @ArrayUnique()
+  @ArrayMaxSize(5000)
+  @Type(() => Number)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  userIds?: number[];
+
+  @ValidateIf(
+    (dto: CreateAnnouncementCampaignDto) =>
+      dto.target === AnnouncementTarget.SEGMENT,
+  )
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  segmentId?: number;
+
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim().toLowerCase() === 'true' : value,
+  )
+  @IsBoolean()
+  respectQuietHours?: boolean;
+}
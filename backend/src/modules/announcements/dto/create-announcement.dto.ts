@@ -1,8 +1,11 @@
-import { Type } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
 import {
   ArrayMaxSize,
+  ArrayMinSize,
   ArrayUnique,
   IsArray,
+  IsBoolean,
+  IsDateString,
   IsEnum,
   IsInt,
   IsNotEmpty,
@@ -11,18 +14,52 @@ import {
   MaxLength,
   Min,
   ValidateIf,
+  ValidateNested,
 } from 'class-validator';
 import {
   AnnouncementKind,
+  AnnouncementParseMode,
   AnnouncementTarget,
-} from '../entities/announcement-run.entity';
+} from '../announcement.enums';
+import { AnnouncementSegmentRulesDto } from './announcement-segment-rules.dto';
+import { AnnouncementVariantDto } from './announcement-variant.dto';
+import { AnnouncementButtonDto } from './announcement-button.dto';
 
 export class CreateAnnouncementDto {
+  @ValidateIf((dto: CreateAnnouncementDto) => !dto.variants?.length)
   @IsString()
   @IsNotEmpty()
   @MaxLength(4000)
   message: string;
 
+  // A/B test: replaces `message`, recipients are split by weight.
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(4)
+  @ValidateNested({ each: true })
+  @Type(() => AnnouncementVariantDto)
+  variants?: AnnouncementVariantDto[];
+
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim().toLowerCase() === 'true' : value,
+  )
+  @IsBoolean()
+  trackLinks?: boolean;
+
+  // Inline keyboard rows; see normalizeButtons for per-row limits.
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(6)
+  @ValidateNested({ each: true })
+  @Type(() => AnnouncementButtonDto)
+  buttons?: AnnouncementButtonDto[];
+
+  @IsOptional()
+  @IsEnum(AnnouncementParseMode)
+  parseMode?: AnnouncementParseMode;
+
   @IsOptional()
   @IsEnum(AnnouncementKind)
   kind?: AnnouncementKind;
@@ -41,5 +78,30 @@ export class CreateAnnouncementDto {
   @IsInt({ each: true })
   @Min(1, { each: true })
   userIds?: number[];
-}
 
+  @ValidateIf(
+    (dto: CreateAnnouncementDto) =>
+      dto.target === AnnouncementTarget.SEGMENT && !dto.segmentRules,
+  )
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  segmentId?: number;
+
+  // Ad-hoc rules used instead of a saved segment.
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AnnouncementSegmentRulesDto)
+  segmentRules?: AnnouncementSegmentRulesDto;
+
+  @IsOptional()
+  @IsDateString()
+  scheduledAt?: string;
+
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim().toLowerCase() === 'true' : value,
+  )
+  @IsBoolean()
+  respectQuietHours?: boolean;
+}
@@ -0,0 +1,27 @@
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { AnnouncementParseMode } from '../announcement.enums';
+
+export class PreviewAnnouncementMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4000)
+  message: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  userId: number;
+
+  @IsOptional()
+  @IsEnum(AnnouncementParseMode)
+  parseMode?: AnnouncementParseMode;
+}
@@ -0,0 +1,10 @@
+import { Type } from 'class-transformer';
+import { IsObject, ValidateNested } from 'class-validator';
+import { AnnouncementSegmentRulesDto } from './announcement-segment-rules.dto';
+
+export class PreviewAnnouncementSegmentDto {
+  @IsObject()
+  @ValidateNested()
+  @Type(() => AnnouncementSegmentRulesDto)
+  rules: AnnouncementSegmentRulesDto;
+}
@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class PreviewCampaignScheduleDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  scheduleRule: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  timeZone?: string;
+}
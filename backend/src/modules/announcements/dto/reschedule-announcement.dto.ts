@@ -0,0 +1,8 @@
+import { IsDateString, IsOptional } from 'class-validator';
+
+export class RescheduleAnnouncementDto {
+  // Omit or send null to release the run right away.
+  @IsOptional()
+  @IsDateString()
+  scheduledAt?: string | null;
+}
@@ -0,0 +1,21 @@
+import { Type } from 'class-transformer';
+import {
+  IsNotEmpty,
+  IsObject,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { AnnouncementSegmentRulesDto } from './announcement-segment-rules.dto';
+
+export class SaveAnnouncementSegmentDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name: string;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => AnnouncementSegmentRulesDto)
+  rules: AnnouncementSegmentRulesDto;
+}
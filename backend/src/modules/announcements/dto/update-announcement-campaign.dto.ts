@@ -0,0 +1,67 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { AnnouncementKind, AnnouncementTarget } from '../announcement.enums';
+
+export class UpdateAnnouncementCampaignDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  scheduleRule?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  timeZone?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4000)
+  message?: string;
+
+  @IsOptional()
+  @IsEnum(AnnouncementKind)
+  kind?: AnnouncementKind;
+
+  @IsOptional()
+  @IsEnum(AnnouncementTarget)
+  target?: AnnouncementTarget;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @ArrayMaxSize(5000)
+  @Type(() => Number)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  userIds?: number[];
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  segmentId?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  respectQuietHours?: boolean;
+}
@@ -0,0 +1,76 @@
+import { Column, Entity, Index, OneToMany } from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+import { AnnouncementRun } from './announcement-run.entity';
+import { AnnouncementKind, AnnouncementTarget } from '../announcement.enums';
+
+export enum AnnouncementCampaignStatus {
+  ACTIVE = 'ACTIVE',
+  PAUSED = 'PAUSED',
+}
+
+@Entity('announcement_campaigns')
+@Index('idx_announcement_campaigns_status_nextRunAt', ['status', 'nextRunAt'])
+export class AnnouncementCampaign extends AbstractEntity {
+  @Column({ length: 120 })
+  name: string;
+
+  @Column({
+    type: 'enum',
+    enum: AnnouncementCampaignStatus,
+    default: AnnouncementCampaignStatus.ACTIVE,
+  })
+  status: AnnouncementCampaignStatus;
+
+  // Five-field cron rule evaluated in `timeZone`.
+  @Column({ length: 120 })
+  scheduleRule: string;
+
+  @Column({ length: 64 })
+  timeZone: string;
+
+  @Column({
+    type: 'enum',
+    enum: AnnouncementTarget,
+    default: AnnouncementTarget.ALL,
+  })
+  target: AnnouncementTarget;
+
+  @Column({
+    type: 'enum',
+    enum: AnnouncementKind,
+    default: AnnouncementKind.ANNOUNCEMENT,
+  })
+  kind: AnnouncementKind;
+
+  @Column({ type: 'simple-json', nullable: true })
+  targetUserIds: number[] | null;
+
+  // Saved segment evaluated on every spawned run when target is `segment`.
+  @Column({ type: 'int', nullable: true })
+  segmentId: number | null;
+
+  @Column({ type: 'text' })
+  message: string;
+
+  @Column({ type: 'simple-json', nullable: true })
+  imagePaths: string[] | null;
+
+  @Column({ default: true })
+  respectQuietHours: boolean;
+
+  // Null while paused or when the rule has no upcoming occurrence.
+  @Column({ type: 'datetime', nullable: true })
+  nextRunAt: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  lastRunAt: Date | null;
+
+  @Column({ type: 'int', default: 0 })
+  runCount: number;
+
+  @Column({ type: 'int', nullable: true })
+  createdByUserId: number | null;
+
+  @OneToMany(() => AnnouncementRun, (run) => run.campaign)
+  runs: AnnouncementRun[];
+}
@@ -37,6 +37,10 @@ export class AnnouncementDelivery extends AbstractEntity {
   @Column({ type: 'varchar', length: 64 })
   telegramId: string;
 
+  // A/B variant assigned when the run was queued.
+  @Column({ type: 'varchar', length: 8, nullable: true })
+  variantId: string | null;
+
   @Column({
     type: 'enum',
     enum: AnnouncementDeliveryStatus,
@@ -62,6 +66,12 @@ export class AnnouncementDelivery extends AbstractEntity {
   @Column({ type: 'varchar', length: 512, nullable: true })
   lastError: string | null;
 
+  @Column({ type: 'int', default: 0 })
+  clickCount: number;
+
+  @Column({ type: 'datetime', nullable: true })
+  firstClickedAt: Date | null;
+
   @Column({ type: 'varchar', length: 64, nullable: true })
   lockToken: string | null;
 
@@ -0,0 +1,25 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+import { AnnouncementRun } from './announcement-run.entity';
+
+@Entity('announcement_links')
+@Index('uq_announcement_links_code', ['code'], { unique: true })
+@Index('idx_announcement_links_runId_variantId', ['runId', 'variantId'])
+export class AnnouncementLink extends AbstractEntity {
+  @ManyToOne(() => AnnouncementRun, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'runId' })
+  run: AnnouncementRun;
+
+  @Column({ type: 'int' })
+  runId: number;
+
+  // Null when the run has a single message.
+  @Column({ type: 'varchar', length: 8, nullable: true })
+  variantId: string | null;
+
+  @Column({ type: 'varchar', length: 16 })
+  code: string;
+
+  @Column({ type: 'varchar', length: 2048 })
+  url: string;
+}
@@ -1,19 +1,22 @@
-import { Column, Entity, Index, OneToMany } from 'typeorm';
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
 import { AbstractEntity } from '../../../common/entities/abstract.entity';
 import { AnnouncementDelivery } from './announcement-delivery.entity';
-
-export enum AnnouncementTarget {
-  ALL = 'all',
-  USERS = 'users',
-  BOT_SUBSCRIBERS = 'bot_subscribers',
-  ACTIVE_BOT_SUBSCRIBERS = 'active_bot_subscribers',
-}
-
-export enum AnnouncementKind {
-  ANNOUNCEMENT = 'announcement',
-  NEWS = 'news',
-  PROMOTION = 'promotion',
-}
+import { AnnouncementCampaign } from './announcement-campaign.entity';
+import type { AnnouncementSegmentRules } from '../announcement-segment.util';
+import type { AnnouncementVariant } from '../announcement-variant.util';
+import type { AnnouncementButton } from '../announcement-button.util';
+import {
+  AnnouncementKind,
+  AnnouncementParseMode,
+  AnnouncementTarget,
+} from '../announcement.enums';
 
 export enum AnnouncementRunStatus {
   QUEUED = 'QUEUED',
@@ -26,6 +29,11 @@ export enum AnnouncementRunStatus {
 @Entity('announcement_runs')
 @Index('idx_announcement_runs_status_createdAt', ['status', 'createdAt'])
 @Index('idx_announcement_runs_finishedAt', ['finishedAt'])
+@Index('idx_announcement_runs_status_scheduledAt', ['status', 'scheduledAt'])
+@Index('idx_announcement_runs_campaignId_createdAt', [
+  'campaignId',
+  'createdAt',
+])
 export class AnnouncementRun extends AbstractEntity {
   @Column({
     type: 'enum',
@@ -51,15 +59,55 @@ export class AnnouncementRun extends AbstractEntity {
   @Column({ type: 'simple-json', nullable: true })
   targetUserIds: number[] | null;
 
+  // Saved segment the run was queued from, if any. Deleting the segment
+  // leaves the run untouched because the rules are snapshotted below.
+  @Column({ type: 'int', nullable: true })
+  segmentId: number | null;
+
+  @Column({ type: 'simple-json', nullable: true })
+  segmentRules: AnnouncementSegmentRules | null;
+
+  // May contain {{placeholders}} rendered per delivery.
   @Column({ type: 'text' })
   message: string;
 
+  @Column({
+    type: 'enum',
+    enum: AnnouncementParseMode,
+    default: AnnouncementParseMode.HTML,
+  })
+  parseMode: AnnouncementParseMode;
+
+  // A/B test variants; `message` mirrors variant A for listings.
+  @Column({ type: 'simple-json', nullable: true })
+  variants: AnnouncementVariant[] | null;
+
+  // URLs are swapped for short links that record clicks per delivery.
+  @Column({ default: false })
+  trackLinks: boolean;
+
+  // Inline keyboard under the message; ad and category URLs are resolved
+  // when the run is queued.
+  @Column({ type: 'simple-json', nullable: true })
+  buttons: AnnouncementButton[] | null;
+
   @Column({ type: 'simple-json', nullable: true })
   imagePaths: string[] | null;
 
   @Column({ type: 'int', nullable: true })
   requestedByUserId: number | null;
 
+  // Set when the run was spawned by a recurring campaign.
+  @ManyToOne(() => AnnouncementCampaign, (campaign) => campaign.runs, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'campaignId' })
+  campaign: AnnouncementCampaign | null;
+
+  @Column({ type: 'int', nullable: true })
+  campaignId: number | null;
+
   @Column({ type: 'int', default: 0 })
   totalRecipients: number;
 
@@ -75,6 +123,23 @@ export class AnnouncementRun extends AbstractEntity {
   @Column({ type: 'int', default: 0 })
   unknownCount: number;
 
+  // Runs stay QUEUED until this time; null means send as soon as possible.
+  @Column({ type: 'datetime', nullable: true })
+  scheduledAt: Date | null;
+
+  // Scheduled runs pick their recipients when they start sending, so people
+  // who opt out or join the audience in the meantime are accounted for.
+  @Column({ default: false })
+  awaitingRecipients: boolean;
+
+  // Recipient cap requested when queueing, applied when deliveries are built.
+  @Column({ type: 'int', nullable: true })
+  recipientLimit: number | null;
+
+  // When false the run keeps sending through the configured quiet hours.
+  @Column({ default: true })
+  respectQuietHours: boolean;
+
   @Column({ type: 'datetime', nullable: true })
   startedAt: Date | null;
 
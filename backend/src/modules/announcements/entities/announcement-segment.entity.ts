@@ -0,0 +1,15 @@
+import { Column, Entity } from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+import type { AnnouncementSegmentRules } from '../announcement-segment.util';
+
+@Entity('announcement_segments')
+export class AnnouncementSegment extends AbstractEntity {
+  @Column({ length: 120 })
+  name: string;
+
+  @Column({ type: 'simple-json' })
+  rules: AnnouncementSegmentRules;
+
+  @Column({ type: 'int', nullable: true })
+  createdByUserId: number | null;
+}
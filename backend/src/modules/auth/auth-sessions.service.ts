@@ -0,0 +1,303 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, IsNull, MoreThan, Not, Repository } from 'typeorm';
+import {
+  AuthSession,
+  AuthSessionRevokeReason,
+} from './entities/auth-session.entity';
+import { describeUserAgent } from './session-device.util';
+import {
+  formatOpaqueToken,
+  generateTokenSecret,
+  hashTokenSecret,
+  parseOpaqueToken,
+  tokenHashesMatch,
+} from './auth-token.util';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const MAX_REFRESH_TOKEN_TTL_DAYS = 365;
+// Two tabs refreshing at once present the same token; don't treat that as theft.
+const ROTATION_GRACE_MS = 30 * 1000;
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * MINUTE_MS;
+const ENDED_SESSION_RETENTION_DAYS = 30;
+
+export type SessionClientInfo = {
+  userAgent: string | null;
+  ipAddress: string | null;
+};
+
+export type IssuedRefreshToken = {
+  session: AuthSession;
+  refreshToken: string;
+};
+
+@Injectable()
+export class AuthSessionsService {
+  private readonly logger = new Logger(AuthSessionsService.name);
+  readonly refreshTokenTtlMs: number;
+
+  constructor(
+    @InjectRepository(AuthSession)
+    private readonly sessionRepo: Repository<AuthSession>,
+    private readonly configService: ConfigService,
+  ) {
+    const raw = this.configService.get<string>('REFRESH_TOKEN_TTL_DAYS');
+    const parsed = Number.parseInt(raw ?? '', 10);
+    const days =
+      Number.isFinite(parsed) && parsed > 0
+        ? Math.min(parsed, MAX_REFRESH_TOKEN_TTL_DAYS)
+        : 30;
+    this.refreshTokenTtlMs = days * DAY_MS;
+  }
+
+  async createSession(
+    userId: number,
+    client: SessionClientInfo,
+  ): Promise<IssuedRefreshToken> {
+    const secret = generateTokenSecret();
+    const now = new Date();
+    const session = await this.sessionRepo.save(
+      this.sessionRepo.create({
+        userId,
+        refreshTokenHash: hashTokenSecret(secret),
+        previousRefreshTokenHash: null,
+        rotatedAt: null,
+        deviceLabel: describeUserAgent(client.userAgent),
+        userAgent: client.userAgent?.slice(0, 512) ?? null,
+        ipAddress: client.ipAddress,
+        lastSeenAt: now,
+        expiresAt: new Date(now.getTime() + this.refreshTokenTtlMs),
+        revokedAt: null,
+        revokedReason: null,
+      }),
+    );
+    return { session, refreshToken: formatOpaqueToken(session.id, secret) };
+  }
+
+  /**
+   * Swaps a refresh token for a new one. A token that was already rotated
+   * away revokes the whole session, since only a copy could still hold it.
+   */
+  async rotate(
+    refreshToken: string,
+    client: SessionClientInfo,
+  ): Promise<IssuedRefreshToken> {
+    const parsed = parseOpaqueToken(refreshToken);
+    if (!parsed) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = await this.sessionRepo
+      .createQueryBuilder('session')
+      .addSelect([
+        'session.refreshTokenHash',
+        'session.previousRefreshTokenHash',
+      ])
+      .leftJoinAndSelect('session.user', 'user')
+      .where('session.id = :id', { id: parsed.id })
+      .getOne();
+
+    const now = new Date();
+    if (
+      !session ||
+      session.revokedAt ||
+      session.expiresAt.getTime() <= now.getTime()
+    ) {
+      throw new UnauthorizedException('Session expired');
+    }
+
+    const presentedHash = hashTokenSecret(parsed.secret);
+    if (!tokenHashesMatch(presentedHash, session.refreshTokenHash)) {
+      const isConcurrentRefresh =
+        tokenHashesMatch(presentedHash, session.previousRefreshTokenHash) &&
+        session.rotatedAt !== null &&
+        now.getTime() - session.rotatedAt.getTime() < ROTATION_GRACE_MS;
+      if (isConcurrentRefresh) {
+        throw new UnauthorizedException('Refresh token already rotated');
+      }
+
+      await this.markRevoked(
+        { id: session.id },
+        AuthSessionRevokeReason.REUSE_DETECTED,
+      );
+      this.logger.warn(
+        `Refresh token reuse detected for session ${session.id} (user ${session.userId}); session revoked`,
+      );
+      throw new UnauthorizedException('Session revoked');
+    }
+
+    if (!session.user || session.user.isBanned) {
+      await this.markRevoked(
+        { id: session.id },
+        AuthSessionRevokeReason.BANNED,
+      );
+      throw new UnauthorizedException('User is banned');
+    }
+
+    const secret = generateTokenSecret();
+    const nextHash = hashTokenSecret(secret);
+    const changes = {
+      refreshTokenHash: nextHash,
+      previousRefreshTokenHash: session.refreshTokenHash,
+      rotatedAt: now,
+      lastSeenAt: now,
+      expiresAt: new Date(now.getTime() + this.refreshTokenTtlMs),
+      ...(client.userAgent
+        ? {
+            userAgent: client.userAgent.slice(0, 512),
+            deviceLabel: describeUserAgent(client.userAgent),
+          }
+        : {}),
+      ...(client.ipAddress ? { ipAddress: client.ipAddress } : {}),
+    };
+
+    // Conditional on the old hash so two concurrent rotations can't both win.
+    const result = await this.sessionRepo
+      .createQueryBuilder()
+      .update(AuthSession)
+      .set(changes)
+      .where('id = :id', { id: session.id })
+      .andWhere('refreshTokenHash = :hash', { hash: session.refreshTokenHash })
+      .andWhere('revokedAt IS NULL')
+      .execute();
+    if (!result.affected) {
+      throw new UnauthorizedException('Refresh token already rotated');
+    }
+
+    Object.assign(session, changes);
+    return { session, refreshToken: formatOpaqueToken(session.id, secret) };
+  }
+
+  /** Used by the JWT strategy so revoking a session cuts off its access tokens. */
+  async touchActiveSession(sessionId: number, userId: number) {
+    const now = new Date();
+    const session = await this.sessionRepo.findOne({
+      where: {
+        id: sessionId,
+        userId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(now),
+      },
+      select: { id: true, lastSeenAt: true },
+    });
+    if (!session) return false;
+
+    if (
+      now.getTime() - session.lastSeenAt.getTime() >=
+      LAST_SEEN_UPDATE_INTERVAL_MS
+    ) {
+      await this.sessionRepo.update({ id: session.id }, { lastSeenAt: now });
+    }
+    return true;
+  }
+
+  async listActiveSessions(userId: number, currentSessionId?: number) {
+    const sessions = await this.sessionRepo.find({
+      where: {
+        userId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+      order: { lastSeenAt: 'DESC' },
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      device: session.deviceLabel,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  async revokeSession(userId: number, sessionId: number) {
+    const affected = await this.markRevoked(
+      { id: sessionId, userId },
+      AuthSessionRevokeReason.REVOKED,
+    );
+    if (!affected) {
+      throw new NotFoundException('Session not found');
+    }
+    return { id: sessionId, revoked: true };
+  }
+
+  /** Signs out every other device; the calling session stays active. */
+  async revokeOtherSessions(userId: number, currentSessionId?: number) {
+    const revoked = await this.markRevoked(
+      {
+        userId,
+        ...(currentSessionId ? { id: Not(currentSessionId) } : {}),
+      },
+      AuthSessionRevokeReason.REVOKED,
+    );
+    return { revoked };
+  }
+
+  /** Ends the session behind a refresh token; unknown tokens are ignored. */
+  async revokeByRefreshToken(refreshToken: string) {
+    const parsed = parseOpaqueToken(refreshToken);
+    if (!parsed) return;
+
+    const session = await this.sessionRepo
+      .createQueryBuilder('session')
+      .addSelect([
+        'session.refreshTokenHash',
+        'session.previousRefreshTokenHash',
+      ])
+      .where('session.id = :id', { id: parsed.id })
+      .getOne();
+    if (!session) return;
+
+    const presentedHash = hashTokenSecret(parsed.secret);
+    if (
+      tokenHashesMatch(presentedHash, session.refreshTokenHash) ||
+      tokenHashesMatch(presentedHash, session.previousRefreshTokenHash)
+    ) {
+      await this.markRevoked(
+        { id: session.id },
+        AuthSessionRevokeReason.LOGOUT,
+      );
+    }
+  }
+
+  @Cron('40 3 * * *')
+  async purgeEndedSessionsCron() {
+    const cutoff = new Date(Date.now() - ENDED_SESSION_RETENTION_DAYS * DAY_MS);
+    try {
+      const result = await this.sessionRepo
+        .createQueryBuilder()
+        .delete()
+        .from(AuthSession)
+        .where('expiresAt < :cutoff', { cutoff })
+        .orWhere('revokedAt < :cutoff', { cutoff })
+        .execute();
+      if (result.affected) {
+        this.logger.log(`Purged ${result.affected} ended auth sessions`);
+      }
+    } catch (error) {
+      this.logger.error('Auth session purge failed', error as Error);
+    }
+  }
+
+  private async markRevoked(
+    criteria: FindOptionsWhere<AuthSession>,
+    reason: AuthSessionRevokeReason,
+  ) {
+    const result = await this.sessionRepo.update(
+      { ...criteria, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: reason },
+    );
+    return result.affected ?? 0;
+  }
+}
@@ -0,0 +1,31 @@
+import * as crypto from 'crypto';
+
+// Opaque tokens are `<rowId>.<secret>`: the id finds the row, the secret's
+// sha256 must match what the row stores.
+
+export function generateTokenSecret() {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+export function hashTokenSecret(secret: string) {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+export function tokenHashesMatch(a: string, b: string | null | undefined) {
+  if (!b || a.length !== b.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+export function formatOpaqueToken(id: number, secret: string) {
+  return `${id}.${secret}`;
+}
+
+export function parseOpaqueToken(token: string | null | undefined) {
+  const match = /^(\d{1,12})\.([A-Za-z0-9_-]{20,128})$/.exec(
+    token?.trim() ?? '',
+  );
+  if (!match) return null;
+  const id = Number(match[1]);
+  if (!Number.isSafeInteger(id) || id <= 0) return null;
+  return { id, secret: match[2] };
+}
@@ -4,59 +4,208 @@ import {
   Body,
   Res,
   Get,
+  Delete,
+  Param,
+  ParseIntPipe,
   UseGuards,
   Req,
+  UnauthorizedException,
 } from '@nestjs/common';
 import { type FastifyReply, type FastifyRequest } from 'fastify';
 import { AuthService } from './auth.service';
+import {
+  AuthSessionsService,
+  type SessionClientInfo,
+} from './auth-sessions.service';
 import { TelegramLoginDto } from './dto/telegram-login.dto';
 import { PasswordLoginDto } from './dto/password-login.dto';
 import { SetPasswordDto } from './dto/set-password.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import {
+  TwoFactorChallengeDto,
+  TwoFactorCodeDto,
+  VerifyTwoFactorLoginDto,
+} from './dto/two-factor.dto';
+import { TwoFactorService } from './two-factor.service';
 import { AuthGuard } from '@nestjs/passport';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { User } from '../users/entities/user.entity';
+import { User, UserRole } from '../users/entities/user.entity';
+import { getPermissionsForRole } from '../users/permissions';
 import { MeResponseDto } from './dto/me-response.dto';
-import { getAuthCookieOptions } from '../../common/http/cookies';
+import {
+  REFRESH_COOKIE_NAME,
+  getAuthCookieOptions,
+  getRefreshCookieOptions,
+} from '../../common/http/cookies';
 
 type AuthenticatedRequest = FastifyRequest & {
   user: {
     userId: number;
-    role: string;
+    role: UserRole;
+    sessionId: number;
   };
 };
 
+type SessionTokens = {
+  token: string;
+  refreshToken: string;
+};
+
 @Controller('auth')
 export class AuthController {
   constructor(
     private readonly authService: AuthService,
+    private readonly authSessionsService: AuthSessionsService,
+    private readonly twoFactorService: TwoFactorService,
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
   ) {}
 
   @Post('telegram')
   async login(
+    @Req() req: FastifyRequest,
     @Body() telegramData: TelegramLoginDto,
     @Res({ passthrough: true }) res: FastifyReply,
   ) {
-    const { user, token } =
-      await this.authService.validateAndLogin(telegramData);
+    const { user, token, refreshToken } =
+      await this.authService.validateAndLogin(
+        telegramData,
+        this.getClientInfo(req),
+      );
 
-    // Set HttpOnly Cookie
-    res.setCookie('jwt', token, getAuthCookieOptions());
+    // Set HttpOnly Cookies
+    this.setSessionCookies(res, { token, refreshToken });
 
-    return { user, token };
+    return { user, token, refreshToken };
   }
 
   @Post('password')
   async loginWithPassword(
+    @Req() req: FastifyRequest,
     @Body() dto: PasswordLoginDto,
     @Res({ passthrough: true }) res: FastifyReply,
   ) {
-    const { user, token } = await this.authService.loginWithPassword(dto);
-    res.setCookie('jwt', token, getAuthCookieOptions());
+    const result = await this.authService.loginWithPassword(
+      dto,
+      this.getClientInfo(req),
+    );
+    if ('twoFactorRequired' in result) {
+      return result;
+    }
 
-    return { user, token };
+    const { user, token, refreshToken } = result;
+    this.setSessionCookies(res, { token, refreshToken });
+
+    return { user, token, refreshToken };
+  }
+
+  @Post('2fa/verify')
+  async verifyTwoFactorLogin(
+    @Req() req: FastifyRequest,
+    @Body() dto: VerifyTwoFactorLoginDto,
+    @Res({ passthrough: true }) res: FastifyReply,
+  ) {
+    const { user, token, refreshToken } =
+      await this.authService.verifyTwoFactorLogin(
+        dto.challengeToken,
+        dto.code,
+        this.getClientInfo(req),
+      );
+    this.setSessionCookies(res, { token, refreshToken });
+
+    return { user, token, refreshToken };
+  }
+
+  @Post('2fa/telegram')
+  requestTelegramConfirmation(@Body() dto: TwoFactorChallengeDto) {
+    return this.twoFactorService.requestTelegramConfirmation(
+      dto.challengeToken,
+    );
+  }
+
+  @Post('2fa/telegram/confirm')
+  async confirmTelegramLogin(
+    @Req() req: FastifyRequest,
+    @Body() dto: TwoFactorChallengeDto,
+    @Res({ passthrough: true }) res: FastifyReply,
+  ) {
+    const result = await this.authService.confirmTelegramLogin(
+      dto.challengeToken,
+      this.getClientInfo(req),
+    );
+    if ('token' in result) {
+      this.setSessionCookies(res, result);
+    }
+    return result;
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Get('2fa')
+  getTwoFactorStatus(@Req() req: AuthenticatedRequest) {
+    return this.twoFactorService.getStatus(req.user.userId);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('2fa/setup')
+  beginTwoFactorSetup(@Req() req: AuthenticatedRequest) {
+    return this.twoFactorService.beginEnrollment(req.user.userId);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('2fa/enable')
+  enableTwoFactor(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.confirmEnrollment(req.user.userId, dto.code);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('2fa/recovery-codes')
+  regenerateRecoveryCodes(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.regenerateRecoveryCodes(
+      req.user.userId,
+      dto.code,
+    );
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('2fa/disable')
+  disableTwoFactor(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.disable(req.user.userId, dto.code);
+  }
+
+  @Post('refresh')
+  async refresh(
+    @Req() req: FastifyRequest,
+    @Body() body: RefreshTokenDto,
+    @Res({ passthrough: true }) res: FastifyReply,
+  ) {
+    const presented = this.getRefreshToken(req, body);
+    if (!presented) {
+      throw new UnauthorizedException('Refresh token is required');
+    }
+
+    try {
+      const { user, token, refreshToken } =
+        await this.authService.refreshSession(
+          presented,
+          this.getClientInfo(req),
+        );
+      this.setSessionCookies(res, { token, refreshToken });
+      return { user, token, refreshToken };
+    } catch (error) {
+      // A failed refresh means the session is over; don't leave stale cookies.
+      this.clearSessionCookies(res);
+      throw error;
+    }
   }
 
   @UseGuards(AuthGuard('jwt'))
@@ -78,14 +227,43 @@ export class AuthController {
   }
 
   @Post('logout')
-  logout(@Res({ passthrough: true }) res: FastifyReply) {
-    res.clearCookie('jwt', {
-      ...getAuthCookieOptions(),
-      maxAge: undefined,
-    });
+  async logout(
+    @Req() req: FastifyRequest,
+    @Body() body: RefreshTokenDto,
+    @Res({ passthrough: true }) res: FastifyReply,
+  ) {
+    await this.authService.logout(this.getRefreshToken(req, body));
+    this.clearSessionCookies(res);
     return { message: 'Logged out' };
   }
 
+  @UseGuards(AuthGuard('jwt'))
+  @Get('sessions')
+  listSessions(@Req() req: AuthenticatedRequest) {
+    return this.authSessionsService.listActiveSessions(
+      req.user.userId,
+      req.user.sessionId,
+    );
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Delete('sessions')
+  revokeOtherSessions(@Req() req: AuthenticatedRequest) {
+    return this.authSessionsService.revokeOtherSessions(
+      req.user.userId,
+      req.user.sessionId,
+    );
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Delete('sessions/:id')
+  revokeSession(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.authSessionsService.revokeSession(req.user.userId, id);
+  }
+
   // Test Endpoint to verify Auth is working
   @UseGuards(AuthGuard('jwt'))
   @Get('me')
@@ -94,11 +272,16 @@ export class AuthController {
       where: { id: req.user.userId },
     });
     if (!user) {
-      return { userId: req.user.userId, role: req.user.role };
+      return {
+        userId: req.user.userId,
+        role: req.user.role,
+        permissions: getPermissionsForRole(req.user.role),
+      };
     }
     return {
       userId: user.id,
       role: user.role,
+      permissions: getPermissionsForRole(user.role),
       firstName: user.firstName,
       username: user.username,
       avatarUrl: user.avatarUrl,
@@ -106,4 +289,48 @@ export class AuthController {
       hasTelegram: Boolean(user.telegramId),
     };
   }
+
+  private setSessionCookies(res: FastifyReply, tokens: SessionTokens) {
+    res.setCookie(
+      'jwt',
+      tokens.token,
+      getAuthCookieOptions(this.authService.accessTokenTtlMs),
+    );
+    res.setCookie(
+      REFRESH_COOKIE_NAME,
+      tokens.refreshToken,
+      getRefreshCookieOptions(this.authService.refreshTokenTtlMs),
+    );
+  }
+
+  private clearSessionCookies(res: FastifyReply) {
+    res.clearCookie('jwt', {
+      ...getAuthCookieOptions(),
+      maxAge: undefined,
+    });
+    res.clearCookie(REFRESH_COOKIE_NAME, {
+      ...getRefreshCookieOptions(),
+      maxAge: undefined,
+    });
+  }
+
+  private getRefreshToken(req: FastifyRequest, body?: RefreshTokenDto) {
+    const fromBody = body?.refreshToken?.trim();
+    if (fromBody) return fromBody;
+    return req.cookies?.[REFRESH_COOKIE_NAME] ?? null;
+  }
+
+  private getClientInfo(req: FastifyRequest): SessionClientInfo {
+    const userAgent = req.headers['user-agent'];
+    const forwarded = req.headers['x-forwarded-for'];
+    const forwardedIp = (Array.isArray(forwarded) ? forwarded[0] : forwarded)
+      ?.split(',')[0]
+      ?.trim();
+    const ip = forwardedIp || (typeof req.ip === 'string' ? req.ip : '');
+
+    return {
+      userAgent: typeof userAgent === 'string' ? userAgent : null,
+      ipAddress: ip ? ip.replace(/^::ffff:/i, '').slice(0, 64) : null,
+    };
+  }
 }
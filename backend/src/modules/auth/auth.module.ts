@@ -6,23 +6,27 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from '../users/entities/user.entity';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { AuthSessionsService } from './auth-sessions.service';
+import { AuthSession } from './entities/auth-session.entity';
+import { LoginChallenge } from './entities/login-challenge.entity';
+import { TwoFactorService } from './two-factor.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([User]), // Access User Repo
+    TypeOrmModule.forFeature([User, AuthSession, LoginChallenge]), // Access User Repo
     PassportModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
       useFactory: (configService: ConfigService) => ({
+        // Access tokens get their short expiry from AuthService when signed.
         secret: configService.get<string>('JWT_SECRET'),
-        signOptions: { expiresIn: '30d' },
       }),
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
-  exports: [AuthService],
+  providers: [AuthService, AuthSessionsService, TwoFactorService, JwtStrategy],
+  exports: [AuthService, TwoFactorService],
 })
 export class AuthModule {}
@@ -10,6 +10,8 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import * as crypto from 'crypto';
 import { User, UserRole } from '../users/entities/user.entity';
+import { isStaffRole } from '../users/permissions';
+import { parseAdminTelegramIds } from '../../common/admin-telegram-ids';
 import { TelegramLoginDto } from './dto/telegram-login.dto';
 import { PasswordLoginDto } from './dto/password-login.dto';
 import { SetPasswordDto } from './dto/set-password.dto';
@@ -20,20 +22,42 @@ import {
   normalizeLoginUsername,
   verifyPassword,
 } from './password-hash';
+import {
+  AuthSessionsService,
+  type SessionClientInfo,
+} from './auth-sessions.service';
+import { TwoFactorService } from './two-factor.service';
+
+const MAX_ACCESS_TOKEN_TTL_MINUTES = 24 * 60;
 
 @Injectable()
 export class AuthService {
   private readonly maxFailedPasswordLogins = 5;
   private readonly passwordLockDurationMs = 15 * 60 * 1000; // 15 minutes
+  readonly accessTokenTtlMs: number;
 
   constructor(
     @InjectRepository(User)
     private userRepository: Repository<User>,
     private jwtService: JwtService,
     private configService: ConfigService,
-  ) {}
+    private authSessionsService: AuthSessionsService,
+    private twoFactorService: TwoFactorService,
+  ) {
+    const raw = this.configService.get<string>('JWT_ACCESS_TTL_MINUTES');
+    const parsed = Number.parseInt(raw ?? '', 10);
+    const minutes =
+      Number.isFinite(parsed) && parsed > 0
+        ? Math.min(parsed, MAX_ACCESS_TOKEN_TTL_MINUTES)
+        : 15;
+    this.accessTokenTtlMs = minutes * 60 * 1000;
+  }
 
-  async validateAndLogin(data: TelegramLoginDto) {
+  get refreshTokenTtlMs() {
+    return this.authSessionsService.refreshTokenTtlMs;
+  }
+
+  async validateAndLogin(data: TelegramLoginDto, client: SessionClientInfo) {
     // 1. Verify Request Integrity
     this.verifyTelegramSignature(data);
 
@@ -43,10 +67,7 @@ export class AuthService {
       where: { telegramId: data.id.toString() },
     });
 
-    const adminTelegramId =
-      this.configService.get<string>('TELEGRAM_ADMIN_ID') ?? '';
-    const isAdminTelegram =
-      adminTelegramId.length > 0 && adminTelegramId === data.id.toString();
+    const isAdminTelegram = this.isBootstrapAdminTelegramId(data.id.toString());
 
     if (!user) {
       user = this.userRepository.create({
@@ -61,11 +82,8 @@ export class AuthService {
       user.firstName = data.first_name;
       user.username = data.username ?? '';
       user.avatarUrl = data.photo_url ?? '';
-      if (isAdminTelegram && user.role !== UserRole.ADMIN) {
-        user.role = UserRole.ADMIN;
-      } else if (!isAdminTelegram && user.role !== UserRole.ADMIN) {
-        user.role = UserRole.MERCHANT;
-      }
+      // TELEGRAM_ADMIN_ID only bootstraps new accounts; roles changed from
+      // the admin app, demotions included, must survive a Telegram login.
     }
 
     let seededLoginUsername = false;
@@ -100,14 +118,13 @@ export class AuthService {
       throw new UnauthorizedException('User is banned');
     }
 
-    // 3. Generate JWT
-    const payload = { sub: user.id, role: user.role };
-    const token = this.jwtService.sign(payload);
+    // 3. Start a session and generate its tokens
+    const tokens = await this.startSession(user, client);
 
-    return { user, token };
+    return { user, ...tokens };
   }
 
-  async loginWithPassword(dto: PasswordLoginDto) {
+  async loginWithPassword(dto: PasswordLoginDto, client: SessionClientInfo) {
     const pepper = this.configService.get<string>('PASSWORD_PEPPER') ?? '';
     const username = normalizeLoginUsername(dto.username);
 
@@ -137,9 +154,9 @@ export class AuthService {
       throw new UnauthorizedException('User is banned');
     }
 
-    if (user.role !== UserRole.ADMIN) {
+    if (!isStaffRole(user.role)) {
       throw new UnauthorizedException(
-        'Only admins can set or use password authentication',
+        'Only staff can set or use password authentication',
       );
     }
 
@@ -175,10 +192,59 @@ export class AuthService {
       throw new UnauthorizedException('Invalid username or password');
     }
 
-    const payload = { sub: safeUser.id, role: safeUser.role };
-    const token = this.jwtService.sign(payload);
+    // The password alone isn't enough; hand back a challenge for the second factor.
+    if (this.twoFactorService.isRequiredFor(safeUser)) {
+      return this.twoFactorService.createChallenge(safeUser, client);
+    }
+
+    const tokens = await this.startSession(safeUser, client);
+
+    return { user: safeUser, ...tokens };
+  }
+
+  async verifyTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    client: SessionClientInfo,
+  ) {
+    const user = await this.twoFactorService.verifyChallenge(
+      challengeToken,
+      code,
+    );
+    const tokens = await this.startSession(user, client);
+
+    return { user, ...tokens };
+  }
+
+  async confirmTelegramLogin(
+    challengeToken: string,
+    client: SessionClientInfo,
+  ) {
+    const { status, user } =
+      await this.twoFactorService.completeTelegramConfirmation(challengeToken);
+    if (!user) {
+      return { status };
+    }
+
+    const tokens = await this.startSession(user, client);
+    return { status, user, ...tokens };
+  }
+
+  async refreshSession(refreshToken: string, client: SessionClientInfo) {
+    const { session, refreshToken: nextRefreshToken } =
+      await this.authSessionsService.rotate(refreshToken, client);
 
-    return { user: safeUser, token };
+    return {
+      user: session.user,
+      token: this.signAccessToken(session.user, session.id),
+      refreshToken: nextRefreshToken,
+    };
+  }
+
+  async logout(refreshToken: string | null) {
+    if (refreshToken) {
+      await this.authSessionsService.revokeByRefreshToken(refreshToken);
+    }
   }
 
   async setPasswordForUser(userId: number, dto: SetPasswordDto) {
@@ -269,10 +335,7 @@ export class AuthService {
   async linkTelegramToUser(userId: number, data: TelegramLoginDto) {
     this.verifyTelegramSignature(data);
 
-    const adminTelegramId =
-      this.configService.get<string>('TELEGRAM_ADMIN_ID') ?? '';
-    const isAdminTelegram =
-      adminTelegramId.length > 0 && adminTelegramId === data.id.toString();
+    const isAdminTelegram = this.isBootstrapAdminTelegramId(data.id.toString());
 
     const existing = await this.userRepository.findOne({
       where: { telegramId: data.id.toString() },
@@ -308,6 +371,25 @@ export class AuthService {
     return { user: safeUser };
   }
 
+  private async startSession(user: User, client: SessionClientInfo) {
+    const { session, refreshToken } =
+      await this.authSessionsService.createSession(user.id, client);
+    return { token: this.signAccessToken(user, session.id), refreshToken };
+  }
+
+  private signAccessToken(user: User, sessionId: number) {
+    const payload = { sub: user.id, role: user.role, sid: sessionId };
+    return this.jwtService.sign(payload, {
+      expiresIn: Math.floor(this.accessTokenTtlMs / 1000),
+    });
+  }
+
+  private isBootstrapAdminTelegramId(telegramId: string) {
+    return parseAdminTelegramIds(
+      this.configService.get<string>('TELEGRAM_ADMIN_ID'),
+    ).includes(telegramId);
+  }
+
   private verifyTelegramSignature(data: TelegramLoginDto) {
     const BOT_TOKEN =
       this.configService.get<string>('TELEGRAM_BOT_TOKEN') || '';
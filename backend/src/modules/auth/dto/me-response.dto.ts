@@ -1,6 +1,7 @@
 export class MeResponseDto {
   userId: number;
   role: string;
+  permissions: string[];
   firstName?: string | null;
   username?: string | null;
   avatarUrl?: string | null;
@@ -0,0 +1,9 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class RefreshTokenDto {
+  // Clients that can't rely on the httpOnly cookie send the token in the body.
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  refreshToken?: string;
+}
@@ -0,0 +1,29 @@
+import { IsNotEmpty, IsString, Matches, MaxLength } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  // Either a 6-digit authenticator code or a recovery code like `abcd-efgh`.
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  @Matches(/^[A-Za-z0-9\s-]+$/, {
+    message: 'code must be an authenticator or recovery code',
+  })
+  code: string;
+}
+
+export class TwoFactorChallengeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  challengeToken: string;
+}
+
+export class VerifyTwoFactorLoginDto extends TwoFactorChallengeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  @Matches(/^[A-Za-z0-9\s-]+$/, {
+    message: 'code must be an authenticator or recovery code',
+  })
+  code: string;
+}
@@ -0,0 +1,62 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+import { User } from '../../users/entities/user.entity';
+
+export enum AuthSessionRevokeReason {
+  LOGOUT = 'logout',
+  REVOKED = 'revoked',
+  REUSE_DETECTED = 'reuse_detected',
+  BANNED = 'banned',
+}
+
+/**
+ * One signed-in device. The row is the refresh token family: every rotation
+ * replaces the stored hash, and presenting an older token revokes the row.
+ */
+@Entity('auth_sessions')
+@Index('idx_auth_sessions_userId_revokedAt', ['userId', 'revokedAt'])
+export class AuthSession extends AbstractEntity {
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'int' })
+  userId: number;
+
+  // sha256 of the current refresh secret; the secret itself is never stored.
+  @Column({ type: 'char', length: 64, select: false })
+  refreshTokenHash: string;
+
+  // Hash replaced by the last rotation, kept to tell races from reuse.
+  @Column({ type: 'char', length: 64, nullable: true, select: false })
+  previousRefreshTokenHash: string | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  rotatedAt: Date | null;
+
+  @Column({ type: 'varchar', length: 120 })
+  deviceLabel: string;
+
+  @Column({ type: 'varchar', length: 512, nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: 'datetime' })
+  lastSeenAt: Date;
+
+  @Index('idx_auth_sessions_expiresAt')
+  @Column({ type: 'datetime' })
+  expiresAt: Date;
+
+  @Column({ type: 'datetime', nullable: true })
+  revokedAt: Date | null;
+
+  @Column({
+    type: 'enum',
+    enum: AuthSessionRevokeReason,
+    nullable: true,
+  })
+  revokedReason: AuthSessionRevokeReason | null;
+}
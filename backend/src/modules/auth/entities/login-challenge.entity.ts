@@ -0,0 +1,51 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+import { User } from '../../users/entities/user.entity';
+
+export enum TelegramConfirmationStatus {
+  NONE = 'none',
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  DENIED = 'denied',
+}
+
+/**
+ * A password login waiting for its second factor. The client holds
+ * `<id>.<secret>` and trades it, plus a code or Telegram approval, for tokens.
+ */
+@Entity('auth_login_challenges')
+export class LoginChallenge extends AbstractEntity {
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Index('idx_auth_login_challenges_userId')
+  @Column({ type: 'int' })
+  userId: number;
+
+  @Column({ type: 'char', length: 64, select: false })
+  tokenHash: string;
+
+  @Index('idx_auth_login_challenges_expiresAt')
+  @Column({ type: 'datetime' })
+  expiresAt: Date;
+
+  @Column({ type: 'int', default: 0 })
+  failedAttempts: number;
+
+  @Column({
+    type: 'enum',
+    enum: TelegramConfirmationStatus,
+    default: TelegramConfirmationStatus.NONE,
+  })
+  telegramStatus: TelegramConfirmationStatus;
+
+  @Column({ type: 'varchar', length: 120, nullable: true })
+  deviceLabel: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  consumedAt: Date | null;
+}
@@ -0,0 +1,37 @@
+const BROWSERS: ReadonlyArray<[RegExp, string]> = [
+  [/telegram/i, 'Telegram'],
+  [/edg(e|a|ios)?\//i, 'Edge'],
+  [/opr\/|opera/i, 'Opera'],
+  [/samsungbrowser/i, 'Samsung Internet'],
+  [/firefox|fxios/i, 'Firefox'],
+  [/chrome|crios/i, 'Chrome'],
+  [/safari/i, 'Safari'],
+];
+
+const PLATFORMS: ReadonlyArray<[RegExp, string]> = [
+  [/iphone/i, 'iPhone'],
+  [/ipad/i, 'iPad'],
+  [/android/i, 'Android'],
+  [/windows/i, 'Windows'],
+  [/mac os x|macintosh/i, 'macOS'],
+  [/cros/i, 'ChromeOS'],
+  [/linux/i, 'Linux'],
+];
+
+function matchLabel(
+  userAgent: string,
+  candidates: ReadonlyArray<[RegExp, string]>,
+) {
+  return candidates.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+}
+
+/** Short human label such as "Chrome on Android" for the session list. */
+export function describeUserAgent(userAgent: string | null | undefined) {
+  const value = userAgent?.trim() ?? '';
+  if (!value) return 'Unknown device';
+
+  const browser = matchLabel(value, BROWSERS);
+  const platform = matchLabel(value, PLATFORMS);
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? 'Unknown device';
+}
@@ -5,10 +5,12 @@ import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
+import { AuthSessionsService } from '../auth-sessions.service';
 
 type JwtPayload = {
   sub: number | string;
   role: string;
+  sid?: number;
 };
 
 @Injectable()
@@ -17,6 +19,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     configService: ConfigService,
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
+    private readonly authSessionsService: AuthSessionsService,
   ) {
     const jwtSecret = configService.get<string>('JWT_SECRET');
     if (!jwtSecret) {
@@ -52,7 +55,17 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException('User is banned');
     }
 
+    // Tokens from before sessions existed carry no sid and must sign in again.
+    const sessionId = Number(payload.sid);
+    if (
+      !Number.isInteger(sessionId) ||
+      sessionId <= 0 ||
+      !(await this.authSessionsService.touchActiveSession(sessionId, user.id))
+    ) {
+      throw new UnauthorizedException('Session expired');
+    }
+
     // This injects `req.user` into our controllers
-    return { userId: user.id, role: user.role };
+    return { userId: user.id, role: user.role, sessionId };
   }
 }
@@ -0,0 +1,510 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { User } from '../users/entities/user.entity';
+import { isStaffRole } from '../users/permissions';
+import { BotService } from '../bot/bot.service';
+import {
+  LoginChallenge,
+  TelegramConfirmationStatus,
+} from './entities/login-challenge.entity';
+import {
+  formatOpaqueToken,
+  generateTokenSecret,
+  hashTokenSecret,
+  parseOpaqueToken,
+  tokenHashesMatch,
+} from './auth-token.util';
+import { describeUserAgent } from './session-device.util';
+import type { SessionClientInfo } from './auth-sessions.service';
+import {
+  buildOtpauthUrl,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from './totp';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+// Caps guesses across challenges, since each password login opens a new one.
+const MAX_RECENT_FAILED_CODES = 10;
+const RECENT_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const TOTP_ISSUER = 'Gebeya Pro';
+
+export type TwoFactorMethod = 'totp' | 'recovery_code' | 'telegram';
+
+type UserWithSecrets = User & {
+  totpSecret: string | null;
+  totpPendingSecret: string | null;
+  totpLastUsedStep: string | null;
+  recoveryCodeHashes: string[] | null;
+};
+
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    @InjectRepository(LoginChallenge)
+    private readonly challengeRepo: Repository<LoginChallenge>,
+    private readonly configService: ConfigService,
+    private readonly botService: BotService,
+  ) {}
+
+  /** Staff always need a second factor; others only once they enroll. */
+  isRequiredFor(user: User) {
+    return isStaffRole(user.role) || Boolean(user.totpEnabledAt);
+  }
+
+  getAvailableMethods(user: User): TwoFactorMethod[] {
+    const methods: TwoFactorMethod[] = [];
+    if (user.totpEnabledAt) methods.push('totp', 'recovery_code');
+    if (user.telegramId) methods.push('telegram');
+    return methods;
+  }
+
+  async getStatus(userId: number) {
+    const user = await this.loadUserWithSecrets(userId);
+    return {
+      enabled: Boolean(user.totpEnabledAt),
+      enabledAt: user.totpEnabledAt,
+      required: this.isRequiredFor(user),
+      recoveryCodesRemaining: user.recoveryCodeHashes?.length ?? 0,
+      hasTelegram: Boolean(user.telegramId),
+    };
+  }
+
+  async beginEnrollment(userId: number) {
+    const user = await this.loadUserWithSecrets(userId);
+    if (user.totpEnabledAt) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.userRepo.update(
+      { id: user.id },
+      { totpPendingSecret: this.encryptSecret(secret) },
+    );
+
+    const accountName =
+      user.loginUsername || user.username || `user-${user.id}`;
+    return {
+      secret,
+      otpauthUrl: buildOtpauthUrl(TOTP_ISSUER, accountName, secret),
+    };
+  }
+
+  async confirmEnrollment(userId: number, code: string) {
+    const user = await this.loadUserWithSecrets(userId);
+    if (user.totpEnabledAt) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    if (!user.totpPendingSecret) {
+      throw new BadRequestException('Start the authenticator setup first');
+    }
+
+    const pendingSecret = this.decryptSecret(user.totpPendingSecret);
+    const step = verifyTotp(pendingSecret, code);
+    if (step === null) {
+      throw new BadRequestException('Invalid verification code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.userRepo.update(
+      { id: user.id },
+      {
+        totpSecret: user.totpPendingSecret,
+        totpPendingSecret: null,
+        totpLastUsedStep: String(step),
+        recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+        totpEnabledAt: new Date(),
+      },
+    );
+
+    return { enabled: true, recoveryCodes };
+  }
+
+  async regenerateRecoveryCodes(userId: number, code: string) {
+    const user = await this.loadEnabledUser(userId);
+    await this.verifyUserCode(user, code, { allowRecoveryCode: false });
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.userRepo.update(
+      { id: user.id },
+      { recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) },
+    );
+    return { recoveryCodes };
+  }
+
+  async disable(userId: number, code: string) {
+    const user = await this.loadEnabledUser(userId);
+    await this.verifyUserCode(user, code, { allowRecoveryCode: true });
+
+    await this.userRepo.update(
+      { id: user.id },
+      {
+        totpSecret: null,
+        totpPendingSecret: null,
+        totpLastUsedStep: null,
+        recoveryCodeHashes: null,
+        totpEnabledAt: null,
+      },
+    );
+    return { enabled: false };
+  }
+
+  async createChallenge(user: User, client: SessionClientInfo) {
+    const methods = this.getAvailableMethods(user);
+    if (methods.length === 0) {
+      throw new UnauthorizedException(
+        'Two-factor authentication is required. Sign in with Telegram and enable an authenticator app first.',
+      );
+    }
+
+    const recentFailures = await this.challengeRepo
+      .createQueryBuilder('challenge')
+      .select('COALESCE(SUM(challenge.failedAttempts), 0)', 'total')
+      .where('challenge.userId = :userId', { userId: user.id })
+      .andWhere('challenge.createdAt >= :since', {
+        since: new Date(Date.now() - RECENT_FAILURE_WINDOW_MS),
+      })
+      .getRawOne<{ total: string | number }>();
+    if (Number(recentFailures?.total ?? 0) >= MAX_RECENT_FAILED_CODES) {
+      throw new UnauthorizedException(
+        'Too many verification attempts. Try again later.',
+      );
+    }
+
+    const secret = generateTokenSecret();
+    const expiresAt = new Date(Date.now() + CHALLENGE_TTL_MS);
+    const challenge = await this.challengeRepo.save(
+      this.challengeRepo.create({
+        userId: user.id,
+        tokenHash: hashTokenSecret(secret),
+        expiresAt,
+        failedAttempts: 0,
+        telegramStatus: TelegramConfirmationStatus.NONE,
+        deviceLabel: describeUserAgent(client.userAgent),
+        ipAddress: client.ipAddress,
+        consumedAt: null,
+      }),
+    );
+
+    return {
+      twoFactorRequired: true as const,
+      challengeToken: formatOpaqueToken(challenge.id, secret),
+      methods,
+      expiresAt,
+    };
+  }
+
+  /** Checks an authenticator or recovery code and returns the signed-in user. */
+  async verifyChallenge(challengeToken: string, code: string) {
+    const challenge = await this.loadOpenChallenge(challengeToken);
+    const user = await this.loadUserWithSecrets(challenge.userId);
+    if (!user.totpEnabledAt || !user.totpSecret) {
+      throw new BadRequestException(
+        'Authenticator app is not enabled for this account',
+      );
+    }
+
+    const method = await this.tryUserCode(user, code, {
+      allowRecoveryCode: true,
+    });
+    if (!method) {
+      const failedAttempts = challenge.failedAttempts + 1;
+      await this.challengeRepo.update(
+        { id: challenge.id },
+        {
+          failedAttempts,
+          ...(failedAttempts >= MAX_CHALLENGE_ATTEMPTS
+            ? { consumedAt: new Date() }
+            : {}),
+        },
+      );
+      throw new UnauthorizedException('Invalid verification code');
+    }
+
+    await this.consumeChallenge(challenge.id);
+    return this.loadSignInUser(user.id);
+  }
+
+  async requestTelegramConfirmation(challengeToken: string) {
+    const challenge = await this.loadOpenChallenge(challengeToken);
+    const user = await this.userRepo.findOne({
+      where: { id: challenge.userId },
+    });
+    if (!user?.telegramId) {
+      throw new BadRequestException(
+        'Link Telegram to your account to confirm logins there',
+      );
+    }
+
+    try {
+      await this.botService.sendLoginConfirmation({
+        telegramId: user.telegramId,
+        challengeId: challenge.id,
+        deviceLabel: challenge.deviceLabel,
+        ipAddress: challenge.ipAddress,
+      });
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(
+        `Failed to send login confirmation for user ${user.id}: ${err.message}`,
+      );
+      throw new BadRequestException(
+        'Could not reach your Telegram account. Open the bot and try again.',
+      );
+    }
+
+    await this.challengeRepo.update(
+      { id: challenge.id },
+      { telegramStatus: TelegramConfirmationStatus.PENDING },
+    );
+    return {
+      status: TelegramConfirmationStatus.PENDING,
+      expiresAt: challenge.expiresAt,
+    };
+  }
+
+  /** Called from the bot when the account owner taps approve or deny. */
+  async resolveTelegramConfirmation(input: {
+    challengeId: number;
+    telegramId: string;
+    approve: boolean;
+  }) {
+    const challenge = await this.challengeRepo.findOne({
+      where: { id: input.challengeId },
+      relations: { user: true },
+    });
+    if (!challenge || challenge.user?.telegramId !== input.telegramId) {
+      throw new Error('Login request not found');
+    }
+    if (
+      challenge.consumedAt ||
+      challenge.expiresAt.getTime() <= Date.now() ||
+      challenge.telegramStatus !== TelegramConfirmationStatus.PENDING
+    ) {
+      throw new Error('This login request has expired');
+    }
+
+    const nextStatus = input.approve
+      ? TelegramConfirmationStatus.APPROVED
+      : TelegramConfirmationStatus.DENIED;
+    await this.challengeRepo.update(
+      { id: challenge.id },
+      {
+        telegramStatus: nextStatus,
+        ...(input.approve ? {} : { consumedAt: new Date() }),
+      },
+    );
+    return nextStatus;
+  }
+
+  /** Polled by the login screen until the Telegram prompt is answered. */
+  async completeTelegramConfirmation(challengeToken: string) {
+    const challenge = await this.loadChallenge(challengeToken);
+    if (challenge.telegramStatus === TelegramConfirmationStatus.DENIED) {
+      throw new UnauthorizedException('Login was denied in Telegram');
+    }
+    this.assertChallengeOpen(challenge);
+
+    switch (challenge.telegramStatus) {
+      case TelegramConfirmationStatus.APPROVED:
+        await this.consumeChallenge(challenge.id);
+        return {
+          status: TelegramConfirmationStatus.APPROVED,
+          user: await this.loadSignInUser(challenge.userId),
+        };
+      case TelegramConfirmationStatus.PENDING:
+        return { status: TelegramConfirmationStatus.PENDING, user: null };
+      default:
+        throw new BadRequestException(
+          'Telegram confirmation was not requested',
+        );
+    }
+  }
+
+  @Cron('50 3 * * *')
+  async purgeExpiredChallengesCron() {
+    try {
+      await this.challengeRepo
+        .createQueryBuilder()
+        .delete()
+        .from(LoginChallenge)
+        .where('expiresAt < :cutoff', {
+          cutoff: new Date(Date.now() - CHALLENGE_TTL_MS),
+        })
+        .execute();
+    } catch (error) {
+      this.logger.error('Login challenge purge failed', error as Error);
+    }
+  }
+
+  private async loadOpenChallenge(challengeToken: string) {
+    const challenge = await this.loadChallenge(challengeToken);
+    this.assertChallengeOpen(challenge);
+    return challenge;
+  }
+
+  private async loadChallenge(challengeToken: string) {
+    const parsed = parseOpaqueToken(challengeToken);
+    const challenge = parsed
+      ? await this.challengeRepo
+          .createQueryBuilder('challenge')
+          .addSelect('challenge.tokenHash')
+          .where('challenge.id = :id', { id: parsed.id })
+          .getOne()
+      : null;
+
+    if (
+      !parsed ||
+      !challenge ||
+      !tokenHashesMatch(hashTokenSecret(parsed.secret), challenge.tokenHash)
+    ) {
+      throw new UnauthorizedException(
+        'Login request expired. Please sign in again.',
+      );
+    }
+    return challenge;
+  }
+
+  private assertChallengeOpen(challenge: LoginChallenge) {
+    if (
+      challenge.consumedAt ||
+      challenge.failedAttempts >= MAX_CHALLENGE_ATTEMPTS ||
+      challenge.expiresAt.getTime() <= Date.now()
+    ) {
+      throw new UnauthorizedException(
+        'Login request expired. Please sign in again.',
+      );
+    }
+  }
+
+  // Conditional so a challenge can only ever produce one session.
+  private async consumeChallenge(challengeId: number) {
+    const result = await this.challengeRepo.update(
+      { id: challengeId, consumedAt: IsNull() },
+      { consumedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new UnauthorizedException(
+        'Login request expired. Please sign in again.',
+      );
+    }
+  }
+
+  private async loadSignInUser(userId: number) {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new UnauthorizedException('Invalid session');
+    }
+    if (user.isBanned) {
+      throw new UnauthorizedException('User is banned');
+    }
+    return user;
+  }
+
+  private async loadUserWithSecrets(userId: number) {
+    const user = await this.userRepo
+      .createQueryBuilder('user')
+      .addSelect([
+        'user.totpSecret',
+        'user.totpPendingSecret',
+        'user.totpLastUsedStep',
+        'user.recoveryCodeHashes',
+      ])
+      .where('user.id = :userId', { userId })
+      .getOne();
+    if (!user) {
+      throw new UnauthorizedException('Invalid session');
+    }
+    return user as UserWithSecrets;
+  }
+
+  private async loadEnabledUser(userId: number) {
+    const user = await this.loadUserWithSecrets(userId);
+    if (!user.totpEnabledAt || !user.totpSecret) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    return user;
+  }
+
+  private async verifyUserCode(
+    user: UserWithSecrets,
+    code: string,
+    options: { allowRecoveryCode: boolean },
+  ) {
+    const method = await this.tryUserCode(user, code, options);
+    if (!method) {
+      throw new BadRequestException('Invalid verification code');
+    }
+    return method;
+  }
+
+  private async tryUserCode(
+    user: UserWithSecrets,
+    code: string,
+    options: { allowRecoveryCode: boolean },
+  ): Promise<TwoFactorMethod | null> {
+    if (!user.totpSecret) return null;
+
+    const lastUsedStep =
+      user.totpLastUsedStep !== null ? Number(user.totpLastUsedStep) : null;
+    const step = verifyTotp(this.decryptSecret(user.totpSecret), code, {
+      lastUsedStep,
+    });
+    if (step !== null) {
+      await this.userRepo.update(
+        { id: user.id },
+        { totpLastUsedStep: String(step) },
+      );
+      return 'totp';
+    }
+
+    if (!options.allowRecoveryCode) return null;
+    const hashes = user.recoveryCodeHashes ?? [];
+    const codeHash = hashRecoveryCode(code);
+    const index = hashes.findIndex((hash) => tokenHashesMatch(codeHash, hash));
+    if (index === -1) return null;
+
+    // Recovery codes are single use.
+    await this.userRepo.update(
+      { id: user.id },
+      { recoveryCodeHashes: hashes.filter((_, i) => i !== index) },
+    );
+    return 'recovery_code';
+  }
+
+  private encryptSecret(secret: string) {
+    return encryptTotpSecret(secret, this.getEncryptionKey());
+  }
+
+  private decryptSecret(payload: string) {
+    return decryptTotpSecret(payload, this.getEncryptionKey());
+  }
+
+  private getEncryptionKey() {
+    return (
+      this.configService.get<string>('TOTP_ENCRYPTION_KEY') ??
+      this.configService.get<string>('JWT_SECRET') ??
+      ''
+    );
+  }
+}
@@ -3,12 +3,20 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { BotService } from './bot.service';
 import { BotUpdate } from './bot.update';
 import { BotSubscriber } from './entities/bot-subscriber.entity';
+import { NotificationOptOut } from './entities/notification-opt-out.entity';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { User } from '../users/entities/user.entity';
 import { AdsModule } from '../products/ads.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Global()
 @Module({
-  imports: [TypeOrmModule.forFeature([BotSubscriber]), forwardRef(() => AdsModule)],
-  providers: [BotService, BotUpdate],
-  exports: [BotService],
+  imports: [
+    TypeOrmModule.forFeature([BotSubscriber, NotificationOptOut, User]),
+    forwardRef(() => AdsModule),
+    forwardRef(() => AuthModule),
+  ],
+  providers: [BotService, BotUpdate, NotificationPreferencesService],
+  exports: [BotService, NotificationPreferencesService],
 })
 export class BotModule {}
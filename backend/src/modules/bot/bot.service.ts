@@ -3,8 +3,13 @@ import { InjectBot } from 'nestjs-telegraf';
 import { Context, Input, Markup, Telegraf } from 'telegraf';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, IsNull, Not, Repository } from 'typeorm';
 import { BotSubscriber } from './entities/bot-subscriber.entity';
+import { User } from '../users/entities/user.entity';
+import { Permission, getRolesWithPermission } from '../users/permissions';
+import { parseAdminTelegramIds } from '../../common/admin-telegram-ids';
+import { NotificationType } from './entities/notification-opt-out.entity';
+import { NotificationPreferencesService } from './notification-preferences.service';
 import { existsSync } from 'fs';
 import * as path from 'path';
 
@@ -29,6 +34,26 @@ type AdSubmissionPayload = {
   merchantUsername?: string | null;
   merchantTelegramId?: string | null;
   imagePaths?: string[];
+  screeningFlags?: string[];
+};
+
+type HeldReviewPayload = {
+  adId: number;
+  adTitle: string;
+  commentId: number;
+  reviewerDisplayName: string;
+  commentExcerpt: string;
+  reasons: string[];
+};
+
+type AdReportThresholdPayload = {
+  targetType: 'AD' | 'COMMENT';
+  adId: number;
+  adTitle: string;
+  commentId?: number | null;
+  commentExcerpt?: string | null;
+  reportCount: number;
+  reasons: string[];
 };
 
 type MerchantModerationPayload = {
@@ -51,6 +76,67 @@ type MerchantAdReviewPayload = {
   isNewComment?: boolean;
 };
 
+type ConversationMessagePayload = {
+  telegramId: string;
+  adId: number;
+  adTitle: string;
+  senderDisplayName: string;
+  message: string;
+  isSeller: boolean;
+};
+
+type AdExpiryPayload = {
+  telegramId: string;
+  adId: number;
+  adTitle: string;
+  expiresAt: Date;
+  expired: boolean;
+};
+
+type FavoriteAdPriceDropPayload = {
+  telegramId: string;
+  adTitle: string;
+  previousPrice: number;
+  price: number;
+};
+
+type FavoriteAdRemovedPayload = {
+  telegramId: string;
+  adTitle: string;
+};
+
+type LoginConfirmationPayload = {
+  telegramId: string;
+  challengeId: number;
+  deviceLabel: string | null;
+  ipAddress: string | null;
+};
+
+type StaffRoleChangePayload = {
+  telegramId: string;
+  roleLabel: string | null;
+};
+
+type MerchantVerificationPayload = {
+  telegramId: string;
+  approved: boolean;
+  note?: string | null;
+};
+
+export type InlineButton =
+  | { text: string; url: string }
+  | { text: string; callbackData: string };
+
+type SavedSearchDigestPayload = {
+  telegramId: string;
+  searches: Array<{
+    name: string;
+    query: string | null;
+    categoryIds: number[] | null;
+    ads: Array<{ id: number; name: string; price: number }>;
+  }>;
+};
+
 @Injectable()
 export class BotService {
   private readonly logger = new Logger(BotService.name);
@@ -60,6 +146,9 @@ export class BotService {
     private readonly configService: ConfigService,
     @InjectRepository(BotSubscriber)
     private readonly subscriberRepo: Repository<BotSubscriber>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    private readonly notificationPreferences: NotificationPreferencesService,
   ) {}
 
   async registerSubscriber(from: TelegramSourceUser | null | undefined) {
@@ -106,10 +195,10 @@ export class BotService {
   }
 
   async notifyAdminAdSubmission(payload: AdSubmissionPayload): Promise<void> {
-    const adminIds = this.getAdminTelegramIds();
+    const adminIds = await this.getStaffTelegramIds(Permission.ADS_MODERATE);
     if (adminIds.length === 0) {
       this.logger.warn(
-        'TELEGRAM_ADMIN_ID not configured; skipping ad submission notification',
+        'No moderators with Telegram linked; skipping ad submission notification',
       );
       return;
     }
@@ -152,9 +241,19 @@ export class BotService {
       `Merchant: <b>${safeMerchantName}</b> (ID: <code>${safeMerchantId}</code>)`,
       `Merchant Telegram: <code>${safeMerchantTelegramId}</code>`,
       `Merchant Username: ${safeMerchantUsername}`,
+    ];
+    const screeningFlags = payload.screeningFlags ?? [];
+    if (screeningFlags.length > 0) {
+      lines.push(
+        '',
+        '⚠️ <b>Auto-screen flags</b>',
+        ...screeningFlags.map((flag) => `• ${this.escapeHtml(flag)}`),
+      );
+    }
+    lines.push(
       '',
       `Review in admin dashboard: <a href="${safeUrl}">${safeUrl}</a>`,
-    ];
+    );
 
     const caption = lines.join('\n');
     const callbackBase = `admod:${payload.adId}`;
@@ -214,9 +313,105 @@ export class BotService {
     }
   }
 
+  async notifyAdminReportThreshold(
+    payload: AdReportThresholdPayload,
+  ): Promise<void> {
+    const adminIds = await this.getStaffTelegramIds(Permission.REPORTS_MANAGE);
+    if (adminIds.length === 0) {
+      this.logger.warn(
+        'No moderators with Telegram linked; skipping report threshold alert',
+      );
+      return;
+    }
+
+    const reportsUrl = this.escapeHtml(`${this.getDashboardBaseUrl()}/reports`);
+    const lines = [
+      payload.targetType === 'COMMENT'
+        ? '🚩 <b>Review reported multiple times</b>'
+        : '🚩 <b>Ad reported multiple times</b>',
+      '',
+      `Ad: <b>${this.escapeHtml(payload.adTitle || 'Untitled ad')}</b> (ID: <code>${payload.adId}</code>)`,
+    ];
+    if (payload.targetType === 'COMMENT') {
+      lines.push(
+        `Review ID: <code>${this.escapeHtml(String(payload.commentId ?? '-'))}</code>`,
+      );
+      const excerpt = payload.commentExcerpt?.trim();
+      if (excerpt) {
+        lines.push('', `<i>${this.escapeHtml(excerpt.slice(0, 300))}</i>`);
+      }
+    }
+    lines.push(
+      '',
+      `Open reports: <b>${payload.reportCount}</b>`,
+      `Reasons: ${this.escapeHtml(payload.reasons.join(', ') || '-')}`,
+      '',
+      `Review the queue: <a href="${reportsUrl}">${reportsUrl}</a>`,
+    );
+
+    for (const adminId of adminIds) {
+      try {
+        await this.bot.telegram.sendMessage(adminId, lines.join('\n'), {
+          parse_mode: 'HTML',
+        });
+      } catch (error) {
+        const err = error as Error;
+        this.logger.warn(
+          `Failed to send report alert to admin ${adminId}: ${err.message}`,
+        );
+      }
+    }
+  }
+
+  async notifyAdminReviewHeld(payload: HeldReviewPayload): Promise<void> {
+    const adminIds = await this.getStaffTelegramIds(
+      Permission.REVIEWS_MODERATE,
+    );
+    if (adminIds.length === 0) {
+      this.logger.warn(
+        'No moderators with Telegram linked; skipping held review alert',
+      );
+      return;
+    }
+
+    const adManageUrl = this.escapeHtml(this.getAdsManageUrl());
+    const lines = [
+      '⏸ <b>Review held by auto-screen</b>',
+      '',
+      `Ad: <b>${this.escapeHtml(payload.adTitle || 'Untitled ad')}</b> (ID: <code>${payload.adId}</code>)`,
+      `Review ID: <code>${payload.commentId}</code>`,
+      `From: <b>${this.escapeHtml(payload.reviewerDisplayName)}</b>`,
+      '',
+      `<i>${this.escapeHtml(payload.commentExcerpt.slice(0, 300))}</i>`,
+      '',
+      ...payload.reasons.map((reason) => `• ${this.escapeHtml(reason)}`),
+      '',
+      `Approve or remove it in the dashboard: <a href="${adManageUrl}">${adManageUrl}</a>`,
+    ];
+
+    for (const adminId of adminIds) {
+      try {
+        await this.bot.telegram.sendMessage(adminId, lines.join('\n'), {
+          parse_mode: 'HTML',
+        });
+      } catch (error) {
+        const err = error as Error;
+        this.logger.warn(
+          `Failed to send held review alert to admin ${adminId}: ${err.message}`,
+        );
+      }
+    }
+  }
+
   async notifyMerchantAdModeration(
     payload: MerchantModerationPayload,
   ): Promise<void> {
+    const enabled = await this.isNotificationEnabled(
+      payload.telegramId,
+      NotificationType.MODERATION_RESULT,
+    );
+    if (!enabled) return;
+
     const decision = payload.status === 'APPROVED' ? 'approved' : 'rejected';
     const lines = [
       payload.status === 'APPROVED'
@@ -243,6 +438,12 @@ export class BotService {
   }
 
   async notifyMerchantAdReview(payload: MerchantAdReviewPayload): Promise<void> {
+    const enabled = await this.isNotificationEnabled(
+      payload.telegramId,
+      NotificationType.NEW_REVIEW,
+    );
+    if (!enabled) return;
+
     const hasRating = Number.isInteger(payload.rating);
     const commentText = payload.comment?.trim() ?? '';
     const hasComment = commentText.length > 0;
@@ -276,10 +477,256 @@ export class BotService {
     await this.notifyUser(payload.telegramId, lines.join('\n'));
   }
 
-  isAdminTelegramId(telegramId: string): boolean {
+  async notifyConversationMessage(
+    payload: ConversationMessagePayload,
+  ): Promise<void> {
+    const enabled = await this.isNotificationEnabled(
+      payload.telegramId,
+      NotificationType.CONVERSATION_MESSAGE,
+    );
+    if (!enabled) return;
+
+    const preview =
+      payload.message.length > 300
+        ? `${payload.message.slice(0, 297)}...`
+        : payload.message;
+    const lines = [
+      payload.isSeller
+        ? '✉️ <b>New message about your ad</b>'
+        : '✉️ <b>The seller replied to you</b>',
+      '',
+      `Ad: <b>${this.escapeHtml(payload.adTitle || 'Untitled ad')}</b>`,
+      `Ad ID: <code>${this.escapeHtml(String(payload.adId))}</code>`,
+      `From: <b>${this.escapeHtml(payload.senderDisplayName || 'User')}</b>`,
+      '',
+      this.escapeHtml(preview),
+    ];
+
+    const storefrontUrl = this.normalizeHttpUrl(
+      this.configService.get<string>('STOREFRONT_URL') ?? '',
+    );
+    if (storefrontUrl) {
+      const safeUrl = this.escapeHtml(`${storefrontUrl}/dashboard`);
+      lines.push(
+        '',
+        `Reply from your dashboard: <a href="${safeUrl}">${safeUrl}</a>`,
+      );
+    }
+
+    await this.sendUserMessage(payload.telegramId, lines.join('\n'));
+  }
+
+  async notifySavedSearchDigest(
+    payload: SavedSearchDigestPayload,
+  ): Promise<void> {
+    const enabled = await this.isNotificationEnabled(
+      payload.telegramId,
+      NotificationType.SAVED_SEARCH,
+    );
+    if (!enabled) return;
+
+    const storefrontUrl = this.normalizeHttpUrl(
+      this.configService.get<string>('STOREFRONT_URL') ?? '',
+    );
+    const lines = ['🔎 <b>New ads match your saved searches</b>'];
+
+    for (const search of payload.searches) {
+      const title = `<b>${this.escapeHtml(search.name)}</b>`;
+      if (storefrontUrl) {
+        const params = new URLSearchParams();
+        if (search.query) params.set('q', search.query);
+        if (search.categoryIds?.length) {
+          params.set('categoryIds', search.categoryIds.join(','));
+        }
+        const query = params.toString();
+        const safeUrl = this.escapeHtml(
+          `${storefrontUrl}/${query ? `?${query}` : ''}#collection`,
+        );
+        lines.push('', `<a href="${safeUrl}">${title}</a>`);
+      } else {
+        lines.push('', title);
+      }
+
+      for (const ad of search.ads) {
+        const price = Number(ad.price).toLocaleString('en-US');
+        lines.push(
+          `• ${this.escapeHtml(ad.name || 'Untitled ad')} — ${price} Birr`,
+        );
+      }
+    }
+
+    if (storefrontUrl) {
+      const safeUrl = this.escapeHtml(`${storefrontUrl}/dashboard`);
+      lines.push(
+        '',
+        `Manage alerts from your dashboard: <a href="${safeUrl}">${safeUrl}</a>`,
+      );
+    }
+
+    await this.sendUserMessage(payload.telegramId, lines.join('\n'));
+  }
+
+  async notifyAdExpiry(payload: AdExpiryPayload): Promise<void> {
+    const enabled = await this.isNotificationEnabled(
+      payload.telegramId,
+      NotificationType.AD_EXPIRY,
+    );
+    if (!enabled) return;
+
+    const expiresOn = payload.expiresAt.toISOString().slice(0, 10);
+    const lines = [
+      payload.expired
+        ? '📦 <b>Your ad has expired</b>'
+        : '⏳ <b>Your ad expires soon</b>',
+      '',
+      `Ad: <b>${this.escapeHtml(payload.adTitle || 'Untitled ad')}</b>`,
+      `Ad ID: <code>${this.escapeHtml(String(payload.adId))}</code>`,
+      payload.expired
+        ? 'It was archived and is no longer visible to buyers.'
+        : `Expires on: <b>${this.escapeHtml(expiresOn)}</b>`,
+      '',
+      'Tap renew to keep it listed.',
+    ];
+
+    const renewKeyboard = Markup.inlineKeyboard([
+      [Markup.button.callback('🔁 Renew ad', `adrenew:${payload.adId}`)],
+    ]).reply_markup;
+
+    try {
+      await this.bot.telegram.sendMessage(
+        payload.telegramId,
+        lines.join('\n'),
+        {
+          parse_mode: 'HTML',
+          reply_markup: renewKeyboard,
+        },
+      );
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(
+        `Failed to send expiry notice for ad ${payload.adId}: ${err.message}`,
+      );
+    }
+  }
+
+  async notifyStaffRoleChange(payload: StaffRoleChangePayload): Promise<void> {
+    const message = payload.roleLabel
+      ? [
+          `🛡 You now have <b>${this.escapeHtml(payload.roleLabel)}</b> access to the admin dashboard.`,
+          '',
+          `Sign in: ${this.escapeHtml(this.getDashboardBaseUrl())}`,
+        ].join('\n')
+      : 'Your admin dashboard access has been removed.';
+    await this.notifyUser(payload.telegramId, message);
+  }
+
+  async notifyMerchantVerification(
+    payload: MerchantVerificationPayload,
+  ): Promise<void> {
+    const lines = payload.approved
+      ? [
+          '✅ <b>Your seller account is verified</b>',
+          '',
+          'Buyers now see a verified badge on your ads and profile.',
+        ]
+      : [
+          '❌ <b>Verification was not approved</b>',
+          '',
+          'You can upload clearer documents and submit again from your dashboard.',
+        ];
+
+    if (payload.note?.trim()) {
+      lines.push('', `Note: ${this.escapeHtml(payload.note.trim())}`);
+    }
+
+    await this.notifyUser(payload.telegramId, lines.join('\n'));
+  }
+
+  /** Throws on delivery failure so the login screen can offer another method. */
+  async sendLoginConfirmation(
+    payload: LoginConfirmationPayload,
+  ): Promise<void> {
+    const lines = [
+      '🔐 <b>Confirm sign-in</b>',
+      '',
+      'Someone entered your password on the Gebeya Pro dashboard.',
+      `Device: <b>${this.escapeHtml(payload.deviceLabel || 'Unknown device')}</b>`,
+      ...(payload.ipAddress
+        ? [`IP: <code>${this.escapeHtml(payload.ipAddress)}</code>`]
+        : []),
+      '',
+      "If this wasn't you, deny it and change your password.",
+    ];
+
+    await this.sendUserMessage(payload.telegramId, lines.join('\n'), 'HTML', [
+      [
+        {
+          text: '✅ Approve',
+          callbackData: `login2fa:${payload.challengeId}:approve`,
+        },
+        {
+          text: '❌ Deny',
+          callbackData: `login2fa:${payload.challengeId}:deny`,
+        },
+      ],
+    ]);
+  }
+
+  async notifyFavoriteAdPriceDrop(
+    payload: FavoriteAdPriceDropPayload,
+  ): Promise<void> {
+    const enabled = await this.isNotificationEnabled(
+      payload.telegramId,
+      NotificationType.PRICE_ALERT,
+    );
+    if (!enabled) return;
+
+    const lines = [
+      '💸 <b>Price drop on an ad you saved</b>',
+      '',
+      `Ad: <b>${this.escapeHtml(payload.adTitle || 'Untitled ad')}</b>`,
+      `Was: <s>${Number(payload.previousPrice).toLocaleString('en-US')} Birr</s>`,
+      `Now: <b>${Number(payload.price).toLocaleString('en-US')} Birr</b>`,
+    ];
+
+    const storefrontUrl = this.normalizeHttpUrl(
+      this.configService.get<string>('STOREFRONT_URL') ?? '',
+    );
+    if (storefrontUrl) {
+      const safeUrl = this.escapeHtml(`${storefrontUrl}/dashboard`);
+      lines.push('', `Your favorites: <a href="${safeUrl}">${safeUrl}</a>`);
+    }
+
+    await this.notifyUser(payload.telegramId, lines.join('\n'));
+  }
+
+  async notifyFavoriteAdRemoved(
+    payload: FavoriteAdRemovedPayload,
+  ): Promise<void> {
+    const enabled = await this.isNotificationEnabled(
+      payload.telegramId,
+      NotificationType.PRICE_ALERT,
+    );
+    if (!enabled) return;
+
+    await this.notifyUser(
+      payload.telegramId,
+      [
+        '🗑️ <b>An ad you saved was removed</b>',
+        '',
+        `Ad: <b>${this.escapeHtml(payload.adTitle || 'Untitled ad')}</b>`,
+        'It is no longer available on the marketplace.',
+      ].join('\n'),
+    );
+  }
+
+  async canModerateFromTelegram(telegramId: string): Promise<boolean> {
     const normalized = String(telegramId ?? '').trim();
     if (!normalized) return false;
-    return this.getAdminTelegramIds().includes(normalized);
+    const moderatorIds = await this.getStaffTelegramIds(
+      Permission.ADS_MODERATE,
+    );
+    return moderatorIds.includes(normalized);
   }
 
   async notifyUser(telegramId: string, message: string): Promise<void> {
@@ -294,9 +741,12 @@ export class BotService {
   async sendUserMessage(
     telegramId: string,
     message: string,
+    parseMode: 'HTML' | 'MarkdownV2' = 'HTML',
+    buttons?: InlineButton[][],
   ): Promise<{ messageId: number }> {
     const response = await this.bot.telegram.sendMessage(telegramId, message, {
-      parse_mode: 'HTML',
+      parse_mode: parseMode,
+      reply_markup: this.buildInlineKeyboard(buttons),
     });
     return { messageId: response.message_id };
   }
@@ -305,30 +755,52 @@ export class BotService {
     telegramId: string,
     message: string,
     imagePaths?: string[],
+    parseMode: 'HTML' | 'MarkdownV2' = 'HTML',
+    buttons?: InlineButton[][],
   ): Promise<{ messageId: number }> {
     const trimmedMessage = String(message ?? '').trim();
     const media = (imagePaths ?? [])
       .slice(0, 3)
       .map((imagePath) => this.resolveLocalUploadPath(imagePath))
       .filter((filePath): filePath is string => Boolean(filePath));
+    const replyMarkup = this.buildInlineKeyboard(buttons);
 
     if (media.length === 0) {
-      return this.sendUserMessage(telegramId, trimmedMessage);
+      return this.sendUserMessage(
+        telegramId,
+        trimmedMessage,
+        parseMode,
+        buttons,
+      );
     }
 
-    const canUseCaption = trimmedMessage.length > 0 && trimmedMessage.length <= 1024;
+    // Media groups cannot carry a keyboard, so the text goes out on its own
+    // message with the buttons attached.
+    const canUseCaption =
+      trimmedMessage.length > 0 &&
+      trimmedMessage.length <= 1024 &&
+      (media.length === 1 || !replyMarkup);
 
     if (media.length === 1) {
       const photoResponse = await this.bot.telegram.sendPhoto(
         telegramId,
         Input.fromLocalFile(media[0]),
         canUseCaption
-          ? { caption: trimmedMessage, parse_mode: 'HTML' }
+          ? {
+              caption: trimmedMessage,
+              parse_mode: parseMode,
+              reply_markup: replyMarkup,
+            }
           : undefined,
       );
 
       if (!canUseCaption && trimmedMessage) {
-        await this.sendUserMessage(telegramId, trimmedMessage);
+        await this.sendUserMessage(
+          telegramId,
+          trimmedMessage,
+          parseMode,
+          buttons,
+        );
       }
 
       return { messageId: photoResponse.message_id };
@@ -340,18 +812,27 @@ export class BotService {
         type: 'photo' as const,
         media: Input.fromLocalFile(filePath),
         ...(index === 0 && canUseCaption
-          ? { caption: trimmedMessage, parse_mode: 'HTML' as const }
+          ? { caption: trimmedMessage, parse_mode: parseMode }
           : {}),
       })),
     );
 
     if (!canUseCaption && trimmedMessage) {
-      await this.sendUserMessage(telegramId, trimmedMessage);
+      await this.sendUserMessage(
+        telegramId,
+        trimmedMessage,
+        parseMode,
+        buttons,
+      );
     }
 
     return { messageId: groupResponse[0]?.message_id ?? 0 };
   }
 
+  getDashboardUrl(): string {
+    return this.getDashboardBaseUrl();
+  }
+
   private getAdsManageUrl(): string {
     const base = this.getDashboardBaseUrl();
     if (base.toLowerCase().endsWith('/ads')) {
@@ -381,9 +862,45 @@ export class BotService {
     return preferredOrigin ?? 'http://localhost:5173';
   }
 
+  private buildInlineKeyboard(buttons?: InlineButton[][]) {
+    const rows = (buttons ?? []).filter((row) => row.length > 0);
+    if (rows.length === 0) return undefined;
+    return Markup.inlineKeyboard(
+      rows.map((row) =>
+        row.map((button) =>
+          'url' in button
+            ? Markup.button.url(button.text, button.url)
+            : Markup.button.callback(button.text, button.callbackData),
+        ),
+      ),
+    ).reply_markup;
+  }
+
   private getAdminTelegramIds(): string[] {
-    const raw = this.configService.get<string>('TELEGRAM_ADMIN_ID') ?? '';
-    return [...new Set(raw.split(',').map((entry) => entry.trim()).filter(Boolean))];
+    return parseAdminTelegramIds(
+      this.configService.get<string>('TELEGRAM_ADMIN_ID'),
+    );
+  }
+
+  /**
+   * Telegram IDs of active staff whose role holds the permission, plus the
+   * bootstrap admins from TELEGRAM_ADMIN_ID.
+   */
+  private async getStaffTelegramIds(permission: Permission): Promise<string[]> {
+    const staff = await this.userRepo.find({
+      where: {
+        role: In(getRolesWithPermission(permission)),
+        telegramId: Not(IsNull()),
+        isBanned: false,
+      },
+      select: { id: true, telegramId: true },
+    });
+    return [
+      ...new Set([
+        ...this.getAdminTelegramIds(),
+        ...staff.map((user) => String(user.telegramId).trim()).filter(Boolean),
+      ]),
+    ];
   }
 
   private formatTelegramUsername(rawUsername?: string | null): string {
@@ -413,6 +930,22 @@ export class BotService {
     return absolutePath;
   }
 
+  // A failed preference lookup should not swallow the notification.
+  private async isNotificationEnabled(
+    telegramId: string,
+    type: NotificationType,
+  ) {
+    try {
+      return await this.notificationPreferences.isEnabled(telegramId, type);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(
+        `Failed to read notification preferences for ${telegramId}: ${err.message}`,
+      );
+      return true;
+    }
+  }
+
   private normalizeHttpUrl(rawUrl: string): string | null {
     const trimmed = String(rawUrl ?? '').trim();
     if (!trimmed) return null;
@@ -1,8 +1,26 @@
 import { Logger } from '@nestjs/common';
-import { Update, Ctx, Start, Action } from 'nestjs-telegraf';
-import { Context } from 'telegraf';
+import { Update, Ctx, Start, Action, Command } from 'nestjs-telegraf';
+import { Context, Markup } from 'telegraf';
 import { BotService } from './bot.service';
+import {
+  NotificationPreferences,
+  NotificationPreferencesService,
+} from './notification-preferences.service';
+import { NotificationType } from './entities/notification-opt-out.entity';
 import { AdsService } from '../products/ads.service';
+import { TwoFactorService } from '../auth/two-factor.service';
+
+const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  [NotificationType.ANNOUNCEMENT]: 'Announcements',
+  [NotificationType.NEWS]: 'News',
+  [NotificationType.PROMOTION]: 'Promotions',
+  [NotificationType.NEW_REVIEW]: 'Reviews on my ads',
+  [NotificationType.MODERATION_RESULT]: 'Ad moderation results',
+  [NotificationType.PRICE_ALERT]: 'Favorite price alerts',
+  [NotificationType.CONVERSATION_MESSAGE]: 'Buyer and seller messages',
+  [NotificationType.SAVED_SEARCH]: 'Saved search matches',
+  [NotificationType.AD_EXPIRY]: 'Ad expiry reminders',
+};
 
 type ActionContext = Context & {
   match?: RegExpExecArray;
@@ -22,17 +40,94 @@ export class BotUpdate {
 
   constructor(
     private readonly botService: BotService,
+    private readonly notificationPreferences: NotificationPreferencesService,
     private readonly adsService: AdsService,
+    private readonly twoFactorService: TwoFactorService,
   ) {}
 
   @Start()
   async onStart(@Ctx() ctx: Context) {
     await this.botService.registerSubscriber(ctx.from);
     await ctx.reply(
-      '👋 Welcome to Gebeya Pro.\n\nYou may receive ad moderation and marketplace announcements here.',
+      '👋 Welcome to Gebeya Pro.\n\nYou may receive ad moderation and marketplace announcements here.\nSend /settings to choose what you get, or /stop to turn everything off.',
+    );
+  }
+
+  @Command('settings')
+  async onSettings(@Ctx() ctx: Context) {
+    await this.botService.registerSubscriber(ctx.from);
+
+    const telegramId = String(ctx.from?.id ?? '').trim();
+    if (!telegramId) return;
+
+    const preferences =
+      await this.notificationPreferences.getPreferences(telegramId);
+    await ctx.reply(
+      '🔔 Notification settings\n\nTap a topic to turn it on or off.',
+      this.buildSettingsKeyboard(preferences),
     );
   }
 
+  @Command('stop')
+  async onStop(@Ctx() ctx: Context) {
+    await this.botService.registerSubscriber(ctx.from);
+
+    const telegramId = String(ctx.from?.id ?? '').trim();
+    if (!telegramId) return;
+
+    await this.notificationPreferences.disableAll(telegramId);
+    await ctx.reply(
+      '🔕 All notifications are off. Send /settings to turn some back on.',
+    );
+  }
+
+  @Action(/^notif:(\w+)$/)
+  async onNotificationToggleAction(@Ctx() ctx: Context) {
+    await this.botService.registerSubscriber(ctx.from);
+
+    const actionCtx = ctx as ActionContext;
+    const choice = actionCtx.match?.[1];
+    const telegramId = String(ctx.from?.id ?? '').trim();
+    if (!choice || !telegramId) {
+      await this.safeAnswerCallback(actionCtx, 'Invalid action payload');
+      return;
+    }
+
+    try {
+      if (choice === 'all') {
+        await this.notificationPreferences.enableAll(telegramId);
+        await this.safeAnswerCallback(actionCtx, 'All notifications on');
+      } else if (this.isNotificationType(choice)) {
+        const enabled = await this.notificationPreferences.isEnabled(
+          telegramId,
+          choice,
+        );
+        if (enabled) {
+          await this.notificationPreferences.disable(telegramId, choice);
+        } else {
+          await this.notificationPreferences.enable(telegramId, choice);
+        }
+        await this.safeAnswerCallback(
+          actionCtx,
+          `${NOTIFICATION_TYPE_LABELS[choice]} ${enabled ? 'off' : 'on'}`,
+        );
+      } else {
+        await this.safeAnswerCallback(actionCtx, 'Invalid action payload');
+        return;
+      }
+
+      const preferences =
+        await this.notificationPreferences.getPreferences(telegramId);
+      await this.refreshSettingsKeyboard(actionCtx, preferences);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Update failed';
+      this.logger.warn(
+        `Notification settings update failed for ${telegramId}: ${message}`,
+      );
+      await this.safeAnswerCallback(actionCtx, 'Update failed');
+    }
+  }
+
   @Action(/^admod:(\d+):(approve|reject)$/)
   async onAdModerationAction(@Ctx() ctx: Context) {
     await this.botService.registerSubscriber(ctx.from);
@@ -46,7 +141,7 @@ export class BotUpdate {
       return;
     }
 
-    if (!this.botService.isAdminTelegramId(adminTelegramId)) {
+    if (!(await this.botService.canModerateFromTelegram(adminTelegramId))) {
       await this.safeAnswerCallback(actionCtx, 'Not authorized');
       return;
     }
@@ -80,6 +175,199 @@ export class BotUpdate {
     }
   }
 
+  @Action(/^adrenew:(\d+)$/)
+  async onAdRenewAction(@Ctx() ctx: Context) {
+    await this.botService.registerSubscriber(ctx.from);
+
+    const actionCtx = ctx as ActionContext;
+    const match = actionCtx.match;
+    const telegramId = String(ctx.from?.id ?? '').trim();
+
+    if (!match) {
+      await this.safeAnswerCallback(actionCtx, 'Invalid action payload');
+      return;
+    }
+
+    const adId = Number.parseInt(match[1], 10);
+
+    try {
+      const renewed = await this.adsService.renewFromTelegramAction({
+        adId,
+        telegramId,
+      });
+      await this.clearActionButtons(actionCtx);
+      const expiresOn = renewed.expiresAt
+        ? renewed.expiresAt.toISOString().slice(0, 10)
+        : null;
+      try {
+        await ctx.reply(
+          expiresOn
+            ? `🔁 Ad #${adId} renewed. It stays listed until ${expiresOn}.`
+            : `🔁 Ad #${adId} renewed.`,
+        );
+      } catch {
+        // no-op
+      }
+      await this.safeAnswerCallback(actionCtx, `Ad #${adId} renewed`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Renewal failed';
+      this.logger.warn(
+        `Telegram renewal failed for ad ${adId} by ${telegramId}: ${message}`,
+      );
+      await this.safeAnswerCallback(actionCtx, message);
+    }
+  }
+
+  @Action(/^login2fa:(\d+):(approve|deny)$/)
+  async onLoginConfirmationAction(@Ctx() ctx: Context) {
+    await this.botService.registerSubscriber(ctx.from);
+
+    const actionCtx = ctx as ActionContext;
+    const match = actionCtx.match;
+    const telegramId = String(ctx.from?.id ?? '').trim();
+
+    if (!match || !telegramId) {
+      await this.safeAnswerCallback(actionCtx, 'Invalid action payload');
+      return;
+    }
+
+    const challengeId = Number.parseInt(match[1], 10);
+    const approve = match[2] === 'approve';
+
+    try {
+      await this.twoFactorService.resolveTelegramConfirmation({
+        challengeId,
+        telegramId,
+        approve,
+      });
+      await this.clearActionButtons(actionCtx);
+      try {
+        await ctx.reply(
+          approve
+            ? '✅ Sign-in approved. You can return to the dashboard.'
+            : "🚫 Sign-in denied. If this wasn't you, change your password.",
+        );
+      } catch {
+        // no-op
+      }
+      await this.safeAnswerCallback(
+        actionCtx,
+        approve ? 'Sign-in approved' : 'Sign-in denied',
+      );
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Confirmation failed';
+      this.logger.warn(
+        `Login confirmation ${challengeId} failed for ${telegramId}: ${message}`,
+      );
+      await this.clearActionButtons(actionCtx);
+      await this.safeAnswerCallback(actionCtx, message);
+    }
+  }
+
+  @Action(/^annmute:(news|promotion)$/)
+  async onAnnouncementMuteAction(@Ctx() ctx: Context) {
+    await this.botService.registerSubscriber(ctx.from);
+
+    const actionCtx = ctx as ActionContext;
+    const kind = actionCtx.match?.[1];
+    const telegramId = String(ctx.from?.id ?? '').trim();
+    if (!kind || !telegramId) {
+      await this.safeAnswerCallback(actionCtx, 'Invalid action payload');
+      return;
+    }
+
+    const label = this.formatAnnouncementKind(kind);
+    try {
+      await this.notificationPreferences.disable(
+        telegramId,
+        kind as NotificationType,
+      );
+      try {
+        await ctx.reply(
+          `🔕 You unsubscribed from ${label}. Tap below if you change your mind.`,
+          Markup.inlineKeyboard([
+            [Markup.button.callback('🔔 Subscribe again', `annunmute:${kind}`)],
+          ]),
+        );
+      } catch {
+        // no-op
+      }
+      await this.safeAnswerCallback(actionCtx, `Unsubscribed from ${label}`);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Unsubscribe failed';
+      this.logger.warn(
+        `Announcement mute failed for ${telegramId} (${kind}): ${message}`,
+      );
+      await this.safeAnswerCallback(actionCtx, 'Unsubscribe failed');
+    }
+  }
+
+  @Action(/^annunmute:(news|promotion)$/)
+  async onAnnouncementUnmuteAction(@Ctx() ctx: Context) {
+    await this.botService.registerSubscriber(ctx.from);
+
+    const actionCtx = ctx as ActionContext;
+    const kind = actionCtx.match?.[1];
+    const telegramId = String(ctx.from?.id ?? '').trim();
+    if (!kind || !telegramId) {
+      await this.safeAnswerCallback(actionCtx, 'Invalid action payload');
+      return;
+    }
+
+    const label = this.formatAnnouncementKind(kind);
+    try {
+      await this.notificationPreferences.enable(
+        telegramId,
+        kind as NotificationType,
+      );
+      await this.clearActionButtons(actionCtx);
+      await this.safeAnswerCallback(actionCtx, `Subscribed to ${label} again`);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Subscribe failed';
+      this.logger.warn(
+        `Announcement unmute failed for ${telegramId} (${kind}): ${message}`,
+      );
+      await this.safeAnswerCallback(actionCtx, 'Subscribe failed');
+    }
+  }
+
+  private formatAnnouncementKind(kind: string) {
+    return kind === 'promotion' ? 'promotions' : kind;
+  }
+
+  private isNotificationType(value: string): value is NotificationType {
+    return (Object.values(NotificationType) as string[]).includes(value);
+  }
+
+  private buildSettingsKeyboard(preferences: NotificationPreferences) {
+    const rows = Object.values(NotificationType).map((type) => [
+      Markup.button.callback(
+        `${preferences[type] ? '✅' : '🚫'} ${NOTIFICATION_TYPE_LABELS[type]}`,
+        `notif:${type}`,
+      ),
+    ]);
+    rows.push([Markup.button.callback('🔔 Turn everything on', 'notif:all')]);
+    return Markup.inlineKeyboard(rows);
+  }
+
+  private async refreshSettingsKeyboard(
+    ctx: ActionContext,
+    preferences: NotificationPreferences,
+  ) {
+    if (!ctx.editMessageReplyMarkup) return;
+
+    try {
+      await ctx.editMessageReplyMarkup(
+        this.buildSettingsKeyboard(preferences).reply_markup,
+      );
+    } catch {
+      // Telegram rejects edits that leave the keyboard unchanged.
+    }
+  }
+
   private async safeAnswerCallback(ctx: ActionContext, message: string) {
     if (!ctx.answerCbQuery) return;
 
@@ -0,0 +1,30 @@
+import { Column, Entity, Index } from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+
+// The first three mirror AnnouncementKind so runs can filter by kind.
+export enum NotificationType {
+  ANNOUNCEMENT = 'announcement',
+  NEWS = 'news',
+  PROMOTION = 'promotion',
+  NEW_REVIEW = 'new_review',
+  MODERATION_RESULT = 'moderation_result',
+  PRICE_ALERT = 'price_alert',
+  CONVERSATION_MESSAGE = 'conversation_message',
+  SAVED_SEARCH = 'saved_search',
+  AD_EXPIRY = 'ad_expiry',
+}
+
+// Everything is on by default; a row means the Telegram user turned a
+// notification type off. Keyed by telegramId so guest subscribers who never
+// registered can opt out too.
+@Entity('notification_opt_outs')
+@Index('uq_notification_opt_outs_telegramId_type', ['telegramId', 'type'], {
+  unique: true,
+})
+export class NotificationOptOut extends AbstractEntity {
+  @Column({ type: 'varchar', length: 64 })
+  telegramId: string;
+
+  @Column({ type: 'enum', enum: NotificationType })
+  type: NotificationType;
+}
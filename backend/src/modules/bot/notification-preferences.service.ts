@@ -0,0 +1,105 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  NotificationOptOut,
+  NotificationType,
+} from './entities/notification-opt-out.entity';
+
+export type NotificationPreferences = Record<NotificationType, boolean>;
+
+export const NOTIFICATION_TYPES = Object.values(NotificationType);
+
+@Injectable()
+export class NotificationPreferencesService {
+  constructor(
+    @InjectRepository(NotificationOptOut)
+    private readonly optOutRepo: Repository<NotificationOptOut>,
+  ) {}
+
+  async getPreferences(
+    telegramId: string | null | undefined,
+  ): Promise<NotificationPreferences> {
+    const normalized = this.normalizeTelegramId(telegramId);
+    const optOuts = normalized
+      ? await this.optOutRepo.find({ where: { telegramId: normalized } })
+      : [];
+    const disabled = new Set(optOuts.map((optOut) => optOut.type));
+    return Object.fromEntries(
+      NOTIFICATION_TYPES.map((type) => [type, !disabled.has(type)]),
+    ) as NotificationPreferences;
+  }
+
+  async updatePreferences(
+    telegramId: string,
+    changes: Partial<NotificationPreferences>,
+  ): Promise<NotificationPreferences> {
+    for (const type of NOTIFICATION_TYPES) {
+      const enabled = changes[type];
+      if (enabled === true) {
+        await this.enable(telegramId, type);
+      } else if (enabled === false) {
+        await this.disable(telegramId, type);
+      }
+    }
+    return this.getPreferences(telegramId);
+  }
+
+  async isEnabled(
+    telegramId: string | null | undefined,
+    type: NotificationType,
+  ): Promise<boolean> {
+    const normalized = this.normalizeTelegramId(telegramId);
+    if (!normalized) return false;
+    const optedOut = await this.optOutRepo.exists({
+      where: { telegramId: normalized, type },
+    });
+    return !optedOut;
+  }
+
+  async disable(telegramId: string, type: NotificationType) {
+    const normalized = this.normalizeTelegramId(telegramId);
+    if (!normalized) return;
+
+    await this.optOutRepo
+      .createQueryBuilder()
+      .insert()
+      .into(NotificationOptOut)
+      .values({ telegramId: normalized, type })
+      .orIgnore()
+      .execute();
+  }
+
+  async enable(telegramId: string, type: NotificationType) {
+    const normalized = this.normalizeTelegramId(telegramId);
+    if (!normalized) return;
+
+    await this.optOutRepo.delete({ telegramId: normalized, type });
+  }
+
+  async disableAll(telegramId: string) {
+    const normalized = this.normalizeTelegramId(telegramId);
+    if (!normalized) return;
+
+    await this.optOutRepo
+      .createQueryBuilder()
+      .insert()
+      .into(NotificationOptOut)
+      .values(
+        NOTIFICATION_TYPES.map((type) => ({ telegramId: normalized, type })),
+      )
+      .orIgnore()
+      .execute();
+  }
+
+  async enableAll(telegramId: string) {
+    const normalized = this.normalizeTelegramId(telegramId);
+    if (!normalized) return;
+
+    await this.optOutRepo.delete({ telegramId: normalized });
+  }
+
+  private normalizeTelegramId(telegramId: string | null | undefined) {
+    return String(telegramId ?? '').trim() || null;
+  }
+}
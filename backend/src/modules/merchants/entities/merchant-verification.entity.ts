@@ -0,0 +1,48 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+import { User } from '../../users/entities/user.entity';
+
+export enum MerchantVerificationStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+}
+
+@Entity('merchant_verifications')
+@Index('idx_merchant_verifications_status_createdAt', ['status', 'createdAt'])
+export class MerchantVerification extends AbstractEntity {
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'merchantId' })
+  merchant: User;
+
+  @Index('idx_merchant_verifications_merchantId')
+  @Column({ type: 'int' })
+  merchantId: number;
+
+  @Column({
+    type: 'enum',
+    enum: MerchantVerificationStatus,
+    default: MerchantVerificationStatus.PENDING,
+  })
+  status: MerchantVerificationStatus;
+
+  // File names inside the private verification folder, never under /uploads.
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  businessLicenseFile: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  idDocumentFile: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  reviewNote: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'reviewedById' })
+  reviewedBy: User | null;
+
+  @Column({ type: 'int', nullable: true })
+  reviewedById: number | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  reviewedAt: Date | null;
+}
@@ -0,0 +1,109 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { FastifyRequest } from 'fastify';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import {
+  assertMultipartRequest,
+  drainMultipartFile,
+  getMultipartParts,
+  readMultipartFileToBuffer,
+} from '../../common/multipart';
+import { UserRole } from '../users/entities/user.entity';
+import {
+  MerchantVerificationService,
+  VERIFICATION_DOCUMENT_KINDS,
+  type VerificationDocumentKind,
+} from './merchant-verification.service';
+
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+const DOCUMENT_LABELS: Record<VerificationDocumentKind, string> = {
+  businessLicense: 'Business license',
+  idDocument: 'ID document',
+};
+
+type AuthenticatedRequest = FastifyRequest & {
+  user: {
+    userId: number;
+    role: UserRole;
+  };
+};
+
+@Controller('merchants/me/verification')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles(UserRole.MERCHANT)
+export class MerchantVerificationController {
+  constructor(
+    private readonly merchantVerificationService: MerchantVerificationService,
+  ) {}
+
+  @Get()
+  async getStatus(@Req() req: AuthenticatedRequest) {
+    return this.merchantVerificationService.getOwnStatus(req.user.userId);
+  }
+
+  @Post()
+  async submit(@Req() req: AuthenticatedRequest) {
+    const documents = await this.parseDocuments(req);
+    return this.merchantVerificationService.submit(req.user.userId, documents);
+  }
+
+  private async parseDocuments(
+    req: AuthenticatedRequest,
+  ): Promise<Record<VerificationDocumentKind, Buffer>> {
+    assertMultipartRequest(req);
+
+    const parts = getMultipartParts(req);
+    if (!parts) {
+      throw new BadRequestException('Invalid multipart request');
+    }
+
+    const documents: Partial<Record<VerificationDocumentKind, Buffer>> = {};
+    for await (const part of parts) {
+      if (part.type !== 'file') continue;
+
+      const fieldname = part.fieldname ?? '';
+      if (
+        !VERIFICATION_DOCUMENT_KINDS.includes(
+          fieldname as VerificationDocumentKind,
+        )
+      ) {
+        await drainMultipartFile(part);
+        throw new BadRequestException(`Unexpected file field "${fieldname}"`);
+      }
+
+      const kind = fieldname as VerificationDocumentKind;
+      if (documents[kind]) {
+        await drainMultipartFile(part);
+        throw new BadRequestException(
+          `Only one ${DOCUMENT_LABELS[kind].toLowerCase()} file is allowed`,
+        );
+      }
+
+      const buffer = await readMultipartFileToBuffer(part, {
+        maxBytes: MAX_DOCUMENT_BYTES,
+        allowedMimePrefixes: ['image/'],
+        errorLabel: DOCUMENT_LABELS[kind],
+      });
+      if (buffer.length) {
+        documents[kind] = buffer;
+      }
+    }
+
+    for (const kind of VERIFICATION_DOCUMENT_KINDS) {
+      if (!documents[kind]) {
+        throw new BadRequestException(`${DOCUMENT_LABELS[kind]} is required`);
+      }
+    }
+
+    return documents as Record<VerificationDocumentKind, Buffer>;
+  }
+}
@@ -0,0 +1,382 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  buildPaginationMeta,
+  normalizePagination,
+} from '../../common/pagination';
+import { User, UserRole } from '../users/entities/user.entity';
+import { ImageService } from '../products/image.service';
+import { BotService } from '../bot/bot.service';
+import { MerchantsService } from './merchants.service';
+import {
+  MerchantVerification,
+  MerchantVerificationStatus,
+} from './entities/merchant-verification.entity';
+
+// Documents need to stay legible, so they keep more pixels than ad photos.
+const DOCUMENT_MAX_SIZE_PX = 1600;
+
+export const VERIFICATION_DOCUMENT_KINDS = [
+  'businessLicense',
+  'idDocument',
+] as const;
+
+export type VerificationDocumentKind =
+  (typeof VERIFICATION_DOCUMENT_KINDS)[number];
+
+const DOCUMENT_COLUMNS: Record<
+  VerificationDocumentKind,
+  'businessLicenseFile' | 'idDocumentFile'
+> = {
+  businessLicense: 'businessLicenseFile',
+  idDocument: 'idDocumentFile',
+};
+
+@Injectable()
+export class MerchantVerificationService {
+  private readonly logger = new Logger(MerchantVerificationService.name);
+  // Outside the static /uploads root; documents are only served to staff.
+  private readonly documentPath = path.join(
+    process.cwd(),
+    'private',
+    'verification',
+  );
+
+  constructor(
+    @InjectRepository(MerchantVerification)
+    private readonly verificationRepo: Repository<MerchantVerification>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    private readonly imageService: ImageService,
+    private readonly merchantsService: MerchantsService,
+    private readonly botService: BotService,
+    private readonly dataSource: DataSource,
+  ) {
+    fs.ensureDirSync(this.documentPath);
+  }
+
+  async getOwnStatus(userId: number) {
+    const merchant = await this.findMerchant(userId);
+    const latest = await this.verificationRepo.findOne({
+      where: { merchantId: merchant.id },
+      order: { createdAt: 'DESC', id: 'DESC' },
+    });
+
+    return {
+      verifiedAt: merchant.verifiedAt,
+      latest: latest
+        ? {
+            id: latest.id,
+            status: latest.status,
+            reviewNote: latest.reviewNote,
+            reviewedAt: latest.reviewedAt,
+            createdAt: latest.createdAt,
+          }
+        : null,
+    };
+  }
+
+  async submit(
+    userId: number,
+    documents: Record<VerificationDocumentKind, Buffer>,
+  ) {
+    const merchant = await this.findMerchant(userId);
+    if (merchant.isBanned) {
+      throw new ForbiddenException(
+        'Banned accounts cannot request verification',
+      );
+    }
+    if (merchant.verifiedAt) {
+      throw new BadRequestException('Your account is already verified');
+    }
+
+    const pending = await this.verificationRepo.exists({
+      where: {
+        merchantId: merchant.id,
+        status: MerchantVerificationStatus.PENDING,
+      },
+    });
+    if (pending) {
+      throw new ConflictException(
+        'Your previous submission is still being reviewed',
+      );
+    }
+
+    const savedFiles: string[] = [];
+    try {
+      const businessLicenseFile = await this.saveDocument(
+        documents.businessLicense,
+      );
+      savedFiles.push(businessLicenseFile);
+      const idDocumentFile = await this.saveDocument(documents.idDocument);
+      savedFiles.push(idDocumentFile);
+
+      const verification = await this.verificationRepo.save(
+        this.verificationRepo.create({
+          merchantId: merchant.id,
+          status: MerchantVerificationStatus.PENDING,
+          businessLicenseFile,
+          idDocumentFile,
+        }),
+      );
+
+      await this.merchantsService.recordVerificationSubmitted({
+        merchantId: merchant.id,
+        verificationId: verification.id,
+      });
+    } catch (error) {
+      await this.deleteDocuments(savedFiles);
+      throw error;
+    }
+
+    return this.getOwnStatus(merchant.id);
+  }
+
+  async listRequests(statusRaw?: string, pageRaw?: string, limitRaw?: string) {
+    const { page, limit, skip } = normalizePagination(pageRaw, limitRaw);
+    const status = this.parseStatus(statusRaw);
+
+    const [requests, total] = await this.verificationRepo.findAndCount({
+      where: status ? { status } : {},
+      relations: ['merchant', 'reviewedBy'],
+      // Oldest pending first so the queue is worked in arrival order.
+      order:
+        status === MerchantVerificationStatus.PENDING
+          ? { createdAt: 'ASC', id: 'ASC' }
+          : { createdAt: 'DESC', id: 'DESC' },
+      skip,
+      take: limit,
+    });
+
+    return {
+      data: requests.map((request) => this.buildRequestSummary(request)),
+      meta: buildPaginationMeta(total, page, limit),
+    };
+  }
+
+  async countPending() {
+    const count = await this.verificationRepo.count({
+      where: { status: MerchantVerificationStatus.PENDING },
+    });
+    return { count };
+  }
+
+  async review(
+    verificationId: number,
+    approved: boolean,
+    actorUserId: number,
+    noteRaw?: string,
+  ) {
+    const note = noteRaw?.trim() || null;
+    if (!approved && !note) {
+      throw new BadRequestException(
+        'A note is required so the merchant knows what to fix',
+      );
+    }
+
+    const { verification, merchant } = await this.dataSource.transaction(
+      async (manager) => {
+        const requestRepo = manager.getRepository(MerchantVerification);
+        const locked = await requestRepo
+          .createQueryBuilder('verification')
+          .setLock('pessimistic_write')
+          .where('verification.id = :verificationId', { verificationId })
+          .getOne();
+        if (!locked) {
+          throw new NotFoundException('Verification request not found');
+        }
+        if (locked.status !== MerchantVerificationStatus.PENDING) {
+          throw new BadRequestException(
+            'This request has already been reviewed',
+          );
+        }
+
+        locked.status = approved
+          ? MerchantVerificationStatus.APPROVED
+          : MerchantVerificationStatus.REJECTED;
+        locked.reviewNote = note;
+        locked.reviewedById = actorUserId;
+        locked.reviewedAt = new Date();
+        await requestRepo.save(locked);
+
+        const userRepo = manager.getRepository(User);
+        const owner = await userRepo.findOne({
+          where: { id: locked.merchantId },
+        });
+        if (!owner) {
+          throw new NotFoundException('Merchant not found');
+        }
+        if (approved && !owner.verifiedAt) {
+          owner.verifiedAt = locked.reviewedAt;
+          await userRepo.save(owner);
+        }
+
+        return { verification: locked, merchant: owner };
+      },
+    );
+
+    // Rejected documents have no further use, so they are not kept around.
+    if (!approved) {
+      await this.deleteDocuments([
+        verification.businessLicenseFile,
+        verification.idDocumentFile,
+      ]);
+      await this.verificationRepo.update(verification.id, {
+        businessLicenseFile: null,
+        idDocumentFile: null,
+      });
+    }
+
+    await this.merchantsService.recordVerificationReviewed({
+      merchantId: merchant.id,
+      verificationId: verification.id,
+      approved,
+      actorUserId,
+      note,
+    });
+
+    if (merchant.telegramId) {
+      await this.botService.notifyMerchantVerification({
+        telegramId: merchant.telegramId,
+        approved,
+        note,
+      });
+    }
+
+    return {
+      id: verification.id,
+      status: verification.status,
+      reviewNote: verification.reviewNote,
+      reviewedAt: verification.reviewedAt,
+      merchantId: merchant.id,
+      verifiedAt: merchant.verifiedAt,
+    };
+  }
+
+  async revokeVerification(
+    merchantId: number,
+    actorUserId: number,
+    reason?: string,
+  ) {
+    const merchant = await this.findMerchant(merchantId);
+    if (merchant.verifiedAt) {
+      merchant.verifiedAt = null;
+      await this.userRepo.save(merchant);
+      await this.merchantsService.recordVerificationRevoked({
+        merchantId,
+        actorUserId,
+        reason,
+      });
+    }
+
+    return { id: merchant.id, verifiedAt: merchant.verifiedAt };
+  }
+
+  async readDocument(verificationId: number, kind: VerificationDocumentKind) {
+    const verification = await this.verificationRepo.findOne({
+      where: { id: verificationId },
+    });
+    const filename = verification?.[DOCUMENT_COLUMNS[kind]];
+    if (!filename) {
+      throw new NotFoundException('Document not found');
+    }
+
+    const fullPath = path.join(this.documentPath, path.basename(filename));
+    if (!(await fs.pathExists(fullPath))) {
+      throw new NotFoundException('Document not found');
+    }
+    return fs.readFile(fullPath);
+  }
+
+  private async saveDocument(fileBuffer: Buffer) {
+    const filename = `${uuidv4()}.webp`;
+    const optimized = await this.imageService.optimize(
+      fileBuffer,
+      DOCUMENT_MAX_SIZE_PX,
+    );
+    await fs.writeFile(path.join(this.documentPath, filename), optimized);
+    return filename;
+  }
+
+  private async deleteDocuments(filenames: Array<string | null>) {
+    for (const filename of filenames) {
+      if (!filename) continue;
+      try {
+        await fs.remove(path.join(this.documentPath, path.basename(filename)));
+      } catch (error) {
+        const err = error as Error;
+        this.logger.warn(
+          `Failed to delete verification document ${filename}: ${err.message}`,
+        );
+      }
+    }
+  }
+
+  private async findMerchant(userId: number) {
+    const merchant = await this.userRepo.findOne({
+      where: { id: userId, role: UserRole.MERCHANT },
+    });
+    if (!merchant) {
+      throw new NotFoundException('Merchant not found');
+    }
+    return merchant;
+  }
+
+  private parseStatus(statusRaw?: string) {
+    const normalized = statusRaw?.trim().toUpperCase();
+    if (!normalized || normalized === 'ALL') return null;
+    if (
+      !Object.values(MerchantVerificationStatus).includes(
+        normalized as MerchantVerificationStatus,
+      )
+    ) {
+      throw new BadRequestException('Invalid verification status');
+    }
+    return normalized as MerchantVerificationStatus;
+  }
+
+  private buildRequestSummary(request: MerchantVerification) {
+    const merchant = request.merchant;
+    return {
+      id: request.id,
+      status: request.status,
+      reviewNote: request.reviewNote,
+      reviewedAt: request.reviewedAt,
+      createdAt: request.createdAt,
+      documents: VERIFICATION_DOCUMENT_KINDS.filter((kind) =>
+        Boolean(request[DOCUMENT_COLUMNS[kind]]),
+      ),
+      merchant: merchant
+        ? {
+            id: merchant.id,
+            firstName: merchant.firstName,
+            username: merchant.username,
+            loginUsername: merchant.loginUsername,
+            avatarUrl: merchant.avatarUrl,
+            isBanned: merchant.isBanned,
+            verifiedAt: merchant.verifiedAt,
+            createdAt: merchant.createdAt,
+          }
+        : null,
+      reviewedBy: request.reviewedBy
+        ? {
+            id: request.reviewedBy.id,
+            firstName: request.reviewedBy.firstName,
+            loginUsername: request.reviewedBy.loginUsername,
+            username: request.reviewedBy.username,
+          }
+        : null,
+    };
+  }
+}
@@ -2,21 +2,31 @@ import {
   Body,
   Controller,
   Get,
+  Header,
+  NotFoundException,
   Param,
   ParseIntPipe,
   Post,
   Query,
   Req,
+  StreamableFile,
   UseGuards,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { FastifyRequest } from 'fastify';
 import { RolesGuard } from '../../common/guards/roles.guard';
-import { Roles } from '../../common/decorators/roles.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
 import { UserRole } from '../users/entities/user.entity';
+import { Permission } from '../users/permissions';
 import { MerchantsService } from './merchants.service';
 import { AdjustMerchantPointsDto } from './dto/adjust-merchant-points.dto';
 import { MerchantActionDto } from './dto/merchant-action.dto';
+import { ReviewVerificationDto } from './dto/review-verification.dto';
+import {
+  MerchantVerificationService,
+  VERIFICATION_DOCUMENT_KINDS,
+  type VerificationDocumentKind,
+} from './merchant-verification.service';
 
 type AuthenticatedRequest = FastifyRequest & {
   user: {
@@ -27,9 +37,12 @@ type AuthenticatedRequest = FastifyRequest & {
 
 @Controller('merchants')
 @UseGuards(AuthGuard('jwt'), RolesGuard)
-@Roles(UserRole.ADMIN)
+@RequirePermissions(Permission.MERCHANTS_MANAGE)
 export class MerchantsController {
-  constructor(private readonly merchantsService: MerchantsService) {}
+  constructor(
+    private readonly merchantsService: MerchantsService,
+    private readonly merchantVerificationService: MerchantVerificationService,
+  ) {}
 
   @Get()
   async listMerchants(
@@ -40,6 +53,66 @@ export class MerchantsController {
     return this.merchantsService.listMerchants(page, limit, query);
   }
 
+  @Get('verifications')
+  async listVerifications(
+    @Query('status') status?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.merchantVerificationService.listRequests(status, page, limit);
+  }
+
+  @Get('verifications/pending-count')
+  async countPendingVerifications() {
+    return this.merchantVerificationService.countPending();
+  }
+
+  @Get('verifications/:verificationId/documents/:kind')
+  @Header('Cache-Control', 'private, no-store')
+  async getVerificationDocument(
+    @Param('verificationId', ParseIntPipe) verificationId: number,
+    @Param('kind') kind: string,
+  ) {
+    if (
+      !VERIFICATION_DOCUMENT_KINDS.includes(kind as VerificationDocumentKind)
+    ) {
+      throw new NotFoundException('Document not found');
+    }
+    const document = await this.merchantVerificationService.readDocument(
+      verificationId,
+      kind as VerificationDocumentKind,
+    );
+    return new StreamableFile(document, { type: 'image/webp' });
+  }
+
+  @Post('verifications/:verificationId/approve')
+  async approveVerification(
+    @Req() req: AuthenticatedRequest,
+    @Param('verificationId', ParseIntPipe) verificationId: number,
+    @Body() dto: ReviewVerificationDto,
+  ) {
+    return this.merchantVerificationService.review(
+      verificationId,
+      true,
+      req.user.userId,
+      dto.note,
+    );
+  }
+
+  @Post('verifications/:verificationId/reject')
+  async rejectVerification(
+    @Req() req: AuthenticatedRequest,
+    @Param('verificationId', ParseIntPipe) verificationId: number,
+    @Body() dto: ReviewVerificationDto,
+  ) {
+    return this.merchantVerificationService.review(
+      verificationId,
+      false,
+      req.user.userId,
+      dto.note,
+    );
+  }
+
   @Get(':merchantId')
   async getMerchantDetails(
     @Param('merchantId', ParseIntPipe) merchantId: number,
@@ -112,6 +185,19 @@ export class MerchantsController {
     );
   }
 
+  @Post(':merchantId/verification/revoke')
+  async revokeVerification(
+    @Req() req: AuthenticatedRequest,
+    @Param('merchantId', ParseIntPipe) merchantId: number,
+    @Body() dto: MerchantActionDto,
+  ) {
+    return this.merchantVerificationService.revokeVerification(
+      merchantId,
+      req.user.userId,
+      dto.reason,
+    );
+  }
+
   @Post(':merchantId/points/adjust')
   async adjustMerchantPoints(
     @Req() req: AuthenticatedRequest,
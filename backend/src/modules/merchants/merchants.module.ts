@@ -2,24 +2,44 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from '../users/entities/user.entity';
 import { Ad } from '../products/entities/ad.entity';
+import { AdComment } from '../products/entities/ad-comment.entity';
+import { AdConversation } from '../products/entities/ad-conversation.entity';
 import { VisitorEvent } from '../analytics/entities/visitor-event.entity';
 import { MerchantActivity } from './entities/merchant-activity.entity';
 import { MerchantLoyaltyEvent } from './entities/merchant-loyalty-event.entity';
+import { MerchantVerification } from './entities/merchant-verification.entity';
+import { ImageService } from '../products/image.service';
 import { MerchantsController } from './merchants.controller';
 import { MerchantsService } from './merchants.service';
+import { SellersController } from './sellers.controller';
+import { SellerProfilesService } from './seller-profiles.service';
+import { MerchantVerificationController } from './merchant-verification.controller';
+import { MerchantVerificationService } from './merchant-verification.service';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([
       User,
       Ad,
+      AdComment,
+      AdConversation,
       VisitorEvent,
       MerchantActivity,
       MerchantLoyaltyEvent,
+      MerchantVerification,
     ]),
   ],
-  controllers: [MerchantsController],
-  providers: [MerchantsService],
+  controllers: [
+    MerchantsController,
+    MerchantVerificationController,
+    SellersController,
+  ],
+  providers: [
+    MerchantsService,
+    MerchantVerificationService,
+    SellerProfilesService,
+    ImageService,
+  ],
   exports: [MerchantsService],
 })
 export class MerchantsModule {}
@@ -5,7 +5,7 @@ import {
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { DataSource, Repository } from 'typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
 import {
   buildPaginationMeta,
   normalizePagination,
@@ -15,6 +15,7 @@ import { Ad, AdStatus } from '../products/entities/ad.entity';
 import { VisitorEvent } from '../analytics/entities/visitor-event.entity';
 import { MerchantActivity } from './entities/merchant-activity.entity';
 import { MerchantLoyaltyEvent } from './entities/merchant-loyalty-event.entity';
+import { MerchantVerification } from './entities/merchant-verification.entity';
 import { AdjustMerchantPointsDto } from './dto/adjust-merchant-points.dto';
 
 const AD_PREVIEW_EVENT_TYPE = 'ad_preview';
@@ -41,6 +42,10 @@ type ApplyPointEventInput = {
   pointsDelta: number;
   actorUserId?: number | null;
   metadata?: ActivityMetadata;
+  // Rejects the event instead of clamping the balance at zero.
+  requireSufficientBalance?: boolean;
+  // Extra writes that must commit or roll back together with the debit.
+  applyWithinTransaction?: (manager: EntityManager) => Promise<void>;
 };
 
 type PointEventResult = {
@@ -55,12 +60,19 @@ export const MerchantActivityType = {
   AD_APPROVED: 'AD_APPROVED',
   AD_REJECTED: 'AD_REJECTED',
   AD_REMOVED: 'AD_REMOVED',
+  AD_EXPIRED: 'AD_EXPIRED',
+  AD_RENEWED: 'AD_RENEWED',
+  AD_FEATURED: 'AD_FEATURED',
   AD_VIEWED: 'AD_VIEWED',
   MERCHANT_BANNED: 'MERCHANT_BANNED',
   MERCHANT_UNBANNED: 'MERCHANT_UNBANNED',
   REVIEWS_BLOCKED: 'REVIEWS_BLOCKED',
   REVIEWS_UNBLOCKED: 'REVIEWS_UNBLOCKED',
   POINTS_ADJUSTED: 'POINTS_ADJUSTED',
+  VERIFICATION_SUBMITTED: 'VERIFICATION_SUBMITTED',
+  VERIFICATION_APPROVED: 'VERIFICATION_APPROVED',
+  VERIFICATION_REJECTED: 'VERIFICATION_REJECTED',
+  VERIFICATION_REVOKED: 'VERIFICATION_REVOKED',
 } as const;
 
 @Injectable()
@@ -79,6 +91,8 @@ export class MerchantsService {
     private readonly activityRepo: Repository<MerchantActivity>,
     @InjectRepository(MerchantLoyaltyEvent)
     private readonly loyaltyEventRepo: Repository<MerchantLoyaltyEvent>,
+    @InjectRepository(MerchantVerification)
+    private readonly verificationRepo: Repository<MerchantVerification>,
     private readonly dataSource: DataSource,
     private readonly configService: ConfigService,
   ) {
@@ -133,6 +147,11 @@ export class MerchantsService {
     const statsMap = await this.buildMerchantStatsMap([merchantId]);
     const stats = statsMap.get(merchantId);
 
+    const latestVerification = await this.verificationRepo.findOne({
+      where: { merchantId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+    });
+
     const recentAds = await this.adRepo.find({
       where: { merchantId },
       select: {
@@ -157,6 +176,15 @@ export class MerchantsService {
         createdAt: ad.createdAt,
         updatedAt: ad.updatedAt,
       })),
+      latestVerification: latestVerification
+        ? {
+            id: latestVerification.id,
+            status: latestVerification.status,
+            reviewNote: latestVerification.reviewNote,
+            reviewedAt: latestVerification.reviewedAt,
+            createdAt: latestVerification.createdAt,
+          }
+        : null,
       loyaltyConfig: {
         pointsPerAdPost: this.pointsPerAdPost,
         pointsPerAdView: this.pointsPerAdView,
@@ -415,6 +443,118 @@ export class MerchantsService {
     });
   }
 
+  async recordAdExpired(params: {
+    merchantId: number | null;
+    adId: number;
+    adName: string;
+  }) {
+    if (!params.merchantId) return;
+
+    await this.createActivity({
+      merchantId: params.merchantId,
+      actorUserId: null,
+      activityType: MerchantActivityType.AD_EXPIRED,
+      title: `Ad expired: ${params.adName}`,
+      metadata: {
+        adId: params.adId,
+      },
+    });
+  }
+
+  async recordAdRenewed(params: {
+    merchantId: number | null;
+    adId: number;
+    adName: string;
+    expiresAt: Date;
+    actorUserId?: number | null;
+  }) {
+    if (!params.merchantId) return;
+
+    await this.createActivity({
+      merchantId: params.merchantId,
+      actorUserId: params.actorUserId ?? null,
+      activityType: MerchantActivityType.AD_RENEWED,
+      title: `Renewed ad: ${params.adName}`,
+      metadata: {
+        adId: params.adId,
+        expiresAt: params.expiresAt.toISOString(),
+      },
+    });
+  }
+
+  async recordAdFeaturedByAdmin(params: {
+    merchantId: number | null;
+    adId: number;
+    adName: string;
+    days: number;
+    actorUserId?: number | null;
+  }) {
+    if (!params.merchantId) return;
+
+    await this.createActivity({
+      merchantId: params.merchantId,
+      actorUserId: params.actorUserId ?? null,
+      activityType: MerchantActivityType.AD_FEATURED,
+      title: `Featured by admin: ${params.adName}`,
+      metadata: {
+        adId: params.adId,
+        days: params.days,
+      },
+    });
+  }
+
+  async recordVerificationSubmitted(params: {
+    merchantId: number;
+    verificationId: number;
+  }) {
+    await this.createActivity({
+      merchantId: params.merchantId,
+      actorUserId: params.merchantId,
+      activityType: MerchantActivityType.VERIFICATION_SUBMITTED,
+      title: 'Submitted verification documents',
+      metadata: {
+        verificationId: params.verificationId,
+      },
+    });
+  }
+
+  async recordVerificationReviewed(params: {
+    merchantId: number;
+    verificationId: number;
+    approved: boolean;
+    actorUserId: number;
+    note?: string | null;
+  }) {
+    await this.createActivity({
+      merchantId: params.merchantId,
+      actorUserId: params.actorUserId,
+      activityType: params.approved
+        ? MerchantActivityType.VERIFICATION_APPROVED
+        : MerchantActivityType.VERIFICATION_REJECTED,
+      title: params.approved
+        ? 'Merchant verification approved'
+        : 'Merchant verification rejected',
+      description: params.note?.trim() || null,
+      metadata: {
+        verificationId: params.verificationId,
+      },
+    });
+  }
+
+  async recordVerificationRevoked(params: {
+    merchantId: number;
+    actorUserId: number;
+    reason?: string | null;
+  }) {
+    await this.createActivity({
+      merchantId: params.merchantId,
+      actorUserId: params.actorUserId,
+      activityType: MerchantActivityType.VERIFICATION_REVOKED,
+      title: 'Merchant verification revoked',
+      description: params.reason?.trim() || null,
+    });
+  }
+
   async resolveAdMerchant(adId: number) {
     if (!Number.isInteger(adId) || adId <= 0) {
       return null;
@@ -437,7 +577,7 @@ export class MerchantsService {
     };
   }
 
-  private async applyPointEvent(
+  async applyPointEvent(
     input: ApplyPointEventInput,
   ): Promise<PointEventResult> {
     return this.dataSource.transaction(async (manager) => {
@@ -454,6 +594,12 @@ export class MerchantsService {
       }
 
       const currentPoints = Number(merchant.loyaltyPoints ?? 0);
+      if (
+        input.requireSufficientBalance &&
+        currentPoints + input.pointsDelta < 0
+      ) {
+        throw new BadRequestException('Not enough loyalty points');
+      }
       const pointsAfter = Math.max(0, currentPoints + input.pointsDelta);
       const effectiveDelta = pointsAfter - currentPoints;
 
@@ -477,6 +623,10 @@ export class MerchantsService {
         throw error;
       }
 
+      if (input.applyWithinTransaction) {
+        await input.applyWithinTransaction(manager);
+      }
+
       if (pointsAfter !== currentPoints) {
         merchant.loyaltyPoints = pointsAfter;
         await userRepo.save(merchant);
@@ -654,6 +804,7 @@ export class MerchantsService {
       avatarUrl: merchant.avatarUrl,
       isBanned: merchant.isBanned,
       isReviewBlocked: merchant.isReviewBlocked,
+      verifiedAt: merchant.verifiedAt,
       loyaltyPoints: Number(merchant.loyaltyPoints ?? 0),
       createdAt: merchant.createdAt,
       updatedAt: merchant.updatedAt,
@@ -0,0 +1,186 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User, UserRole } from '../users/entities/user.entity';
+import { Ad, AdStatus } from '../products/entities/ad.entity';
+import { AdComment } from '../products/entities/ad-comment.entity';
+import { AdConversation } from '../products/entities/ad-conversation.entity';
+import { AdConversationMessage } from '../products/entities/ad-conversation-message.entity';
+
+const RESPONSE_STATS_WINDOW_DAYS = 90;
+const RESPONSE_STATS_MAX_CONVERSATIONS = 200;
+// Below this many buyer chats a response rate says more about luck than habit.
+const RESPONSE_STATS_MIN_CONVERSATIONS = 3;
+
+type ConversationTimingRow = {
+  firstBuyerAt: Date | string | null;
+  firstSellerAt: Date | string | null;
+};
+
+@Injectable()
+export class SellerProfilesService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    @InjectRepository(Ad)
+    private readonly adRepo: Repository<Ad>,
+    @InjectRepository(AdComment)
+    private readonly commentRepo: Repository<AdComment>,
+    @InjectRepository(AdConversation)
+    private readonly conversationRepo: Repository<AdConversation>,
+  ) {}
+
+  async getPublicProfile(usernameRaw: string) {
+    const seller = await this.findSellerByUsername(usernameRaw);
+
+    const [activeAds, rating, responses] = await Promise.all([
+      this.adRepo.count({
+        where: {
+          merchantId: seller.id,
+          status: AdStatus.APPROVED,
+          isActive: true,
+        },
+      }),
+      this.getSellerRating(seller.id),
+      this.getResponseStats(seller.id),
+    ]);
+
+    return {
+      id: seller.id,
+      username: seller.loginUsername || seller.username,
+      displayName:
+        seller.firstName?.trim() ||
+        seller.loginUsername ||
+        seller.username ||
+        'Seller',
+      avatarUrl: seller.avatarUrl || null,
+      memberSince: seller.createdAt,
+      verifiedAt: seller.verifiedAt,
+      telegramVerified: Boolean(seller.telegramId),
+      activeAds,
+      rating,
+      responses,
+    };
+  }
+
+  private async findSellerByUsername(usernameRaw: string) {
+    const username = String(usernameRaw ?? '')
+      .trim()
+      .replace(/^@/, '');
+    if (!username) {
+      throw new NotFoundException('Seller not found');
+    }
+
+    const loginUsername = username.toLowerCase();
+    const matches = await this.userRepo
+      .createQueryBuilder('user')
+      .where('user.role = :role', { role: UserRole.MERCHANT })
+      .andWhere('user.isBanned = :isBanned', { isBanned: false })
+      .andWhere(
+        '(user.loginUsername = :loginUsername OR user.username = :username)',
+        { loginUsername, username },
+      )
+      .take(5)
+      .getMany();
+    // A login username is chosen on this site, so it wins over a Telegram
+    // handle that happens to match.
+    const seller =
+      matches.find((user) => user.loginUsername === loginUsername) ??
+      matches[0];
+    if (!seller) {
+      throw new NotFoundException('Seller not found');
+    }
+    return seller;
+  }
+
+  /** Averages top-level ratings across every ad the seller has listed. */
+  private async getSellerRating(sellerId: number) {
+    const row = await this.commentRepo
+      .createQueryBuilder('comment')
+      .innerJoin('comment.ad', 'ad')
+      .select('COUNT(comment.id)', 'totalReviews')
+      .addSelect('AVG(comment.rating)', 'averageRating')
+      .where('ad.merchantId = :sellerId', { sellerId })
+      .andWhere('comment.userId <> :sellerId', { sellerId })
+      .andWhere('comment.parentId IS NULL')
+      .andWhere('comment.rating IS NOT NULL')
+      .andWhere('comment.isHeld = 0')
+      .getRawOne<{
+        totalReviews: string | null;
+        averageRating: string | null;
+      }>();
+
+    const totalReviews = Number.parseInt(row?.totalReviews ?? '0', 10) || 0;
+    const averageRaw = Number.parseFloat(row?.averageRating ?? '0');
+    const averageRating = Number.isFinite(averageRaw)
+      ? Math.round(averageRaw * 10) / 10
+      : 0;
+
+    return { totalReviews, averageRating };
+  }
+
+  private async getResponseStats(sellerId: number) {
+    const since = new Date(
+      Date.now() - RESPONSE_STATS_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+    );
+    const rows = await this.conversationRepo
+      .createQueryBuilder('conversation')
+      .innerJoin(
+        AdConversationMessage,
+        'message',
+        'message.conversationId = conversation.id',
+      )
+      .select('conversation.id', 'id')
+      .addSelect(
+        'MIN(CASE WHEN message.senderId = conversation.buyerId THEN message.createdAt END)',
+        'firstBuyerAt',
+      )
+      .addSelect(
+        'MIN(CASE WHEN message.senderId = conversation.sellerId THEN message.createdAt END)',
+        'firstSellerAt',
+      )
+      .where('conversation.sellerId = :sellerId', { sellerId })
+      .andWhere('conversation.createdAt >= :since', { since })
+      .groupBy('conversation.id')
+      .orderBy('conversation.id', 'DESC')
+      .limit(RESPONSE_STATS_MAX_CONVERSATIONS)
+      .getRawMany<ConversationTimingRow>();
+
+    const delaysMinutes: number[] = [];
+    let conversations = 0;
+    for (const row of rows) {
+      if (!row.firstBuyerAt) continue;
+      conversations += 1;
+      if (!row.firstSellerAt) continue;
+      const delayMs =
+        new Date(row.firstSellerAt).getTime() -
+        new Date(row.firstBuyerAt).getTime();
+      if (Number.isFinite(delayMs)) {
+        delaysMinutes.push(Math.max(0, Math.round(delayMs / 60_000)));
+      }
+    }
+
+    if (conversations < RESPONSE_STATS_MIN_CONVERSATIONS) {
+      return {
+        conversations,
+        responseRate: null,
+        medianResponseMinutes: null,
+      };
+    }
+
+    delaysMinutes.sort((a, b) => a - b);
+    const middle = Math.floor(delaysMinutes.length / 2);
+    const medianResponseMinutes =
+      delaysMinutes.length === 0
+        ? null
+        : delaysMinutes.length % 2 === 1
+          ? delaysMinutes[middle]
+          : Math.round((delaysMinutes[middle - 1] + delaysMinutes[middle]) / 2);
+
+    return {
+      conversations,
+      responseRate: Math.round((delaysMinutes.length / conversations) * 100),
+      medianResponseMinutes,
+    };
+  }
+}
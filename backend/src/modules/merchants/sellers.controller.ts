@@ -0,0 +1,12 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { SellerProfilesService } from './seller-profiles.service';
+
+@Controller('sellers')
+export class SellersController {
+  constructor(private readonly sellerProfilesService: SellerProfilesService) {}
+
+  @Get(':username')
+  async getProfile(@Param('username') username: string) {
+    return this.sellerProfilesService.getPublicProfile(username);
+  }
+}
@@ -5,16 +5,43 @@ import {
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { IsNull, Not, Repository } from 'typeorm';
+import { IsNull, Not, Repository, SelectQueryBuilder } from 'typeorm';
 import { buildPaginationMeta } from '../../common/pagination';
 import { Ad, AdStatus } from './entities/ad.entity';
 import { AdComment } from './entities/ad-comment.entity';
+import { AdCommentVote } from './entities/ad-comment-vote.entity';
 import { CreateAdCommentDto } from './dto/create-ad-comment.dto';
 import { UpdateAdCommentDto } from './dto/update-ad-comment.dto';
 import { User } from '../users/entities/user.entity';
 import { BotService } from '../bot/bot.service';
+import { ReviewImageService } from './review-image.service';
+import {
+  ContentModerationService,
+  ModerationVerdict,
+  ReviewModerationVerdict,
+} from './content-moderation.service';
 
 const MAX_REPLY_DEPTH = 3;
+export const MAX_REVIEW_IMAGES = 3;
+
+export const AD_COMMENT_SORTS = [
+  'newest',
+  'helpful',
+  'rating_desc',
+  'rating_asc',
+] as const;
+
+export type AdCommentSort = (typeof AD_COMMENT_SORTS)[number];
+
+// Votes cast by review-blocked users stay stored but stop counting.
+function buildVoteCountSql(isHelpful: boolean) {
+  return `(SELECT COUNT(*) FROM ad_comment_votes vote INNER JOIN users voter ON voter.id = vote.userId WHERE vote.commentId = comment.id AND vote.isHelpful = ${isHelpful ? 1 : 0} AND voter.isReviewBlocked = 0)`;
+}
+
+// Text reviews and star ratings are separate rows, so a review borrows the
+// author's rating row for display and rating sorts.
+const AUTHOR_RATING_SQL =
+  'CASE WHEN comment.parentId IS NULL THEN COALESCE(comment.rating, (SELECT authorRating.rating FROM ad_comments authorRating WHERE authorRating.adId = comment.adId AND authorRating.userId = comment.userId AND authorRating.parentId IS NULL AND authorRating.rating IS NOT NULL ORDER BY authorRating.createdAt ASC LIMIT 1)) ELSE NULL END';
 
 type AdCommentRow = {
   id: string;
@@ -24,14 +51,21 @@ type AdCommentRow = {
   depth: string;
   rating: string | null;
   comment: string | null;
+  imageUrls: string | string[] | null;
   isEdited: 0 | 1 | boolean;
   editedAt: Date | null;
+  isHeld: 0 | 1 | boolean;
+  moderationNote: string | null;
   createdAt: Date;
   updatedAt: Date;
   firstName: string | null;
   username: string | null;
   avatarUrl: string | null;
   isReviewBlocked: 0 | 1 | boolean | null;
+  authorRating: string | number | null;
+  helpfulCount: string | number | null;
+  notHelpfulCount: string | number | null;
+  viewerVote: 0 | 1 | boolean | null;
 };
 
 export type MappedAdComment = {
@@ -42,8 +76,11 @@ export type MappedAdComment = {
   depth: number;
   rating: number | null;
   comment: string | null;
+  imageUrls: string[];
   isEdited: boolean;
   editedAt: Date | null;
+  isHeld: boolean;
+  moderationNote: string | null;
   createdAt: Date;
   updatedAt: Date;
   user: {
@@ -52,6 +89,10 @@ export type MappedAdComment = {
     avatarUrl: string | null;
     isReviewBlocked: boolean;
   };
+  authorRating: number | null;
+  helpfulCount: number;
+  notHelpfulCount: number;
+  viewerVote: 'helpful' | 'not_helpful' | null;
   replies: MappedAdComment[];
 };
 
@@ -62,9 +103,13 @@ export class AdCommentsService {
     private readonly adRepo: Repository<Ad>,
     @InjectRepository(AdComment)
     private readonly adCommentRepo: Repository<AdComment>,
+    @InjectRepository(AdCommentVote)
+    private readonly adCommentVoteRepo: Repository<AdCommentVote>,
     @InjectRepository(User)
     private readonly userRepo: Repository<User>,
     private readonly botService: BotService,
+    private readonly reviewImageService: ReviewImageService,
+    private readonly contentModerationService: ContentModerationService,
   ) {}
 
   async getAdComments(
@@ -73,12 +118,19 @@ export class AdCommentsService {
       page: number;
       limit: number;
     },
+    options?: {
+      sort?: string;
+      viewerId?: number | null;
+    },
   ) {
+    const sort = this.parseCommentSort(options?.sort);
     await this.assertAdExistsForPublicView(adId);
     return this.fetchCommentsWithMeta(adId, {
       includeReplies: true,
       page: pagination?.page,
       limit: pagination?.limit,
+      sort,
+      viewerId: options?.viewerId ?? null,
     });
   }
 
@@ -86,6 +138,7 @@ export class AdCommentsService {
     adId: number,
     userId: number,
     dto: CreateAdCommentDto,
+    imageBuffers: Buffer[] = [],
   ) {
     const ad = await this.getAdForPublicView(adId);
     const user = await this.getReviewAuthorOrThrow(userId);
@@ -96,7 +149,16 @@ export class AdCommentsService {
       ? this.normalizeRequiredRating(dto.rating)
       : null;
 
+    if (imageBuffers.length > MAX_REVIEW_IMAGES) {
+      throw new BadRequestException(
+        `You can attach at most ${MAX_REVIEW_IMAGES} photos to a review`,
+      );
+    }
+
     if (parentId !== null) {
+      if (imageBuffers.length > 0) {
+        throw new BadRequestException('Replies cannot include photos');
+      }
       if (hasRating) {
         throw new BadRequestException('Replies cannot include rating');
       }
@@ -104,19 +166,31 @@ export class AdCommentsService {
         throw new BadRequestException('Reply cannot be empty');
       }
 
+      const replyVerdict =
+        await this.contentModerationService.screenReview(normalizedComment);
       const savedReply = await this.createReply({
         adId,
         userId,
         parentId,
         comment: normalizedComment,
+        verdict: replyVerdict,
       });
 
-      await this.notifyAdCreatorAboutReviewActivity(ad, user, {
-        isRatingChanged: false,
-        isNewComment: true,
-        rating: null,
-        comment: savedReply.comment,
-      });
+      if (savedReply.isHeld) {
+        await this.notifyModeratorsAboutHeldComment(
+          ad,
+          user,
+          savedReply,
+          replyVerdict,
+        );
+      } else {
+        await this.notifyAdCreatorAboutReviewActivity(ad, user, {
+          isRatingChanged: false,
+          isNewComment: true,
+          rating: null,
+          comment: savedReply.comment,
+        });
+      }
 
       return {
         data: this.mapSavedAdComment(savedReply, user),
@@ -127,6 +201,9 @@ export class AdCommentsService {
     if (!hasRating && !normalizedComment) {
       throw new BadRequestException('Provide a rating, a comment, or both');
     }
+    if (imageBuffers.length > 0 && !normalizedComment) {
+      throw new BadRequestException('Photos need a written review');
+    }
 
     let ratingUpdate:
       | {
@@ -141,24 +218,48 @@ export class AdCommentsService {
       ratingUpdate = await this.upsertUserRating(adId, userId, normalizedRating);
     }
 
+    let commentVerdict: ReviewModerationVerdict | null = null;
     if (normalizedComment) {
-      createdComment = await this.createTopLevelComment({
-        adId,
-        userId,
-        comment: normalizedComment,
-      });
+      commentVerdict =
+        await this.contentModerationService.screenReview(normalizedComment);
+      const imageUrls =
+        imageBuffers.length > 0
+          ? await this.reviewImageService.optimizeAndSaveMany(imageBuffers)
+          : [];
+      try {
+        createdComment = await this.createTopLevelComment({
+          adId,
+          userId,
+          comment: normalizedComment,
+          imageUrls,
+          verdict: commentVerdict,
+        });
+      } catch (error) {
+        await this.reviewImageService.deleteImages(imageUrls);
+        throw error;
+      }
     }
 
     const ratingChanged = Boolean(
       ratingUpdate && (ratingUpdate.isNewRating || ratingUpdate.hasChanged),
     );
 
-    if (ratingChanged || createdComment) {
+    // A held review reaches the ad owner once a moderator releases it.
+    const publishedComment = createdComment?.isHeld ? null : createdComment;
+    if (createdComment?.isHeld && commentVerdict) {
+      await this.notifyModeratorsAboutHeldComment(
+        ad,
+        user,
+        createdComment,
+        commentVerdict,
+      );
+    }
+    if (ratingChanged || publishedComment) {
       await this.notifyAdCreatorAboutReviewActivity(ad, user, {
         isRatingChanged: ratingChanged,
-        isNewComment: Boolean(createdComment),
+        isNewComment: Boolean(publishedComment),
         rating: ratingChanged ? normalizedRating : null,
-        comment: createdComment?.comment ?? null,
+        comment: publishedComment?.comment ?? null,
       });
     }
 
@@ -179,7 +280,7 @@ export class AdCommentsService {
     commentId: number,
     dto: UpdateAdCommentDto,
   ) {
-    await this.assertAdExistsForPublicView(adId);
+    const ad = await this.getAdForPublicView(adId);
     const user = await this.getReviewAuthorOrThrow(userId);
     const normalizedComment = this.normalizeOptionalComment(dto.comment);
     if (!normalizedComment) {
@@ -201,21 +302,132 @@ export class AdCommentsService {
 
     const hasChanges = (existing.comment ?? null) !== normalizedComment;
     if (hasChanges) {
+      // Edits are screened too, but only a moderator can release a hold.
+      const verdict =
+        await this.contentModerationService.screenReview(normalizedComment);
+      const isNewlyHeld = verdict.hold && !existing.isHeld;
       existing.comment = normalizedComment;
       existing.isEdited = true;
       existing.editedAt = new Date();
+      if (verdict.hold) {
+        existing.isHeld = true;
+        existing.moderationNote =
+          this.contentModerationService.formatModerationNote(verdict);
+      }
       await this.adCommentRepo.save(existing);
+
+      if (isNewlyHeld) {
+        await this.notifyModeratorsAboutHeldComment(
+          ad,
+          user,
+          existing,
+          verdict,
+        );
+      }
     }
 
+    const row = await this.buildCommentListQuery(adId, userId)
+      .andWhere('comment.id = :commentId', { commentId: existing.id })
+      .getRawOne<AdCommentRow>();
+
     return {
-      data: this.mapSavedAdComment(existing, user),
+      data: row
+        ? this.mapAdCommentRow(row)
+        : this.mapSavedAdComment(existing, user),
       meta: await this.getAdCommentMeta(adId),
     };
   }
 
+  async voteOnAdComment(
+    adId: number,
+    userId: number,
+    commentId: number,
+    helpful: boolean,
+  ) {
+    await this.assertAdExistsForPublicView(adId);
+    await this.assertCanVote(adId, userId, commentId);
+
+    await this.adCommentVoteRepo
+      .createQueryBuilder()
+      .insert()
+      .into(AdCommentVote)
+      .values({ commentId, userId, isHelpful: helpful })
+      .orUpdate(['isHelpful'], ['userId', 'commentId'])
+      .execute();
+
+    return {
+      data: await this.getCommentVoteSummary(
+        commentId,
+        helpful ? 'helpful' : 'not_helpful',
+      ),
+    };
+  }
+
+  async removeAdCommentVote(adId: number, userId: number, commentId: number) {
+    await this.assertAdExistsForPublicView(adId);
+
+    const comment = await this.adCommentRepo.findOne({
+      where: { id: commentId, adId },
+      select: { id: true },
+    });
+    if (!comment) {
+      throw new NotFoundException('Review not found');
+    }
+
+    await this.adCommentVoteRepo.delete({ commentId, userId });
+    return {
+      data: await this.getCommentVoteSummary(commentId, null),
+    };
+  }
+
   async getAdCommentsForAdmin(adId: number) {
     await this.assertAdExists(adId);
-    return this.fetchCommentsWithMeta(adId, { includeReplies: true });
+    return this.fetchCommentsWithMeta(adId, {
+      includeReplies: true,
+      includeHeld: true,
+    });
+  }
+
+  async releaseHeldAdComment(adId: number, commentId: number) {
+    await this.assertAdExists(adId);
+
+    const existing = await this.adCommentRepo.findOne({
+      where: { id: commentId, adId },
+    });
+    if (!existing) {
+      throw new NotFoundException('Review not found');
+    }
+    if (!existing.isHeld) {
+      throw new BadRequestException('This review is not waiting for approval');
+    }
+
+    existing.isHeld = false;
+    existing.moderationNote = null;
+    await this.adCommentRepo.save(existing);
+
+    const [ad, author] = await Promise.all([
+      this.adRepo.findOne({
+        where: { id: adId },
+        select: { id: true, name: true, createdById: true, merchantId: true },
+      }),
+      this.userRepo.findOne({
+        where: { id: existing.userId },
+        select: { id: true, firstName: true, username: true },
+      }),
+    ]);
+    if (ad && author) {
+      await this.notifyAdCreatorAboutReviewActivity(ad, author, {
+        isRatingChanged: false,
+        isNewComment: true,
+        rating: null,
+        comment: existing.comment,
+      });
+    }
+
+    return {
+      success: true,
+      meta: await this.getAdCommentMeta(adId),
+    };
   }
 
   async removeAdComment(adId: number, commentId: number) {
@@ -223,13 +435,14 @@ export class AdCommentsService {
 
     const existing = await this.adCommentRepo.findOne({
       where: { id: commentId, adId },
-      select: { id: true },
+      select: { id: true, imageUrls: true },
     });
     if (!existing) {
       throw new NotFoundException('Review not found');
     }
 
     await this.adCommentRepo.delete({ id: commentId, adId });
+    await this.reviewImageService.deleteImages(existing.imageUrls ?? []);
     return {
       success: true,
       meta: await this.getAdCommentMeta(adId),
@@ -241,7 +454,7 @@ export class AdCommentsService {
 
     const existing = await this.adCommentRepo.findOne({
       where: { id: commentId, adId },
-      select: { id: true, userId: true },
+      select: { id: true, userId: true, imageUrls: true },
     });
     if (!existing) {
       throw new NotFoundException('Comment not found');
@@ -251,12 +464,24 @@ export class AdCommentsService {
     }
 
     await this.adCommentRepo.delete({ id: commentId, adId });
+    await this.reviewImageService.deleteImages(existing.imageUrls ?? []);
     return {
       success: true,
       meta: await this.getAdCommentMeta(adId),
     };
   }
 
+  /** Deletes review photo files ahead of an ad removal cascading its reviews. */
+  async deleteReviewImagesForAd(adId: number) {
+    const reviews = await this.adCommentRepo.find({
+      where: { adId, imageUrls: Not(IsNull()) },
+      select: { id: true, imageUrls: true },
+    });
+    await this.reviewImageService.deleteImages(
+      reviews.flatMap((review) => review.imageUrls ?? []),
+    );
+  }
+
   async blockReviewerFromReviews(adId: number, commentId: number) {
     await this.assertAdExists(adId);
 
@@ -325,8 +550,17 @@ export class AdCommentsService {
 
   private async fetchCommentsWithMeta(
     adId: number,
-    options: { includeReplies: boolean; page?: number; limit?: number },
+    options: {
+      includeReplies: boolean;
+      page?: number;
+      limit?: number;
+      sort?: AdCommentSort;
+      viewerId?: number | null;
+      includeHeld?: boolean;
+    },
   ) {
+    const sort = options.sort ?? 'newest';
+    const viewerId = options.viewerId ?? null;
     const shouldPaginatePublicComments =
       options.includeReplies &&
       typeof options.page === 'number' &&
@@ -335,12 +569,15 @@ export class AdCommentsService {
     if (shouldPaginatePublicComments) {
       const [meta, paginatedRows] = await Promise.all([
         this.getAdCommentMeta(adId),
-        this.fetchPaginatedCommentRows(adId, options.page!, options.limit!),
+        this.fetchPaginatedCommentRows(adId, options.page!, options.limit!, {
+          sort,
+          viewerId,
+        }),
       ]);
 
       const mapped = paginatedRows.rows.map((row) => this.mapAdCommentRow(row));
       return {
-        data: this.buildCommentTree(mapped),
+        data: this.buildCommentTree(mapped, sort),
         meta: {
           ...meta,
           comments: buildPaginationMeta(
@@ -352,7 +589,11 @@ export class AdCommentsService {
       };
     }
 
-    const commentsQuery = this.buildCommentListQuery(adId);
+    const commentsQuery = this.buildCommentListQuery(
+      adId,
+      viewerId,
+      options.includeHeld,
+    );
     if (!options.includeReplies) {
       commentsQuery.andWhere('comment.parentId IS NULL');
     }
@@ -365,14 +606,18 @@ export class AdCommentsService {
 
     const mapped = rows.map((row) => this.mapAdCommentRow(row));
     const data = options.includeReplies
-      ? this.buildCommentTree(mapped)
+      ? this.buildCommentTree(mapped, sort)
       : mapped;
 
     return { data, meta };
   }
 
-  private buildCommentListQuery(adId: number) {
-    return this.adCommentRepo
+  private buildCommentListQuery(
+    adId: number,
+    viewerId: number | null = null,
+    includeHeld = false,
+  ) {
+    const query = this.adCommentRepo
       .createQueryBuilder('comment')
       .leftJoin('comment.user', 'user')
       .select('comment.id', 'id')
@@ -382,39 +627,101 @@ export class AdCommentsService {
       .addSelect('comment.depth', 'depth')
       .addSelect('comment.rating', 'rating')
       .addSelect('comment.comment', 'comment')
+      .addSelect('comment.imageUrls', 'imageUrls')
       .addSelect('comment.isEdited', 'isEdited')
       .addSelect('comment.editedAt', 'editedAt')
+      .addSelect('comment.isHeld', 'isHeld')
+      .addSelect('comment.moderationNote', 'moderationNote')
       .addSelect('comment.createdAt', 'createdAt')
       .addSelect('comment.updatedAt', 'updatedAt')
       .addSelect('user.firstName', 'firstName')
       .addSelect('user.username', 'username')
       .addSelect('user.avatarUrl', 'avatarUrl')
       .addSelect('user.isReviewBlocked', 'isReviewBlocked')
+      .addSelect(AUTHOR_RATING_SQL, 'authorRating')
+      .addSelect(buildVoteCountSql(true), 'helpfulCount')
+      .addSelect(buildVoteCountSql(false), 'notHelpfulCount')
       .where('comment.adId = :adId', { adId });
+
+    if (!includeHeld) {
+      this.applyHeldCommentFilter(query, viewerId);
+    }
+
+    if (viewerId === null) {
+      query.addSelect('NULL', 'viewerVote');
+    } else {
+      query
+        .addSelect(
+          '(SELECT viewerVote.isHelpful FROM ad_comment_votes viewerVote WHERE viewerVote.commentId = comment.id AND viewerVote.userId = :viewerId)',
+          'viewerVote',
+        )
+        .setParameter('viewerId', viewerId);
+    }
+
+    return query;
   }
 
-  private async fetchPaginatedCommentRows(adId: number, page: number, limit: number) {
+  /** Hides held comments from everyone except their author. */
+  private applyHeldCommentFilter(
+    query: SelectQueryBuilder<AdComment>,
+    viewerId: number | null,
+  ) {
+    if (viewerId === null) {
+      return query.andWhere('comment.isHeld = 0');
+    }
+    return query.andWhere(
+      '(comment.isHeld = 0 OR comment.userId = :heldViewerId)',
+      { heldViewerId: viewerId },
+    );
+  }
+
+  private applyRootCommentSort(
+    query: SelectQueryBuilder<AdComment>,
+    sort: AdCommentSort,
+  ) {
+    if (sort === 'helpful') {
+      query.orderBy(buildVoteCountSql(true), 'DESC');
+    } else if (sort === 'rating_desc' || sort === 'rating_asc') {
+      // Reviews without a rating go last in both directions.
+      query
+        .orderBy(`(${AUTHOR_RATING_SQL}) IS NULL`, 'ASC')
+        .addOrderBy(AUTHOR_RATING_SQL, sort === 'rating_desc' ? 'DESC' : 'ASC');
+    } else {
+      query.orderBy('comment.createdAt', 'DESC');
+    }
+
+    return query
+      .addOrderBy('comment.createdAt', 'DESC')
+      .addOrderBy('comment.id', 'DESC');
+  }
+
+  private async fetchPaginatedCommentRows(
+    adId: number,
+    page: number,
+    limit: number,
+    options: { sort: AdCommentSort; viewerId: number | null },
+  ) {
     const skip = (page - 1) * limit;
-    const rootBaseQuery = this.buildCommentListQuery(adId)
+    const rootBaseQuery = this.buildCommentListQuery(adId, options.viewerId)
       .andWhere('comment.parentId IS NULL')
       .andWhere('comment.comment IS NOT NULL');
 
     const [total, rootRows] = await Promise.all([
-      this.adCommentRepo
-        .createQueryBuilder('comment')
-        .where('comment.adId = :adId', { adId })
-        .andWhere('comment.parentId IS NULL')
-        .andWhere('comment.comment IS NOT NULL')
-        .getCount(),
-      rootBaseQuery
-        .orderBy('comment.createdAt', 'DESC')
-        .addOrderBy('comment.id', 'DESC')
-        .skip(skip)
-        .take(limit)
+      this.applyHeldCommentFilter(
+        this.adCommentRepo
+          .createQueryBuilder('comment')
+          .where('comment.adId = :adId', { adId })
+          .andWhere('comment.parentId IS NULL')
+          .andWhere('comment.comment IS NOT NULL'),
+        options.viewerId,
+      ).getCount(),
+      this.applyRootCommentSort(rootBaseQuery, options.sort)
+        .offset(skip)
+        .limit(limit)
         .getRawMany<AdCommentRow>(),
     ]);
 
-    const ratingRows = await this.buildCommentListQuery(adId)
+    const ratingRows = await this.buildCommentListQuery(adId, options.viewerId)
       .andWhere('comment.parentId IS NULL')
       .andWhere('comment.rating IS NOT NULL')
       .andWhere('comment.comment IS NULL')
@@ -433,7 +740,7 @@ export class AdCommentsService {
     let parentIds = this.extractCommentIds(rootRows);
 
     while (parentIds.length > 0) {
-      const replyRows = await this.buildCommentListQuery(adId)
+      const replyRows = await this.buildCommentListQuery(adId, options.viewerId)
         .andWhere('comment.parentId IN (:...parentIds)', { parentIds })
         .orderBy('comment.createdAt', 'ASC')
         .addOrderBy('comment.id', 'ASC')
@@ -456,7 +763,10 @@ export class AdCommentsService {
       .filter((id) => Number.isFinite(id));
   }
 
-  private buildCommentTree(comments: MappedAdComment[]): MappedAdComment[] {
+  private buildCommentTree(
+    comments: MappedAdComment[],
+    sort: AdCommentSort = 'newest',
+  ): MappedAdComment[] {
     const byId = new Map<number, MappedAdComment>();
     for (const comment of comments) {
       comment.replies = [];
@@ -479,9 +789,7 @@ export class AdCommentsService {
       parent.replies.push(comment);
     }
 
-    roots.sort(
-      (a, b) => this.toTimestamp(b.createdAt) - this.toTimestamp(a.createdAt),
-    );
+    roots.sort((a, b) => this.compareRootComments(a, b, sort));
     for (const root of roots) {
       this.sortRepliesChronologically(root.replies);
     }
@@ -489,6 +797,27 @@ export class AdCommentsService {
     return roots;
   }
 
+  private compareRootComments(
+    a: MappedAdComment,
+    b: MappedAdComment,
+    sort: AdCommentSort,
+  ) {
+    if (sort === 'helpful' && a.helpfulCount !== b.helpfulCount) {
+      return b.helpfulCount - a.helpfulCount;
+    }
+    if (
+      (sort === 'rating_desc' || sort === 'rating_asc') &&
+      a.authorRating !== b.authorRating
+    ) {
+      if (a.authorRating === null) return 1;
+      if (b.authorRating === null) return -1;
+      return sort === 'rating_desc'
+        ? b.authorRating - a.authorRating
+        : a.authorRating - b.authorRating;
+    }
+    return this.toTimestamp(b.createdAt) - this.toTimestamp(a.createdAt);
+  }
+
   private sortRepliesChronologically(replies: MappedAdComment[]) {
     replies.sort(
       (a, b) => this.toTimestamp(a.createdAt) - this.toTimestamp(b.createdAt),
@@ -531,17 +860,30 @@ export class AdCommentsService {
   }
 
   private async getAdCommentMeta(adId: number) {
-    const row = await this.adCommentRepo
-      .createQueryBuilder('comment')
-      .select('COUNT(comment.id)', 'totalReviews')
-      .addSelect('AVG(comment.rating)', 'averageRating')
-      .where('comment.adId = :adId', { adId })
-      .andWhere('comment.parentId IS NULL')
-      .andWhere('comment.rating IS NOT NULL')
-      .getRawOne<{
-        totalReviews: string | null;
-        averageRating: string | null;
-      }>();
+    const [row, histogramRows] = await Promise.all([
+      this.adCommentRepo
+        .createQueryBuilder('comment')
+        .select('COUNT(comment.id)', 'totalReviews')
+        .addSelect('AVG(comment.rating)', 'averageRating')
+        .where('comment.adId = :adId', { adId })
+        .andWhere('comment.parentId IS NULL')
+        .andWhere('comment.rating IS NOT NULL')
+        .andWhere('comment.isHeld = 0')
+        .getRawOne<{
+          totalReviews: string | null;
+          averageRating: string | null;
+        }>(),
+      this.adCommentRepo
+        .createQueryBuilder('comment')
+        .select('comment.rating', 'rating')
+        .addSelect('COUNT(comment.id)', 'count')
+        .where('comment.adId = :adId', { adId })
+        .andWhere('comment.parentId IS NULL')
+        .andWhere('comment.rating IS NOT NULL')
+        .andWhere('comment.isHeld = 0')
+        .groupBy('comment.rating')
+        .getRawMany<{ rating: string | number; count: string | number }>(),
+    ]);
 
     const totalReviews = Number.parseInt(row?.totalReviews ?? '0', 10) || 0;
     const averageRaw = Number.parseFloat(row?.averageRating ?? '0');
@@ -549,18 +891,106 @@ export class AdCommentsService {
       ? Math.round(averageRaw * 10) / 10
       : 0;
 
+    const ratingHistogram: Record<number, number> = {
+      1: 0,
+      2: 0,
+      3: 0,
+      4: 0,
+      5: 0,
+    };
+    for (const histogramRow of histogramRows) {
+      const rating = Number.parseInt(String(histogramRow.rating), 10);
+      if (rating in ratingHistogram) {
+        ratingHistogram[rating] =
+          Number.parseInt(String(histogramRow.count), 10) || 0;
+      }
+    }
+
     return {
       totalReviews,
       averageRating,
+      ratingHistogram,
     };
   }
 
+  private async assertCanVote(adId: number, userId: number, commentId: number) {
+    const comment = await this.adCommentRepo.findOne({
+      where: { id: commentId, adId },
+      select: {
+        id: true,
+        userId: true,
+        parentId: true,
+        comment: true,
+        isHeld: true,
+      },
+    });
+    if (!comment || comment.isHeld) {
+      throw new NotFoundException('Review not found');
+    }
+    if (comment.parentId !== null || !comment.comment?.trim()) {
+      throw new BadRequestException('Only written reviews can be voted on');
+    }
+    if (comment.userId === userId) {
+      throw new BadRequestException('You cannot vote on your own review');
+    }
+
+    const voter = await this.userRepo.findOne({
+      where: { id: userId },
+      select: { id: true, isReviewBlocked: true },
+    });
+    if (!voter) {
+      throw new NotFoundException('User not found');
+    }
+    if (voter.isReviewBlocked) {
+      throw new ForbiddenException('You are not allowed to vote on reviews');
+    }
+  }
+
+  private async getCommentVoteSummary(
+    commentId: number,
+    viewerVote: MappedAdComment['viewerVote'],
+  ) {
+    const row = await this.adCommentRepo
+      .createQueryBuilder('comment')
+      .select(buildVoteCountSql(true), 'helpfulCount')
+      .addSelect(buildVoteCountSql(false), 'notHelpfulCount')
+      .where('comment.id = :commentId', { commentId })
+      .getRawOne<{
+        helpfulCount: string | number | null;
+        notHelpfulCount: string | number | null;
+      }>();
+
+    return {
+      commentId,
+      helpfulCount: this.parseCount(row?.helpfulCount),
+      notHelpfulCount: this.parseCount(row?.notHelpfulCount),
+      viewerVote,
+    };
+  }
+
+  private parseCount(value: string | number | null | undefined) {
+    return Number.parseInt(String(value ?? '0'), 10) || 0;
+  }
+
+  private parseCommentSort(sortRaw?: string): AdCommentSort {
+    const normalized = sortRaw?.trim().toLowerCase();
+    if (!normalized) return 'newest';
+    if (!AD_COMMENT_SORTS.includes(normalized as AdCommentSort)) {
+      throw new BadRequestException('Invalid review sort option');
+    }
+    return normalized as AdCommentSort;
+  }
+
   private mapAdCommentRow(row: AdCommentRow): MappedAdComment {
     const firstName = row.firstName?.trim();
     const username = row.username?.trim() ?? null;
     const displayName = firstName || (username ? `@${username}` : 'User');
     const parsedParentId =
       row.parentId === null ? null : Number.parseInt(row.parentId, 10);
+    const parsedAuthorRating =
+      row.authorRating === null || row.authorRating === undefined
+        ? null
+        : Number.parseInt(String(row.authorRating), 10);
 
     return {
       id: Number.parseInt(row.id, 10),
@@ -571,11 +1001,15 @@ export class AdCommentsService {
       rating:
         row.rating === null ? null : Number.parseInt(String(row.rating), 10),
       comment: row.comment,
+      imageUrls: this.parseImageUrls(row.imageUrls),
       isEdited:
         typeof row.isEdited === 'boolean'
           ? row.isEdited
           : Number(row.isEdited) === 1,
       editedAt: row.editedAt,
+      isHeld:
+        typeof row.isHeld === 'boolean' ? row.isHeld : Number(row.isHeld) === 1,
+      moderationNote: row.moderationNote ?? null,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
       user: {
@@ -587,10 +1021,34 @@ export class AdCommentsService {
             ? row.isReviewBlocked
             : Number(row.isReviewBlocked) === 1,
       },
+      authorRating: Number.isFinite(parsedAuthorRating)
+        ? parsedAuthorRating
+        : null,
+      helpfulCount: this.parseCount(row.helpfulCount),
+      notHelpfulCount: this.parseCount(row.notHelpfulCount),
+      viewerVote:
+        row.viewerVote === null || row.viewerVote === undefined
+          ? null
+          : Number(row.viewerVote) === 1
+            ? 'helpful'
+            : 'not_helpful',
       replies: [],
     };
   }
 
+  private parseImageUrls(value: string | string[] | null): string[] {
+    if (Array.isArray(value)) return value;
+    if (!value) return [];
+    try {
+      const parsed: unknown = JSON.parse(value);
+      return Array.isArray(parsed)
+        ? parsed.filter((item): item is string => typeof item === 'string')
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
   private normalizeOptionalComment(comment: string | undefined) {
     if (typeof comment !== 'string') return null;
     const trimmed = comment.trim();
@@ -620,6 +1078,8 @@ export class AdCommentsService {
     adId: number;
     userId: number;
     comment: string;
+    imageUrls: string[];
+    verdict: ReviewModerationVerdict | null;
   }) {
     return this.adCommentRepo.save(
       this.adCommentRepo.create({
@@ -629,8 +1089,10 @@ export class AdCommentsService {
         depth: 0,
         rating: null,
         comment: input.comment,
+        imageUrls: input.imageUrls.length > 0 ? input.imageUrls : null,
         isEdited: false,
         editedAt: null,
+        ...this.buildHoldFields(input.verdict),
       }),
     );
   }
@@ -640,12 +1102,13 @@ export class AdCommentsService {
     userId: number;
     parentId: number;
     comment: string;
+    verdict: ReviewModerationVerdict;
   }) {
     const parent = await this.adCommentRepo.findOne({
       where: { id: input.parentId, adId: input.adId },
-      select: { id: true, depth: true, comment: true },
+      select: { id: true, depth: true, comment: true, isHeld: true },
     });
-    if (!parent) {
+    if (!parent || parent.isHeld) {
       throw new NotFoundException('Parent comment not found');
     }
     if (parent.depth >= MAX_REPLY_DEPTH) {
@@ -669,10 +1132,21 @@ export class AdCommentsService {
         comment: input.comment,
         isEdited: false,
         editedAt: null,
+        ...this.buildHoldFields(input.verdict),
       }),
     );
   }
 
+  private buildHoldFields(verdict: ReviewModerationVerdict | null) {
+    return verdict?.hold
+      ? {
+          isHeld: true,
+          moderationNote:
+            this.contentModerationService.formatModerationNote(verdict),
+        }
+      : { isHeld: false, moderationNote: null };
+  }
+
   private async upsertUserRating(adId: number, userId: number, rating: number) {
     const existingRating = await this.adCommentRepo.findOne({
       where: {
@@ -767,17 +1241,46 @@ export class AdCommentsService {
       depth: String(saved.depth),
       rating: saved.rating === null ? null : String(saved.rating),
       comment: saved.comment,
+      imageUrls: saved.imageUrls,
       isEdited: saved.isEdited,
       editedAt: saved.editedAt,
+      isHeld: saved.isHeld,
+      moderationNote: saved.moderationNote,
       createdAt: saved.createdAt,
       updatedAt: saved.updatedAt,
       firstName: user.firstName ?? null,
       username: user.username ?? null,
       avatarUrl: user.avatarUrl ?? null,
       isReviewBlocked: user.isReviewBlocked,
+      authorRating: saved.parentId === null ? saved.rating : null,
+      helpfulCount: 0,
+      notHelpfulCount: 0,
+      viewerVote: null,
     });
   }
 
+  private async notifyModeratorsAboutHeldComment(
+    ad: Pick<Ad, 'id' | 'name'>,
+    author: Pick<User, 'firstName' | 'username'>,
+    comment: AdComment,
+    verdict: ModerationVerdict,
+  ) {
+    try {
+      const firstName = author.firstName?.trim();
+      const username = author.username?.trim();
+      await this.botService.notifyAdminReviewHeld({
+        adId: ad.id,
+        adTitle: ad.name,
+        commentId: comment.id,
+        reviewerDisplayName: firstName || (username ? `@${username}` : 'User'),
+        commentExcerpt: comment.comment ?? '',
+        reasons: verdict.findings.map((finding) => finding.reason),
+      });
+    } catch {
+      // Keep review publishing non-blocking if Telegram delivery fails.
+    }
+  }
+
   private async notifyAdCreatorAboutReviewActivity(
     ad: Pick<Ad, 'id' | 'name' | 'createdById' | 'merchantId'>,
     reviewer: Pick<User, 'id' | 'firstName' | 'username'>,
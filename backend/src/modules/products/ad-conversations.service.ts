@@ -0,0 +1,416 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { buildPaginationMeta } from '../../common/pagination';
+import { Ad, AdStatus } from './entities/ad.entity';
+import { AdConversation } from './entities/ad-conversation.entity';
+import { AdConversationMessage } from './entities/ad-conversation-message.entity';
+import { CreateAdConversationMessageDto } from './dto/create-ad-conversation-message.dto';
+import { User } from '../users/entities/user.entity';
+import { BotService } from '../bot/bot.service';
+
+type ConversationParticipantRole = 'buyer' | 'seller';
+
+type ConversationParticipant = Pick<
+  User,
+  'id' | 'firstName' | 'username' | 'avatarUrl'
+>;
+
+// Messages the given user did not send and has not read yet.
+const UNREAD_MESSAGE_CONDITION = `message.senderId != :userId AND (
+  (conversation.buyerId = :userId AND (conversation.buyerLastReadAt IS NULL OR message.createdAt > conversation.buyerLastReadAt))
+  OR (conversation.sellerId = :userId AND (conversation.sellerLastReadAt IS NULL OR message.createdAt > conversation.sellerLastReadAt))
+)`;
+
+@Injectable()
+export class AdConversationsService {
+  constructor(
+    @InjectRepository(Ad)
+    private readonly adRepo: Repository<Ad>,
+    @InjectRepository(AdConversation)
+    private readonly conversationRepo: Repository<AdConversation>,
+    @InjectRepository(AdConversationMessage)
+    private readonly messageRepo: Repository<AdConversationMessage>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    private readonly botService: BotService,
+  ) {}
+
+  async listMyConversations(
+    userId: number,
+    pagination: { page: number; limit: number },
+  ) {
+    const [conversations, total] = await this.conversationRepo.findAndCount({
+      where: [{ buyerId: userId }, { sellerId: userId }],
+      relations: { ad: true, buyer: true, seller: true },
+      order: { lastMessageAt: 'DESC', id: 'DESC' },
+      skip: (pagination.page - 1) * pagination.limit,
+      take: pagination.limit,
+    });
+
+    return {
+      data: await this.mapConversations(conversations, userId),
+      meta: buildPaginationMeta(total, pagination.page, pagination.limit),
+    };
+  }
+
+  async listAdConversations(adId: number, userId: number) {
+    const ad = await this.adRepo.findOne({
+      where: { id: adId },
+      select: { id: true, merchantId: true },
+    });
+    if (!ad) {
+      throw new NotFoundException('Ad not found');
+    }
+
+    const conversations = await this.conversationRepo.find({
+      where: ad.merchantId === userId ? { adId } : { adId, buyerId: userId },
+      relations: { ad: true, buyer: true, seller: true },
+      order: { lastMessageAt: 'DESC', id: 'DESC' },
+    });
+
+    return { data: await this.mapConversations(conversations, userId) };
+  }
+
+  async startConversation(
+    adId: number,
+    userId: number,
+    dto: CreateAdConversationMessageDto,
+  ) {
+    const ad = await this.adRepo.findOne({
+      where: { id: adId, status: AdStatus.APPROVED, isActive: true },
+      select: { id: true, name: true, merchantId: true },
+    });
+    if (!ad) {
+      throw new NotFoundException('Ad not found');
+    }
+    if (!ad.merchantId) {
+      throw new BadRequestException('This ad does not accept messages');
+    }
+    if (ad.merchantId === userId) {
+      throw new BadRequestException('You cannot message your own ad');
+    }
+
+    const sender = await this.getParticipantOrThrow(userId);
+
+    // Insert-or-ignore keeps concurrent first messages on a single thread.
+    await this.conversationRepo
+      .createQueryBuilder()
+      .insert()
+      .into(AdConversation)
+      .values({ adId, buyerId: userId, sellerId: ad.merchantId })
+      .orIgnore()
+      .execute();
+
+    const conversation = await this.conversationRepo.findOne({
+      where: { adId, buyerId: userId },
+    });
+    if (!conversation) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    return this.appendMessage(conversation, ad, sender, dto.message);
+  }
+
+  async getConversationMessages(
+    adId: number,
+    conversationId: number,
+    userId: number,
+    pagination: { page: number; limit: number },
+  ) {
+    await this.getConversationForParticipant(adId, conversationId, userId);
+
+    const [messages, total] = await this.messageRepo.findAndCount({
+      where: { conversationId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: (pagination.page - 1) * pagination.limit,
+      take: pagination.limit,
+    });
+
+    return {
+      data: messages.reverse().map((message) => this.mapMessage(message)),
+      meta: buildPaginationMeta(total, pagination.page, pagination.limit),
+    };
+  }
+
+  async sendMessage(
+    adId: number,
+    conversationId: number,
+    userId: number,
+    dto: CreateAdConversationMessageDto,
+  ) {
+    const conversation = await this.getConversationForParticipant(
+      adId,
+      conversationId,
+      userId,
+    );
+    const ad = await this.adRepo.findOne({
+      where: { id: adId },
+      select: { id: true, name: true, merchantId: true },
+    });
+    if (!ad) {
+      throw new NotFoundException('Ad not found');
+    }
+
+    const sender = await this.getParticipantOrThrow(userId);
+    return this.appendMessage(conversation, ad, sender, dto.message);
+  }
+
+  async markConversationRead(
+    adId: number,
+    conversationId: number,
+    userId: number,
+  ) {
+    const conversation = await this.getConversationForParticipant(
+      adId,
+      conversationId,
+      userId,
+    );
+
+    const readAt = new Date();
+    if (this.getParticipantRole(conversation, userId) === 'buyer') {
+      await this.conversationRepo.update(conversation.id, {
+        buyerLastReadAt: readAt,
+      });
+    } else {
+      await this.conversationRepo.update(conversation.id, {
+        sellerLastReadAt: readAt,
+      });
+    }
+
+    return { success: true };
+  }
+
+  async countUnreadMessages(userId: number): Promise<number> {
+    const row = await this.messageRepo
+      .createQueryBuilder('message')
+      .innerJoin('message.conversation', 'conversation')
+      .select('COUNT(message.id)', 'unreadCount')
+      .where(UNREAD_MESSAGE_CONDITION, { userId })
+      .getRawOne<{ unreadCount: string | null }>();
+
+    return Number.parseInt(row?.unreadCount ?? '0', 10) || 0;
+  }
+
+  private async appendMessage(
+    conversation: AdConversation,
+    ad: Pick<Ad, 'id' | 'name'>,
+    sender: ConversationParticipant,
+    body: string,
+  ) {
+    const normalizedBody = String(body ?? '').trim();
+    if (!normalizedBody) {
+      throw new BadRequestException('Message cannot be empty');
+    }
+
+    const senderRole = this.getParticipantRole(conversation, sender.id);
+    const recipientId =
+      senderRole === 'buyer' ? conversation.sellerId : conversation.buyerId;
+    const recipientLastReadAt =
+      senderRole === 'buyer'
+        ? conversation.sellerLastReadAt
+        : conversation.buyerLastReadAt;
+    // Only nudge when the recipient has caught up, so a burst of messages
+    // produces a single Telegram notification.
+    const recipientWasCaughtUp =
+      !conversation.lastMessageAt ||
+      (recipientLastReadAt !== null &&
+        recipientLastReadAt >= conversation.lastMessageAt);
+
+    const saved = await this.messageRepo.save(
+      this.messageRepo.create({
+        conversationId: conversation.id,
+        senderId: sender.id,
+        body: normalizedBody,
+      }),
+    );
+
+    await this.conversationRepo.update(conversation.id, {
+      lastMessageAt: saved.createdAt,
+      ...(senderRole === 'buyer'
+        ? { buyerLastReadAt: saved.createdAt }
+        : { sellerLastReadAt: saved.createdAt }),
+    });
+
+    if (recipientWasCaughtUp) {
+      await this.notifyRecipient(recipientId, ad, sender, senderRole, saved);
+    }
+
+    return {
+      data: this.mapMessage(saved),
+      meta: { conversationId: conversation.id },
+    };
+  }
+
+  private async getConversationForParticipant(
+    adId: number,
+    conversationId: number,
+    userId: number,
+  ) {
+    const conversation = await this.conversationRepo.findOne({
+      where: { id: conversationId, adId },
+    });
+    if (!conversation) {
+      throw new NotFoundException('Conversation not found');
+    }
+    if (conversation.buyerId !== userId && conversation.sellerId !== userId) {
+      throw new ForbiddenException('You are not part of this conversation');
+    }
+    return conversation;
+  }
+
+  private async getParticipantOrThrow(userId: number) {
+    const user = await this.userRepo.findOne({
+      where: { id: userId },
+      select: { id: true, firstName: true, username: true, avatarUrl: true },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private getParticipantRole(
+    conversation: Pick<AdConversation, 'buyerId' | 'sellerId'>,
+    userId: number,
+  ): ConversationParticipantRole {
+    return conversation.sellerId === userId ? 'seller' : 'buyer';
+  }
+
+  private async mapConversations(
+    conversations: AdConversation[],
+    userId: number,
+  ) {
+    if (conversations.length === 0) {
+      return [];
+    }
+
+    const conversationIds = conversations.map(
+      (conversation) => conversation.id,
+    );
+    const [unreadRows, latestRows] = await Promise.all([
+      this.messageRepo
+        .createQueryBuilder('message')
+        .innerJoin('message.conversation', 'conversation')
+        .select('message.conversationId', 'conversationId')
+        .addSelect('COUNT(message.id)', 'unreadCount')
+        .where('message.conversationId IN (:...conversationIds)', {
+          conversationIds,
+        })
+        .andWhere(UNREAD_MESSAGE_CONDITION, { userId })
+        .groupBy('message.conversationId')
+        .getRawMany<{ conversationId: string; unreadCount: string }>(),
+      this.messageRepo
+        .createQueryBuilder('message')
+        .select('MAX(message.id)', 'messageId')
+        .where('message.conversationId IN (:...conversationIds)', {
+          conversationIds,
+        })
+        .groupBy('message.conversationId')
+        .getRawMany<{ messageId: string }>(),
+    ]);
+
+    const unreadByConversation = new Map(
+      unreadRows.map((row) => [
+        Number.parseInt(row.conversationId, 10),
+        Number.parseInt(row.unreadCount, 10) || 0,
+      ]),
+    );
+    const latestMessageIds = latestRows
+      .map((row) => Number.parseInt(row.messageId, 10))
+      .filter((id) => Number.isFinite(id));
+    const latestMessages =
+      latestMessageIds.length > 0
+        ? await this.messageRepo.find({ where: { id: In(latestMessageIds) } })
+        : [];
+    const latestByConversation = new Map(
+      latestMessages.map((message) => [message.conversationId, message]),
+    );
+
+    return conversations.map((conversation) => {
+      const role = this.getParticipantRole(conversation, userId);
+      const counterpart =
+        role === 'buyer' ? conversation.seller : conversation.buyer;
+      const lastMessage = latestByConversation.get(conversation.id);
+
+      return {
+        id: conversation.id,
+        adId: conversation.adId,
+        ad: conversation.ad
+          ? {
+              id: conversation.ad.id,
+              name: conversation.ad.name,
+              slug: conversation.ad.slug,
+              imageUrl:
+                conversation.ad.imageUrls?.[0] ??
+                conversation.ad.imageUrl ??
+                null,
+            }
+          : null,
+        role,
+        counterpart: {
+          id: counterpart?.id ?? null,
+          displayName: this.getDisplayName(counterpart),
+          username: counterpart?.username ?? null,
+          avatarUrl: counterpart?.avatarUrl ?? null,
+        },
+        lastMessage: lastMessage ? this.mapMessage(lastMessage) : null,
+        lastMessageAt: conversation.lastMessageAt,
+        unreadCount: unreadByConversation.get(conversation.id) ?? 0,
+        createdAt: conversation.createdAt,
+      };
+    });
+  }
+
+  private mapMessage(message: AdConversationMessage) {
+    return {
+      id: message.id,
+      conversationId: message.conversationId,
+      senderId: message.senderId,
+      body: message.body,
+      createdAt: message.createdAt,
+    };
+  }
+
+  private getDisplayName(
+    user: Pick<User, 'firstName' | 'username'> | null | undefined,
+  ) {
+    const firstName = user?.firstName?.trim();
+    const username = user?.username?.trim();
+    return firstName || (username ? `@${username}` : 'User');
+  }
+
+  private async notifyRecipient(
+    recipientId: number,
+    ad: Pick<Ad, 'id' | 'name'>,
+    sender: ConversationParticipant,
+    senderRole: ConversationParticipantRole,
+    message: AdConversationMessage,
+  ) {
+    try {
+      const recipient = await this.userRepo.findOne({
+        where: { id: recipientId },
+        select: { id: true, telegramId: true },
+      });
+      if (!recipient?.telegramId) {
+        return;
+      }
+
+      await this.botService.notifyConversationMessage({
+        telegramId: recipient.telegramId,
+        adId: ad.id,
+        adTitle: ad.name,
+        senderDisplayName: this.getDisplayName(sender),
+        message: message.body,
+        isSeller: senderRole === 'buyer',
+      });
+    } catch {
+      // Keep messaging non-blocking if Telegram delivery fails.
+    }
+  }
+}
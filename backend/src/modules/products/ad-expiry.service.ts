@@ -0,0 +1,218 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { Ad, AdStatus } from './entities/ad.entity';
+import { Category } from './entities/category.entity';
+import { User } from '../users/entities/user.entity';
+import { BotService } from '../bot/bot.service';
+import { MerchantsService } from '../merchants/merchants.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_AD_LIFETIME_DAYS = 365;
+const EXPIRY_BATCH_SIZE = 200;
+
+@Injectable()
+export class AdExpiryService implements OnModuleInit {
+  private readonly logger = new Logger(AdExpiryService.name);
+  private readonly defaultLifetimeDays: number;
+  private readonly reminderDays: number;
+  private tickInFlight = false;
+
+  constructor(
+    @InjectRepository(Ad)
+    private readonly adRepo: Repository<Ad>,
+    @InjectRepository(Category)
+    private readonly categoryRepo: Repository<Category>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    private readonly botService: BotService,
+    private readonly merchantsService: MerchantsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.defaultLifetimeDays = this.readPositiveIntConfig(
+      'AD_DEFAULT_LIFETIME_DAYS',
+      30,
+      MAX_AD_LIFETIME_DAYS,
+    );
+    this.reminderDays = this.readPositiveIntConfig(
+      'AD_EXPIRY_REMINDER_DAYS',
+      3,
+      30,
+    );
+  }
+
+  onModuleInit() {
+    setTimeout(() => {
+      void this.backfillExpiry();
+    }, 5_000);
+  }
+
+  async computeExpiresAt(
+    categoryId: number | null,
+    from: Date = new Date(),
+  ): Promise<Date> {
+    const category = categoryId
+      ? await this.categoryRepo.findOne({
+          where: { id: categoryId },
+          select: { id: true, defaultAdLifetimeDays: true },
+        })
+      : null;
+    const days = category?.defaultAdLifetimeDays ?? this.defaultLifetimeDays;
+    return new Date(from.getTime() + days * DAY_MS);
+  }
+
+  @Cron('5 * * * *')
+  async processExpiryCron() {
+    await this.processExpiryTick();
+  }
+
+  async processExpiryTick() {
+    if (this.tickInFlight) return;
+    this.tickInFlight = true;
+    try {
+      await this.sendExpiryReminders();
+      await this.archiveExpiredAds();
+    } catch (error) {
+      this.logger.error('Ad expiry tick failed', error as Error);
+    } finally {
+      this.tickInFlight = false;
+    }
+  }
+
+  private async sendExpiryReminders() {
+    const now = new Date();
+    const ads = await this.adRepo
+      .createQueryBuilder('ad')
+      .where('ad.status = :status', { status: AdStatus.APPROVED })
+      .andWhere('ad.isActive = :isActive', { isActive: true })
+      .andWhere('ad.merchantId IS NOT NULL')
+      .andWhere('ad.expiryReminderSentAt IS NULL')
+      .andWhere('ad.expiresAt > :now', { now })
+      .andWhere('ad.expiresAt <= :remindBefore', {
+        remindBefore: new Date(now.getTime() + this.reminderDays * DAY_MS),
+      })
+      .orderBy('ad.expiresAt', 'ASC')
+      .take(EXPIRY_BATCH_SIZE)
+      .getMany();
+
+    for (const ad of ads) {
+      // Claim the reminder first so overlapping ticks never send it twice.
+      const claim = await this.adRepo.update(
+        { id: ad.id, expiryReminderSentAt: IsNull() },
+        { expiryReminderSentAt: now },
+      );
+      if (!claim.affected || !ad.expiresAt) continue;
+      await this.notifyMerchant(ad, ad.expiresAt, false);
+    }
+  }
+
+  private async archiveExpiredAds() {
+    const now = new Date();
+    const ads = await this.adRepo.find({
+      where: {
+        status: AdStatus.APPROVED,
+        isActive: true,
+        expiresAt: LessThanOrEqual(now),
+      },
+      order: { expiresAt: 'ASC' },
+      take: EXPIRY_BATCH_SIZE,
+    });
+
+    for (const ad of ads) {
+      const claim = await this.adRepo.update(
+        { id: ad.id, isActive: true, archivedAt: IsNull() },
+        { isActive: false, archivedAt: now },
+      );
+      if (!claim.affected) continue;
+
+      await this.merchantsService.recordAdExpired({
+        merchantId: ad.merchantId,
+        adId: ad.id,
+        adName: ad.name,
+      });
+      await this.notifyMerchant(ad, ad.expiresAt ?? now, true);
+    }
+
+    if (ads.length > 0) {
+      this.logger.log(`Archived ${ads.length} expired ads`);
+    }
+  }
+
+  private async notifyMerchant(ad: Ad, expiresAt: Date, expired: boolean) {
+    if (!ad.merchantId) return;
+
+    try {
+      const merchant = await this.userRepo.findOne({
+        where: { id: ad.merchantId },
+        select: { id: true, telegramId: true },
+      });
+      if (!merchant?.telegramId) return;
+
+      await this.botService.notifyAdExpiry({
+        telegramId: merchant.telegramId,
+        adId: ad.id,
+        adTitle: ad.name,
+        expiresAt,
+        expired,
+      });
+    } catch {
+      // Keep expiry processing non-blocking if Telegram delivery fails.
+    }
+  }
+
+  /** Gives approved ads that predate expiry tracking a full lifetime. */
+  private async backfillExpiry() {
+    try {
+      const now = new Date();
+      const categories = await this.categoryRepo.find({
+        select: { id: true, defaultAdLifetimeDays: true },
+      });
+
+      for (const category of categories) {
+        if (!category.defaultAdLifetimeDays) continue;
+        await this.adRepo.update(
+          {
+            status: AdStatus.APPROVED,
+            expiresAt: IsNull(),
+            categoryId: category.id,
+          },
+          {
+            expiresAt: new Date(
+              now.getTime() + category.defaultAdLifetimeDays * DAY_MS,
+            ),
+          },
+        );
+      }
+
+      const result = await this.adRepo.update(
+        { status: AdStatus.APPROVED, expiresAt: IsNull() },
+        {
+          expiresAt: new Date(
+            now.getTime() + this.defaultLifetimeDays * DAY_MS,
+          ),
+        },
+      );
+      if (result.affected) {
+        this.logger.log(`Set expiry for ${result.affected} approved ads`);
+      }
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(`Failed to backfill ad expiry: ${err.message}`);
+    }
+  }
+
+  private readPositiveIntConfig(
+    key: string,
+    fallback: number,
+    max: number,
+  ): number {
+    const raw = this.configService.get<string>(key);
+    const parsed = Number.parseInt(raw ?? '', 10);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      return fallback;
+    }
+    return Math.min(parsed, max);
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { buildPaginationMeta } from '../../common/pagination';
+import { Ad, AdStatus } from './entities/ad.entity';
+import { AdFavorite } from './entities/ad-favorite.entity';
+import { BotService } from '../bot/bot.service';
+
+@Injectable()
+export class AdFavoritesService {
+  constructor(
+    @InjectRepository(Ad)
+    private readonly adRepo: Repository<Ad>,
+    @InjectRepository(AdFavorite)
+    private readonly favoriteRepo: Repository<AdFavorite>,
+    private readonly botService: BotService,
+  ) {}
+
+  async addFavorite(adId: number, userId: number) {
+    const ad = await this.adRepo.findOne({
+      where: { id: adId, status: AdStatus.APPROVED, isActive: true },
+      select: { id: true, merchantId: true },
+    });
+    if (!ad) {
+      throw new NotFoundException('Ad not found');
+    }
+    if (ad.merchantId === userId) {
+      throw new BadRequestException('You cannot favorite your own ad');
+    }
+
+    await this.favoriteRepo
+      .createQueryBuilder()
+      .insert()
+      .into(AdFavorite)
+      .values({ adId, userId })
+      .orIgnore()
+      .execute();
+
+    return { favorited: true, favoriteCount: await this.countForAd(adId) };
+  }
+
+  async removeFavorite(adId: number, userId: number) {
+    await this.favoriteRepo.delete({ adId, userId });
+    return { favorited: false, favoriteCount: await this.countForAd(adId) };
+  }
+
+  async listMyFavorites(
+    userId: number,
+    pagination: { page: number; limit: number },
+  ) {
+    const [favorites, total] = await this.favoriteRepo
+      .createQueryBuilder('favorite')
+      .innerJoinAndSelect('favorite.ad', 'ad')
+      .leftJoinAndSelect('ad.category', 'category')
+      .where('favorite.userId = :userId', { userId })
+      .andWhere('ad.status = :status', { status: AdStatus.APPROVED })
+      .andWhere('ad.isActive = :isActive', { isActive: true })
+      .orderBy('favorite.createdAt', 'DESC')
+      .addOrderBy('favorite.id', 'DESC')
+      .skip((pagination.page - 1) * pagination.limit)
+      .take(pagination.limit)
+      .getManyAndCount();
+
+    return {
+      data: favorites.map((favorite) => ({
+        ...favorite.ad,
+        favoritedAt: favorite.createdAt,
+      })),
+      meta: buildPaginationMeta(total, pagination.page, pagination.limit),
+    };
+  }
+
+  async listMyFavoriteAdIds(userId: number) {
+    const favorites = await this.favoriteRepo.find({
+      where: { userId },
+      select: { id: true, adId: true },
+      order: { id: 'DESC' },
+    });
+    return { data: favorites.map((favorite) => favorite.adId) };
+  }
+
+  async countForAd(adId: number): Promise<number> {
+    return this.favoriteRepo.count({ where: { adId } });
+  }
+
+  async countForMerchant(merchantId: number | null): Promise<number> {
+    const query = this.favoriteRepo
+      .createQueryBuilder('favorite')
+      .innerJoin('favorite.ad', 'ad');
+    if (merchantId !== null) {
+      query.where('ad.merchantId = :merchantId', { merchantId });
+    }
+    return query.getCount();
+  }
+
+  /** Telegram ids of users who favorited the ad, read before it is deleted. */
+  async findSubscriberTelegramIds(adId: number): Promise<string[]> {
+    const rows = await this.favoriteRepo
+      .createQueryBuilder('favorite')
+      .innerJoin('favorite.user', 'user')
+      .select('user.telegramId', 'telegramId')
+      .where('favorite.adId = :adId', { adId })
+      .andWhere('user.telegramId IS NOT NULL')
+      .andWhere('user.isBanned = :isBanned', { isBanned: false })
+      .getRawMany<{ telegramId: string }>();
+    return rows.map((row) => row.telegramId);
+  }
+
+  async notifyPriceDrop(ad: Ad, previousPrice: number) {
+    const telegramIds = await this.findSubscriberTelegramIds(ad.id);
+    for (const telegramId of telegramIds) {
+      await this.botService.notifyFavoriteAdPriceDrop({
+        telegramId,
+        adTitle: ad.name,
+        previousPrice,
+        price: Number(ad.price),
+      });
+    }
+  }
+
+  async notifyAdRemoved(adTitle: string, telegramIds: string[]) {
+    for (const telegramId of telegramIds) {
+      await this.botService.notifyFavoriteAdRemoved({ telegramId, adTitle });
+    }
+  }
+}
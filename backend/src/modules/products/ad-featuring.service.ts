@@ -0,0 +1,217 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { Ad, AdStatus } from './entities/ad.entity';
+import { Category } from './entities/category.entity';
+import { User } from '../users/entities/user.entity';
+import {
+  MerchantActivityType,
+  MerchantsService,
+} from '../merchants/merchants.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FEATURED_LOYALTY_EVENT_TYPE = 'AD_FEATURED';
+const DEFAULT_FEATURED_DAYS = 7;
+
+@Injectable()
+export class AdFeaturingService {
+  private readonly logger = new Logger(AdFeaturingService.name);
+  private readonly pointsPerDay: number;
+  private readonly slotsPerCategory: number;
+
+  constructor(
+    @InjectRepository(Ad)
+    private readonly adRepo: Repository<Ad>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    private readonly merchantsService: MerchantsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.pointsPerDay = this.readPositiveIntConfig(
+      'FEATURED_POINTS_PER_DAY',
+      20,
+      10_000,
+    );
+    this.slotsPerCategory = this.readPositiveIntConfig(
+      'FEATURED_SLOTS_PER_CATEGORY',
+      3,
+      50,
+    );
+  }
+
+  async getPricing(merchantId: number) {
+    const merchant = await this.userRepo.findOne({
+      where: { id: merchantId },
+      select: { id: true, loyaltyPoints: true },
+    });
+    return {
+      pointsPerDay: this.pointsPerDay,
+      slotsPerCategory: this.slotsPerCategory,
+      loyaltyPoints: Number(merchant?.loyaltyPoints ?? 0),
+    };
+  }
+
+  /**
+   * Debits loyalty points and pins the ad in one transaction. Buying more
+   * days while an ad is already featured extends the current window.
+   */
+  async featureWithPoints(adId: number, merchantId: number, days: number) {
+    const ad = await this.adRepo.findOne({ where: { id: adId } });
+    if (!ad) throw new NotFoundException('Ad not found');
+    if (ad.merchantId !== merchantId) {
+      throw new BadRequestException('You can only feature your own ads');
+    }
+    if (ad.status !== AdStatus.APPROVED || !ad.isActive) {
+      throw new BadRequestException('Only published ads can be featured');
+    }
+
+    const cost = days * this.pointsPerDay;
+    let featuredUntil = new Date();
+
+    await this.merchantsService.applyPointEvent({
+      merchantId,
+      eventType: FEATURED_LOYALTY_EVENT_TYPE,
+      activityType: MerchantActivityType.AD_FEATURED,
+      title: `Featured ad: ${ad.name}`,
+      description: `${days} day(s) for ${cost} points`,
+      pointsDelta: -cost,
+      actorUserId: merchantId,
+      requireSufficientBalance: true,
+      metadata: { adId: ad.id, days },
+      applyWithinTransaction: async (manager) => {
+        featuredUntil = await this.pinWithinTransaction(manager, ad.id, days);
+      },
+    });
+
+    return { id: ad.id, isFeatured: true, featuredUntil };
+  }
+
+  async setFeaturedByAdmin(
+    adId: number,
+    adminUserId: number,
+    input: { isFeatured: boolean; days?: number },
+  ) {
+    const ad = await this.adRepo.findOne({ where: { id: adId } });
+    if (!ad) throw new NotFoundException('Ad not found');
+
+    if (!input.isFeatured) {
+      ad.isFeatured = false;
+      ad.featuredUntil = null;
+      await this.adRepo.save(ad);
+      return { id: ad.id, isFeatured: false, featuredUntil: null };
+    }
+
+    // Admin overrides skip the slot cap and the point cost.
+    const days = input.days ?? DEFAULT_FEATURED_DAYS;
+    ad.isFeatured = true;
+    ad.featuredUntil = new Date(Date.now() + days * DAY_MS);
+    await this.adRepo.save(ad);
+
+    await this.merchantsService.recordAdFeaturedByAdmin({
+      merchantId: ad.merchantId,
+      adId: ad.id,
+      adName: ad.name,
+      days,
+      actorUserId: adminUserId,
+    });
+
+    return { id: ad.id, isFeatured: true, featuredUntil: ad.featuredUntil };
+  }
+
+  @Cron('*/10 * * * *')
+  async unfeatureExpiredCron() {
+    try {
+      // Ads pinned before featuring had an end date get the admin default
+      // window, so they expire and free their slot like any other.
+      const legacy = await this.adRepo.update(
+        { isFeatured: true, featuredUntil: IsNull() },
+        {
+          featuredUntil: new Date(Date.now() + DEFAULT_FEATURED_DAYS * DAY_MS),
+        },
+      );
+      if (legacy.affected) {
+        this.logger.log(`Set a featured end date on ${legacy.affected} ads`);
+      }
+
+      const result = await this.adRepo.update(
+        { isFeatured: true, featuredUntil: LessThanOrEqual(new Date()) },
+        { isFeatured: false, featuredUntil: null },
+      );
+      if (result.affected) {
+        this.logger.log(`Unfeatured ${result.affected} ads`);
+      }
+    } catch (error) {
+      this.logger.error('Featured expiry sweep failed', error as Error);
+    }
+  }
+
+  private async pinWithinTransaction(
+    manager: EntityManager,
+    adId: number,
+    days: number,
+  ): Promise<Date> {
+    const adRepo = manager.getRepository(Ad);
+    const ad = await adRepo
+      .createQueryBuilder('ad')
+      .setLock('pessimistic_write')
+      .where('ad.id = :adId', { adId })
+      .getOne();
+    if (!ad) throw new NotFoundException('Ad not found');
+
+    const now = new Date();
+    // A missing end date is a pin the sweep has not dated yet.
+    const isCurrentlyFeatured =
+      ad.isFeatured && (ad.featuredUntil === null || ad.featuredUntil > now);
+
+    if (!isCurrentlyFeatured && ad.categoryId) {
+      // Locking the category row serializes concurrent purchases per category.
+      await manager
+        .getRepository(Category)
+        .createQueryBuilder('category')
+        .setLock('pessimistic_write')
+        .where('category.id = :categoryId', { categoryId: ad.categoryId })
+        .getOne();
+
+      const taken = await adRepo
+        .createQueryBuilder('ad')
+        .where('ad.categoryId = :categoryId', { categoryId: ad.categoryId })
+        .andWhere('ad.id != :adId', { adId })
+        .andWhere('ad.isFeatured = :isFeatured', { isFeatured: true })
+        .andWhere('(ad.featuredUntil IS NULL OR ad.featuredUntil > :now)', {
+          now,
+        })
+        .getCount();
+      if (taken >= this.slotsPerCategory) {
+        throw new BadRequestException(
+          'All featured slots in this category are taken. Try again later',
+        );
+      }
+    }
+
+    const start =
+      isCurrentlyFeatured && ad.featuredUntil ? ad.featuredUntil : now;
+    const featuredUntil = new Date(start.getTime() + days * DAY_MS);
+    await adRepo.update(ad.id, { isFeatured: true, featuredUntil });
+    return featuredUntil;
+  }
+
+  private readPositiveIntConfig(
+    key: string,
+    fallback: number,
+    max: number,
+  ): number {
+    const raw = this.configService.get<string>(key);
+    const parsed = Number.parseInt(raw ?? '', 10);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      return fallback;
+    }
+    return Math.min(parsed, max);
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { type FastifyRequest } from 'fastify';
+import { normalizePagination } from '../../common/pagination';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { UserRole } from '../users/entities/user.entity';
+import { Permission } from '../users/permissions';
+import { AdReportsService } from './ad-reports.service';
+import { AdReportStatus } from './entities/ad-report.entity';
+import {
+  DismissAdReportDto,
+  ResolveAdReportDto,
+} from './dto/resolve-ad-report.dto';
+
+type AuthenticatedRequest = FastifyRequest & {
+  user: {
+    userId: number;
+    role: UserRole;
+  };
+};
+
+@Controller('ad-reports')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@RequirePermissions(Permission.REPORTS_MANAGE)
+export class AdReportsController {
+  constructor(private readonly adReportsService: AdReportsService) {}
+
+  @Get()
+  async queue(
+    @Query('status') status?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const { page: safePage, limit: safeLimit } = normalizePagination(
+      page,
+      limit,
+    );
+    const normalizedStatus = Object.values(AdReportStatus).includes(
+      status as AdReportStatus,
+    )
+      ? (status as AdReportStatus)
+      : AdReportStatus.OPEN;
+
+    return this.adReportsService.listQueue(normalizedStatus, {
+      page: safePage,
+      limit: safeLimit,
+    });
+  }
+
+  @Get('open-count')
+  async openCount() {
+    return { total: await this.adReportsService.countOpen() };
+  }
+
+  @Post('resolve')
+  async resolve(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: ResolveAdReportDto,
+  ) {
+    return this.adReportsService.resolve(dto, req.user.userId);
+  }
+
+  @Post('dismiss')
+  async dismiss(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: DismissAdReportDto,
+  ) {
+    return this.adReportsService.dismiss(dto, req.user.userId);
+  }
+}
@@ -0,0 +1,521 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { buildPaginationMeta } from '../../common/pagination';
+import { Ad, AdStatus } from './entities/ad.entity';
+import { AdComment } from './entities/ad-comment.entity';
+import {
+  AdReport,
+  AdReportReason,
+  AdReportStatus,
+  AdReportTargetType,
+} from './entities/ad-report.entity';
+import { CreateAdReportDto } from './dto/create-ad-report.dto';
+import {
+  AdReportResolutionAction,
+  DismissAdReportDto,
+  ResolveAdReportDto,
+} from './dto/resolve-ad-report.dto';
+import { AdsService } from './ads.service';
+import { AdCommentsService } from './ad-comments.service';
+import { BotService } from '../bot/bot.service';
+import { MerchantsService } from '../merchants/merchants.service';
+
+type ReportQueueRow = {
+  targetKey: string;
+  targetType: AdReportTargetType;
+  adId: string;
+  commentId: string | null;
+  reportCount: string;
+  firstReportedAt: Date;
+  lastReportedAt: Date;
+};
+
+@Injectable()
+export class AdReportsService {
+  private readonly logger = new Logger(AdReportsService.name);
+  private readonly alertThreshold: number;
+
+  constructor(
+    @InjectRepository(AdReport)
+    private readonly reportRepo: Repository<AdReport>,
+    @InjectRepository(Ad)
+    private readonly adRepo: Repository<Ad>,
+    @InjectRepository(AdComment)
+    private readonly adCommentRepo: Repository<AdComment>,
+    private readonly adsService: AdsService,
+    private readonly adCommentsService: AdCommentsService,
+    private readonly merchantsService: MerchantsService,
+    private readonly botService: BotService,
+    private readonly configService: ConfigService,
+  ) {
+    const raw = Number.parseInt(
+      this.configService.get<string>('AD_REPORT_ALERT_THRESHOLD') ?? '',
+      10,
+    );
+    this.alertThreshold = Number.isFinite(raw) && raw > 0 ? raw : 3;
+  }
+
+  async reportAd(adId: number, reporterUserId: number, dto: CreateAdReportDto) {
+    const ad = await this.getReportableAd(adId);
+    if (ad.merchantId === reporterUserId) {
+      throw new BadRequestException('You cannot report your own ad');
+    }
+
+    return this.createReport({
+      targetType: AdReportTargetType.AD,
+      ad,
+      comment: null,
+      reporterUserId,
+      dto,
+    });
+  }
+
+  async reportComment(
+    adId: number,
+    commentId: number,
+    reporterUserId: number,
+    dto: CreateAdReportDto,
+  ) {
+    const ad = await this.getReportableAd(adId);
+    const comment = await this.adCommentRepo.findOne({
+      where: { id: commentId, adId },
+      select: { id: true, userId: true, comment: true },
+    });
+    if (!comment) {
+      throw new NotFoundException('Comment not found');
+    }
+    if (comment.userId === reporterUserId) {
+      throw new BadRequestException('You cannot report your own comment');
+    }
+
+    return this.createReport({
+      targetType: AdReportTargetType.COMMENT,
+      ad,
+      comment,
+      reporterUserId,
+      dto,
+    });
+  }
+
+  /**
+   * Admin queue with one row per reported item; duplicate reports of the
+   * same ad or comment collapse into a count and a reason breakdown.
+   */
+  async listQueue(
+    status: AdReportStatus,
+    pagination: { page: number; limit: number },
+  ) {
+    const baseQuery = this.reportRepo
+      .createQueryBuilder('report')
+      .where('report.status = :status', { status });
+
+    const totalRow = await baseQuery
+      .clone()
+      .select('COUNT(DISTINCT report.targetKey)', 'total')
+      .getRawOne<{ total: string }>();
+    const total = Number.parseInt(totalRow?.total ?? '0', 10) || 0;
+
+    const rows = await baseQuery
+      .clone()
+      .select('report.targetKey', 'targetKey')
+      .addSelect('MIN(report.targetType)', 'targetType')
+      .addSelect('MIN(report.adId)', 'adId')
+      .addSelect('MIN(report.commentId)', 'commentId')
+      .addSelect('COUNT(report.id)', 'reportCount')
+      .addSelect('MIN(report.createdAt)', 'firstReportedAt')
+      .addSelect('MAX(report.createdAt)', 'lastReportedAt')
+      .groupBy('report.targetKey')
+      .orderBy('reportCount', 'DESC')
+      .addOrderBy('lastReportedAt', 'DESC')
+      .offset((pagination.page - 1) * pagination.limit)
+      .limit(pagination.limit)
+      .getRawMany<ReportQueueRow>();
+
+    const targetKeys = rows.map((row) => row.targetKey);
+    const adIds = [...new Set(rows.map((row) => Number(row.adId)))];
+    const commentIds = rows
+      .map((row) => (row.commentId ? Number(row.commentId) : null))
+      .filter((id): id is number => id !== null);
+
+    const [reports, ads, comments] = await Promise.all([
+      targetKeys.length > 0
+        ? this.reportRepo
+            .createQueryBuilder('report')
+            .leftJoin('report.reporter', 'reporter')
+            .addSelect([
+              'reporter.id',
+              'reporter.firstName',
+              'reporter.username',
+              'reporter.loginUsername',
+            ])
+            .where('report.status = :status', { status })
+            .andWhere('report.targetKey IN (:...targetKeys)', { targetKeys })
+            .orderBy('report.createdAt', 'DESC')
+            .getMany()
+        : Promise.resolve([] as AdReport[]),
+      adIds.length > 0
+        ? this.adRepo
+            .createQueryBuilder('ad')
+            .leftJoin('ad.merchant', 'merchant')
+            .addSelect([
+              'merchant.id',
+              'merchant.firstName',
+              'merchant.username',
+              'merchant.isBanned',
+            ])
+            .whereInIds(adIds)
+            .getMany()
+        : Promise.resolve([] as Ad[]),
+      commentIds.length > 0
+        ? this.adCommentRepo
+            .createQueryBuilder('comment')
+            .leftJoin('comment.user', 'user')
+            .addSelect([
+              'user.id',
+              'user.firstName',
+              'user.username',
+              'user.isBanned',
+            ])
+            .whereInIds(commentIds)
+            .getMany()
+        : Promise.resolve([] as AdComment[]),
+    ]);
+
+    const adById = new Map(ads.map((ad) => [ad.id, ad]));
+    const commentById = new Map(
+      comments.map((comment) => [comment.id, comment]),
+    );
+
+    return {
+      data: rows.map((row) => {
+        const itemReports = reports.filter(
+          (report) => report.targetKey === row.targetKey,
+        );
+        const reasons = this.countReasons(itemReports);
+        const ad = adById.get(Number(row.adId)) ?? null;
+        const comment = row.commentId
+          ? (commentById.get(Number(row.commentId)) ?? null)
+          : null;
+
+        return {
+          targetKey: row.targetKey,
+          targetType: row.targetType,
+          adId: Number(row.adId),
+          commentId: row.commentId ? Number(row.commentId) : null,
+          reportCount: Number.parseInt(row.reportCount, 10) || 0,
+          firstReportedAt: row.firstReportedAt,
+          lastReportedAt: row.lastReportedAt,
+          reasons,
+          ad: ad
+            ? {
+                id: ad.id,
+                name: ad.name,
+                status: ad.status,
+                isActive: ad.isActive,
+                merchantId: ad.merchantId,
+                merchant: ad.merchant
+                  ? {
+                      id: ad.merchant.id,
+                      firstName: ad.merchant.firstName,
+                      username: ad.merchant.username,
+                      isBanned: ad.merchant.isBanned,
+                    }
+                  : null,
+              }
+            : null,
+          comment: comment
+            ? {
+                id: comment.id,
+                comment: comment.comment,
+                rating: comment.rating,
+                userId: comment.userId,
+                user: comment.user
+                  ? {
+                      id: comment.user.id,
+                      firstName: comment.user.firstName,
+                      username: comment.user.username,
+                      isBanned: comment.user.isBanned,
+                    }
+                  : null,
+              }
+            : null,
+          reports: itemReports.map((report) => ({
+            id: report.id,
+            reason: report.reason,
+            details: report.details,
+            createdAt: report.createdAt,
+            resolutionActions: report.resolutionActions,
+            resolutionNote: report.resolutionNote,
+            resolvedAt: report.resolvedAt,
+            reporter: report.reporter
+              ? {
+                  id: report.reporter.id,
+                  firstName: report.reporter.firstName,
+                  username: report.reporter.username,
+                  loginUsername: report.reporter.loginUsername,
+                }
+              : null,
+          })),
+        };
+      }),
+      meta: buildPaginationMeta(total, pagination.page, pagination.limit),
+    };
+  }
+
+  async countOpen(): Promise<number> {
+    const row = await this.reportRepo
+      .createQueryBuilder('report')
+      .select('COUNT(DISTINCT report.targetKey)', 'total')
+      .where('report.status = :status', { status: AdReportStatus.OPEN })
+      .getRawOne<{ total: string }>();
+    return Number.parseInt(row?.total ?? '0', 10) || 0;
+  }
+
+  /**
+   * Applies the chosen moderation actions and closes every open report for
+   * the item. Actions run first so a failure leaves the reports open.
+   */
+  async resolve(dto: ResolveAdReportDto, adminUserId: number) {
+    const targetKey = this.resolveTargetKey(dto);
+    await this.assertHasOpenReports(targetKey);
+
+    const actions = [...new Set(dto.actions)];
+    const isComment = dto.targetType === AdReportTargetType.COMMENT;
+    if (
+      actions.includes(AdReportResolutionAction.REMOVE_COMMENT) &&
+      !isComment
+    ) {
+      throw new BadRequestException('Only reported comments can be removed');
+    }
+
+    const ad = await this.adRepo.findOne({
+      where: { id: dto.adId },
+      select: { id: true, merchantId: true, status: true },
+    });
+    if (!ad) throw new NotFoundException('Ad not found');
+
+    const comment =
+      isComment && dto.commentId
+        ? await this.adCommentRepo.findOne({
+            where: { id: dto.commentId, adId: dto.adId },
+            select: { id: true, userId: true },
+          })
+        : null;
+
+    if (actions.includes(AdReportResolutionAction.BAN_USER)) {
+      const offenderId = isComment ? comment?.userId : ad.merchantId;
+      if (!offenderId) {
+        throw new BadRequestException('No user to ban for this report');
+      }
+      await this.merchantsService.setMerchantBanState(
+        offenderId,
+        true,
+        adminUserId,
+        dto.note ?? 'Banned after abuse reports',
+      );
+    }
+
+    if (
+      actions.includes(AdReportResolutionAction.REJECT_AD) &&
+      ad.status !== AdStatus.REJECTED
+    ) {
+      await this.adsService.reject(ad.id, adminUserId, dto.note);
+    }
+
+    if (actions.includes(AdReportResolutionAction.REMOVE_COMMENT) && comment) {
+      await this.adCommentsService.removeAdComment(ad.id, comment.id);
+    }
+
+    return this.closeReports(
+      targetKey,
+      AdReportStatus.RESOLVED,
+      adminUserId,
+      actions,
+      dto.note,
+    );
+  }
+
+  async dismiss(dto: DismissAdReportDto, adminUserId: number) {
+    const targetKey = this.resolveTargetKey(dto);
+    await this.assertHasOpenReports(targetKey);
+    return this.closeReports(
+      targetKey,
+      AdReportStatus.DISMISSED,
+      adminUserId,
+      [],
+      dto.note,
+    );
+  }
+
+  private async createReport(input: {
+    targetType: AdReportTargetType;
+    ad: Ad;
+    comment: AdComment | null;
+    reporterUserId: number;
+    dto: CreateAdReportDto;
+  }) {
+    const targetKey = this.buildTargetKey(
+      input.targetType,
+      input.ad.id,
+      input.comment?.id,
+    );
+
+    const existing = await this.reportRepo.findOne({
+      where: { reporterUserId: input.reporterUserId, targetKey },
+      select: { id: true, status: true },
+    });
+    if (existing?.status === AdReportStatus.OPEN) {
+      return { success: true, alreadyReported: true };
+    }
+
+    try {
+      if (existing) {
+        // A closed report is reopened so repeat offences surface again.
+        await this.reportRepo.update(existing.id, {
+          reason: input.dto.reason,
+          details: input.dto.details ?? null,
+          status: AdReportStatus.OPEN,
+          resolutionActions: null,
+          resolutionNote: null,
+          resolvedById: null,
+          resolvedAt: null,
+        });
+      } else {
+        await this.reportRepo.insert({
+          targetType: input.targetType,
+          targetKey,
+          adId: input.ad.id,
+          commentId: input.comment?.id ?? null,
+          reporterUserId: input.reporterUserId,
+          reason: input.dto.reason,
+          details: input.dto.details ?? null,
+        });
+      }
+    } catch (error) {
+      if (this.isDuplicateKeyError(error)) {
+        return { success: true, alreadyReported: true };
+      }
+      throw error;
+    }
+
+    await this.alertAdminsIfThresholdReached(
+      targetKey,
+      input.ad,
+      input.comment,
+    );
+    return { success: true, alreadyReported: false };
+  }
+
+  private async alertAdminsIfThresholdReached(
+    targetKey: string,
+    ad: Ad,
+    comment: AdComment | null,
+  ) {
+    const openReports = await this.reportRepo.find({
+      where: { targetKey, status: AdReportStatus.OPEN },
+      select: { id: true, reason: true },
+    });
+    // Alert exactly once per open batch, when the count first hits the threshold.
+    if (openReports.length !== this.alertThreshold) return;
+
+    try {
+      await this.botService.notifyAdminReportThreshold({
+        targetType: comment ? 'COMMENT' : 'AD',
+        adId: ad.id,
+        adTitle: ad.name,
+        commentId: comment?.id ?? null,
+        commentExcerpt: comment?.comment ?? null,
+        reportCount: openReports.length,
+        reasons: Object.keys(this.countReasons(openReports)),
+      });
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(`Failed to send report alert: ${err.message}`);
+    }
+  }
+
+  private async closeReports(
+    targetKey: string,
+    status: AdReportStatus.RESOLVED | AdReportStatus.DISMISSED,
+    adminUserId: number,
+    actions: AdReportResolutionAction[],
+    note?: string,
+  ) {
+    const result = await this.reportRepo.update(
+      { targetKey, status: AdReportStatus.OPEN },
+      {
+        status,
+        resolutionActions: actions.length > 0 ? actions : null,
+        resolutionNote: note ?? null,
+        resolvedById: adminUserId,
+        resolvedAt: new Date(),
+      },
+    );
+
+    return {
+      success: true,
+      targetKey,
+      status,
+      closedReports: result.affected ?? 0,
+    };
+  }
+
+  private async getReportableAd(adId: number) {
+    const ad = await this.adRepo.findOne({
+      where: { id: adId, status: AdStatus.APPROVED, isActive: true },
+      select: { id: true, name: true, merchantId: true },
+    });
+    if (!ad) {
+      throw new NotFoundException('Ad not found');
+    }
+    return ad;
+  }
+
+  private async assertHasOpenReports(targetKey: string) {
+    const count = await this.reportRepo.count({
+      where: { targetKey, status: AdReportStatus.OPEN },
+    });
+    if (count === 0) {
+      throw new NotFoundException('No open reports for this item');
+    }
+  }
+
+  private resolveTargetKey(dto: DismissAdReportDto) {
+    if (dto.targetType === AdReportTargetType.COMMENT && !dto.commentId) {
+      throw new BadRequestException('commentId is required for comments');
+    }
+    return this.buildTargetKey(dto.targetType, dto.adId, dto.commentId);
+  }
+
+  private buildTargetKey(
+    targetType: AdReportTargetType,
+    adId: number,
+    commentId?: number | null,
+  ) {
+    return targetType === AdReportTargetType.COMMENT
+      ? `comment:${commentId}`
+      : `ad:${adId}`;
+  }
+
+  private countReasons(reports: Array<Pick<AdReport, 'reason'>>) {
+    return reports.reduce<Partial<Record<AdReportReason, number>>>(
+      (counts, report) => {
+        counts[report.reason] = (counts[report.reason] ?? 0) + 1;
+        return counts;
+      },
+      {},
+    );
+  }
+
+  private isDuplicateKeyError(error: unknown) {
+    const err = error as { code?: string; errno?: number };
+    return err.code === 'ER_DUP_ENTRY' || err.errno === 1062;
+  }
+}
@@ -0,0 +1,221 @@
+// Ethiopic letter series that Amharic writers use interchangeably
+// (ሐ/ኀ → ሀ, ሠ → ሰ, ዐ → አ, ፀ → ጸ). Each entry maps a whole vowel series.
+const ETHIOPIC_EQUIVALENT_SERIES: Array<{
+  from: number;
+  to: number;
+  length: number;
+}> = [
+  { from: 0x1210, to: 0x1200, length: 8 },
+  { from: 0x1280, to: 0x1200, length: 7 },
+  { from: 0x1220, to: 0x1230, length: 8 },
+  { from: 0x12d0, to: 0x12a0, length: 7 },
+  { from: 0x1340, to: 0x1338, length: 7 },
+];
+
+const ETHIOPIC_PUNCTUATION_START = 0x1361;
+const ETHIOPIC_PUNCTUATION_END = 0x1368;
+const MAX_SEARCH_DOCUMENT_LENGTH = 20_000;
+const MAX_SEARCH_TERMS = 8;
+const SNIPPET_CONTEXT_BEFORE = 50;
+const SNIPPET_MAX_LENGTH = 160;
+
+export const MIN_FULLTEXT_QUERY_LENGTH = 2;
+
+export type AdSearchHighlight = {
+  field: 'name' | 'description' | 'itemDetails' | 'category';
+  key: string | null;
+  text: string;
+  matches: Array<[number, number]>;
+};
+
+type SearchableAd = {
+  name?: string | null;
+  description?: string | null;
+  itemDetails?: Record<string, unknown> | null;
+  category?: { name?: string | null } | null;
+};
+
+function normalizeSearchChar(char: string): string {
+  const code = char.charCodeAt(0);
+  if (code >= ETHIOPIC_PUNCTUATION_START && code <= ETHIOPIC_PUNCTUATION_END) {
+    return ' ';
+  }
+
+  for (const series of ETHIOPIC_EQUIVALENT_SERIES) {
+    if (code >= series.from && code < series.from + series.length) {
+      return String.fromCharCode(series.to + (code - series.from));
+    }
+  }
+
+  const lowered = char.toLowerCase();
+  return lowered.length === 1 ? lowered : char;
+}
+
+/**
+ * Lowercases Latin text and folds equivalent Ethiopic letters.
+ * The output keeps the input length so match offsets map back to the source.
+ */
+export function normalizeSearchText(value: string): string {
+  let normalized = '';
+  for (let index = 0; index < value.length; index += 1) {
+    normalized += normalizeSearchChar(value[index]);
+  }
+  return normalized;
+}
+
+function flattenItemDetailValues(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.trim() ? [value.trim()] : [];
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return [String(value)];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((entry) => flattenItemDetailValues(entry));
+  }
+  return [];
+}
+
+export function buildAdSearchDocument(
+  ad: SearchableAd,
+  categoryName?: string | null,
+): string {
+  const itemDetailValues = Object.values(ad.itemDetails ?? {}).flatMap(
+    (value) => flattenItemDetailValues(value),
+  );
+
+  const document = [
+    ad.name ?? '',
+    ad.description ?? '',
+    ...itemDetailValues,
+    categoryName ?? ad.category?.name ?? '',
+  ]
+    .map((part) => normalizeSearchText(part).replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+  return document.slice(0, MAX_SEARCH_DOCUMENT_LENGTH);
+}
+
+export function extractSearchTerms(query?: string | null): string[] {
+  const normalized = normalizeSearchText(String(query ?? ''));
+  const terms = normalized
+    .split(/[\s.,;:!?()[\]{}"'`/\\|+\-*<>=~@#$%^&]+/)
+    .map((term) => term.trim())
+    .filter(Boolean);
+  return [...new Set(terms)].slice(0, MAX_SEARCH_TERMS);
+}
+
+function findTermMatches(
+  text: string,
+  terms: string[],
+): Array<[number, number]> {
+  const normalized = normalizeSearchText(text);
+  const matches: Array<[number, number]> = [];
+
+  for (const term of terms) {
+    let fromIndex = 0;
+    while (fromIndex < normalized.length) {
+      const start = normalized.indexOf(term, fromIndex);
+      if (start < 0) break;
+      matches.push([start, start + term.length]);
+      fromIndex = start + term.length;
+    }
+  }
+
+  matches.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const match of matches) {
+    const previous = merged[merged.length - 1];
+    if (previous && match[0] <= previous[1]) {
+      previous[1] = Math.max(previous[1], match[1]);
+    } else {
+      merged.push([match[0], match[1]]);
+    }
+  }
+  return merged;
+}
+
+function buildSnippet(
+  field: AdSearchHighlight['field'],
+  key: string | null,
+  text: string,
+  matches: Array<[number, number]>,
+): AdSearchHighlight {
+  const compactStart = Math.max(0, matches[0][0] - SNIPPET_CONTEXT_BEFORE);
+  const nextSpace = compactStart > 0 ? text.indexOf(' ', compactStart) : -1;
+  const start =
+    nextSpace >= 0 && nextSpace < matches[0][0] ? nextSpace + 1 : compactStart;
+  const end = Math.min(text.length, start + SNIPPET_MAX_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    field,
+    key,
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    matches: matches
+      .filter(
+        ([matchStart, matchEnd]) => matchStart >= start && matchEnd <= end,
+      )
+      .map(([matchStart, matchEnd]) => [
+        matchStart + offset,
+        matchEnd + offset,
+      ]),
+  };
+}
+
+/**
+ * Picks the field with the most term matches and returns a short snippet
+ * with match ranges. Ties prefer description and item details over the
+ * title, which the card already shows.
+ */
+export function buildAdSearchHighlight(
+  ad: SearchableAd,
+  terms: string[],
+): AdSearchHighlight | null {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const candidates: Array<{
+    field: AdSearchHighlight['field'];
+    key: string | null;
+    text: string;
+  }> = [
+    { field: 'description', key: null, text: ad.description ?? '' },
+    ...Object.entries(ad.itemDetails ?? {}).map(([key, value]) => ({
+      field: 'itemDetails' as const,
+      key,
+      text: flattenItemDetailValues(value).join(', '),
+    })),
+    { field: 'category', key: null, text: ad.category?.name ?? '' },
+    { field: 'name', key: null, text: ad.name ?? '' },
+  ];
+
+  let best: {
+    candidate: (typeof candidates)[number];
+    matches: Array<[number, number]>;
+  } | null = null;
+  for (const candidate of candidates) {
+    const text = candidate.text.replace(/\s+/g, ' ');
+    if (!text.trim()) continue;
+    const matches = findTermMatches(text, terms);
+    if (matches.length === 0) continue;
+    if (!best || matches.length > best.matches.length) {
+      best = { candidate: { ...candidate, text }, matches };
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  return buildSnippet(
+    best.candidate.field,
+    best.candidate.key,
+    best.candidate.text,
+    best.matches,
+  );
+}
@@ -18,6 +18,8 @@ import { CreateAdDto } from './dto/create-ad.dto';
 import { UpdateAdDto } from './dto/update-ad.dto';
 import { CreateAdCommentDto } from './dto/create-ad-comment.dto';
 import { UpdateAdCommentDto } from './dto/update-ad-comment.dto';
+import { VoteAdCommentDto } from './dto/vote-ad-comment.dto';
+import { CreateAdConversationMessageDto } from './dto/create-ad-conversation-message.dto';
 import { AuthGuard } from '@nestjs/passport';
 import { plainToInstance } from 'class-transformer';
 import { validate } from 'class-validator';
@@ -26,8 +28,11 @@ import {
   normalizePagination,
 } from '../../common/pagination';
 import { RolesGuard } from '../../common/guards/roles.guard';
+import { OptionalJwtAuthGuard } from '../../common/guards/optional-jwt-auth.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
 import { UserRole } from '../users/entities/user.entity';
+import { Permission } from '../users/permissions';
 import {
   coerceMultipartFieldValue,
   getMultipartParts,
@@ -35,7 +40,14 @@ import {
   readMultipartFileToBuffer,
 } from '../../common/multipart';
 import { AdStatus } from './entities/ad.entity';
-import { AdCommentsService } from './ad-comments.service';
+import { AdCommentsService, MAX_REVIEW_IMAGES } from './ad-comments.service';
+import { AdConversationsService } from './ad-conversations.service';
+import { AdFavoritesService } from './ad-favorites.service';
+import { AdFeaturingService } from './ad-featuring.service';
+import { FeatureAdDto } from './dto/feature-ad.dto';
+import { AdminFeatureAdDto } from './dto/admin-feature-ad.dto';
+import { AdReportsService } from './ad-reports.service';
+import { CreateAdReportDto } from './dto/create-ad-report.dto';
 
 type AuthenticatedRequest = FastifyRequest & {
   user: {
@@ -47,12 +59,17 @@ type AuthenticatedRequest = FastifyRequest & {
 const MAX_AD_IMAGES = 5;
 const MAX_AD_IMAGE_BYTES = 10 * 1024 * 1024;
 const MAX_MULTIPART_FIELDS = 30;
+const MAX_REVIEW_IMAGE_BYTES = 10 * 1024 * 1024;
 
 @Controller('ads')
 export class AdsController {
   constructor(
     private readonly adsService: AdsService,
     private readonly adCommentsService: AdCommentsService,
+    private readonly adConversationsService: AdConversationsService,
+    private readonly adFavoritesService: AdFavoritesService,
+    private readonly adFeaturingService: AdFeaturingService,
+    private readonly adReportsService: AdReportsService,
   ) {}
 
   @Get()
@@ -64,6 +81,9 @@ export class AdsController {
     @Query('minPrice') minPrice?: string,
     @Query('maxPrice') maxPrice?: string,
     @Query('status') status?: string,
+    @Query('itemDetails') itemDetails?: string,
+    @Query('merchantId') merchantId?: string,
+    @Query('verified') verified?: string,
   ) {
     const { page: safePage, limit: safeLimit } = normalizePagination(
       page,
@@ -77,9 +97,22 @@ export class AdsController {
       status,
       false,
     );
+    // Seller profile pages list a single merchant's live ads.
+    const parsedMerchantId = Number.parseInt(merchantId ?? '', 10);
 
     const { data, total, priceRanges } =
-      await this.adsService.findFilteredPaginated(filters, safePage, safeLimit);
+      await this.adsService.findFilteredPaginated(
+        {
+          ...filters,
+          itemDetails: this.parseItemDetailsParam(itemDetails),
+          verifiedMerchantsOnly: verified === 'true',
+          ...(Number.isInteger(parsedMerchantId) && parsedMerchantId > 0
+            ? { merchantId: parsedMerchantId }
+            : {}),
+        },
+        safePage,
+        safeLimit,
+      );
     return {
       data,
       meta: {
@@ -90,7 +123,7 @@ export class AdsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN, UserRole.MERCHANT)
+  @RequirePermissions(Permission.ADS_WRITE, Permission.ADS_MODERATE)
   @Get('manage')
   async manageAds(
     @Req() req: AuthenticatedRequest,
@@ -165,6 +198,8 @@ export class AdsController {
     @Query('q') query?: string,
     @Query('categoryIds') categoryIds?: string,
     @Query('status') status?: string,
+    @Query('itemDetails') itemDetails?: string,
+    @Query('verified') verified?: string,
   ) {
     const parsedCategoryIds =
       categoryIds
@@ -176,27 +211,36 @@ export class AdsController {
       query,
       categoryIds: parsedCategoryIds,
       statuses: this.parseStatuses(status, false),
+      itemDetails: this.parseItemDetailsParam(itemDetails),
+      verifiedMerchantsOnly: verified === 'true',
     });
   }
 
+  @UseGuards(OptionalJwtAuthGuard)
   @Get(':id/comments')
   async adComments(
+    @Req() req: FastifyRequest & { user?: { userId: number } | null },
     @Param('id', ParseIntPipe) id: number,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @Query('sort') sort?: string,
   ) {
     const { page: safePage, limit: safeLimit } = normalizePagination(
       page,
       limit,
     );
-    return this.adCommentsService.getAdComments(id, {
-      page: safePage,
-      limit: safeLimit,
-    });
+    return this.adCommentsService.getAdComments(
+      id,
+      {
+        page: safePage,
+        limit: safeLimit,
+      },
+      { sort, viewerId: req.user?.userId ?? null },
+    );
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.REVIEWS_MODERATE)
   @Get(':id/comments/manage')
   async manageAdComments(@Param('id', ParseIntPipe) id: number) {
     return this.adCommentsService.getAdCommentsForAdmin(id);
@@ -207,12 +251,63 @@ export class AdsController {
   async createOrUpdateComment(
     @Req() req: AuthenticatedRequest,
     @Param('id', ParseIntPipe) id: number,
-    @Body() dto: CreateAdCommentDto,
   ) {
+    const body: Record<string, unknown> = {};
+    const imageBuffers: Buffer[] = [];
+    const contentType = String(req.headers['content-type'] ?? '');
+
+    if (contentType.includes('multipart/form-data')) {
+      const parts = getMultipartParts(req);
+      if (!parts) {
+        throw new BadRequestException('Invalid multipart request');
+      }
+      let fieldCount = 0;
+
+      for await (const part of parts) {
+        if (part.type === 'file') {
+          if (imageBuffers.length >= MAX_REVIEW_IMAGES) {
+            throw new BadRequestException(
+              `You can attach at most ${MAX_REVIEW_IMAGES} photos to a review`,
+            );
+          }
+
+          const buffer = await readMultipartFileToBuffer(part, {
+            maxBytes: MAX_REVIEW_IMAGE_BYTES,
+            allowedMimePrefixes: ['image/'],
+            errorLabel: 'Review photo',
+          });
+          if (buffer.length > 0) {
+            imageBuffers.push(buffer);
+          }
+        } else {
+          fieldCount += 1;
+          if (fieldCount > MAX_MULTIPART_FIELDS) {
+            throw new BadRequestException('Too many multipart fields');
+          }
+          body[part.fieldname] = coerceMultipartFieldValue(
+            part.value,
+            part.fieldname,
+          );
+        }
+      }
+    } else {
+      Object.assign(body, getRequestBodyRecord(req));
+    }
+
+    const dto = plainToInstance(CreateAdCommentDto, body);
+    const errors = await validate(dto, {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+
     return this.adCommentsService.createOrUpdateAdComment(
       id,
       req.user.userId,
       dto,
+      imageBuffers,
     );
   }
 
@@ -233,7 +328,7 @@ export class AdsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.REVIEWS_MODERATE)
   @Delete(':id/comments/:commentId')
   async removeComment(
     @Param('id', ParseIntPipe) id: number,
@@ -256,8 +351,64 @@ export class AdsController {
     );
   }
 
+  @UseGuards(AuthGuard('jwt'))
+  @Post(':id/comments/:commentId/vote')
+  async voteOnComment(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('commentId', ParseIntPipe) commentId: number,
+    @Body() dto: VoteAdCommentDto,
+  ) {
+    return this.adCommentsService.voteOnAdComment(
+      id,
+      req.user.userId,
+      commentId,
+      dto.helpful,
+    );
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Delete(':id/comments/:commentId/vote')
+  async removeCommentVote(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('commentId', ParseIntPipe) commentId: number,
+  ) {
+    return this.adCommentsService.removeAdCommentVote(
+      id,
+      req.user.userId,
+      commentId,
+    );
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post(':id/comments/:commentId/report')
+  async reportComment(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('commentId', ParseIntPipe) commentId: number,
+    @Body() dto: CreateAdReportDto,
+  ) {
+    return this.adReportsService.reportComment(
+      id,
+      commentId,
+      req.user.userId,
+      dto,
+    );
+  }
+
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.REVIEWS_MODERATE)
+  @Post(':id/comments/:commentId/approve')
+  async approveHeldComment(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('commentId', ParseIntPipe) commentId: number,
+  ) {
+    return this.adCommentsService.releaseHeldAdComment(id, commentId);
+  }
+
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @RequirePermissions(Permission.REVIEWS_MODERATE)
   @Post(':id/comments/:commentId/block-reviewer')
   async blockCommentReviewer(
     @Param('id', ParseIntPipe) id: number,
@@ -267,7 +418,7 @@ export class AdsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.REVIEWS_MODERATE)
   @Post(':id/comments/:commentId/unblock-reviewer')
   async unblockCommentReviewer(
     @Param('id', ParseIntPipe) id: number,
@@ -276,15 +427,177 @@ export class AdsController {
     return this.adCommentsService.unblockReviewerFromReviews(id, commentId);
   }
 
+  @UseGuards(AuthGuard('jwt'))
+  @Get(':id/conversations')
+  async adConversations(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.adConversationsService.listAdConversations(id, req.user.userId);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post(':id/conversations')
+  async startConversation(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CreateAdConversationMessageDto,
+  ) {
+    return this.adConversationsService.startConversation(
+      id,
+      req.user.userId,
+      dto,
+    );
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Get(':id/conversations/:conversationId/messages')
+  async conversationMessages(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('conversationId', ParseIntPipe) conversationId: number,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const { page: safePage, limit: safeLimit } = normalizePagination(
+      page,
+      limit,
+    );
+    return this.adConversationsService.getConversationMessages(
+      id,
+      conversationId,
+      req.user.userId,
+      { page: safePage, limit: safeLimit },
+    );
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post(':id/conversations/:conversationId/messages')
+  async sendConversationMessage(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('conversationId', ParseIntPipe) conversationId: number,
+    @Body() dto: CreateAdConversationMessageDto,
+  ) {
+    return this.adConversationsService.sendMessage(
+      id,
+      conversationId,
+      req.user.userId,
+      dto,
+    );
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post(':id/conversations/:conversationId/read')
+  async markConversationRead(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('conversationId', ParseIntPipe) conversationId: number,
+  ) {
+    return this.adConversationsService.markConversationRead(
+      id,
+      conversationId,
+      req.user.userId,
+    );
+  }
+
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN, UserRole.MERCHANT)
+  @RequirePermissions(Permission.ADS_WRITE)
+  @Post(':id/renew')
+  async renew(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.adsService.renew(id, req.user);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post(':id/report')
+  async report(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CreateAdReportDto,
+  ) {
+    return this.adReportsService.reportAd(id, req.user.userId, dto);
+  }
+
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.MERCHANT)
+  @Post(':id/feature')
+  async feature(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: FeatureAdDto,
+  ) {
+    return this.adFeaturingService.featureWithPoints(
+      id,
+      req.user.userId,
+      dto.days,
+    );
+  }
+
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @RequirePermissions(Permission.ADS_FEATURE)
+  @Patch(':id/featured')
+  async setFeatured(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: AdminFeatureAdDto,
+  ) {
+    return this.adFeaturingService.setFeaturedByAdmin(id, req.user.userId, dto);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post(':id/favorite')
+  async addFavorite(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.adFavoritesService.addFavorite(id, req.user.userId);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Delete(':id/favorite')
+  async removeFavorite(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.adFavoritesService.removeFavorite(id, req.user.userId);
+  }
+
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @RequirePermissions(Permission.CATEGORIES_MANAGE)
+  @Get('item-details-report')
+  async itemDetailsReport() {
+    return this.adsService.getItemDetailsReport();
+  }
+
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles(UserRole.MERCHANT)
+  @Get('featured-pricing')
+  async featuredPricing(@Req() req: AuthenticatedRequest) {
+    return this.adFeaturingService.getPricing(req.user.userId);
+  }
+
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @RequirePermissions(
+    Permission.ADS_WRITE,
+    Permission.ADS_MODERATE,
+    Permission.ANALYTICS_VIEW,
+  )
   @Get('dashboard-stats')
   async dashboardStats(@Req() req: AuthenticatedRequest) {
     return this.adsService.getDashboardStats(req.user.userId, req.user.role);
   }
 
+  // Declared after the static GET routes so it doesn't shadow them.
+  @Get(':id')
+  async findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.adsService.findPublicOne(id);
+  }
+
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN, UserRole.MERCHANT)
+  @RequirePermissions(Permission.ADS_WRITE)
   @Post()
   async create(@Req() req: AuthenticatedRequest) {
     const body: Record<string, unknown> = {};
@@ -339,7 +652,7 @@ export class AdsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN, UserRole.MERCHANT)
+  @RequirePermissions(Permission.ADS_WRITE)
   @Patch(':id')
   async update(
     @Param('id', ParseIntPipe) id: number,
@@ -407,7 +720,7 @@ export class AdsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.ADS_MODERATE)
   @Post(':id/approve')
   async approve(
     @Req() req: AuthenticatedRequest,
@@ -418,7 +731,7 @@ export class AdsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.ADS_MODERATE)
   @Post(':id/reject')
   async reject(
     @Req() req: AuthenticatedRequest,
@@ -429,7 +742,7 @@ export class AdsController {
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN, UserRole.MERCHANT)
+  @RequirePermissions(Permission.ADS_WRITE)
   @Delete(':id')
   async remove(
     @Req() req: AuthenticatedRequest,
@@ -439,6 +752,21 @@ export class AdsController {
     return { success: true };
   }
 
+  private parseItemDetailsParam(raw?: string) {
+    if (!raw?.trim()) return undefined;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new BadRequestException('itemDetails must be a JSON object');
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new BadRequestException('itemDetails must be a JSON object');
+    }
+    return parsed as Record<string, unknown>;
+  }
+
   private parseFilterParams(
     query?: string,
     categoryIds?: string,
@@ -8,18 +8,66 @@ import { ImageService } from './image.service';
 import { CategoriesController } from './categories.controller';
 import { User } from '../users/entities/user.entity';
 import { AdComment } from './entities/ad-comment.entity';
+import { AdCommentVote } from './entities/ad-comment-vote.entity';
 import { AdCommentsService } from './ad-comments.service';
+import { ContentModerationService } from './content-moderation.service';
+import { AdImageHash } from './entities/ad-image-hash.entity';
+import { ReviewImageService } from './review-image.service';
+import { AdConversation } from './entities/ad-conversation.entity';
+import { AdConversationMessage } from './entities/ad-conversation-message.entity';
+import { AdConversationsService } from './ad-conversations.service';
+import { SavedSearch } from './entities/saved-search.entity';
+import { SavedSearchMatch } from './entities/saved-search-match.entity';
+import { SavedSearchesService } from './saved-searches.service';
+import { SavedSearchesController } from './saved-searches.controller';
+import { AdFavorite } from './entities/ad-favorite.entity';
+import { AdFavoritesService } from './ad-favorites.service';
+import { AdExpiryService } from './ad-expiry.service';
+import { AdFeaturingService } from './ad-featuring.service';
+import { AdReport } from './entities/ad-report.entity';
+import { AdReportsService } from './ad-reports.service';
+import { AdReportsController } from './ad-reports.controller';
 import { MerchantsModule } from '../merchants/merchants.module';
 import { BotModule } from '../bot/bot.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Ad, Category, User, AdComment]),
+    TypeOrmModule.forFeature([
+      Ad,
+      Category,
+      User,
+      AdComment,
+      AdCommentVote,
+      AdConversation,
+      AdConversationMessage,
+      SavedSearch,
+      SavedSearchMatch,
+      AdFavorite,
+      AdReport,
+      AdImageHash,
+    ]),
     MerchantsModule,
     forwardRef(() => BotModule),
   ],
-  controllers: [AdsController, CategoriesController],
-  providers: [AdsService, ImageService, AdCommentsService],
-  exports: [AdsService],
+  controllers: [
+    AdsController,
+    CategoriesController,
+    SavedSearchesController,
+    AdReportsController,
+  ],
+  providers: [
+    AdsService,
+    ImageService,
+    ReviewImageService,
+    AdCommentsService,
+    AdConversationsService,
+    SavedSearchesService,
+    AdFavoritesService,
+    AdExpiryService,
+    AdFeaturingService,
+    AdReportsService,
+    ContentModerationService,
+  ],
+  exports: [AdsService, AdConversationsService, AdFavoritesService],
 })
 export class AdsModule {}
@@ -1,10 +1,12 @@
 import {
   BadRequestException,
   Injectable,
+  Logger,
   NotFoundException,
+  OnModuleInit,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, SelectQueryBuilder } from 'typeorm';
+import { In, Repository, SelectQueryBuilder } from 'typeorm';
 import slugify from 'slugify';
 import { Ad, AdStatus } from './entities/ad.entity';
 import { Category } from './entities/category.entity';
@@ -12,9 +14,37 @@ import { CreateAdDto } from './dto/create-ad.dto';
 import { UpdateAdDto } from './dto/update-ad.dto';
 import { ImageService } from './image.service';
 import { User, UserRole } from '../users/entities/user.entity';
+import { Permission, getRolesWithPermission } from '../users/permissions';
 import { BotService } from '../bot/bot.service';
 import { normalizeEthiopianPhoneNumberForStorage } from './phone-number.util';
 import { MerchantsService } from '../merchants/merchants.service';
+import {
+  MIN_FULLTEXT_QUERY_LENGTH,
+  buildAdSearchDocument,
+  buildAdSearchHighlight,
+  extractSearchTerms,
+  normalizeSearchText,
+} from './ad-search.util';
+import { SavedSearchesService } from './saved-searches.service';
+import { AdFavoritesService } from './ad-favorites.service';
+import { AdExpiryService } from './ad-expiry.service';
+import { AdCommentsService } from './ad-comments.service';
+import {
+  ContentModerationService,
+  ModerationVerdict,
+} from './content-moderation.service';
+import {
+  ItemDetailsFilter,
+  parseItemDetailsFilters,
+  validateItemDetails,
+} from './item-details.util';
+import {
+  collectAncestorIds,
+  collectDescendantIds,
+  resolveEffectiveDynamicFields,
+  rollUpCategoryCounts,
+  sortCategoriesAsTree,
+} from './category-tree.util';
 
 type AdFilters = {
   query?: string;
@@ -23,20 +53,54 @@ type AdFilters = {
   maxPrice?: number;
   merchantId?: number | null;
   merchantIdIsNull?: boolean;
+  verifiedMerchantsOnly?: boolean;
   createdById?: number;
   includeInactive?: boolean;
   statuses?: AdStatus[];
+  itemDetails?: Record<string, unknown>;
 };
 
+type ItemDetailsFacet =
+  | {
+      key: string;
+      label: string;
+      type: 'select' | 'boolean';
+      values: Array<{ value: string | boolean; count: number }>;
+    }
+  | { key: string; label: string; type: 'number'; min: number; max: number };
+
+// Public seller fields joined onto catalog ads so cards can link to
+// /sellers/:username without exposing the rest of the merchant row.
+const SELLER_SUMMARY_COLUMNS = [
+  'merchant.id',
+  'merchant.firstName',
+  'merchant.username',
+  'merchant.loginUsername',
+  'merchant.avatarUrl',
+  'merchant.verifiedAt',
+];
+
 type StaffActor = {
   userId: number;
   role: UserRole;
 };
 
 const MAX_AD_IMAGES = 5;
+const SEARCH_BACKFILL_BATCH_SIZE = 200;
+const ITEM_DETAILS_REPORT_BATCH_SIZE = 200;
+
+function toItemDetailsJsonPath(key: string) {
+  return `$."${key.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function itemDetailsValueSql(pathParam: string) {
+  return `JSON_UNQUOTE(JSON_EXTRACT(ad.itemDetails, :${pathParam}))`;
+}
 
 @Injectable()
-export class AdsService {
+export class AdsService implements OnModuleInit {
+  private readonly logger = new Logger(AdsService.name);
+
   constructor(
     @InjectRepository(Ad)
     private readonly adRepo: Repository<Ad>,
@@ -47,8 +111,19 @@ export class AdsService {
     private readonly imageService: ImageService,
     private readonly botService: BotService,
     private readonly merchantsService: MerchantsService,
+    private readonly savedSearchesService: SavedSearchesService,
+    private readonly adFavoritesService: AdFavoritesService,
+    private readonly adExpiryService: AdExpiryService,
+    private readonly adCommentsService: AdCommentsService,
+    private readonly contentModerationService: ContentModerationService,
   ) {}
 
+  onModuleInit() {
+    setTimeout(() => {
+      void this.backfillSearchText().then(() => this.logItemDetailsReport());
+    }, 5_000);
+  }
+
   async create(
     createAdDto: CreateAdDto,
     actor: StaffActor,
@@ -64,6 +139,10 @@ export class AdsService {
       imageBuffers.length > 0
         ? await this.imageService.optimizeAndSaveMany(imageBuffers)
         : [];
+    const imageHashEntries = this.pairImageHashes(
+      imageUrls,
+      await this.contentModerationService.hashImages(imageBuffers),
+    );
 
     const slug =
       slugify(createAdDto.name, { lower: true, strict: true }) +
@@ -79,6 +158,10 @@ export class AdsService {
       actor.role === UserRole.ADMIN
         ? (createAdDto.status ?? AdStatus.PENDING)
         : AdStatus.PENDING;
+    const itemDetails = await this.resolveItemDetails(
+      createAdDto.categoryId ?? null,
+      createAdDto.itemDetails,
+    );
 
     const ad = this.adRepo.create({
       name: createAdDto.name,
@@ -96,14 +179,29 @@ export class AdsService {
       phoneNumber: normalizeEthiopianPhoneNumberForStorage(
         createAdDto.phoneNumber,
       ),
-      itemDetails: createAdDto.itemDetails ?? null,
+      itemDetails,
       moderationNote: null,
       approvedAt: adStatus === AdStatus.APPROVED ? new Date() : null,
       approvedById: adStatus === AdStatus.APPROVED ? actor.userId : null,
       isFeatured: false,
     });
+    ad.searchText = await this.buildSearchText(ad);
+    if (adStatus === AdStatus.APPROVED) {
+      await this.resetExpiry(ad);
+    }
+
+    let verdict: ModerationVerdict | null = null;
+    let autoApproved = false;
+    if (actor.role === UserRole.MERCHANT) {
+      verdict = await this.screenAd(ad, imageHashEntries);
+      autoApproved = await this.applyScreeningVerdict(ad, verdict);
+    }
 
     const saved = await this.adRepo.save(ad);
+    await this.contentModerationService.saveImageHashes(
+      saved.id,
+      imageHashEntries,
+    );
     if (saved.merchantId) {
       await this.merchantsService.awardPointsForAdPost({
         merchantId: saved.merchantId,
@@ -112,13 +210,20 @@ export class AdsService {
         actorUserId: actor.userId,
       });
     }
-    if (saved.status === AdStatus.PENDING) {
-      await this.notifyAdminAdSubmission(saved);
+    if (autoApproved) {
+      await this.completeAutoApproval(saved);
+    } else if (saved.status === AdStatus.APPROVED) {
+      await this.queueSavedSearchMatches(saved);
+    } else if (saved.status === AdStatus.PENDING) {
+      await this.notifyAdminAdSubmission(saved, verdict);
     }
     return this.findOne(saved.id);
   }
 
-  private async notifyAdminAdSubmission(ad: Ad) {
+  private async notifyAdminAdSubmission(
+    ad: Ad,
+    verdict: ModerationVerdict | null = null,
+  ) {
     try {
       const adWithContext = await this.adRepo.findOne({
         where: { id: ad.id },
@@ -141,6 +246,8 @@ export class AdsService {
         merchantUsername: merchant?.username ?? null,
         merchantTelegramId: merchant?.telegramId ?? null,
         imagePaths: this.getAdImagePaths(sourceAd),
+        screeningFlags:
+          verdict?.findings.map((finding) => finding.reason) ?? [],
       });
     } catch {
       // Keep ad creation non-blocking if Telegram delivery fails.
@@ -155,7 +262,11 @@ export class AdsService {
     });
   }
 
-  private applyFilters(qb: SelectQueryBuilder<Ad>, filters: AdFilters) {
+  private applyFilters(
+    qb: SelectQueryBuilder<Ad>,
+    filters: AdFilters,
+    detailFilters: ItemDetailsFilter[] = [],
+  ) {
     if (!filters.includeInactive) {
       qb.andWhere('ad.isActive = :isActive', { isActive: true });
     }
@@ -170,12 +281,27 @@ export class AdsService {
       });
     }
 
-    const normalizedQuery = filters.query?.trim().toLowerCase() ?? '';
-    if (normalizedQuery.length > 0) {
+    const fullTextQuery = this.buildFullTextQuery(filters.query);
+    if (fullTextQuery) {
       qb.andWhere(
-        "(LOWER(ad.name) LIKE :q OR LOWER(COALESCE(ad.description, '')) LIKE :q)",
-        { q: `%${normalizedQuery}%` },
+        'MATCH(ad.searchText) AGAINST (:fullTextQuery IN BOOLEAN MODE)',
+        { fullTextQuery },
+      );
+      // The index cannot see terms shorter than an ngram token, so they are
+      // still required through LIKE.
+      const shortTerms = extractSearchTerms(filters.query).filter(
+        (term) => term.length < MIN_FULLTEXT_QUERY_LENGTH,
       );
+      shortTerms.forEach((term, index) => {
+        qb.andWhere(`ad.searchText LIKE :shortTerm${index}`, {
+          [`shortTerm${index}`]: `%${term}%`,
+        });
+      });
+    } else {
+      const normalizedQuery = normalizeSearchText(filters.query?.trim() ?? '');
+      if (normalizedQuery.length > 0) {
+        qb.andWhere('ad.searchText LIKE :q', { q: `%${normalizedQuery}%` });
+      }
     }
 
     if (filters.categoryIds && filters.categoryIds.length > 0) {
@@ -200,11 +326,210 @@ export class AdsService {
       qb.andWhere('ad.merchantId IS NULL');
     }
 
+    if (filters.verifiedMerchantsOnly) {
+      // A subquery keeps this usable from queries that don't join the merchant.
+      qb.andWhere(
+        'EXISTS (SELECT 1 FROM users verifiedMerchant WHERE verifiedMerchant.id = ad.merchantId AND verifiedMerchant.verifiedAt IS NOT NULL)',
+      );
+    }
+
     if (typeof filters.createdById === 'number') {
       qb.andWhere('ad.createdById = :createdById', {
         createdById: filters.createdById,
       });
     }
+
+    detailFilters.forEach((filter, idx) => {
+      const pathParam = `detailPath${idx}`;
+      const valueSql = itemDetailsValueSql(pathParam);
+      qb.setParameter(pathParam, toItemDetailsJsonPath(filter.key));
+
+      if (filter.type === 'values') {
+        qb.andWhere(`${valueSql} IN (:...detailValues${idx})`, {
+          [`detailValues${idx}`]: filter.values.map(String),
+        });
+        return;
+      }
+      if (filter.min !== undefined) {
+        qb.andWhere(`CAST(${valueSql} AS DECIMAL(20,4)) >= :detailMin${idx}`, {
+          [`detailMin${idx}`]: filter.min,
+        });
+      }
+      if (filter.max !== undefined) {
+        qb.andWhere(`CAST(${valueSql} AS DECIMAL(20,4)) <= :detailMax${idx}`, {
+          [`detailMax${idx}`]: filter.max,
+        });
+      }
+    });
+  }
+
+  /**
+   * Expands selected categories to include their descendants. When exactly one
+   * category is selected it is returned with its inherited dynamic fields so
+   * item detail filters and facets can use the full schema.
+   */
+  private async scopeCategoryFilters(filters: AdFilters) {
+    if (!filters.categoryIds?.length) {
+      return { scopedFilters: filters, category: null };
+    }
+
+    const categories = await this.loadCategoryHierarchy();
+    const selected =
+      filters.categoryIds.length === 1
+        ? categories.find((entry) => entry.id === filters.categoryIds?.[0])
+        : undefined;
+    const category = selected
+      ? {
+          ...selected,
+          dynamicFields: resolveEffectiveDynamicFields(categories, selected.id),
+        }
+      : null;
+
+    return {
+      scopedFilters: {
+        ...filters,
+        categoryIds: collectDescendantIds(categories, filters.categoryIds),
+      },
+      category,
+    };
+  }
+
+  private loadCategoryHierarchy() {
+    return this.categoryRepo.find({
+      select: {
+        id: true,
+        name: true,
+        parentId: true,
+        sortOrder: true,
+        createdAt: true,
+        dynamicFields: true,
+      },
+    });
+  }
+
+  /**
+   * Lists all categories in tree order with inherited dynamic fields and
+   * product counts that include every descendant category.
+   */
+  async listCategoryHierarchy() {
+    const [categories, countRows] = await Promise.all([
+      this.categoryRepo.find(),
+      this.adRepo
+        .createQueryBuilder('ad')
+        .select('ad.categoryId', 'categoryId')
+        .addSelect('COUNT(*)', 'count')
+        .where('ad.categoryId IS NOT NULL')
+        .groupBy('ad.categoryId')
+        .getRawMany<{ categoryId: number; count: string | number }>(),
+    ]);
+
+    const ownCounts = new Map(
+      countRows.map((row) => [Number(row.categoryId), Number(row.count)]),
+    );
+    const totals = rollUpCategoryCounts(categories, ownCounts);
+
+    return sortCategoriesAsTree(categories).map((category) => ({
+      ...category,
+      depth: collectAncestorIds(categories, category.id).length,
+      productCount: totals.get(category.id) ?? 0,
+      effectiveDynamicFields: resolveEffectiveDynamicFields(
+        categories,
+        category.id,
+      ),
+    }));
+  }
+
+  private resolveItemDetailsFilters(
+    filters: AdFilters,
+    category: Pick<Category, 'dynamicFields'> | null,
+  ) {
+    if (!filters.itemDetails || Object.keys(filters.itemDetails).length === 0) {
+      return [];
+    }
+    // Field types come from the category schema, so one category is required.
+    if (!category) {
+      throw new BadRequestException(
+        'Item detail filters require exactly one category',
+      );
+    }
+
+    const { filters: detailFilters, errors } = parseItemDetailsFilters(
+      category.dynamicFields,
+      filters.itemDetails,
+    );
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        `Invalid item detail filters: ${errors.join('; ')}`,
+      );
+    }
+    return detailFilters;
+  }
+
+  private async buildItemDetailsFacets(
+    category: Pick<Category, 'dynamicFields'>,
+    filters: AdFilters,
+    detailFilters: ItemDetailsFilter[],
+  ): Promise<ItemDetailsFacet[]> {
+    const fields = (category.dynamicFields ?? []).filter(
+      (field) => field.type !== 'text',
+    );
+
+    const facets = await Promise.all(
+      fields.map(async (field): Promise<ItemDetailsFacet | null> => {
+        const label = field.label || field.key;
+        const valueSql = itemDetailsValueSql('facetPath');
+        const qb = this.adRepo
+          .createQueryBuilder('ad')
+          .where(`${valueSql} IS NOT NULL`)
+          .setParameter('facetPath', toItemDetailsJsonPath(field.key));
+        // Leave the field's own selection out so its other values stay visible.
+        this.applyFilters(
+          qb,
+          filters,
+          detailFilters.filter((filter) => filter.key !== field.key),
+        );
+
+        if (field.type === 'number') {
+          const row = await qb
+            .select(`MIN(CAST(${valueSql} AS DECIMAL(20,4)))`, 'min')
+            .addSelect(`MAX(CAST(${valueSql} AS DECIMAL(20,4)))`, 'max')
+            .getRawOne<{ min: string | null; max: string | null }>();
+          const min = Number(row?.min);
+          const max = Number(row?.max);
+          if (row?.min === null || row?.max === null) return null;
+          if (!Number.isFinite(min) || !Number.isFinite(max)) return null;
+          return { key: field.key, label, type: 'number', min, max };
+        }
+
+        const rows = await qb
+          .select(valueSql, 'value')
+          .addSelect('COUNT(*)', 'count')
+          .groupBy('value')
+          .getRawMany<{ value: string; count: string | number }>();
+        const counts = new Map(
+          rows.map((row) => [row.value.toLowerCase(), Number(row.count)]),
+        );
+
+        const values =
+          field.type === 'boolean'
+            ? [true, false].map((value) => ({
+                value,
+                count: counts.get(String(value)) ?? 0,
+              }))
+            : (field.options ?? []).map((option) => ({
+                value: option,
+                count: counts.get(option.toLowerCase()) ?? 0,
+              }));
+        return {
+          key: field.key,
+          label,
+          type: field.type === 'boolean' ? 'boolean' : 'select',
+          values,
+        };
+      }),
+    );
+
+    return facets.filter((facet): facet is ItemDetailsFacet => facet !== null);
   }
 
   private buildPriceRanges(minRaw: unknown, maxRaw: unknown) {
@@ -238,14 +563,22 @@ export class AdsService {
     });
   }
 
-  async findFilteredPaginated(filters: AdFilters, page: number, limit: number) {
+  async findFilteredPaginated(
+    requestedFilters: AdFilters,
+    page: number,
+    limit: number,
+  ) {
+    const { scopedFilters: filters, category } =
+      await this.scopeCategoryFilters(requestedFilters);
+    const detailFilters = this.resolveItemDetailsFilters(filters, category);
+
     const rangeQuery = this.adRepo
       .createQueryBuilder('ad')
       .leftJoin('ad.category', 'category')
       .select('MIN(ad.price)', 'min')
       .addSelect('MAX(ad.price)', 'max');
 
-    this.applyFilters(rangeQuery, filters);
+    this.applyFilters(rangeQuery, filters, detailFilters);
 
     const rangeRow = await rangeQuery.getRawOne<{
       min: string | number | null;
@@ -257,40 +590,245 @@ export class AdsService {
       .createQueryBuilder('ad')
       .leftJoinAndSelect('ad.category', 'category')
       .leftJoinAndSelect('ad.createdBy', 'createdBy')
-      .orderBy('ad.isFeatured', 'DESC')
-      .addOrderBy('ad.createdAt', 'DESC')
-      .skip((page - 1) * limit)
-      .take(limit);
-
-    this.applyFilters(query, filters);
+      .leftJoin('ad.merchant', 'merchant')
+      .addSelect(SELLER_SUMMARY_COLUMNS);
+
+    const fullTextQuery = this.buildFullTextQuery(filters.query);
+    if (fullTextQuery) {
+      // Only to-one joins are selected, so offset/limit is safe here and
+      // lets MySQL order by the computed relevance alias.
+      query
+        .addSelect(
+          'MATCH(ad.searchText) AGAINST (:fullTextQuery IN BOOLEAN MODE)',
+          'relevance',
+        )
+        .orderBy('relevance', 'DESC')
+        .addOrderBy('ad.isFeatured', 'DESC')
+        .addOrderBy('ad.createdAt', 'DESC')
+        .offset((page - 1) * limit)
+        .limit(limit);
+    } else {
+      query
+        .orderBy('ad.isFeatured', 'DESC')
+        .addOrderBy('ad.createdAt', 'DESC')
+        .skip((page - 1) * limit)
+        .take(limit);
+    }
 
-    const [data, total] = await query.getManyAndCount();
+    this.applyFilters(query, filters, detailFilters);
+
+    const [ads, total] = await query.getManyAndCount();
+    const searchTerms = extractSearchTerms(filters.query);
+    const data =
+      searchTerms.length > 0
+        ? ads.map((ad) => ({
+            ...ad,
+            searchHighlight: buildAdSearchHighlight(ad, searchTerms),
+          }))
+        : ads;
     return { data, total, priceRanges };
   }
 
-  async getFilterOptions(filters: AdFilters) {
+  async refreshSearchTextForCategory(categoryId: number) {
+    const ads = await this.adRepo.find({
+      where: { categoryId },
+      relations: ['category'],
+    });
+    for (const ad of ads) {
+      await this.adRepo.update(ad.id, {
+        searchText: buildAdSearchDocument(ad),
+      });
+    }
+  }
+
+  private async backfillSearchText() {
+    try {
+      let updated = 0;
+      for (;;) {
+        const ads = await this.adRepo
+          .createQueryBuilder('ad')
+          .leftJoinAndSelect('ad.category', 'category')
+          .where('ad.searchText IS NULL')
+          .orderBy('ad.id', 'ASC')
+          .take(SEARCH_BACKFILL_BATCH_SIZE)
+          .getMany();
+        if (ads.length === 0) break;
+
+        for (const ad of ads) {
+          await this.adRepo.update(ad.id, {
+            searchText: buildAdSearchDocument(ad),
+          });
+        }
+        updated += ads.length;
+      }
+
+      if (updated > 0) {
+        this.logger.log(`Indexed ${updated} ads for catalog search`);
+      }
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(`Failed to backfill ad search text: ${err.message}`);
+    }
+  }
+
+  /**
+   * Lists ads whose stored item details no longer match their category
+   * schema, e.g. ads created before server-side validation existed.
+   */
+  async getItemDetailsReport() {
+    const categories = await this.loadCategoryHierarchy();
+    const categoryById = new Map(
+      categories.map((category) => [
+        category.id,
+        {
+          name: category.name,
+          dynamicFields: resolveEffectiveDynamicFields(categories, category.id),
+        },
+      ]),
+    );
+
+    const violations: Array<{
+      adId: number;
+      name: string;
+      status: AdStatus;
+      merchantId: number | null;
+      categoryId: number | null;
+      categoryName: string | null;
+      errors: string[];
+    }> = [];
+    let scannedAds = 0;
+    let lastId = 0;
+
+    for (;;) {
+      const ads = await this.adRepo
+        .createQueryBuilder('ad')
+        .select([
+          'ad.id',
+          'ad.name',
+          'ad.status',
+          'ad.merchantId',
+          'ad.categoryId',
+          'ad.itemDetails',
+        ])
+        .where('ad.id > :lastId', { lastId })
+        .orderBy('ad.id', 'ASC')
+        .take(ITEM_DETAILS_REPORT_BATCH_SIZE)
+        .getMany();
+      if (ads.length === 0) break;
+
+      for (const ad of ads) {
+        const category = ad.categoryId
+          ? (categoryById.get(ad.categoryId) ?? null)
+          : null;
+        const { errors } = validateItemDetails(
+          category?.dynamicFields,
+          ad.itemDetails,
+        );
+        if (errors.length === 0) continue;
+        violations.push({
+          adId: ad.id,
+          name: ad.name,
+          status: ad.status,
+          merchantId: ad.merchantId,
+          categoryId: ad.categoryId,
+          categoryName: category?.name ?? null,
+          errors,
+        });
+      }
+
+      scannedAds += ads.length;
+      lastId = ads[ads.length - 1].id;
+    }
+
+    return {
+      scannedAds,
+      violatingAds: violations.length,
+      data: violations,
+    };
+  }
+
+  private async logItemDetailsReport() {
+    try {
+      const report = await this.getItemDetailsReport();
+      if (report.violatingAds > 0) {
+        this.logger.warn(
+          `${report.violatingAds} of ${report.scannedAds} ads have item details that violate their category schema`,
+        );
+      }
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(`Failed to build item details report: ${err.message}`);
+    }
+  }
+
+  private async resolveItemDetails(
+    categoryId: number | null,
+    itemDetails: Record<string, unknown> | null | undefined,
+  ) {
+    const categories = categoryId ? await this.loadCategoryHierarchy() : [];
+    if (categoryId && !categories.some((entry) => entry.id === categoryId)) {
+      throw new BadRequestException('Category not found');
+    }
+
+    const { value, errors } = validateItemDetails(
+      categoryId ? resolveEffectiveDynamicFields(categories, categoryId) : [],
+      itemDetails,
+    );
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        `Invalid item details: ${errors.join('; ')}`,
+      );
+    }
+    return value;
+  }
+
+  private async buildSearchText(ad: Ad) {
+    const category = ad.categoryId
+      ? await this.categoryRepo.findOne({
+          where: { id: ad.categoryId },
+          select: { id: true, name: true },
+        })
+      : null;
+    return buildAdSearchDocument(ad, category?.name ?? null);
+  }
+
+  private buildFullTextQuery(query?: string): string | null {
+    // ngram tokens are two characters long, so shorter terms need LIKE.
+    // Natural language mode would OR every bigram together, so each term is
+    // required instead; ngram turns a required term into a phrase match.
+    const terms = extractSearchTerms(query).filter(
+      (term) => term.length >= MIN_FULLTEXT_QUERY_LENGTH,
+    );
+    return terms.length > 0 ? terms.map((term) => `+${term}`).join(' ') : null;
+  }
+
+  async getFilterOptions(requestedFilters: AdFilters) {
+    const { scopedFilters: filters, category } =
+      await this.scopeCategoryFilters(requestedFilters);
+    const detailFilters = this.resolveItemDetailsFilters(filters, category);
+
     const rangeQuery = this.adRepo
       .createQueryBuilder('ad')
       .select('MIN(ad.price)', 'min')
       .addSelect('MAX(ad.price)', 'max');
 
-    this.applyFilters(rangeQuery, filters);
+    this.applyFilters(rangeQuery, filters, detailFilters);
 
-    const [rangeRow, categories] = await Promise.all([
+    const [rangeRow, categories, facets] = await Promise.all([
       rangeQuery.getRawOne<{
         min: string | number | null;
         max: string | number | null;
       }>(),
-      this.categoryRepo
-        .createQueryBuilder('category')
-        .loadRelationCountAndMap('category.productCount', 'category.ads')
-        .orderBy('category.createdAt', 'DESC')
-        .getMany(),
+      this.listCategoryHierarchy(),
+      category
+        ? this.buildItemDetailsFacets(category, filters, detailFilters)
+        : Promise.resolve([]),
     ]);
 
     return {
       categories,
       priceRanges: this.buildPriceRanges(rangeRow?.min, rangeRow?.max),
+      facets,
     };
   }
 
@@ -305,6 +843,24 @@ export class AdsService {
     return ad;
   }
 
+  /** Loads a live, approved ad for catalog deep links. */
+  async findPublicOne(id: number): Promise<Ad> {
+    const ad = await this.adRepo
+      .createQueryBuilder('ad')
+      .leftJoinAndSelect('ad.category', 'category')
+      .leftJoinAndSelect('ad.createdBy', 'createdBy')
+      .leftJoin('ad.merchant', 'merchant')
+      .addSelect(SELLER_SUMMARY_COLUMNS)
+      .where('ad.id = :id', { id })
+      .andWhere('ad.status = :status', { status: AdStatus.APPROVED })
+      .andWhere('ad.isActive = :isActive', { isActive: true })
+      .getOne();
+    if (!ad) {
+      throw new NotFoundException('Ad not found');
+    }
+    return ad;
+  }
+
   async update(
     id: number,
     updateAdDto: UpdateAdDto,
@@ -319,6 +875,7 @@ export class AdsService {
 
     const previousMerchantId = ad.merchantId;
     const previousAdName = ad.name;
+    const previousPrice = Number(ad.price);
     this.assertCanManageAd(ad, actor);
 
     if (imageBuffers.length > MAX_AD_IMAGES) {
@@ -327,6 +884,8 @@ export class AdsService {
       );
     }
 
+    let imageHashEntries: Array<{ imageUrl: string; hash: string }> | null =
+      null;
     if (imageBuffers.length > 0 || retainedImageUrls !== undefined) {
       const existingImagePaths = this.getAdImagePaths(ad);
 
@@ -351,6 +910,18 @@ export class AdsService {
           ? await this.imageService.optimizeAndSaveMany(imageBuffers)
           : [];
       const nextImageUrls = [...baseRetainedImages, ...savedImageUrls];
+      const retainedHashEntries = (
+        await this.contentModerationService.getImageHashes(ad.id)
+      )
+        .filter((entry) => baseRetainedImages.includes(entry.imageUrl))
+        .map(({ imageUrl, hash }) => ({ imageUrl, hash }));
+      imageHashEntries = [
+        ...retainedHashEntries,
+        ...this.pairImageHashes(
+          savedImageUrls,
+          await this.contentModerationService.hashImages(imageBuffers),
+        ),
+      ];
 
       const removedImagePaths = existingImagePaths.filter(
         (path) => !nextImageUrls.includes(path),
@@ -416,6 +987,19 @@ export class AdsService {
           : ad.phoneNumber,
     });
 
+    if (
+      updateAdDto.itemDetails !== undefined ||
+      updateAdDto.categoryId !== undefined
+    ) {
+      // A category change re-checks the stored details against the new schema.
+      ad.itemDetails = await this.resolveItemDetails(
+        ad.categoryId,
+        updateAdDto.itemDetails ?? ad.itemDetails,
+      );
+    }
+
+    let verdict: ModerationVerdict | null = null;
+    let autoApproved = false;
     if (actor.role === UserRole.MERCHANT) {
       if (merchantTogglingVisibilityOnly) {
         if (ad.status !== AdStatus.APPROVED) {
@@ -423,18 +1007,32 @@ export class AdsService {
             'Only approved ads can be toggled between published and draft',
           );
         }
+        const isExpired =
+          Boolean(ad.archivedAt) ||
+          (ad.expiresAt !== null && ad.expiresAt <= new Date());
+        if (ad.isActive && isExpired) {
+          throw new BadRequestException(
+            'This ad has expired. Renew it to publish it again',
+          );
+        }
       } else {
         ad.status = AdStatus.PENDING;
         ad.moderationNote = null;
         ad.approvedAt = null;
         ad.approvedById = null;
-        await this.notifyAdminAdSubmission(ad);
+        verdict = await this.screenAd(
+          ad,
+          imageHashEntries ??
+            (await this.contentModerationService.getImageHashes(ad.id)),
+        );
+        autoApproved = await this.applyScreeningVerdict(ad, verdict);
       }
     } else if (actor.role === UserRole.ADMIN && updateAdDto.status) {
       if (updateAdDto.status === AdStatus.APPROVED) {
         ad.approvedAt = new Date();
         ad.approvedById = actor.userId;
         ad.moderationNote = updateAdDto.moderationNote ?? null;
+        await this.resetExpiry(ad);
       } else if (updateAdDto.status === AdStatus.REJECTED) {
         ad.approvedAt = null;
         ad.approvedById = null;
@@ -442,7 +1040,19 @@ export class AdsService {
       }
     }
 
+    if (actor.role === UserRole.ADMIN && ad.isActive && ad.archivedAt) {
+      // Republishing an expired ad starts a fresh listing period.
+      await this.resetExpiry(ad);
+    }
+
+    ad.searchText = await this.buildSearchText(ad);
     const saved = await this.adRepo.save(ad);
+    if (imageHashEntries) {
+      await this.contentModerationService.saveImageHashes(
+        saved.id,
+        imageHashEntries,
+      );
+    }
     await this.merchantsService.recordAdUpdated({
       merchantId: saved.merchantId,
       adId: saved.id,
@@ -450,6 +1060,12 @@ export class AdsService {
       actorUserId: actor.userId,
     });
 
+    if (autoApproved) {
+      await this.completeAutoApproval(saved);
+    } else if (verdict) {
+      await this.notifyAdminAdSubmission(saved, verdict);
+    }
+
     if (previousMerchantId && previousMerchantId !== saved.merchantId) {
       await this.merchantsService.recordAdUpdated({
         merchantId: previousMerchantId,
@@ -459,6 +1075,22 @@ export class AdsService {
       });
     }
 
+    // Buyers can only open the ad while it is listed. The fan-out runs after
+    // the response so a popular ad does not hold up the edit.
+    if (
+      saved.status === AdStatus.APPROVED &&
+      saved.isActive &&
+      Number(saved.price) < previousPrice
+    ) {
+      void this.adFavoritesService
+        .notifyPriceDrop(saved, previousPrice)
+        .catch((error: Error) =>
+          this.logger.warn(
+            `Price drop alerts failed for ad ${saved.id}: ${error.message}`,
+          ),
+        );
+    }
+
     return saved;
   }
 
@@ -471,6 +1103,7 @@ export class AdsService {
     ad.approvedAt = new Date();
     ad.moderationNote = note?.trim() || null;
     ad.isActive = true;
+    await this.resetExpiry(ad);
 
     const saved = await this.adRepo.save(ad);
     await this.merchantsService.recordAdApproved({
@@ -480,6 +1113,7 @@ export class AdsService {
       actorUserId: adminUserId,
     });
     await this.notifyMerchantAdModeration(saved, AdStatus.APPROVED);
+    await this.queueSavedSearchMatches(saved);
     return saved;
   }
 
@@ -517,14 +1151,15 @@ export class AdsService {
     const adminUser = await this.userRepo.findOne({
       where: {
         telegramId: adminTelegramId,
-        role: UserRole.ADMIN,
+        role: In(getRolesWithPermission(Permission.ADS_MODERATE)),
+        isBanned: false,
       },
       select: { id: true },
     });
 
     if (!adminUser) {
       throw new BadRequestException(
-        'Admin Telegram account is not linked to an admin profile',
+        'This Telegram account is not linked to a moderator profile',
       );
     }
 
@@ -549,6 +1184,52 @@ export class AdsService {
     return this.reject(input.adId, adminUser.id);
   }
 
+  async renew(id: number, actor: StaffActor) {
+    const ad = await this.adRepo.findOne({ where: { id } });
+    if (!ad) throw new NotFoundException('Ad not found');
+    this.assertCanManageAd(ad, actor);
+
+    if (ad.status !== AdStatus.APPROVED) {
+      throw new BadRequestException('Only approved ads can be renewed');
+    }
+    // Ads the merchant hid stay hidden; only archived or still-listed ads renew.
+    if (!ad.isActive && !ad.archivedAt) {
+      throw new BadRequestException('Hidden ads cannot be renewed');
+    }
+
+    ad.isActive = true;
+    await this.resetExpiry(ad);
+    const saved = await this.adRepo.save(ad);
+
+    await this.merchantsService.recordAdRenewed({
+      merchantId: saved.merchantId,
+      adId: saved.id,
+      adName: saved.name,
+      expiresAt: saved.expiresAt ?? new Date(),
+      actorUserId: actor.userId,
+    });
+    return saved;
+  }
+
+  async renewFromTelegramAction(input: { adId: number; telegramId: string }) {
+    const telegramId = String(input.telegramId ?? '').trim();
+    if (!telegramId) {
+      throw new BadRequestException('Missing Telegram identity');
+    }
+
+    const user = await this.userRepo.findOne({
+      where: { telegramId },
+      select: { id: true, role: true },
+    });
+    if (!user) {
+      throw new BadRequestException(
+        'Telegram account is not linked to a merchant profile',
+      );
+    }
+
+    return this.renew(input.adId, { userId: user.id, role: user.role });
+  }
+
   async getDashboardStats(userId: number, role: UserRole) {
     const query = this.adRepo.createQueryBuilder('ad');
     if (role === UserRole.MERCHANT) {
@@ -572,11 +1253,16 @@ export class AdsService {
       }
     }
 
+    const totalFavorites = await this.adFavoritesService.countForMerchant(
+      role === UserRole.MERCHANT ? userId : null,
+    );
+
     return {
       totalAds: Object.values(counts).reduce((sum, value) => sum + value, 0),
       pendingAds: counts[AdStatus.PENDING],
       approvedAds: counts[AdStatus.APPROVED],
       rejectedAds: counts[AdStatus.REJECTED],
+      totalFavorites,
     };
   }
 
@@ -591,6 +1277,7 @@ export class AdsService {
     if (imagePaths.length > 0) {
       await this.imageService.deleteImages(imagePaths);
     }
+    await this.adCommentsService.deleteReviewImagesForAd(ad.id);
 
     await this.merchantsService.recordAdRemoved({
       merchantId: ad.merchantId,
@@ -599,7 +1286,78 @@ export class AdsService {
       actorUserId: actor.userId,
     });
 
+    // Favorites cascade with the ad, so collect recipients before deleting.
+    const favoriteTelegramIds =
+      await this.adFavoritesService.findSubscriberTelegramIds(ad.id);
+    const adName = ad.name;
+
     await this.adRepo.remove(ad);
+
+    void this.adFavoritesService
+      .notifyAdRemoved(adName, favoriteTelegramIds)
+      .catch((error: Error) =>
+        this.logger.warn(
+          `Removal alerts failed for ad ${id}: ${error.message}`,
+        ),
+      );
+  }
+
+  private screenAd(
+    ad: Ad,
+    imageHashEntries: Array<{ imageUrl: string; hash: string }>,
+  ) {
+    return this.contentModerationService.screenAd({
+      adId: ad.id ?? null,
+      merchantId: ad.merchantId,
+      name: ad.name,
+      description: ad.description,
+      price: Number(ad.price),
+      categoryId: ad.categoryId,
+      imageHashes: imageHashEntries.map((entry) => entry.hash),
+    });
+  }
+
+  /**
+   * Flags high-risk submissions with their reasons, and approves low-risk
+   * ones from trusted merchants. Returns true when the ad was auto-approved.
+   */
+  private async applyScreeningVerdict(ad: Ad, verdict: ModerationVerdict) {
+    if (verdict.risk === 'high') {
+      ad.moderationNote =
+        this.contentModerationService.formatModerationNote(verdict);
+      return false;
+    }
+    if (
+      verdict.risk !== 'low' ||
+      !(await this.contentModerationService.isTrustedMerchant(ad.merchantId))
+    ) {
+      return false;
+    }
+
+    ad.status = AdStatus.APPROVED;
+    ad.approvedAt = new Date();
+    ad.approvedById = null;
+    ad.moderationNote = null;
+    await this.resetExpiry(ad);
+    return true;
+  }
+
+  private async completeAutoApproval(ad: Ad) {
+    await this.merchantsService.recordAdApproved({
+      merchantId: ad.merchantId,
+      adId: ad.id,
+      adName: ad.name,
+      actorUserId: null,
+    });
+    await this.notifyMerchantAdModeration(ad, AdStatus.APPROVED);
+    await this.queueSavedSearchMatches(ad);
+  }
+
+  private pairImageHashes(imageUrls: string[], hashes: Array<string | null>) {
+    return imageUrls.flatMap((imageUrl, index) => {
+      const hash = hashes[index];
+      return hash ? [{ imageUrl, hash }] : [];
+    });
   }
 
   private getAdImagePaths(ad: Ad) {
@@ -661,6 +1419,23 @@ export class AdsService {
     }
   }
 
+  private async resetExpiry(ad: Ad) {
+    ad.expiresAt = await this.adExpiryService.computeExpiresAt(ad.categoryId);
+    ad.expiryReminderSentAt = null;
+    ad.archivedAt = null;
+  }
+
+  private async queueSavedSearchMatches(ad: Ad) {
+    try {
+      await this.savedSearchesService.queueMatchesForApprovedAd(ad);
+    } catch (error) {
+      // Keep moderation non-blocking if saved search matching fails.
+      this.logger.warn(
+        `Saved search matching failed for ad ${ad.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
   private async resolveMerchantId(
     actor: StaffActor,
     merchantIdRaw: number | null | undefined,
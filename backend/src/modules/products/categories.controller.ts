@@ -24,9 +24,17 @@ import {
   normalizePagination,
 } from '../../common/pagination';
 import { RolesGuard } from '../../common/guards/roles.guard';
-import { Roles } from '../../common/decorators/roles.decorator';
-import { UserRole } from '../users/entities/user.entity';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../users/permissions';
 import { ImageService } from './image.service';
+import { AdsService } from './ads.service';
+import { ReorderCategoriesDto } from './dto/reorder-categories.dto';
+import {
+  buildCategoryTree,
+  collectAncestorIds,
+  collectDescendantIds,
+  hasCategoryCycle,
+} from './category-tree.util';
 import {
   getMultipartParts,
   getRequestBodyRecord,
@@ -42,6 +50,7 @@ export class CategoriesController {
     @InjectRepository(Category)
     private readonly catRepo: Repository<Category>,
     private readonly imageService: ImageService,
+    private readonly adsService: AdsService,
   ) {}
 
   @Get()
@@ -52,19 +61,86 @@ export class CategoriesController {
       skip,
     } = normalizePagination(page, limit);
 
-    const query = this.catRepo
-      .createQueryBuilder('category')
-      .loadRelationCountAndMap('category.productCount', 'category.ads')
-      .orderBy('category.createdAt', 'DESC')
-      .skip(skip)
-      .take(safeLimit);
+    // Pages follow tree order so children stay next to their parents.
+    const categories = await this.adsService.listCategoryHierarchy();
+    const data = categories.slice(skip, skip + safeLimit);
+    return {
+      data,
+      meta: buildPaginationMeta(categories.length, safePage, safeLimit),
+    };
+  }
+
+  @Get('tree')
+  async tree() {
+    const categories = await this.adsService.listCategoryHierarchy();
+    return buildCategoryTree(categories);
+  }
+
+  @Get(':id/tree')
+  async subtree(@Param('id', ParseIntPipe) id: number) {
+    const categories = await this.adsService.listCategoryHierarchy();
+    const category = categories.find((entry) => entry.id === id);
+    if (!category) {
+      throw new NotFoundException('Category not found');
+    }
+
+    const subtreeIds = new Set(collectDescendantIds(categories, [id]));
+    const [root] = buildCategoryTree(
+      categories.filter((entry) => subtreeIds.has(entry.id)),
+    );
+    const ancestors = collectAncestorIds(categories, id)
+      .reverse()
+      .map((ancestorId) => categories.find((entry) => entry.id === ancestorId))
+      .filter((entry) => entry !== undefined)
+      .map((entry) => ({ id: entry.id, name: entry.name, slug: entry.slug }));
+
+    return { ...root, ancestors };
+  }
+
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @RequirePermissions(Permission.CATEGORIES_MANAGE)
+  @Patch('reorder')
+  async reorder(@Body() dto: ReorderCategoriesDto) {
+    const categories = await this.catRepo.find({
+      select: { id: true, parentId: true, sortOrder: true },
+    });
+    const byId = new Map(categories.map((entry) => [entry.id, entry]));
+
+    for (const item of dto.items) {
+      const category = byId.get(item.id);
+      if (!category) {
+        throw new NotFoundException(`Category ${item.id} not found`);
+      }
+      if (item.parentId && !byId.has(item.parentId)) {
+        throw new BadRequestException(
+          `Parent category ${item.parentId} not found`,
+        );
+      }
+      category.parentId = item.parentId ?? null;
+      category.sortOrder = item.sortOrder;
+    }
+
+    // Validate the arrangement as a whole so swapping two nodes is allowed.
+    if (hasCategoryCycle(categories)) {
+      throw new BadRequestException(
+        'A category cannot be moved inside its own subcategory',
+      );
+    }
+
+    await this.catRepo.manager.transaction(async (manager) => {
+      for (const item of dto.items) {
+        await manager.update(Category, item.id, {
+          parentId: item.parentId ?? null,
+          sortOrder: item.sortOrder,
+        });
+      }
+    });
 
-    const [data, total] = await query.getManyAndCount();
-    return { data, meta: buildPaginationMeta(total, safePage, safeLimit) };
+    return this.tree();
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CATEGORIES_MANAGE)
   @Post()
   async create(@Req() req: FastifyRequest) {
     const { body, thumbnailBuffer } = await this.parseMultipartOrJson(req);
@@ -79,17 +155,21 @@ export class CategoriesController {
         ? await this.imageService.optimizeAndSave(thumbnailBuffer)
         : null;
 
+    const parentId = await this.parseParentId(body.parentId);
     const cat = this.catRepo.create({
       name,
       slug,
       thumbnailUrl,
+      parentId,
+      sortOrder: await this.nextSortOrder(parentId),
       dynamicFields: this.parseDynamicFields(body.dynamicFields),
+      defaultAdLifetimeDays: this.parseLifetimeDays(body.defaultAdLifetimeDays),
     });
     return this.catRepo.save(cat);
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CATEGORIES_MANAGE)
   @Patch(':id')
   async update(
     @Param('id', ParseIntPipe) id: number,
@@ -101,6 +181,7 @@ export class CategoriesController {
     }
 
     const { body, thumbnailBuffer } = await this.parseMultipartOrJson(req);
+    const previousName = category.name;
     if (body.name !== undefined) {
       const nextName = this.toTrimmedString(body.name);
       if (!nextName) {
@@ -114,6 +195,20 @@ export class CategoriesController {
       category.dynamicFields = this.parseDynamicFields(body.dynamicFields);
     }
 
+    if (body.defaultAdLifetimeDays !== undefined) {
+      category.defaultAdLifetimeDays = this.parseLifetimeDays(
+        body.defaultAdLifetimeDays,
+      );
+    }
+
+    if (body.parentId !== undefined) {
+      const parentId = await this.parseParentId(body.parentId, category.id);
+      if (parentId !== (category.parentId ?? null)) {
+        category.parentId = parentId;
+        category.sortOrder = await this.nextSortOrder(parentId);
+      }
+    }
+
     if (thumbnailBuffer && thumbnailBuffer.length > 0) {
       const previousThumbnail = category.thumbnailUrl ?? null;
       category.thumbnailUrl =
@@ -129,11 +224,15 @@ export class CategoriesController {
       }
     }
 
-    return this.catRepo.save(category);
+    const saved = await this.catRepo.save(category);
+    if (saved.name !== previousName) {
+      await this.adsService.refreshSearchTextForCategory(saved.id);
+    }
+    return saved;
   }
 
   @UseGuards(AuthGuard('jwt'), RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.CATEGORIES_MANAGE)
   @Delete(':id')
   async remove(@Param('id', ParseIntPipe) id: number) {
     const category = await this.catRepo.findOne({ where: { id } });
@@ -141,6 +240,11 @@ export class CategoriesController {
       throw new NotFoundException('Category not found');
     }
 
+    // Subcategories move up to the removed category's parent.
+    await this.catRepo.update(
+      { parentId: category.id },
+      { parentId: category.parentId ?? null },
+    );
     await this.catRepo.remove(category);
     if (category.thumbnailUrl) {
       await this.imageService.deleteImage(category.thumbnailUrl);
@@ -204,6 +308,65 @@ export class CategoriesController {
     return normalized.length > 0 ? normalized : null;
   }
 
+  private async parseParentId(
+    rawValue: unknown,
+    categoryId?: number,
+  ): Promise<number | null> {
+    const normalized = this.toTrimmedString(rawValue);
+    if (!normalized || normalized === 'null') return null;
+
+    const parentId = Number(normalized);
+    if (!Number.isInteger(parentId) || parentId < 1) {
+      throw new BadRequestException('parentId must be a category id');
+    }
+
+    const categories = await this.catRepo.find({
+      select: { id: true, parentId: true },
+    });
+    if (!categories.some((entry) => entry.id === parentId)) {
+      throw new BadRequestException('Parent category not found');
+    }
+    if (
+      categoryId !== undefined &&
+      collectDescendantIds(categories, [categoryId]).includes(parentId)
+    ) {
+      throw new BadRequestException(
+        'A category cannot be moved inside its own subcategory',
+      );
+    }
+    return parentId;
+  }
+
+  private async nextSortOrder(parentId: number | null) {
+    const row = await this.catRepo
+      .createQueryBuilder('category')
+      .select('MAX(category.sortOrder)', 'maxSortOrder')
+      .where(
+        parentId === null
+          ? 'category.parentId IS NULL'
+          : 'category.parentId = :parentId',
+        { parentId },
+      )
+      .getRawOne<{ maxSortOrder: number | string | null }>();
+    const current = Number(row?.maxSortOrder);
+    return Number.isFinite(current) && row?.maxSortOrder !== null
+      ? current + 1
+      : 0;
+  }
+
+  private parseLifetimeDays(rawValue: unknown): number | null {
+    const normalized = this.toTrimmedString(rawValue);
+    if (!normalized) return null;
+
+    const parsed = Number(normalized);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > 365) {
+      throw new BadRequestException(
+        'defaultAdLifetimeDays must be a whole number between 1 and 365',
+      );
+    }
+    return parsed;
+  }
+
   private async parseMultipartOrJson(req: FastifyRequest): Promise<{
     body: Record<string, unknown>;
     thumbnailBuffer?: Buffer;
@@ -0,0 +1,177 @@
+import type { CategoryDynamicField } from './entities/category.entity';
+
+type CategoryTreeInput = {
+  id: number;
+  parentId?: number | null;
+  sortOrder?: number | null;
+  createdAt?: Date;
+  dynamicFields?: CategoryDynamicField[] | null;
+};
+
+export type CategoryTreeNode<T extends CategoryTreeInput> = T & {
+  depth: number;
+  children: CategoryTreeNode<T>[];
+};
+
+function compareSiblings(a: CategoryTreeInput, b: CategoryTreeInput) {
+  const bySortOrder = (a.sortOrder ?? 0) - (b.sortOrder ?? 0);
+  if (bySortOrder !== 0) return bySortOrder;
+  const byCreatedAt =
+    (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0);
+  return byCreatedAt !== 0 ? byCreatedAt : a.id - b.id;
+}
+
+function groupByParent<T extends CategoryTreeInput>(categories: T[]) {
+  const ids = new Set(categories.map((category) => category.id));
+  const childrenByParent = new Map<number | null, T[]>();
+  for (const category of categories) {
+    // Parents outside the given list are treated as roots.
+    const parentId =
+      category.parentId && ids.has(category.parentId)
+        ? category.parentId
+        : null;
+    const siblings = childrenByParent.get(parentId) ?? [];
+    siblings.push(category);
+    childrenByParent.set(parentId, siblings);
+  }
+  for (const siblings of childrenByParent.values()) {
+    siblings.sort(compareSiblings);
+  }
+  return childrenByParent;
+}
+
+/** Nests a flat category list, ordering siblings by `sortOrder`. */
+export function buildCategoryTree<T extends CategoryTreeInput>(
+  categories: T[],
+): CategoryTreeNode<T>[] {
+  const childrenByParent = groupByParent(categories);
+  const visited = new Set<number>();
+
+  const build = (parentId: number | null, depth: number) =>
+    (childrenByParent.get(parentId) ?? [])
+      .filter((category) => !visited.has(category.id))
+      .map((category): CategoryTreeNode<T> => {
+        visited.add(category.id);
+        return {
+          ...category,
+          depth,
+          children: build(category.id, depth + 1),
+        };
+      });
+
+  return build(null, 0);
+}
+
+/** Flattens a category list in depth-first tree order. */
+export function sortCategoriesAsTree<T extends CategoryTreeInput>(
+  categories: T[],
+): T[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const ordered: T[] = [];
+  const walk = (nodes: CategoryTreeNode<T>[]) => {
+    for (const node of nodes) {
+      const category = byId.get(node.id);
+      if (category) ordered.push(category);
+      walk(node.children);
+    }
+  };
+  walk(buildCategoryTree(categories));
+  return ordered;
+}
+
+/** Returns the given ids plus every category nested below them. */
+export function collectDescendantIds(
+  categories: CategoryTreeInput[],
+  rootIds: number[],
+): number[] {
+  const childrenByParent = groupByParent(categories);
+  const result = new Set<number>();
+  const queue = [...rootIds];
+
+  while (queue.length > 0) {
+    const id = queue.shift() as number;
+    if (result.has(id)) continue;
+    result.add(id);
+    for (const child of childrenByParent.get(id) ?? []) {
+      queue.push(child.id);
+    }
+  }
+  return [...result];
+}
+
+/** Returns the ancestors of a category, nearest parent first. */
+export function collectAncestorIds(
+  categories: CategoryTreeInput[],
+  categoryId: number,
+): number[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const ancestors: number[] = [];
+  let parentId = byId.get(categoryId)?.parentId ?? null;
+
+  while (parentId && byId.has(parentId) && !ancestors.includes(parentId)) {
+    if (parentId === categoryId) break;
+    ancestors.push(parentId);
+    parentId = byId.get(parentId)?.parentId ?? null;
+  }
+  return ancestors;
+}
+
+/**
+ * Merges a category's own dynamic fields with those of its ancestors. Fields
+ * are ordered root first; a descendant redefining a key overrides it.
+ */
+export function resolveEffectiveDynamicFields(
+  categories: CategoryTreeInput[],
+  categoryId: number,
+): CategoryDynamicField[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const chain = [
+    ...collectAncestorIds(categories, categoryId).reverse(),
+    categoryId,
+  ];
+  const fieldsByKey = new Map<string, CategoryDynamicField>();
+
+  for (const id of chain) {
+    for (const field of byId.get(id)?.dynamicFields ?? []) {
+      const normalizedKey = field.key.trim().toLowerCase();
+      fieldsByKey.delete(normalizedKey);
+      fieldsByKey.set(normalizedKey, field);
+    }
+  }
+  return [...fieldsByKey.values()];
+}
+
+/** Sums per-category counts so each category includes its descendants. */
+export function rollUpCategoryCounts(
+  categories: CategoryTreeInput[],
+  ownCounts: Map<number, number>,
+): Map<number, number> {
+  const totals = new Map<number, number>();
+  const visit = (node: CategoryTreeNode<CategoryTreeInput>): number => {
+    const total = node.children.reduce(
+      (sum, child) => sum + visit(child),
+      ownCounts.get(node.id) ?? 0,
+    );
+    totals.set(node.id, total);
+    return total;
+  };
+  buildCategoryTree(categories).forEach(visit);
+  return totals;
+}
+
+/** Detects parent links that loop back, including self-parenting. */
+export function hasCategoryCycle(categories: CategoryTreeInput[]): boolean {
+  const parentById = new Map(
+    categories.map((category) => [category.id, category.parentId ?? null]),
+  );
+  for (const category of categories) {
+    const seen = new Set<number>([category.id]);
+    let parentId = parentById.get(category.id) ?? null;
+    while (parentId !== null) {
+      if (seen.has(parentId)) return true;
+      seen.add(parentId);
+      parentId = parentById.get(parentId) ?? null;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,342 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThanOrEqual, Not, Repository } from 'typeorm';
+import sharp from 'sharp';
+import { Ad, AdStatus } from './entities/ad.entity';
+import { AdImageHash } from './entities/ad-image-hash.entity';
+import { User, UserRole } from '../users/entities/user.entity';
+import {
+  AdScreeningInput,
+  ModerationFinding,
+  ModerationRule,
+  ReviewScreeningInput,
+  createBannedTermsRule,
+  createContactDetailsRule,
+} from './moderation-rules.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ads scoring below this from a trusted merchant skip the human queue.
+const AUTO_APPROVE_MAX_SCORE = 20;
+// Ads scoring at or above this are flagged with their reasons for moderators.
+const FLAG_MIN_SCORE = 50;
+// Reviews scoring at or above this are hidden until a moderator releases them.
+const REVIEW_HOLD_MIN_SCORE = 40;
+
+const TRUSTED_REJECTION_LOOKBACK_DAYS = 30;
+const PRICE_SAMPLE_SIZE = 200;
+const PRICE_MIN_SAMPLES = 5;
+const PRICE_OUTLIER_FACTOR = 5;
+
+export type ModerationRisk = 'low' | 'medium' | 'high';
+
+export type ModerationVerdict = {
+  score: number;
+  risk: ModerationRisk;
+  findings: ModerationFinding[];
+};
+
+export type ReviewModerationVerdict = ModerationVerdict & { hold: boolean };
+
+@Injectable()
+export class ContentModerationService {
+  private readonly logger = new Logger(ContentModerationService.name);
+  private readonly adRules: ModerationRule<AdScreeningInput>[];
+  private readonly reviewRules: ModerationRule<ReviewScreeningInput>[];
+
+  constructor(
+    @InjectRepository(Ad)
+    private readonly adRepo: Repository<Ad>,
+    @InjectRepository(AdImageHash)
+    private readonly imageHashRepo: Repository<AdImageHash>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+  ) {
+    this.adRules = [
+      createBannedTermsRule(
+        (input: AdScreeningInput) =>
+          `${input.name}\n${input.description ?? ''}`,
+      ),
+      createContactDetailsRule(
+        (input: AdScreeningInput) => input.description ?? '',
+        'description',
+      ),
+      {
+        name: 'duplicate_images',
+        evaluate: (input) => this.findDuplicateImages(input),
+      },
+      {
+        name: 'price_outlier',
+        evaluate: (input) => this.findPriceOutlier(input),
+      },
+    ];
+    this.reviewRules = [
+      createBannedTermsRule((input: ReviewScreeningInput) => input.comment),
+      createContactDetailsRule(
+        (input: ReviewScreeningInput) => input.comment,
+        'review',
+      ),
+    ];
+  }
+
+  registerAdRule(rule: ModerationRule<AdScreeningInput>) {
+    this.adRules.push(rule);
+  }
+
+  registerReviewRule(rule: ModerationRule<ReviewScreeningInput>) {
+    this.reviewRules.push(rule);
+  }
+
+  async screenAd(input: AdScreeningInput): Promise<ModerationVerdict> {
+    const findings = await this.runRules(this.adRules, input);
+    const score = this.sumScores(findings);
+    const risk: ModerationRisk =
+      score >= FLAG_MIN_SCORE
+        ? 'high'
+        : score < AUTO_APPROVE_MAX_SCORE
+          ? 'low'
+          : 'medium';
+    return { score, risk, findings };
+  }
+
+  /** `hold` is set when the review should wait for a moderator. */
+  async screenReview(comment: string): Promise<ReviewModerationVerdict> {
+    const findings = await this.runRules(this.reviewRules, { comment });
+    const score = this.sumScores(findings);
+    const hold = score >= REVIEW_HOLD_MIN_SCORE;
+    return { score, risk: hold ? 'high' : 'low', findings, hold };
+  }
+
+  formatModerationNote(verdict: ModerationVerdict) {
+    return `Auto-screen flagged: ${verdict.findings
+      .map((finding) => finding.reason)
+      .join('; ')}`;
+  }
+
+  /**
+   * Verified merchants in good standing, with nothing rejected recently, can
+   * have low-risk ads published without waiting for a moderator.
+   */
+  async isTrustedMerchant(merchantId: number | null) {
+    if (!merchantId) return false;
+
+    const merchant = await this.userRepo.findOne({
+      where: { id: merchantId, role: UserRole.MERCHANT },
+      select: { id: true, isBanned: true, verifiedAt: true },
+    });
+    if (!merchant || merchant.isBanned || !merchant.verifiedAt) {
+      return false;
+    }
+
+    const recentlyRejected = await this.adRepo.exists({
+      where: {
+        merchantId,
+        status: AdStatus.REJECTED,
+        updatedAt: MoreThanOrEqual(
+          new Date(Date.now() - TRUSTED_REJECTION_LOOKBACK_DAYS * DAY_MS),
+        ),
+      },
+    });
+    return !recentlyRejected;
+  }
+
+  /**
+   * 64-bit difference hash per image, which survives re-encoding and
+   * resizing. Unreadable images get `null` so positions stay aligned.
+   */
+  async hashImages(imageBuffers: Buffer[]) {
+    const hashes: Array<string | null> = [];
+    for (const imageBuffer of imageBuffers) {
+      try {
+        hashes.push(await this.hashImage(imageBuffer));
+      } catch (error) {
+        this.logger.warn(`Failed to hash image: ${(error as Error).message}`);
+        hashes.push(null);
+      }
+    }
+    return hashes;
+  }
+
+  getImageHashes(adId: number) {
+    return this.imageHashRepo.find({
+      where: { adId },
+      select: { id: true, imageUrl: true, hash: true },
+    });
+  }
+
+  /** Replaces the stored hashes of an ad with the given image/hash pairs. */
+  async saveImageHashes(
+    adId: number,
+    images: Array<{ imageUrl: string; hash: string }>,
+  ) {
+    try {
+      await this.imageHashRepo.delete({ adId });
+      if (images.length > 0) {
+        await this.imageHashRepo.insert(
+          images.map((image) => ({ adId, ...image })),
+        );
+      }
+    } catch (error) {
+      // Hashes only feed the pre-screen; a failure must not block ad edits.
+      this.logger.warn(
+        `Failed to store image hashes for ad ${adId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async hashImage(imageBuffer: Buffer) {
+    const pixels = await sharp(imageBuffer)
+      .rotate()
+      .grayscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hash = '';
+    for (let row = 0; row < 8; row += 1) {
+      let byte = 0;
+      for (let col = 0; col < 8; col += 1) {
+        const index = row * 9 + col;
+        byte = (byte << 1) | (pixels[index] < pixels[index + 1] ? 1 : 0);
+      }
+      hash += byte.toString(16).padStart(2, '0');
+    }
+    return hash;
+  }
+
+  private async runRules<TInput>(
+    rules: ModerationRule<TInput>[],
+    input: TInput,
+  ) {
+    const findings: ModerationFinding[] = [];
+    for (const rule of rules) {
+      try {
+        findings.push(...(await rule.evaluate(input)));
+      } catch (error) {
+        // A broken rule sends content to the normal human queue instead of
+        // failing the submission.
+        this.logger.warn(
+          `Moderation rule ${rule.name} failed: ${(error as Error).message}`,
+        );
+      }
+    }
+    return findings;
+  }
+
+  private sumScores(findings: ModerationFinding[]) {
+    return findings.reduce((total, finding) => total + finding.score, 0);
+  }
+
+  private async findDuplicateImages(
+    input: AdScreeningInput,
+  ): Promise<ModerationFinding[]> {
+    const hashes = [...new Set(input.imageHashes)];
+    if (hashes.length === 0) return [];
+
+    const query = this.imageHashRepo
+      .createQueryBuilder('imageHash')
+      .innerJoin('imageHash.ad', 'ad')
+      .select('imageHash.adId', 'adId')
+      .addSelect('ad.merchantId', 'merchantId')
+      .where('imageHash.hash IN (:...hashes)', { hashes })
+      .andWhere('ad.status != :rejected', { rejected: AdStatus.REJECTED });
+    if (input.adId) {
+      query.andWhere('imageHash.adId != :adId', { adId: input.adId });
+    }
+
+    const matches = await query
+      .groupBy('imageHash.adId')
+      .addGroupBy('ad.merchantId')
+      .limit(10)
+      .getRawMany<{
+        adId: string | number;
+        merchantId: string | number | null;
+      }>();
+
+    const otherSellerAdIds: number[] = [];
+    const ownAdIds: number[] = [];
+    for (const match of matches) {
+      const adId = Number(match.adId);
+      const isOwn =
+        input.merchantId !== null &&
+        match.merchantId !== null &&
+        Number(match.merchantId) === input.merchantId;
+      (isOwn ? ownAdIds : otherSellerAdIds).push(adId);
+    }
+
+    const findings: ModerationFinding[] = [];
+    if (otherSellerAdIds.length > 0) {
+      findings.push({
+        rule: 'duplicate_images',
+        score: 60,
+        reason: `Photos match another seller's ad (${this.formatAdIds(otherSellerAdIds)})`,
+      });
+    }
+    if (ownAdIds.length > 0) {
+      findings.push({
+        rule: 'duplicate_images',
+        score: 20,
+        reason: `Photos reused from the merchant's ad (${this.formatAdIds(ownAdIds)})`,
+      });
+    }
+    return findings;
+  }
+
+  private async findPriceOutlier(
+    input: AdScreeningInput,
+  ): Promise<ModerationFinding[]> {
+    const price = Number(input.price);
+    // A zero price is how merchants list "call for price".
+    if (!input.categoryId || !Number.isFinite(price) || price <= 0) {
+      return [];
+    }
+
+    const samples = await this.adRepo.find({
+      where: {
+        categoryId: input.categoryId,
+        status: AdStatus.APPROVED,
+        price: MoreThanOrEqual(0.01),
+        ...(input.adId ? { id: Not(input.adId) } : {}),
+      },
+      select: { id: true, price: true },
+      order: { approvedAt: 'DESC' },
+      take: PRICE_SAMPLE_SIZE,
+    });
+    if (samples.length < PRICE_MIN_SAMPLES) return [];
+
+    const median = this.median(samples.map((sample) => Number(sample.price)));
+    if (median <= 0) return [];
+
+    if (price * PRICE_OUTLIER_FACTOR < median) {
+      return [
+        {
+          rule: 'price_outlier',
+          score: 30,
+          reason: `Price is far below the category median of ${median.toLocaleString('en-US')} Birr`,
+        },
+      ];
+    }
+    if (price > median * PRICE_OUTLIER_FACTOR) {
+      return [
+        {
+          rule: 'price_outlier',
+          score: 30,
+          reason: `Price is far above the category median of ${median.toLocaleString('en-US')} Birr`,
+        },
+      ];
+    }
+    return [];
+  }
+
+  private median(values: number[]) {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+      ? (sorted[middle - 1] + sorted[middle]) / 2
+      : sorted[middle];
+  }
+
+  private formatAdIds(adIds: number[]) {
+    return adIds.map((adId) => `#${adId}`).join(', ');
+  }
+}
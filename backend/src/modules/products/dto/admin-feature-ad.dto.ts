@@ -0,0 +1,12 @@
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class AdminFeatureAdDto {
+  @IsBoolean()
+  isFeatured: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  days?: number;
+}
@@ -9,8 +9,17 @@ import {
   MinLength,
 } from 'class-validator';
 
+// Multipart reviews (with photos) send every field as a string.
+function toOptionalInt(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return Number(value);
+  return undefined;
+}
+
 export class CreateAdCommentDto {
   @IsOptional()
+  @Transform(({ value }: { value: unknown }) => toOptionalInt(value))
   @IsInt()
   @Min(1)
   @Max(5)
@@ -28,6 +37,7 @@ export class CreateAdCommentDto {
   comment?: string;
 
   @IsOptional()
+  @Transform(({ value }: { value: unknown }) => toOptionalInt(value))
   @IsInt()
   @Min(1)
   parentId?: number;
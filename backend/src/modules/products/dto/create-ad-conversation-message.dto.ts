@@ -0,0 +1,13 @@
+import { Transform } from 'class-transformer';
+import { IsString, MaxLength, MinLength } from 'class-validator';
+
+export class CreateAdConversationMessageDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(2000)
+  @Transform(({ value }) => {
+    if (typeof value !== 'string') return undefined;
+    return value.trim();
+  })
+  message: string;
+}
@@ -0,0 +1,16 @@
+import { Transform } from 'class-transformer';
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { AdReportReason } from '../entities/ad-report.entity';
+
+export class CreateAdReportDto {
+  @IsEnum(AdReportReason)
+  reason: AdReportReason;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() || undefined : value,
+  )
+  details?: string;
+}
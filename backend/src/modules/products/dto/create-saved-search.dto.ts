@@ -0,0 +1,53 @@
+import { Transform } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+function toTrimmedStringOrUndefined(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+export class CreateSavedSearchDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(80)
+  @Transform(({ value }) => toTrimmedStringOrUndefined(value))
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  @Transform(({ value }) => toTrimmedStringOrUndefined(value))
+  query?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  categoryIds?: number[];
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minPrice?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxPrice?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  alertsEnabled?: boolean;
+}
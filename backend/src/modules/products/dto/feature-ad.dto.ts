@@ -0,0 +1,8 @@
+import { IsInt, Max, Min } from 'class-validator';
+
+export class FeatureAdDto {
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  days: number;
+}
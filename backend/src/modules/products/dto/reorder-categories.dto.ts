@@ -0,0 +1,34 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class CategoryPositionDto {
+  @IsInt()
+  @Min(1)
+  id: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  parentId?: number | null;
+
+  @IsInt()
+  @Min(0)
+  sortOrder: number;
+}
+
+export class ReorderCategoriesDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(1000)
+  @ValidateNested({ each: true })
+  @Type(() => CategoryPositionDto)
+  items: CategoryPositionDto[];
+}
@@ -0,0 +1,47 @@
+import { Transform } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { AdReportTargetType } from '../entities/ad-report.entity';
+
+export enum AdReportResolutionAction {
+  REMOVE_COMMENT = 'REMOVE_COMMENT',
+  REJECT_AD = 'REJECT_AD',
+  BAN_USER = 'BAN_USER',
+}
+
+export class DismissAdReportDto {
+  @IsEnum(AdReportTargetType)
+  targetType: AdReportTargetType;
+
+  @IsInt()
+  @Min(1)
+  adId: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  commentId?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() || undefined : value,
+  )
+  note?: string;
+}
+
+export class ResolveAdReportDto extends DismissAdReportDto {
+  @IsArray()
+  @ArrayMaxSize(3)
+  @IsEnum(AdReportResolutionAction, { each: true })
+  actions: AdReportResolutionAction[];
+}
@@ -0,0 +1,18 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class UpdateSavedSearchDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(80)
+  @Transform(({ value }) => {
+    if (typeof value !== 'string') return undefined;
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  })
+  name?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  alertsEnabled?: boolean;
+}
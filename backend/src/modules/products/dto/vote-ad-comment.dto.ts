@@ -0,0 +1,6 @@
+import { IsBoolean } from 'class-validator';
+
+export class VoteAdCommentDto {
+  @IsBoolean()
+  helpful: boolean;
+}
@@ -0,0 +1,28 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+import { AdComment } from './ad-comment.entity';
+import { User } from '../../users/entities/user.entity';
+
+@Entity('ad_comment_votes')
+@Index('uq_ad_comment_votes_user_comment', ['userId', 'commentId'], {
+  unique: true,
+})
+export class AdCommentVote extends AbstractEntity {
+  @ManyToOne(() => AdComment, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'commentId' })
+  comment: AdComment;
+
+  @Index('idx_ad_comment_votes_commentId')
+  @Column({ type: 'int' })
+  commentId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'int' })
+  userId: number;
+
+  @Column()
+  isHelpful: boolean;
+}
@@ -48,6 +48,10 @@ export class AdComment extends AbstractEntity {
   @Column({ type: 'text', nullable: true })
   comment: string | null;
 
+  // Photos are only allowed on top-level reviews.
+  @Column({ type: 'simple-json', nullable: true })
+  imageUrls: string[] | null;
+
   @Column({ type: 'tinyint', unsigned: true, default: 0 })
   depth: number;
 
@@ -56,4 +60,12 @@ export class AdComment extends AbstractEntity {
 
   @Column({ type: 'datetime', nullable: true })
   editedAt: Date | null;
+
+  // Set by the moderation pre-screen; held comments are only shown to their
+  // author and to moderators until released.
+  @Column({ default: false })
+  isHeld: boolean;
+
+  @Column({ type: 'text', nullable: true })
+  moderationNote: string | null;
 }
@@ -0,0 +1,31 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+import { User } from '../../users/entities/user.entity';
+import { AdConversation } from './ad-conversation.entity';
+
+@Entity('ad_conversation_messages')
+@Index('idx_ad_conversation_messages_conversation_createdAt', [
+  'conversationId',
+  'createdAt',
+])
+export class AdConversationMessage extends AbstractEntity {
+  @ManyToOne(() => AdConversation, (conversation) => conversation.messages, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'conversationId' })
+  conversation: AdConversation;
+
+  @Column({ type: 'int' })
+  conversationId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'senderId' })
+  sender: User;
+
+  @Index('idx_ad_conversation_messages_senderId')
+  @Column({ type: 'int' })
+  senderId: number;
+
+  @Column({ type: 'text' })
+  body: string;
+}
@@ -0,0 +1,52 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+import { Ad } from './ad.entity';
+import { User } from '../../users/entities/user.entity';
+import { AdConversationMessage } from './ad-conversation-message.entity';
+
+@Entity('ad_conversations')
+@Index('uq_ad_conversations_ad_buyer', ['adId', 'buyerId'], { unique: true })
+export class AdConversation extends AbstractEntity {
+  @ManyToOne(() => Ad, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'adId' })
+  ad: Ad;
+
+  @Index('idx_ad_conversations_adId')
+  @Column({ type: 'int' })
+  adId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'buyerId' })
+  buyer: User;
+
+  @Index('idx_ad_conversations_buyerId')
+  @Column({ type: 'int' })
+  buyerId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'sellerId' })
+  seller: User;
+
+  @Index('idx_ad_conversations_sellerId')
+  @Column({ type: 'int' })
+  sellerId: number;
+
+  @Column({ type: 'datetime', precision: 6, nullable: true })
+  lastMessageAt: Date | null;
+
+  @Column({ type: 'datetime', precision: 6, nullable: true })
+  buyerLastReadAt: Date | null;
+
+  @Column({ type: 'datetime', precision: 6, nullable: true })
+  sellerLastReadAt: Date | null;
+
+  @OneToMany(() => AdConversationMessage, (message) => message.conversation)
+  messages: AdConversationMessage[];
+}
@@ -0,0 +1,23 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+import { Ad } from './ad.entity';
+import { User } from '../../users/entities/user.entity';
+
+@Entity('ad_favorites')
+@Index('uq_ad_favorites_user_ad', ['userId', 'adId'], { unique: true })
+export class AdFavorite extends AbstractEntity {
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'int' })
+  userId: number;
+
+  @ManyToOne(() => Ad, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'adId' })
+  ad: Ad;
+
+  @Index('idx_ad_favorites_adId')
+  @Column({ type: 'int' })
+  adId: number;
+}
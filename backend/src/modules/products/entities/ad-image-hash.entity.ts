@@ -0,0 +1,23 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+import { Ad } from './ad.entity';
+
+// Perceptual hash per ad photo, used by the moderation pre-screen to spot
+// the same picture being listed again.
+@Entity('ad_image_hashes')
+export class AdImageHash extends AbstractEntity {
+  @ManyToOne(() => Ad, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'adId' })
+  ad: Ad;
+
+  @Index('idx_ad_image_hashes_adId')
+  @Column({ type: 'int' })
+  adId: number;
+
+  @Column({ type: 'varchar', length: 512 })
+  imageUrl: string;
+
+  @Index('idx_ad_image_hashes_hash')
+  @Column({ type: 'char', length: 16 })
+  hash: string;
+}
@@ -0,0 +1,86 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+import { Ad } from './ad.entity';
+import { User } from '../../users/entities/user.entity';
+
+export enum AdReportTargetType {
+  AD = 'AD',
+  COMMENT = 'COMMENT',
+}
+
+export enum AdReportReason {
+  SCAM = 'SCAM',
+  SPAM = 'SPAM',
+  OFFENSIVE = 'OFFENSIVE',
+  PROHIBITED_ITEM = 'PROHIBITED_ITEM',
+  MISLEADING = 'MISLEADING',
+  OTHER = 'OTHER',
+}
+
+export enum AdReportStatus {
+  OPEN = 'OPEN',
+  RESOLVED = 'RESOLVED',
+  DISMISSED = 'DISMISSED',
+}
+
+@Entity('ad_reports')
+@Index('uq_ad_reports_reporter_target', ['reporterUserId', 'targetKey'], {
+  unique: true,
+})
+@Index('idx_ad_reports_status_targetKey', ['status', 'targetKey'])
+export class AdReport extends AbstractEntity {
+  @Column({ type: 'enum', enum: AdReportTargetType })
+  targetType: AdReportTargetType;
+
+  /** `ad:<id>` or `comment:<id>`; groups duplicate reports of one item. */
+  @Column({ type: 'varchar', length: 40 })
+  targetKey: string;
+
+  @ManyToOne(() => Ad, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'adId' })
+  ad: Ad;
+
+  @Index('idx_ad_reports_adId')
+  @Column({ type: 'int' })
+  adId: number;
+
+  // No foreign key: reports outlive the comment when a moderator removes it.
+  @Column({ type: 'int', nullable: true })
+  commentId: number | null;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'reporterUserId' })
+  reporter: User;
+
+  @Column({ type: 'int' })
+  reporterUserId: number;
+
+  @Column({ type: 'enum', enum: AdReportReason })
+  reason: AdReportReason;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  details: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: AdReportStatus,
+    default: AdReportStatus.OPEN,
+  })
+  status: AdReportStatus;
+
+  @Column({ type: 'simple-json', nullable: true })
+  resolutionActions: string[] | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  resolutionNote: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'resolvedById' })
+  resolvedBy: User | null;
+
+  @Column({ type: 'int', nullable: true })
+  resolvedById: number | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  resolvedAt: Date | null;
+}
@@ -44,10 +44,20 @@ export class Ad extends AbstractEntity {
   @Column({ type: 'simple-json', nullable: true })
   itemDetails?: Record<string, unknown> | null;
 
-  // Reserved for future paid pinning.
+  // Normalized name, description, item details and category name used by
+  // catalog search. Maintained by AdsService; not returned to clients.
+  @Index('ftx_ads_searchText', { fulltext: true, parser: 'ngram' })
+  @Column({ type: 'text', nullable: true, select: false })
+  searchText?: string | null;
+
+  // Pinned to the top of the catalog until featuredUntil.
   @Column({ default: false })
   isFeatured: boolean;
 
+  @Index('idx_ads_featuredUntil')
+  @Column({ type: 'datetime', nullable: true })
+  featuredUntil: Date | null;
+
   @Column({ type: 'text', nullable: true })
   moderationNote: string | null;
 
@@ -62,6 +72,16 @@ export class Ad extends AbstractEntity {
   @Column({ type: 'datetime', nullable: true })
   approvedAt: Date | null;
 
+  @Index('idx_ads_expiresAt')
+  @Column({ type: 'datetime', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  expiryReminderSentAt: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  archivedAt: Date | null;
+
   @ManyToOne(() => Category, (category) => category.ads, {
     nullable: true,
   })
@@ -1,4 +1,11 @@
-import { Entity, Column, OneToMany } from 'typeorm';
+import {
+  Entity,
+  Column,
+  OneToMany,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
 import { AbstractEntity } from '../../../common/entities/abstract.entity';
 import { Ad } from './ad.entity';
 
@@ -11,6 +18,7 @@ export type CategoryDynamicField = {
 };
 
 @Entity('categories')
+@Index('idx_categories_parent_sort', ['parentId', 'sortOrder'])
 export class Category extends AbstractEntity {
   @Column()
   name: string;
@@ -24,6 +32,27 @@ export class Category extends AbstractEntity {
   @Column({ type: 'simple-json', nullable: true })
   dynamicFields?: CategoryDynamicField[] | null;
 
+  // Days an approved ad stays listed; null falls back to AD_DEFAULT_LIFETIME_DAYS.
+  @Column({ type: 'int', nullable: true })
+  defaultAdLifetimeDays?: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  parentId?: number | null;
+
+  @ManyToOne(() => Category, (category) => category.children, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'parentId' })
+  parent?: Category | null;
+
+  @OneToMany(() => Category, (category) => category.parent)
+  children?: Category[];
+
+  // Position among siblings; lower values are listed first.
+  @Column({ type: 'int', default: 0 })
+  sortOrder: number;
+
   @OneToMany(() => Ad, (ad) => ad.category)
   ads: Ad[];
 }
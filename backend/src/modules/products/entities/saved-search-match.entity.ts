@@ -0,0 +1,32 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+import { Ad } from './ad.entity';
+import { SavedSearch } from './saved-search.entity';
+
+@Entity('saved_search_matches')
+@Index('uq_saved_search_matches_search_ad', ['savedSearchId', 'adId'], {
+  unique: true,
+})
+@Index('idx_saved_search_matches_notifiedAt_userId', ['notifiedAt', 'userId'])
+export class SavedSearchMatch extends AbstractEntity {
+  @ManyToOne(() => SavedSearch, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'savedSearchId' })
+  savedSearch: SavedSearch;
+
+  @Column({ type: 'int' })
+  savedSearchId: number;
+
+  @ManyToOne(() => Ad, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'adId' })
+  ad: Ad;
+
+  @Index('idx_saved_search_matches_adId')
+  @Column({ type: 'int' })
+  adId: number;
+
+  @Column({ type: 'int' })
+  userId: number;
+
+  @Column({ type: 'datetime', nullable: true })
+  notifiedAt: Date | null;
+}
@@ -0,0 +1,36 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+import { AbstractEntity } from '../../../common/entities/abstract.entity';
+import { User } from '../../users/entities/user.entity';
+
+@Entity('saved_searches')
+export class SavedSearch extends AbstractEntity {
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Index('idx_saved_searches_userId')
+  @Column({ type: 'int' })
+  userId: number;
+
+  @Column({ type: 'varchar', length: 80 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  query: string | null;
+
+  @Column({ type: 'simple-json', nullable: true })
+  categoryIds: number[] | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  minPrice: number | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  maxPrice: number | null;
+
+  @Index('idx_saved_searches_alertsEnabled')
+  @Column({ default: true })
+  alertsEnabled: boolean;
+
+  @Column({ type: 'datetime', nullable: true })
+  lastNotifiedAt: Date | null;
+}
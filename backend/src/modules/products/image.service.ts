@@ -14,17 +14,22 @@ export class ImageService {
     fs.ensureDirSync(this.uploadPath);
   }
 
-  async optimizeAndSave(fileBuffer: Buffer): Promise<string> {
-    const filename = `${uuidv4()}.webp`;
-    const fullPath = path.join(this.uploadPath, filename);
-
-    await sharp(fileBuffer)
-      .resize(800, 800, {
+  /** Resizes and re-encodes an upload to webp without writing it anywhere. */
+  async optimize(fileBuffer: Buffer, maxSize = 800): Promise<Buffer> {
+    return sharp(fileBuffer)
+      .resize(maxSize, maxSize, {
         fit: 'inside',
         withoutEnlargement: true,
       })
       .webp({ quality: 80 })
-      .toFile(fullPath);
+      .toBuffer();
+  }
+
+  async optimizeAndSave(fileBuffer: Buffer): Promise<string> {
+    const filename = `${uuidv4()}.webp`;
+    const fullPath = path.join(this.uploadPath, filename);
+
+    await fs.writeFile(fullPath, await this.optimize(fileBuffer));
 
     return `/uploads/ads/${filename}`;
   }
@@ -0,0 +1,249 @@
+import type { CategoryDynamicField } from './entities/category.entity';
+
+export type ItemDetailsValue = string | number | boolean;
+
+export type ItemDetailsValidationResult = {
+  value: Record<string, ItemDetailsValue> | null;
+  errors: string[];
+};
+
+const MAX_TEXT_VALUE_LENGTH = 500;
+const TRUE_VALUES = new Set(['true', 'yes', '1', 'on']);
+const FALSE_VALUES = new Set(['false', 'no', '0', 'off']);
+
+function isBlank(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '')
+  );
+}
+
+function coerceNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  // Sellers often type thousands separators ("1,200") or spaces.
+  const normalized = value.trim().replace(/[\s,]/g, '');
+  if (!/^-?\d+(\.\d+)?$/.test(normalized)) return null;
+  const parsed = Number(normalized);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function coerceBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') {
+    return value === 1 ? true : value === 0 ? false : null;
+  }
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_VALUES.has(normalized)) return true;
+  if (FALSE_VALUES.has(normalized)) return false;
+  return null;
+}
+
+function coerceSelect(field: CategoryDynamicField, value: unknown) {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const normalized = String(value).trim().toLowerCase();
+  return (
+    (field.options ?? []).find(
+      (option) => option.trim().toLowerCase() === normalized,
+    ) ?? null
+  );
+}
+
+function coerceFieldValue(
+  field: CategoryDynamicField,
+  value: unknown,
+): { value: ItemDetailsValue } | { error: string } {
+  const label = field.label || field.key;
+
+  switch (field.type) {
+    case 'number': {
+      const parsed = coerceNumber(value);
+      return parsed === null
+        ? { error: `${label} must be a number` }
+        : { value: parsed };
+    }
+    case 'boolean': {
+      const parsed = coerceBoolean(value);
+      return parsed === null
+        ? { error: `${label} must be yes or no` }
+        : { value: parsed };
+    }
+    case 'select': {
+      const option = coerceSelect(field, value);
+      return option === null
+        ? {
+            error: `${label} must be one of: ${(field.options ?? []).join(', ')}`,
+          }
+        : { value: option };
+    }
+    default: {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        return { error: `${label} must be text` };
+      }
+      const text = String(value).trim();
+      return text.length > MAX_TEXT_VALUE_LENGTH
+        ? {
+            error: `${label} must be at most ${MAX_TEXT_VALUE_LENGTH} characters`,
+          }
+        : { value: text };
+    }
+  }
+}
+
+/**
+ * Checks item details against a category's dynamic fields and returns the
+ * coerced values keyed by the canonical field key. Blank optional values are
+ * dropped; keys the category does not declare are reported as errors.
+ */
+export function validateItemDetails(
+  fields: CategoryDynamicField[] | null | undefined,
+  details: Record<string, unknown> | null | undefined,
+): ItemDetailsValidationResult {
+  const schema = fields ?? [];
+  const input = details ?? {};
+  const fieldByKey = new Map(
+    schema.map((field) => [field.key.trim().toLowerCase(), field]),
+  );
+  const value: Record<string, ItemDetailsValue> = {};
+  const errors: string[] = [];
+  const invalidKeys = new Set<string>();
+
+  for (const [rawKey, rawValue] of Object.entries(input)) {
+    const normalizedKey = rawKey.trim().toLowerCase();
+    const field = fieldByKey.get(normalizedKey);
+    if (!field) {
+      errors.push(`Unknown item detail "${rawKey}"`);
+      continue;
+    }
+    if (isBlank(rawValue)) continue;
+
+    const result = coerceFieldValue(field, rawValue);
+    if ('error' in result) {
+      invalidKeys.add(field.key);
+      errors.push(result.error);
+    } else {
+      value[field.key] = result.value;
+    }
+  }
+
+  for (const field of schema) {
+    if (!field.required) continue;
+    if (field.key in value || invalidKeys.has(field.key)) continue;
+    errors.push(`${field.label || field.key} is required`);
+  }
+
+  return {
+    value: Object.keys(value).length > 0 ? value : null,
+    errors,
+  };
+}
+
+export type ItemDetailsFilter =
+  | { key: string; type: 'values'; values: Array<string | boolean> }
+  | { key: string; type: 'range'; min?: number; max?: number };
+
+export type ItemDetailsFilterParseResult = {
+  filters: ItemDetailsFilter[];
+  errors: string[];
+};
+
+function toFilterValueList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') return value.split('|');
+  return [value];
+}
+
+function parseRangeFilter(
+  field: CategoryDynamicField,
+  value: unknown,
+): Extract<ItemDetailsFilter, { type: 'range' }> | { error: string } {
+  const label = field.label || field.key;
+  const bounds =
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as { min?: unknown; max?: unknown })
+      : { min: value, max: value };
+
+  const min = isBlank(bounds.min) ? null : coerceNumber(bounds.min);
+  const max = isBlank(bounds.max) ? null : coerceNumber(bounds.max);
+  if (
+    (!isBlank(bounds.min) && min === null) ||
+    (!isBlank(bounds.max) && max === null)
+  ) {
+    return { error: `${label} range must be numeric` };
+  }
+
+  const [lower, upper] =
+    min !== null && max !== null && min > max ? [max, min] : [min, max];
+  return {
+    key: field.key,
+    type: 'range',
+    min: lower ?? undefined,
+    max: upper ?? undefined,
+  };
+}
+
+/**
+ * Turns catalog filter input such as `{ "year": { "min": 2015 },
+ * "storage": ["128GB", "256GB"] }` into filters keyed by the canonical field
+ * key. Select and boolean fields match any listed value; number fields take a
+ * `min`/`max` range. Text fields are not filterable.
+ */
+export function parseItemDetailsFilters(
+  fields: CategoryDynamicField[] | null | undefined,
+  raw: Record<string, unknown> | null | undefined,
+): ItemDetailsFilterParseResult {
+  const fieldByKey = new Map(
+    (fields ?? []).map((field) => [field.key.trim().toLowerCase(), field]),
+  );
+  const filters: ItemDetailsFilter[] = [];
+  const errors: string[] = [];
+
+  for (const [rawKey, rawValue] of Object.entries(raw ?? {})) {
+    const field = fieldByKey.get(rawKey.trim().toLowerCase());
+    if (!field) {
+      errors.push(`Unknown item detail "${rawKey}"`);
+      continue;
+    }
+    if (isBlank(rawValue)) continue;
+    const label = field.label || field.key;
+
+    if (field.type === 'number') {
+      const result = parseRangeFilter(field, rawValue);
+      if ('error' in result) {
+        errors.push(result.error);
+      } else if ((result.min ?? result.max) !== undefined) {
+        filters.push(result);
+      }
+      continue;
+    }
+
+    if (field.type !== 'select' && field.type !== 'boolean') {
+      errors.push(`${label} cannot be used as a filter`);
+      continue;
+    }
+
+    const values: Array<string | boolean> = [];
+    for (const entry of toFilterValueList(rawValue)) {
+      if (isBlank(entry)) continue;
+      const parsed =
+        field.type === 'boolean'
+          ? coerceBoolean(entry)
+          : coerceSelect(field, entry);
+      if (parsed === null) {
+        errors.push(`Invalid ${label} filter value "${String(entry)}"`);
+      } else if (!values.includes(parsed)) {
+        values.push(parsed);
+      }
+    }
+    if (values.length > 0) {
+      filters.push({ key: field.key, type: 'values', values });
+    }
+  }
+
+  return { filters, errors };
+}
@@ -0,0 +1,142 @@
+export type ModerationFinding = {
+  rule: string;
+  score: number;
+  reason: string;
+};
+
+export type AdScreeningInput = {
+  adId: number | null;
+  merchantId: number | null;
+  name: string;
+  description: string | null;
+  price: number;
+  categoryId: number | null;
+  imageHashes: string[];
+};
+
+export type ReviewScreeningInput = {
+  comment: string;
+};
+
+/**
+ * A single pre-screen check. Rules only report findings; the moderation
+ * service adds up the scores and decides what happens to the content.
+ */
+export interface ModerationRule<TInput> {
+  readonly name: string;
+  evaluate(input: TInput): ModerationFinding[] | Promise<ModerationFinding[]>;
+}
+
+// Kept short on purpose: every hit sends content to a human, so only terms
+// that are almost never legitimate on a classifieds board belong here.
+const BANNED_TERMS_EN = [
+  'counterfeit',
+  'replica',
+  'fake id',
+  'fake passport',
+  'cocaine',
+  'heroin',
+  'hashish',
+  'marijuana',
+  'firearm',
+  'ammunition',
+  // Bare "escort" and "pistol" also name cars, water pistols and spray guns.
+  'escort service',
+  'porn',
+  'wire money first',
+  'pay in advance',
+];
+
+const BANNED_TERMS_AM = [
+  'ሽጉጥ',
+  'ጠመንጃ',
+  'ጥይት',
+  'ሀሺሽ',
+  'ካናቢስ',
+  'አደንዛዥ ዕፅ',
+  'ሀሰተኛ መታወቂያ',
+  'ሀሰተኛ ፓስፖርት',
+  'ኮንትሮባንድ',
+  'ወሲብ',
+  'ቅድሚያ ክፍያ',
+];
+
+const ETHIOPIAN_PHONE_PATTERN =
+  /(?:\+?251|\b0)[\s.-]?[79](?:[\s.-]?\d){8}(?!\d)/;
+const LINK_PATTERN =
+  /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|et|me|io|info|biz|shop)\b(?:\/\S*)?/i;
+const TELEGRAM_HANDLE_PATTERN = /\bt\.me\/\S+|(?:^|\s)@[a-z0-9_]{5,32}\b/i;
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const BANNED_TERMS_EN_PATTERNS = BANNED_TERMS_EN.map((term) => ({
+  term,
+  pattern: new RegExp(`\\b${escapeRegExp(term)}s?\\b`, 'i'),
+}));
+
+/** Finds banned terms; Ge'ez script has no case or word boundaries to match on. */
+export function findBannedTerms(text: string) {
+  const normalized = text.replace(/\s+/g, ' ');
+  const english = BANNED_TERMS_EN_PATTERNS.filter(({ pattern }) =>
+    pattern.test(normalized),
+  ).map(({ term }) => term);
+  const amharic = BANNED_TERMS_AM.filter((term) => normalized.includes(term));
+  return [...english, ...amharic];
+}
+
+export function findContactDetails(text: string) {
+  const found: Array<'phone' | 'link' | 'telegram'> = [];
+  if (ETHIOPIAN_PHONE_PATTERN.test(text)) found.push('phone');
+  if (TELEGRAM_HANDLE_PATTERN.test(text)) found.push('telegram');
+  if (LINK_PATTERN.test(text.replace(/\bt\.me\/\S+/gi, ''))) {
+    found.push('link');
+  }
+  return found;
+}
+
+const CONTACT_REASONS = {
+  phone: 'Contains a phone number',
+  link: 'Contains a link',
+  telegram: 'Contains a Telegram handle or link',
+} as const;
+
+export function createBannedTermsRule<TInput>(
+  getText: (input: TInput) => string,
+): ModerationRule<TInput> {
+  return {
+    name: 'banned_terms',
+    evaluate(input) {
+      const terms = findBannedTerms(getText(input));
+      if (terms.length === 0) return [];
+      return [
+        {
+          rule: 'banned_terms',
+          score: 60,
+          reason: `Uses banned terms: ${terms.join(', ')}`,
+        },
+      ];
+    },
+  };
+}
+
+/**
+ * Contact details belong in the ad's phone field and in-app chat, so the
+ * same details typed into free text usually mean a deal moving off-platform.
+ */
+export function createContactDetailsRule<TInput>(
+  getText: (input: TInput) => string,
+  location: string,
+): ModerationRule<TInput> {
+  return {
+    name: 'contact_details',
+    evaluate(input) {
+      return findContactDetails(getText(input)).map((kind) => ({
+        rule: 'contact_details',
+        score: 40,
+        reason: `${CONTACT_REASONS[kind]} in the ${location}`,
+      }));
+    },
+  };
+}
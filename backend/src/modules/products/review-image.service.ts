@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ImageService } from './image.service';
+
+@Injectable()
+export class ReviewImageService {
+  private readonly uploadPath = path.join(process.cwd(), 'uploads', 'reviews');
+
+  constructor(private readonly imageService: ImageService) {
+    fs.ensureDirSync(this.uploadPath);
+  }
+
+  async optimizeAndSaveMany(fileBuffers: Buffer[]): Promise<string[]> {
+    const savedPaths: string[] = [];
+    try {
+      for (const fileBuffer of fileBuffers) {
+        const filename = `${uuidv4()}.webp`;
+        await fs.writeFile(
+          path.join(this.uploadPath, filename),
+          await this.imageService.optimize(fileBuffer),
+        );
+        savedPaths.push(`/uploads/reviews/${filename}`);
+      }
+    } catch (error) {
+      // Don't leave half of a review's photos behind when one fails.
+      await this.deleteImages(savedPaths);
+      throw error;
+    }
+    return savedPaths;
+  }
+
+  async deleteImages(relativePaths: string[]): Promise<void> {
+    for (const relativePath of new Set(relativePaths)) {
+      if (!relativePath.startsWith('/uploads/reviews/')) continue;
+      const fullPath = path.join(process.cwd(), relativePath);
+      if (await fs.pathExists(fullPath)) {
+        await fs.remove(fullPath);
+      }
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { type FastifyRequest } from 'fastify';
+import { SavedSearchesService } from './saved-searches.service';
+import { CreateSavedSearchDto } from './dto/create-saved-search.dto';
+import { UpdateSavedSearchDto } from './dto/update-saved-search.dto';
+import { UserRole } from '../users/entities/user.entity';
+
+type AuthenticatedRequest = FastifyRequest & {
+  user: {
+    userId: number;
+    role: UserRole;
+  };
+};
+
+@Controller('saved-searches')
+@UseGuards(AuthGuard('jwt'))
+export class SavedSearchesController {
+  constructor(private readonly savedSearchesService: SavedSearchesService) {}
+
+  @Get()
+  async list(@Req() req: AuthenticatedRequest) {
+    return this.savedSearchesService.listForUser(req.user.userId);
+  }
+
+  @Post()
+  async create(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreateSavedSearchDto,
+  ) {
+    return this.savedSearchesService.create(req.user.userId, dto);
+  }
+
+  @Patch(':id')
+  async update(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateSavedSearchDto,
+  ) {
+    return this.savedSearchesService.update(id, req.user.userId, dto);
+  }
+
+  @Delete(':id')
+  async remove(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.savedSearchesService.remove(id, req.user.userId);
+  }
+}
@@ -0,0 +1,320 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import { Ad, AdStatus } from './entities/ad.entity';
+import { Category } from './entities/category.entity';
+import { SavedSearch } from './entities/saved-search.entity';
+import { SavedSearchMatch } from './entities/saved-search-match.entity';
+import { CreateSavedSearchDto } from './dto/create-saved-search.dto';
+import { UpdateSavedSearchDto } from './dto/update-saved-search.dto';
+import { User } from '../users/entities/user.entity';
+import { BotService } from '../bot/bot.service';
+import { buildAdSearchDocument, extractSearchTerms } from './ad-search.util';
+import { collectAncestorIds } from './category-tree.util';
+
+const MAX_SAVED_SEARCHES_PER_USER = 20;
+const DIGEST_USERS_PER_TICK = 100;
+const DIGEST_ADS_PER_SEARCH = 5;
+
+@Injectable()
+export class SavedSearchesService {
+  private readonly logger = new Logger(SavedSearchesService.name);
+  private digestInFlight = false;
+
+  constructor(
+    @InjectRepository(SavedSearch)
+    private readonly savedSearchRepo: Repository<SavedSearch>,
+    @InjectRepository(SavedSearchMatch)
+    private readonly matchRepo: Repository<SavedSearchMatch>,
+    @InjectRepository(Category)
+    private readonly categoryRepo: Repository<Category>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    private readonly botService: BotService,
+  ) {}
+
+  async listForUser(userId: number) {
+    const searches = await this.savedSearchRepo.find({
+      where: { userId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+    });
+    return { data: searches.map((search) => this.toResponse(search)) };
+  }
+
+  async create(userId: number, dto: CreateSavedSearchDto) {
+    const query = dto.query ?? null;
+    const categoryIds = dto.categoryIds?.length
+      ? [...new Set(dto.categoryIds)]
+      : null;
+    const minPrice = dto.minPrice ?? null;
+    const maxPrice = dto.maxPrice ?? null;
+
+    if (!query && !categoryIds && minPrice === null && maxPrice === null) {
+      throw new BadRequestException(
+        'Add a search term, category or price range before saving',
+      );
+    }
+    if (minPrice !== null && maxPrice !== null && minPrice > maxPrice) {
+      throw new BadRequestException('minPrice cannot exceed maxPrice');
+    }
+
+    const existingCount = await this.savedSearchRepo.count({
+      where: { userId },
+    });
+    if (existingCount >= MAX_SAVED_SEARCHES_PER_USER) {
+      throw new BadRequestException(
+        `You can keep up to ${MAX_SAVED_SEARCHES_PER_USER} saved searches`,
+      );
+    }
+
+    const saved = await this.savedSearchRepo.save(
+      this.savedSearchRepo.create({
+        userId,
+        name: dto.name ?? (await this.buildDefaultName(query, categoryIds)),
+        query,
+        categoryIds,
+        minPrice,
+        maxPrice,
+        alertsEnabled: dto.alertsEnabled ?? true,
+        lastNotifiedAt: null,
+      }),
+    );
+    return this.toResponse(saved);
+  }
+
+  async update(id: number, userId: number, dto: UpdateSavedSearchDto) {
+    const search = await this.findOwned(id, userId);
+    if (dto.name !== undefined) search.name = dto.name;
+    if (dto.alertsEnabled !== undefined) {
+      search.alertsEnabled = dto.alertsEnabled;
+    }
+    return this.toResponse(await this.savedSearchRepo.save(search));
+  }
+
+  async remove(id: number, userId: number) {
+    const search = await this.findOwned(id, userId);
+    await this.savedSearchRepo.remove(search);
+    return { success: true };
+  }
+
+  /**
+   * Records which saved searches a freshly approved ad satisfies. Delivery
+   * happens later in the digest cron so several matches share one message.
+   */
+  async queueMatchesForApprovedAd(ad: Ad): Promise<number> {
+    const price = Number(ad.price);
+    const qb = this.savedSearchRepo
+      .createQueryBuilder('search')
+      .innerJoin('search.user', 'user')
+      .where('search.alertsEnabled = :enabled', { enabled: true })
+      .andWhere('user.telegramId IS NOT NULL')
+      .andWhere('user.isBanned = :isBanned', { isBanned: false })
+      .andWhere('(search.minPrice IS NULL OR search.minPrice <= :price)', {
+        price,
+      })
+      .andWhere('(search.maxPrice IS NULL OR search.maxPrice >= :price)', {
+        price,
+      });
+
+    // Sellers don't need alerts about their own listings.
+    const ownerIds = [ad.merchantId, ad.createdById].filter(
+      (value): value is number => typeof value === 'number',
+    );
+    if (ownerIds.length > 0) {
+      qb.andWhere('search.userId NOT IN (:...ownerIds)', { ownerIds });
+    }
+
+    const candidates = await qb.getMany();
+    if (candidates.length === 0) return 0;
+
+    const categories = ad.categoryId
+      ? await this.categoryRepo.find({
+          select: { id: true, name: true, parentId: true },
+        })
+      : [];
+    const category = categories.find((entry) => entry.id === ad.categoryId);
+    const document = buildAdSearchDocument(ad, category?.name ?? null);
+    // A search on a parent category also matches ads in its subcategories.
+    const adCategoryIds = ad.categoryId
+      ? [ad.categoryId, ...collectAncestorIds(categories, ad.categoryId)]
+      : [];
+
+    const matches = candidates.filter((search) => {
+      if (search.categoryIds?.length) {
+        if (!search.categoryIds.some((id) => adCategoryIds.includes(id))) {
+          return false;
+        }
+      }
+      const terms = extractSearchTerms(search.query);
+      return terms.every((term) => document.includes(term));
+    });
+    if (matches.length === 0) return 0;
+
+    await this.matchRepo
+      .createQueryBuilder()
+      .insert()
+      .into(SavedSearchMatch)
+      .values(
+        matches.map((search) => ({
+          savedSearchId: search.id,
+          userId: search.userId,
+          adId: ad.id,
+          notifiedAt: null,
+        })),
+      )
+      .orIgnore()
+      .execute();
+
+    return matches.length;
+  }
+
+  @Cron('*/15 * * * *')
+  async sendDigestsCron() {
+    await this.sendPendingDigests();
+  }
+
+  async sendPendingDigests() {
+    if (this.digestInFlight) return;
+    this.digestInFlight = true;
+    try {
+      const rows = await this.matchRepo
+        .createQueryBuilder('match')
+        .select('DISTINCT match.userId', 'userId')
+        .where('match.notifiedAt IS NULL')
+        .limit(DIGEST_USERS_PER_TICK)
+        .getRawMany<{ userId: number | string }>();
+
+      for (const row of rows) {
+        await this.sendDigestForUser(Number(row.userId));
+      }
+    } catch (error) {
+      this.logger.error('Saved search digest tick failed', error as Error);
+    } finally {
+      this.digestInFlight = false;
+    }
+  }
+
+  private async sendDigestForUser(userId: number) {
+    const pending = await this.matchRepo.find({
+      where: { userId, notifiedAt: IsNull() },
+      relations: { savedSearch: true, ad: true },
+      order: { id: 'ASC' },
+    });
+    if (pending.length === 0) return;
+
+    // Claim the rows first so an overlapping tick cannot send them twice.
+    const notifiedAt = new Date();
+    const claimedIds = pending.map((match) => match.id);
+    const claim = await this.matchRepo.update(
+      { id: In(claimedIds), notifiedAt: IsNull() },
+      { notifiedAt },
+    );
+    if (!claim.affected) return;
+
+    const user = await this.userRepo.findOne({
+      where: { id: userId },
+      select: { id: true, telegramId: true, isBanned: true },
+    });
+    if (!user?.telegramId || user.isBanned) return;
+
+    const bySearch = new Map<
+      number,
+      {
+        search: SavedSearch;
+        ads: Array<{ id: number; name: string; price: number }>;
+      }
+    >();
+    for (const match of pending) {
+      const { ad, savedSearch } = match;
+      if (!ad || !savedSearch?.alertsEnabled) continue;
+      if (ad.status !== AdStatus.APPROVED || !ad.isActive) continue;
+
+      const group = bySearch.get(savedSearch.id) ?? {
+        search: savedSearch,
+        ads: [],
+      };
+      if (group.ads.length < DIGEST_ADS_PER_SEARCH) {
+        group.ads.push({ id: ad.id, name: ad.name, price: Number(ad.price) });
+      }
+      bySearch.set(savedSearch.id, group);
+    }
+    if (bySearch.size === 0) return;
+
+    try {
+      await this.botService.notifySavedSearchDigest({
+        telegramId: user.telegramId,
+        searches: [...bySearch.values()].map(({ search, ads }) => ({
+          name: search.name,
+          query: search.query,
+          categoryIds: search.categoryIds,
+          ads,
+        })),
+      });
+    } catch (error) {
+      // A blocked or missing chat will never accept the digest; anything else
+      // is released so the next tick retries it.
+      const code = Number(
+        (error as { response?: { error_code?: number } })?.response?.error_code,
+      );
+      if (code !== 400 && code !== 403) {
+        await this.matchRepo.update(
+          { id: In(claimedIds), notifiedAt },
+          { notifiedAt: null },
+        );
+      }
+      this.logger.warn(
+        `Saved search digest for user ${userId} failed: ${(error as Error).message}`,
+      );
+      return;
+    }
+
+    await this.savedSearchRepo.update(
+      { id: In([...bySearch.keys()]) },
+      { lastNotifiedAt: notifiedAt },
+    );
+  }
+
+  private async findOwned(id: number, userId: number) {
+    const search = await this.savedSearchRepo.findOne({
+      where: { id, userId },
+    });
+    if (!search) throw new NotFoundException('Saved search not found');
+    return search;
+  }
+
+  private async buildDefaultName(
+    query: string | null,
+    categoryIds: number[] | null,
+  ): Promise<string> {
+    if (query) return query.slice(0, 80);
+    if (categoryIds?.length) {
+      const categories = await this.categoryRepo.find({
+        where: { id: In(categoryIds) },
+        select: { id: true, name: true },
+      });
+      const names = categories.map((category) => category.name).join(', ');
+      if (names) return names.slice(0, 80);
+    }
+    return 'All ads';
+  }
+
+  private toResponse(search: SavedSearch) {
+    return {
+      id: search.id,
+      name: search.name,
+      query: search.query,
+      categoryIds: search.categoryIds ?? [],
+      minPrice: search.minPrice === null ? null : Number(search.minPrice),
+      maxPrice: search.maxPrice === null ? null : Number(search.maxPrice),
+      alertsEnabled: search.alertsEnabled,
+      lastNotifiedAt: search.lastNotifiedAt,
+      createdAt: search.createdAt,
+    };
+  }
+}
@@ -0,0 +1,25 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  ValidateNested,
+} from 'class-validator';
+import { NotificationType } from '../../bot/entities/notification-opt-out.entity';
+
+export class NotificationPreferenceDto {
+  @IsEnum(NotificationType)
+  type: NotificationType;
+
+  @IsBoolean()
+  enabled: boolean;
+}
+
+export class UpdateNotificationPreferencesDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => NotificationPreferenceDto)
+  preferences: NotificationPreferenceDto[];
+}
@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { UserRole } from '../entities/user.entity';
+
+export class UpdateStaffRoleDto {
+  @IsEnum(UserRole)
+  role: UserRole;
+}
@@ -3,6 +3,8 @@ import { AbstractEntity } from '../../../common/entities/abstract.entity';
 
 export enum UserRole {
   ADMIN = 'admin',
+  MODERATOR = 'moderator',
+  MARKETER = 'marketer',
   MERCHANT = 'merchant',
 }
 
@@ -28,6 +30,24 @@ export class User extends AbstractEntity {
   @Column({ type: 'datetime', nullable: true, select: false })
   passwordLoginLockedUntil: Date | null;
 
+  // Encrypted TOTP secret; set once enrollment is verified.
+  @Column({ type: 'varchar', length: 255, nullable: true, select: false })
+  totpSecret: string | null;
+
+  // Secret shown during enrollment, promoted to totpSecret after a valid code.
+  @Column({ type: 'varchar', length: 255, nullable: true, select: false })
+  totpPendingSecret: string | null;
+
+  // Last accepted time step, so a code can't be replayed within its window.
+  @Column({ type: 'bigint', nullable: true, select: false })
+  totpLastUsedStep: string | null;
+
+  @Column({ type: 'simple-json', nullable: true, select: false })
+  recoveryCodeHashes: string[] | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  totpEnabledAt: Date | null;
+
   @Column({ nullable: true })
   firstName: string;
 
@@ -50,6 +70,10 @@ export class User extends AbstractEntity {
   @Column({ default: false })
   isReviewBlocked: boolean;
 
+  // Set when staff approve the merchant's verification documents.
+  @Column({ type: 'datetime', nullable: true })
+  verifiedAt: Date | null;
+
   @Column({ type: 'int', default: 0 })
   loyaltyPoints: number;
 }
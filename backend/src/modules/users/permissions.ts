@@ -0,0 +1,59 @@
+import { UserRole } from './entities/user.entity';
+
+export enum Permission {
+  ADS_WRITE = 'ads.write',
+  ADS_MODERATE = 'ads.moderate',
+  ADS_FEATURE = 'ads.feature',
+  REVIEWS_MODERATE = 'reviews.moderate',
+  REPORTS_MANAGE = 'reports.manage',
+  CATEGORIES_MANAGE = 'categories.manage',
+  MERCHANTS_MANAGE = 'merchants.manage',
+  ANNOUNCEMENTS_MANAGE = 'announcements.manage',
+  ANALYTICS_VIEW = 'analytics.view',
+  STAFF_MANAGE = 'staff.manage',
+}
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  [UserRole.ADMIN]: Object.values(Permission),
+  // Moderators work the review queue: ads, reviews and the reports they raise.
+  [UserRole.MODERATOR]: [
+    Permission.ADS_MODERATE,
+    Permission.REVIEWS_MODERATE,
+    Permission.REPORTS_MANAGE,
+  ],
+  [UserRole.MARKETER]: [
+    Permission.ANNOUNCEMENTS_MANAGE,
+    Permission.ANALYTICS_VIEW,
+  ],
+  [UserRole.MERCHANT]: [Permission.ADS_WRITE],
+};
+
+/** Roles that sign in to the admin app. */
+export const STAFF_ROLES: readonly UserRole[] = [
+  UserRole.ADMIN,
+  UserRole.MODERATOR,
+  UserRole.MARKETER,
+];
+
+export function isStaffRole(role: UserRole | null | undefined) {
+  return Boolean(role && STAFF_ROLES.includes(role));
+}
+
+export function getPermissionsForRole(
+  role: UserRole | null | undefined,
+): Permission[] {
+  return role ? [...(ROLE_PERMISSIONS[role] ?? [])] : [];
+}
+
+export function hasPermission(
+  role: UserRole | null | undefined,
+  permission: Permission,
+) {
+  return getPermissionsForRole(role).includes(permission);
+}
+
+export function getRolesWithPermission(permission: Permission): UserRole[] {
+  return (Object.keys(ROLE_PERMISSIONS) as UserRole[]).filter((role) =>
+    ROLE_PERMISSIONS[role].includes(permission),
+  );
+}
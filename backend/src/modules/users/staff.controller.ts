@@ -0,0 +1,54 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { FastifyRequest } from 'fastify';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from './permissions';
+import { StaffService } from './staff.service';
+import { UpdateStaffRoleDto } from './dto/update-staff-role.dto';
+
+type AuthenticatedRequest = FastifyRequest & {
+  user: {
+    userId: number;
+  };
+};
+
+@Controller('staff')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@RequirePermissions(Permission.STAFF_MANAGE)
+export class StaffController {
+  constructor(private readonly staffService: StaffService) {}
+
+  @Get()
+  async listStaff() {
+    return this.staffService.listStaff();
+  }
+
+  @Get('candidates')
+  async searchCandidates(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('q') query?: string,
+  ) {
+    return this.staffService.searchCandidates(page, limit, query);
+  }
+
+  @Patch(':userId/role')
+  async updateRole(
+    @Req() req: AuthenticatedRequest,
+    @Param('userId', ParseIntPipe) userId: number,
+    @Body() dto: UpdateStaffRoleDto,
+  ) {
+    return this.staffService.updateRole(req.user.userId, userId, dto.role);
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { User, UserRole } from './entities/user.entity';
+import { STAFF_ROLES, getPermissionsForRole, isStaffRole } from './permissions';
+import {
+  buildPaginationMeta,
+  normalizePagination,
+} from '../../common/pagination';
+import { BotService } from '../bot/bot.service';
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.ADMIN]: 'Admin',
+  [UserRole.MODERATOR]: 'Moderator',
+  [UserRole.MARKETER]: 'Marketer',
+  [UserRole.MERCHANT]: 'Merchant',
+};
+
+@Injectable()
+export class StaffService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    private readonly botService: BotService,
+  ) {}
+
+  async listStaff() {
+    const staff = await this.userRepo.find({
+      where: { role: In([...STAFF_ROLES]) },
+      order: { createdAt: 'ASC' },
+    });
+    return staff.map((user) => this.buildStaffSummary(user));
+  }
+
+  async searchCandidates(pageRaw?: string, limitRaw?: string, query?: string) {
+    const { page, limit, skip } = normalizePagination(pageRaw, limitRaw);
+
+    const candidatesQuery = this.userRepo
+      .createQueryBuilder('user')
+      .where('user.role NOT IN (:...staffRoles)', {
+        staffRoles: [...STAFF_ROLES],
+      })
+      .andWhere('user.isBanned = :isBanned', { isBanned: false })
+      .orderBy('user.createdAt', 'DESC')
+      .skip(skip)
+      .take(limit);
+
+    const normalizedQuery = query?.trim().toLowerCase() ?? '';
+    if (normalizedQuery) {
+      candidatesQuery.andWhere(
+        `(
+          LOWER(COALESCE(user.firstName, '')) LIKE :search
+          OR LOWER(COALESCE(user.username, '')) LIKE :search
+          OR LOWER(COALESCE(user.loginUsername, '')) LIKE :search
+        )`,
+        { search: `%${normalizedQuery}%` },
+      );
+    }
+
+    const [users, total] = await candidatesQuery.getManyAndCount();
+    return {
+      data: users.map((user) => this.buildStaffSummary(user)),
+      meta: buildPaginationMeta(total, page, limit),
+    };
+  }
+
+  async updateRole(actorUserId: number, userId: number, role: UserRole) {
+    if (actorUserId === userId) {
+      throw new BadRequestException('You cannot change your own role');
+    }
+
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (user.role === role) {
+      return this.buildStaffSummary(user);
+    }
+    if (user.isBanned && isStaffRole(role)) {
+      throw new BadRequestException('Banned users cannot be given staff roles');
+    }
+    if (user.role === UserRole.ADMIN) {
+      const adminCount = await this.userRepo.count({
+        where: { role: UserRole.ADMIN, isBanned: false },
+      });
+      if (adminCount <= 1) {
+        throw new BadRequestException('The last admin cannot be demoted');
+      }
+    }
+
+    const wasStaff = isStaffRole(user.role);
+    user.role = role;
+    await this.userRepo.save(user);
+
+    if (user.telegramId && (wasStaff || isStaffRole(role))) {
+      await this.botService.notifyStaffRoleChange({
+        telegramId: user.telegramId,
+        roleLabel: isStaffRole(role) ? ROLE_LABELS[role] : null,
+      });
+    }
+
+    return this.buildStaffSummary(user);
+  }
+
+  private buildStaffSummary(user: User) {
+    return {
+      id: user.id,
+      firstName: user.firstName,
+      username: user.username,
+      loginUsername: user.loginUsername,
+      avatarUrl: user.avatarUrl,
+      role: user.role,
+      permissions: getPermissionsForRole(user.role),
+      hasTelegram: Boolean(user.telegramId),
+      twoFactorEnabled: Boolean(user.totpEnabledAt),
+      isBanned: user.isBanned,
+      createdAt: user.createdAt,
+    };
+  }
+}
@@ -5,6 +5,7 @@ import {
   Get,
   Patch,
   Post,
+  Query,
   Req,
   UseGuards,
 } from '@nestjs/common';
@@ -12,12 +13,21 @@ import { AuthGuard } from '@nestjs/passport';
 import { type FastifyRequest } from 'fastify';
 import { UsersService } from './users.service';
 import { UpdateProfileDto } from './dto/update-profile.dto';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
 import { AvatarImageService } from './avatar-image.service';
 import {
   assertMultipartRequest,
   getMultipartParts,
   readMultipartFileToBuffer,
 } from '../../common/multipart';
+import { normalizePagination } from '../../common/pagination';
+import { AdConversationsService } from '../products/ad-conversations.service';
+import { AdFavoritesService } from '../products/ad-favorites.service';
+import {
+  NOTIFICATION_TYPES,
+  NotificationPreferences,
+  NotificationPreferencesService,
+} from '../bot/notification-preferences.service';
 
 const MAX_AVATAR_BYTES = 5 * 1024 * 1024;
 
@@ -33,11 +43,17 @@ export class UsersController {
   constructor(
     private readonly usersService: UsersService,
     private readonly avatarImageService: AvatarImageService,
+    private readonly adConversationsService: AdConversationsService,
+    private readonly adFavoritesService: AdFavoritesService,
+    private readonly notificationPreferencesService: NotificationPreferencesService,
   ) {}
 
   @Get('me')
   async me(@Req() req: AuthenticatedRequest) {
-    const user = await this.usersService.getMe(req.user.userId);
+    const [user, unreadMessages] = await Promise.all([
+      this.usersService.getMe(req.user.userId),
+      this.adConversationsService.countUnreadMessages(req.user.userId),
+    ]);
     return {
       id: user.id,
       role: user.role,
@@ -46,9 +62,80 @@ export class UsersController {
       loginUsername: user.loginUsername,
       telegramUsername: user.username,
       hasTelegram: Boolean(user.telegramId),
+      unreadMessages,
     };
   }
 
+  @Get('me/conversations')
+  async myConversations(
+    @Req() req: AuthenticatedRequest,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const { page: safePage, limit: safeLimit } = normalizePagination(
+      page,
+      limit,
+    );
+    return this.adConversationsService.listMyConversations(req.user.userId, {
+      page: safePage,
+      limit: safeLimit,
+    });
+  }
+
+  @Get('me/favorites')
+  async myFavorites(
+    @Req() req: AuthenticatedRequest,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const { page: safePage, limit: safeLimit } = normalizePagination(
+      page,
+      limit,
+    );
+    return this.adFavoritesService.listMyFavorites(req.user.userId, {
+      page: safePage,
+      limit: safeLimit,
+    });
+  }
+
+  @Get('me/favorites/ids')
+  async myFavoriteAdIds(@Req() req: AuthenticatedRequest) {
+    return this.adFavoritesService.listMyFavoriteAdIds(req.user.userId);
+  }
+
+  @Get('me/notifications')
+  async myNotificationPreferences(@Req() req: AuthenticatedRequest) {
+    const user = await this.usersService.getMe(req.user.userId);
+    const preferences =
+      await this.notificationPreferencesService.getPreferences(user.telegramId);
+    return this.toNotificationPreferencesResponse(
+      Boolean(user.telegramId),
+      preferences,
+    );
+  }
+
+  @Patch('me/notifications')
+  async updateMyNotificationPreferences(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: UpdateNotificationPreferencesDto,
+  ) {
+    const user = await this.usersService.getMe(req.user.userId);
+    if (!user.telegramId) {
+      throw new BadRequestException(
+        'Link your Telegram account to manage notifications',
+      );
+    }
+
+    const preferences =
+      await this.notificationPreferencesService.updatePreferences(
+        user.telegramId,
+        Object.fromEntries(
+          dto.preferences.map((entry) => [entry.type, entry.enabled]),
+        ),
+      );
+    return this.toNotificationPreferencesResponse(true, preferences);
+  }
+
   @Patch('me')
   async updateMe(
     @Req() req: AuthenticatedRequest,
@@ -90,6 +177,19 @@ export class UsersController {
     };
   }
 
+  private toNotificationPreferencesResponse(
+    hasTelegram: boolean,
+    preferences: NotificationPreferences,
+  ) {
+    return {
+      hasTelegram,
+      preferences: NOTIFICATION_TYPES.map((type) => ({
+        type,
+        enabled: preferences[type],
+      })),
+    };
+  }
+
   private async parseAvatarFile(
     req: AuthenticatedRequest,
   ): Promise<{ buffer: Buffer; filename?: string }> {
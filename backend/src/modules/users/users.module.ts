@@ -4,11 +4,14 @@ import { User } from './entities/user.entity';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
 import { AvatarImageService } from './avatar-image.service';
+import { StaffController } from './staff.controller';
+import { StaffService } from './staff.service';
+import { AdsModule } from '../products/ads.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User])],
-  controllers: [UsersController],
-  providers: [UsersService, AvatarImageService],
+  imports: [TypeOrmModule.forFeature([User]), AdsModule],
+  controllers: [UsersController, StaffController],
+  providers: [UsersService, AvatarImageService, StaffService],
   exports: [TypeOrmModule],
 })
 export class UsersModule {}
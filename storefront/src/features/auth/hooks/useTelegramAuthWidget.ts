@@ -62,12 +62,16 @@ export function useTelegramAuthWidget({
         const response = await api.post("/auth/telegram", telegramUser);
         const responseToken =
           typeof response.data?.token === "string" ? response.data.token : null;
+        const responseRefreshToken =
+          typeof response.data?.refreshToken === "string"
+            ? response.data.refreshToken
+            : null;
         const responseUser =
           response.data && typeof response.data === "object"
             ? response.data.user
             : null;
 
-        applyLoginResult(responseToken, responseUser ?? null);
+        applyLoginResult(responseToken, responseUser ?? null, responseRefreshToken);
         await loadUser({ force: true });
 
         if (onAuthenticated) {
@@ -54,9 +54,13 @@ export async function loadUser(options: { force?: boolean } = {}): Promise<void>
   return loadPromise;
 }
 
-export function applyLoginResult(token: string | null, user?: AuthUser | null): void {
+export function applyLoginResult(
+  token: string | null,
+  user?: AuthUser | null,
+  refreshToken?: string | null,
+): void {
   if (token && token.trim().length > 0) {
-    setAuthToken(token);
+    setAuthToken(token, refreshToken);
   }
   if (user) {
     $user.set(user);
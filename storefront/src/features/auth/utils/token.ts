@@ -1,4 +1,5 @@
 const TOKEN_STORAGE_KEY = "gebeya_auth_token";
+const REFRESH_TOKEN_STORAGE_KEY = "gebeya_refresh_token";
 
 export function getAuthToken(): string | null {
   if (typeof window === "undefined") return null;
@@ -10,10 +11,23 @@ export function getAuthToken(): string | null {
   }
 }
 
-export function setAuthToken(token: string): void {
+export function getRefreshToken(): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const token = window.localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+    return token && token.trim().length > 0 ? token : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setAuthToken(token: string, refreshToken?: string | null): void {
   if (typeof window === "undefined") return;
   try {
     window.localStorage.setItem(TOKEN_STORAGE_KEY, token);
+    if (refreshToken) {
+      window.localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, refreshToken);
+    }
   } catch {
     // ignore storage errors
   }
@@ -23,6 +37,7 @@ export function clearAuthToken(): void {
   if (typeof window === "undefined") return;
   try {
     window.localStorage.removeItem(TOKEN_STORAGE_KEY);
+    window.localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
   } catch {
     // ignore storage errors
   }
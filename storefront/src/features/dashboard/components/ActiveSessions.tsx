@@ -0,0 +1,151 @@
+import { Button, Card, CardBody, Chip, addToast } from "@heroui/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { logout } from "@/features/auth/store/authStore";
+import { formatLocaleDate, useI18n } from "@/features/i18n";
+import { api, getApiErrorMessage } from "@/lib/api";
+
+type AuthSession = {
+  id: number;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+};
+
+const SESSIONS_QUERY_KEY = ["auth-sessions"];
+
+export default function ActiveSessions() {
+  const queryClient = useQueryClient();
+  const { locale, t } = useI18n();
+
+  const sessionsQuery = useQuery({
+    queryKey: SESSIONS_QUERY_KEY,
+    queryFn: async () => (await api.get("/auth/sessions")).data as AuthSession[],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: AuthSession) => {
+      await api.delete(`/auth/sessions/${session.id}`);
+      return session;
+    },
+    onSuccess: async (session) => {
+      if (session.current) {
+        await logout();
+        window.location.assign("/");
+        return;
+      }
+      addToast({
+        title: t("sessions.toast.revoked.title"),
+        description: t("sessions.toast.revoked.description", {
+          device: session.device,
+        }),
+        color: "success",
+      });
+      await queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+    },
+    onError: (error) => {
+      addToast({
+        title: t("sessions.toast.revokeFailed.title"),
+        description: getApiErrorMessage(error),
+        color: "danger",
+      });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () =>
+      (await api.delete("/auth/sessions")).data as { revoked: number },
+    onSuccess: async (data) => {
+      addToast({
+        title: t("sessions.toast.revokedOthers.title"),
+        description: t("sessions.toast.revokedOthers.description", {
+          count: data.revoked,
+        }),
+        color: "success",
+      });
+      await queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+    },
+    onError: (error) => {
+      addToast({
+        title: t("sessions.toast.revokeFailed.title"),
+        description: getApiErrorMessage(error),
+        color: "danger",
+      });
+    },
+  });
+
+  const sessions = sessionsQuery.data ?? [];
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <Card className="theme-card-subtle">
+      <CardBody className="space-y-3">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <p className="font-display text-lg">{t("sessions.title")}</p>
+            <p className="text-xs text-ink-muted">{t("sessions.subtitle")}</p>
+          </div>
+          <Button
+            size="sm"
+            variant="flat"
+            color="danger"
+            isDisabled={!hasOtherSessions}
+            isLoading={revokeOthersMutation.isPending}
+            onPress={() => revokeOthersMutation.mutate()}
+          >
+            {t("sessions.revokeOthers")}
+          </Button>
+        </div>
+        {sessionsQuery.isLoading ? (
+          <p className="text-sm text-ink-muted">{t("common.loading")}</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-ink-muted">{t("sessions.empty")}</p>
+        ) : (
+          <ul className="divide-y divide-default-200">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex items-center gap-3 py-2.5">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <p className="truncate text-sm font-medium">{session.device}</p>
+                    {session.current ? (
+                      <Chip size="sm" color="success" variant="flat">
+                        {t("sessions.current")}
+                      </Chip>
+                    ) : null}
+                  </div>
+                  <p className="truncate text-xs text-ink-muted">
+                    {t("sessions.lastSeen", {
+                      date: formatLocaleDate(new Date(session.lastSeenAt), locale, {
+                        month: "short",
+                        day: "2-digit",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      }),
+                    })}
+                    {session.ipAddress ? ` • ${session.ipAddress}` : ""}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="light"
+                  color="danger"
+                  isLoading={
+                    revokeMutation.isPending &&
+                    revokeMutation.variables?.id === session.id
+                  }
+                  onPress={() => revokeMutation.mutate(session)}
+                >
+                  {session.current ? t("sessions.signOut") : t("sessions.revoke")}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -31,6 +31,13 @@ import { api, getApiErrorMessage } from "@/lib/api";
 import { API_BASE } from "@/config/env";
 import { consumeQueryFlag } from "@/lib/navigation";
 import { useDebouncedValue } from "@/hooks/useDebouncedValue";
+import MessagesInbox from "./MessagesInbox";
+import SavedSearches from "./SavedSearches";
+import FavoriteAds from "./FavoriteAds";
+import NotificationSettings from "./NotificationSettings";
+import ActiveSessions from "./ActiveSessions";
+import SellerVerification from "./SellerVerification";
+import FeatureAdModal from "./FeatureAdModal";
 
 type DashboardAd = Ad;
 
@@ -41,6 +48,24 @@ type PaginatedResponse<T> = {
   };
 };
 
+type DashboardStats = {
+  totalAds: number;
+  pendingAds: number;
+  approvedAds: number;
+  rejectedAds: number;
+  totalFavorites: number;
+};
+
+// Approved ads inside this window can be renewed ahead of expiry.
+const RENEW_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+function canRenewAd(ad: DashboardAd) {
+  if (ad.status !== "APPROVED") return false;
+  if (ad.archivedAt) return true;
+  if (ad.isActive === false || !ad.expiresAt) return false;
+  return new Date(ad.expiresAt).getTime() - Date.now() <= RENEW_WINDOW_MS;
+}
+
 const statusColor: Record<
   NonNullable<DashboardAd["status"]>,
   "warning" | "success" | "danger"
@@ -59,6 +84,7 @@ export default function DashboardPage() {
   const [isPostModalOpen, setIsPostModalOpen] = useState(false);
   const [previewAd, setPreviewAd] = useState<Ad | null>(null);
   const [adPendingDelete, setAdPendingDelete] = useState<DashboardAd | null>(null);
+  const [adToFeature, setAdToFeature] = useState<DashboardAd | null>(null);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -81,6 +107,12 @@ export default function DashboardPage() {
       ).data as PaginatedResponse<DashboardAd>,
   });
 
+  const statsQuery = useQuery({
+    queryKey: ["dashboard", "stats"],
+    queryFn: async () =>
+      (await api.get("/ads/dashboard-stats")).data as DashboardStats,
+  });
+
   const categoriesQuery = useQuery({
     queryKey: ["dashboard", "categories"],
     queryFn: async () =>
@@ -92,7 +124,7 @@ export default function DashboardPage() {
     mutationFn: async (id: number) => api.delete(`/ads/${id}`),
     onSuccess: () => {
       setAdPendingDelete(null);
-      queryClient.invalidateQueries({ queryKey: ["dashboard", "ads"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard"] });
       addToast({
         title: t("merchantDashboard.toast.deleted.title"),
         description: t("merchantDashboard.toast.deleted.description"),
@@ -116,7 +148,7 @@ export default function DashboardPage() {
       isActive: boolean;
     }) => api.patch(`/ads/${id}`, { isActive }),
     onSuccess: (_response, variables) => {
-      queryClient.invalidateQueries({ queryKey: ["dashboard", "ads"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard"] });
       addToast({
         title: variables.isActive
           ? t("merchantDashboard.toast.published.title")
@@ -136,6 +168,25 @@ export default function DashboardPage() {
     },
   });
 
+  const renewMutation = useMutation({
+    mutationFn: async (id: number) => api.post(`/ads/${id}/renew`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["dashboard"] });
+      addToast({
+        title: t("merchantDashboard.toast.renewed.title"),
+        description: t("merchantDashboard.toast.renewed.description"),
+        color: "success",
+      });
+    },
+    onError: (error) => {
+      addToast({
+        title: t("merchantDashboard.toast.renewFailed.title"),
+        description: getApiErrorMessage(error),
+        color: "danger",
+      });
+    },
+  });
+
   const ads = useMemo(() => adsQuery.data?.data ?? [], [adsQuery.data]);
   const categories = useMemo(
     () => categoriesQuery.data?.categories ?? [],
@@ -181,6 +232,24 @@ export default function DashboardPage() {
         </p>
       </header>
 
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {[
+          { label: t("merchantDashboard.stats.total"), value: statsQuery.data?.totalAds },
+          { label: t("merchantDashboard.stats.approved"), value: statsQuery.data?.approvedAds },
+          { label: t("merchantDashboard.stats.pending"), value: statsQuery.data?.pendingAds },
+          { label: t("merchantDashboard.stats.favorites"), value: statsQuery.data?.totalFavorites },
+        ].map((stat) => (
+          <Card key={stat.label} className="theme-card-subtle">
+            <CardBody className="gap-1 py-3">
+              <p className="text-[11px] uppercase tracking-[0.2em] text-ink-muted">
+                {stat.label}
+              </p>
+              <p className="font-display text-2xl">{stat.value ?? "–"}</p>
+            </CardBody>
+          </Card>
+        ))}
+      </div>
+
       <Card className="theme-card-subtle">
         <CardBody className="space-y-4">
           <div className="flex items-center gap-2">
@@ -241,7 +310,11 @@ export default function DashboardPage() {
                     </Chip>
                   </TableCell>
                   <TableCell>
-                    {(ad.status ?? "PENDING") === "APPROVED" ? (
+                    {(ad.status ?? "PENDING") === "APPROVED" && ad.archivedAt ? (
+                      <Chip size="sm" variant="flat">
+                        {t("merchantDashboard.visibility.expired")}
+                      </Chip>
+                    ) : (ad.status ?? "PENDING") === "APPROVED" ? (
                       <>
                         <Switch
                           size="sm"
@@ -268,6 +341,24 @@ export default function DashboardPage() {
                           <p className="mt-1 text-xs text-ink-muted">
                             {t("merchantDashboard.updating")}
                           </p>
+                        ) : ad.isFeatured && ad.featuredUntil ? (
+                          <p className="mt-1 text-xs text-ink-muted">
+                            {t("merchantDashboard.featuredUntil", {
+                              date: formatLocaleDate(new Date(ad.featuredUntil), locale, {
+                                month: "short",
+                                day: "2-digit",
+                              }),
+                            })}
+                          </p>
+                        ) : ad.expiresAt ? (
+                          <p className="mt-1 text-xs text-ink-muted">
+                            {t("merchantDashboard.expiresOn", {
+                              date: formatLocaleDate(new Date(ad.expiresAt), locale, {
+                                month: "short",
+                                day: "2-digit",
+                              }),
+                            })}
+                          </p>
                         ) : null}
                       </>
                     ) : (
@@ -292,6 +383,32 @@ export default function DashboardPage() {
                       >
                         {t("product.preview")}
                       </Button>
+                      {canRenewAd(ad) ? (
+                        <Button
+                          size="sm"
+                          color="primary"
+                          variant="flat"
+                          onPress={() => renewMutation.mutate(ad.id)}
+                          isLoading={
+                            renewMutation.isPending && renewMutation.variables === ad.id
+                          }
+                          isDisabled={renewMutation.isPending}
+                        >
+                          {t("merchantDashboard.renew")}
+                        </Button>
+                      ) : null}
+                      {ad.status === "APPROVED" && ad.isActive !== false ? (
+                        <Button
+                          size="sm"
+                          color="secondary"
+                          variant="flat"
+                          onPress={() => setAdToFeature(ad)}
+                        >
+                          {ad.isFeatured
+                            ? t("merchantDashboard.extendFeature")
+                            : t("merchantDashboard.feature")}
+                        </Button>
+                      ) : null}
                       <Button
                         size="sm"
                         color="danger"
@@ -311,6 +428,18 @@ export default function DashboardPage() {
         </CardBody>
       </Card>
 
+      {user?.role === "merchant" ? <SellerVerification /> : null}
+
+      <MessagesInbox />
+
+      <FavoriteAds onPreview={setPreviewAd} />
+
+      <SavedSearches />
+
+      <NotificationSettings />
+
+      <ActiveSessions />
+
       <AdPreviewModal
         isOpen={Boolean(previewAd)}
         onClose={() => setPreviewAd(null)}
@@ -318,13 +447,15 @@ export default function DashboardPage() {
         imageBase={API_BASE}
       />
 
+      <FeatureAdModal ad={adToFeature} onClose={() => setAdToFeature(null)} />
+
       <PostAdModal
         isOpen={isPostModalOpen}
         onClose={() => setIsPostModalOpen(false)}
         categories={categories}
         isLoggedIn={Boolean(user)}
         onPosted={(createdAd) => {
-          queryClient.invalidateQueries({ queryKey: ["dashboard", "ads"] });
+          queryClient.invalidateQueries({ queryKey: ["dashboard"] });
           if (createdAd) {
             setPreviewAd(createdAd);
           }
@@ -0,0 +1,74 @@
+import { Avatar, Card, CardBody } from "@heroui/react";
+import { useQuery } from "@tanstack/react-query";
+
+import { useI18n } from "@/features/i18n";
+import { FavoriteButton } from "@/features/products/components/AdCatalog/FavoriteButton";
+import type { Ad, FavoriteAd } from "@/features/products/types";
+import { api } from "@/lib/api";
+import { API_BASE } from "@/config/env";
+import { resolveImageUrl } from "@/lib/images";
+import { formatBirrLabel } from "@/lib/money";
+
+const FAVORITES_PAGE_SIZE = 50;
+
+export default function FavoriteAds({
+  onPreview,
+}: {
+  onPreview: (ad: Ad) => void;
+}) {
+  const { t } = useI18n();
+
+  const favoritesQuery = useQuery({
+    queryKey: ["favorites", "list"],
+    queryFn: async () =>
+      (
+        await api.get("/users/me/favorites", {
+          params: { page: 1, limit: FAVORITES_PAGE_SIZE },
+        })
+      ).data as { data: FavoriteAd[] },
+  });
+
+  const favorites = favoritesQuery.data?.data ?? [];
+
+  return (
+    <Card className="theme-card-subtle">
+      <CardBody className="space-y-3">
+        <p className="font-display text-lg">{t("favorites.title")}</p>
+        {favoritesQuery.isLoading ? (
+          <p className="text-sm text-ink-muted">{t("common.loading")}</p>
+        ) : favorites.length === 0 ? (
+          <p className="text-sm text-ink-muted">{t("favorites.empty")}</p>
+        ) : (
+          <ul className="divide-y divide-default-200">
+            {favorites.map((ad) => (
+              <li key={ad.id} className="flex items-center gap-3 py-2.5">
+                <button
+                  type="button"
+                  onClick={() => onPreview(ad)}
+                  className="flex min-w-0 flex-1 items-center gap-3 text-left"
+                >
+                  <Avatar
+                    size="sm"
+                    src={
+                      resolveImageUrl(API_BASE, ad.imageUrls?.[0] ?? ad.imageUrl) ??
+                      undefined
+                    }
+                    name={ad.name}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">{ad.name}</p>
+                    <p className="truncate text-xs text-ink-muted">
+                      {formatBirrLabel(ad.price)}
+                      {ad.category?.name ? ` • ${ad.category.name}` : ""}
+                    </p>
+                  </div>
+                </button>
+                <FavoriteButton ad={ad} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Slider,
+  addToast,
+} from "@heroui/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { formatLocaleDate, useI18n } from "@/features/i18n";
+import type { Ad } from "@/features/products/types";
+import { api, getApiErrorMessage } from "@/lib/api";
+
+type FeaturedPricing = {
+  pointsPerDay: number;
+  slotsPerCategory: number;
+  loyaltyPoints: number;
+};
+
+const MAX_FEATURE_DAYS = 30;
+
+export default function FeatureAdModal({
+  ad,
+  onClose,
+}: {
+  ad: Ad | null;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const { locale, t } = useI18n();
+  const [days, setDays] = useState(7);
+
+  useEffect(() => {
+    if (ad) setDays(7);
+  }, [ad]);
+
+  const pricingQuery = useQuery({
+    queryKey: ["dashboard", "featured-pricing"],
+    queryFn: async () =>
+      (await api.get("/ads/featured-pricing")).data as FeaturedPricing,
+    enabled: Boolean(ad),
+  });
+
+  const featureMutation = useMutation({
+    mutationFn: async (input: { id: number; days: number }) =>
+      api.post(`/ads/${input.id}/feature`, { days: input.days }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["dashboard"] });
+      addToast({
+        title: t("merchantDashboard.toast.featured.title"),
+        description: t("merchantDashboard.toast.featured.description"),
+        color: "success",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      addToast({
+        title: t("merchantDashboard.toast.featureFailed.title"),
+        description: getApiErrorMessage(error),
+        color: "danger",
+      });
+    },
+  });
+
+  const pricing = pricingQuery.data;
+  const cost = pricing ? pricing.pointsPerDay * days : null;
+  const hasEnoughPoints =
+    pricing && cost !== null ? pricing.loyaltyPoints >= cost : false;
+
+  return (
+    <Modal
+      isOpen={Boolean(ad)}
+      onOpenChange={(open) => {
+        if (!open && !featureMutation.isPending) onClose();
+      }}
+      isDismissable={!featureMutation.isPending}
+    >
+      <ModalContent>
+        <ModalHeader>{t("merchantDashboard.featureDialog.title")}</ModalHeader>
+        <ModalBody className="space-y-3">
+          <p className="text-sm text-ink-muted">
+            {t("merchantDashboard.featureDialog.description")}{" "}
+            <span className="font-medium text-foreground">{ad?.name}</span>
+          </p>
+          {ad?.isFeatured && ad.featuredUntil ? (
+            <p className="text-xs text-ink-muted">
+              {t("merchantDashboard.featuredUntil", {
+                date: formatLocaleDate(new Date(ad.featuredUntil), locale, {
+                  month: "short",
+                  day: "2-digit",
+                }),
+              })}
+            </p>
+          ) : null}
+          <Slider
+            label={t("merchantDashboard.featureDialog.days")}
+            minValue={1}
+            maxValue={MAX_FEATURE_DAYS}
+            step={1}
+            value={days}
+            onChange={(value) => setDays(Array.isArray(value) ? value[0] : value)}
+          />
+          {pricingQuery.isLoading ? (
+            <p className="text-sm text-ink-muted">{t("common.loading")}</p>
+          ) : pricing && cost !== null ? (
+            <div className="space-y-1 text-sm">
+              <p>
+                {t("merchantDashboard.featureDialog.cost", {
+                  points: cost,
+                  days,
+                })}
+              </p>
+              <p className="text-xs text-ink-muted">
+                {t("merchantDashboard.featureDialog.balance", {
+                  points: pricing.loyaltyPoints,
+                })}
+              </p>
+              {!hasEnoughPoints ? (
+                <p className="text-xs text-danger">
+                  {t("merchantDashboard.featureDialog.notEnoughPoints")}
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+        </ModalBody>
+        <ModalFooter>
+          <Button
+            variant="flat"
+            onPress={onClose}
+            isDisabled={featureMutation.isPending}
+          >
+            {t("common.cancel")}
+          </Button>
+          <Button
+            color="primary"
+            onPress={() => {
+              if (!ad) return;
+              featureMutation.mutate({ id: ad.id, days });
+            }}
+            isDisabled={!hasEnoughPoints}
+            isLoading={featureMutation.isPending}
+          >
+            {t("merchantDashboard.featureDialog.confirm")}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,140 @@
+import { useMemo, useState } from "react";
+import {
+  Avatar,
+  Card,
+  CardBody,
+  Chip,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalHeader,
+} from "@heroui/react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { useAuth } from "@/features/auth/hooks/useAuth";
+import { formatLocaleDate, useI18n } from "@/features/i18n";
+import { AdConversationThread } from "@/features/products/components/AdCatalog/AdConversationThread";
+import type { AdConversation } from "@/features/products/types";
+import { api } from "@/lib/api";
+import { API_BASE } from "@/config/env";
+import { resolveImageUrl } from "@/lib/images";
+
+const INBOX_PAGE_SIZE = 50;
+
+export default function MessagesInbox() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { locale, t } = useI18n();
+  const [activeConversation, setActiveConversation] = useState<AdConversation | null>(null);
+
+  const conversationsQuery = useQuery({
+    queryKey: ["conversations", "mine"],
+    queryFn: async () =>
+      (
+        await api.get("/users/me/conversations", {
+          params: { page: 1, limit: INBOX_PAGE_SIZE },
+        })
+      ).data as { data: AdConversation[] },
+    refetchInterval: 30_000,
+  });
+
+  const conversations = useMemo(
+    () => conversationsQuery.data?.data ?? [],
+    [conversationsQuery.data],
+  );
+  const totalUnread = conversations.reduce(
+    (sum, conversation) => sum + conversation.unreadCount,
+    0,
+  );
+
+  return (
+    <Card className="theme-card-subtle">
+      <CardBody className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <p className="font-display text-lg">{t("adMessages.inbox.title")}</p>
+          {totalUnread > 0 ? (
+            <Chip size="sm" color="primary" variant="flat">
+              {t("adMessages.inbox.unread", { count: totalUnread })}
+            </Chip>
+          ) : null}
+        </div>
+        {conversationsQuery.isLoading ? (
+          <p className="text-sm text-ink-muted">{t("common.loading")}</p>
+        ) : conversations.length === 0 ? (
+          <p className="text-sm text-ink-muted">{t("adMessages.inbox.empty")}</p>
+        ) : (
+          <ul className="divide-y divide-default-200">
+            {conversations.map((conversation) => (
+              <li key={conversation.id}>
+                <button
+                  type="button"
+                  onClick={() => setActiveConversation(conversation)}
+                  className="flex w-full items-center gap-3 py-2.5 text-left"
+                >
+                  <Avatar
+                    size="sm"
+                    src={resolveImageUrl(API_BASE, conversation.ad?.imageUrl) ?? undefined}
+                    name={conversation.ad?.name ?? undefined}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">
+                      {conversation.ad?.name ?? t("adMessages.inbox.removedAd")}
+                    </p>
+                    <p className="truncate text-xs text-ink-muted">
+                      {conversation.counterpart.displayName}
+                      {conversation.lastMessage
+                        ? ` • ${conversation.lastMessage.body}`
+                        : ""}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 flex-col items-end gap-1">
+                    {conversation.lastMessageAt ? (
+                      <span className="text-[11px] text-ink-muted">
+                        {formatLocaleDate(new Date(conversation.lastMessageAt), locale, {
+                          month: "short",
+                          day: "2-digit",
+                        })}
+                      </span>
+                    ) : null}
+                    {conversation.unreadCount > 0 ? (
+                      <Chip size="sm" color="primary">
+                        {conversation.unreadCount}
+                      </Chip>
+                    ) : null}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardBody>
+
+      <Modal
+        isOpen={Boolean(activeConversation)}
+        onClose={() => {
+          setActiveConversation(null);
+          void queryClient.invalidateQueries({ queryKey: ["conversations", "mine"] });
+        }}
+        size="lg"
+      >
+        <ModalContent>
+          <ModalHeader className="flex flex-col gap-0.5">
+            <span>{activeConversation?.ad?.name ?? t("adMessages.title")}</span>
+            <span className="text-xs font-normal text-ink-muted">
+              {activeConversation?.counterpart.displayName}
+            </span>
+          </ModalHeader>
+          <ModalBody className="pb-5">
+            {activeConversation && user ? (
+              <AdConversationThread
+                adId={activeConversation.adId}
+                conversationId={activeConversation.id}
+                currentUserId={user.userId}
+              />
+            ) : null}
+          </ModalBody>
+        </ModalContent>
+      </Modal>
+    </Card>
+  );
+}
@@ -0,0 +1,102 @@
+import { Card, CardBody, Switch, addToast } from "@heroui/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { useI18n } from "@/features/i18n";
+import { api, getApiErrorMessage } from "@/lib/api";
+
+type NotificationType =
+  | "announcement"
+  | "news"
+  | "promotion"
+  | "new_review"
+  | "moderation_result"
+  | "price_alert"
+  | "conversation_message"
+  | "saved_search"
+  | "ad_expiry";
+
+type NotificationPreferencesResponse = {
+  hasTelegram: boolean;
+  preferences: Array<{ type: NotificationType; enabled: boolean }>;
+};
+
+const NOTIFICATIONS_QUERY_KEY = ["notification-preferences"];
+
+export default function NotificationSettings() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+
+  const preferencesQuery = useQuery({
+    queryKey: NOTIFICATIONS_QUERY_KEY,
+    queryFn: async () =>
+      (await api.get("/users/me/notifications"))
+        .data as NotificationPreferencesResponse,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (input: { type: NotificationType; enabled: boolean }) =>
+      (
+        await api.patch("/users/me/notifications", {
+          preferences: [input],
+        })
+      ).data as NotificationPreferencesResponse,
+    onSuccess: (data) => {
+      queryClient.setQueryData(NOTIFICATIONS_QUERY_KEY, data);
+    },
+    onError: (error) => {
+      addToast({
+        title: t("notifications.toast.updateFailed.title"),
+        description: getApiErrorMessage(error),
+        color: "danger",
+      });
+    },
+  });
+
+  const hasTelegram = preferencesQuery.data?.hasTelegram ?? false;
+  const preferences = preferencesQuery.data?.preferences ?? [];
+
+  return (
+    <Card className="theme-card-subtle">
+      <CardBody className="space-y-3">
+        <div>
+          <p className="font-display text-lg">{t("notifications.title")}</p>
+          <p className="text-xs text-ink-muted">
+            {hasTelegram
+              ? t("notifications.subtitle")
+              : t("notifications.telegramHint")}
+          </p>
+        </div>
+        {preferencesQuery.isLoading ? (
+          <p className="text-sm text-ink-muted">{t("common.loading")}</p>
+        ) : (
+          <ul className="divide-y divide-default-200">
+            {preferences.map((preference) => (
+              <li
+                key={preference.type}
+                className="flex items-center gap-3 py-2.5"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium">
+                    {t(`notifications.type.${preference.type}.label`)}
+                  </p>
+                  <p className="text-xs text-ink-muted">
+                    {t(`notifications.type.${preference.type}.description`)}
+                  </p>
+                </div>
+                <Switch
+                  size="sm"
+                  isSelected={preference.enabled}
+                  isDisabled={!hasTelegram || updateMutation.isPending}
+                  onValueChange={(enabled) =>
+                    updateMutation.mutate({ type: preference.type, enabled })
+                  }
+                  aria-label={t(`notifications.type.${preference.type}.label`)}
+                />
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
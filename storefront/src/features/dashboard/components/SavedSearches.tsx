@@ -0,0 +1,157 @@
+import { Button, Card, CardBody, Switch, addToast } from "@heroui/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ExternalLink, Trash2 } from "lucide-react";
+
+import { useAuth } from "@/features/auth/hooks/useAuth";
+import { formatLocaleDate, useI18n } from "@/features/i18n";
+import type { SavedSearch } from "@/features/products/types";
+import { formatCompactNumber } from "@/features/products/utils/pricing";
+import { buildCatalogSearchPath } from "@/features/products/utils/savedSearch";
+import { api, getApiErrorMessage } from "@/lib/api";
+
+export default function SavedSearches() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { locale, t } = useI18n();
+
+  const savedSearchesQuery = useQuery({
+    queryKey: ["saved-searches"],
+    queryFn: async () =>
+      ((await api.get("/saved-searches")).data as { data: SavedSearch[] }).data,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (input: { id: number; alertsEnabled: boolean }) =>
+      api.patch(`/saved-searches/${input.id}`, {
+        alertsEnabled: input.alertsEnabled,
+      }),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["saved-searches"] });
+    },
+    onError: (error) => {
+      addToast({
+        title: t("savedSearches.toast.updateFailed.title"),
+        description: getApiErrorMessage(error),
+        color: "danger",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => api.delete(`/saved-searches/${id}`),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["saved-searches"] });
+    },
+    onError: (error) => {
+      addToast({
+        title: t("savedSearches.toast.deleteFailed.title"),
+        description: getApiErrorMessage(error),
+        color: "danger",
+      });
+    },
+  });
+
+  const savedSearches = savedSearchesQuery.data ?? [];
+
+  const describePrice = (search: SavedSearch) => {
+    if (search.minPrice === null && search.maxPrice === null) return null;
+    if (search.maxPrice === null) {
+      return t("savedSearches.price.from", {
+        min: formatCompactNumber(search.minPrice ?? 0),
+      });
+    }
+    return t("savedSearches.price.range", {
+      min: formatCompactNumber(search.minPrice ?? 0),
+      max: formatCompactNumber(search.maxPrice),
+    });
+  };
+
+  return (
+    <Card className="theme-card-subtle">
+      <CardBody className="space-y-3">
+        <div>
+          <p className="font-display text-lg">{t("savedSearches.title")}</p>
+          <p className="text-xs text-ink-muted">
+            {user?.hasTelegram
+              ? t("savedSearches.subtitle")
+              : t("savedSearches.telegramHint")}
+          </p>
+        </div>
+        {savedSearchesQuery.isLoading ? (
+          <p className="text-sm text-ink-muted">{t("common.loading")}</p>
+        ) : savedSearches.length === 0 ? (
+          <p className="text-sm text-ink-muted">{t("savedSearches.empty")}</p>
+        ) : (
+          <ul className="divide-y divide-default-200">
+            {savedSearches.map((search) => {
+              const priceLabel = describePrice(search);
+              return (
+                <li key={search.id} className="flex items-center gap-3 py-2.5">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">{search.name}</p>
+                    <p className="truncate text-xs text-ink-muted">
+                      {[
+                        search.query
+                          ? t("savedSearches.queryLabel", { query: search.query })
+                          : null,
+                        search.categoryIds.length > 0
+                          ? t("savedSearches.categoryCount", {
+                              count: search.categoryIds.length,
+                            })
+                          : null,
+                        priceLabel,
+                        search.lastNotifiedAt
+                          ? t("savedSearches.lastAlert", {
+                              date: formatLocaleDate(
+                                new Date(search.lastNotifiedAt),
+                                locale,
+                                { month: "short", day: "2-digit" },
+                              ),
+                            })
+                          : null,
+                      ]
+                        .filter(Boolean)
+                        .join(" • ")}
+                    </p>
+                  </div>
+                  <Switch
+                    size="sm"
+                    isSelected={search.alertsEnabled}
+                    isDisabled={toggleMutation.isPending}
+                    onValueChange={(alertsEnabled) =>
+                      toggleMutation.mutate({ id: search.id, alertsEnabled })
+                    }
+                    aria-label={t("savedSearches.alertsAria", { name: search.name })}
+                  />
+                  <Button
+                    as="a"
+                    href={buildCatalogSearchPath(search)}
+                    size="sm"
+                    variant="light"
+                    isIconOnly
+                    aria-label={t("savedSearches.open")}
+                  >
+                    <ExternalLink size={16} />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="light"
+                    color="danger"
+                    isIconOnly
+                    aria-label={t("savedSearches.delete")}
+                    onPress={() => deleteMutation.mutate(search.id)}
+                    isLoading={
+                      deleteMutation.isPending && deleteMutation.variables === search.id
+                    }
+                  >
+                    <Trash2 size={16} />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,220 @@
+import { useRef, useState } from "react";
+import { Button, Card, CardBody, Chip, addToast } from "@heroui/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ShieldCheck, Upload } from "lucide-react";
+
+import { formatLocaleDate, useI18n } from "@/features/i18n";
+import { api, getApiErrorMessage } from "@/lib/api";
+
+type VerificationDocumentKind = "businessLicense" | "idDocument";
+
+type VerificationStatusResponse = {
+  verifiedAt: string | null;
+  latest: {
+    id: number;
+    status: "PENDING" | "APPROVED" | "REJECTED";
+    reviewNote: string | null;
+    reviewedAt: string | null;
+    createdAt: string;
+  } | null;
+};
+
+const VERIFICATION_QUERY_KEY = ["seller-verification"];
+const DOCUMENT_KINDS: VerificationDocumentKind[] = [
+  "businessLicense",
+  "idDocument",
+];
+
+function DocumentPicker({
+  kind,
+  file,
+  onChange,
+  isDisabled,
+}: {
+  kind: VerificationDocumentKind;
+  file: File | null;
+  onChange: (file: File | null) => void;
+  isDisabled: boolean;
+}) {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="flex items-center gap-3 rounded-xl border border-default-200 px-3 py-2.5">
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium">{t(`verification.${kind}`)}</p>
+        <p className="truncate text-xs text-ink-muted">
+          {file ? file.name : t(`verification.${kind}Hint`)}
+        </p>
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(event) => {
+          onChange(event.target.files?.[0] ?? null);
+          event.target.value = "";
+        }}
+      />
+      <Button
+        size="sm"
+        variant="flat"
+        className="theme-action-soft"
+        startContent={<Upload className="h-3.5 w-3.5" aria-hidden="true" />}
+        isDisabled={isDisabled}
+        onPress={() => inputRef.current?.click()}
+      >
+        {file ? t("verification.change") : t("verification.choose")}
+      </Button>
+    </div>
+  );
+}
+
+export default function SellerVerification() {
+  const queryClient = useQueryClient();
+  const { locale, t } = useI18n();
+  const [files, setFiles] = useState<
+    Record<VerificationDocumentKind, File | null>
+  >({
+    businessLicense: null,
+    idDocument: null,
+  });
+
+  const statusQuery = useQuery({
+    queryKey: VERIFICATION_QUERY_KEY,
+    queryFn: async () =>
+      (await api.get("/merchants/me/verification"))
+        .data as VerificationStatusResponse,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      DOCUMENT_KINDS.forEach((kind) => {
+        const file = files[kind];
+        if (file) formData.append(kind, file);
+      });
+      return (
+        await api.post("/merchants/me/verification", formData, {
+          headers: { "Content-Type": "multipart/form-data" },
+        })
+      ).data as VerificationStatusResponse;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(VERIFICATION_QUERY_KEY, data);
+      setFiles({ businessLicense: null, idDocument: null });
+      addToast({
+        title: t("verification.toast.submitted.title"),
+        description: t("verification.toast.submitted.description"),
+        color: "success",
+      });
+    },
+    onError: (error) => {
+      addToast({
+        title: t("verification.toast.failed.title"),
+        description: getApiErrorMessage(error),
+        color: "danger",
+      });
+    },
+  });
+
+  const verifiedAt = statusQuery.data?.verifiedAt ?? null;
+  const latest = statusQuery.data?.latest ?? null;
+  const isPending = latest?.status === "PENDING";
+  const hasAllFiles = DOCUMENT_KINDS.every((kind) => Boolean(files[kind]));
+
+  const formatDate = (value: string) => {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime())
+      ? value
+      : formatLocaleDate(date, locale, {
+          year: "numeric",
+          month: "long",
+          day: "numeric",
+        });
+  };
+
+  return (
+    <Card className="theme-card-subtle">
+      <CardBody className="space-y-3">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <p className="font-display text-lg">{t("verification.title")}</p>
+            <p className="text-xs text-ink-muted">
+              {t("verification.subtitle")}
+            </p>
+          </div>
+          {verifiedAt ? (
+            <Chip
+              size="sm"
+              variant="solid"
+              color="primary"
+              startContent={
+                <ShieldCheck className="h-3.5 w-3.5" aria-hidden="true" />
+              }
+            >
+              {t("verification.badge")}
+            </Chip>
+          ) : isPending ? (
+            <Chip size="sm" variant="flat" color="warning">
+              {t("verification.pendingChip")}
+            </Chip>
+          ) : null}
+        </div>
+
+        {statusQuery.isLoading ? (
+          <p className="text-sm text-ink-muted">{t("common.loading")}</p>
+        ) : verifiedAt ? (
+          <p className="text-sm text-ink-muted">
+            {t("verification.verifiedSince", { date: formatDate(verifiedAt) })}
+          </p>
+        ) : isPending && latest ? (
+          <p className="text-sm text-ink-muted">
+            {t("verification.pending", { date: formatDate(latest.createdAt) })}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {latest?.status === "REJECTED" ? (
+              <div className="rounded-xl border border-danger-200 bg-danger-50/60 px-3 py-2.5 text-sm">
+                <p className="font-medium text-danger">
+                  {t("verification.rejected")}
+                </p>
+                {latest.reviewNote ? (
+                  <p className="mt-0.5 text-xs text-ink-muted">
+                    {t("verification.rejectedNote", {
+                      note: latest.reviewNote,
+                    })}
+                  </p>
+                ) : null}
+              </div>
+            ) : null}
+            {DOCUMENT_KINDS.map((kind) => (
+              <DocumentPicker
+                key={kind}
+                kind={kind}
+                file={files[kind]}
+                isDisabled={submitMutation.isPending}
+                onChange={(file) =>
+                  setFiles((current) => ({ ...current, [kind]: file }))
+                }
+              />
+            ))}
+            <p className="text-xs text-ink-muted">
+              {t("verification.privacy")}
+            </p>
+            <Button
+              color="primary"
+              className="w-full sm:w-auto"
+              isDisabled={!hasAllFiles}
+              isLoading={submitMutation.isPending}
+              onPress={() => submitMutation.mutate()}
+            >
+              {t("verification.submit")}
+            </Button>
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
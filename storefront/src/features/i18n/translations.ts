@@ -114,6 +114,7 @@ const en = {
     'product.closeFilters': 'Close filters',
     'product.free': 'FREE',
     'product.preview': 'Preview',
+    'product.featured': 'Featured',
     'product.noDescription': 'No product description available yet.',
     'product.previewTitleFallback': 'Product Preview',
     'product.lastUpdated': 'Last updated {{date}}',
@@ -125,6 +126,14 @@ const en = {
     'product.previewAlt': '{{name}} preview {{index}}',
 
     'filters.unable': 'Unable to load filters.',
+    'filters.details': 'Item details',
+    'filters.yes': 'Yes',
+    'filters.no': 'No',
+    'filters.min': 'Min',
+    'filters.max': 'Max',
+    'filters.rangeHint': '{{min}} – {{max}}',
+    'filters.seller': 'Seller',
+    'filters.verifiedOnly': 'Verified sellers only',
 
     'grid.snag': 'We hit a snag',
     'grid.noProducts': 'No products found',
@@ -375,6 +384,29 @@ const en = {
     'merchantDashboard.toast.drafted.description':
         'This ad is now hidden from the public storefront.',
     'merchantDashboard.toast.visibilityFailed.title': 'Visibility update failed',
+    'merchantDashboard.stats.total': 'Total ads',
+    'merchantDashboard.stats.approved': 'Live',
+    'merchantDashboard.stats.pending': 'Pending',
+    'merchantDashboard.stats.favorites': 'Favorites',
+    'merchantDashboard.visibility.expired': 'Expired',
+    'merchantDashboard.expiresOn': 'Expires {{date}}',
+    'merchantDashboard.renew': 'Renew',
+    'merchantDashboard.toast.renewed.title': 'Ad renewed',
+    'merchantDashboard.toast.renewed.description': 'Your ad stays listed for another full period.',
+    'merchantDashboard.toast.renewFailed.title': 'Renewal failed',
+    'merchantDashboard.feature': 'Feature',
+    'merchantDashboard.extendFeature': 'Extend feature',
+    'merchantDashboard.featuredUntil': 'Featured until {{date}}',
+    'merchantDashboard.featureDialog.title': 'Feature this ad',
+    'merchantDashboard.featureDialog.description': 'Pin to the top of the catalog using loyalty points:',
+    'merchantDashboard.featureDialog.days': 'Days',
+    'merchantDashboard.featureDialog.cost': '{{points}} points for {{days}} day(s)',
+    'merchantDashboard.featureDialog.balance': 'Your balance: {{points}} points',
+    'merchantDashboard.featureDialog.notEnoughPoints': 'You do not have enough loyalty points for this duration.',
+    'merchantDashboard.featureDialog.confirm': 'Spend points',
+    'merchantDashboard.toast.featured.title': 'Ad featured',
+    'merchantDashboard.toast.featured.description': 'Your ad is now pinned to the top of its category.',
+    'merchantDashboard.toast.featureFailed.title': 'Could not feature ad',
 
     'merchantPostAd.phoneFormatError': 'Use 09XXXXXXXX or +2519XXXXXXXX format.',
     'merchantPostAd.boolean.yes': 'Yes',
@@ -424,10 +456,101 @@ const en = {
     'adImageUploader.nextImage': 'Next image',
     'adImageUploader.viewImageAria': 'View image {{index}}',
 
+    'report.action': 'Report',
+    'report.titleAd': 'Report this ad',
+    'report.titleComment': 'Report this review',
+    'report.reasonLabel': 'What is wrong?',
+    'report.reason.SCAM': 'Scam or fraud',
+    'report.reason.SPAM': 'Spam',
+    'report.reason.OFFENSIVE': 'Offensive or abusive',
+    'report.reason.PROHIBITED_ITEM': 'Prohibited item',
+    'report.reason.MISLEADING': 'Misleading information',
+    'report.reason.OTHER': 'Something else',
+    'report.detailsPlaceholder': 'Add details for our moderators (optional)',
+    'report.submit': 'Send report',
+    'report.toast.sent.title': 'Report sent',
+    'report.toast.already.title': 'Already reported',
+    'report.toast.sent.description': 'Thanks. Our moderators will review it.',
+    'report.toast.failed.title': 'Could not send report',
     'adPreview.contact': 'Contact',
     'adPreview.callAria': 'Call {{phone}}',
     'adPreview.revealPhoneAria': 'Reveal phone number',
     'adPreview.clickToReveal': 'Click to reveal',
+    'adPreview.seller': 'Seller',
+    'adPreview.viewSeller': 'View profile',
+
+    'adMessages.title': 'Message the seller',
+    'adMessages.hint': 'Ask about this item privately without sharing your phone number.',
+    'adMessages.messageSeller': 'Message seller',
+    'adMessages.signInToMessage': 'Sign in to message',
+    'adMessages.placeholder': 'Write a message',
+    'adMessages.send': 'Send message',
+    'adMessages.empty': 'No messages yet. Say hello!',
+    'adMessages.toast.sendFailed.title': 'Message not sent',
+    'adMessages.inbox.title': 'Messages',
+    'adMessages.inbox.unread': '{{count}} unread',
+    'adMessages.inbox.empty': 'No conversations yet.',
+    'adMessages.inbox.removedAd': 'Removed ad',
+    'savedSearches.title': 'Saved searches',
+    'savedSearches.subtitle': 'We message you on Telegram when new ads match.',
+    'savedSearches.telegramHint': 'Link your Telegram account to receive alerts for new matching ads.',
+    'savedSearches.empty': 'No saved searches yet. Filter the catalog and tap "Save search".',
+    'savedSearches.save': 'Save search',
+    'savedSearches.saved': 'Search saved',
+    'savedSearches.open': 'Open search',
+    'savedSearches.delete': 'Delete saved search',
+    'savedSearches.alertsAria': 'Alerts for {{name}}',
+    'savedSearches.queryLabel': '"{{query}}"',
+    'savedSearches.categoryCount': '{{count}} categories',
+    'savedSearches.price.range': '{{min}} – {{max}} Birr',
+    'savedSearches.price.from': 'From {{min}} Birr',
+    'savedSearches.lastAlert': 'Last alert {{date}}',
+    'savedSearches.toast.saved.title': 'Search saved',
+    'savedSearches.toast.saved.description': 'You will get a Telegram digest when new ads match.',
+    'savedSearches.toast.saveFailed.title': 'Could not save search',
+    'savedSearches.toast.updateFailed.title': 'Could not update alerts',
+    'savedSearches.toast.deleteFailed.title': 'Could not delete search',
+
+    'notifications.title': 'Telegram notifications',
+    'notifications.subtitle': 'Choose what we send you on Telegram. You can also use /settings in the bot.',
+    'notifications.telegramHint': 'Link your Telegram account to choose which notifications you receive.',
+    'notifications.type.announcement.label': 'Announcements',
+    'notifications.type.announcement.description': 'Important updates about Gebeya Pro.',
+    'notifications.type.news.label': 'News',
+    'notifications.type.news.description': 'Marketplace news and tips.',
+    'notifications.type.promotion.label': 'Promotions',
+    'notifications.type.promotion.description': 'Offers and featured deals.',
+    'notifications.type.new_review.label': 'Reviews on my ads',
+    'notifications.type.new_review.description': 'When someone rates or comments on your ad.',
+    'notifications.type.moderation_result.label': 'Ad moderation results',
+    'notifications.type.moderation_result.description': 'When your ad is approved or rejected.',
+    'notifications.type.price_alert.label': 'Favorite price alerts',
+    'notifications.type.price_alert.description': 'Price drops and removals of ads you saved.',
+    'notifications.type.conversation_message.label': 'Messages',
+    'notifications.type.conversation_message.description': 'New messages from buyers and sellers.',
+    'notifications.type.saved_search.label': 'Saved search matches',
+    'notifications.type.saved_search.description': 'New ads that match your saved searches.',
+    'notifications.type.ad_expiry.label': 'Ad expiry reminders',
+    'notifications.type.ad_expiry.description': 'When your ad is about to expire or has expired.',
+    'notifications.toast.updateFailed.title': 'Could not update notifications',
+    'sessions.title': 'Signed-in devices',
+    'sessions.subtitle': "Devices that can access your account. Sign out any you don't recognize.",
+    'sessions.empty': 'No active sessions.',
+    'sessions.current': 'This device',
+    'sessions.lastSeen': 'Last active {{date}}',
+    'sessions.revoke': 'Sign out',
+    'sessions.signOut': 'Sign out here',
+    'sessions.revokeOthers': 'Sign out other devices',
+    'sessions.toast.revoked.title': 'Device signed out',
+    'sessions.toast.revoked.description': '{{device}} no longer has access.',
+    'sessions.toast.revokedOthers.title': 'Other devices signed out',
+    'sessions.toast.revokedOthers.description': 'Signed out of {{count}} other session(s).',
+    'sessions.toast.revokeFailed.title': 'Could not sign out',
+    'favorites.title': 'Favorites',
+    'favorites.empty': 'Tap the heart on any ad to keep it here.',
+    'favorites.add': 'Add to favorites',
+    'favorites.remove': 'Remove from favorites',
+    'favorites.toast.failed.title': 'Could not update favorites',
 
     'adReviews.header.label': 'Community feedback',
     'adReviews.header.noRatings': 'No ratings yet',
@@ -446,6 +569,7 @@ const en = {
     'adReviews.comment.publish': 'Publish comment',
     'adReviews.comment.empty': 'No comment provided.',
     'adReviews.comment.edited': 'Edited',
+    'adReviews.comment.held': 'Awaiting approval',
     'adReviews.reply.action': 'Reply',
     'adReviews.reply.depthLimit': 'Thread depth limit reached',
     'adReviews.reply.to': 'Replying to {{name}}',
@@ -481,6 +605,8 @@ const en = {
     'adReviews.toast.commentRequired.description': 'Please write a short comment before publishing.',
     'adReviews.toast.commentPublished.title': 'Comment published',
     'adReviews.toast.commentPublished.description': 'Your comment is now visible in this ad.',
+    'adReviews.toast.commentHeld.title': 'Sent for review',
+    'adReviews.toast.commentHeld.description': 'A moderator will check your comment before others can see it.',
     'adReviews.toast.commentFailed.title': 'Could not publish comment',
     'adReviews.toast.replyRequired.title': 'Reply required',
     'adReviews.toast.replyRequired.description': 'Write a quick reply before posting.',
@@ -495,6 +621,20 @@ const en = {
     'adReviews.toast.deleteSuccess.title': 'Comment deleted',
     'adReviews.toast.deleteSuccess.description': 'Your comment has been removed.',
     'adReviews.toast.deleteFailed.title': 'Could not delete comment',
+    'adReviews.toast.voteFailed.title': 'Could not save your vote',
+    'adReviews.vote.helpful': 'Helpful',
+    'adReviews.vote.helpfulCount': 'Helpful ({{count}})',
+    'adReviews.vote.notHelpful': 'Not helpful',
+    'adReviews.sort.label': 'Sort reviews',
+    'adReviews.sort.newest': 'Newest',
+    'adReviews.sort.helpful': 'Most helpful',
+    'adReviews.sort.rating_desc': 'Highest rating',
+    'adReviews.sort.rating_asc': 'Lowest rating',
+    'adReviews.photos.add': 'Photos ({{count}}/{{max}})',
+    'adReviews.photos.remove': 'Remove photo',
+    'adReviews.photos.limit': 'You can attach up to {{count}} photos.',
+    'adReviews.photos.title': 'Review photos',
+    'adReviews.photos.open': 'Open photo {{index}}',
 
     'footer.about':
         'Gebeya Pro helps merchants showcase products through structured listings with photos, pricing, and clear contact details so buyers can quickly discover options and reach out directly.',
@@ -526,6 +666,43 @@ const en = {
     'contact.sending': 'Sending...',
     'contact.send': 'Send message',
 
+    'verification.title': 'Seller verification',
+    'verification.subtitle': 'Verified sellers get a badge on their ads and profile, and buyers can filter for them.',
+    'verification.badge': 'Verified seller',
+    'verification.verifiedSince': 'Your account has been verified since {{date}}.',
+    'verification.pendingChip': 'In review',
+    'verification.pending': 'Documents submitted on {{date}}. We will message you on Telegram once they are reviewed.',
+    'verification.rejected': 'Your last submission was not approved.',
+    'verification.rejectedNote': 'Reviewer note: {{note}}',
+    'verification.businessLicense': 'Business license',
+    'verification.businessLicenseHint': 'A clear photo of your trade or business license.',
+    'verification.idDocument': 'ID document',
+    'verification.idDocumentHint': 'Kebele ID, national ID or passport of the account owner.',
+    'verification.choose': 'Choose photo',
+    'verification.change': 'Change',
+    'verification.privacy': 'Documents are only visible to our review team and are never shown to buyers.',
+    'verification.submit': 'Submit for review',
+    'verification.toast.submitted.title': 'Documents submitted',
+    'verification.toast.submitted.description': 'We will let you know once they are reviewed.',
+    'verification.toast.failed.title': 'Could not submit documents',
+    'seller.notFound.title': 'Seller not found',
+    'seller.notFound.body': 'This seller profile does not exist or is no longer available.',
+    'seller.loadFailed': 'Could not load this seller. Try again later.',
+    'seller.memberSince': 'Member since {{date}}',
+    'seller.telegramVerified': 'Telegram verified',
+    'seller.rating': 'Rating',
+    'seller.reviews': '{{count}} reviews',
+    'seller.noReviews': 'No reviews yet',
+    'seller.activeAds': 'Active ads',
+    'seller.responseRate': 'Response rate',
+    'seller.responseTime': 'Typical reply',
+    'seller.responseUnknown': 'Not enough chats yet',
+    'seller.minutes': '{{count}} min',
+    'seller.hours': '{{count}} h',
+    'seller.days': '{{count}} d',
+    'seller.adsHeading': 'Ads from {{name}}',
+    'seller.noAds': 'This seller has no live ads right now.',
+
     'notFound.title': 'Page Not Found',
     'notFound.description': 'The page you are looking for does not exist.',
     'notFound.error': 'Error 404',
@@ -652,6 +829,7 @@ const am: TranslationMap = {
     'product.closeFilters': 'ማጣሪያ ዝጋ',
     'product.free': 'ነጻ',
     'product.preview': 'ቅድመ እይታ',
+    'product.featured': 'ተለይቶ የቀረበ',
     'product.noDescription': 'መግለጫ የለም።',
     'product.previewTitleFallback': 'የምርት እይታ',
     'product.lastUpdated': 'የተዘመነው {{date}}',
@@ -663,6 +841,14 @@ const am: TranslationMap = {
     'product.previewAlt': '{{name}} እይታ {{index}}',
 
     'filters.unable': 'ማጣሪያ አልተገኘም።',
+    'filters.details': 'የእቃ ዝርዝሮች',
+    'filters.yes': 'አዎ',
+    'filters.no': 'አይ',
+    'filters.min': 'ዝቅተኛ',
+    'filters.max': 'ከፍተኛ',
+    'filters.rangeHint': '{{min}} – {{max}}',
+    'filters.seller': 'ሻጭ',
+    'filters.verifiedOnly': 'የተረጋገጡ ሻጮች ብቻ',
 
     'grid.snag': 'ችግር አጋጥሟል',
     'grid.noProducts': 'ምርቶች አልተገኙም',
@@ -905,6 +1091,29 @@ const am: TranslationMap = {
     'merchantDashboard.toast.drafted.description':
         'ይህ ማስታወቂያ ከህዝብ ማሳያ ገጽ ላይ ተደብቋል።',
     'merchantDashboard.toast.visibilityFailed.title': 'የታይነት ማዘመን አልተሳካም',
+    'merchantDashboard.stats.total': 'ጠቅላላ ማስታወቂያዎች',
+    'merchantDashboard.stats.approved': 'በቀጥታ ያሉ',
+    'merchantDashboard.stats.pending': 'በመጠባበቅ ላይ',
+    'merchantDashboard.stats.favorites': 'የተወደዱ',
+    'merchantDashboard.visibility.expired': 'ጊዜው ያለፈበት',
+    'merchantDashboard.expiresOn': '{{date}} ያበቃል',
+    'merchantDashboard.renew': 'አድስ',
+    'merchantDashboard.toast.renewed.title': 'ማስታወቂያው ታድሷል',
+    'merchantDashboard.toast.renewed.description': 'ማስታወቂያዎ ለሌላ ሙሉ ጊዜ ይታያል።',
+    'merchantDashboard.toast.renewFailed.title': 'ማደስ አልተሳካም',
+    'merchantDashboard.feature': 'አጉላ',
+    'merchantDashboard.extendFeature': 'ማጉላቱን አራዝም',
+    'merchantDashboard.featuredUntil': 'እስከ {{date}} ተለይቶ ይቀርባል',
+    'merchantDashboard.featureDialog.title': 'ይህን ማስታወቂያ አጉላ',
+    'merchantDashboard.featureDialog.description': 'በታማኝነት ነጥቦች በካታሎጉ አናት ላይ ያስቀምጡ:',
+    'merchantDashboard.featureDialog.days': 'ቀናት',
+    'merchantDashboard.featureDialog.cost': 'ለ{{days}} ቀን(ቀናት) {{points}} ነጥቦች',
+    'merchantDashboard.featureDialog.balance': 'ቀሪ ሂሳብዎ: {{points}} ነጥቦች',
+    'merchantDashboard.featureDialog.notEnoughPoints': 'ለዚህ ጊዜ በቂ የታማኝነት ነጥቦች የሉዎትም።',
+    'merchantDashboard.featureDialog.confirm': 'ነጥቦችን ተጠቀም',
+    'merchantDashboard.toast.featured.title': 'ማስታወቂያው ጎልቶ ቀርቧል',
+    'merchantDashboard.toast.featured.description': 'ማስታወቂያዎ አሁን በምድቡ አናት ላይ ተቀምጧል።',
+    'merchantDashboard.toast.featureFailed.title': 'ማስታወቂያውን ማጉላት አልተቻለም',
 
     'merchantPostAd.phoneFormatError': '09XXXXXXXX ወይም +2519XXXXXXXX ቅርጸት ይጠቀሙ።',
     'merchantPostAd.boolean.yes': 'አዎ',
@@ -954,10 +1163,101 @@ const am: TranslationMap = {
     'adImageUploader.nextImage': 'ቀጣይ ምስል',
     'adImageUploader.viewImageAria': 'ምስል {{index}} አሳይ',
 
+    'report.action': 'ሪፖርት አድርግ',
+    'report.titleAd': 'ይህን ማስታወቂያ ሪፖርት ያድርጉ',
+    'report.titleComment': 'ይህን ግምገማ ሪፖርት ያድርጉ',
+    'report.reasonLabel': 'ችግሩ ምንድን ነው?',
+    'report.reason.SCAM': 'ማጭበርበር',
+    'report.reason.SPAM': 'አይፈለጌ መልዕክት',
+    'report.reason.OFFENSIVE': 'አፀያፊ ወይም ስድብ',
+    'report.reason.PROHIBITED_ITEM': 'የተከለከለ እቃ',
+    'report.reason.MISLEADING': 'አሳሳች መረጃ',
+    'report.reason.OTHER': 'ሌላ ነገር',
+    'report.detailsPlaceholder': 'ለአወያዮቻችን ዝርዝር ያክሉ (አማራጭ)',
+    'report.submit': 'ሪፖርት ላክ',
+    'report.toast.sent.title': 'ሪፖርቱ ተልኳል',
+    'report.toast.already.title': 'አስቀድመው ሪፖርት አድርገዋል',
+    'report.toast.sent.description': 'እናመሰግናለን። አወያዮቻችን ይመለከቱታል።',
+    'report.toast.failed.title': 'ሪፖርቱን መላክ አልተቻለም',
     'adPreview.contact': 'መገናኛ',
     'adPreview.callAria': '{{phone}} ይደውሉ',
     'adPreview.revealPhoneAria': 'ስልክ ቁጥሩን አሳይ',
     'adPreview.clickToReveal': 'ለማሳየት ይጫኑ',
+    'adPreview.seller': 'ሻጭ',
+    'adPreview.viewSeller': 'መገለጫ ይመልከቱ',
+
+    'adMessages.title': 'ሻጩን ያነጋግሩ',
+    'adMessages.hint': 'ስልክ ቁጥርዎን ሳያጋሩ ስለዚህ እቃ በግል ይጠይቁ።',
+    'adMessages.messageSeller': 'ለሻጩ መልዕክት ይላኩ',
+    'adMessages.signInToMessage': 'መልዕክት ለመላክ ይግቡ',
+    'adMessages.placeholder': 'መልዕክት ይጻፉ',
+    'adMessages.send': 'መልዕክት ላክ',
+    'adMessages.empty': 'እስካሁን መልዕክት የለም። ሰላም ይበሉ!',
+    'adMessages.toast.sendFailed.title': 'መልዕክቱ አልተላከም',
+    'adMessages.inbox.title': 'መልዕክቶች',
+    'adMessages.inbox.unread': '{{count}} ያልተነበቡ',
+    'adMessages.inbox.empty': 'እስካሁን ምንም ውይይት የለም።',
+    'adMessages.inbox.removedAd': 'የተወገደ ማስታወቂያ',
+    'savedSearches.title': 'የተቀመጡ ፍለጋዎች',
+    'savedSearches.subtitle': 'አዲስ የሚዛመዱ ማስታወቂያዎች ሲገኙ በቴሌግራም እናሳውቅዎታለን።',
+    'savedSearches.telegramHint': 'ለአዲስ ተዛማጅ ማስታወቂያዎች ማሳወቂያ ለመቀበል የቴሌግራም መለያዎን ያገናኙ።',
+    'savedSearches.empty': 'እስካሁን የተቀመጠ ፍለጋ የለም። ካታሎጉን አጣርተው "ፍለጋውን አስቀምጥ" ይጫኑ።',
+    'savedSearches.save': 'ፍለጋውን አስቀምጥ',
+    'savedSearches.saved': 'ፍለጋው ተቀምጧል',
+    'savedSearches.open': 'ፍለጋውን ክፈት',
+    'savedSearches.delete': 'የተቀመጠውን ፍለጋ ሰርዝ',
+    'savedSearches.alertsAria': 'ለ{{name}} ማሳወቂያዎች',
+    'savedSearches.queryLabel': '"{{query}}"',
+    'savedSearches.categoryCount': '{{count}} ምድቦች',
+    'savedSearches.price.range': '{{min}} – {{max}} ብር',
+    'savedSearches.price.from': 'ከ{{min}} ብር ጀምሮ',
+    'savedSearches.lastAlert': 'የመጨረሻ ማሳወቂያ {{date}}',
+    'savedSearches.toast.saved.title': 'ፍለጋው ተቀምጧል',
+    'savedSearches.toast.saved.description': 'አዲስ ተዛማጅ ማስታወቂያዎች ሲገኙ በቴሌግራም ማጠቃለያ ይደርስዎታል።',
+    'savedSearches.toast.saveFailed.title': 'ፍለጋውን ማስቀመጥ አልተቻለም',
+    'savedSearches.toast.updateFailed.title': 'ማሳወቂያዎችን ማዘመን አልተቻለም',
+    'savedSearches.toast.deleteFailed.title': 'ፍለጋውን መሰረዝ አልተቻለም',
+
+    'notifications.title': 'የቴሌግራም ማሳወቂያዎች',
+    'notifications.subtitle': 'በቴሌግራም የምንልክልዎትን ይምረጡ። በቦቱ ውስጥ /settings መጠቀምም ይችላሉ።',
+    'notifications.telegramHint': 'የሚደርስዎትን ማሳወቂያዎች ለመምረጥ የቴሌግራም መለያዎን ያገናኙ።',
+    'notifications.type.announcement.label': 'ማስታወቂያዎች',
+    'notifications.type.announcement.description': 'ስለ ገበያ ፕሮ አስፈላጊ መረጃዎች።',
+    'notifications.type.news.label': 'ዜና',
+    'notifications.type.news.description': 'የገበያ ዜናዎች እና ምክሮች።',
+    'notifications.type.promotion.label': 'ፕሮሞሽኖች',
+    'notifications.type.promotion.description': 'ቅናሾች እና ተለይተው የቀረቡ ዕድሎች።',
+    'notifications.type.new_review.label': 'በማስታወቂያዎቼ ላይ ግምገማዎች',
+    'notifications.type.new_review.description': 'አንድ ሰው ማስታወቂያዎን ሲገመግም ወይም አስተያየት ሲሰጥ።',
+    'notifications.type.moderation_result.label': 'የማስታወቂያ ግምገማ ውጤቶች',
+    'notifications.type.moderation_result.description': 'ማስታወቂያዎ ሲጸድቅ ወይም ውድቅ ሲደረግ።',
+    'notifications.type.price_alert.label': 'የተወዳጆች የዋጋ ማሳወቂያዎች',
+    'notifications.type.price_alert.description': 'ያስቀመጧቸው ማስታወቂያዎች ዋጋ ሲቀንስ ወይም ሲወገዱ።',
+    'notifications.type.conversation_message.label': 'መልዕክቶች',
+    'notifications.type.conversation_message.description': 'ከገዢዎች እና ሻጮች የሚመጡ አዲስ መልዕክቶች።',
+    'notifications.type.saved_search.label': 'የተቀመጡ ፍለጋዎች ውጤቶች',
+    'notifications.type.saved_search.description': 'ከተቀመጡ ፍለጋዎችዎ ጋር የሚዛመዱ አዲስ ማስታወቂያዎች።',
+    'notifications.type.ad_expiry.label': 'የማስታወቂያ ማብቂያ አስታዋሾች',
+    'notifications.type.ad_expiry.description': 'ማስታወቂያዎ ሊያበቃ ሲቃረብ ወይም ሲያበቃ።',
+    'notifications.toast.updateFailed.title': 'ማሳወቂያዎችን ማዘመን አልተቻለም',
+    'sessions.title': 'የገቡ መሣሪያዎች',
+    'sessions.subtitle': 'መለያዎን መድረስ የሚችሉ መሣሪያዎች። የማያውቁትን ያስወጡ።',
+    'sessions.empty': 'ንቁ ክፍለ ጊዜ የለም።',
+    'sessions.current': 'ይህ መሣሪያ',
+    'sessions.lastSeen': 'መጨረሻ የታየው {{date}}',
+    'sessions.revoke': 'አስወጣ',
+    'sessions.signOut': 'ከዚህ ውጣ',
+    'sessions.revokeOthers': 'ሌሎች መሣሪያዎችን አስወጣ',
+    'sessions.toast.revoked.title': 'መሣሪያው ወጥቷል',
+    'sessions.toast.revoked.description': '{{device}} ከእንግዲህ መዳረሻ የለውም።',
+    'sessions.toast.revokedOthers.title': 'ሌሎች መሣሪያዎች ወጥተዋል',
+    'sessions.toast.revokedOthers.description': '{{count}} ሌሎች ክፍለ ጊዜዎች ተዘግተዋል።',
+    'sessions.toast.revokeFailed.title': 'ማስወጣት አልተቻለም',
+    'favorites.title': 'የወደዷቸው',
+    'favorites.empty': 'እዚህ ለማስቀመጥ በማንኛውም ማስታወቂያ ላይ ያለውን ልብ ይጫኑ።',
+    'favorites.add': 'ወደ ተወዳጆች ጨምር',
+    'favorites.remove': 'ከተወዳጆች አስወግድ',
+    'favorites.toast.failed.title': 'ተወዳጆችን ማዘመን አልተቻለም',
 
     'adReviews.header.label': 'የማህበረሰብ አስተያየት',
     'adReviews.header.noRatings': 'እስካሁን የተሰጠ ደረጃ የለም',
@@ -976,6 +1276,7 @@ const am: TranslationMap = {
     'adReviews.comment.publish': 'አስተያየት አትም',
     'adReviews.comment.empty': 'ምንም አስተያየት አልተሰጠም።',
     'adReviews.comment.edited': 'ተስተካክሏል',
+    'adReviews.comment.held': 'ማረጋገጫ በመጠባበቅ ላይ',
     'adReviews.reply.action': 'መልስ',
     'adReviews.reply.depthLimit': 'የውይይት ጥልቀት ገደብ ደርሷል',
     'adReviews.reply.to': 'ለ {{name}} ምላሽ በመስጠት ላይ',
@@ -1011,6 +1312,8 @@ const am: TranslationMap = {
     'adReviews.toast.commentRequired.description': 'ከማተምዎ በፊት አጭር አስተያየት ይጻፉ።',
     'adReviews.toast.commentPublished.title': 'አስተያየቱ ታትሟል',
     'adReviews.toast.commentPublished.description': 'አስተያየትዎ አሁን በዚህ ማስታወቂያ ላይ ይታያል።',
+    'adReviews.toast.commentHeld.title': 'ለግምገማ ተልኳል',
+    'adReviews.toast.commentHeld.description': 'ሌሎች ከማየታቸው በፊት አወያይ አስተያየትዎን ይመለከታል።',
     'adReviews.toast.commentFailed.title': 'አስተያየት ማተም አልተቻለም',
     'adReviews.toast.replyRequired.title': 'መልስ ያስፈልጋል',
     'adReviews.toast.replyRequired.description': 'ከማስገባት በፊት አጭር መልስ ይጻፉ።',
@@ -1025,6 +1328,20 @@ const am: TranslationMap = {
     'adReviews.toast.deleteSuccess.title': 'አስተያየቱ ተሰርዟል',
     'adReviews.toast.deleteSuccess.description': 'አስተያየትዎ ተወግዷል።',
     'adReviews.toast.deleteFailed.title': 'አስተያየት መሰረዝ አልተቻለም',
+    'adReviews.toast.voteFailed.title': 'ድምጽዎን ማስቀመጥ አልተቻለም',
+    'adReviews.vote.helpful': 'ጠቃሚ',
+    'adReviews.vote.helpfulCount': 'ጠቃሚ ({{count}})',
+    'adReviews.vote.notHelpful': 'ጠቃሚ አይደለም',
+    'adReviews.sort.label': 'አስተያየቶችን ደርድር',
+    'adReviews.sort.newest': 'አዲስ',
+    'adReviews.sort.helpful': 'በጣም ጠቃሚ',
+    'adReviews.sort.rating_desc': 'ከፍተኛ ደረጃ',
+    'adReviews.sort.rating_asc': 'ዝቅተኛ ደረጃ',
+    'adReviews.photos.add': 'ፎቶዎች ({{count}}/{{max}})',
+    'adReviews.photos.remove': 'ፎቶውን አስወግድ',
+    'adReviews.photos.limit': 'እስከ {{count}} ፎቶዎች ብቻ ማያያዝ ይችላሉ።',
+    'adReviews.photos.title': 'የአስተያየት ፎቶዎች',
+    'adReviews.photos.open': 'ፎቶ {{index}} ክፈት',
 
     'footer.about':
         'Gebeya Pro ነጋዴዎች ምርቶቻቸውን በፎቶ፣ በዋጋ እና በግልጽ የመገናኛ መረጃ የተደራጀ ማስታወቂያ እንዲያቀርቡ የሚያግዝ መድረክ ነው፤ ገዢዎችም አማራጮችን በፍጥነት አግኝተው በቀጥታ መገናኘት ይችላሉ።',
@@ -1055,6 +1372,43 @@ const am: TranslationMap = {
     'contact.sending': 'በመላክ ላይ...',
     'contact.send': 'ላክ',
 
+    'verification.title': 'የሻጭ ማረጋገጫ',
+    'verification.subtitle': 'የተረጋገጡ ሻጮች በማስታወቂያቸውና በመገለጫቸው ላይ ምልክት ያገኛሉ፣ ገዢዎችም በእነሱ ማጣራት ይችላሉ።',
+    'verification.badge': 'የተረጋገጠ ሻጭ',
+    'verification.verifiedSince': 'መለያዎ ከ{{date}} ጀምሮ ተረጋግጧል።',
+    'verification.pendingChip': 'በግምገማ ላይ',
+    'verification.pending': 'ሰነዶች በ{{date}} ገብተዋል። ሲገመገሙ በቴሌግራም እናሳውቅዎታለን።',
+    'verification.rejected': 'ያለፈው ማመልከቻዎ አልጸደቀም።',
+    'verification.rejectedNote': 'የገምጋሚ ማስታወሻ፦ {{note}}',
+    'verification.businessLicense': 'የንግድ ፈቃድ',
+    'verification.businessLicenseHint': 'የንግድ ፈቃድዎ ግልጽ ፎቶ።',
+    'verification.idDocument': 'መታወቂያ',
+    'verification.idDocumentHint': 'የመለያው ባለቤት የቀበሌ፣ የብሔራዊ መታወቂያ ወይም ፓስፖርት።',
+    'verification.choose': 'ፎቶ ይምረጡ',
+    'verification.change': 'ቀይር',
+    'verification.privacy': 'ሰነዶቹ የሚታዩት ለገምጋሚ ቡድናችን ብቻ ነው፤ ለገዢዎች አይታዩም።',
+    'verification.submit': 'ለግምገማ ያስገቡ',
+    'verification.toast.submitted.title': 'ሰነዶች ገብተዋል',
+    'verification.toast.submitted.description': 'ሲገመገሙ እናሳውቅዎታለን።',
+    'verification.toast.failed.title': 'ሰነዶችን ማስገባት አልተቻለም',
+    'seller.notFound.title': 'ሻጩ አልተገኘም',
+    'seller.notFound.body': 'ይህ የሻጭ መገለጫ የለም ወይም ከእንግዲህ አይገኝም።',
+    'seller.loadFailed': 'ሻጩን መጫን አልተቻለም። ቆይተው እንደገና ይሞክሩ።',
+    'seller.memberSince': 'ከ{{date}} ጀምሮ አባል',
+    'seller.telegramVerified': 'በቴሌግራም የተረጋገጠ',
+    'seller.rating': 'ደረጃ',
+    'seller.reviews': '{{count}} ግምገማዎች',
+    'seller.noReviews': 'እስካሁን ግምገማ የለም',
+    'seller.activeAds': 'ንቁ ማስታወቂያዎች',
+    'seller.responseRate': 'የምላሽ መጠን',
+    'seller.responseTime': 'የተለመደ ምላሽ',
+    'seller.responseUnknown': 'በቂ ውይይቶች የሉም',
+    'seller.minutes': '{{count}} ደቂቃ',
+    'seller.hours': '{{count}} ሰዓት',
+    'seller.days': '{{count}} ቀን',
+    'seller.adsHeading': 'የ{{name}} ማስታወቂያዎች',
+    'seller.noAds': 'ይህ ሻጭ አሁን ንቁ ማስታወቂያ የለውም።',
+
     'notFound.title': 'ገጹ አልተገኘም',
     'notFound.description': 'የሚፈልጉት ገጽ የለም።',
     'notFound.error': 'ስህተት 404',
@@ -7,6 +7,7 @@ import { API_BASE } from "@/config/env";
 import { api, getApiErrorMessage } from "@/lib/api";
 import { useAuth } from "@/features/auth/hooks/useAuth";
 import { logout } from "@/features/auth/store/authStore";
+import { getRefreshToken } from "@/features/auth/utils/token";
 import {
   getAvatarSrc,
   getInitials,
@@ -98,7 +99,7 @@ function NavbarContentRoot() {
     setIsLoggingOut(true);
 
     const serverOk = await api
-      .post("/auth/logout")
+      .post("/auth/logout", { refreshToken: getRefreshToken() ?? undefined })
       .then(() => true)
       .catch((error: unknown) => {
         addToast({
@@ -1,8 +1,31 @@
+import type { ReactNode } from "react";
 import { formatBirrLabel } from "@/lib/money";
 import { resolveImageUrl } from "@/lib/images";
-import type { Ad } from "@/features/products/types";
+import type { Ad, AdSearchHighlight } from "@/features/products/types";
 import { useI18n } from "@/features/i18n";
-import { MapPin } from "lucide-react";
+import { MapPin, ShieldCheck } from "lucide-react";
+import { FavoriteButton } from "./FavoriteButton";
+
+function renderHighlightedText(highlight: AdSearchHighlight) {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  highlight.matches.forEach(([start, end], index) => {
+    if (start < cursor || end > highlight.text.length) return;
+    if (start > cursor) {
+      parts.push(highlight.text.slice(cursor, start));
+    }
+    parts.push(
+      <mark key={`match-${index}`} className="rounded-sm bg-warning-200/70 px-0.5 text-inherit">
+        {highlight.text.slice(start, end)}
+      </mark>,
+    );
+    cursor = end;
+  });
+  if (cursor < highlight.text.length) {
+    parts.push(highlight.text.slice(cursor));
+  }
+  return parts;
+}
 
 export function AdCard({
   ad,
@@ -26,6 +49,15 @@ export function AdCard({
     ad.description && ad.description.trim().length > 0
       ? ad.description
       : t("product.noDescription");
+  const highlight =
+    ad.searchHighlight && ad.searchHighlight.matches.length > 0
+      ? ad.searchHighlight
+      : null;
+  const highlightLabel =
+    highlight?.field === "itemDetails" && highlight.key
+      ? (ad.category?.dynamicFields?.find((field) => field.key === highlight.key)
+          ?.label ?? highlight.key)
+      : null;
   const addressText = ad.address && ad.address.trim().length > 0 ? ad.address : "-";
 
   return (
@@ -57,6 +89,18 @@ export function AdCard({
             {ad.category.name}
           </span>
         ) : null}
+        <span
+          className="absolute right-3 top-3"
+          onClick={(event) => event.stopPropagation()}
+          onKeyDown={(event) => event.stopPropagation()}
+        >
+          <FavoriteButton ad={ad} className="theme-chip-contrast" />
+        </span>
+        {ad.isFeatured ? (
+          <span className="theme-chip-contrast absolute bottom-3 left-3 rounded-full px-2.5 py-1 text-[10px] uppercase tracking-[0.2em]">
+            {t("product.featured")}
+          </span>
+        ) : null}
         <span className="theme-chip-contrast absolute bottom-3 right-3 rounded-full px-2.5 py-1 text-[10px] uppercase tracking-[0.2em]">
           {t("product.preview")}
         </span>
@@ -74,11 +118,27 @@ export function AdCard({
         )}
 
         <h3 className="text-sm font-semibold leading-snug line-clamp-1 md:text-base">
-          {ad.name}
+          {highlight?.field === "name" ? renderHighlightedText(highlight) : ad.name}
         </h3>
 
+        {ad.merchant?.verifiedAt ? (
+          <p className="flex items-center gap-1 text-xs font-medium text-primary">
+            <ShieldCheck className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+            {t("verification.badge")}
+          </p>
+        ) : null}
+
         <p className="line-clamp-3 text-xs leading-relaxed text-ink-muted md:text-sm">
-          {descriptionText}
+          {highlight && highlight.field !== "name" ? (
+            <>
+              {highlightLabel ? (
+                <span className="font-medium">{highlightLabel}: </span>
+              ) : null}
+              {renderHighlightedText(highlight)}
+            </>
+          ) : (
+            descriptionText
+          )}
         </p>
 
         <div className="mt-auto rounded-lg border border-default-200/80 bg-background/60 px-2.5 py-1.5">
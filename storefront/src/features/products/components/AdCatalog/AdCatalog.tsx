@@ -2,22 +2,42 @@ import { useEffect, useMemo, useState } from "react";
 import { Button, Input } from "@heroui/react";
 import { SlidersHorizontal } from "lucide-react";
 
+import { api } from "@/lib/api";
 import { stripTrailingSlash } from "@/lib/url";
 import { useAds } from "@/features/products/hooks/useAds";
 import { useAdFilters } from "@/features/products/hooks/useAdFilters";
 import { useAuth } from "@/features/auth/hooks/useAuth";
 import QueryProvider from "@/app/QueryProvider";
 import { I18nProvider, useI18n } from "@/features/i18n";
-import { consumeQueryFlag } from "@/lib/navigation";
+import { consumeQueryFlag, consumeQueryParam } from "@/lib/navigation";
 
 import { AdFilters } from "./AdFilters";
 import { AdGrid } from "./AdGrid";
 import { AdPreviewModal } from "./AdPreviewModal";
 import { PostAdModal } from "./PostAdModal";
-import type { Ad } from "@/features/products/types";
+import { SaveSearchButton } from "./SaveSearchButton";
+import type { Ad, ItemDetailsFilterValue } from "@/features/products/types";
 
 const REVIEW_DRAFT_STORAGE_KEY = "pending-ad-review-draft-v1";
 
+function serializeDetailFilters(
+  detailFilters: Record<string, ItemDetailsFilterValue>,
+): string | null {
+  const payload: Record<string, string[] | { min?: string; max?: string }> = {};
+  for (const [key, value] of Object.entries(detailFilters)) {
+    if (Array.isArray(value)) {
+      if (value.length > 0) payload[key] = value;
+      continue;
+    }
+    const min = value.min.trim();
+    const max = value.max.trim();
+    if (min || max) {
+      payload[key] = { ...(min ? { min } : {}), ...(max ? { max } : {}) };
+    }
+  }
+  return Object.keys(payload).length > 0 ? JSON.stringify(payload) : null;
+}
+
 function readPendingReviewAdSnapshot(): Ad | null {
   if (typeof window === "undefined") return null;
   const raw = window.sessionStorage.getItem(REVIEW_DRAFT_STORAGE_KEY);
@@ -83,6 +103,10 @@ function AdCatalogContent({
     () => new Set(),
   );
   const [priceBucket, setPriceBucket] = useState("all");
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
+  const [detailFilters, setDetailFilters] = useState<
+    Record<string, ItemDetailsFilterValue>
+  >({});
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -125,6 +149,37 @@ function AdCatalogContent({
     }
   }, [authReady]);
 
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    // Saved search links and digests open the catalog with ?q=&categoryIds=.
+    const initialQuery = consumeQueryParam("q");
+    const initialCategoryIds = (consumeQueryParam("categoryIds") ?? "")
+      .split(",")
+      .map((value) => Number(value))
+      .filter((value) => Number.isInteger(value) && value > 0);
+
+    if (initialQuery) {
+      setSearch(initialQuery);
+    }
+    if (initialCategoryIds.length > 0) {
+      setActiveCategories(new Set(initialCategoryIds));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    // Announcement buttons deep link to a single ad with ?ad=<id>.
+    const adId = Number(consumeQueryParam("ad"));
+    if (!Number.isInteger(adId) || adId <= 0) return;
+
+    api
+      .get<Ad>(`${baseUrl}/v1/ads/${adId}`)
+      .then((response) => setPreviewAd(response.data))
+      .catch(() => {
+        // The ad may have been sold or archived since the link was sent.
+      });
+  }, [baseUrl]);
+
   useEffect(() => {
     if (typeof window === "undefined") return;
     const openFromBottomNav = (event: Event) => {
@@ -140,6 +195,15 @@ function AdCatalogContent({
     [activeCategories],
   );
 
+  // Item detail filters only apply while exactly one category is selected.
+  const detailFiltersParam = useMemo(
+    () =>
+      activeCategoryIds.length === 1
+        ? serializeDetailFilters(detailFilters)
+        : null,
+    [activeCategoryIds, detailFilters],
+  );
+
   const filtersQuery = useMemo(() => {
     const params = new URLSearchParams();
     const trimmed = search.trim();
@@ -152,12 +216,21 @@ function AdCatalogContent({
       params.set("categoryIds", activeCategoryIds.join(","));
     }
 
+    if (detailFiltersParam) {
+      params.set("itemDetails", detailFiltersParam);
+    }
+
+    if (verifiedOnly) {
+      params.set("verified", "true");
+    }
+
     return params.toString();
-  }, [activeCategoryIds, search]);
+  }, [activeCategoryIds, detailFiltersParam, search, verifiedOnly]);
 
   const {
     categories,
     priceRanges,
+    facets,
     isLoading: filtersLoading,
     error: filtersError,
     reload: reloadFilters,
@@ -192,24 +265,58 @@ function AdCatalogContent({
       params.set("maxPrice", String(selectedRange.max));
     }
 
+    if (detailFiltersParam) {
+      params.set("itemDetails", detailFiltersParam);
+    }
+
+    if (verifiedOnly) {
+      params.set("verified", "true");
+    }
+
     params.set("page", "1");
     params.set("limit", "100");
     params.set("status", "APPROVED");
     return params.toString();
-  }, [activeCategoryIds, priceBucket, search, selectedRange]);
+  }, [
+    activeCategoryIds,
+    detailFiltersParam,
+    priceBucket,
+    search,
+    selectedRange,
+    verifiedOnly,
+  ]);
 
   const { ads, resultCount, isLoading, error, reload } = useAds(
     baseUrl,
     adQuery,
   );
 
+  const trimmedSearch = search.trim();
+  const hasActiveFilters =
+    Boolean(trimmedSearch) ||
+    activeCategoryIds.length > 0 ||
+    (priceBucket !== "all" && Boolean(selectedRange)) ||
+    Boolean(detailFiltersParam) ||
+    verifiedOnly;
+
   const clearFilters = () => {
     setSearch("");
     setActiveCategories(new Set());
     setPriceBucket("all");
+    setDetailFilters({});
+    setVerifiedOnly(false);
+  };
+
+  const handleDetailFilterChange = (
+    key: string,
+    value: ItemDetailsFilterValue,
+  ) => {
+    setDetailFilters((current) => ({ ...current, [key]: value }));
   };
 
   const handleToggleCategory = (categoryId: number, checked: boolean) => {
+    // Facets belong to the previously selected category.
+    setDetailFilters({});
     setActiveCategories((current) => {
       const next = new Set(current);
       if (checked) {
@@ -270,6 +377,11 @@ function AdCatalogContent({
             onToggleCategory={handleToggleCategory}
             priceBucket={priceBucket}
             onPriceBucketChange={setPriceBucket}
+            facets={facets}
+            detailFilters={detailFilters}
+            onDetailFilterChange={handleDetailFilterChange}
+            verifiedOnly={verifiedOnly}
+            onVerifiedOnlyChange={setVerifiedOnly}
             isLoading={filtersLoading}
             error={filtersError}
             onReset={clearFilters}
@@ -290,6 +402,15 @@ function AdCatalogContent({
                 {t("product.searchTag", { query: search })}
               </span>
             ) : null}
+            {hasActiveFilters ? (
+              <SaveSearchButton
+                key={adQuery}
+                query={trimmedSearch}
+                categoryIds={activeCategoryIds}
+                minPrice={priceBucket !== "all" ? (selectedRange?.min ?? null) : null}
+                maxPrice={priceBucket !== "all" ? (selectedRange?.max ?? null) : null}
+              />
+            ) : null}
           </div>
 
           <AdGrid
@@ -345,6 +466,11 @@ function AdCatalogContent({
               onToggleCategory={handleToggleCategory}
               priceBucket={priceBucket}
               onPriceBucketChange={setPriceBucket}
+              facets={facets}
+              detailFilters={detailFilters}
+              onDetailFilterChange={handleDetailFilterChange}
+              verifiedOnly={verifiedOnly}
+              onVerifiedOnlyChange={setVerifiedOnly}
               isLoading={filtersLoading}
               error={filtersError}
               onReset={clearFilters}
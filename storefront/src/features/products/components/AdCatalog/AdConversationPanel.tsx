@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { Button, Spinner } from "@heroui/react";
+import { MessageSquare } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+
+import type { Ad, AdConversation } from "@/features/products/types";
+import { api } from "@/lib/api";
+import { useI18n } from "@/features/i18n";
+import { useAuth } from "@/features/auth/hooks/useAuth";
+import { requireLogin } from "@/features/auth/store/authStore";
+import { AdConversationThread } from "./AdConversationThread";
+
+export function AdConversationPanel({ ad, isOpen }: { ad: Ad; isOpen: boolean }) {
+  const { t } = useI18n();
+  const { user, authReady } = useAuth();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [startedConversationId, setStartedConversationId] = useState<number | null>(null);
+
+  useEffect(() => {
+    setIsExpanded(false);
+    setStartedConversationId(null);
+  }, [ad.id, isOpen]);
+
+  const isOwnAd = Boolean(user && ad.merchantId === user.userId);
+  const canLoadConversation = isOpen && isExpanded && Boolean(user) && !isOwnAd;
+
+  const conversationsQuery = useQuery({
+    queryKey: ["conversations", ad.id, "list"],
+    enabled: canLoadConversation,
+    queryFn: async () => {
+      const response = await api.get(`/ads/${ad.id}/conversations`);
+      return (response.data?.data ?? []) as AdConversation[];
+    },
+  });
+
+  // Sellers answer their threads from the dashboard inbox.
+  if (!ad.merchantId || isOwnAd) return null;
+
+  const handleExpand = () => {
+    if (authReady && !user) {
+      if (typeof window !== "undefined") {
+        requireLogin(`${window.location.pathname}${window.location.search}`);
+      }
+      return;
+    }
+    setIsExpanded(true);
+  };
+
+  const existingConversationId = conversationsQuery.data?.[0]?.id ?? null;
+  const conversationId = startedConversationId ?? existingConversationId;
+
+  return (
+    <div className="rounded-2xl border border-default-200 p-3 text-sm md:col-span-2">
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.15em] text-ink-muted">
+          {t("adMessages.title")}
+        </p>
+        {!isExpanded ? (
+          <Button
+            size="sm"
+            color="primary"
+            variant="flat"
+            startContent={<MessageSquare size={14} />}
+            onPress={handleExpand}
+          >
+            {user ? t("adMessages.messageSeller") : t("adMessages.signInToMessage")}
+          </Button>
+        ) : null}
+      </div>
+      {!isExpanded ? (
+        <p className="text-ink-muted text-xs">{t("adMessages.hint")}</p>
+      ) : conversationsQuery.isLoading || !user ? (
+        <div className="flex justify-center py-4">
+          <Spinner size="sm" />
+        </div>
+      ) : (
+        <AdConversationThread
+          adId={ad.id}
+          conversationId={conversationId}
+          currentUserId={user.userId}
+          onConversationStarted={setStartedConversationId}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useRef, useState } from "react";
+import { Button, ScrollShadow, Spinner, Textarea, addToast } from "@heroui/react";
+import { SendHorizontal } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import type { AdConversationMessage } from "@/features/products/types";
+import { api, getApiErrorMessage } from "@/lib/api";
+import { formatLocaleDate, useI18n } from "@/features/i18n";
+
+const MESSAGES_PAGE_SIZE = 50;
+
+export function AdConversationThread({
+  adId,
+  conversationId,
+  currentUserId,
+  onConversationStarted,
+}: {
+  adId: number;
+  conversationId: number | null;
+  currentUserId: number;
+  onConversationStarted?: (conversationId: number) => void;
+}) {
+  const { locale, t } = useI18n();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState("");
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  const messagesQuery = useQuery({
+    queryKey: ["conversations", adId, conversationId, "messages"],
+    enabled: conversationId !== null,
+    queryFn: async () => {
+      const response = await api.get(
+        `/ads/${adId}/conversations/${conversationId}/messages`,
+        { params: { page: 1, limit: MESSAGES_PAGE_SIZE } },
+      );
+      return (response.data?.data ?? []) as AdConversationMessage[];
+    },
+    refetchInterval: 15_000,
+  });
+
+  const messages = messagesQuery.data ?? [];
+  const lastMessageId = messages[messages.length - 1]?.id ?? null;
+
+  useEffect(() => {
+    if (conversationId === null || lastMessageId === null) return;
+    void api
+      .post(`/ads/${adId}/conversations/${conversationId}/read`)
+      .then(() => queryClient.invalidateQueries({ queryKey: ["conversations", "mine"] }))
+      .catch(() => undefined);
+  }, [adId, conversationId, lastMessageId, queryClient]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [lastMessageId]);
+
+  const sendMutation = useMutation({
+    mutationFn: async (message: string) => {
+      const endpoint =
+        conversationId === null
+          ? `/ads/${adId}/conversations`
+          : `/ads/${adId}/conversations/${conversationId}/messages`;
+      const response = await api.post(endpoint, { message });
+      return response.data as {
+        data: AdConversationMessage;
+        meta: { conversationId: number };
+      };
+    },
+    onSuccess: (payload) => {
+      setDraft("");
+      const nextConversationId = payload.meta.conversationId;
+      if (conversationId === null) {
+        onConversationStarted?.(nextConversationId);
+      }
+      void queryClient.invalidateQueries({
+        queryKey: ["conversations", adId, nextConversationId, "messages"],
+      });
+      void queryClient.invalidateQueries({ queryKey: ["conversations", "mine"] });
+    },
+    onError: (error) => {
+      addToast({
+        title: t("adMessages.toast.sendFailed.title"),
+        description: getApiErrorMessage(error),
+        color: "danger",
+      });
+    },
+  });
+
+  const trimmedDraft = draft.trim();
+  const handleSend = () => {
+    if (!trimmedDraft || sendMutation.isPending) return;
+    sendMutation.mutate(trimmedDraft);
+  };
+
+  return (
+    <div className="space-y-3">
+      <ScrollShadow hideScrollBar size={8} className="max-h-72 space-y-2 pr-1">
+        {messagesQuery.isLoading ? (
+          <div className="flex justify-center py-4">
+            <Spinner size="sm" />
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="py-3 text-center text-xs text-ink-muted">
+            {t("adMessages.empty")}
+          </p>
+        ) : (
+          messages.map((message) => {
+            const isOwn = message.senderId === currentUserId;
+            return (
+              <div
+                key={message.id}
+                className={`flex ${isOwn ? "justify-end" : "justify-start"}`}
+              >
+                <div
+                  className={`max-w-[85%] rounded-2xl px-3 py-2 text-sm ${
+                    isOwn ? "bg-primary text-primary-foreground" : "bg-default-100"
+                  }`}
+                >
+                  <p className="wrap-break-word whitespace-pre-wrap">{message.body}</p>
+                  <p className="mt-1 text-[10px] opacity-70">
+                    {formatLocaleDate(new Date(message.createdAt), locale, {
+                      month: "short",
+                      day: "2-digit",
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                  </p>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </ScrollShadow>
+      <div className="flex items-end gap-2">
+        <Textarea
+          value={draft}
+          onValueChange={setDraft}
+          placeholder={t("adMessages.placeholder")}
+          minRows={1}
+          maxRows={4}
+          maxLength={2000}
+          variant="bordered"
+          onKeyDown={(event) => {
+            if (event.key === "Enter" && !event.shiftKey) {
+              event.preventDefault();
+              handleSend();
+            }
+          }}
+        />
+        <Button
+          isIconOnly
+          color="primary"
+          aria-label={t("adMessages.send")}
+          onPress={handleSend}
+          isLoading={sendMutation.isPending}
+          isDisabled={!trimmedDraft}
+        >
+          <SendHorizontal size={16} />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,20 @@
-import { Button, Radio, RadioGroup } from "@heroui/react";
+import {
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Input,
+  Radio,
+  RadioGroup,
+  Switch,
+} from "@heroui/react";
 import { Check } from "lucide-react";
 
-import type { Category, PriceRange } from "@/features/products/types";
+import type {
+  Category,
+  ItemDetailsFacet,
+  ItemDetailsFilterValue,
+  PriceRange,
+} from "@/features/products/types";
 import { formatPriceRangeLabel } from "@/features/products/utils/pricing";
 import { useI18n } from "@/features/i18n";
 import { resolveImageUrl } from "@/lib/images";
@@ -13,6 +26,11 @@ export function AdFilters({
   onToggleCategory,
   priceBucket,
   onPriceBucketChange,
+  facets,
+  detailFilters,
+  onDetailFilterChange,
+  verifiedOnly,
+  onVerifiedOnlyChange,
   isLoading,
   error,
   onReset,
@@ -26,6 +44,11 @@ export function AdFilters({
   onToggleCategory: (categoryId: number, checked: boolean) => void;
   priceBucket: string;
   onPriceBucketChange: (value: string) => void;
+  facets: ItemDetailsFacet[];
+  detailFilters: Record<string, ItemDetailsFilterValue>;
+  onDetailFilterChange: (key: string, value: ItemDetailsFilterValue) => void;
+  verifiedOnly: boolean;
+  onVerifiedOnlyChange: (value: boolean) => void;
   isLoading: boolean;
   error: string | null;
   onReset: () => void;
@@ -90,12 +113,16 @@ export function AdFilters({
                 <button
                   key={cat.id}
                   type="button"
+                  style={{
+                    marginLeft: `${(cat.depth ?? 0) * 12}px`,
+                    width: `calc(100% - ${(cat.depth ?? 0) * 12}px)`,
+                  }}
                   onClick={() =>
                     onToggleCategory(cat.id, !activeCategories.has(cat.id))
                   }
                   aria-pressed={activeCategories.has(cat.id)}
                   className={[
-                    "group flex w-full items-center gap-3 rounded-2xl border px-2.5 py-2 text-left transition",
+                    "group flex items-center gap-3 rounded-2xl border px-2.5 py-2 text-left transition",
                     activeCategories.has(cat.id)
                       ? "border-primary/40 bg-primary/10 shadow-[0_10px_24px_-18px_rgba(37,99,235,0.7)]"
                       : "border-default-200 bg-background/65 hover:border-default-300 hover:bg-background/85",
@@ -163,6 +190,96 @@ export function AdFilters({
             </RadioGroup>
           )}
         </div>
+
+        <div>
+          <p className="text-xs font-semibold">{t("filters.seller")}</p>
+          <Switch
+            size="sm"
+            className="mt-2"
+            isSelected={verifiedOnly}
+            onValueChange={onVerifiedOnlyChange}
+          >
+            <span className="text-xs">{t("filters.verifiedOnly")}</span>
+          </Switch>
+        </div>
+
+        {!isLoading && facets.length > 0 ? (
+          <div className="space-y-4">
+            <p className="text-xs font-semibold">{t("filters.details")}</p>
+            {facets.map((facet) => {
+              const current = detailFilters[facet.key];
+
+              if (facet.type === "number") {
+                const range =
+                  current && !Array.isArray(current)
+                    ? current
+                    : { min: "", max: "" };
+                return (
+                  <div key={facet.key}>
+                    <p className="text-[11px] font-medium">{facet.label}</p>
+                    <div className="mt-2 flex items-center gap-2">
+                      <Input
+                        size="sm"
+                        type="number"
+                        variant="bordered"
+                        aria-label={`${facet.label} ${t("filters.min")}`}
+                        placeholder={String(facet.min)}
+                        value={range.min}
+                        onValueChange={(value) =>
+                          onDetailFilterChange(facet.key, { ...range, min: value })
+                        }
+                      />
+                      <span className="text-ink-muted">–</span>
+                      <Input
+                        size="sm"
+                        type="number"
+                        variant="bordered"
+                        aria-label={`${facet.label} ${t("filters.max")}`}
+                        placeholder={String(facet.max)}
+                        value={range.max}
+                        onValueChange={(value) =>
+                          onDetailFilterChange(facet.key, { ...range, max: value })
+                        }
+                      />
+                    </div>
+                    <p className="text-ink-muted mt-1 text-[10px]">
+                      {t("filters.rangeHint", { min: facet.min, max: facet.max })}
+                    </p>
+                  </div>
+                );
+              }
+
+              const options = facet.values.filter(
+                (entry) =>
+                  entry.count > 0 ||
+                  (Array.isArray(current) && current.includes(String(entry.value))),
+              );
+              if (options.length === 0) return null;
+
+              return (
+                <CheckboxGroup
+                  key={facet.key}
+                  label={facet.label}
+                  size="sm"
+                  value={Array.isArray(current) ? current : []}
+                  onValueChange={(value) => onDetailFilterChange(facet.key, value)}
+                  classNames={{ label: "text-[11px] font-medium text-foreground" }}
+                >
+                  {options.map((entry) => (
+                    <Checkbox key={String(entry.value)} value={String(entry.value)}>
+                      {facet.type === "boolean"
+                        ? entry.value
+                          ? t("filters.yes")
+                          : t("filters.no")
+                        : String(entry.value)}{" "}
+                      <span className="text-ink-muted">({entry.count})</span>
+                    </Checkbox>
+                  ))}
+                </CheckboxGroup>
+              );
+            })}
+          </div>
+        ) : null}
       </div>
     </aside>
   );
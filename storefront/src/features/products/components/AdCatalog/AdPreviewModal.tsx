@@ -1,6 +1,6 @@
 import { Button, Chip, Modal, ModalBody, ModalContent, ModalFooter, ModalHeader, ScrollShadow } from "@heroui/react";
 import { useEffect, useState } from "react";
-import { MapPin, PhoneCall } from "lucide-react";
+import { Flag, MapPin, PhoneCall, ShieldCheck, Store } from "lucide-react";
 import type { Ad } from "@/features/products/types";
 import { resolveImageUrl } from "@/lib/images";
 import { formatBirrLabel } from "@/lib/money";
@@ -9,6 +9,13 @@ import { formatEthiopianPhoneForDisplay } from "@/features/products/utils/phoneN
 import { API_BASE } from "@/config/env";
 import { AdImageCarousel } from "./AdImageCarousel";
 import { AdReviewsPanel } from "./AdReviewsPanel";
+import { AdConversationPanel } from "./AdConversationPanel";
+import { FavoriteButton } from "./FavoriteButton";
+import { ReportDialog } from "./ReportDialog";
+import { useAuth } from "@/features/auth/hooks/useAuth";
+import { requireLogin } from "@/features/auth/store/authStore";
+import { getCurrentPathWithQueryAndHash } from "@/lib/navigation";
+import { getSellerHandle, getSellerProfilePath } from "@/features/sellers/utils";
 
 const ANALYTICS_SCHEMA_VERSION = 2;
 const ANALYTICS_SESSION_STORAGE_KEY = "gebeya-analytics-session-id";
@@ -62,7 +69,9 @@ export function AdPreviewModal({
   imageBase: string;
 }) {
   const { locale, t } = useI18n();
+  const { user } = useAuth();
   const [isPhoneRevealed, setIsPhoneRevealed] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
   const telHref = (() => {
     const rawPhone = String(ad?.phoneNumber ?? "").trim();
     if (!rawPhone) return null;
@@ -101,6 +110,8 @@ export function AdPreviewModal({
       ? ad.description
       : t("product.noDescription");
   const shouldShowReviews = (ad?.status ?? "APPROVED") === "APPROVED";
+  const sellerHandle = getSellerHandle(ad?.merchant);
+  const sellerName = ad?.merchant?.firstName?.trim() || sellerHandle;
   const trackPhoneInteraction = (
     clickTarget: "phone_reveal" | "phone_call",
   ) => {
@@ -161,10 +172,11 @@ export function AdPreviewModal({
   return (
     <Modal isOpen={isOpen} onClose={onClose} size="3xl" scrollBehavior="inside">
       <ModalContent>
-        <ModalHeader className="flex items-center justify-between gap-3">
+        <ModalHeader className="flex items-center justify-between gap-3 pr-12">
           <p className="text-base font-semibold md:text-lg">
             {ad?.name ?? t("product.previewTitleFallback")}
           </p>
+          {ad && shouldShowReviews ? <FavoriteButton ad={ad} /> : null}
         </ModalHeader>
         <ModalBody className="min-w-0 overflow-x-hidden pt-0">
           {ad ? (
@@ -200,6 +212,26 @@ export function AdPreviewModal({
                     {t("adPreview.contact")}
                   </p>
                   <div className="space-y-1.5">
+                    {sellerHandle ? (
+                      <div className="flex items-center gap-2 text-ink-muted">
+                        <Store className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+                        <span className="min-w-0 truncate">
+                          {t("adPreview.seller")}: {sellerName}
+                        </span>
+                        {ad?.merchant?.verifiedAt ? (
+                          <ShieldCheck
+                            className="h-3.5 w-3.5 shrink-0 text-primary"
+                            aria-label={t("verification.badge")}
+                          />
+                        ) : null}
+                        <a
+                          href={getSellerProfilePath(sellerHandle)}
+                          className="ml-auto shrink-0 font-medium text-primary hover:underline"
+                        >
+                          {t("adPreview.viewSeller")}
+                        </a>
+                      </div>
+                    ) : null}
                     <div className="flex items-center gap-2 text-ink-muted">
                       <PhoneCall className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
                       {telHref ? (
@@ -241,16 +273,42 @@ export function AdPreviewModal({
                 </div>
               </div>
 
-              {shouldShowReviews ? <AdReviewsPanel ad={ad} isOpen={isOpen} /> : null}
+              {shouldShowReviews ? <AdConversationPanel ad={ad} isOpen={isOpen} /> : null}
+              {shouldShowReviews ? <AdReviewsPanel ad={ad} isOpen={isOpen} imageBase={imageBase} /> : null}
             </div>
           ) : null}
         </ModalBody>
         <ModalFooter>
+          {ad && shouldShowReviews && ad.merchantId !== user?.userId ? (
+            <Button
+              variant="light"
+              color="danger"
+              className="mr-auto"
+              startContent={<Flag className="h-4 w-4" aria-hidden="true" />}
+              onPress={() => {
+                if (!user) {
+                  requireLogin(getCurrentPathWithQueryAndHash());
+                  return;
+                }
+                setIsReportOpen(true);
+              }}
+            >
+              {t("report.action")}
+            </Button>
+          ) : null}
           <Button variant="light" onPress={onClose}>
             {t("common.close")}
           </Button>
         </ModalFooter>
       </ModalContent>
+      {ad ? (
+        <ReportDialog
+          isOpen={isReportOpen}
+          onClose={() => setIsReportOpen(false)}
+          endpoint={`/ads/${ad.id}/report`}
+          target="ad"
+        />
+      ) : null}
     </Modal>
   );
 }
@@ -8,28 +8,44 @@ import {
   ModalFooter,
   ModalHeader,
   ScrollShadow,
+  Select,
+  SelectItem,
   Spinner,
   Textarea,
   addToast,
 } from "@heroui/react";
 import {
   CornerDownRight,
+  Flag,
+  ImagePlus,
   MessageCircleReply,
   Pencil,
   SendHorizontal,
   Star,
+  ThumbsDown,
+  ThumbsUp,
   Trash2,
+  X,
 } from "lucide-react";
-import type { Ad, AdComment, AdCommentMeta } from "@/features/products/types";
+import type {
+  Ad,
+  AdComment,
+  AdCommentMeta,
+  AdCommentSort,
+} from "@/features/products/types";
 import { api, getApiErrorMessage } from "@/lib/api";
 import { formatLocaleDate, useI18n } from "@/features/i18n";
+import { resolveImageUrl } from "@/lib/images";
 import { useAuth } from "@/features/auth/hooks/useAuth";
 import { useTelegramAuthWidget } from "@/features/auth/hooks/useTelegramAuthWidget";
 import { PUBLIC_TELEGRAM_BOT_NAME } from "@/config/env";
+import { ReportDialog } from "./ReportDialog";
 
 const STARS = [1, 2, 3, 4, 5] as const;
+const COMMENT_SORTS: AdCommentSort[] = ["newest", "helpful", "rating_desc", "rating_asc"];
 const MAX_REPLY_DEPTH = 3;
 const COMMENTS_PAGE_SIZE = 10;
+const MAX_REVIEW_PHOTOS = 3;
 const COMMENT_SCROLL_BOTTOM_OFFSET = 64;
 const REVIEW_DRAFT_STORAGE_KEY = "pending-ad-review-draft-v1";
 const ANALYTICS_SESSION_STORAGE_KEY = "gebeya-analytics-session-id";
@@ -66,7 +82,13 @@ type PendingPublishAction =
   | { type: "comment" }
   | { type: "reply"; parentId: number }
   | { type: "edit"; commentId: number }
-  | { type: "delete"; commentId: number };
+  | { type: "delete"; commentId: number }
+  | { type: "vote"; commentId: number; helpful: boolean };
+
+type CommentVoteSummary = Pick<
+  AdComment,
+  "helpfulCount" | "notHelpfulCount" | "viewerVote"
+> & { commentId: number };
 
 function parseStoredReviewDraft(raw: string | null): StoredReviewDraft | null {
   if (!raw) return null;
@@ -142,6 +164,11 @@ function getAnalyticsSessionId(): string {
   }
 }
 
+// The pre-screen can hold a comment until a moderator approves it.
+function isHeldForApproval(responseData: unknown): boolean {
+  return Boolean((responseData as { data?: AdComment } | undefined)?.data?.isHeld);
+}
+
 function findCommentById(comments: AdComment[], targetId: number): AdComment | null {
   for (const comment of comments) {
     if (comment.id === targetId) return comment;
@@ -233,20 +260,31 @@ function upsertTopLevelRatingComment(comments: AdComment[], incoming: AdComment)
   return [incoming, ...comments];
 }
 
+function toCommentsMeta(meta: AdCommentMeta | undefined): AdCommentMeta {
+  return {
+    totalReviews: Number(meta?.totalReviews ?? 0),
+    averageRating: Number(meta?.averageRating ?? 0),
+    ratingHistogram: meta?.ratingHistogram ?? {},
+  };
+}
+
 export function AdReviewsPanel({
   ad,
   isOpen,
+  imageBase,
 }: {
   ad: Ad;
   isOpen: boolean;
+  imageBase: string;
 }) {
   const { locale, t } = useI18n();
   const { user, authReady } = useAuth();
   const [comments, setComments] = useState<AdComment[]>([]);
-  const [commentsMeta, setCommentsMeta] = useState<AdCommentMeta>({
-    totalReviews: 0,
-    averageRating: 0,
-  });
+  const [commentsMeta, setCommentsMeta] = useState<AdCommentMeta>(() =>
+    toCommentsMeta(undefined),
+  );
+  const [commentSort, setCommentSort] = useState<AdCommentSort>("newest");
+  const [votingCommentId, setVotingCommentId] = useState<number | null>(null);
   const [commentListMeta, setCommentListMeta] = useState<CommentListMeta>(
     DEFAULT_COMMENT_LIST_META,
   );
@@ -256,6 +294,11 @@ export function AdReviewsPanel({
   const [commentsLoadMoreError, setCommentsLoadMoreError] = useState<string | null>(null);
   const [ratingValue, setRatingValue] = useState(5);
   const [commentText, setCommentText] = useState("");
+  const [commentPhotos, setCommentPhotos] = useState<File[]>([]);
+  const [activeGallery, setActiveGallery] = useState<{
+    urls: string[];
+    index: number;
+  } | null>(null);
   const [isSubmittingRating, setIsSubmittingRating] = useState(false);
   const [isSubmittingComment, setIsSubmittingComment] = useState(false);
   const [activeReplyParentId, setActiveReplyParentId] = useState<number | null>(null);
@@ -266,10 +309,29 @@ export function AdReviewsPanel({
   const [submittingEditCommentId, setSubmittingEditCommentId] = useState<number | null>(null);
   const [deletingCommentId, setDeletingCommentId] = useState<number | null>(null);
   const [deleteConfirmCommentId, setDeleteConfirmCommentId] = useState<number | null>(null);
+  const [reportCommentId, setReportCommentId] = useState<number | null>(null);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
   const [pendingPublishAfterAuth, setPendingPublishAfterAuth] =
     useState<PendingPublishAction | null>(null);
   const commentsRequestInFlightRef = useRef(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const commentPhotoPreviews = useMemo(
+    () =>
+      commentPhotos.map((file) => ({
+        id: `${file.name}-${file.size}-${file.lastModified}`,
+        url: URL.createObjectURL(file),
+      })),
+    [commentPhotos],
+  );
+
+  useEffect(
+    () => () => {
+      for (const preview of commentPhotoPreviews) {
+        URL.revokeObjectURL(preview.url);
+      }
+    },
+    [commentPhotoPreviews],
+  );
 
   const authReturnTo = useMemo(() => {
     if (typeof window === "undefined") return "/";
@@ -335,6 +397,7 @@ export function AdReviewsPanel({
           params: {
             page,
             limit: COMMENTS_PAGE_SIZE,
+            sort: commentSort,
           },
         });
         const payload = response.data as
@@ -364,10 +427,7 @@ export function AdReviewsPanel({
           const nextItems = incomingComments.filter((item) => !existingIds.has(item.id));
           return [...prev, ...nextItems];
         });
-        setCommentsMeta({
-          totalReviews: Number(payload?.meta?.totalReviews ?? 0),
-          averageRating: Number(payload?.meta?.averageRating ?? 0),
-        });
+        setCommentsMeta(toCommentsMeta(payload?.meta));
         setCommentListMeta(nextCommentListMeta);
       } catch (error) {
         const message = getApiErrorMessage(error);
@@ -385,7 +445,7 @@ export function AdReviewsPanel({
         commentsRequestInFlightRef.current = false;
       }
     },
-    [ad.id],
+    [ad.id, commentSort],
   );
 
   useEffect(() => {
@@ -501,10 +561,7 @@ export function AdReviewsPanel({
         setComments((prev) => upsertTopLevelRatingComment(prev, payload.data as AdComment));
       }
       if (payload?.meta) {
-        setCommentsMeta({
-          totalReviews: Number(payload.meta.totalReviews ?? 0),
-          averageRating: Number(payload.meta.averageRating ?? 0),
-        });
+        setCommentsMeta(toCommentsMeta(payload.meta));
       }
       saveStoredDraft(ad, selectedRating, commentText);
 
@@ -560,15 +617,34 @@ export function AdReviewsPanel({
 
     setIsSubmittingComment(true);
     try {
-      await api.post(`/ads/${ad.id}/comments`, { comment: trimmedComment });
+      let response;
+      if (commentPhotos.length > 0) {
+        const formData = new FormData();
+        formData.append("comment", trimmedComment);
+        commentPhotos.forEach((file) => formData.append("images", file));
+        response = await api.post(`/ads/${ad.id}/comments`, formData, {
+          headers: { "Content-Type": "multipart/form-data" },
+        });
+      } else {
+        response = await api.post(`/ads/${ad.id}/comments`, { comment: trimmedComment });
+      }
       clearStoredDraft(ad.id);
       setCommentText("");
-
-      addToast({
-        title: t("adReviews.toast.commentPublished.title"),
-        description: t("adReviews.toast.commentPublished.description"),
-        color: "success",
-      });
+      setCommentPhotos([]);
+
+      addToast(
+        isHeldForApproval(response.data)
+          ? {
+              title: t("adReviews.toast.commentHeld.title"),
+              description: t("adReviews.toast.commentHeld.description"),
+              color: "warning",
+            }
+          : {
+              title: t("adReviews.toast.commentPublished.title"),
+              description: t("adReviews.toast.commentPublished.description"),
+              color: "success",
+            },
+      );
       await loadComments({ page: 1, replace: true });
     } catch (error) {
       addToast({
@@ -579,7 +655,7 @@ export function AdReviewsPanel({
     } finally {
       setIsSubmittingComment(false);
     }
-  }, [ad, authReady, commentText, loadComments, ratingValue, requireAuth, t, user]);
+  }, [ad, authReady, commentPhotos, commentText, loadComments, ratingValue, requireAuth, t, user]);
 
   const handleSubmitReply = useCallback(
     async (parentId: number) => {
@@ -609,7 +685,7 @@ export function AdReviewsPanel({
 
       setSubmittingReplyParentId(parentId);
       try {
-        await api.post(`/ads/${ad.id}/comments`, {
+        const response = await api.post(`/ads/${ad.id}/comments`, {
           parentId,
           comment: replyText,
         });
@@ -623,11 +699,19 @@ export function AdReviewsPanel({
           setActiveReplyParentId(null);
         }
 
-        addToast({
-          title: t("adReviews.toast.replyPosted.title"),
-          description: t("adReviews.toast.replyPosted.description"),
-          color: "success",
-        });
+        addToast(
+          isHeldForApproval(response.data)
+            ? {
+                title: t("adReviews.toast.commentHeld.title"),
+                description: t("adReviews.toast.commentHeld.description"),
+                color: "warning",
+              }
+            : {
+                title: t("adReviews.toast.replyPosted.title"),
+                description: t("adReviews.toast.replyPosted.description"),
+                color: "success",
+              },
+        );
         await loadComments({ page: 1, replace: true });
       } catch (error) {
         addToast({
@@ -670,7 +754,7 @@ export function AdReviewsPanel({
 
       setSubmittingEditCommentId(commentId);
       try {
-        await api.patch(`/ads/${ad.id}/comments/${commentId}`, {
+        const response = await api.patch(`/ads/${ad.id}/comments/${commentId}`, {
           comment: editText,
         });
 
@@ -681,11 +765,19 @@ export function AdReviewsPanel({
           return next;
         });
 
-        addToast({
-          title: t("adReviews.toast.editSaved.title"),
-          description: t("adReviews.toast.editSaved.description"),
-          color: "success",
-        });
+        addToast(
+          isHeldForApproval(response.data)
+            ? {
+                title: t("adReviews.toast.commentHeld.title"),
+                description: t("adReviews.toast.commentHeld.description"),
+                color: "warning",
+              }
+            : {
+                title: t("adReviews.toast.editSaved.title"),
+                description: t("adReviews.toast.editSaved.description"),
+                color: "success",
+              },
+        );
         await loadComments({ page: 1, replace: true });
       } catch (error) {
         addToast({
@@ -752,6 +844,50 @@ export function AdReviewsPanel({
     ],
   );
 
+  const handleVote = useCallback(
+    async (comment: AdComment, helpful: boolean) => {
+      if (!authReady || !user) {
+        requireAuth({ type: "vote", commentId: comment.id, helpful });
+        return;
+      }
+
+      // Picking the current vote again takes it back.
+      const isUndo = comment.viewerVote === (helpful ? "helpful" : "not_helpful");
+      setVotingCommentId(comment.id);
+      try {
+        const endpoint = `/ads/${ad.id}/comments/${comment.id}/vote`;
+        const response = isUndo
+          ? await api.delete(endpoint)
+          : await api.post(endpoint, { helpful });
+        const summary = (response.data as { data?: CommentVoteSummary } | undefined)
+          ?.data;
+        if (summary) {
+          setComments((prev) =>
+            prev.map((item) =>
+              item.id === summary.commentId
+                ? {
+                    ...item,
+                    helpfulCount: summary.helpfulCount,
+                    notHelpfulCount: summary.notHelpfulCount,
+                    viewerVote: summary.viewerVote,
+                  }
+                : item,
+            ),
+          );
+        }
+      } catch (error) {
+        addToast({
+          title: t("adReviews.toast.voteFailed.title"),
+          description: getApiErrorMessage(error),
+          color: "danger",
+        });
+      } finally {
+        setVotingCommentId(null);
+      }
+    },
+    [ad.id, authReady, requireAuth, t, user],
+  );
+
   useEffect(() => {
     if (!pendingPublishAfterAuth) return;
     if (!authReady || !user) return;
@@ -779,6 +915,12 @@ export function AdReviewsPanel({
       void handleDeleteComment(pendingAction.commentId);
       return;
     }
+    if (pendingAction.type === "vote") {
+      const target = findCommentById(comments, pendingAction.commentId);
+      if (!target || target.userId === user.userId) return;
+      void handleVote(target, pendingAction.helpful);
+      return;
+    }
 
     const target = findCommentById(comments, pendingAction.commentId);
     if (!target) return;
@@ -791,6 +933,7 @@ export function AdReviewsPanel({
     handleSubmitEdit,
     handleSubmitRating,
     handleSubmitReply,
+    handleVote,
     pendingPublishAfterAuth,
     user,
   ]);
@@ -802,6 +945,7 @@ export function AdReviewsPanel({
     const canReply = safeDepth < MAX_REPLY_DEPTH;
     const canEdit = item.userId === user?.userId && (item.comment?.trim() ?? "").length > 0;
     const canDelete = item.userId === user?.userId;
+    const canReport = Boolean(user) && item.userId !== user?.userId;
     const isActiveReply = activeReplyParentId === item.id;
     const replyValue = replyDrafts[item.id] ?? "";
     const isReplySubmitting = submittingReplyParentId === item.id;
@@ -809,6 +953,16 @@ export function AdReviewsPanel({
     const isActiveEdit = activeEditCommentId === item.id;
     const editValue = editDrafts[item.id] ?? item.comment ?? "";
     const isEditSubmitting = submittingEditCommentId === item.id;
+    const canVote = safeDepth === 0 && item.userId !== user?.userId;
+    const isVoting = votingCommentId === item.id;
+    const photoUrls =
+      safeDepth === 0
+        ? (item.imageUrls ?? [])
+            .map((path) => resolveImageUrl(imageBase, path))
+            .filter((url): url is string => Boolean(url))
+        : [];
+    const authorRating =
+      safeDepth === 0 && typeof item.authorRating === "number" ? item.authorRating : null;
 
     return (
       <article key={item.id} className="space-y-2" style={{ marginLeft: `${replyIndent}px` }}>
@@ -828,11 +982,30 @@ export function AdReviewsPanel({
               <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
                 <p className="truncate text-sm font-semibold">{item.user.displayName}</p>
                 <p className="text-xs text-ink-muted">{commentDate}</p>
+                {authorRating !== null ? (
+                  <span
+                    className="flex items-center gap-0.5 text-amber-500"
+                    aria-label={t("adReviews.rateAria", { count: authorRating })}
+                  >
+                    {STARS.map((star) => (
+                      <Star
+                        key={star}
+                        className={`h-3 w-3 ${star <= authorRating ? "fill-current" : "text-default-300"}`}
+                        aria-hidden="true"
+                      />
+                    ))}
+                  </span>
+                ) : null}
                 {item.isEdited ? (
                   <span className="rounded-full bg-default-100 px-2 py-0.5 text-[10px] uppercase tracking-[0.12em] text-ink-muted">
                     {t("adReviews.comment.edited")}
                   </span>
                 ) : null}
+                {item.isHeld ? (
+                  <span className="rounded-full bg-warning-100 px-2 py-0.5 text-[10px] uppercase tracking-[0.12em] text-warning-700">
+                    {t("adReviews.comment.held")}
+                  </span>
+                ) : null}
               </div>
 
               {isActiveEdit ? (
@@ -888,7 +1061,51 @@ export function AdReviewsPanel({
                 </p>
               )}
 
+              {photoUrls.length > 0 ? (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {photoUrls.map((url, index) => (
+                    <button
+                      key={url}
+                      type="button"
+                      className="overflow-hidden rounded-lg border border-default-200"
+                      onClick={() => setActiveGallery({ urls: photoUrls, index })}
+                      aria-label={t("adReviews.photos.open", { index: index + 1 })}
+                    >
+                      <img src={url} alt="" className="h-16 w-16 object-cover" loading="lazy" />
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+
               <div className="mt-2 flex flex-wrap items-center gap-2">
+                {safeDepth === 0 ? (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      size="sm"
+                      variant={item.viewerVote === "helpful" ? "flat" : "light"}
+                      color={item.viewerVote === "helpful" ? "primary" : "default"}
+                      startContent={<ThumbsUp className="h-3.5 w-3.5" />}
+                      onPress={() => void handleVote(item, true)}
+                      isDisabled={!canVote || isVoting}
+                      aria-label={t("adReviews.vote.helpful")}
+                    >
+                      {t("adReviews.vote.helpfulCount", { count: item.helpfulCount ?? 0 })}
+                    </Button>
+                    <Button
+                      size="sm"
+                      isIconOnly={!item.notHelpfulCount}
+                      variant={item.viewerVote === "not_helpful" ? "flat" : "light"}
+                      color={item.viewerVote === "not_helpful" ? "primary" : "default"}
+                      onPress={() => void handleVote(item, false)}
+                      isDisabled={!canVote || isVoting}
+                      aria-label={t("adReviews.vote.notHelpful")}
+                    >
+                      <ThumbsDown className="h-3.5 w-3.5" />
+                      {item.notHelpfulCount ? <span>{item.notHelpfulCount}</span> : null}
+                    </Button>
+                  </div>
+                ) : null}
+
                 {canReply && (
                   <Button
                     size="sm"
@@ -934,6 +1151,17 @@ export function AdReviewsPanel({
                     {t("adReviews.delete.action")}
                   </Button>
                 ) : null}
+
+                {canReport ? (
+                  <Button
+                    size="sm"
+                    variant="light"
+                    startContent={<Flag className="h-3.5 w-3.5" />}
+                    onPress={() => setReportCommentId(item.id)}
+                  >
+                    {t("report.action")}
+                  </Button>
+                ) : null}
               </div>
 
               {isActiveReply ? (
@@ -1009,6 +1237,27 @@ export function AdReviewsPanel({
         </p>
       </div>
 
+      {commentsMeta.totalReviews > 0 ? (
+        <div className="space-y-1">
+          {[...STARS].reverse().map((star) => {
+            const count = commentsMeta.ratingHistogram?.[star] ?? 0;
+            const percent = Math.round((count / commentsMeta.totalReviews) * 100);
+            return (
+              <div key={star} className="flex items-center gap-2 text-xs text-ink-muted">
+                <span className="flex w-7 shrink-0 items-center gap-0.5">
+                  {star}
+                  <Star className="h-3 w-3 fill-current text-amber-500" aria-hidden="true" />
+                </span>
+                <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-default-200">
+                  <div className="h-full rounded-full bg-amber-500" style={{ width: `${percent}%` }} />
+                </div>
+                <span className="w-8 shrink-0 text-right">{count}</span>
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
+
       <div className="rounded-xl border border-default-200 bg-background p-3">
         <div className="flex items-start gap-2.5">
           <Avatar
@@ -1068,8 +1317,64 @@ export function AdReviewsPanel({
                   commentText.length > 0 && !hasCommentText ? t("adReviews.comment.invalid") : undefined
                 }
               />
+              {commentPhotoPreviews.length > 0 ? (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {commentPhotoPreviews.map((preview, index) => (
+                    <div
+                      key={preview.id}
+                      className="relative overflow-hidden rounded-lg border border-default-200"
+                    >
+                      <img src={preview.url} alt="" className="h-16 w-16 object-cover" />
+                      <button
+                        type="button"
+                        className="absolute right-0.5 top-0.5 rounded-full bg-black/60 p-0.5 text-white"
+                        onClick={() =>
+                          setCommentPhotos((prev) => prev.filter((_, itemIndex) => itemIndex !== index))
+                        }
+                        aria-label={t("adReviews.photos.remove")}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+              <input
+                ref={photoInputRef}
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={(event) => {
+                  const selected = Array.from(event.target.files ?? []);
+                  event.target.value = "";
+                  if (selected.length === 0) return;
+                  const next = [...commentPhotos, ...selected];
+                  if (next.length > MAX_REVIEW_PHOTOS) {
+                    addToast({
+                      title: t("adReviews.photos.limit", { count: MAX_REVIEW_PHOTOS }),
+                      color: "warning",
+                    });
+                  }
+                  setCommentPhotos(next.slice(0, MAX_REVIEW_PHOTOS));
+                }}
+              />
               <div className="mt-2 flex items-center justify-between">
-                <p className="text-xs text-ink-muted">{commentText.trim().length}/1000</p>
+                <div className="flex items-center gap-2">
+                  <p className="text-xs text-ink-muted">{commentText.trim().length}/1000</p>
+                  <Button
+                    size="sm"
+                    variant="light"
+                    startContent={<ImagePlus className="h-3.5 w-3.5" aria-hidden="true" />}
+                    onPress={() => photoInputRef.current?.click()}
+                    isDisabled={isSubmittingComment || commentPhotos.length >= MAX_REVIEW_PHOTOS}
+                  >
+                    {t("adReviews.photos.add", {
+                      count: commentPhotos.length,
+                      max: MAX_REVIEW_PHOTOS,
+                    })}
+                  </Button>
+                </div>
                 <Button
                   size="sm"
                   color="primary"
@@ -1107,36 +1412,56 @@ export function AdReviewsPanel({
       ) : visibleComments.length === 0 ? (
         <p className="text-sm text-ink-muted">{t("adReviews.empty")}</p>
       ) : (
-        <ScrollShadow
-          hideScrollBar
-          size={6}
-          className="max-h-80 space-y-2 pr-1"
-          onScroll={handleCommentsScroll}
-        >
-          {visibleComments.map((item) => renderComment(item))}
-          {commentsLoadingMore ? (
-            <div className="flex items-center gap-2 py-1 text-sm text-ink-muted">
-              <Spinner size="sm" />
-              <span>{t("adReviews.loadMore.loading")}</span>
-            </div>
-          ) : null}
-          {commentsLoadMoreError ? (
-            <div className="rounded-xl border border-danger/30 bg-danger/10 p-3 text-sm">
-              <p className="text-danger">{commentsLoadMoreError}</p>
-              <Button
-                size="sm"
-                variant="flat"
-                color="danger"
-                className="mt-2"
-                onPress={() =>
-                  void loadComments({ page: commentListMeta.page + 1, replace: false })
-                }
-              >
-                {t("adReviews.loadMore.retry")}
-              </Button>
-            </div>
-          ) : null}
-        </ScrollShadow>
+        <>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-semibold">{t("adReviews.sort.label")}</p>
+            <Select
+              size="sm"
+              aria-label={t("adReviews.sort.label")}
+              className="max-w-48"
+              selectedKeys={new Set([commentSort])}
+              disallowEmptySelection
+              onSelectionChange={(keys) => {
+                const selected = keys === "all" ? undefined : Array.from(keys)[0];
+                if (selected) setCommentSort(String(selected) as AdCommentSort);
+              }}
+            >
+              {COMMENT_SORTS.map((option) => (
+                <SelectItem key={option}>{t(`adReviews.sort.${option}`)}</SelectItem>
+              ))}
+            </Select>
+          </div>
+          <ScrollShadow
+            hideScrollBar
+            size={6}
+            className="max-h-80 space-y-2 pr-1"
+            onScroll={handleCommentsScroll}
+          >
+            {visibleComments.map((item) => renderComment(item))}
+            {commentsLoadingMore ? (
+              <div className="flex items-center gap-2 py-1 text-sm text-ink-muted">
+                <Spinner size="sm" />
+                <span>{t("adReviews.loadMore.loading")}</span>
+              </div>
+            ) : null}
+            {commentsLoadMoreError ? (
+              <div className="rounded-xl border border-danger/30 bg-danger/10 p-3 text-sm">
+                <p className="text-danger">{commentsLoadMoreError}</p>
+                <Button
+                  size="sm"
+                  variant="flat"
+                  color="danger"
+                  className="mt-2"
+                  onPress={() =>
+                    void loadComments({ page: commentListMeta.page + 1, replace: false })
+                  }
+                >
+                  {t("adReviews.loadMore.retry")}
+                </Button>
+              </div>
+            ) : null}
+          </ScrollShadow>
+        </>
       )}
 
       <Modal
@@ -1179,6 +1504,51 @@ export function AdReviewsPanel({
         </ModalContent>
       </Modal>
 
+      <Modal
+        isOpen={activeGallery !== null}
+        onClose={() => setActiveGallery(null)}
+        size="2xl"
+      >
+        <ModalContent>
+          <ModalHeader>{t("adReviews.photos.title")}</ModalHeader>
+          <ModalBody className="pb-6">
+            {activeGallery ? (
+              <div className="space-y-3">
+                <img
+                  src={activeGallery.urls[activeGallery.index]}
+                  alt=""
+                  className="max-h-[70vh] w-full rounded-xl object-contain"
+                />
+                {activeGallery.urls.length > 1 ? (
+                  <div className="flex justify-center gap-2">
+                    {activeGallery.urls.map((url, index) => (
+                      <button
+                        key={url}
+                        type="button"
+                        className={`overflow-hidden rounded-lg border-2 ${
+                          index === activeGallery.index ? "border-primary" : "border-transparent"
+                        }`}
+                        onClick={() => setActiveGallery({ urls: activeGallery.urls, index })}
+                        aria-label={t("adReviews.photos.open", { index: index + 1 })}
+                      >
+                        <img src={url} alt="" className="h-14 w-14 object-cover" />
+                      </button>
+                    ))}
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
+          </ModalBody>
+        </ModalContent>
+      </Modal>
+
+      <ReportDialog
+        isOpen={reportCommentId !== null}
+        onClose={() => setReportCommentId(null)}
+        endpoint={`/ads/${ad.id}/comments/${reportCommentId}/report`}
+        target="comment"
+      />
+
       <Modal
         isOpen={isAuthModalOpen}
         onClose={() => {
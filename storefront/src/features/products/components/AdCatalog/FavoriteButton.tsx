@@ -0,0 +1,42 @@
+import { Button } from "@heroui/react";
+import { Heart } from "lucide-react";
+
+import { useAuth } from "@/features/auth/hooks/useAuth";
+import { useI18n } from "@/features/i18n";
+import { useFavorites } from "@/features/products/hooks/useFavorites";
+import type { Ad } from "@/features/products/types";
+
+export function FavoriteButton({
+  ad,
+  className,
+}: {
+  ad: Ad;
+  className?: string;
+}) {
+  const { t } = useI18n();
+  const { user } = useAuth();
+  const { isFavorite, toggleFavorite } = useFavorites();
+
+  // Sellers can't favorite their own listings.
+  if (user && ad.merchantId === user.userId) return null;
+
+  const favorited = isFavorite(ad.id);
+
+  return (
+    <Button
+      isIconOnly
+      size="sm"
+      radius="full"
+      variant="flat"
+      className={className}
+      aria-label={favorited ? t("favorites.remove") : t("favorites.add")}
+      aria-pressed={favorited}
+      onPress={() => toggleFavorite(ad.id)}
+    >
+      <Heart
+        size={16}
+        className={favorited ? "fill-danger text-danger" : undefined}
+      />
+    </Button>
+  );
+}
@@ -77,7 +77,10 @@ export function PostAdModal({
       null,
     [categories, categoryId],
   );
-  const dynamicFields = activeCategory?.dynamicFields ?? [];
+  const dynamicFields =
+    activeCategory?.effectiveDynamicFields ??
+    activeCategory?.dynamicFields ??
+    [];
   const reviewDynamicRows = useMemo(
     () =>
       dynamicFields.map((field) => {
@@ -186,7 +189,16 @@ export function PostAdModal({
       formData.append("description", description.trim());
       formData.append("address", address.trim());
       formData.append("phoneNumber", phoneNumber.trim());
-      formData.append("itemDetails", JSON.stringify(itemDetails));
+      // Only send keys of the selected category; the API rejects unknown ones.
+      const categoryKeys = new Set(dynamicFields.map((field) => field.key));
+      formData.append(
+        "itemDetails",
+        JSON.stringify(
+          Object.fromEntries(
+            Object.entries(itemDetails).filter(([key]) => categoryKeys.has(key)),
+          ),
+        ),
+      );
       if (categoryId) {
         formData.append("categoryId", categoryId);
       }
@@ -330,8 +342,11 @@ export function PostAdModal({
                   }}
                 >
                   {categories.map((category) => (
-                    <SelectItem key={String(category.id)}>
-                      {category.name}
+                    <SelectItem
+                      key={String(category.id)}
+                      textValue={category.name}
+                    >
+                      {`${"— ".repeat(category.depth ?? 0)}${category.name}`}
                     </SelectItem>
                   ))}
                 </Select>
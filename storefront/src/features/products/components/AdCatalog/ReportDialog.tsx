@@ -0,0 +1,126 @@
+import { useState } from "react";
+import {
+  Button,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Radio,
+  RadioGroup,
+  Textarea,
+  addToast,
+} from "@heroui/react";
+import { useMutation } from "@tanstack/react-query";
+
+import { useI18n } from "@/features/i18n";
+import { api, getApiErrorMessage } from "@/lib/api";
+
+const REPORT_REASONS = [
+  "SCAM",
+  "SPAM",
+  "OFFENSIVE",
+  "PROHIBITED_ITEM",
+  "MISLEADING",
+  "OTHER",
+] as const;
+
+type ReportReason = (typeof REPORT_REASONS)[number];
+
+/** Reason picker for flagging an ad or a review to moderators. */
+export function ReportDialog({
+  isOpen,
+  onClose,
+  endpoint,
+  target,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  endpoint: string;
+  target: "ad" | "comment";
+}) {
+  const { t } = useI18n();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+
+  const close = () => {
+    setReason(null);
+    setDetails("");
+    onClose();
+  };
+
+  const reportMutation = useMutation({
+    mutationFn: async () =>
+      (
+        await api.post(endpoint, {
+          reason,
+          details: details.trim() || undefined,
+        })
+      ).data as { alreadyReported: boolean },
+    onSuccess: (result) => {
+      addToast({
+        title: result.alreadyReported
+          ? t("report.toast.already.title")
+          : t("report.toast.sent.title"),
+        description: t("report.toast.sent.description"),
+        color: "success",
+      });
+      close();
+    },
+    onError: (error) => {
+      addToast({
+        title: t("report.toast.failed.title"),
+        description: getApiErrorMessage(error),
+        color: "danger",
+      });
+    },
+  });
+
+  return (
+    <Modal isOpen={isOpen} onClose={close} size="md">
+      <ModalContent>
+        <ModalHeader>
+          {target === "ad" ? t("report.titleAd") : t("report.titleComment")}
+        </ModalHeader>
+        <ModalBody className="space-y-3">
+          <RadioGroup
+            value={reason ?? ""}
+            onValueChange={(value) => setReason(value as ReportReason)}
+            label={t("report.reasonLabel")}
+          >
+            {REPORT_REASONS.map((entry) => (
+              <Radio key={entry} value={entry}>
+                {t(`report.reason.${entry}`)}
+              </Radio>
+            ))}
+          </RadioGroup>
+          <Textarea
+            value={details}
+            onValueChange={setDetails}
+            variant="bordered"
+            maxLength={500}
+            minRows={2}
+            placeholder={t("report.detailsPlaceholder")}
+          />
+        </ModalBody>
+        <ModalFooter>
+          <Button
+            variant="light"
+            onPress={close}
+            isDisabled={reportMutation.isPending}
+          >
+            {t("common.cancel")}
+          </Button>
+          <Button
+            color="danger"
+            onPress={() => reportMutation.mutate()}
+            isDisabled={!reason}
+            isLoading={reportMutation.isPending}
+          >
+            {t("report.submit")}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
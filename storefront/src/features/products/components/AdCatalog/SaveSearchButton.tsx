@@ -0,0 +1,77 @@
+import { Button, addToast } from "@heroui/react";
+import { BellPlus } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+
+import type { SavedSearch } from "@/features/products/types";
+import { api, getApiErrorMessage } from "@/lib/api";
+import { useI18n } from "@/features/i18n";
+import { useAuth } from "@/features/auth/hooks/useAuth";
+import { requireLogin } from "@/features/auth/store/authStore";
+import { buildCatalogSearchPath } from "@/features/products/utils/savedSearch";
+
+export function SaveSearchButton({
+  query,
+  categoryIds,
+  minPrice,
+  maxPrice,
+}: {
+  query: string;
+  categoryIds: number[];
+  minPrice: number | null;
+  maxPrice: number | null;
+}) {
+  const { t } = useI18n();
+  const { user, authReady } = useAuth();
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post("/saved-searches", {
+        query: query || undefined,
+        categoryIds: categoryIds.length > 0 ? categoryIds : undefined,
+        minPrice: minPrice ?? undefined,
+        maxPrice: maxPrice ?? undefined,
+      });
+      return response.data as SavedSearch;
+    },
+    onSuccess: () => {
+      addToast({
+        title: t("savedSearches.toast.saved.title"),
+        description: user?.hasTelegram
+          ? t("savedSearches.toast.saved.description")
+          : t("savedSearches.telegramHint"),
+        color: "success",
+      });
+    },
+    onError: (error) => {
+      addToast({
+        title: t("savedSearches.toast.saveFailed.title"),
+        description: getApiErrorMessage(error),
+        color: "danger",
+      });
+    },
+  });
+
+  const handlePress = () => {
+    if (authReady && !user) {
+      // Carry the filters through login so the catalog can restore them.
+      requireLogin(buildCatalogSearchPath({ query, categoryIds }));
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <Button
+      size="sm"
+      radius="full"
+      variant="flat"
+      className="theme-action-soft h-6 min-w-0 px-3 text-[11px]"
+      startContent={<BellPlus size={12} />}
+      onPress={handlePress}
+      isLoading={saveMutation.isPending}
+      isDisabled={saveMutation.isSuccess}
+    >
+      {saveMutation.isSuccess ? t("savedSearches.saved") : t("savedSearches.save")}
+    </Button>
+  );
+}
@@ -1,13 +1,14 @@
 import { useCallback, useMemo } from "react";
 import { keepPreviousData, useQuery } from "@tanstack/react-query";
 
-import type { Category, PriceRange } from "../types";
+import type { Category, ItemDetailsFacet, PriceRange } from "../types";
 import { api, getApiErrorMessage } from "@/lib/api";
 import { useDebouncedValue } from "@/hooks/useDebouncedValue";
 
 type AdFiltersState = {
   categories: Category[];
   priceRanges: PriceRange[];
+  facets: ItemDetailsFacet[];
   isLoading: boolean;
   error: string | null;
   reload: () => void;
@@ -32,7 +33,10 @@ export function useAdFilters(baseUrl: string, queryString: string): AdFiltersSta
       const priceRanges = Array.isArray(payload?.priceRanges)
         ? (payload.priceRanges as PriceRange[])
         : [];
-      return { categories, priceRanges };
+      const facets = Array.isArray(payload?.facets)
+        ? (payload.facets as ItemDetailsFacet[])
+        : [];
+      return { categories, priceRanges, facets };
     },
     placeholderData: keepPreviousData,
     staleTime: 60_000,
@@ -45,6 +49,7 @@ export function useAdFilters(baseUrl: string, queryString: string): AdFiltersSta
   return {
     categories: query.data?.categories ?? [],
     priceRanges: query.data?.priceRanges ?? [],
+    facets: query.data?.facets ?? [],
     isLoading: query.isPending && !query.data,
     error: query.error ? getApiErrorMessage(query.error) : null,
     reload,
@@ -0,0 +1,72 @@
+import { useCallback, useMemo } from "react";
+import { addToast } from "@heroui/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { api, getApiErrorMessage } from "@/lib/api";
+import { useAuth } from "@/features/auth/hooks/useAuth";
+import { requireLogin } from "@/features/auth/store/authStore";
+import { useI18n } from "@/features/i18n";
+import { getCurrentPathWithQueryAndHash } from "@/lib/navigation";
+
+const FAVORITE_IDS_QUERY_KEY = ["favorites", "ids"] as const;
+
+export function useFavorites() {
+  const queryClient = useQueryClient();
+  const { user, authReady } = useAuth();
+  const { t } = useI18n();
+
+  const idsQuery = useQuery({
+    queryKey: FAVORITE_IDS_QUERY_KEY,
+    enabled: Boolean(user),
+    queryFn: async () =>
+      ((await api.get("/users/me/favorites/ids")).data as { data: number[] })
+        .data,
+    staleTime: 60_000,
+  });
+
+  const favoriteIds = useMemo(() => new Set(idsQuery.data ?? []), [idsQuery.data]);
+
+  const toggleMutation = useMutation({
+    mutationFn: async (input: { adId: number; favorited: boolean }) =>
+      input.favorited
+        ? api.post(`/ads/${input.adId}/favorite`)
+        : api.delete(`/ads/${input.adId}/favorite`),
+    onMutate: async (input) => {
+      await queryClient.cancelQueries({ queryKey: FAVORITE_IDS_QUERY_KEY });
+      const previous = queryClient.getQueryData<number[]>(FAVORITE_IDS_QUERY_KEY);
+      queryClient.setQueryData<number[]>(FAVORITE_IDS_QUERY_KEY, (current = []) =>
+        input.favorited
+          ? [input.adId, ...current.filter((id) => id !== input.adId)]
+          : current.filter((id) => id !== input.adId),
+      );
+      return { previous };
+    },
+    onError: (error, _input, context) => {
+      queryClient.setQueryData(FAVORITE_IDS_QUERY_KEY, context?.previous);
+      addToast({
+        title: t("favorites.toast.failed.title"),
+        description: getApiErrorMessage(error),
+        color: "danger",
+      });
+    },
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey: ["favorites"] });
+    },
+  });
+
+  const toggleFavorite = useCallback(
+    (adId: number) => {
+      if (authReady && !user) {
+        requireLogin(getCurrentPathWithQueryAndHash());
+        return;
+      }
+      toggleMutation.mutate({ adId, favorited: !favoriteIds.has(adId) });
+    },
+    [authReady, favoriteIds, toggleMutation, user],
+  );
+
+  return {
+    isFavorite: (adId: number) => favoriteIds.has(adId),
+    toggleFavorite,
+  };
+}
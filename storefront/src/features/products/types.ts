@@ -5,6 +5,10 @@ export type Ad = {
   price: number | string;
   status?: "PENDING" | "APPROVED" | "REJECTED";
   isActive?: boolean;
+  expiresAt?: string | null;
+  archivedAt?: string | null;
+  isFeatured?: boolean;
+  featuredUntil?: string | null;
   imageUrl?: string;
   imageUrls?: string[] | null;
   description?: string;
@@ -25,9 +29,25 @@ export type Ad = {
   itemDetails?: Record<string, unknown> | null;
   moderationNote?: string | null;
   merchantId?: number | null;
+  merchant?: {
+    id: number;
+    firstName?: string | null;
+    username?: string | null;
+    loginUsername?: string | null;
+    avatarUrl?: string | null;
+    verifiedAt?: string | null;
+  } | null;
   createdById?: number | null;
   createdAt?: string;
   updatedAt?: string;
+  searchHighlight?: AdSearchHighlight | null;
+};
+
+export type AdSearchHighlight = {
+  field: "name" | "description" | "itemDetails" | "category";
+  key: string | null;
+  text: string;
+  matches: Array<[number, number]>;
 };
 
 export type Category = {
@@ -41,6 +61,10 @@ export type Category = {
     required?: boolean;
     options?: string[];
   }> | null;
+  parentId?: number | null;
+  depth?: number;
+  // Own fields merged with those inherited from parent categories.
+  effectiveDynamicFields?: NonNullable<Category["dynamicFields"]>;
   productCount?: number;
 };
 
@@ -51,6 +75,18 @@ export type PriceRange = {
   label?: string;
 };
 
+export type ItemDetailsFacet =
+  | {
+      key: string;
+      label: string;
+      type: "select" | "boolean";
+      values: Array<{ value: string | boolean; count: number }>;
+    }
+  | { key: string; label: string; type: "number"; min: number; max: number };
+
+/** Selected values for select/boolean facets, or a min/max pair for numbers. */
+export type ItemDetailsFilterValue = string[] | { min: string; max: string };
+
 export type AdComment = {
   id: number;
   adId: number;
@@ -59,8 +95,10 @@ export type AdComment = {
   depth: number;
   rating: number | null;
   comment: string | null;
+  imageUrls?: string[];
   isEdited: boolean;
   editedAt?: string | null;
+  isHeld?: boolean;
   createdAt: string;
   updatedAt: string;
   user: {
@@ -69,12 +107,19 @@ export type AdComment = {
     avatarUrl?: string | null;
     isReviewBlocked?: boolean;
   };
+  authorRating?: number | null;
+  helpfulCount?: number;
+  notHelpfulCount?: number;
+  viewerVote?: "helpful" | "not_helpful" | null;
   replies?: AdComment[];
 };
 
+export type AdCommentSort = "newest" | "helpful" | "rating_desc" | "rating_asc";
+
 export type AdCommentMeta = {
   totalReviews: number;
   averageRating: number;
+  ratingHistogram?: Record<number, number>;
   comments?: {
     page: number;
     limit: number;
@@ -85,3 +130,48 @@ export type AdCommentMeta = {
   };
 };
 
+export type AdConversationMessage = {
+  id: number;
+  conversationId: number;
+  senderId: number;
+  body: string;
+  createdAt: string;
+};
+
+export type AdConversation = {
+  id: number;
+  adId: number;
+  ad: {
+    id: number;
+    name: string;
+    slug?: string;
+    imageUrl?: string | null;
+  } | null;
+  role: "buyer" | "seller";
+  counterpart: {
+    id: number | null;
+    displayName: string;
+    username?: string | null;
+    avatarUrl?: string | null;
+  };
+  lastMessage: AdConversationMessage | null;
+  lastMessageAt: string | null;
+  unreadCount: number;
+  createdAt: string;
+};
+
+export type SavedSearch = {
+  id: number;
+  name: string;
+  query: string | null;
+  categoryIds: number[];
+  minPrice: number | null;
+  maxPrice: number | null;
+  alertsEnabled: boolean;
+  lastNotifiedAt: string | null;
+  createdAt: string;
+};
+
+export type FavoriteAd = Ad & {
+  favoritedAt: string;
+};
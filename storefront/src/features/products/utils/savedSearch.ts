@@ -0,0 +1,15 @@
+/** Catalog URL that restores a search term and category selection. */
+export function buildCatalogSearchPath(search: {
+  query?: string | null;
+  categoryIds?: number[] | null;
+}): string {
+  const params = new URLSearchParams();
+  if (search.query) {
+    params.set("q", search.query);
+  }
+  if (search.categoryIds && search.categoryIds.length > 0) {
+    params.set("categoryIds", search.categoryIds.join(","));
+  }
+  const query = params.toString();
+  return `/${query ? `?${query}` : ""}#collection`;
+}
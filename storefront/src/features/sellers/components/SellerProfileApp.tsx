@@ -0,0 +1,33 @@
+import { useEffect } from "react";
+import { HeroUIProvider } from "@heroui/react";
+
+import QueryProvider from "@/app/QueryProvider";
+import { I18nProvider } from "@/features/i18n";
+import SellerProfilePage from "./SellerProfilePage";
+
+export default function SellerProfileApp({
+  apiBase,
+  imageBase,
+}: {
+  apiBase: string;
+  imageBase: string;
+}) {
+  useEffect(() => {
+    if (typeof document === "undefined") return;
+    document.documentElement.setAttribute("data-seller-ready", "true");
+
+    return () => {
+      document.documentElement.removeAttribute("data-seller-ready");
+    };
+  }, []);
+
+  return (
+    <I18nProvider>
+      <HeroUIProvider>
+        <QueryProvider>
+          <SellerProfilePage apiBase={apiBase} imageBase={imageBase} />
+        </QueryProvider>
+      </HeroUIProvider>
+    </I18nProvider>
+  );
+}
@@ -0,0 +1,243 @@
+import { useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import { Avatar, Button, Chip } from "@heroui/react";
+import axios from "axios";
+import {
+  BadgeCheck,
+  CalendarDays,
+  MessageCircle,
+  ShieldCheck,
+  Star,
+  Tag,
+} from "lucide-react";
+
+import { AdGrid } from "@/features/products/components/AdCatalog/AdGrid";
+import { AdPreviewModal } from "@/features/products/components/AdCatalog/AdPreviewModal";
+import { useAds } from "@/features/products/hooks/useAds";
+import type { Ad } from "@/features/products/types";
+import { formatLocaleDate, useI18n } from "@/features/i18n";
+import { getApiErrorMessage } from "@/lib/api";
+import { resolveImageUrl } from "@/lib/images";
+import { stripTrailingSlash } from "@/lib/url";
+import { useSellerProfile } from "../hooks/useSellerProfile";
+import { readSellerHandleFromLocation } from "../utils";
+
+const SELLER_ADS_LIMIT = 24;
+
+function StatCard({
+  icon,
+  label,
+  value,
+  hint,
+}: {
+  icon: ReactNode;
+  label: string;
+  value: string;
+  hint?: string;
+}) {
+  return (
+    <div className="glass rounded-2xl p-4">
+      <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.15em] text-ink-muted">
+        {icon}
+        <span>{label}</span>
+      </div>
+      <p className="mt-2 text-xl font-semibold">{value}</p>
+      {hint ? <p className="text-ink-muted mt-0.5 text-xs">{hint}</p> : null}
+    </div>
+  );
+}
+
+function SellerAds({
+  sellerId,
+  apiBase,
+  imageBase,
+}: {
+  sellerId: number;
+  apiBase: string;
+  imageBase: string;
+}) {
+  const { t } = useI18n();
+  const [previewAd, setPreviewAd] = useState<Ad | null>(null);
+  const baseUrl = useMemo(() => stripTrailingSlash(apiBase), [apiBase]);
+  const queryString = new URLSearchParams({
+    merchantId: String(sellerId),
+    limit: String(SELLER_ADS_LIMIT),
+  }).toString();
+  const { ads, isLoading, error, reload } = useAds(baseUrl, queryString);
+
+  return (
+    <>
+      {!isLoading && !error && ads.length === 0 ? (
+        <div className="glass rounded-3xl p-8 text-center">
+          <p className="text-ink-muted text-sm">{t("seller.noAds")}</p>
+        </div>
+      ) : (
+        <AdGrid
+          ads={ads}
+          isLoading={isLoading}
+          error={error}
+          imageBase={imageBase}
+          onRetry={reload}
+          onPreview={setPreviewAd}
+        />
+      )}
+
+      {previewAd ? (
+        <AdPreviewModal
+          isOpen
+          onClose={() => setPreviewAd(null)}
+          ad={previewAd}
+          imageBase={imageBase}
+        />
+      ) : null}
+    </>
+  );
+}
+
+export default function SellerProfilePage({
+  apiBase,
+  imageBase,
+}: {
+  apiBase: string;
+  imageBase: string;
+}) {
+  const { locale, t } = useI18n();
+  const [handle] = useState(readSellerHandleFromLocation);
+  const profileQuery = useSellerProfile(handle);
+  const profile = profileQuery.data;
+
+  const formatResponseTime = (minutes: number) => {
+    if (minutes < 60) return t("seller.minutes", { count: Math.max(1, minutes) });
+    if (minutes < 48 * 60) return t("seller.hours", { count: Math.round(minutes / 60) });
+    return t("seller.days", { count: Math.round(minutes / (24 * 60)) });
+  };
+
+  const isNotFound =
+    !handle ||
+    (axios.isAxiosError(profileQuery.error) &&
+      profileQuery.error.response?.status === 404);
+
+  if (isNotFound) {
+    return (
+      <div className="glass mx-auto max-w-xl rounded-3xl p-8 text-center">
+        <p className="font-display text-2xl">{t("seller.notFound.title")}</p>
+        <p className="text-ink-muted mt-2 text-sm">{t("seller.notFound.body")}</p>
+        <Button as="a" href="/" variant="flat" className="theme-action-soft mt-5">
+          {t("notFound.goHome")}
+        </Button>
+      </div>
+    );
+  }
+
+  if (profileQuery.error) {
+    return (
+      <div className="glass mx-auto max-w-xl rounded-3xl p-8 text-center">
+        <p className="font-display text-xl">{t("seller.loadFailed")}</p>
+        <p className="text-ink-muted mt-1 text-sm">
+          {getApiErrorMessage(profileQuery.error)}
+        </p>
+        <Button
+          size="sm"
+          variant="flat"
+          className="theme-action-soft mt-4"
+          onPress={() => void profileQuery.refetch()}
+        >
+          {t("common.retry")}
+        </Button>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return null;
+  }
+
+  const memberSinceDate = new Date(profile.memberSince);
+  const memberSinceLabel = Number.isNaN(memberSinceDate.getTime())
+    ? null
+    : formatLocaleDate(memberSinceDate, locale, { year: "numeric", month: "long" });
+  const { rating, responses } = profile;
+
+  return (
+    <div className="space-y-8">
+      <header className="flex flex-col items-center gap-4 text-center sm:flex-row sm:text-left">
+        <Avatar
+          src={resolveImageUrl(imageBase, profile.avatarUrl) ?? undefined}
+          name={profile.displayName}
+          className="h-20 w-20 text-2xl"
+        />
+        <div className="min-w-0 space-y-2">
+          <div className="flex flex-wrap items-center justify-center gap-2 sm:justify-start">
+            <h1 className="font-display truncate text-3xl">{profile.displayName}</h1>
+            {profile.verifiedAt ? (
+              <Chip
+                size="sm"
+                variant="solid"
+                color="primary"
+                startContent={<ShieldCheck className="h-3.5 w-3.5" aria-hidden="true" />}
+              >
+                {t("verification.badge")}
+              </Chip>
+            ) : null}
+            {profile.telegramVerified ? (
+              <Chip
+                size="sm"
+                variant="flat"
+                color="primary"
+                startContent={<BadgeCheck className="h-3.5 w-3.5" aria-hidden="true" />}
+              >
+                {t("seller.telegramVerified")}
+              </Chip>
+            ) : null}
+          </div>
+          {profile.username ? (
+            <p className="text-ink-muted text-sm">@{profile.username}</p>
+          ) : null}
+          {memberSinceLabel ? (
+            <p className="text-ink-muted flex items-center justify-center gap-1.5 text-sm sm:justify-start">
+              <CalendarDays className="h-4 w-4" aria-hidden="true" />
+              {t("seller.memberSince", { date: memberSinceLabel })}
+            </p>
+          ) : null}
+        </div>
+      </header>
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+        <StatCard
+          icon={<Star className="h-3.5 w-3.5" aria-hidden="true" />}
+          label={t("seller.rating")}
+          value={rating.totalReviews > 0 ? `${rating.averageRating.toFixed(1)} / 5` : "-"}
+          hint={
+            rating.totalReviews > 0
+              ? t("seller.reviews", { count: rating.totalReviews })
+              : t("seller.noReviews")
+          }
+        />
+        <StatCard
+          icon={<MessageCircle className="h-3.5 w-3.5" aria-hidden="true" />}
+          label={t("seller.responseRate")}
+          value={responses.responseRate === null ? "-" : `${responses.responseRate}%`}
+          hint={
+            responses.medianResponseMinutes !== null
+              ? `${t("seller.responseTime")}: ${formatResponseTime(responses.medianResponseMinutes)}`
+              : responses.responseRate === null
+                ? t("seller.responseUnknown")
+                : undefined
+          }
+        />
+        <StatCard
+          icon={<Tag className="h-3.5 w-3.5" aria-hidden="true" />}
+          label={t("seller.activeAds")}
+          value={String(profile.activeAds)}
+        />
+      </div>
+
+      <section className="space-y-4">
+        <h2 className="font-display text-xl">
+          {t("seller.adsHeading", { name: profile.displayName })}
+        </h2>
+        <SellerAds sellerId={profile.id} apiBase={apiBase} imageBase={imageBase} />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import axios from "axios";
+
+import { api } from "@/lib/api";
+import type { SellerProfile } from "../types";
+
+export function useSellerProfile(handle: string | null) {
+  return useQuery({
+    queryKey: ["seller-profile", handle],
+    queryFn: async () =>
+      (await api.get(`/sellers/${encodeURIComponent(handle ?? "")}`))
+        .data as SellerProfile,
+    enabled: Boolean(handle),
+    retry: (failureCount, error) =>
+      !(axios.isAxiosError(error) && error.response?.status === 404) &&
+      failureCount < 2,
+    staleTime: 60_000,
+  });
+}
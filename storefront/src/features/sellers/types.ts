@@ -0,0 +1,19 @@
+export type SellerProfile = {
+  id: number;
+  username: string | null;
+  displayName: string;
+  avatarUrl: string | null;
+  memberSince: string;
+  telegramVerified: boolean;
+  verifiedAt: string | null;
+  activeAds: number;
+  rating: {
+    totalReviews: number;
+    averageRating: number;
+  };
+  responses: {
+    conversations: number;
+    responseRate: number | null;
+    medianResponseMinutes: number | null;
+  };
+};
@@ -0,0 +1,23 @@
+import type { Ad } from "@/features/products/types";
+
+/** Handle used in `/sellers/:username` links, or null when the seller has none. */
+export function getSellerHandle(merchant: Ad["merchant"]): string | null {
+  const handle = merchant?.loginUsername || merchant?.username;
+  return handle ? handle.trim() || null : null;
+}
+
+export function getSellerProfilePath(handle: string): string {
+  return `/sellers/${encodeURIComponent(handle)}`;
+}
+
+/** Reads the handle from `/sellers/<handle>`, which Apache rewrites to this page. */
+export function readSellerHandleFromLocation(): string | null {
+  if (typeof window === "undefined") return null;
+  const match = window.location.pathname.match(/^\/sellers\/([^/]+)\/?$/);
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]).trim() || null;
+  } catch {
+    return null;
+  }
+}
@@ -1,7 +1,17 @@
-import axios from "axios";
+import axios, { type InternalAxiosRequestConfig } from "axios";
 
 import { API_BASE } from "@/config/env";
-import { getAuthToken } from "@/features/auth/utils/token";
+import {
+  clearAuthToken,
+  getAuthToken,
+  getRefreshToken,
+  setAuthToken,
+} from "@/features/auth/utils/token";
+
+// Auth endpoints whose 401 means bad credentials, not an expired access token.
+const NO_REFRESH_PATHS = ["/auth/refresh", "/auth/logout", "/auth/telegram"];
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
 
 export const api = axios.create({
   baseURL: `${API_BASE}/v1`,
@@ -20,6 +30,54 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Shared by concurrent 401s so the refresh token is only rotated once.
+function refreshSession(): Promise<boolean> {
+  refreshInFlight ??= axios
+    .post(
+      `${API_BASE}/v1/auth/refresh`,
+      { refreshToken: getRefreshToken() ?? undefined },
+      { withCredentials: true },
+    )
+    .then((response) => {
+      const token = response.data?.token;
+      if (typeof token !== "string" || !token) return false;
+      setAuthToken(token, response.data?.refreshToken);
+      return true;
+    })
+    .catch(() => {
+      clearAuthToken();
+      return false;
+    })
+    .finally(() => {
+      refreshInFlight = null;
+    });
+  return refreshInFlight;
+}
+
+api.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const config = axios.isAxiosError(error)
+      ? (error.config as RetriableRequestConfig | undefined)
+      : undefined;
+    const canRefresh =
+      axios.isAxiosError(error) &&
+      error.response?.status === 401 &&
+      config &&
+      !config._retried &&
+      !NO_REFRESH_PATHS.some((path) => config.url?.startsWith(path));
+    if (canRefresh && config) {
+      config._retried = true;
+      if (await refreshSession()) {
+        return api(config);
+      }
+    }
+    return Promise.reject(error);
+  },
+);
+
 function extractMessage(data: unknown): string | null {
   if (!data || typeof data !== "object") return null;
   const message = (data as any).message;
@@ -29,3 +29,15 @@ export function consumeQueryFlag(
   window.history.replaceState({}, "", url.pathname + url.search + url.hash);
   return true;
 }
+
+export function consumeQueryParam(key: string): string | null {
+  if (typeof window === "undefined") return null;
+
+  const url = new URL(window.location.href);
+  const value = url.searchParams.get(key);
+  if (value === null) return null;
+
+  url.searchParams.delete(key);
+  window.history.replaceState({}, "", url.pathname + url.search + url.hash);
+  return value;
+}